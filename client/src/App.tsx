@@ -9,6 +9,8 @@ import { ThemeProvider } from "@/components/theme-provider";
 import { ThemeToggle } from "@/components/theme-toggle";
 import { InstanceProvider } from "@/components/instance-provider";
 import { InstanceSelector } from "@/components/instance-selector";
+import { NotificationCenter } from "@/components/notification-center";
+import { MaintenanceBanner } from "@/components/maintenance-banner";
 import { useAuth } from "@/hooks/use-auth";
 import NotFound from "@/pages/not-found";
 import Overview from "@/pages/overview";
@@ -20,10 +22,13 @@ import SettingsApiKeys from "@/pages/settings-api-keys";
 import SettingsAppearance from "@/pages/settings-appearance";
 import SettingsVps from "@/pages/settings-vps";
 import SettingsOpenclaw from "@/pages/settings-openclaw";
+import OpenclawConfigEditor from "@/pages/openclaw-config-editor";
 import SettingsIntegrations from "@/pages/settings-integrations";
+import SettingsWebhooks from "@/pages/settings-webhooks";
 import SettingsInstances from "@/pages/settings-instances";
 import SettingsSkills from "@/pages/settings-skills";
 import SettingsDashboard from "@/pages/settings-dashboard";
+import SettingsUsers from "@/pages/settings-users";
 import Documentation from "@/pages/documentation";
 import NodeSetupWizard from "@/pages/node-setup-wizard";
 import VpsMonitoring from "@/pages/vps-monitoring";
@@ -33,6 +38,7 @@ import AdminPage from "@/pages/admin";
 import SystemMonitor from "@/pages/system-monitor";
 import Automation from "@/pages/automation";
 import FileManager from "@/pages/file-manager";
+import TerminalPage from "@/pages/terminal";
 import Metrics from "@/pages/metrics";
 import Marketplace from "@/pages/marketplace";
 import EmailWorkflows from "@/pages/email-workflows";
@@ -69,10 +75,13 @@ function Router() {
       <Route path="/settings/appearance" component={SettingsAppearance} />
       <Route path="/settings/vps" component={SettingsVps} />
       <Route path="/settings/openclaw" component={SettingsOpenclaw} />
+      <Route path="/settings/openclaw/editor" component={OpenclawConfigEditor} />
       <Route path="/settings/integrations" component={SettingsIntegrations} />
+      <Route path="/settings/webhooks" component={SettingsWebhooks} />
       <Route path="/settings/instances" component={SettingsInstances} />
       <Route path="/settings/skills" component={SettingsSkills} />
       <Route path="/settings/dashboard" component={SettingsDashboard} />
+      <Route path="/settings/users" component={SettingsUsers} />
       <Route path="/docs" component={Documentation} />
       <Route path="/node-setup" component={NodeSetupWizard} />
       <Route path="/vps-monitor" component={VpsMonitoring} />
@@ -82,6 +91,7 @@ function Router() {
       <Route path="/system-monitor" component={SystemMonitor} />
       <Route path="/automation" component={Automation} />
       <Route path="/files" component={FileManager} />
+      <Route path="/terminal" component={TerminalPage} />
       <Route path="/metrics" component={Metrics} />
       <Route path="/marketplace" component={Marketplace} />
       <Route path="/email-workflows" component={EmailWorkflows} />
@@ -125,9 +135,11 @@ function AuthenticatedLayout() {
               <SidebarTrigger data-testid="button-sidebar-toggle" />
               <div className="flex items-center gap-2">
                 <InstanceSelector />
+                <NotificationCenter />
                 <ThemeToggle />
               </div>
             </header>
+            <MaintenanceBanner />
             <main className="flex-1 overflow-auto">
               <KeyboardShortcuts />
               <Router />
@@ -11,6 +11,7 @@ import {
   Server,
   Cog,
   Plug,
+  Webhook,
   LogOut,
   Layers,
   Zap,
@@ -23,6 +24,8 @@ import {
   Monitor,
   Clock,
   FolderOpen,
+  SquareTerminal,
+  FileJson,
   BarChart3,
   Store,
   Mail,
@@ -43,6 +46,7 @@ import {
   Smartphone,
   GitBranch,
   Megaphone,
+  UserCog,
 } from "lucide-react";
 import {
   Sidebar,
@@ -60,13 +64,16 @@ import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { useAuth } from "@/hooks/use-auth";
 import { useToast } from "@/hooks/use-toast";
+import type { Permission } from "@shared/schema";
 
-const navItems = [
+type NavItem = { title: string; url: string; icon: React.ElementType; permission?: Permission };
+
+const navItems: NavItem[] = [
   { title: "Overview", url: "/", icon: LayoutDashboard },
   { title: "Documentation", url: "/docs", icon: FileText },
   { title: "Node Setup", url: "/node-setup", icon: Wand2 },
   { title: "Commands", url: "/commands", icon: Terminal },
-  { title: "AI Task Runner", url: "/ai-tasks", icon: Bot },
+  { title: "AI Task Runner", url: "/ai-tasks", icon: Bot, permission: "shell" },
   { title: "Admin", url: "/admin", icon: Shield },
   { title: "Marketplace", url: "/marketplace", icon: Store },
   { title: "Email Workflows", url: "/email-workflows", icon: Mail },
@@ -76,31 +83,35 @@ const navItems = [
   { title: "Voice Chat", url: "/voice-chat", icon: AudioWaveform },
 ];
 
-const settingsItems = [
+const settingsItems: NavItem[] = [
   { title: "General", url: "/settings/general", icon: Settings },
   { title: "Notifications", url: "/settings/notifications", icon: Bell },
   { title: "Nodes", url: "/settings/machines", icon: Cpu },
-  { title: "API Keys", url: "/settings/api-keys", icon: KeyRound },
-  { title: "Secrets Inventory", url: "/secrets", icon: Shield },
+  { title: "API Keys", url: "/settings/api-keys", icon: KeyRound, permission: "secrets" },
+  { title: "Secrets Inventory", url: "/secrets", icon: Shield, permission: "secrets" },
+  { title: "Users & Roles", url: "/settings/users", icon: UserCog, permission: "users" },
   { title: "Appearance", url: "/settings/appearance", icon: Palette },
 ];
 
-const infraItems = [
+const infraItems: NavItem[] = [
   { title: "Instances", url: "/settings/instances", icon: Layers },
   { title: "Dashboard", url: "/settings/dashboard", icon: LayoutDashboard },
   { title: "System Monitor", url: "/system-monitor", icon: Monitor },
   { title: "Metrics", url: "/metrics", icon: BarChart3 },
   { title: "Automation", url: "/automation", icon: Clock },
-  { title: "File Manager", url: "/files", icon: FolderOpen },
+  { title: "File Manager", url: "/files", icon: FolderOpen, permission: "shell" },
+  { title: "Terminal", url: "/terminal", icon: SquareTerminal, permission: "shell" },
   { title: "VPS Monitoring", url: "/vps-monitor", icon: Activity },
   { title: "VPS Connection", url: "/settings/vps", icon: Server },
   { title: "OpenClaw Config", url: "/settings/openclaw", icon: Cog },
+  { title: "Config Editor", url: "/settings/openclaw/editor", icon: FileJson, permission: "secrets" },
   { title: "Skills", url: "/settings/skills", icon: Zap },
   { title: "Integrations", url: "/settings/integrations", icon: Plug },
-  { title: "Gemini Proxy", url: "/settings/gemini-proxy", icon: Sparkles },
+  { title: "Webhooks", url: "/settings/webhooks", icon: Webhook, permission: "manage" },
+  { title: "Gemini Proxy", url: "/settings/gemini-proxy", icon: Sparkles, permission: "secrets" },
 ];
 
-const automationItems = [
+const automationItems: NavItem[] = [
   { title: "Daily Briefing", url: "/daily-briefing", icon: Sun },
   { title: "Health Tracker", url: "/health-tracker", icon: Heart },
   { title: "Todo List", url: "/todo-list", icon: ListTodo },
@@ -117,7 +128,7 @@ const automationItems = [
 
 export function AppSidebar() {
   const [location] = useLocation();
-  const { user, logout, isLoggingOut } = useAuth();
+  const { user, logout, isLoggingOut, can } = useAuth();
   const { toast } = useToast();
   const prevCountRef = useRef<number | null>(null);
 
@@ -143,7 +154,9 @@ export function AppSidebar() {
 
   const badgePages = new Set(["/marketplace", "/settings/skills"]);
 
-  const renderNavItem = (item: { title: string; url: string; icon: React.ElementType }) => {
+  const visible = (items: NavItem[]) => items.filter(item => !item.permission || can(item.permission));
+
+  const renderNavItem = (item: NavItem) => {
     const isActive =
       item.url === "/"
         ? location === "/"
@@ -189,7 +202,7 @@ export function AppSidebar() {
         <SidebarGroup>
           <SidebarGroupContent>
             <SidebarMenu>
-              {navItems.map(renderNavItem)}
+              {visible(navItems).map(renderNavItem)}
             </SidebarMenu>
           </SidebarGroupContent>
         </SidebarGroup>
@@ -197,7 +210,7 @@ export function AppSidebar() {
           <SidebarGroupLabel>Settings</SidebarGroupLabel>
           <SidebarGroupContent>
             <SidebarMenu>
-              {settingsItems.map(renderNavItem)}
+              {visible(settingsItems).map(renderNavItem)}
             </SidebarMenu>
           </SidebarGroupContent>
         </SidebarGroup>
@@ -205,7 +218,7 @@ export function AppSidebar() {
           <SidebarGroupLabel>Infrastructure</SidebarGroupLabel>
           <SidebarGroupContent>
             <SidebarMenu>
-              {infraItems.map(renderNavItem)}
+              {visible(infraItems).map(renderNavItem)}
             </SidebarMenu>
           </SidebarGroupContent>
         </SidebarGroup>
@@ -213,7 +226,7 @@ export function AppSidebar() {
           <SidebarGroupLabel>Automation Hub</SidebarGroupLabel>
           <SidebarGroupContent>
             <SidebarMenu>
-              {automationItems.map(renderNavItem)}
+              {visible(automationItems).map(renderNavItem)}
             </SidebarMenu>
           </SidebarGroupContent>
         </SidebarGroup>
@@ -229,7 +242,7 @@ export function AppSidebar() {
                 {user.displayName || user.username}
               </span>
               <span className="text-xs text-muted-foreground truncate" data-testid="text-user-username">
-                @{user.username}
+                @{user.username} · <span className="capitalize" data-testid="text-user-role">{user.role}</span>
               </span>
             </div>
           </div>
@@ -48,7 +48,7 @@ const LANGUAGE_MAP: Record<string, string> = {
   txt: "plaintext",
 };
 
-function detectLanguage(filename: string): string {
+export function detectLanguage(filename: string): string {
   const ext = filename.split(".").pop()?.toLowerCase() || "";
   if (filename.toLowerCase() === "dockerfile") return "dockerfile";
   return LANGUAGE_MAP[ext] || "plaintext";
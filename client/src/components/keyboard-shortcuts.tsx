@@ -19,6 +19,7 @@ import {
   Server,
   Cog,
   Plug,
+  Webhook,
   Layers,
   Zap,
   FileText,
@@ -64,6 +65,7 @@ const allPages = [
   { title: "OpenClaw Config", url: "/settings/openclaw", icon: Cog },
   { title: "Skills", url: "/settings/skills", icon: Zap },
   { title: "Integrations", url: "/settings/integrations", icon: Plug },
+  { title: "Webhooks", url: "/settings/webhooks", icon: Webhook },
   { title: "Gemini Proxy", url: "/settings/gemini-proxy", icon: Sparkles },
   { title: "Replit Projects", url: "/replit-projects", icon: Code2 },
 ];
@@ -0,0 +1,43 @@
+import { useQuery } from "@tanstack/react-query";
+import { Wrench, CalendarClock } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+import type { MaintenanceState } from "@shared/schema";
+
+function formatTime(value: string) {
+  return new Date(value).toLocaleString(undefined, { month: "short", day: "numeric", hour: "2-digit", minute: "2-digit" });
+}
+
+export function MaintenanceBanner() {
+  const { user } = useAuth();
+  const { data } = useQuery<MaintenanceState>({ queryKey: ["/api/maintenance"] });
+  if (!data?.enabled) return null;
+
+  if (!data.active) {
+    if (!data.startsAt || new Date(data.startsAt).getTime() <= Date.now()) return null;
+    return (
+      <div className="flex items-center gap-2 px-4 py-2 border-b bg-muted text-sm" data-testid="banner-maintenance-scheduled">
+        <CalendarClock className="h-4 w-4 shrink-0" />
+        <span>
+          Maintenance is scheduled for {formatTime(data.startsAt)}
+          {data.endsAt && ` until ${formatTime(data.endsAt)}`}.
+        </span>
+      </div>
+    );
+  }
+
+  return (
+    <div
+      className="flex items-center gap-2 px-4 py-2 border-b bg-yellow-500/15 text-yellow-900 dark:text-yellow-200 text-sm"
+      data-testid="banner-maintenance"
+    >
+      <Wrench className="h-4 w-4 shrink-0" />
+      <span>
+        <span className="font-semibold">{data.message}</span>
+        {data.endsAt && ` Expected to end ${formatTime(data.endsAt)}.`}
+        {user?.role === "owner"
+          ? " Only owners can make changes; automation and Guardian scans are paused."
+          : " Changes are disabled until it ends."}
+      </span>
+    </div>
+  );
+}
@@ -0,0 +1,123 @@
+import { useState } from "react";
+import { useLocation } from "wouter";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Bell, CheckCheck, AlertTriangle, AlertOctagon, Info } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useLiveUpdates } from "@/hooks/use-live-updates";
+import type { UserNotification } from "@shared/schema";
+
+interface NotificationList {
+  notifications: UserNotification[];
+  unread: number;
+}
+
+const SEVERITY_ICONS = {
+  info: <Info className="h-4 w-4 text-muted-foreground" />,
+  warning: <AlertTriangle className="h-4 w-4 text-yellow-500" />,
+  critical: <AlertOctagon className="h-4 w-4 text-destructive" />,
+} as Record<string, JSX.Element>;
+
+function formatTimestamp(value: Date | string) {
+  const d = new Date(value);
+  const diff = Date.now() - d.getTime();
+  if (diff < 60000) return "Just now";
+  if (diff < 3600000) return `${Math.floor(diff / 60000)}m ago`;
+  if (diff < 86400000) return `${Math.floor(diff / 3600000)}h ago`;
+  return d.toLocaleDateString(undefined, { month: "short", day: "numeric", hour: "2-digit", minute: "2-digit" });
+}
+
+export function NotificationCenter() {
+  useLiveUpdates();
+  const [open, setOpen] = useState(false);
+  const [, setLocation] = useLocation();
+
+  const { data } = useQuery<NotificationList>({ queryKey: ["/api/notifications"] });
+  const unread = data?.unread ?? 0;
+
+  const markRead = useMutation({
+    mutationFn: async (id: string) => apiRequest("POST", `/api/notifications/${id}/read`),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["/api/notifications"] }),
+  });
+
+  const markAllRead = useMutation({
+    mutationFn: async () => apiRequest("POST", "/api/notifications/read-all"),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["/api/notifications"] }),
+  });
+
+  const openNotification = (notification: UserNotification) => {
+    if (!notification.read) markRead.mutate(notification.id);
+    if (notification.link) {
+      setOpen(false);
+      setLocation(notification.link);
+    }
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button size="icon" variant="ghost" className="relative" data-testid="button-notifications">
+          <Bell className="h-4 w-4" />
+          {unread > 0 && (
+            <span
+              className="absolute -top-0.5 -right-0.5 min-w-4 h-4 px-1 rounded-full bg-destructive text-destructive-foreground text-[10px] font-semibold leading-4 text-center"
+              data-testid="badge-notifications-unread"
+            >
+              {unread > 99 ? "99+" : unread}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-96 p-0">
+        <div className="flex items-center justify-between gap-2 px-3 py-2 border-b">
+          <p className="text-sm font-semibold">Notifications</p>
+          <Button
+            size="sm"
+            variant="ghost"
+            disabled={unread === 0 || markAllRead.isPending}
+            onClick={() => markAllRead.mutate()}
+            data-testid="button-notifications-read-all"
+          >
+            <CheckCheck className="h-4 w-4 mr-1" />
+            Mark all read
+          </Button>
+        </div>
+        <div className="max-h-96 overflow-y-auto">
+          {!data?.notifications.length ? (
+            <p className="text-sm text-muted-foreground text-center py-8" data-testid="text-notifications-empty">No notifications</p>
+          ) : (
+            <div className="divide-y">
+              {data.notifications.map(notification => (
+                <button
+                  key={notification.id}
+                  type="button"
+                  className={`w-full text-left flex gap-2 px-3 py-2 hover-elevate ${notification.read ? "opacity-70" : ""}`}
+                  onClick={() => openNotification(notification)}
+                  data-testid={`notification-${notification.id}`}
+                >
+                  <span className="mt-0.5 shrink-0">{SEVERITY_ICONS[notification.severity] ?? SEVERITY_ICONS.info}</span>
+                  <span className="min-w-0 flex-1">
+                    <span className="flex items-center gap-1.5">
+                      <span className={`text-sm truncate ${notification.read ? "" : "font-semibold"}`}>{notification.title}</span>
+                      {notification.occurrences > 1 && (
+                        <span className="text-xs text-muted-foreground shrink-0">×{notification.occurrences}</span>
+                      )}
+                      {!notification.read && <span className="ml-auto h-2 w-2 rounded-full bg-primary shrink-0" />}
+                    </span>
+                    {notification.body && (
+                      <span className="block text-xs text-muted-foreground line-clamp-2 whitespace-pre-line">{notification.body}</span>
+                    )}
+                    <span className="block text-xs text-muted-foreground mt-0.5">
+                      {formatTimestamp(notification.updatedAt)} · {notification.category.replace(/_/g, " ")}
+                    </span>
+                  </span>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
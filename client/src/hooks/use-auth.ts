@@ -1,8 +1,8 @@
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { queryClient, apiRequest } from "@/lib/queryClient";
-import type { User } from "@shared/schema";
+import type { User, Permission } from "@shared/schema";
 
-type AuthResponse = { user: User | null };
+type AuthResponse = { user: User | null; permissions?: Permission[] };
 
 export function useAuth() {
   const { data, isLoading } = useQuery<AuthResponse>({
@@ -26,8 +26,12 @@ export function useAuth() {
     },
   });
 
+  const permissions = data?.permissions ?? [];
+
   return {
     user: data?.user ?? null,
+    permissions,
+    can: (permission: Permission) => permissions.includes(permission),
     isLoading,
     isAuthenticated: !!data?.user,
     logout: () => logoutMutation.mutate(),
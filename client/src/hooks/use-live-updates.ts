@@ -0,0 +1,70 @@
+import { useEffect } from "react";
+import { queryClient } from "@/lib/queryClient";
+import { useInstance } from "@/hooks/use-instance";
+import { useToast } from "@/hooks/use-toast";
+import type { UserNotification } from "@shared/schema";
+
+// Refetched after a reconnect, since pushes sent while the stream was down are lost.
+const LIVE_QUERY_KEYS = [
+  ["/api/notifications"],
+  ["/api/maintenance"],
+  ["/api/machines"],
+  ["/api/whatsapp/status"],
+  ["/api/gateway/probe"],
+  ["/api/gateway/health"],
+  ["/api/nodes/live-status"],
+];
+
+function parse(event: Event): any {
+  try {
+    return JSON.parse((event as MessageEvent).data);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Keeps one server-sent event stream open for the signed-in tab. The server pushes notifications,
+ * gateway health for the selected instance and the query keys that went stale, instead of each page polling.
+ */
+export function useLiveUpdates() {
+  const { selectedInstanceId } = useInstance();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    const source = new EventSource(`/api/live${selectedInstanceId ? `?instanceId=${encodeURIComponent(selectedInstanceId)}` : ""}`);
+    let connected = false;
+
+    source.addEventListener("ready", () => {
+      if (connected) {
+        LIVE_QUERY_KEYS.forEach(queryKey => queryClient.invalidateQueries({ queryKey }));
+      }
+      connected = true;
+    });
+
+    source.addEventListener("invalidate", event => {
+      const data = parse(event);
+      (data?.queryKeys as string[][] | undefined)?.forEach(queryKey => queryClient.invalidateQueries({ queryKey }));
+    });
+
+    source.addEventListener("gateway.health", event => {
+      const data = parse(event);
+      if (data?.instanceId) queryClient.setQueryData(["/api/gateway/health", data.instanceId], data.health);
+    });
+
+    source.addEventListener("notification", event => {
+      const data = parse(event) as { created: boolean; notification: UserNotification } | null;
+      if (!data) return;
+      queryClient.invalidateQueries({ queryKey: ["/api/notifications"] });
+      if (data.created && data.notification.severity !== "info") {
+        toast({
+          title: data.notification.title,
+          description: data.notification.body || undefined,
+          variant: data.notification.severity === "critical" ? "destructive" : "default",
+        });
+      }
+    });
+
+    return () => source.close();
+  }, [selectedInstanceId, toast]);
+}
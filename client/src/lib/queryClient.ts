@@ -23,6 +23,50 @@ export async function apiRequest(
   return res;
 }
 
+export interface StreamEvent {
+  event: string;
+  data: any;
+}
+
+/** POSTs to a server-sent event endpoint and calls onEvent for each event until the stream ends. */
+export async function streamRequest(
+  url: string,
+  data: unknown | undefined,
+  onEvent: (event: StreamEvent) => void,
+  signal?: AbortSignal,
+): Promise<void> {
+  const res = await fetch(url, {
+    method: "POST",
+    headers: { Accept: "text/event-stream", ...(data ? { "Content-Type": "application/json" } : {}) },
+    body: data ? JSON.stringify(data) : undefined,
+    credentials: "include",
+    signal,
+  });
+
+  await throwIfResNotOk(res);
+  if (!res.body) throw new Error("Streaming is not supported by this browser");
+
+  const reader = res.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = "";
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += value;
+    let boundary: number;
+    while ((boundary = buffer.indexOf("\n\n")) !== -1) {
+      const frame = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+      let event = "message";
+      const dataLines: string[] = [];
+      for (const line of frame.split("\n")) {
+        if (line.startsWith("event: ")) event = line.slice(7);
+        else if (line.startsWith("data: ")) dataLines.push(line.slice(6));
+      }
+      if (dataLines.length > 0) onEvent({ event, data: JSON.parse(dataLines.join("\n")) });
+    }
+  }
+}
+
 type UnauthorizedBehavior = "returnNull" | "throw";
 export const getQueryFn: <T>(options: {
   on401: UnauthorizedBehavior;
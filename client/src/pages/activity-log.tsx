@@ -1,10 +1,17 @@
-import { useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { useQuery } from "@tanstack/react-query";
+import { Terminal as XTerm } from "@xterm/xterm";
+import { FitAddon } from "@xterm/addon-fit";
+import "@xterm/xterm/css/xterm.css";
+import type { OperationRecord, OperationRecordSummary, OperationTranscriptEvent } from "@shared/schema";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { History, ChevronLeft, ChevronRight, Filter } from "lucide-react";
+import { History, ChevronLeft, ChevronRight, Filter, Search, Download, Play, Pause, RotateCcw, Loader2 } from "lucide-react";
 
 type AuditLog = {
   id: string;
@@ -29,6 +36,11 @@ const ACTION_TYPE_COLORS: Record<string, string> = {
   settings_update: "bg-green-500/10 text-green-600 dark:text-green-400",
   config_change: "bg-purple-500/10 text-purple-600 dark:text-purple-400",
   instance_change: "bg-rose-500/10 text-rose-600 dark:text-rose-400",
+  role_change: "bg-cyan-500/10 text-cyan-600 dark:text-cyan-400",
+  security_change: "bg-red-500/10 text-red-600 dark:text-red-400",
+  terminal_session: "bg-slate-500/10 text-slate-600 dark:text-slate-400",
+  data_export: "bg-orange-500/10 text-orange-600 dark:text-orange-400",
+  file_change: "bg-teal-500/10 text-teal-600 dark:text-teal-400",
 };
 
 const ACTION_TYPES = [
@@ -38,8 +50,34 @@ const ACTION_TYPES = [
   { value: "settings_update", label: "Settings Updates" },
   { value: "config_change", label: "Config Changes" },
   { value: "instance_change", label: "Instance Changes" },
+  { value: "role_change", label: "Role Changes" },
+  { value: "security_change", label: "Security Changes" },
+  { value: "terminal_session", label: "Terminal Sessions" },
+  { value: "data_export", label: "Data Exports" },
+  { value: "file_change", label: "File Changes" },
 ];
 
+type OperationsResponse = {
+  records: OperationRecordSummary[];
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+};
+
+const OPERATION_TYPE_FILTERS = [
+  { value: "all", label: "All Operations" },
+  { value: "ssh_command", label: "SSH Commands" },
+  { value: "gateway_action", label: "Gateway Actions" },
+  { value: "file_write", label: "File Writes" },
+  { value: "ai_task", label: "AI Tasks" },
+  { value: "terminal", label: "Terminal Sessions" },
+];
+
+const REPLAY_SPEEDS = [1, 2, 4, 8];
+// Long pauses in a recorded session are shortened so replays don't sit idle.
+const MAX_REPLAY_GAP_MS = 2000;
+
 function formatTimestamp(ts: string) {
   const d = new Date(ts);
   const now = new Date();
@@ -50,7 +88,37 @@ function formatTimestamp(ts: string) {
   return d.toLocaleDateString(undefined, { month: "short", day: "numeric", hour: "2-digit", minute: "2-digit" });
 }
 
+function formatDuration(ms: number) {
+  if (ms < 1000) return `${ms}ms`;
+  if (ms < 60000) return `${(ms / 1000).toFixed(1)}s`;
+  return `${Math.floor(ms / 60000)}m ${Math.round((ms % 60000) / 1000)}s`;
+}
+
 export default function ActivityLog() {
+  return (
+    <div className="p-6 space-y-6 max-w-5xl mx-auto">
+      <div className="flex items-center gap-3">
+        <History className="h-6 w-6 text-muted-foreground" />
+        <h1 className="text-2xl font-bold" data-testid="text-activity-log-title">Activity Log</h1>
+      </div>
+
+      <Tabs defaultValue="audit">
+        <TabsList data-testid="tabs-activity-log">
+          <TabsTrigger value="audit" data-testid="tab-audit">Audit Log</TabsTrigger>
+          <TabsTrigger value="operations" data-testid="tab-operations">Operations</TabsTrigger>
+        </TabsList>
+        <TabsContent value="audit" className="mt-6">
+          <AuditLogTab />
+        </TabsContent>
+        <TabsContent value="operations" className="mt-6">
+          <OperationsTab />
+        </TabsContent>
+      </Tabs>
+    </div>
+  );
+}
+
+function AuditLogTab() {
   const [page, setPage] = useState(1);
   const [actionType, setActionType] = useState("all");
   const limit = 25;
@@ -66,12 +134,8 @@ export default function ActivityLog() {
   const totalPages = data?.totalPages ?? 1;
 
   return (
-    <div className="p-6 space-y-6 max-w-5xl mx-auto">
-      <div className="flex items-center justify-between">
-        <div className="flex items-center gap-3">
-          <History className="h-6 w-6 text-muted-foreground" />
-          <h1 className="text-2xl font-bold" data-testid="text-activity-log-title">Activity Log</h1>
-        </div>
+    <div className="space-y-6">
+      <div className="flex items-center justify-end">
         <div className="flex items-center gap-2">
           <Filter className="h-4 w-4 text-muted-foreground" />
           <Select value={actionType} onValueChange={(v) => { setActionType(v); setPage(1); }}>
@@ -177,3 +241,295 @@ export default function ActivityLog() {
     </div>
   );
 }
+
+function OperationsTab() {
+  const [page, setPage] = useState(1);
+  const [search, setSearch] = useState("");
+  const [query, setQuery] = useState("");
+  const [operationType, setOperationType] = useState("all");
+  const [outcome, setOutcome] = useState("all");
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const limit = 25;
+
+  const filterParams = new URLSearchParams();
+  if (query) filterParams.set("q", query);
+  if (operationType !== "all") filterParams.set("operationType", operationType);
+  if (outcome !== "all") filterParams.set("success", outcome === "success" ? "true" : "false");
+  const queryUrl = `/api/operations?page=${page}&limit=${limit}&${filterParams.toString()}`;
+
+  const { data, isLoading, isError } = useQuery<OperationsResponse>({
+    queryKey: [queryUrl],
+    refetchInterval: 30000,
+  });
+
+  const records = data?.records ?? [];
+  const totalPages = data?.totalPages ?? 1;
+  const exportUrl = (format: "json" | "csv") => `/api/operations/export?format=${format}&${filterParams.toString()}`;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-2 flex-wrap">
+        <form
+          className="flex items-center gap-2 flex-1 min-w-[220px]"
+          onSubmit={(e) => { e.preventDefault(); setQuery(search.trim()); setPage(1); }}
+        >
+          <Input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search commands, hosts and output"
+            data-testid="input-operation-search"
+          />
+          <Button type="submit" variant="outline" size="icon" data-testid="button-operation-search">
+            <Search className="h-4 w-4" />
+          </Button>
+        </form>
+        <Select value={operationType} onValueChange={(v) => { setOperationType(v); setPage(1); }}>
+          <SelectTrigger className="w-[170px]" data-testid="select-operation-type-filter">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {OPERATION_TYPE_FILTERS.map((t) => (
+              <SelectItem key={t.value} value={t.value}>{t.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={outcome} onValueChange={(v) => { setOutcome(v); setPage(1); }}>
+          <SelectTrigger className="w-[130px]" data-testid="select-operation-outcome-filter">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Any outcome</SelectItem>
+            <SelectItem value="success">Succeeded</SelectItem>
+            <SelectItem value="failure">Failed</SelectItem>
+          </SelectContent>
+        </Select>
+        <Button variant="outline" size="sm" asChild data-testid="button-export-json">
+          <a href={exportUrl("json")} download><Download className="h-4 w-4 mr-1" /> JSON</a>
+        </Button>
+        <Button variant="outline" size="sm" asChild data-testid="button-export-csv">
+          <a href={exportUrl("csv")} download><Download className="h-4 w-4 mr-1" /> CSV</a>
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader className="pb-3">
+          <CardTitle className="text-sm text-muted-foreground font-normal">
+            {data ? `${data.total} recorded operations` : "Loading..."}
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isError ? (
+            <div className="text-center py-12 text-destructive" data-testid="text-operations-error">
+              Failed to load operation records. Please try again.
+            </div>
+          ) : isLoading ? (
+            <div className="space-y-3">
+              {[...Array(5)].map((_, i) => (
+                <div key={i} className="h-12 bg-muted/50 rounded animate-pulse" />
+              ))}
+            </div>
+          ) : records.length === 0 ? (
+            <div className="text-center py-12 text-muted-foreground" data-testid="text-no-operations">
+              No recorded operations match these filters.
+            </div>
+          ) : (
+            <div className="space-y-1">
+              {records.map((record) => (
+                <button
+                  key={record.id}
+                  type="button"
+                  onClick={() => setSelectedId(record.id)}
+                  className="w-full text-left flex items-start gap-3 py-3 px-2 rounded-md hover:bg-muted/30 transition-colors border-b border-border/50 last:border-0"
+                  data-testid={`row-operation-${record.id}`}
+                >
+                  <div className="min-w-[80px] text-xs text-muted-foreground pt-0.5">
+                    {formatTimestamp(record.startedAt as unknown as string)}
+                  </div>
+                  <Badge variant={record.success ? "secondary" : "destructive"} className="text-xs shrink-0">
+                    {record.operationType.replace(/_/g, " ")}
+                  </Badge>
+                  <div className="flex-1 min-w-0">
+                    <div className="text-sm font-mono truncate" data-testid={`text-operation-command-${record.id}`}>
+                      {record.summary || record.command}
+                    </div>
+                    <div className="text-xs text-muted-foreground mt-0.5 truncate">
+                      {record.targetHost} · {record.source}
+                      {record.exitCode !== null && ` · exit ${record.exitCode}`} · {formatDuration(record.durationMs)}
+                    </div>
+                  </div>
+                </button>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {totalPages > 1 && (
+        <div className="flex items-center justify-between">
+          <div className="text-sm text-muted-foreground" data-testid="text-operations-page-info">
+            Page {page} of {totalPages}
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" disabled={page <= 1} onClick={() => setPage((p) => Math.max(1, p - 1))} data-testid="button-operations-prev-page">
+              <ChevronLeft className="h-4 w-4" />
+              Previous
+            </Button>
+            <Button variant="outline" size="sm" disabled={page >= totalPages} onClick={() => setPage((p) => p + 1)} data-testid="button-operations-next-page">
+              Next
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <OperationReplayDialog id={selectedId} onClose={() => setSelectedId(null)} />
+    </div>
+  );
+}
+
+function OperationReplayDialog({ id, onClose }: { id: string | null; onClose: () => void }) {
+  const { data: record, isLoading } = useQuery<OperationRecord>({
+    queryKey: [`/api/operations/${id}`],
+    enabled: !!id,
+  });
+
+  return (
+    <Dialog open={!!id} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle data-testid="text-operation-title">{record?.summary || record?.command || "Operation"}</DialogTitle>
+          {record && (
+            <DialogDescription>
+              {record.userId ? `User ${record.userId}` : "System"} on {record.targetHost} · {new Date(record.startedAt).toLocaleString()} ·{" "}
+              {formatDuration(record.durationMs)}
+              {record.exitCode !== null && ` · exit ${record.exitCode}`}
+              {record.truncated && " · output truncated"}
+            </DialogDescription>
+          )}
+        </DialogHeader>
+        {isLoading || !record ? (
+          <div className="flex justify-center py-12"><Loader2 className="h-5 w-5 animate-spin text-muted-foreground" /></div>
+        ) : record.transcript ? (
+          <TranscriptPlayer transcript={record.transcript} />
+        ) : (
+          <div className="space-y-4">
+            <OutputBlock label="Command" text={record.command} testId="code-operation-command" />
+            {record.input && <OutputBlock label="Input" text={record.input} testId="code-operation-input" />}
+            <OutputBlock label="stdout" text={record.stdout} testId="code-operation-stdout" />
+            {record.stderr && <OutputBlock label="stderr" text={record.stderr} testId="code-operation-stderr" />}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function OutputBlock({ label, text, testId }: { label: string; text: string; testId: string }) {
+  return (
+    <div>
+      <div className="text-xs font-medium text-muted-foreground mb-1">{label}</div>
+      <pre className="text-xs font-mono bg-muted/50 rounded-md p-3 max-h-72 overflow-auto whitespace-pre-wrap break-all" data-testid={testId}>
+        {text || "(empty)"}
+      </pre>
+    </div>
+  );
+}
+
+function TranscriptPlayer({ transcript }: { transcript: OperationTranscriptEvent[] }) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const termRef = useRef<XTerm | null>(null);
+  const timerRef = useRef<ReturnType<typeof setTimeout>>();
+  const positionRef = useRef(0);
+  const [playing, setPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+  const [position, setPosition] = useState(0);
+  const output = transcript.filter(([, direction]) => direction === "o");
+
+  useEffect(() => {
+    const term = new XTerm({
+      fontSize: 12,
+      fontFamily: "ui-monospace, SFMono-Regular, Menlo, monospace",
+      theme: { background: "#0a0a0a" },
+      disableStdin: true,
+    });
+    const fit = new FitAddon();
+    term.loadAddon(fit);
+    term.open(containerRef.current!);
+    fit.fit();
+    termRef.current = term;
+    return () => {
+      clearTimeout(timerRef.current);
+      term.dispose();
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!playing) return;
+    const step = () => {
+      const index = positionRef.current;
+      if (index >= output.length) {
+        setPlaying(false);
+        return;
+      }
+      termRef.current?.write(output[index][2]);
+      positionRef.current = index + 1;
+      setPosition(index + 1);
+      const next = output[index + 1];
+      const gap = next ? Math.min(next[0] - output[index][0], MAX_REPLAY_GAP_MS) / speed : 0;
+      timerRef.current = setTimeout(step, gap);
+    };
+    step();
+    return () => clearTimeout(timerRef.current);
+  }, [playing, speed]);
+
+  const restart = () => {
+    clearTimeout(timerRef.current);
+    termRef.current?.reset();
+    positionRef.current = 0;
+    setPosition(0);
+    setPlaying(true);
+  };
+
+  const showAll = () => {
+    setPlaying(false);
+    termRef.current?.write(output.slice(positionRef.current).map(([, , data]) => data).join(""));
+    positionRef.current = output.length;
+    setPosition(output.length);
+  };
+
+  const finished = position >= output.length;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2 flex-wrap">
+        {playing ? (
+          <Button size="sm" variant="outline" onClick={() => setPlaying(false)} data-testid="button-replay-pause">
+            <Pause className="h-4 w-4 mr-1" /> Pause
+          </Button>
+        ) : (
+          <Button size="sm" onClick={finished ? restart : () => setPlaying(true)} data-testid="button-replay-play">
+            {finished ? <RotateCcw className="h-4 w-4 mr-1" /> : <Play className="h-4 w-4 mr-1" />}
+            {finished ? "Replay" : "Play"}
+          </Button>
+        )}
+        <Select value={String(speed)} onValueChange={(v) => setSpeed(Number(v))}>
+          <SelectTrigger className="w-[90px]" data-testid="select-replay-speed">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {REPLAY_SPEEDS.map((s) => (
+              <SelectItem key={s} value={String(s)}>{s}x</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button size="sm" variant="ghost" onClick={showAll} disabled={finished} data-testid="button-replay-skip">
+          Skip to end
+        </Button>
+        <span className="text-xs text-muted-foreground ml-auto" data-testid="text-replay-progress">
+          {position} / {output.length} frames
+        </span>
+      </div>
+      <div ref={containerRef} className="h-[50vh] rounded-md bg-[#0a0a0a] p-2" data-testid="replay-terminal" />
+    </div>
+  );
+}
@@ -1,10 +1,15 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
+import { useSearch } from "wouter";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
 import {
   Shield,
@@ -43,8 +48,10 @@ import {
   ShieldCheck,
   Scan,
   Activity,
+  Ban,
 } from "lucide-react";
-import type { GuardianLog, FeatureProposal } from "@shared/schema";
+import { SECURITY_EVENT_TYPES } from "@shared/schema";
+import type { GuardianLog, FeatureProposal, SecurityEvent, SecurityPolicy, SecurityPolicyKey, UpdateSecurityPolicy, BlockedIp } from "@shared/schema";
 import AdminFeatureDocs from "@/components/admin/AdminFeatureDocs";
 
 function severityColor(severity: string) {
@@ -76,6 +83,9 @@ function typeIcon(type: string, source?: string) {
     case "resource": return <HardDrive className="h-4 w-4" />;
     case "disconnect": return <Unplug className="h-4 w-4" />;
     case "error": return <Bug className="h-4 w-4" />;
+    case "intrusion": return <ShieldAlert className="h-4 w-4" />;
+    case "secret_rotation": return <KeyRound className="h-4 w-4" />;
+    case "ssh_host_key": return <ShieldAlert className="h-4 w-4" />;
     default: return <Zap className="h-4 w-4" />;
   }
 }
@@ -868,25 +878,21 @@ function CodeUpgradeTab() {
   );
 }
 
-interface SecurityEvent {
-  id: string;
-  type: "auth_failure" | "rate_limit" | "suspicious_request" | "port_scan" | "brute_force" | "api_abuse";
-  severity: "critical" | "high" | "medium" | "low";
-  source: string;
-  target: string;
-  message: string;
-  timestamp: string;
-  blocked: boolean;
+interface SecurityStats {
+  since: string;
+  total: number;
+  threatsBlocked: number;
+  authFailures: number;
+  critical: number;
+  byType: Record<string, number>;
+  activeBlocks: number;
 }
 
-const MOCK_SECURITY_EVENTS: SecurityEvent[] = [
-  { id: "sec-001", type: "brute_force", severity: "critical", source: "203.0.113.42", target: "SSH:22", message: "Brute force attempt detected — 47 failed login attempts in 2 minutes", timestamp: new Date(Date.now() - 300000).toISOString(), blocked: true },
-  { id: "sec-002", type: "rate_limit", severity: "high", source: "198.51.100.17", target: "/api/auth/login", message: "Rate limit exceeded — 120 requests/min from single IP", timestamp: new Date(Date.now() - 600000).toISOString(), blocked: true },
-  { id: "sec-003", type: "suspicious_request", severity: "medium", source: "192.0.2.88", target: "/api/admin", message: "SQL injection attempt detected in query parameter", timestamp: new Date(Date.now() - 1200000).toISOString(), blocked: true },
-  { id: "sec-004", type: "port_scan", severity: "medium", source: "203.0.113.99", target: "Ports 1-1024", message: "Sequential port scan detected from external IP", timestamp: new Date(Date.now() - 1800000).toISOString(), blocked: true },
-  { id: "sec-005", type: "auth_failure", severity: "low", source: "10.0.0.5", target: "/api/auth/login", message: "Failed login attempt — invalid credentials for user admin@openclaw.dev", timestamp: new Date(Date.now() - 3600000).toISOString(), blocked: false },
-  { id: "sec-006", type: "api_abuse", severity: "high", source: "198.51.100.200", target: "/api/ai-tasks", message: "Abnormal API usage pattern — 500 AI task submissions in 5 minutes", timestamp: new Date(Date.now() - 7200000).toISOString(), blocked: true },
-];
+const SECURITY_POLICY_INFO: Record<SecurityPolicyKey, { name: string; description: string; unit: string }> = {
+  auth_failures: { name: "Failed Authentication", description: "Rejected bearer tokens, API keys and proxy tokens from one IP", unit: "failures" },
+  rate_limit: { name: "API Rate Limit", description: "Requests to /api from one IP; excess requests get 429", unit: "requests" },
+  suspicious_requests: { name: "Suspicious Requests", description: "Probes for .env/.git, admin panels, path traversal and injection payloads", unit: "requests" },
+};
 
 function securitySeverityIcon(severity: string) {
   switch (severity) {
@@ -900,22 +906,152 @@ function securitySeverityIcon(severity: string) {
 
 function securityTypeIcon(type: string) {
   switch (type) {
-    case "brute_force": return <Lock className="h-4 w-4" />;
+    case "ip_blocked": return <Lock className="h-4 w-4" />;
     case "rate_limit": return <Activity className="h-4 w-4" />;
     case "suspicious_request": return <Scan className="h-4 w-4" />;
-    case "port_scan": return <Globe className="h-4 w-4" />;
+    case "blocked_request": return <Ban className="h-4 w-4" />;
     case "auth_failure": return <Fingerprint className="h-4 w-4" />;
-    case "api_abuse": return <Zap className="h-4 w-4" />;
     default: return <Shield className="h-4 w-4" />;
   }
 }
 
+function SecurityPolicyRow({ policy }: { policy: SecurityPolicy }) {
+  const { toast } = useToast();
+  const info = SECURITY_POLICY_INFO[policy.key];
+  const [threshold, setThreshold] = useState(String(policy.threshold));
+  const [windowMinutes, setWindowMinutes] = useState(String(policy.windowMinutes));
+  const [blockMinutes, setBlockMinutes] = useState(String(policy.blockMinutes));
+  const dirty = threshold !== String(policy.threshold)
+    || windowMinutes !== String(policy.windowMinutes)
+    || blockMinutes !== String(policy.blockMinutes);
+
+  const updateMutation = useMutation({
+    mutationFn: async (patch: Partial<UpdateSecurityPolicy>) => {
+      const res = await apiRequest("PATCH", `/api/security/policies/${policy.key}`, patch);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/security/policies"] });
+      toast({ title: "Policy updated", description: info.name });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Error", description: err.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="p-3 rounded-lg border space-y-3" data-testid={`policy-${policy.key}`}>
+      <div className="flex items-center justify-between gap-3">
+        <div>
+          <p className="text-sm font-medium">{info.name}</p>
+          <p className="text-xs text-muted-foreground">{info.description}</p>
+        </div>
+        <Switch
+          checked={policy.enabled}
+          onCheckedChange={enabled => updateMutation.mutate({ enabled })}
+          disabled={updateMutation.isPending}
+          data-testid={`switch-policy-${policy.key}`}
+        />
+      </div>
+      <div className="grid grid-cols-1 sm:grid-cols-4 gap-3 items-end">
+        <div className="space-y-1">
+          <Label className="text-xs">Threshold ({info.unit})</Label>
+          <Input type="number" min={1} value={threshold} onChange={e => setThreshold(e.target.value)} data-testid={`input-policy-threshold-${policy.key}`} />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">Window (minutes)</Label>
+          <Input type="number" min={1} max={1440} value={windowMinutes} onChange={e => setWindowMinutes(e.target.value)} data-testid={`input-policy-window-${policy.key}`} />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">Block for (minutes, 0 = don't block)</Label>
+          <Input type="number" min={0} value={blockMinutes} onChange={e => setBlockMinutes(e.target.value)} data-testid={`input-policy-block-${policy.key}`} />
+        </div>
+        <Button
+          size="sm"
+          variant="outline"
+          disabled={!dirty || updateMutation.isPending}
+          onClick={() => updateMutation.mutate({
+            threshold: Number(threshold),
+            windowMinutes: Number(windowMinutes),
+            blockMinutes: Number(blockMinutes),
+          })}
+          data-testid={`button-save-policy-${policy.key}`}
+        >
+          {updateMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : "Save"}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
 function SecurityAgentTab() {
+  const { toast } = useToast();
+  const [typeFilter, setTypeFilter] = useState("all");
+  const [blockIpValue, setBlockIpValue] = useState("");
+  const [blockReason, setBlockReason] = useState("");
+
+  const { data: stats } = useQuery<SecurityStats>({
+    queryKey: ["/api/security/stats"],
+    refetchInterval: 30000,
+  });
+
+  const eventsUrl = typeFilter === "all" ? "/api/security/events?limit=50" : `/api/security/events?limit=50&type=${typeFilter}`;
+  const { data: events, isLoading: eventsLoading } = useQuery<SecurityEvent[]>({
+    queryKey: [eventsUrl],
+    refetchInterval: 30000,
+  });
+
+  const { data: policies } = useQuery<SecurityPolicy[]>({
+    queryKey: ["/api/security/policies"],
+  });
+
+  const { data: blockedIps } = useQuery<BlockedIp[]>({
+    queryKey: ["/api/security/blocked-ips"],
+    refetchInterval: 30000,
+  });
+
+  const invalidateSecurity = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/security/blocked-ips"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/security/stats"] });
+  };
+
+  const blockMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/security/blocked-ips", {
+        ip: blockIpValue.trim(),
+        ...(blockReason.trim() ? { reason: blockReason.trim() } : {}),
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      invalidateSecurity();
+      setBlockIpValue("");
+      setBlockReason("");
+      toast({ title: "IP blocked" });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Error", description: err.message, variant: "destructive" });
+    },
+  });
+
+  const unblockMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/security/blocked-ips/${id}`);
+    },
+    onSuccess: () => {
+      invalidateSecurity();
+      toast({ title: "IP unblocked" });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Error", description: err.message, variant: "destructive" });
+    },
+  });
+
   const securityStats = [
-    { label: "Threats Blocked", value: "142", icon: ShieldCheck, color: "text-green-500" },
-    { label: "Active Monitors", value: "8", icon: Eye, color: "text-blue-500" },
-    { label: "Auth Failures (24h)", value: "23", icon: Fingerprint, color: "text-amber-500" },
-    { label: "Critical Alerts", value: "1", icon: ShieldAlert, color: "text-red-500" },
+    { label: "Threats Blocked", value: stats?.threatsBlocked, icon: ShieldCheck, color: "text-green-500" },
+    { label: "Blocked IPs", value: stats?.activeBlocks, icon: Ban, color: "text-blue-500" },
+    { label: "Auth Failures (24h)", value: stats?.authFailures, icon: Fingerprint, color: "text-amber-500" },
+    { label: "Critical Alerts", value: stats?.critical, icon: ShieldAlert, color: "text-red-500" },
   ];
 
   return (
@@ -926,7 +1062,7 @@ function SecurityAgentTab() {
             <CardContent className="p-4 flex items-center gap-3">
               <stat.icon className={`h-8 w-8 ${stat.color}`} />
               <div>
-                <p className="text-2xl font-bold" data-testid={`text-security-stat-${stat.label.toLowerCase().replace(/\s/g, "-")}`}>{stat.value}</p>
+                <p className="text-2xl font-bold" data-testid={`text-security-stat-${stat.label.toLowerCase().replace(/\s/g, "-")}`}>{stat.value ?? "—"}</p>
                 <p className="text-xs text-muted-foreground">{stat.label}</p>
               </div>
             </CardContent>
@@ -934,74 +1070,114 @@ function SecurityAgentTab() {
         ))}
       </div>
 
-      <Card data-testid="card-security-monitors">
-        <CardHeader>
+      <Card data-testid="card-security-events">
+        <CardHeader className="flex flex-row items-center justify-between gap-3 space-y-0">
           <CardTitle className="text-base flex items-center gap-2">
-            <Eye className="h-4 w-4" />
-            Active Security Monitors
+            <ShieldAlert className="h-4 w-4" />
+            Recent Security Events
           </CardTitle>
+          <Select value={typeFilter} onValueChange={setTypeFilter}>
+            <SelectTrigger className="w-48" data-testid="select-security-event-type">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All types</SelectItem>
+              {SECURITY_EVENT_TYPES.map(type => (
+                <SelectItem key={type} value={type}>{type.replace(/_/g, " ")}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
         </CardHeader>
         <CardContent>
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
-            {[
-              { name: "SSH Brute Force Detection", status: "active", checks: "Real-time" },
-              { name: "API Rate Limiting", status: "active", checks: "Per-request" },
-              { name: "SQL Injection Scanner", status: "active", checks: "Real-time" },
-              { name: "Port Scan Detection", status: "active", checks: "Every 30s" },
-              { name: "SSL Certificate Monitor", status: "active", checks: "Every 1h" },
-              { name: "Docker Container Integrity", status: "active", checks: "Every 5m" },
-              { name: "API Key Usage Audit", status: "active", checks: "Every 15m" },
-              { name: "Failed Auth Tracker", status: "active", checks: "Real-time" },
-            ].map(monitor => (
-              <div key={monitor.name} className="flex items-center justify-between p-3 rounded-lg border" data-testid={`monitor-${monitor.name.toLowerCase().replace(/\s/g, "-")}`}>
-                <div className="flex items-center gap-2">
-                  <div className="h-2 w-2 rounded-full bg-green-500 animate-pulse" />
-                  <span className="text-sm font-medium">{monitor.name}</span>
+          {eventsLoading ? (
+            <div className="flex justify-center py-8"><Loader2 className="h-6 w-6 animate-spin text-muted-foreground" /></div>
+          ) : !events || events.length === 0 ? (
+            <div className="text-center py-8 text-sm text-muted-foreground" data-testid="text-no-security-events">
+              <ShieldCheck className="h-8 w-8 mx-auto mb-2 text-green-500" />
+              No security events recorded
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {events.map(event => (
+                <div key={event.id} className="flex items-start gap-3 p-3 rounded-lg border" data-testid={`security-event-${event.id}`}>
+                  <div className="flex flex-col items-center gap-1 pt-0.5">
+                    {securitySeverityIcon(event.severity)}
+                    {securityTypeIcon(event.type)}
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <Badge variant={event.severity === "critical" ? "destructive" : event.severity === "high" ? "secondary" : "outline"} className="text-xs">
+                        {event.severity}
+                      </Badge>
+                      <Badge variant="outline" className="text-xs">{event.type.replace(/_/g, " ")}</Badge>
+                      {event.blocked && (
+                        <Badge variant="secondary" className="text-xs bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200">
+                          <ShieldCheck className="h-3 w-3 mr-1" />Blocked
+                        </Badge>
+                      )}
+                    </div>
+                    <p className="text-sm mt-1 break-words">{event.message}</p>
+                    <div className="flex items-center gap-4 mt-1 text-xs text-muted-foreground flex-wrap">
+                      <span>Source: {event.sourceIp}</span>
+                      {event.target && <span className="truncate max-w-xs">Target: {event.target}</span>}
+                      <span>{new Date(event.createdAt).toLocaleString()}</span>
+                    </div>
+                  </div>
                 </div>
-                <Badge variant="outline" className="text-xs">{monitor.checks}</Badge>
-              </div>
-            ))}
-          </div>
+              ))}
+            </div>
+          )}
         </CardContent>
       </Card>
 
-      <Card data-testid="card-security-events">
+      <Card data-testid="card-security-blocked-ips">
         <CardHeader>
           <CardTitle className="text-base flex items-center gap-2">
-            <ShieldAlert className="h-4 w-4" />
-            Recent Security Events
+            <Ban className="h-4 w-4" />
+            Blocked IPs
           </CardTitle>
+          <CardDescription>Requests from these addresses are rejected before they reach any route.</CardDescription>
         </CardHeader>
-        <CardContent>
-          <div className="space-y-3">
-            {MOCK_SECURITY_EVENTS.map(event => (
-              <div key={event.id} className="flex items-start gap-3 p-3 rounded-lg border" data-testid={`security-event-${event.id}`}>
-                <div className="flex flex-col items-center gap-1 pt-0.5">
-                  {securitySeverityIcon(event.severity)}
-                  {securityTypeIcon(event.type)}
-                </div>
-                <div className="flex-1 min-w-0">
-                  <div className="flex items-center gap-2 flex-wrap">
-                    <Badge variant={event.severity === "critical" ? "destructive" : event.severity === "high" ? "secondary" : "outline"} className="text-xs">
-                      {event.severity}
-                    </Badge>
-                    <Badge variant="outline" className="text-xs">{event.type.replace(/_/g, " ")}</Badge>
-                    {event.blocked && (
-                      <Badge variant="secondary" className="text-xs bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200">
-                        <ShieldCheck className="h-3 w-3 mr-1" />Blocked
-                      </Badge>
-                    )}
-                  </div>
-                  <p className="text-sm mt-1">{event.message}</p>
-                  <div className="flex items-center gap-4 mt-1 text-xs text-muted-foreground">
-                    <span>Source: {event.source}</span>
-                    <span>Target: {event.target}</span>
-                    <span>{new Date(event.timestamp).toLocaleString()}</span>
+        <CardContent className="space-y-3">
+          <div className="flex flex-col sm:flex-row gap-2">
+            <Input placeholder="IP address" value={blockIpValue} onChange={e => setBlockIpValue(e.target.value)} className="sm:w-48" data-testid="input-block-ip" />
+            <Input placeholder="Reason (optional)" value={blockReason} onChange={e => setBlockReason(e.target.value)} data-testid="input-block-reason" />
+            <Button
+              onClick={() => blockMutation.mutate()}
+              disabled={!blockIpValue.trim() || blockMutation.isPending}
+              data-testid="button-block-ip"
+            >
+              {blockMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : <Ban className="h-4 w-4 mr-2" />}
+              Block
+            </Button>
+          </div>
+          {!blockedIps || blockedIps.length === 0 ? (
+            <p className="text-sm text-muted-foreground" data-testid="text-no-blocked-ips">No IPs are blocked.</p>
+          ) : (
+            blockedIps.map(entry => (
+              <div key={entry.id} className="flex items-center justify-between gap-3 p-3 rounded-lg border" data-testid={`blocked-ip-${entry.id}`}>
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm font-mono font-medium">{entry.ip}</span>
+                    <Badge variant="outline" className="text-xs">{entry.source}</Badge>
                   </div>
+                  <p className="text-xs text-muted-foreground truncate">{entry.reason}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {entry.expiresAt ? `Until ${new Date(entry.expiresAt).toLocaleString()}` : "Permanent"}
+                  </p>
                 </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => unblockMutation.mutate(entry.id)}
+                  disabled={unblockMutation.isPending}
+                  data-testid={`button-unblock-ip-${entry.id}`}
+                >
+                  Unblock
+                </Button>
               </div>
-            ))}
-          </div>
+            ))
+          )}
         </CardContent>
       </Card>
 
@@ -1011,26 +1187,12 @@ function SecurityAgentTab() {
             <Lock className="h-4 w-4" />
             Security Policies
           </CardTitle>
+          <CardDescription>An IP that reaches the threshold within the window is blocked for the configured time.</CardDescription>
         </CardHeader>
         <CardContent>
           <div className="space-y-3">
-            {[
-              { name: "Max Login Attempts", value: "5 per 15 minutes", enabled: true },
-              { name: "API Rate Limit", value: "60 requests/minute per IP", enabled: true },
-              { name: "Auto-Ban Duration", value: "24 hours after 10 violations", enabled: true },
-              { name: "Port Scan Threshold", value: "Block after 20 sequential probes", enabled: true },
-              { name: "Session Timeout", value: "30 minutes of inactivity", enabled: true },
-              { name: "Two-Factor Authentication", value: "Required for admin accounts", enabled: false },
-            ].map(policy => (
-              <div key={policy.name} className="flex items-center justify-between p-3 rounded-lg border" data-testid={`policy-${policy.name.toLowerCase().replace(/\s/g, "-")}`}>
-                <div>
-                  <p className="text-sm font-medium">{policy.name}</p>
-                  <p className="text-xs text-muted-foreground">{policy.value}</p>
-                </div>
-                <Badge variant={policy.enabled ? "secondary" : "outline"} className={policy.enabled ? "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200" : ""}>
-                  {policy.enabled ? "Active" : "Inactive"}
-                </Badge>
-              </div>
+            {policies?.map(policy => (
+              <SecurityPolicyRow key={`${policy.key}-${String(policy.updatedAt)}`} policy={policy} />
             ))}
           </div>
         </CardContent>
@@ -1040,7 +1202,12 @@ function SecurityAgentTab() {
 }
 
 export default function AdminPage() {
-  const [activeTab, setActiveTab] = useState("guardian");
+  const linkedTab = new URLSearchParams(useSearch()).get("tab");
+  const [activeTab, setActiveTab] = useState(linkedTab || "guardian");
+
+  useEffect(() => {
+    if (linkedTab) setActiveTab(linkedTab);
+  }, [linkedTab]);
 
   return (
     <div className="p-6 max-w-5xl mx-auto space-y-6">
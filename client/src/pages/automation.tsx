@@ -1,8 +1,13 @@
-import { useState } from "react";
+import { Fragment, useEffect, useState } from "react";
+import { useSearch } from "wouter";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import type { AutomationJob, AutomationRun } from "@shared/schema";
+import { useInstance } from "@/hooks/use-instance";
+import type {
+  AutomationJob, AutomationRun, AutomationNotifyTargets, AutomationWorkflowStep, AutomationStepResult,
+  AutomationEvent, AutomationEventFilter, Machine, MachineGroup
+} from "@shared/schema";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -14,12 +19,21 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Skeleton } from "@/components/ui/skeleton";
+import { Checkbox } from "@/components/ui/checkbox";
 import {
   Clock, Play, Trash2, Plus, History, Pencil,
-  CheckCircle2, XCircle, Loader2, CalendarClock, Timer
+  CheckCircle2, XCircle, Loader2, CalendarClock, Timer, Server, Users,
+  Workflow, ChevronDown, ChevronRight, MinusCircle, Zap
 } from "lucide-react";
 
-const TEMPLATES = [
+const TEMPLATES: {
+  id: string;
+  name: string;
+  schedule: string;
+  command: string;
+  steps?: AutomationWorkflowStep[];
+  description: string;
+}[] = [
   {
     id: "health-check",
     name: "Daily Health Check",
@@ -55,6 +69,78 @@ const TEMPLATES = [
     command: "for f in /tmp/openclaw.log /tmp/oc.log /tmp/whatsapp-bot.log; do if [ -f \"$f\" ] && [ $(wc -c < \"$f\") -gt 10485760 ]; then mv \"$f\" \"${f}.old\" && echo \"Rotated $f\"; fi; done; echo 'Log rotation done'",
     description: "Rotate large log files daily at midnight",
   },
+  {
+    id: "gateway-watchdog-workflow",
+    name: "Gateway Watchdog Workflow",
+    schedule: "*/15 * * * *",
+    command: "",
+    steps: [
+      {
+        id: "check",
+        name: "Check gateway",
+        type: "ssh",
+        command: "curl -sf -o /dev/null -w 'http=%{http_code}' http://127.0.0.1:18789/ || (echo 'gateway down'; exit 1)",
+        allowFailure: true,
+      },
+      {
+        id: "restart",
+        name: "Restart gateway",
+        type: "ssh",
+        command: "nohup openclaw gateway run --bind lan --port 18789 --force > /tmp/openclaw.log 2>&1 & sleep 5; pgrep -f 'openclaw' > /dev/null && echo 'Restarted'",
+        when: { step: "check", status: "failed" },
+      },
+      {
+        id: "notify",
+        name: "Notify",
+        type: "message",
+        channel: "telegram",
+        to: "",
+        text: "Gateway on {{target}} was down and has been restarted: {{steps.restart.output}}",
+        dependsOn: ["restart"],
+      },
+    ],
+    description: "Check the gateway, restart it only if it is down, then send a message",
+  },
+];
+
+const EVENT_OPTIONS = [
+  { value: "guardian.log", label: "Code Guardian finding", fields: "type, severity, message, details, status, source" },
+  { value: "node.stale", label: "Node stopped sending heartbeats", fields: "machineId, name, hostname, lastHeartbeat" },
+  { value: "node.online", label: "Node heartbeats resumed", fields: "machineId, name, hostname, offlineSince" },
+  { value: "github.webhook", label: "GitHub webhook", fields: "event, action, repo, sender, branch, conclusion, severity, message" },
+  { value: "skill.trigger", label: "Skill trigger webhook", fields: "action, source, payload" },
+  { value: "whatsapp.state", label: "WhatsApp bot state change", fields: "state, previousState, phone, error" },
+  { value: "security.event", label: "Security event", fields: "type, severity, sourceIp, target, message, blocked" },
+  { value: "mqtt.message", label: "MQTT message", fields: "topic, message, json" },
+];
+
+const FILTER_OPS = [
+  { value: "equals", label: "equals" },
+  { value: "contains", label: "contains" },
+  { value: "matches", label: "matches regex" },
+];
+
+const STEP_TYPE_OPTIONS = [
+  { value: "ssh", label: "SSH command" },
+  { value: "node", label: "Node invoke" },
+  { value: "http", label: "HTTP request" },
+  { value: "llm", label: "LLM prompt" },
+  { value: "message", label: "Send message" },
+  { value: "integration", label: "Send via integration" },
+];
+
+const MESSAGE_CHANNEL_OPTIONS = [
+  { value: "whatsapp", label: "WhatsApp" },
+  { value: "telegram", label: "Telegram" },
+  { value: "email", label: "Email" },
+];
+
+const INTEGRATION_OPTIONS = [
+  { value: "slack", label: "Slack", to: "Channel ID (optional)" },
+  { value: "webhook", label: "Webhook", to: "" },
+  { value: "mqtt", label: "MQTT", to: "Topic (optional)" },
+  { value: "email", label: "Email / SMTP", to: "Recipient email" },
+  { value: "n8n", label: "n8n", to: "Webhook path (optional)" },
 ];
 
 const SCHEDULE_PRESETS = [
@@ -68,9 +154,87 @@ const SCHEDULE_PRESETS = [
   { label: "Monthly (1st at 3am)", value: "0 3 1 * *" },
 ];
 
+const CATCH_UP_OPTIONS = [
+  { value: "skip", label: "Skip missed runs" },
+  { value: "latest", label: "Run once if any were missed" },
+  { value: "all", label: "Run every missed occurrence (max 10)" },
+];
+
+const CONCURRENCY_OPTIONS = [
+  { value: "skip", label: "Skip if still running" },
+  { value: "queue", label: "Queue behind the running one" },
+  { value: "cancel", label: "Cancel the running one" },
+];
+
+const CRON_MACROS: Record<string, string> = {
+  "@yearly": "Yearly (Jan 1st at midnight)",
+  "@annually": "Yearly (Jan 1st at midnight)",
+  "@monthly": "Monthly (1st at midnight)",
+  "@weekly": "Weekly (Sunday at midnight)",
+  "@daily": "Daily at midnight",
+  "@midnight": "Daily at midnight",
+  "@hourly": "Every hour",
+};
+
+const TIME_ZONES: string[] = typeof Intl.supportedValuesOf === "function" ? Intl.supportedValuesOf("timeZone") : [];
+
+const TARGET_OPTIONS = [
+  { value: "instance", label: "Instance VPS" },
+  { value: "node", label: "Paired node" },
+  { value: "group", label: "Machine group" },
+  { value: "default", label: "Default VPS (legacy)" },
+];
+
+type JobFormData = {
+  name: string;
+  schedule: string;
+  command: string;
+  template: string | null;
+  enabled: boolean;
+  triggerType: string;
+  eventType: string | null;
+  eventFilters: AutomationEventFilter[] | null;
+  eventCooldownSeconds: number;
+  timezone: string | null;
+  catchUpPolicy: string;
+  concurrencyPolicy: string;
+  targetType: string;
+  targetInstanceId: string | null;
+  targetNode: string | null;
+  targetGroupId: string | null;
+  maxRetries: number;
+  retryBackoffSeconds: number;
+  timeoutSeconds: number | null;
+  maxOutputChars: number;
+  outputTruncation: string;
+  notifyOnFailure: boolean;
+  notifyOnRecovery: boolean;
+  notifyTargets: AutomationNotifyTargets | null;
+  steps: AutomationWorkflowStep[] | null;
+};
+
+const TRUNCATION_OPTIONS = [
+  { value: "tail", label: "Keep the end" },
+  { value: "head", label: "Keep the beginning" },
+  { value: "both", label: "Keep beginning and end" },
+];
+
+function formatDuration(ms: number | null | undefined): string {
+  if (ms == null) return "-";
+  if (ms < 1000) return `${ms}ms`;
+  if (ms < 60000) return `${(ms / 1000).toFixed(1)}s`;
+  return `${Math.floor(ms / 60000)}m ${Math.round((ms % 60000) / 1000)}s`;
+}
+
+function machineNodeName(m: Machine): string {
+  return m.displayName || m.hostname || m.name;
+}
+
 function describeCron(schedule: string): string {
   const presetMatch = SCHEDULE_PRESETS.find(p => p.value === schedule);
   if (presetMatch) return presetMatch.label;
+  const macro = CRON_MACROS[schedule.trim().toLowerCase()];
+  if (macro) return macro;
 
   const parts = schedule.trim().split(/\s+/);
   if (parts.length !== 5) return schedule;
@@ -92,6 +256,418 @@ function formatDate(d: string | Date | null | undefined): string {
   return date.toLocaleString();
 }
 
+function formatKeyValues(values: Record<string, string> | undefined, separator: string): string {
+  return Object.entries(values || {}).map(([k, v]) => `${k}${separator}${v}`).join("\n");
+}
+
+function parseKeyValues(text: string, separator: string): Record<string, string> | undefined {
+  const values: Record<string, string> = {};
+  for (const line of text.split("\n")) {
+    const idx = line.indexOf(separator);
+    if (idx <= 0) continue;
+    values[line.slice(0, idx).trim()] = line.slice(idx + separator.length).trim();
+  }
+  return Object.keys(values).length > 0 ? values : undefined;
+}
+
+function describeTrigger(job: AutomationJob): string {
+  const label = EVENT_OPTIONS.find(o => o.value === job.eventType)?.label || job.eventType || "event";
+  const filters = (job.eventFilters || []).map(f => `${f.field} ${f.op} "${f.value}"`).join(", ");
+  return filters ? `On ${label} (${filters})` : `On ${label}`;
+}
+
+function EventFiltersEditor({
+  filters,
+  onChange,
+}: {
+  filters: AutomationEventFilter[];
+  onChange: (filters: AutomationEventFilter[]) => void;
+}) {
+  const update = (index: number, patch: Partial<AutomationEventFilter>) =>
+    onChange(filters.map((f, i) => (i === index ? { ...f, ...patch } : f)));
+
+  return (
+    <div className="space-y-2">
+      {filters.map((filter, i) => (
+        <div key={i} className="flex items-center gap-2" data-testid={`row-event-filter-${i}`}>
+          <Input
+            value={filter.field}
+            onChange={e => update(i, { field: e.target.value })}
+            placeholder="field"
+            className="w-32 font-mono text-xs"
+            data-testid={`input-filter-field-${i}`}
+          />
+          <Select value={filter.op} onValueChange={op => update(i, { op: op as AutomationEventFilter["op"] })}>
+            <SelectTrigger className="w-36" data-testid={`select-filter-op-${i}`}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {FILTER_OPS.map(o => (
+                <SelectItem key={o.value} value={o.value}>{o.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            value={filter.value}
+            onChange={e => update(i, { value: e.target.value })}
+            placeholder="value"
+            className="font-mono text-xs"
+            data-testid={`input-filter-value-${i}`}
+          />
+          <Button size="icon" variant="ghost" onClick={() => onChange(filters.filter((_, j) => j !== i))} data-testid={`button-remove-filter-${i}`}>
+            <Trash2 className="h-3 w-3" />
+          </Button>
+        </div>
+      ))}
+      <Button
+        size="sm"
+        variant="outline"
+        onClick={() => onChange([...filters, { field: "", op: "equals", value: "" }])}
+        data-testid="button-add-filter"
+      >
+        <Plus className="h-3 w-3 mr-1" /> Add Filter
+      </Button>
+    </div>
+  );
+}
+
+function StepEditor({
+  step,
+  otherIds,
+  onChange,
+  onRemove,
+}: {
+  step: AutomationWorkflowStep;
+  otherIds: string[];
+  onChange: (step: AutomationWorkflowStep) => void;
+  onRemove: () => void;
+}) {
+  const [captures, setCaptures] = useState(formatKeyValues(step.captures, "="));
+  const [headers, setHeaders] = useState(formatKeyValues(step.headers, ": "));
+  const update = (patch: Partial<AutomationWorkflowStep>) => onChange({ ...step, ...patch });
+  const updateWhen = (patch: Partial<NonNullable<AutomationWorkflowStep["when"]>>) =>
+    update({ when: { ...step.when!, ...patch } });
+
+  return (
+    <div className="rounded-md border p-3 space-y-2" data-testid={`step-editor-${step.id}`}>
+      <div className="flex items-center gap-2">
+        <Input
+          value={step.id}
+          onChange={e => update({ id: e.target.value.replace(/[^A-Za-z0-9_-]/g, "") })}
+          placeholder="id"
+          className="w-28 font-mono text-xs"
+          data-testid={`input-step-id-${step.id}`}
+        />
+        <Input
+          value={step.name || ""}
+          onChange={e => update({ name: e.target.value || undefined })}
+          placeholder="Step name"
+          data-testid={`input-step-name-${step.id}`}
+        />
+        <Select value={step.type} onValueChange={type => update({ type: type as AutomationWorkflowStep["type"] })}>
+          <SelectTrigger className="w-40" data-testid={`select-step-type-${step.id}`}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {STEP_TYPE_OPTIONS.map(o => (
+              <SelectItem key={o.value} value={o.value}>{o.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button size="icon" variant="ghost" onClick={onRemove} data-testid={`button-remove-step-${step.id}`}>
+          <Trash2 className="h-3 w-3" />
+        </Button>
+      </div>
+
+      {step.type === "node" && (
+        <Input
+          value={step.node || ""}
+          onChange={e => update({ node: e.target.value })}
+          placeholder="Node ID or display name"
+          list="automation-nodes"
+          data-testid={`input-step-node-${step.id}`}
+        />
+      )}
+      {(step.type === "ssh" || step.type === "node") && (
+        <Textarea
+          value={step.command || ""}
+          onChange={e => update({ command: e.target.value })}
+          placeholder="Shell command"
+          className="font-mono text-xs min-h-[60px]"
+          data-testid={`input-step-command-${step.id}`}
+        />
+      )}
+      {step.type === "http" && (
+        <>
+          <div className="flex gap-2">
+            <Select value={step.method || "GET"} onValueChange={method => update({ method })}>
+              <SelectTrigger className="w-28" data-testid={`select-step-method-${step.id}`}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {["GET", "POST", "PUT", "PATCH", "DELETE"].map(m => (
+                  <SelectItem key={m} value={m}>{m}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              value={step.url || ""}
+              onChange={e => update({ url: e.target.value })}
+              placeholder="https://..."
+              data-testid={`input-step-url-${step.id}`}
+            />
+          </div>
+          <Textarea
+            value={headers}
+            onChange={e => {
+              setHeaders(e.target.value);
+              update({ headers: parseKeyValues(e.target.value, ":") });
+            }}
+            placeholder="Headers, one per line (Content-Type: application/json)"
+            className="font-mono text-xs min-h-[40px]"
+            data-testid={`input-step-headers-${step.id}`}
+          />
+          {step.method && step.method !== "GET" && (
+            <Textarea
+              value={step.body || ""}
+              onChange={e => update({ body: e.target.value || undefined })}
+              placeholder="Request body"
+              className="font-mono text-xs min-h-[40px]"
+              data-testid={`input-step-body-${step.id}`}
+            />
+          )}
+        </>
+      )}
+      {step.type === "llm" && (
+        <Textarea
+          value={step.prompt || ""}
+          onChange={e => update({ prompt: e.target.value })}
+          placeholder="Summarise this output: {{steps.check.output}}"
+          className="text-sm min-h-[60px]"
+          data-testid={`input-step-prompt-${step.id}`}
+        />
+      )}
+      {step.type === "message" && (
+        <>
+          <div className="flex gap-2">
+            <Select value={step.channel || ""} onValueChange={channel => update({ channel: channel as AutomationWorkflowStep["channel"] })}>
+              <SelectTrigger className="w-36" data-testid={`select-step-channel-${step.id}`}>
+                <SelectValue placeholder="Channel" />
+              </SelectTrigger>
+              <SelectContent>
+                {MESSAGE_CHANNEL_OPTIONS.map(o => (
+                  <SelectItem key={o.value} value={o.value}>{o.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              value={step.to || ""}
+              onChange={e => update({ to: e.target.value })}
+              placeholder="Phone number, chat ID or email"
+              data-testid={`input-step-to-${step.id}`}
+            />
+          </div>
+          <Textarea
+            value={step.text || ""}
+            onChange={e => update({ text: e.target.value })}
+            placeholder="Message text"
+            className="text-sm min-h-[40px]"
+            data-testid={`input-step-text-${step.id}`}
+          />
+        </>
+      )}
+      {step.type === "integration" && (
+        <>
+          <div className="flex gap-2">
+            <Select value={step.integration || ""} onValueChange={integration => update({ integration: integration as AutomationWorkflowStep["integration"] })}>
+              <SelectTrigger className="w-36" data-testid={`select-step-integration-${step.id}`}>
+                <SelectValue placeholder="Integration" />
+              </SelectTrigger>
+              <SelectContent>
+                {INTEGRATION_OPTIONS.map(o => (
+                  <SelectItem key={o.value} value={o.value}>{o.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {INTEGRATION_OPTIONS.find(o => o.value === step.integration)?.to && (
+              <Input
+                value={step.to || ""}
+                onChange={e => update({ to: e.target.value })}
+                placeholder={INTEGRATION_OPTIONS.find(o => o.value === step.integration)?.to}
+                data-testid={`input-step-to-${step.id}`}
+              />
+            )}
+          </div>
+          <Textarea
+            value={step.text || ""}
+            onChange={e => update({ text: e.target.value })}
+            placeholder="Message text or payload"
+            className="text-sm min-h-[40px]"
+            data-testid={`input-step-text-${step.id}`}
+          />
+        </>
+      )}
+
+      {otherIds.length > 0 && (
+        <div className="space-y-2">
+          <div className="flex items-center gap-3 flex-wrap text-xs">
+            <span className="text-muted-foreground">After:</span>
+            {otherIds.map(id => (
+              <label key={id} className="flex items-center gap-1">
+                <Checkbox
+                  checked={(step.dependsOn || []).includes(id)}
+                  onCheckedChange={checked => {
+                    const deps = (step.dependsOn || []).filter(d => d !== id);
+                    update({ dependsOn: checked ? [...deps, id] : deps.length > 0 ? deps : undefined });
+                  }}
+                  data-testid={`checkbox-step-dep-${step.id}-${id}`}
+                />
+                <span className="font-mono">{id}</span>
+              </label>
+            ))}
+          </div>
+          <div className="flex items-center gap-2 flex-wrap">
+            <Select
+              value={step.when?.step || "none"}
+              onValueChange={v => update({ when: v === "none" ? undefined : { ...step.when, step: v } })}
+            >
+              <SelectTrigger className="w-40 h-8 text-xs" data-testid={`select-step-when-${step.id}`}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">Always run</SelectItem>
+                {otherIds.map(id => (
+                  <SelectItem key={id} value={id}>Only if {id}...</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {step.when && (
+              <>
+                <Select
+                  value={step.when.status || "any"}
+                  onValueChange={v => updateWhen({ status: v === "any" ? undefined : v as "completed" | "failed" })}
+                >
+                  <SelectTrigger className="w-28 h-8 text-xs" data-testid={`select-step-when-status-${step.id}`}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="any">finished</SelectItem>
+                    <SelectItem value="completed">succeeded</SelectItem>
+                    <SelectItem value="failed">failed</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Input
+                  value={step.when.exitCode ?? ""}
+                  onChange={e => updateWhen({ exitCode: e.target.value === "" ? undefined : parseInt(e.target.value, 10) })}
+                  type="number"
+                  placeholder="exit code"
+                  className="w-24 h-8 text-xs"
+                  data-testid={`input-step-when-exit-${step.id}`}
+                />
+                <Input
+                  value={step.when.outputMatches || ""}
+                  onChange={e => updateWhen({ outputMatches: e.target.value || undefined })}
+                  placeholder="output matches regex"
+                  className="flex-1 min-w-[120px] h-8 text-xs font-mono"
+                  data-testid={`input-step-when-regex-${step.id}`}
+                />
+                <label className="flex items-center gap-1 text-xs">
+                  <Checkbox
+                    checked={!!step.when.negate}
+                    onCheckedChange={checked => updateWhen({ negate: !!checked || undefined })}
+                    data-testid={`checkbox-step-when-negate-${step.id}`}
+                  />
+                  not
+                </label>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+
+      <Textarea
+        value={captures}
+        onChange={e => {
+          setCaptures(e.target.value);
+          update({ captures: parseKeyValues(e.target.value, "=") });
+        }}
+        placeholder="Capture variables, one per line: NAME=regex (first group, used as {{vars.NAME}})"
+        className="font-mono text-xs min-h-[36px]"
+        data-testid={`input-step-captures-${step.id}`}
+      />
+      <label className="flex items-center gap-2 text-xs">
+        <Checkbox
+          checked={!!step.allowFailure}
+          onCheckedChange={checked => update({ allowFailure: !!checked || undefined })}
+          data-testid={`checkbox-step-allow-failure-${step.id}`}
+        />
+        Failure of this step does not fail the workflow
+      </label>
+    </div>
+  );
+}
+
+function WorkflowEditor({
+  steps,
+  onChange,
+}: {
+  steps: AutomationWorkflowStep[];
+  onChange: (steps: AutomationWorkflowStep[]) => void;
+}) {
+  function addStep() {
+    let n = steps.length + 1;
+    while (steps.some(s => s.id === `step${n}`)) n++;
+    const previous = steps[steps.length - 1];
+    onChange([...steps, { id: `step${n}`, type: "ssh", command: "", dependsOn: previous ? [previous.id] : undefined }]);
+  }
+
+  function updateStep(index: number, step: AutomationWorkflowStep) {
+    const oldId = steps[index].id;
+    onChange(steps.map((s, i) => {
+      if (i === index) return step;
+      if (oldId === step.id) return s;
+      // Keep references pointing at a renamed step.
+      return {
+        ...s,
+        dependsOn: s.dependsOn?.map(d => (d === oldId ? step.id : d)),
+        when: s.when?.step === oldId ? { ...s.when, step: step.id } : s.when,
+      };
+    }));
+  }
+
+  function removeStep(index: number) {
+    const removedId = steps[index].id;
+    onChange(steps.filter((_, i) => i !== index).map(s => ({
+      ...s,
+      dependsOn: s.dependsOn?.filter(d => d !== removedId),
+      when: s.when?.step === removedId ? undefined : s.when,
+    })));
+  }
+
+  return (
+    <div className="space-y-2">
+      {steps.map((step, i) => (
+        <StepEditor
+          key={i}
+          step={step}
+          otherIds={steps.filter((_, j) => j !== i).map(s => s.id)}
+          onChange={updated => updateStep(i, updated)}
+          onRemove={() => removeStep(i)}
+        />
+      ))}
+      <Button size="sm" variant="outline" onClick={addStep} data-testid="button-add-step">
+        <Plus className="h-3 w-3 mr-1" /> Add Step
+      </Button>
+      <p className="text-xs text-muted-foreground">
+        A step runs once the steps it comes after have succeeded, or whenever its condition holds.
+        Use {"{{steps.<id>.output}}"}, {"{{steps.<id>.exitCode}}"}, {"{{vars.NAME}}"} and {"{{target}}"} in any field.
+        In SSH and node commands, step outputs and variables are inserted as a single quoted word.
+        HTTP steps report the status code as their exit code.
+      </p>
+    </div>
+  );
+}
+
 function JobForm({
   initial,
   onSubmit,
@@ -99,7 +675,7 @@ function JobForm({
   isPending,
 }: {
   initial?: Partial<AutomationJob>;
-  onSubmit: (data: { name: string; schedule: string; command: string; template: string | null; enabled: boolean }) => void;
+  onSubmit: (data: JobFormData) => void;
   onCancel: () => void;
   isPending: boolean;
 }) {
@@ -108,6 +684,48 @@ function JobForm({
   const [command, setCommand] = useState(initial?.command || "");
   const [template, setTemplate] = useState(initial?.template || "");
   const [enabled, setEnabled] = useState(initial?.enabled ?? true);
+  const [triggerType, setTriggerType] = useState(initial?.triggerType || "schedule");
+  const [eventType, setEventType] = useState(initial?.eventType || "");
+  const [eventFilters, setEventFilters] = useState<AutomationEventFilter[]>(initial?.eventFilters || []);
+  const [eventCooldownSeconds, setEventCooldownSeconds] = useState(String(initial?.eventCooldownSeconds ?? 60));
+  const [timezone, setTimezone] = useState(initial?.timezone || "");
+  const [catchUpPolicy, setCatchUpPolicy] = useState(initial?.catchUpPolicy || "skip");
+  const [concurrencyPolicy, setConcurrencyPolicy] = useState(initial?.concurrencyPolicy || "skip");
+  const { instances, selectedInstanceId } = useInstance();
+  const [targetType, setTargetType] = useState(initial?.targetType || "instance");
+  const [targetInstanceId, setTargetInstanceId] = useState(initial?.targetInstanceId || selectedInstanceId || "");
+  const [targetNode, setTargetNode] = useState(initial?.targetNode || "");
+  const [targetGroupId, setTargetGroupId] = useState(initial?.targetGroupId || "");
+
+  const [maxRetries, setMaxRetries] = useState(String(initial?.maxRetries ?? 0));
+  const [retryBackoffSeconds, setRetryBackoffSeconds] = useState(String(initial?.retryBackoffSeconds ?? 30));
+  const [timeoutSeconds, setTimeoutSeconds] = useState(initial?.timeoutSeconds ? String(initial.timeoutSeconds) : "");
+  const [maxOutputChars, setMaxOutputChars] = useState(String(initial?.maxOutputChars ?? 20000));
+  const [outputTruncation, setOutputTruncation] = useState(initial?.outputTruncation || "tail");
+  const [notifyOnFailure, setNotifyOnFailure] = useState(initial?.notifyOnFailure ?? false);
+  const [notifyOnRecovery, setNotifyOnRecovery] = useState(initial?.notifyOnRecovery ?? false);
+  const [notifyWhatsapp, setNotifyWhatsapp] = useState(initial?.notifyTargets?.whatsapp || "");
+  const [notifyTelegram, setNotifyTelegram] = useState(initial?.notifyTargets?.telegram || "");
+  const [notifyEmail, setNotifyEmail] = useState(initial?.notifyTargets?.email || "");
+  const [steps, setSteps] = useState<AutomationWorkflowStep[]>(initial?.steps || []);
+  const [mode, setMode] = useState<"command" | "workflow">(initial?.steps?.length ? "workflow" : "command");
+
+  const { data: machines } = useQuery<Machine[]>({ queryKey: ["/api/machines"] });
+  const { data: groups } = useQuery<MachineGroup[]>({ queryKey: ["/api/machine-groups"] });
+
+  function buildNotifyTargets(): AutomationNotifyTargets | null {
+    const targets: AutomationNotifyTargets = {};
+    if (notifyWhatsapp.trim()) targets.whatsapp = notifyWhatsapp.trim();
+    if (notifyTelegram.trim()) targets.telegram = notifyTelegram.trim();
+    if (notifyEmail.trim()) targets.email = notifyEmail.trim();
+    return Object.keys(targets).length > 0 ? targets : null;
+  }
+
+  const targetReady =
+    targetType === "default" ||
+    (targetType === "instance" && !!targetInstanceId) ||
+    (targetType === "node" && !!targetNode.trim()) ||
+    (targetType === "group" && !!targetGroupId);
   const [scheduleMode, setScheduleMode] = useState<"preset" | "custom">(
     SCHEDULE_PRESETS.some(p => p.value === (initial?.schedule || "0 * * * *")) ? "preset" : "custom"
   );
@@ -118,6 +736,8 @@ function JobForm({
       setName(t.name);
       setSchedule(t.schedule);
       setCommand(t.command);
+      setSteps(t.steps || []);
+      setMode(t.steps ? "workflow" : "command");
       setTemplate(t.id);
       const match = SCHEDULE_PRESETS.find(p => p.value === t.schedule);
       setScheduleMode(match ? "preset" : "custom");
@@ -151,58 +771,337 @@ function JobForm({
       </div>
 
       <div>
-        <Label>Schedule</Label>
-        <div className="flex items-center gap-2 mb-2">
+        <Label>Trigger</Label>
+        <div className="flex items-center gap-2">
           <Button
-            variant={scheduleMode === "preset" ? "default" : "outline"}
+            variant={triggerType === "schedule" ? "default" : "outline"}
             size="sm"
-            onClick={() => setScheduleMode("preset")}
-            data-testid="button-schedule-preset"
+            onClick={() => setTriggerType("schedule")}
+            data-testid="button-trigger-schedule"
           >
-            Preset
+            <Clock className="h-3 w-3 mr-1" /> Schedule
           </Button>
           <Button
-            variant={scheduleMode === "custom" ? "default" : "outline"}
+            variant={triggerType === "event" ? "default" : "outline"}
             size="sm"
-            onClick={() => setScheduleMode("custom")}
-            data-testid="button-schedule-custom"
+            onClick={() => setTriggerType("event")}
+            data-testid="button-trigger-event"
           >
-            Custom Cron
+            <Zap className="h-3 w-3 mr-1" /> Event
           </Button>
         </div>
-        {scheduleMode === "preset" ? (
-          <Select value={schedule} onValueChange={setSchedule}>
-            <SelectTrigger data-testid="select-schedule-preset">
-              <SelectValue />
+      </div>
+
+      {triggerType === "event" ? (
+        <div className="space-y-2">
+          <Select value={eventType} onValueChange={setEventType}>
+            <SelectTrigger data-testid="select-event-type">
+              <SelectValue placeholder="Choose an event" />
             </SelectTrigger>
             <SelectContent>
-              {SCHEDULE_PRESETS.map(p => (
-                <SelectItem key={p.value} value={p.value}>{p.label}</SelectItem>
+              {EVENT_OPTIONS.map(o => (
+                <SelectItem key={o.value} value={o.value}>{o.label}</SelectItem>
               ))}
             </SelectContent>
           </Select>
-        ) : (
+          {eventType && (
+            <p className="text-xs text-muted-foreground">
+              Fields: {EVENT_OPTIONS.find(o => o.value === eventType)?.fields}. Filters all have to match.
+            </p>
+          )}
+          <EventFiltersEditor filters={eventFilters} onChange={setEventFilters} />
+          <div>
+            <Label>Cooldown (s)</Label>
+            <Input
+              type="number"
+              min={0}
+              value={eventCooldownSeconds}
+              onChange={e => setEventCooldownSeconds(e.target.value)}
+              data-testid="input-event-cooldown"
+            />
+            <p className="text-xs text-muted-foreground mt-1">
+              Matching events within this window after a run are ignored. Commands on SSH targets get the event in
+              $OPENCLAW_EVENT_TYPE and $OPENCLAW_EVENT (JSON); workflows can use {"{{event.<field>}}"}, which is
+              inserted into commands as a single quoted word.
+            </p>
+          </div>
+        </div>
+      ) : (
+        <>
+          <div>
+            <Label>Schedule</Label>
+            <div className="flex items-center gap-2 mb-2">
+              <Button
+                variant={scheduleMode === "preset" ? "default" : "outline"}
+                size="sm"
+                onClick={() => setScheduleMode("preset")}
+                data-testid="button-schedule-preset"
+              >
+                Preset
+              </Button>
+              <Button
+                variant={scheduleMode === "custom" ? "default" : "outline"}
+                size="sm"
+                onClick={() => setScheduleMode("custom")}
+                data-testid="button-schedule-custom"
+              >
+                Custom Cron
+              </Button>
+            </div>
+            {scheduleMode === "preset" ? (
+              <Select value={schedule} onValueChange={setSchedule}>
+                <SelectTrigger data-testid="select-schedule-preset">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SCHEDULE_PRESETS.map(p => (
+                    <SelectItem key={p.value} value={p.value}>{p.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            ) : (
+              <Input
+                value={schedule}
+                onChange={e => setSchedule(e.target.value)}
+                placeholder="*/5 * * * *, 0 9 * * MON-FRI or @daily"
+                data-testid="input-schedule-cron"
+              />
+            )}
+            <p className="text-xs text-muted-foreground mt-1">
+              {describeCron(schedule)}
+            </p>
+          </div>
+
+          <div>
+            <Label>Time Zone</Label>
+            <Input
+              value={timezone}
+              onChange={e => setTimezone(e.target.value)}
+              placeholder="Server time zone"
+              list="automation-time-zones"
+              data-testid="input-job-timezone"
+            />
+            <datalist id="automation-time-zones">
+              {TIME_ZONES.map(tz => <option key={tz} value={tz} />)}
+            </datalist>
+            <p className="text-xs text-muted-foreground mt-1">IANA name such as America/New_York. Leave empty to use the server's time zone.</p>
+          </div>
+
+          <div>
+            <Label>Missed Runs</Label>
+            <Select value={catchUpPolicy} onValueChange={setCatchUpPolicy}>
+              <SelectTrigger data-testid="select-catch-up-policy">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CATCH_UP_OPTIONS.map(o => (
+                  <SelectItem key={o.value} value={o.value}>{o.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </>
+      )}
+
+      <div>
+        <Label>If Still Running</Label>
+        <Select value={concurrencyPolicy} onValueChange={setConcurrencyPolicy}>
+          <SelectTrigger data-testid="select-concurrency-policy">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {CONCURRENCY_OPTIONS.map(o => (
+              <SelectItem key={o.value} value={o.value}>{o.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Target</Label>
+        <Select value={targetType} onValueChange={setTargetType}>
+          <SelectTrigger data-testid="select-target-type">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {TARGET_OPTIONS.map(o => (
+              <SelectItem key={o.value} value={o.value}>{o.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {targetType !== "default" && (
+          <Select value={targetInstanceId} onValueChange={setTargetInstanceId}>
+            <SelectTrigger data-testid="select-target-instance">
+              <SelectValue placeholder={targetType === "instance" ? "Choose an instance" : "Gateway instance (default if empty)"} />
+            </SelectTrigger>
+            <SelectContent>
+              {instances.map(i => (
+                <SelectItem key={i.id} value={i.id}>{i.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+        {targetType === "node" && (
           <Input
-            value={schedule}
-            onChange={e => setSchedule(e.target.value)}
-            placeholder="*/5 * * * *"
-            data-testid="input-schedule-cron"
+            value={targetNode}
+            onChange={e => setTargetNode(e.target.value)}
+            placeholder="Node ID or display name"
+            list="automation-nodes"
+            data-testid="input-target-node"
           />
         )}
-        <p className="text-xs text-muted-foreground mt-1">
-          {describeCron(schedule)}
+        <datalist id="automation-nodes">
+          {(machines || []).map(m => <option key={m.id} value={machineNodeName(m)} />)}
+        </datalist>
+        {targetType === "group" && (
+          <Select value={targetGroupId} onValueChange={setTargetGroupId}>
+            <SelectTrigger data-testid="select-target-group">
+              <SelectValue placeholder="Choose a machine group" />
+            </SelectTrigger>
+            <SelectContent>
+              {(groups || []).map(g => (
+                <SelectItem key={g.id} value={g.id}>{g.name} ({g.machineIds.length})</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+        <p className="text-xs text-muted-foreground">
+          {targetType === "node" && "Runs through the instance's gateway with system.run, like the AI Task Runner's run_on_node."}
+          {targetType === "group" && "Runs on every machine in the group through the gateway, with one run recorded per machine."}
+          {targetType === "instance" && "Runs over SSH on the instance's VPS connection."}
+          {targetType === "default" && "Runs on the default VPS from the VPS_ROOT_PASSWORD secret."}
         </p>
       </div>
 
       <div>
-        <Label>Command (SSH)</Label>
-        <Textarea
-          value={command}
-          onChange={e => setCommand(e.target.value)}
-          placeholder="echo 'hello world'"
-          className="font-mono text-sm min-h-[100px]"
-          data-testid="input-job-command"
-        />
+        <div className="flex items-center gap-2 mb-2">
+          <Button
+            variant={mode === "command" ? "default" : "outline"}
+            size="sm"
+            onClick={() => setMode("command")}
+            data-testid="button-mode-command"
+          >
+            Command
+          </Button>
+          <Button
+            variant={mode === "workflow" ? "default" : "outline"}
+            size="sm"
+            onClick={() => setMode("workflow")}
+            data-testid="button-mode-workflow"
+          >
+            Workflow
+          </Button>
+        </div>
+        {mode === "command" ? (
+          <Textarea
+            value={command}
+            onChange={e => setCommand(e.target.value)}
+            placeholder="echo 'hello world'"
+            className="font-mono text-sm min-h-[100px]"
+            data-testid="input-job-command"
+          />
+        ) : (
+          <WorkflowEditor steps={steps} onChange={setSteps} />
+        )}
+      </div>
+
+      <div className="grid grid-cols-3 gap-3">
+        <div>
+          <Label>Retries</Label>
+          <Input
+            type="number"
+            min={0}
+            max={10}
+            value={maxRetries}
+            onChange={e => setMaxRetries(e.target.value)}
+            data-testid="input-max-retries"
+          />
+        </div>
+        <div>
+          <Label>Backoff (s)</Label>
+          <Input
+            type="number"
+            min={1}
+            value={retryBackoffSeconds}
+            onChange={e => setRetryBackoffSeconds(e.target.value)}
+            data-testid="input-retry-backoff"
+          />
+        </div>
+        <div>
+          <Label>Timeout (s)</Label>
+          <Input
+            type="number"
+            min={5}
+            value={timeoutSeconds}
+            onChange={e => setTimeoutSeconds(e.target.value)}
+            placeholder="120"
+            data-testid="input-timeout"
+          />
+        </div>
+      </div>
+      <p className="text-xs text-muted-foreground -mt-2">Each retry waits twice as long as the previous one.</p>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <Label>Output Limit (chars)</Label>
+          <Input
+            type="number"
+            min={500}
+            value={maxOutputChars}
+            onChange={e => setMaxOutputChars(e.target.value)}
+            data-testid="input-max-output"
+          />
+        </div>
+        <div>
+          <Label>When Truncating</Label>
+          <Select value={outputTruncation} onValueChange={setOutputTruncation}>
+            <SelectTrigger data-testid="select-output-truncation">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {TRUNCATION_OPTIONS.map(o => (
+                <SelectItem key={o.value} value={o.value}>{o.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Alerts</Label>
+        <div className="flex items-center gap-4 flex-wrap">
+          <label className="flex items-center gap-2 text-sm">
+            <Switch checked={notifyOnFailure} onCheckedChange={setNotifyOnFailure} data-testid="switch-notify-failure" />
+            On failure
+          </label>
+          <label className="flex items-center gap-2 text-sm">
+            <Switch checked={notifyOnRecovery} onCheckedChange={setNotifyOnRecovery} data-testid="switch-notify-recovery" />
+            On recovery
+          </label>
+        </div>
+        {(notifyOnFailure || notifyOnRecovery) && (
+          <div className="grid gap-2">
+            <Input
+              value={notifyWhatsapp}
+              onChange={e => setNotifyWhatsapp(e.target.value)}
+              placeholder="WhatsApp number, e.g. +15551234567"
+              data-testid="input-notify-whatsapp"
+            />
+            <Input
+              value={notifyTelegram}
+              onChange={e => setNotifyTelegram(e.target.value)}
+              placeholder="Telegram chat ID"
+              data-testid="input-notify-telegram"
+            />
+            <Input
+              type="email"
+              value={notifyEmail}
+              onChange={e => setNotifyEmail(e.target.value)}
+              placeholder="Email address (sent via SendGrid)"
+              data-testid="input-notify-email"
+            />
+          </div>
+        )}
       </div>
 
       <div className="flex items-center gap-2">
@@ -213,8 +1112,40 @@ function JobForm({
       <DialogFooter>
         <Button variant="outline" onClick={onCancel} data-testid="button-cancel-job">Cancel</Button>
         <Button
-          onClick={() => onSubmit({ name, schedule, command, template: template || null, enabled })}
-          disabled={!name || !schedule || !command || isPending}
+          onClick={() => onSubmit({
+            name,
+            schedule,
+            command,
+            template: template || null,
+            enabled,
+            triggerType,
+            eventType: triggerType === "event" ? eventType : null,
+            eventFilters: triggerType === "event" && eventFilters.length > 0 ? eventFilters : null,
+            eventCooldownSeconds: parseInt(eventCooldownSeconds, 10) || 0,
+            timezone: timezone.trim() || null,
+            catchUpPolicy,
+            concurrencyPolicy,
+            targetType,
+            targetInstanceId: targetType === "default" ? null : targetInstanceId || null,
+            targetNode: targetType === "node" ? targetNode.trim() : null,
+            targetGroupId: targetType === "group" ? targetGroupId : null,
+            maxRetries: parseInt(maxRetries, 10) || 0,
+            retryBackoffSeconds: parseInt(retryBackoffSeconds, 10) || 30,
+            timeoutSeconds: parseInt(timeoutSeconds, 10) || null,
+            maxOutputChars: parseInt(maxOutputChars, 10) || 20000,
+            outputTruncation,
+            notifyOnFailure,
+            notifyOnRecovery,
+            notifyTargets: buildNotifyTargets(),
+            steps: mode === "workflow" ? steps : null,
+          })}
+          disabled={
+            !name ||
+            (triggerType === "event" ? !eventType : !schedule) ||
+            (mode === "command" ? !command : steps.length === 0) ||
+            !targetReady ||
+            isPending
+          }
           data-testid="button-save-job"
         >
           {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
@@ -225,9 +1156,47 @@ function JobForm({
   );
 }
 
+const ACTIVE_RUN_STATUSES = ["running", "retrying", "queued"];
+
+function StepStatusIcon({ status }: { status: string }) {
+  if (status === "completed") return <CheckCircle2 className="h-3 w-3 text-green-600" />;
+  if (status === "failed") return <XCircle className="h-3 w-3 text-destructive" />;
+  if (status === "running") return <Loader2 className="h-3 w-3 animate-spin" />;
+  if (status === "skipped" || status === "cancelled") return <MinusCircle className="h-3 w-3 text-muted-foreground" />;
+  return <Clock className="h-3 w-3 text-muted-foreground" />;
+}
+
+function StepResults({ results }: { results: AutomationStepResult[] }) {
+  return (
+    <div className="space-y-2">
+      {results.map(r => (
+        <div key={r.id} className="rounded-md border p-2" data-testid={`step-result-${r.id}`}>
+          <div className="flex items-center gap-2 text-sm flex-wrap">
+            <StepStatusIcon status={r.status} />
+            <span className="font-medium">{r.name || r.id}</span>
+            <Badge variant="outline" className="text-xs">{r.type}</Badge>
+            <span className="text-xs text-muted-foreground">{r.status}</span>
+            {r.exitCode !== undefined && <span className="text-xs font-mono text-muted-foreground">exit {r.exitCode}</span>}
+            {r.durationMs !== undefined && <span className="text-xs text-muted-foreground">{formatDuration(r.durationMs)}</span>}
+            {r.attempt !== undefined && r.attempt > 1 && <span className="text-xs text-muted-foreground">{r.attempt} attempts</span>}
+          </div>
+          {r.skipReason && <p className="text-xs text-muted-foreground mt-1">{r.skipReason}</p>}
+          {r.output && (
+            <pre className="text-xs mt-1 max-h-[120px] overflow-auto whitespace-pre-wrap font-mono text-muted-foreground">
+              {r.output}
+            </pre>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
+
 function RunHistory({ jobId }: { jobId: string }) {
+  const [expandedRunId, setExpandedRunId] = useState<string | null>(null);
   const { data: runs, isLoading } = useQuery<AutomationRun[]>({
     queryKey: ["/api/automation/jobs", jobId, "runs"],
+    refetchInterval: (query) => query.state.data?.some(r => ACTIVE_RUN_STATUSES.includes(r.status)) ? 3000 : false,
   });
 
   if (isLoading) {
@@ -248,42 +1217,83 @@ function RunHistory({ jobId }: { jobId: string }) {
         <TableHeader>
           <TableRow>
             <TableHead>Status</TableHead>
+            <TableHead>Target</TableHead>
             <TableHead>Started</TableHead>
-            <TableHead>Completed</TableHead>
+            <TableHead>Duration</TableHead>
+            <TableHead>Exit</TableHead>
             <TableHead>Output</TableHead>
           </TableRow>
         </TableHeader>
         <TableBody>
           {runs.map(run => (
-            <TableRow key={run.id} data-testid={`row-run-${run.id}`}>
-              <TableCell>
-                {run.status === "completed" && (
-                  <Badge variant="default" className="bg-green-600" data-testid={`status-run-${run.id}`}>
-                    <CheckCircle2 className="h-3 w-3 mr-1" /> Completed
-                  </Badge>
-                )}
-                {run.status === "failed" && (
-                  <Badge variant="destructive" data-testid={`status-run-${run.id}`}>
-                    <XCircle className="h-3 w-3 mr-1" /> Failed
-                  </Badge>
-                )}
-                {run.status === "running" && (
-                  <Badge variant="secondary" data-testid={`status-run-${run.id}`}>
-                    <Loader2 className="h-3 w-3 mr-1 animate-spin" /> Running
-                  </Badge>
-                )}
-                {!["completed", "failed", "running"].includes(run.status) && (
-                  <Badge variant="outline" data-testid={`status-run-${run.id}`}>{run.status}</Badge>
-                )}
-              </TableCell>
-              <TableCell className="text-sm">{formatDate(run.startedAt)}</TableCell>
-              <TableCell className="text-sm">{formatDate(run.completedAt)}</TableCell>
-              <TableCell>
-                <pre className="text-xs max-w-[300px] max-h-[80px] overflow-auto whitespace-pre-wrap font-mono text-muted-foreground">
-                  {run.output || "-"}
-                </pre>
-              </TableCell>
-            </TableRow>
+            <Fragment key={run.id}>
+              <TableRow data-testid={`row-run-${run.id}`}>
+                <TableCell>
+                  {run.stepResults && run.stepResults.length > 0 && (
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="h-6 w-6 mr-1"
+                      onClick={() => setExpandedRunId(expandedRunId === run.id ? null : run.id)}
+                      data-testid={`button-expand-run-${run.id}`}
+                    >
+                      {expandedRunId === run.id ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+                    </Button>
+                  )}
+                  {run.status === "completed" && (
+                    <Badge variant="default" className="bg-green-600" data-testid={`status-run-${run.id}`}>
+                      <CheckCircle2 className="h-3 w-3 mr-1" /> Completed
+                    </Badge>
+                  )}
+                  {run.status === "failed" && (
+                    <Badge variant="destructive" data-testid={`status-run-${run.id}`}>
+                      <XCircle className="h-3 w-3 mr-1" /> Failed
+                    </Badge>
+                  )}
+                  {run.status === "running" && (
+                    <Badge variant="secondary" data-testid={`status-run-${run.id}`}>
+                      <Loader2 className="h-3 w-3 mr-1 animate-spin" /> Running
+                    </Badge>
+                  )}
+                  {run.status === "retrying" && (
+                    <Badge variant="secondary" data-testid={`status-run-${run.id}`}>
+                      <Loader2 className="h-3 w-3 mr-1 animate-spin" /> Retrying
+                    </Badge>
+                  )}
+                  {run.status === "cancelled" && (
+                    <Badge variant="outline" data-testid={`status-run-${run.id}`}>
+                      <XCircle className="h-3 w-3 mr-1" /> Cancelled
+                    </Badge>
+                  )}
+                  {!["completed", "failed", "running", "retrying", "cancelled"].includes(run.status) && (
+                    <Badge variant="outline" data-testid={`status-run-${run.id}`}>{run.status}</Badge>
+                  )}
+                </TableCell>
+                <TableCell className="text-sm" data-testid={`text-run-target-${run.id}`}>{run.target || "-"}</TableCell>
+                <TableCell className="text-sm">
+                  {formatDate(run.startedAt)}
+                  <span className="block text-xs text-muted-foreground" data-testid={`text-run-trigger-${run.id}`}>{run.trigger}</span>
+                </TableCell>
+                <TableCell className="text-sm" data-testid={`text-run-duration-${run.id}`}>
+                  {formatDuration(run.durationMs)}
+                  {run.attempt > 1 && <span className="block text-xs text-muted-foreground">{run.attempt} attempts</span>}
+                </TableCell>
+                <TableCell className="text-sm font-mono" data-testid={`text-run-exit-${run.id}`}>{run.exitCode ?? "-"}</TableCell>
+                <TableCell>
+                  <pre className="text-xs max-w-[300px] max-h-[80px] overflow-auto whitespace-pre-wrap font-mono text-muted-foreground">
+                    {run.output || "-"}
+                  </pre>
+                  {run.outputTruncated && <span className="text-xs text-muted-foreground">Output truncated</span>}
+                </TableCell>
+              </TableRow>
+              {expandedRunId === run.id && run.stepResults && (
+                <TableRow>
+                  <TableCell colSpan={6}>
+                    <StepResults results={run.stepResults} />
+                  </TableCell>
+                </TableRow>
+              )}
+            </Fragment>
           ))}
         </TableBody>
       </Table>
@@ -291,18 +1301,239 @@ function RunHistory({ jobId }: { jobId: string }) {
   );
 }
 
+function MachineGroupsPanel() {
+  const { toast } = useToast();
+  const [name, setName] = useState("");
+  const [selected, setSelected] = useState<string[]>([]);
+
+  const { data: machines } = useQuery<Machine[]>({ queryKey: ["/api/machines"] });
+  const { data: groups, isLoading } = useQuery<MachineGroup[]>({ queryKey: ["/api/machine-groups"] });
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/machine-groups", { name, machineIds: selected });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/machine-groups"] });
+      setName("");
+      setSelected([]);
+      toast({ title: "Machine group created" });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Failed to create group", description: err.message, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/machine-groups/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/machine-groups"] });
+      toast({ title: "Machine group deleted" });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Failed to delete group", description: err.message, variant: "destructive" });
+    },
+  });
+
+  const machineName = (id: string) => {
+    const m = machines?.find(m => m.id === id);
+    return m ? machineNodeName(m) : "unknown";
+  };
+
+  return (
+    <div className="space-y-4">
+      {isLoading ? (
+        <Skeleton className="h-16 w-full" />
+      ) : !groups || groups.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No machine groups yet</p>
+      ) : (
+        <div className="space-y-2">
+          {groups.map(g => (
+            <div key={g.id} className="flex items-start justify-between gap-2 rounded-md border p-2" data-testid={`row-group-${g.id}`}>
+              <div className="min-w-0">
+                <p className="text-sm font-medium">{g.name}</p>
+                <p className="text-xs text-muted-foreground truncate">{g.machineIds.map(machineName).join(", ") || "No machines"}</p>
+              </div>
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => deleteMutation.mutate(g.id)}
+                data-testid={`button-delete-group-${g.id}`}
+              >
+                <Trash2 className="h-3 w-3" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-2 border-t pt-4">
+        <Label>New Group</Label>
+        <Input
+          value={name}
+          onChange={e => setName(e.target.value)}
+          placeholder="e.g. Office PCs"
+          data-testid="input-group-name"
+        />
+        <div className="max-h-[200px] overflow-auto space-y-1">
+          {(machines || []).map(m => (
+            <label key={m.id} className="flex items-center gap-2 text-sm">
+              <Checkbox
+                checked={selected.includes(m.id)}
+                onCheckedChange={checked =>
+                  setSelected(prev => checked ? [...prev, m.id] : prev.filter(id => id !== m.id))
+                }
+                data-testid={`checkbox-group-machine-${m.id}`}
+              />
+              {machineNodeName(m)}
+              <span className="text-xs text-muted-foreground">{m.status}</span>
+            </label>
+          ))}
+        </div>
+        <Button
+          size="sm"
+          onClick={() => createMutation.mutate()}
+          disabled={!name || selected.length === 0 || createMutation.isPending}
+          data-testid="button-create-group"
+        >
+          {createMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Create Group
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+function RecentEventsPanel() {
+  const { toast } = useToast();
+  const [testType, setTestType] = useState("");
+  const [testPayload, setTestPayload] = useState("{}");
+  const { data: events, isLoading } = useQuery<AutomationEvent[]>({
+    queryKey: ["/api/automation/events"],
+    refetchInterval: 5000,
+  });
+
+  const testMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/automation/events/test", { type: testType, payload: JSON.parse(testPayload) });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/automation/events"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/automation/jobs"] });
+      toast({ title: "Test event published" });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Failed to publish event", description: err.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="space-y-4">
+      <div className="max-h-[300px] overflow-auto">
+        {isLoading ? (
+          <Skeleton className="h-16 w-full" />
+        ) : !events || events.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No events since the server started</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Event</TableHead>
+                <TableHead>Time</TableHead>
+                <TableHead>Payload</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {events.map(event => (
+                <TableRow key={event.id} data-testid={`row-event-${event.id}`}>
+                  <TableCell className="text-sm">
+                    <span className="font-mono">{event.type}</span>
+                    <span className="block text-xs text-muted-foreground">{event.source}</span>
+                  </TableCell>
+                  <TableCell className="text-sm">{formatDate(event.timestamp)}</TableCell>
+                  <TableCell>
+                    <pre className="text-xs max-w-[320px] max-h-[80px] overflow-auto whitespace-pre-wrap font-mono text-muted-foreground">
+                      {JSON.stringify(event.payload, null, 2)}
+                    </pre>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </div>
+
+      <div className="space-y-2 border-t pt-4">
+        <Label>Publish Test Event</Label>
+        <Select value={testType} onValueChange={setTestType}>
+          <SelectTrigger data-testid="select-test-event-type">
+            <SelectValue placeholder="Event type" />
+          </SelectTrigger>
+          <SelectContent>
+            {EVENT_OPTIONS.map(o => (
+              <SelectItem key={o.value} value={o.value}>{o.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Textarea
+          value={testPayload}
+          onChange={e => setTestPayload(e.target.value)}
+          placeholder='{"severity": "critical"}'
+          className="font-mono text-xs min-h-[60px]"
+          data-testid="input-test-event-payload"
+        />
+        <Button
+          size="sm"
+          onClick={() => testMutation.mutate()}
+          disabled={!testType || testMutation.isPending}
+          data-testid="button-publish-test-event"
+        >
+          {testMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Publish
+        </Button>
+        <p className="text-xs text-muted-foreground">Matching event-triggered jobs run exactly as they would for a real event.</p>
+      </div>
+    </div>
+  );
+}
+
+function describeTarget(job: AutomationJob, instances: { id: string; name: string }[], groups?: MachineGroup[]): string {
+  const instanceName = instances.find(i => i.id === job.targetInstanceId)?.name;
+  switch (job.targetType) {
+    case "instance":
+      return instanceName || "Unknown instance";
+    case "node":
+      return `Node ${job.targetNode}${instanceName ? ` via ${instanceName}` : ""}`;
+    case "group":
+      return `Group ${groups?.find(g => g.id === job.targetGroupId)?.name || "unknown"}`;
+    default:
+      return "Default VPS";
+  }
+}
+
 export default function AutomationPage() {
   const { toast } = useToast();
   const [showCreate, setShowCreate] = useState(false);
   const [editJob, setEditJob] = useState<AutomationJob | null>(null);
-  const [historyJobId, setHistoryJobId] = useState<string | null>(null);
+  const linkedJobId = new URLSearchParams(useSearch()).get("job");
+  const [historyJobId, setHistoryJobId] = useState<string | null>(linkedJobId);
+  const [showGroups, setShowGroups] = useState(false);
+  const [showEvents, setShowEvents] = useState(false);
+  const { instances } = useInstance();
+  const { data: groups } = useQuery<MachineGroup[]>({ queryKey: ["/api/machine-groups"] });
 
   const { data: jobs, isLoading } = useQuery<AutomationJob[]>({
     queryKey: ["/api/automation/jobs"],
   });
 
+  useEffect(() => {
+    if (linkedJobId) setHistoryJobId(linkedJobId);
+  }, [linkedJobId]);
+
   const createMutation = useMutation({
-    mutationFn: async (data: { name: string; schedule: string; command: string; template: string | null; enabled: boolean }) => {
+    mutationFn: async (data: JobFormData) => {
       await apiRequest("POST", "/api/automation/jobs", data);
     },
     onSuccess: () => {
@@ -316,7 +1547,7 @@ export default function AutomationPage() {
   });
 
   const updateMutation = useMutation({
-    mutationFn: async ({ id, ...data }: { id: string; name: string; schedule: string; command: string; template: string | null; enabled: boolean }) => {
+    mutationFn: async ({ id, ...data }: { id: string } & JobFormData) => {
       await apiRequest("PATCH", `/api/automation/jobs/${id}`, data);
     },
     onSuccess: () => {
@@ -373,11 +1604,19 @@ export default function AutomationPage() {
       <div className="flex items-center justify-between gap-4 flex-wrap">
         <div>
           <h1 className="text-2xl font-bold" data-testid="text-page-title">Automation</h1>
-          <p className="text-muted-foreground">Schedule and manage automated tasks on your VPS</p>
+          <p className="text-muted-foreground">Schedule and manage automated tasks on your VPSes and nodes</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" onClick={() => setShowEvents(true)} data-testid="button-recent-events">
+            <Zap className="h-4 w-4 mr-2" /> Events
+          </Button>
+          <Button variant="outline" onClick={() => setShowGroups(true)} data-testid="button-machine-groups">
+            <Users className="h-4 w-4 mr-2" /> Machine Groups
+          </Button>
+          <Button onClick={() => setShowCreate(true)} data-testid="button-create-job">
+            <Plus className="h-4 w-4 mr-2" /> New Job
+          </Button>
         </div>
-        <Button onClick={() => setShowCreate(true)} data-testid="button-create-job">
-          <Plus className="h-4 w-4 mr-2" /> New Job
-        </Button>
       </div>
 
       {isLoading ? (
@@ -411,15 +1650,27 @@ export default function AutomationPage() {
                     )}
                   </div>
                   <CardDescription className="flex items-center gap-4 flex-wrap">
-                    <span className="flex items-center gap-1">
-                      <Clock className="h-3 w-3" /> {describeCron(job.schedule)}
+                    {job.triggerType === "event" ? (
+                      <span className="flex items-center gap-1" data-testid={`text-job-trigger-${job.id}`}>
+                        <Zap className="h-3 w-3" /> {describeTrigger(job)}
+                      </span>
+                    ) : (
+                      <span className="flex items-center gap-1">
+                        <Clock className="h-3 w-3" /> {describeCron(job.schedule)}
+                        {job.timezone && <span className="text-xs">({job.timezone})</span>}
+                      </span>
+                    )}
+                    <span className="flex items-center gap-1" data-testid={`text-job-target-${job.id}`}>
+                      <Server className="h-3 w-3" /> {describeTarget(job, instances, groups)}
                     </span>
                     <span className="flex items-center gap-1">
                       <Timer className="h-3 w-3" /> Last: {formatDate(job.lastRun)}
                     </span>
-                    <span className="flex items-center gap-1">
-                      <CalendarClock className="h-3 w-3" /> Next: {formatDate(job.nextRun)}
-                    </span>
+                    {job.triggerType !== "event" && (
+                      <span className="flex items-center gap-1">
+                        <CalendarClock className="h-3 w-3" /> Next: {formatDate(job.nextRun)}
+                      </span>
+                    )}
                   </CardDescription>
                 </div>
                 <div className="flex items-center gap-1 flex-shrink-0">
@@ -431,9 +1682,22 @@ export default function AutomationPage() {
                 </div>
               </CardHeader>
               <CardContent>
-                <pre className="text-xs bg-muted rounded-md p-3 overflow-auto max-h-[80px] font-mono mb-3">
-                  {job.command}
-                </pre>
+                {job.steps && job.steps.length > 0 ? (
+                  <div className="flex items-center gap-1 flex-wrap text-xs bg-muted rounded-md p-3 mb-3" data-testid={`text-job-steps-${job.id}`}>
+                    <Workflow className="h-3 w-3 mr-1" />
+                    {job.steps.map((step, i) => (
+                      <span key={step.id} className="flex items-center gap-1">
+                        {i > 0 && <ChevronRight className="h-3 w-3 text-muted-foreground" />}
+                        <span>{step.name || step.id}</span>
+                        {step.when && <span className="text-muted-foreground">(if {step.when.step})</span>}
+                      </span>
+                    ))}
+                  </div>
+                ) : (
+                  <pre className="text-xs bg-muted rounded-md p-3 overflow-auto max-h-[80px] font-mono mb-3">
+                    {job.command}
+                  </pre>
+                )}
                 <div className="flex items-center gap-2 flex-wrap">
                   <Button
                     size="sm"
@@ -480,10 +1744,10 @@ export default function AutomationPage() {
       )}
 
       <Dialog open={showCreate} onOpenChange={setShowCreate}>
-        <DialogContent className="max-w-lg">
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle>Create Automation Job</DialogTitle>
-            <DialogDescription>Schedule a recurring task to run on your VPS via SSH</DialogDescription>
+            <DialogDescription>Schedule a recurring task on a VPS, a paired node or a group of machines</DialogDescription>
           </DialogHeader>
           <JobForm
             onSubmit={data => createMutation.mutate(data)}
@@ -494,7 +1758,7 @@ export default function AutomationPage() {
       </Dialog>
 
       <Dialog open={!!editJob} onOpenChange={open => !open && setEditJob(null)}>
-        <DialogContent className="max-w-lg">
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle>Edit Automation Job</DialogTitle>
             <DialogDescription>Update job settings</DialogDescription>
@@ -510,8 +1774,28 @@ export default function AutomationPage() {
         </DialogContent>
       </Dialog>
 
+      <Dialog open={showGroups} onOpenChange={setShowGroups}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Machine Groups</DialogTitle>
+            <DialogDescription>Group paired machines so one job can fan out across all of them</DialogDescription>
+          </DialogHeader>
+          <MachineGroupsPanel />
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={showEvents} onOpenChange={setShowEvents}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>Recent Events</DialogTitle>
+            <DialogDescription>Events that event-triggered jobs can subscribe to</DialogDescription>
+          </DialogHeader>
+          <RecentEventsPanel />
+        </DialogContent>
+      </Dialog>
+
       <Dialog open={!!historyJobId} onOpenChange={open => !open && setHistoryJobId(null)}>
-        <DialogContent className="max-w-2xl">
+        <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle>Run History</DialogTitle>
             <DialogDescription>
@@ -2,7 +2,7 @@ import { useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import type { EmailWorkflow } from "@shared/schema";
+import type { EmailWorkflow, EmailWorkflowMatch } from "@shared/schema";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -15,9 +15,10 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, Di
 import { Skeleton } from "@/components/ui/skeleton";
 import {
   Mail, Plus, Trash2, Power, PowerOff, Zap, MessageSquare,
-  Calendar, Database, Bell, FileText, TrendingUp, Briefcase,
+  FileText, TrendingUp, Briefcase,
   Stethoscope, Bitcoin, Scale, PiggyBank, Megaphone, Users,
-  Loader2, Search, Filter
+  Loader2, Search, Filter, Forward, Tag, Reply, ListTodo, History, RefreshCw,
+  FlaskConical, CheckCircle2, XCircle, AlertTriangle
 } from "lucide-react";
 
 const CATEGORIES = [
@@ -33,13 +34,32 @@ const CATEGORIES = [
 
 const ACTION_TYPES = [
   { value: "whatsapp", label: "WhatsApp Alert", icon: MessageSquare },
-  { value: "calendar", label: "Calendar Event", icon: Calendar },
-  { value: "crm", label: "CRM Entry", icon: Database },
-  { value: "notification", label: "Dashboard Notification", icon: Bell },
   { value: "ai-summarize", label: "AI Summarize + WhatsApp", icon: Zap },
+  { value: "todo", label: "Create Todo", icon: ListTodo },
+  { value: "forward", label: "Forward", icon: Forward },
+  { value: "label", label: "Apply Label", icon: Tag },
+  { value: "ai-reply", label: "AI Draft Reply", icon: Reply },
   { value: "log", label: "Log Only", icon: FileText },
 ];
 
+const LEGACY_ACTIONS: Record<string, string> = {
+  notification: "whatsapp",
+  calendar: "todo",
+  crm: "todo",
+};
+
+const MAILBOX_SOURCES = [
+  { value: "email", label: "Any connected mailbox" },
+  { value: "gmail", label: "Gmail" },
+  { value: "imap", label: "IMAP" },
+];
+
+const MATCH_STATUS_COLORS: Record<string, string> = {
+  completed: "bg-green-500/10 text-green-600 dark:text-green-400",
+  failed: "bg-red-500/10 text-red-600 dark:text-red-400",
+  running: "bg-blue-500/10 text-blue-600 dark:text-blue-400",
+};
+
 const WORKFLOW_TEMPLATES = [
   {
     name: "DocuSign Crypto Docs → AI Summary",
@@ -56,8 +76,8 @@ const WORKFLOW_TEMPLATES = [
     category: "legal",
     triggerPattern: "from:lauren.pogue subject:(PCT OR patent OR deadline OR filing)",
     triggerSource: "email",
-    action: "calendar",
-    actionConfig: { calendarAction: "create", alertVia: "whatsapp" },
+    action: "todo",
+    actionConfig: { priority: "high", todoTemplate: "Patent deadline: {subject}", alertVia: "whatsapp" },
   },
   {
     name: "Investment Fund Transfer Alerts",
@@ -65,8 +85,8 @@ const WORKFLOW_TEMPLATES = [
     category: "investment",
     triggerPattern: "from:(lindbergh OR dragon-king) subject:(transfer OR fund OR investment)",
     triggerSource: "email",
-    action: "crm",
-    actionConfig: { crmType: "transaction", alertVia: "whatsapp" },
+    action: "todo",
+    actionConfig: { todoTemplate: "Fund transfer: {subject} (from {from})", alertVia: "whatsapp" },
   },
   {
     name: "Medical Scribe Notes Summary",
@@ -92,8 +112,8 @@ const WORKFLOW_TEMPLATES = [
     category: "media",
     triggerPattern: "from:(podpage OR anchor OR spotify) subject:(published OR live OR episode)",
     triggerSource: "email",
-    action: "notification",
-    actionConfig: { channels: ["whatsapp", "dashboard"] },
+    action: "whatsapp",
+    actionConfig: { messageTemplate: "New episode: {subject}" },
   },
   {
     name: "App Store Connect Reviews",
@@ -119,8 +139,8 @@ const WORKFLOW_TEMPLATES = [
     category: "crypto",
     triggerPattern: "from:(coinbase OR binance OR metamask OR wallet) subject:(transaction OR deposit OR withdrawal OR transfer)",
     triggerSource: "email",
-    action: "crm",
-    actionConfig: { crmType: "crypto-transaction", alertVia: "whatsapp" },
+    action: "todo",
+    actionConfig: { todoTemplate: "Crypto transaction: {subject}", alertVia: "whatsapp" },
   },
   {
     name: "Clover POS Daily Summary",
@@ -128,8 +148,8 @@ const WORKFLOW_TEMPLATES = [
     category: "business",
     triggerPattern: "from:clover subject:(daily summary OR settlement OR transaction report)",
     triggerSource: "email",
-    action: "notification",
-    actionConfig: { channels: ["whatsapp", "dashboard"] },
+    action: "label",
+    actionConfig: { label: "Clover", alertVia: "whatsapp" },
   },
   {
     name: "Veradigm Health Tech Updates",
@@ -156,7 +176,300 @@ function getCategoryInfo(category: string) {
 }
 
 function getActionInfo(action: string) {
-  return ACTION_TYPES.find(a => a.value === action) || ACTION_TYPES[ACTION_TYPES.length - 1];
+  const resolved = LEGACY_ACTIONS[action] || action;
+  return ACTION_TYPES.find(a => a.value === resolved) || ACTION_TYPES[ACTION_TYPES.length - 1];
+}
+
+function ActionConfigFields({ action, config, onChange }: {
+  action: string;
+  config: Record<string, unknown>;
+  onChange: (config: Record<string, unknown>) => void;
+}) {
+  const value = (key: string) => (config[key] as string | undefined) ?? "";
+  const set = (key: string, v: string) => onChange({ ...config, [key]: v || undefined });
+
+  return (
+    <div className="space-y-3 rounded-md border p-3">
+      {(action === "whatsapp" || action === "ai-summarize") && (
+        <div className="space-y-2">
+          <Label htmlFor="wf-to">WhatsApp number</Label>
+          <Input id="wf-to" value={value("to")} onChange={e => set("to", e.target.value)} placeholder="Defaults to the bot's own number" data-testid="input-action-to" />
+        </div>
+      )}
+      {action === "whatsapp" && (
+        <div className="space-y-2">
+          <Label htmlFor="wf-message">Message template</Label>
+          <Input id="wf-message" value={value("messageTemplate")} onChange={e => set("messageTemplate", e.target.value)} placeholder="Email: {subject}" data-testid="input-action-message" />
+        </div>
+      )}
+      {(action === "ai-summarize" || action === "ai-reply") && (
+        <div className="space-y-2">
+          <Label htmlFor="wf-prompt">AI instructions</Label>
+          <Textarea id="wf-prompt" value={value("prompt")} onChange={e => set("prompt", e.target.value)} rows={2} placeholder={action === "ai-reply" ? "Draft a brief, polite reply" : "Summarize this email"} data-testid="input-action-prompt" />
+        </div>
+      )}
+      {action === "todo" && (
+        <div className="grid grid-cols-2 gap-3">
+          <div className="space-y-2">
+            <Label htmlFor="wf-todo">Todo text</Label>
+            <Input id="wf-todo" value={value("todoTemplate")} onChange={e => set("todoTemplate", e.target.value)} placeholder="{subject} (from {from})" data-testid="input-action-todo" />
+          </div>
+          <div className="space-y-2">
+            <Label>Priority</Label>
+            <Select value={value("priority") || "medium"} onValueChange={v => set("priority", v)}>
+              <SelectTrigger data-testid="select-action-priority">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="low">Low</SelectItem>
+                <SelectItem value="medium">Medium</SelectItem>
+                <SelectItem value="high">High</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      )}
+      {action === "forward" && (
+        <div className="space-y-2">
+          <Label htmlFor="wf-forward">Forward to</Label>
+          <Input id="wf-forward" type="email" value={value("forwardTo")} onChange={e => set("forwardTo", e.target.value)} placeholder="someone@example.com" data-testid="input-action-forward" />
+        </div>
+      )}
+      {action === "label" && (
+        <div className="space-y-2">
+          <Label htmlFor="wf-label">Label</Label>
+          <Input id="wf-label" value={value("label")} onChange={e => set("label", e.target.value)} placeholder="e.g., Legal/Patents" data-testid="input-action-label" />
+        </div>
+      )}
+      {action !== "whatsapp" && action !== "ai-summarize" && (
+        <div className="flex items-center justify-between">
+          <Label htmlFor="wf-alert" className="text-sm font-normal">Also send a WhatsApp alert</Label>
+          <Switch id="wf-alert" checked={config.alertVia === "whatsapp"} onCheckedChange={checked => set("alertVia", checked ? "whatsapp" : "")} data-testid="switch-action-alert" />
+        </div>
+      )}
+      <p className="text-xs text-muted-foreground">
+        Templates can use {"{subject}"}, {"{from}"}, {"{to}"}, {"{date}"} and {"{snippet}"}
+      </p>
+    </div>
+  );
+}
+
+interface PatternHighlight {
+  start: number;
+  end: number;
+  found: boolean;
+  satisfied: boolean;
+}
+
+interface WorkflowTestResult {
+  workflowId: string;
+  name: string;
+  enabled: boolean;
+  matched: boolean;
+  error?: string;
+  highlights: PatternHighlight[];
+  actions: string[];
+  alreadyFired: boolean;
+}
+
+interface WorkflowTestResponse {
+  message: { from: string; to: string; subject: string; date: string; snippet: string; attachmentNames: string[] };
+  results: WorkflowTestResult[];
+}
+
+interface RecentGmailMessage {
+  id: string;
+  from: string;
+  subject: string;
+  date: string;
+  snippet: string;
+}
+
+const SAMPLE_EMAIL_PLACEHOLDER = `From: DocuSign <dse@docusign.net>
+To: you@example.com
+Subject: Please sign: SToR Token agreement
+
+Hello, you have a document waiting for your signature.`;
+
+function HighlightedPattern({ pattern, highlights }: { pattern: string; highlights: PatternHighlight[] }) {
+  const segments: { text: string; highlight?: PatternHighlight }[] = [];
+  let cursor = 0;
+  for (const h of [...highlights].sort((a, b) => a.start - b.start)) {
+    if (h.start < cursor) continue;
+    if (h.start > cursor) segments.push({ text: pattern.slice(cursor, h.start) });
+    segments.push({ text: pattern.slice(h.start, h.end), highlight: h });
+    cursor = h.end;
+  }
+  if (cursor < pattern.length) segments.push({ text: pattern.slice(cursor) });
+
+  return (
+    <code className="block text-xs font-mono rounded bg-muted p-2 whitespace-pre-wrap break-words">
+      {segments.map((seg, i) =>
+        seg.highlight ? (
+          <span
+            key={i}
+            className={seg.highlight.satisfied
+              ? "rounded bg-green-500/20 text-green-700 dark:text-green-400"
+              : "rounded bg-red-500/15 text-red-700 dark:text-red-400"}
+            title={seg.highlight.found ? "Found in this message" : "Not found in this message"}
+          >
+            {seg.text}
+          </span>
+        ) : (
+          <span key={i} className="text-muted-foreground">{seg.text}</span>
+        )
+      )}
+    </code>
+  );
+}
+
+function WorkflowTestPanel({ workflows }: { workflows: EmailWorkflow[] }) {
+  const { toast } = useToast();
+  const [mode, setMode] = useState<"paste" | "gmail">("paste");
+  const [raw, setRaw] = useState("");
+  const [gmailMessageId, setGmailMessageId] = useState<string | null>(null);
+
+  const { data: recent, isLoading: recentLoading, error: recentError } = useQuery<RecentGmailMessage[]>({
+    queryKey: ["/api/email-workflows/test/recent"],
+    enabled: mode === "gmail",
+  });
+
+  const testMutation = useMutation({
+    mutationFn: async () => {
+      const body = mode === "paste" ? { raw } : { gmailMessageId };
+      const res = await apiRequest("POST", "/api/email-workflows/test", body);
+      return res.json() as Promise<WorkflowTestResponse>;
+    },
+    onError: (err: Error) => {
+      toast({ title: "Test failed", description: err.message, variant: "destructive" });
+    },
+  });
+
+  const result = testMutation.data;
+  const matchedCount = result?.results.filter(r => r.matched).length ?? 0;
+  const canRun = mode === "paste" ? !!raw.trim() : !!gmailMessageId;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex gap-2">
+        <Button size="sm" variant={mode === "paste" ? "default" : "outline"} onClick={() => setMode("paste")} data-testid="button-test-mode-paste">
+          Paste Email
+        </Button>
+        <Button size="sm" variant={mode === "gmail" ? "default" : "outline"} onClick={() => setMode("gmail")} data-testid="button-test-mode-gmail">
+          Recent Gmail
+        </Button>
+      </div>
+
+      {mode === "paste" ? (
+        <Textarea
+          value={raw}
+          onChange={e => setRaw(e.target.value)}
+          placeholder={SAMPLE_EMAIL_PLACEHOLDER}
+          rows={8}
+          className="font-mono text-xs"
+          data-testid="input-test-raw-email"
+        />
+      ) : recentLoading ? (
+        <Skeleton className="h-32 w-full" />
+      ) : recentError ? (
+        <p className="text-sm text-destructive" data-testid="text-test-recent-error">{(recentError as Error).message}</p>
+      ) : (
+        <div className="max-h-56 overflow-y-auto rounded-md border divide-y">
+          {recent?.map(msg => (
+            <button
+              key={msg.id}
+              type="button"
+              onClick={() => setGmailMessageId(msg.id)}
+              className={`w-full text-left p-2 hover:bg-muted/50 ${gmailMessageId === msg.id ? "bg-primary/10" : ""}`}
+              data-testid={`button-test-message-${msg.id}`}
+            >
+              <p className="text-sm font-medium truncate">{msg.subject || "(no subject)"}</p>
+              <p className="text-xs text-muted-foreground truncate">{msg.from} · {new Date(msg.date).toLocaleString()}</p>
+            </button>
+          ))}
+          {recent?.length === 0 && <p className="text-sm text-muted-foreground p-3">No recent messages</p>}
+        </div>
+      )}
+
+      <Button onClick={() => testMutation.mutate()} disabled={!canRun || testMutation.isPending} data-testid="button-run-test">
+        {testMutation.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <FlaskConical className="h-4 w-4 mr-2" />}
+        Run Test
+      </Button>
+
+      {result && (
+        <div className="space-y-3">
+          <div className="rounded-md border p-3 text-sm">
+            <p className="font-medium truncate" data-testid="text-test-subject">{result.message.subject || "(no subject)"}</p>
+            <p className="text-xs text-muted-foreground truncate">From: {result.message.from || "(none)"} · To: {result.message.to || "(none)"}</p>
+            <p className="text-xs text-muted-foreground mt-1" data-testid="text-test-summary">
+              {matchedCount} of {result.results.length} workflows would match. Nothing was executed.
+            </p>
+          </div>
+          {result.results.map(r => {
+            const workflow = workflows.find(w => w.id === r.workflowId);
+            return (
+              <div key={r.workflowId} className="rounded-md border p-3 space-y-2" data-testid={`row-test-result-${r.workflowId}`}>
+                <div className="flex items-center justify-between gap-2">
+                  <p className="text-sm font-medium truncate">{r.name}</p>
+                  <div className="flex items-center gap-1 shrink-0">
+                    {!r.enabled && <Badge variant="outline" className="text-xs">Disabled</Badge>}
+                    {r.alreadyFired && <Badge variant="outline" className="text-xs">Already fired</Badge>}
+                    {r.error ? (
+                      <Badge variant="secondary" className="text-xs bg-amber-500/10 text-amber-600 dark:text-amber-400">
+                        <AlertTriangle className="h-3 w-3 mr-1" />Invalid pattern
+                      </Badge>
+                    ) : r.matched ? (
+                      <Badge variant="secondary" className="text-xs bg-green-500/10 text-green-600 dark:text-green-400">
+                        <CheckCircle2 className="h-3 w-3 mr-1" />Match
+                      </Badge>
+                    ) : (
+                      <Badge variant="secondary" className="text-xs">
+                        <XCircle className="h-3 w-3 mr-1" />No match
+                      </Badge>
+                    )}
+                  </div>
+                </div>
+                {workflow && <HighlightedPattern pattern={workflow.triggerPattern} highlights={r.highlights} />}
+                {r.error && <p className="text-xs text-amber-600 dark:text-amber-400">{r.error}</p>}
+                {r.actions.length > 0 && (
+                  <ul className="text-xs text-muted-foreground list-disc pl-4 space-y-0.5">
+                    {r.actions.map((action, i) => <li key={i}>{action}</li>)}
+                  </ul>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function MatchHistory({ workflow }: { workflow: EmailWorkflow }) {
+  const { data: matches, isLoading } = useQuery<EmailWorkflowMatch[]>({
+    queryKey: ["/api/email-workflows", workflow.id, "matches"],
+  });
+
+  if (isLoading) return <Skeleton className="h-24 w-full" />;
+  if (!matches?.length) {
+    return <p className="text-sm text-muted-foreground py-6 text-center" data-testid="text-no-matches">No messages have matched this workflow yet</p>;
+  }
+  return (
+    <div className="space-y-2 max-h-[60vh] overflow-y-auto">
+      {matches.map(match => (
+        <div key={match.id} className="rounded-md border p-3 space-y-1" data-testid={`row-match-${match.id}`}>
+          <div className="flex items-center justify-between gap-2">
+            <p className="text-sm font-medium truncate">{match.subject || "(no subject)"}</p>
+            <Badge variant="secondary" className={`text-xs ${MATCH_STATUS_COLORS[match.status] || ""}`}>{match.status}</Badge>
+          </div>
+          <p className="text-xs text-muted-foreground truncate">
+            {match.sender} · {match.mailbox} · {new Date(match.createdAt).toLocaleString()}
+          </p>
+          {match.output && <pre className="text-xs bg-muted rounded p-2 whitespace-pre-wrap break-words">{match.output}</pre>}
+        </div>
+      ))}
+    </div>
+  );
 }
 
 export default function EmailWorkflows() {
@@ -165,6 +478,8 @@ export default function EmailWorkflows() {
   const [showTemplateDialog, setShowTemplateDialog] = useState(false);
   const [filterCategory, setFilterCategory] = useState<string>("all");
   const [searchQuery, setSearchQuery] = useState("");
+  const [historyWorkflow, setHistoryWorkflow] = useState<EmailWorkflow | null>(null);
+  const [showTestDialog, setShowTestDialog] = useState(false);
   const [formData, setFormData] = useState({
     name: "",
     description: "",
@@ -201,6 +516,17 @@ export default function EmailWorkflows() {
     },
   });
 
+  const pollMutation = useMutation({
+    mutationFn: () => apiRequest("POST", "/api/email-workflows/poll"),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/email-workflows"] });
+      toast({ title: "Mailbox checked", description: "New messages were matched against enabled workflows." });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Error", description: err.message, variant: "destructive" });
+    },
+  });
+
   const deleteMutation = useMutation({
     mutationFn: (id: string) => apiRequest("DELETE", `/api/email-workflows/${id}`),
     onSuccess: () => {
@@ -266,6 +592,14 @@ export default function EmailWorkflows() {
           </p>
         </div>
         <div className="flex gap-2">
+          <Button variant="outline" onClick={() => pollMutation.mutate()} disabled={pollMutation.isPending} data-testid="button-poll-mailbox">
+            {pollMutation.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <RefreshCw className="h-4 w-4 mr-2" />}
+            Check Now
+          </Button>
+          <Button variant="outline" onClick={() => setShowTestDialog(true)} data-testid="button-test-workflows">
+            <FlaskConical className="h-4 w-4 mr-2" />
+            Test
+          </Button>
           <Button variant="outline" onClick={() => setShowTemplateDialog(true)} data-testid="button-templates">
             <FileText className="h-4 w-4 mr-2" />
             Templates
@@ -408,17 +742,30 @@ export default function EmailWorkflows() {
                     <div className="flex items-center gap-1 text-xs text-muted-foreground">
                       <Zap className="h-3 w-3" />
                       <span data-testid={`text-trigger-count-${wf.id}`}>{wf.triggerCount ?? 0} triggers</span>
+                      {wf.lastTriggered && (
+                        <span data-testid={`text-last-triggered-${wf.id}`}>· last {new Date(wf.lastTriggered).toLocaleString()}</span>
+                      )}
+                    </div>
+                    <div className="flex items-center">
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        onClick={() => setHistoryWorkflow(wf)}
+                        data-testid={`button-history-workflow-${wf.id}`}
+                      >
+                        <History className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        className="text-destructive hover:text-destructive"
+                        onClick={() => deleteMutation.mutate(wf.id)}
+                        disabled={deleteMutation.isPending}
+                        data-testid={`button-delete-workflow-${wf.id}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
                     </div>
-                    <Button
-                      size="icon"
-                      variant="ghost"
-                      className="text-destructive hover:text-destructive"
-                      onClick={() => deleteMutation.mutate(wf.id)}
-                      disabled={deleteMutation.isPending}
-                      data-testid={`button-delete-workflow-${wf.id}`}
-                    >
-                      <Trash2 className="h-4 w-4" />
-                    </Button>
                   </div>
                 </CardContent>
               </Card>
@@ -506,7 +853,7 @@ export default function EmailWorkflows() {
       </Dialog>
 
       <Dialog open={showCreateDialog} onOpenChange={setShowCreateDialog}>
-        <DialogContent className="max-w-lg">
+        <DialogContent className="max-w-lg max-h-[85vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle>Create Email Workflow</DialogTitle>
             <DialogDescription>
@@ -551,7 +898,7 @@ export default function EmailWorkflows() {
               </div>
               <div className="space-y-2">
                 <Label>Action</Label>
-                <Select value={formData.action} onValueChange={v => setFormData(f => ({ ...f, action: v }))}>
+                <Select value={formData.action} onValueChange={v => setFormData(f => ({ ...f, action: v, actionConfig: {} }))}>
                   <SelectTrigger data-testid="select-workflow-action">
                     <SelectValue />
                   </SelectTrigger>
@@ -575,9 +922,27 @@ export default function EmailWorkflows() {
                 data-testid="input-workflow-trigger"
               />
               <p className="text-xs text-muted-foreground">
-                Use Gmail-style search operators: from:, subject:, has:, OR, AND
+                Use Gmail-style search operators: from:, to:, subject:, label:, has:attachment, is:unread, "phrases", -exclude, OR, AND
               </p>
             </div>
+            <div className="space-y-2">
+              <Label>Mailbox</Label>
+              <Select value={formData.triggerSource} onValueChange={v => setFormData(f => ({ ...f, triggerSource: v }))}>
+                <SelectTrigger data-testid="select-workflow-source">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {MAILBOX_SOURCES.map(src => (
+                    <SelectItem key={src.value} value={src.value}>{src.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <ActionConfigFields
+              action={formData.action}
+              config={formData.actionConfig}
+              onChange={actionConfig => setFormData(f => ({ ...f, actionConfig }))}
+            />
           </div>
           <DialogFooter className="mt-4">
             <Button variant="outline" onClick={() => setShowCreateDialog(false)} data-testid="button-cancel-create">
@@ -594,6 +959,30 @@ export default function EmailWorkflows() {
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      <Dialog open={showTestDialog} onOpenChange={setShowTestDialog}>
+        <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Test Workflows</DialogTitle>
+            <DialogDescription>
+              Dry-run a sample email against every workflow, including disabled ones. Green terms count toward a match, red terms against it.
+            </DialogDescription>
+          </DialogHeader>
+          <WorkflowTestPanel workflows={workflows || []} />
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!historyWorkflow} onOpenChange={open => !open && setHistoryWorkflow(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Match History</DialogTitle>
+            <DialogDescription>
+              {historyWorkflow?.name}: messages that fired this workflow
+            </DialogDescription>
+          </DialogHeader>
+          {historyWorkflow && <MatchHistory workflow={historyWorkflow} />}
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
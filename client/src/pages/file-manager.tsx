@@ -1,12 +1,19 @@
-import { useState } from "react";
+import { useRef, useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
+import Editor, { DiffEditor } from "@monaco-editor/react";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import { detectLanguage } from "@/components/code-workspace";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent,
+  AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
 import { useToast } from "@/hooks/use-toast";
 import {
   FolderOpen,
@@ -21,6 +28,11 @@ import {
   FileCode,
   FolderClosed,
   AlertCircle,
+  Upload,
+  Download,
+  FolderPlus,
+  MoreVertical,
+  Loader2,
 } from "lucide-react";
 
 interface FileEntry {
@@ -28,6 +40,7 @@ interface FileEntry {
   type: "file" | "directory" | "symlink" | "other";
   size: number;
   modified: string;
+  mtime: number;
   permissions: string;
 }
 
@@ -36,6 +49,17 @@ interface DirListing {
   entries: FileEntry[];
 }
 
+interface RemoteFile {
+  path: string;
+  content: string;
+  size: number;
+  mtime: number;
+}
+
+type PathAction =
+  | { kind: "rename" | "move" | "chmod"; entry: FileEntry; path: string }
+  | { kind: "mkdir" };
+
 const QUICK_LINKS = [
   { label: "OpenClaw Config", path: "/root/.openclaw" },
   { label: "Home Directory", path: "/root" },
@@ -44,6 +68,13 @@ const QUICK_LINKS = [
   { label: "Tmp", path: "/tmp" },
 ];
 
+const PATH_ACTION_LABELS: Record<PathAction["kind"], { title: string; field: string; submit: string }> = {
+  rename: { title: "Rename", field: "New name", submit: "Rename" },
+  move: { title: "Move", field: "Destination path or directory", submit: "Move" },
+  chmod: { title: "Change permissions", field: "Octal mode (e.g. 644)", submit: "Apply" },
+  mkdir: { title: "New folder", field: "Folder name", submit: "Create" },
+};
+
 function formatSize(bytes: number): string {
   if (bytes < 1024) return `${bytes} B`;
   if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
@@ -62,19 +93,22 @@ function getFileIcon(entry: FileEntry) {
   return <File className="h-4 w-4 text-muted-foreground" />;
 }
 
-function isTextFile(name: string): boolean {
-  const textExts = [
-    "txt", "md", "log", "json", "yaml", "yml", "toml", "cfg", "conf", "ini",
-    "js", "ts", "py", "sh", "bash", "zsh", "fish", "css", "html", "xml",
-    "csv", "env", "service", "timer", "socket", "rules", "list",
-  ];
-  const ext = name.split(".").pop()?.toLowerCase();
-  if (ext && textExts.includes(ext)) return true;
-  const textNames = [
-    ".bashrc", ".profile", ".env", ".gitconfig", "Makefile", "Dockerfile",
-    "config", "hosts", "crontab", "authorized_keys", "known_hosts",
-  ];
-  return textNames.some((n) => name === n || name.endsWith(n));
+function joinPath(dir: string, name: string): string {
+  return dir === "/" ? `/${name}` : `${dir}/${name}`;
+}
+
+function modeOf(permissions: string): string {
+  const bits = permissions.slice(1).split("").map((ch) => (ch === "-" ? 0 : 1));
+  return [0, 3, 6].map((i) => bits[i] * 4 + bits[i + 1] * 2 + bits[i + 2]).join("");
+}
+
+function downloadUrl(path: string, format?: "tar" | "zip") {
+  return `/api/files/download?path=${encodeURIComponent(path)}${format ? `&format=${format}` : ""}`;
+}
+
+async function errorMessage(res: Response, fallback: string): Promise<string> {
+  const data = await res.json().catch(() => null);
+  return data?.error || fallback;
 }
 
 export default function FileManager() {
@@ -83,39 +117,125 @@ export default function FileManager() {
   const [pathInput, setPathInput] = useState("/root/.openclaw");
   const [editingFile, setEditingFile] = useState<string | null>(null);
   const [fileContent, setFileContent] = useState("");
+  const [fileMtime, setFileMtime] = useState<number | null>(null);
   const [editedContent, setEditedContent] = useState("");
+  const [review, setReview] = useState<RemoteFile | null>(null);
+  const [pathAction, setPathAction] = useState<PathAction | null>(null);
+  const [actionValue, setActionValue] = useState("");
+  const [pendingDelete, setPendingDelete] = useState<FileEntry | null>(null);
+  const [dragging, setDragging] = useState(false);
+  const uploadInputRef = useRef<HTMLInputElement>(null);
 
+  const listKey = `/api/files/list?path=${encodeURIComponent(currentPath)}`;
   const dirQuery = useQuery<DirListing>({
-    queryKey: [`/api/files/list?path=${encodeURIComponent(currentPath)}`],
+    queryKey: [listKey],
   });
+  const refreshListing = () => queryClient.invalidateQueries({ queryKey: [listKey] });
 
   const readFileMutation = useMutation({
-    mutationFn: async (filePath: string) => {
-      const res = await apiRequest("GET", `/api/files/read?path=${encodeURIComponent(filePath)}`);
+    mutationFn: async (filePath: string): Promise<RemoteFile> => {
+      const res = await fetch(`/api/files/read?path=${encodeURIComponent(filePath)}`, { credentials: "include" });
+      if (!res.ok) throw new Error(await errorMessage(res, "Failed to read file"));
       return res.json();
     },
-    onSuccess: (data: { path: string; content: string }, filePath: string) => {
+    onSuccess: (data, filePath) => {
       setEditingFile(filePath);
       setFileContent(data.content);
+      setFileMtime(data.mtime);
       setEditedContent(data.content);
     },
+    onError: (err: Error) => {
+      toast({ title: "Cannot open file", description: err.message, variant: "destructive" });
+    },
+  });
+
+  const reviewMutation = useMutation({
+    mutationFn: async (filePath: string): Promise<RemoteFile> => {
+      const res = await fetch(`/api/files/read?path=${encodeURIComponent(filePath)}`, { credentials: "include" });
+      if (!res.ok) throw new Error(await errorMessage(res, "Failed to read the current version"));
+      return res.json();
+    },
+    onSuccess: (data) => setReview(data),
     onError: (err: Error) => {
       toast({ title: "Error", description: err.message, variant: "destructive" });
     },
   });
 
   const writeFileMutation = useMutation({
-    mutationFn: async ({ path, content }: { path: string; content: string }) => {
-      const res = await apiRequest("POST", "/api/files/write", { path, content });
-      if (!res.ok) {
-        const data = await res.json();
-        throw new Error(data.error || "Failed to write file");
+    mutationFn: async ({ path, content, expectedMtime }: { path: string; content: string; expectedMtime: number }) => {
+      const res = await fetch("/api/files/write", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ path, content, expectedMtime }),
+        credentials: "include",
+      });
+      if (res.status === 409) return { conflict: true as const };
+      if (!res.ok) throw new Error(await errorMessage(res, "Failed to write file"));
+      return { conflict: false as const, ...(await res.json()) as { mtime: number; backupPath: string | null } };
+    },
+    onSuccess: (result, { path, content }) => {
+      if (result.conflict) {
+        toast({ title: "File changed again", description: "Review the latest version before saving.", variant: "destructive" });
+        reviewMutation.mutate(path);
+        return;
       }
-      return res.json();
+      toast({ title: "Saved", description: result.backupPath ? `Previous version kept at ${result.backupPath}` : "File saved successfully." });
+      setFileContent(content);
+      setFileMtime(result.mtime);
+      setReview(null);
+      refreshListing();
+    },
+    onError: (err: Error) => {
+      toast({ title: "Error", description: err.message, variant: "destructive" });
+    },
+  });
+
+  const uploadMutation = useMutation({
+    mutationFn: async (files: File[]) => {
+      const form = new FormData();
+      files.forEach((file) => form.append("files", file));
+      const res = await fetch(`/api/files/upload?path=${encodeURIComponent(currentPath)}`, {
+        method: "POST",
+        body: form,
+        credentials: "include",
+      });
+      if (!res.ok) throw new Error(await errorMessage(res, "Upload failed"));
+      return res.json() as Promise<{ paths: string[] }>;
+    },
+    onSuccess: (data) => {
+      toast({ title: "Uploaded", description: `${data.paths.length} file(s) uploaded to ${currentPath}` });
+      refreshListing();
+    },
+    onError: (err: Error) => {
+      toast({ title: "Upload failed", description: err.message, variant: "destructive" });
+    },
+  });
+
+  const pathActionMutation = useMutation({
+    mutationFn: async ({ action, value }: { action: PathAction; value: string }) => {
+      if (action.kind === "mkdir") return apiRequest("POST", "/api/files/mkdir", { path: joinPath(currentPath, value) });
+      if (action.kind === "chmod") return apiRequest("POST", "/api/files/chmod", { path: action.path, mode: value });
+      const to = action.kind === "rename" ? joinPath(currentPath, value) : value;
+      return apiRequest("POST", "/api/files/move", { from: action.path, to });
     },
     onSuccess: () => {
-      toast({ title: "Saved", description: `File saved successfully.` });
-      setFileContent(editedContent);
+      setPathAction(null);
+      refreshListing();
+    },
+    onError: (err: Error) => {
+      toast({ title: "Error", description: err.message, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (entry: FileEntry) => {
+      const recursive = entry.type === "directory" ? "&recursive=true" : "";
+      return apiRequest("DELETE", `/api/files?path=${encodeURIComponent(joinPath(currentPath, entry.name))}${recursive}`);
+    },
+    onSuccess: (_data, entry) => {
+      toast({ title: "Deleted", description: entry.name });
+      if (editingFile === joinPath(currentPath, entry.name)) setEditingFile(null);
+      refreshListing();
     },
     onError: (err: Error) => {
       toast({ title: "Error", description: err.message, variant: "destructive" });
@@ -129,19 +249,29 @@ export default function FileManager() {
   };
 
   const handleEntryClick = (entry: FileEntry) => {
-    const fullPath = currentPath === "/" ? `/${entry.name}` : `${currentPath}/${entry.name}`;
+    const fullPath = joinPath(currentPath, entry.name);
     if (entry.type === "directory" || entry.type === "symlink") {
       navigateTo(fullPath);
-    } else if (isTextFile(entry.name)) {
-      readFileMutation.mutate(fullPath);
     } else {
-      toast({
-        title: "Binary file",
-        description: "This file type cannot be viewed in the editor.",
-      });
+      readFileMutation.mutate(fullPath);
     }
   };
 
+  const openPathAction = (action: PathAction) => {
+    setPathAction(action);
+    if (action.kind === "rename") setActionValue(action.entry.name);
+    else if (action.kind === "move") setActionValue(action.path);
+    else if (action.kind === "chmod") setActionValue(modeOf(action.entry.permissions));
+    else setActionValue("");
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setDragging(false);
+    const files = Array.from(e.dataTransfer.files);
+    if (files.length > 0) uploadMutation.mutate(files);
+  };
+
   const goUp = () => {
     if (currentPath === "/") return;
     const parts = currentPath.split("/");
@@ -176,7 +306,13 @@ export default function FileManager() {
         </div>
       </div>
 
-      <Card>
+      <Card
+        onDragOver={(e) => { e.preventDefault(); setDragging(true); }}
+        onDragLeave={(e) => { if (!e.currentTarget.contains(e.relatedTarget as Node)) setDragging(false); }}
+        onDrop={handleDrop}
+        className={dragging ? "ring-2 ring-primary" : undefined}
+        data-testid="card-file-listing"
+      >
         <CardHeader className="flex flex-row items-center justify-between gap-2 space-y-0 pb-2">
           <div className="flex items-center gap-1">
             <Button size="icon" variant="ghost" onClick={goUp} disabled={currentPath === "/"} data-testid="button-go-up">
@@ -185,12 +321,7 @@ export default function FileManager() {
             <Button size="icon" variant="ghost" onClick={() => navigateTo("/")} data-testid="button-go-home">
               <Home />
             </Button>
-            <Button
-              size="icon"
-              variant="ghost"
-              onClick={() => queryClient.invalidateQueries({ queryKey: ["/api/files/list", currentPath] })}
-              data-testid="button-refresh-dir"
-            >
+            <Button size="icon" variant="ghost" onClick={refreshListing} data-testid="button-refresh-dir">
               <RefreshCw />
             </Button>
           </div>
@@ -205,6 +336,48 @@ export default function FileManager() {
               Go
             </Button>
           </form>
+          <div className="flex items-center gap-1">
+            <input
+              ref={uploadInputRef}
+              type="file"
+              multiple
+              className="hidden"
+              onChange={(e) => {
+                const files = Array.from(e.target.files || []);
+                if (files.length > 0) uploadMutation.mutate(files);
+                e.target.value = "";
+              }}
+              data-testid="input-upload"
+            />
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => uploadInputRef.current?.click()}
+              disabled={uploadMutation.isPending}
+              data-testid="button-upload"
+            >
+              {uploadMutation.isPending ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Upload className="h-4 w-4 mr-1" />}
+              Upload
+            </Button>
+            <Button size="icon" variant="ghost" onClick={() => openPathAction({ kind: "mkdir" })} data-testid="button-new-folder">
+              <FolderPlus />
+            </Button>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button size="icon" variant="ghost" data-testid="button-download-dir">
+                  <Download />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuItem asChild>
+                  <a href={downloadUrl(currentPath, "tar")} download>Download folder as .tar.gz</a>
+                </DropdownMenuItem>
+                <DropdownMenuItem asChild>
+                  <a href={downloadUrl(currentPath, "zip")} download>Download folder as .zip</a>
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+          </div>
         </CardHeader>
 
         <div className="px-4 pb-2 flex items-center gap-1 text-sm text-muted-foreground flex-wrap">
@@ -226,6 +399,7 @@ export default function FileManager() {
               </span>
             );
           })}
+          <span className="ml-auto text-xs">Drop files here to upload</span>
         </div>
 
         <CardContent className="p-0">
@@ -239,12 +413,7 @@ export default function FileManager() {
             <div className="p-6 text-center text-muted-foreground flex flex-col items-center gap-2">
               <AlertCircle className="h-8 w-8" />
               <p data-testid="text-dir-error">Failed to list directory. Check VPS connection.</p>
-              <Button
-                variant="outline"
-                size="sm"
-                onClick={() => queryClient.invalidateQueries({ queryKey: ["/api/files/list", currentPath] })}
-                data-testid="button-retry"
-              >
+              <Button variant="outline" size="sm" onClick={refreshListing} data-testid="button-retry">
                 Retry
               </Button>
             </div>
@@ -255,31 +424,67 @@ export default function FileManager() {
                   Empty directory
                 </div>
               )}
-              {dirQuery.data?.entries.map((entry) => (
-                <button
-                  key={entry.name}
-                  onClick={() => handleEntryClick(entry)}
-                  className="w-full flex items-center gap-3 px-4 py-2 text-left hover-elevate text-sm"
-                  data-testid={`file-entry-${entry.name}`}
-                >
-                  {getFileIcon(entry)}
-                  <span className="flex-1 truncate font-mono">{entry.name}</span>
-                  <span className="text-xs text-muted-foreground hidden sm:block">{entry.permissions}</span>
-                  {entry.type === "file" && (
-                    <span className="text-xs text-muted-foreground w-20 text-right">{formatSize(entry.size)}</span>
-                  )}
-                  {entry.type === "directory" && (
-                    <Badge variant="secondary" className="text-xs">
-                      DIR
-                    </Badge>
-                  )}
-                  {entry.type === "symlink" && (
-                    <Badge variant="outline" className="text-xs">
-                      LINK
-                    </Badge>
-                  )}
-                </button>
-              ))}
+              {dirQuery.data?.entries.map((entry) => {
+                const fullPath = joinPath(currentPath, entry.name);
+                return (
+                  <div key={entry.name} className="flex items-center gap-1 pr-2 hover-elevate" data-testid={`file-entry-${entry.name}`}>
+                    <button
+                      onClick={() => handleEntryClick(entry)}
+                      className="flex-1 min-w-0 flex items-center gap-3 px-4 py-2 text-left text-sm"
+                      data-testid={`button-open-${entry.name}`}
+                    >
+                      {getFileIcon(entry)}
+                      <span className="flex-1 truncate font-mono">{entry.name}</span>
+                      <span className="text-xs text-muted-foreground hidden md:block">{entry.modified}</span>
+                      <span className="text-xs text-muted-foreground hidden sm:block font-mono">{entry.permissions}</span>
+                      {entry.type === "file" && (
+                        <span className="text-xs text-muted-foreground w-20 text-right">{formatSize(entry.size)}</span>
+                      )}
+                      {entry.type === "directory" && (
+                        <Badge variant="secondary" className="text-xs">
+                          DIR
+                        </Badge>
+                      )}
+                      {entry.type === "symlink" && (
+                        <Badge variant="outline" className="text-xs">
+                          LINK
+                        </Badge>
+                      )}
+                    </button>
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button size="icon" variant="ghost" data-testid={`button-actions-${entry.name}`}>
+                          <MoreVertical className="h-4 w-4" />
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end">
+                        {entry.type === "directory" ? (
+                          <>
+                            <DropdownMenuItem asChild>
+                              <a href={downloadUrl(fullPath, "tar")} download>Download as .tar.gz</a>
+                            </DropdownMenuItem>
+                            <DropdownMenuItem asChild>
+                              <a href={downloadUrl(fullPath, "zip")} download>Download as .zip</a>
+                            </DropdownMenuItem>
+                          </>
+                        ) : (
+                          <DropdownMenuItem asChild>
+                            <a href={downloadUrl(fullPath)} download data-testid={`link-download-${entry.name}`}>Download</a>
+                          </DropdownMenuItem>
+                        )}
+                        <DropdownMenuSeparator />
+                        <DropdownMenuItem onClick={() => openPathAction({ kind: "rename", entry, path: fullPath })}>Rename</DropdownMenuItem>
+                        <DropdownMenuItem onClick={() => openPathAction({ kind: "move", entry, path: fullPath })}>Move</DropdownMenuItem>
+                        <DropdownMenuItem onClick={() => openPathAction({ kind: "chmod", entry, path: fullPath })}>Permissions</DropdownMenuItem>
+                        <DropdownMenuSeparator />
+                        <DropdownMenuItem className="text-destructive" onClick={() => setPendingDelete(entry)}>
+                          Delete
+                        </DropdownMenuItem>
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                  </div>
+                );
+              })}
             </div>
           )}
         </CardContent>
@@ -292,14 +497,19 @@ export default function FileManager() {
               {editingFile}
             </CardTitle>
             <div className="flex items-center gap-1">
+              {editedContent !== fileContent && (
+                <Badge variant="secondary" className="text-xs" data-testid="badge-unsaved">
+                  Unsaved changes
+                </Badge>
+              )}
               <Button
                 size="sm"
-                onClick={() => writeFileMutation.mutate({ path: editingFile, content: editedContent })}
-                disabled={writeFileMutation.isPending || editedContent === fileContent}
+                onClick={() => reviewMutation.mutate(editingFile)}
+                disabled={reviewMutation.isPending || writeFileMutation.isPending || editedContent === fileContent}
                 data-testid="button-save-file"
               >
-                <Save className="h-4 w-4 mr-1" />
-                {writeFileMutation.isPending ? "Saving..." : "Save"}
+                {reviewMutation.isPending ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Save className="h-4 w-4 mr-1" />}
+                Review & Save
               </Button>
               <Button
                 size="icon"
@@ -312,23 +522,122 @@ export default function FileManager() {
             </div>
           </CardHeader>
           <CardContent>
-            {editedContent !== fileContent && (
-              <div className="mb-2">
-                <Badge variant="secondary" className="text-xs" data-testid="badge-unsaved">
-                  Unsaved changes
-                </Badge>
-              </div>
-            )}
-            <Textarea
-              value={editedContent}
-              onChange={(e) => setEditedContent(e.target.value)}
-              className="font-mono text-sm min-h-[400px] resize-y"
-              spellCheck={false}
-              data-testid="textarea-file-editor"
-            />
+            <div className="h-[500px] rounded-md overflow-hidden border" data-testid="editor-file">
+              <Editor
+                key={editingFile}
+                defaultValue={fileContent}
+                language={detectLanguage(editingFile.split("/").pop() || "")}
+                theme="vs-dark"
+                onChange={(value) => setEditedContent(value ?? "")}
+                options={{
+                  fontSize: 13,
+                  minimap: { enabled: false },
+                  scrollBeyondLastLine: false,
+                  automaticLayout: true,
+                }}
+              />
+            </div>
           </CardContent>
         </Card>
       )}
+
+      <Dialog open={!!review} onOpenChange={(open) => !open && setReview(null)}>
+        <DialogContent className="max-w-5xl">
+          <DialogHeader>
+            <DialogTitle>Review changes</DialogTitle>
+            <DialogDescription className="font-mono">{review?.path}</DialogDescription>
+          </DialogHeader>
+          {review && fileMtime !== null && review.mtime !== fileMtime && (
+            <div className="flex items-start gap-2 rounded-md border border-destructive/50 p-3 text-sm text-destructive" data-testid="text-save-conflict">
+              <AlertCircle className="h-4 w-4 mt-0.5 shrink-0" />
+              This file was changed on the server after you opened it. The left side shows the server's current version;
+              saving will replace it with yours.
+            </div>
+          )}
+          <div className="h-[55vh] rounded-md overflow-hidden border" data-testid="diff-file">
+            {review && editingFile && (
+              <DiffEditor
+                original={review.content}
+                modified={editedContent}
+                language={detectLanguage(editingFile.split("/").pop() || "")}
+                theme="vs-dark"
+                options={{ readOnly: true, renderSideBySide: true, minimap: { enabled: false }, automaticLayout: true }}
+              />
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setReview(null)} data-testid="button-cancel-save">
+              Cancel
+            </Button>
+            <Button
+              onClick={() => review && editingFile && writeFileMutation.mutate({ path: editingFile, content: editedContent, expectedMtime: review.mtime })}
+              disabled={writeFileMutation.isPending}
+              data-testid="button-confirm-save"
+            >
+              {writeFileMutation.isPending ? "Saving..." : "Save"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!pathAction} onOpenChange={(open) => !open && setPathAction(null)}>
+        <DialogContent>
+          {pathAction && (
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                if (actionValue.trim()) pathActionMutation.mutate({ action: pathAction, value: actionValue.trim() });
+              }}
+              className="space-y-4"
+            >
+              <DialogHeader>
+                <DialogTitle>{PATH_ACTION_LABELS[pathAction.kind].title}</DialogTitle>
+                <DialogDescription className="font-mono">
+                  {pathAction.kind === "mkdir" ? currentPath : pathAction.path}
+                </DialogDescription>
+              </DialogHeader>
+              <Input
+                value={actionValue}
+                onChange={(e) => setActionValue(e.target.value)}
+                placeholder={PATH_ACTION_LABELS[pathAction.kind].field}
+                className="font-mono"
+                autoFocus
+                data-testid="input-path-action"
+              />
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => setPathAction(null)}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={pathActionMutation.isPending} data-testid="button-submit-path-action">
+                  {PATH_ACTION_LABELS[pathAction.kind].submit}
+                </Button>
+              </DialogFooter>
+            </form>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!pendingDelete} onOpenChange={(open) => !open && setPendingDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {pendingDelete?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingDelete?.type === "directory"
+                ? "The folder and everything inside it will be permanently deleted from the server."
+                : "The file will be permanently deleted from the server."}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => pendingDelete && deleteMutation.mutate(pendingDelete)}
+              data-testid="button-confirm-delete"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 }
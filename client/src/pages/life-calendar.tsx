@@ -8,9 +8,10 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
 import { Checkbox } from "@/components/ui/checkbox";
-import { Loader2, CalendarDays, Plus, Trash2, Clock, ChevronLeft, ChevronRight, RefreshCw, Bell, MessageSquare, Mail, Send } from "lucide-react";
+import { Loader2, CalendarDays, Plus, Trash2, Clock, ChevronLeft, ChevronRight, RefreshCw, Bell, MessageSquare, Mail, Send, Users } from "lucide-react";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
 
 const EVENT_CATEGORIES = [
   { value: "work", label: "Work", color: "bg-blue-500" },
@@ -37,6 +38,7 @@ type GCalEvent = {
 
 export default function LifeCalendar() {
   const { toast } = useToast();
+  const { user } = useAuth();
   const [view, setView] = useState<"month" | "list" | "gcal">("month");
   const [currentDate, setCurrentDate] = useState(new Date());
   const [showForm, setShowForm] = useState(false);
@@ -44,7 +46,7 @@ export default function LifeCalendar() {
   const [reminderEvent, setReminderEvent] = useState<GCalEvent | null>(null);
   const [reminderMethods, setReminderMethods] = useState<string[]>(["whatsapp", "email", "whatsapp_self"]);
   const [wifePhone, setWifePhone] = useState(() => localStorage.getItem("wife-phone") || "");
-  const [form, setForm] = useState({ title: "", description: "", date: getToday(), endDate: "", category: "personal", color: "" });
+  const [form, setForm] = useState({ title: "", description: "", date: getToday(), endDate: "", category: "personal", color: "", shared: false });
 
   const { data: events = [], isLoading } = useQuery<any[]>({ queryKey: ["/api/life-events"] });
 
@@ -58,7 +60,7 @@ export default function LifeCalendar() {
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/life-events"] });
       setShowForm(false);
-      setForm({ title: "", description: "", date: getToday(), endDate: "", category: "personal", color: "" });
+      setForm({ title: "", description: "", date: getToday(), endDate: "", category: "personal", color: "", shared: false });
       toast({ title: "Event added" });
     },
   });
@@ -68,6 +70,11 @@ export default function LifeCalendar() {
     onSuccess: () => queryClient.invalidateQueries({ queryKey: ["/api/life-events"] }),
   });
 
+  const shareMutation = useMutation({
+    mutationFn: ({ id, shared }: { id: string; shared: boolean }) => apiRequest("PATCH", `/api/life-events/${id}`, { shared }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["/api/life-events"] }),
+  });
+
   const syncCalMutation = useMutation({
     mutationFn: async () => {
       const res = await apiRequest("POST", "/api/google-calendar/sync-to-life-events");
@@ -91,9 +98,13 @@ export default function LifeCalendar() {
       const results = data.results || [];
       const sent = results.filter((r: any) => r.status === "sent").length;
       const failed = results.filter((r: any) => r.status === "failed");
+      const notSent = results.filter((r: any) => r.status === "held" || r.status === "duplicate");
       if (sent > 0) {
         toast({ title: `Sent ${sent} reminder(s)` });
       }
+      if (notSent.length > 0) {
+        toast({ title: "Some reminders were not sent now", description: notSent.map((r: any) => `${r.method}: ${r.error}`).join(", ") });
+      }
       if (failed.length > 0) {
         toast({ title: "Some reminders failed", description: failed.map((f: any) => `${f.method}: ${f.error}`).join(", "), variant: "destructive" });
       }
@@ -255,6 +266,10 @@ export default function LifeCalendar() {
                 </Select>
               </div>
               <div className="col-span-2"><Label>Description</Label><Textarea value={form.description} onChange={e => setForm(f => ({ ...f, description: e.target.value }))} rows={2} data-testid="input-event-description" /></div>
+              <label className="col-span-2 flex items-center gap-2 text-sm">
+                <Checkbox checked={form.shared} onCheckedChange={v => setForm(f => ({ ...f, shared: v === true }))} data-testid="checkbox-event-shared" />
+                Share with everyone on this dashboard
+              </label>
             </div>
             <Button onClick={() => { if (form.title.trim() && form.date) addMutation.mutate(form); }} disabled={addMutation.isPending} data-testid="button-save-event">
               {addMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin mr-1" /> : <Plus className="h-4 w-4 mr-1" />} Save Event
@@ -309,8 +324,23 @@ export default function LifeCalendar() {
                       <p className="text-xs text-muted-foreground">{event.date}{event.endDate ? ` -- ${event.endDate}` : ""}</p>
                       {event.description && <p className="text-xs text-muted-foreground mt-1">{event.description}</p>}
                     </div>
+                    {event.shared && <Badge variant="secondary" className="text-xs shrink-0" data-testid={`badge-event-shared-${event.id}`}>Shared</Badge>}
                     <Badge variant="outline" className="text-xs shrink-0">{event.category}</Badge>
-                    <Button variant="ghost" size="icon" className="h-6 w-6 shrink-0" onClick={() => deleteMutation.mutate(event.id)} data-testid={`button-delete-event-${event.id}`}><Trash2 className="h-3 w-3" /></Button>
+                    {event.userId === user?.id && (
+                      <>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className={`h-6 w-6 shrink-0 ${event.shared ? "text-primary" : ""}`}
+                          onClick={() => shareMutation.mutate({ id: event.id, shared: !event.shared })}
+                          title={event.shared ? "Stop sharing" : "Share with everyone"}
+                          data-testid={`button-share-event-${event.id}`}
+                        >
+                          <Users className="h-3 w-3" />
+                        </Button>
+                        <Button variant="ghost" size="icon" className="h-6 w-6 shrink-0" onClick={() => deleteMutation.mutate(event.id)} data-testid={`button-delete-event-${event.id}`}><Trash2 className="h-3 w-3" /></Button>
+                      </>
+                    )}
                   </div>
                 ))}
               </div>
@@ -640,7 +640,7 @@ export default function Marketplace() {
             <CardHeader>
               <CardTitle className="text-base">Webhook Endpoint</CardTitle>
               <CardDescription>
-                Public endpoint for receiving triggers from Stream Deck, Companion, or any HTTP source
+                Endpoint for receiving triggers from Stream Deck, Companion, or any HTTP source
               </CardDescription>
             </CardHeader>
             <CardContent>
@@ -660,7 +660,7 @@ export default function Marketplace() {
 }`}
                 </pre>
                 <p className="text-xs text-muted-foreground">
-                  No authentication required. Set <code className="bg-muted/50 px-1 rounded">X-Trigger-Source</code> header or include <code className="bg-muted/50 px-1 rounded">source</code> in body.
+                  Send an API key with the <code className="bg-muted/50 px-1 rounded">skill-trigger</code> scope in the <code className="bg-muted/50 px-1 rounded">X-API-Key</code> header. Set <code className="bg-muted/50 px-1 rounded">X-Trigger-Source</code> header or include <code className="bg-muted/50 px-1 rounded">source</code> in body.
                 </p>
               </div>
             </CardContent>
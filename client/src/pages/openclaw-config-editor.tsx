@@ -0,0 +1,397 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import Editor, { DiffEditor } from "@monaco-editor/react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useInstance } from "@/hooks/use-instance";
+import { OPENCLAW_CONFIG_FILES, type OpenclawConfigFile, type OpenclawConfigVersion } from "@shared/schema";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent,
+  AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { AlertTriangle, CheckCircle2, GitCompare, History, Loader2, RefreshCw, RotateCcw, Upload, Wand2, XCircle } from "lucide-react";
+
+interface ConfigValidation {
+  valid: boolean;
+  errors: string[];
+}
+
+interface LiveConfig {
+  file: OpenclawConfigFile;
+  path: string;
+  exists: boolean;
+  content: string;
+  mtime: number | null;
+  lastDeployed: OpenclawConfigVersion | null;
+  validation: ConfigValidation;
+}
+
+type DeployResult =
+  | { conflict: true }
+  | { conflict: false; version: OpenclawConfigVersion; mtime: number; restart: { success: boolean; output: string } | null };
+
+type View = "edit" | "diff";
+
+const VALIDATE_DELAY_MS = 400;
+
+async function deployError(res: Response, fallback: string): Promise<string> {
+  const data = await res.json().catch(() => null);
+  if (Array.isArray(data?.errors) && data.errors.length) return `${data.error}: ${data.errors.join("; ")}`;
+  return data?.error || fallback;
+}
+
+export default function OpenclawConfigEditor() {
+  const { toast } = useToast();
+  const { selectedInstanceId } = useInstance();
+  const [file, setFile] = useState<OpenclawConfigFile>("openclaw.json");
+  const [view, setView] = useState<View>("edit");
+  const [draft, setDraft] = useState("");
+  const [validation, setValidation] = useState<ConfigValidation | null>(null);
+  const [compareTo, setCompareTo] = useState<OpenclawConfigVersion | null>(null);
+  const [note, setNote] = useState("");
+  const [restartGateway, setRestartGateway] = useState(true);
+  const [pendingRollback, setPendingRollback] = useState<OpenclawConfigVersion | null>(null);
+  const [restartOutput, setRestartOutput] = useState<{ success: boolean; output: string } | null>(null);
+
+  const instanceParam = `instanceId=${selectedInstanceId ?? ""}`;
+  const fileKey = `/api/openclaw/config/files/${file}?${instanceParam}`;
+  const versionsKey = `/api/openclaw/config/files/${file}/versions?${instanceParam}`;
+
+  const liveQuery = useQuery<LiveConfig>({ queryKey: [fileKey] });
+  const versionsQuery = useQuery<OpenclawConfigVersion[]>({ queryKey: [versionsKey], enabled: !!liveQuery.data });
+  const live = liveQuery.data;
+  const baseline = compareTo ?? live?.lastDeployed ?? null;
+
+  useEffect(() => {
+    if (!live) return;
+    setDraft(live.content);
+    setValidation(live.validation);
+    setCompareTo(null);
+  }, [live]);
+
+  useEffect(() => {
+    if (!live) return;
+    if (draft === live.content) {
+      setValidation(live.validation);
+      return;
+    }
+    const timer = setTimeout(async () => {
+      try {
+        const res = await apiRequest("POST", `/api/openclaw/config/files/${file}/validate`, { content: draft });
+        setValidation(await res.json());
+      } catch {}
+    }, VALIDATE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [draft, file, live]);
+
+  const reload = () => {
+    queryClient.invalidateQueries({ queryKey: [fileKey] });
+    queryClient.invalidateQueries({ queryKey: [versionsKey] });
+  };
+
+  const handleResult = (result: DeployResult, action: string) => {
+    if (result.conflict) {
+      toast({ title: "The file changed on the VPS", description: "Reload to see the current version before deploying.", variant: "destructive" });
+      return;
+    }
+    setRestartOutput(result.restart);
+    setNote("");
+    toast({
+      title: action,
+      description: result.restart
+        ? result.restart.success ? "The gateway restarted." : "The gateway restart failed; see the output below."
+        : "The gateway was not restarted.",
+      variant: result.restart && !result.restart.success ? "destructive" : undefined,
+    });
+    reload();
+  };
+
+  const deployMutation = useMutation({
+    mutationFn: async (): Promise<DeployResult> => {
+      const res = await fetch(`/api/openclaw/config/files/${file}?${instanceParam}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ content: draft, expectedMtime: live?.mtime ?? undefined, note, restart: restartGateway }),
+        credentials: "include",
+      });
+      if (res.status === 409) return { conflict: true };
+      if (!res.ok) throw new Error(await deployError(res, "Failed to deploy config"));
+      return res.json();
+    },
+    onSuccess: (result) => handleResult(result, `Deployed ${file}`),
+    onError: (err: Error) => {
+      toast({ title: "Deploy failed", description: err.message, variant: "destructive" });
+    },
+  });
+
+  const rollbackMutation = useMutation({
+    mutationFn: async (version: OpenclawConfigVersion): Promise<DeployResult> => {
+      const res = await fetch(`/api/openclaw/config/files/${file}/versions/${version.id}/rollback?${instanceParam}`, {
+        method: "POST",
+        credentials: "include",
+      });
+      if (!res.ok) throw new Error(await deployError(res, "Failed to roll back config"));
+      return res.json();
+    },
+    onSuccess: (result) => {
+      setPendingRollback(null);
+      handleResult(result, `Rolled back ${file}`);
+    },
+    onError: (err: Error) => {
+      setPendingRollback(null);
+      toast({ title: "Rollback failed", description: err.message, variant: "destructive" });
+    },
+  });
+
+  const formatDraft = () => {
+    try {
+      setDraft(`${JSON.stringify(JSON.parse(draft), null, 2)}\n`);
+    } catch (err: any) {
+      toast({ title: "Cannot format", description: err.message, variant: "destructive" });
+    }
+  };
+
+  const changed = !!live && draft !== live.content;
+  const driftedFromDeployed = !!live?.lastDeployed && live.exists && live.lastDeployed.content !== live.content;
+
+  return (
+    <div className="p-4 space-y-4 max-w-6xl mx-auto">
+      <div className="flex items-center justify-between gap-2 flex-wrap">
+        <div>
+          <h1 className="text-xl font-semibold" data-testid="text-config-editor-title">Config Editor</h1>
+          <p className="text-sm text-muted-foreground">Edit the OpenClaw config files on the VPS with validation, history and rollback.</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Tabs value={file} onValueChange={(value) => { setFile(value as OpenclawConfigFile); setRestartOutput(null); }}>
+            <TabsList>
+              {OPENCLAW_CONFIG_FILES.map((name) => (
+                <TabsTrigger key={name} value={name} data-testid={`tab-config-${name}`}>{name}</TabsTrigger>
+              ))}
+            </TabsList>
+          </Tabs>
+          <Button variant="outline" size="sm" onClick={reload} disabled={liveQuery.isFetching} data-testid="button-reload-config">
+            <RefreshCw className={`h-4 w-4 mr-1 ${liveQuery.isFetching ? "animate-spin" : ""}`} /> Reload
+          </Button>
+        </div>
+      </div>
+
+      {liveQuery.isLoading ? (
+        <Skeleton className="h-[60vh] w-full" />
+      ) : liveQuery.error ? (
+        <Card>
+          <CardContent className="py-6 text-sm text-destructive" data-testid="text-config-load-error">
+            {(liveQuery.error as Error).message}
+          </CardContent>
+        </Card>
+      ) : live && (
+        <>
+          {driftedFromDeployed && (
+            <div className="flex items-center gap-2 rounded-md border border-yellow-500/50 bg-yellow-500/10 p-3 text-sm" data-testid="banner-config-drift">
+              <AlertTriangle className="h-4 w-4 text-yellow-500 shrink-0" />
+              {live.path} was changed on the VPS since it was last deployed from here. Compare it against the last deployed version before deploying.
+            </div>
+          )}
+          {!live.exists && (
+            <div className="flex items-center gap-2 rounded-md border p-3 text-sm text-muted-foreground" data-testid="banner-config-missing">
+              <AlertTriangle className="h-4 w-4 shrink-0" />
+              {live.path} does not exist on the VPS yet. Deploying will create it.
+            </div>
+          )}
+
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between gap-2 space-y-0 pb-2">
+              <div className="flex items-center gap-2">
+                <CardTitle className="text-sm font-mono">{live.path}</CardTitle>
+                {changed && <Badge variant="secondary" data-testid="badge-config-modified">Modified</Badge>}
+              </div>
+              <div className="flex items-center gap-2">
+                <Tabs value={view} onValueChange={(value) => setView(value as View)}>
+                  <TabsList>
+                    <TabsTrigger value="edit" data-testid="tab-config-edit">Edit</TabsTrigger>
+                    <TabsTrigger value="diff" disabled={!baseline} data-testid="tab-config-diff">
+                      <GitCompare className="h-3 w-3 mr-1" /> Diff
+                    </TabsTrigger>
+                  </TabsList>
+                </Tabs>
+                <Button variant="outline" size="sm" onClick={formatDraft} data-testid="button-format-config">
+                  <Wand2 className="h-4 w-4 mr-1" /> Format
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {view === "diff" && baseline && (
+                <p className="text-xs text-muted-foreground" data-testid="text-diff-baseline">
+                  Left: {baseline.source} of {new Date(baseline.createdAt).toLocaleString()}. Right: your edit.
+                  {compareTo && (
+                    <button className="ml-2 underline" onClick={() => setCompareTo(null)} data-testid="button-compare-last-deployed">
+                      Compare with the last deployed version instead
+                    </button>
+                  )}
+                </p>
+              )}
+              <div className="h-[55vh] rounded-md overflow-hidden border" data-testid="editor-config">
+                {view === "diff" && baseline ? (
+                  <DiffEditor
+                    original={baseline.content}
+                    modified={draft}
+                    language="json"
+                    theme="vs-dark"
+                    onMount={(editor) => {
+                      const modified = editor.getModifiedEditor();
+                      modified.onDidChangeModelContent(() => setDraft(modified.getValue()));
+                    }}
+                    options={{ renderSideBySide: true, minimap: { enabled: false }, automaticLayout: true, originalEditable: false }}
+                  />
+                ) : (
+                  <Editor
+                    key={file}
+                    value={draft}
+                    language="json"
+                    theme="vs-dark"
+                    onChange={(value) => setDraft(value ?? "")}
+                    options={{ fontSize: 13, minimap: { enabled: false }, scrollBeyondLastLine: false, automaticLayout: true }}
+                  />
+                )}
+              </div>
+
+              {validation && (
+                validation.valid ? (
+                  <div className="flex items-center gap-2 text-sm text-green-600" data-testid="text-config-valid">
+                    <CheckCircle2 className="h-4 w-4" /> Valid
+                  </div>
+                ) : (
+                  <div className="space-y-1" data-testid="list-config-errors">
+                    {validation.errors.map((error) => (
+                      <div key={error} className="flex items-start gap-2 text-sm text-destructive">
+                        <XCircle className="h-4 w-4 mt-0.5 shrink-0" /> <span className="font-mono">{error}</span>
+                      </div>
+                    ))}
+                  </div>
+                )
+              )}
+
+              <div className="flex items-center gap-3 flex-wrap">
+                <Input
+                  value={note}
+                  onChange={(e) => setNote(e.target.value)}
+                  placeholder="What changed? (optional)"
+                  className="max-w-sm"
+                  data-testid="input-deploy-note"
+                />
+                <div className="flex items-center gap-2">
+                  <Switch id="restart-gateway" checked={restartGateway} onCheckedChange={setRestartGateway} data-testid="switch-restart-gateway" />
+                  <Label htmlFor="restart-gateway" className="text-sm">Restart gateway</Label>
+                </div>
+                <Button
+                  onClick={() => deployMutation.mutate()}
+                  disabled={!changed || !validation?.valid || deployMutation.isPending}
+                  data-testid="button-deploy-config"
+                >
+                  {deployMutation.isPending ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Upload className="h-4 w-4 mr-1" />}
+                  Deploy
+                </Button>
+                {changed && (
+                  <Button variant="ghost" onClick={() => setDraft(live.content)} data-testid="button-discard-config">
+                    Discard changes
+                  </Button>
+                )}
+              </div>
+
+              {restartOutput && (
+                <div className="space-y-1" data-testid="text-restart-output">
+                  <div className="flex items-center gap-2 text-sm">
+                    Gateway restart
+                    <Badge variant={restartOutput.success ? "default" : "destructive"}>{restartOutput.success ? "OK" : "Failed"}</Badge>
+                  </div>
+                  <pre className="text-xs bg-muted rounded-md p-2 max-h-40 overflow-auto whitespace-pre-wrap">{restartOutput.output || "(no output)"}</pre>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm flex items-center gap-2"><History className="h-4 w-4" /> History</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {versionsQuery.isLoading ? (
+                <Skeleton className="h-24 w-full" />
+              ) : !versionsQuery.data?.length ? (
+                <p className="text-sm text-muted-foreground">No versions recorded yet.</p>
+              ) : (
+                <div className="divide-y">
+                  {versionsQuery.data.map((version, index) => (
+                    <div key={version.id} className="flex items-center justify-between gap-2 py-2" data-testid={`row-config-version-${version.id}`}>
+                      <div className="min-w-0">
+                        <div className="flex items-center gap-2 text-sm">
+                          <Badge variant="outline">{version.source}</Badge>
+                          <span>{new Date(version.createdAt).toLocaleString()}</span>
+                          <span className="font-mono text-xs text-muted-foreground">{version.contentHash.slice(0, 8)}</span>
+                          {index === 0 && <Badge variant="secondary">Last deployed</Badge>}
+                        </div>
+                        {version.note && <p className="text-xs text-muted-foreground truncate">{version.note}</p>}
+                      </div>
+                      <div className="flex items-center gap-1 shrink-0">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => { setCompareTo(version); setView("diff"); }}
+                          data-testid={`button-compare-version-${version.id}`}
+                        >
+                          <GitCompare className="h-4 w-4 mr-1" /> Compare
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setPendingRollback(version)}
+                          disabled={index === 0 && !driftedFromDeployed}
+                          data-testid={`button-rollback-version-${version.id}`}
+                        >
+                          <RotateCcw className="h-4 w-4 mr-1" /> Roll back
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+
+      <AlertDialog open={!!pendingRollback} onOpenChange={(open) => !open && setPendingRollback(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Roll back {file}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The {pendingRollback?.source} of {pendingRollback ? new Date(pendingRollback.createdAt).toLocaleString() : ""} will
+              replace the file on the VPS, overwriting any changes made there, and the gateway will restart.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel data-testid="button-cancel-rollback">Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                if (pendingRollback) rollbackMutation.mutate(pendingRollback);
+              }}
+              disabled={rollbackMutation.isPending}
+              data-testid="button-confirm-rollback"
+            >
+              {rollbackMutation.isPending && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+              Roll back and restart
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -12,7 +12,7 @@ import {
 } from "lucide-react";
 import { useInstance } from "@/hooks/use-instance";
 import { Link } from "wouter";
-import type { Machine, Setting, ApiKey, VpsConnection, OpenclawConfig } from "@shared/schema";
+import type { Machine, Setting, ApiKey, VpsConnectionSummary, OpenclawConfig } from "@shared/schema";
 
 interface OnboardingData {
   id?: string;
@@ -203,7 +203,8 @@ export default function Overview() {
 
   const { data: machines, isLoading: machinesLoading } = useQuery<Machine[]>({
     queryKey: ["/api/machines"],
-    refetchInterval: 30000,
+    // Slow fallback; heartbeat staleness and recoveries arrive as live updates.
+    refetchInterval: 60000,
   });
 
   const { data: settings, isLoading: settingsLoading } = useQuery<Setting[]>({
@@ -214,7 +215,7 @@ export default function Overview() {
     queryKey: ["/api/api-keys"],
   });
 
-  const { data: vps } = useQuery<VpsConnection | null>({
+  const { data: vps } = useQuery<VpsConnectionSummary | null>({
     queryKey: ["/api/vps", selectedInstanceId],
     queryFn: async () => {
       const res = await fetch(`/api/vps?instanceId=${selectedInstanceId ?? ""}`, { credentials: "include" });
@@ -236,15 +237,6 @@ export default function Overview() {
 
   const { data: botStatus } = useQuery<{ state: string; phone: string | null }>({
     queryKey: ["/api/whatsapp/status"],
-    refetchInterval: (query) => {
-      const state = query.state.data?.state;
-      const failCount = query.state.fetchFailureCount;
-      const baseInterval = state === "connected" ? 15000 : 60000;
-      if (failCount >= 3) {
-        return Math.min(baseInterval * Math.pow(2, failCount - 2), 300000);
-      }
-      return baseInterval;
-    },
   });
 
   const isLoading = machinesLoading || settingsLoading || apiKeysLoading;
@@ -10,10 +10,17 @@ import {
   Shield, CheckCircle2, XCircle, AlertTriangle, KeyRound,
   Database, Bot, MessageSquare, Server, Cloud, Plug, Eye, EyeOff,
   Lock, Cpu, Sparkles, Mail, Loader2, Search, Copy, ExternalLink,
-  Code2,
+  Code2, RefreshCw, Clock, Settings2,
 } from "lucide-react";
 import { useState } from "react";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogDescription } from "@/components/ui/dialog";
+import {
+  AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent,
+  AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
 
 interface SecretItem {
   key: string;
@@ -23,6 +30,20 @@ interface SecretItem {
   required: boolean;
   isSet: boolean;
   maskedPreview: string | null;
+  rotatable: boolean;
+  owner: string | null;
+  rotationIntervalDays: number | null;
+  lastRotatedAt: string | null;
+  nextRotationAt: string | null;
+  rotationOverdue: boolean;
+}
+
+interface RotationResult {
+  secretKey: string;
+  rotatedAt: string;
+  newValue?: string;
+  gatewayPush: { success: boolean; error?: string } | null;
+  vpsPush: { success: boolean; set: string[]; error?: string } | null;
 }
 
 interface InventoryData {
@@ -35,6 +56,7 @@ interface InventoryData {
     requiredTotal: number;
     requiredConfigured: number;
     missingRequired: string[];
+    rotationOverdue: string[];
   };
 }
 
@@ -72,6 +94,7 @@ const CATEGORY_ICONS: Record<string, React.ElementType> = {
   replit: Cpu,
   integrations: Plug,
   cloud: Cloud,
+  dashboard: KeyRound,
 };
 
 const CATEGORY_COLORS: Record<string, string> = {
@@ -84,15 +107,174 @@ const CATEGORY_COLORS: Record<string, string> = {
   replit: "text-cyan-500",
   integrations: "text-indigo-500",
   cloud: "text-teal-500",
+  dashboard: "text-slate-500",
 };
 
+function daysUntil(date: string): number {
+  return Math.ceil((new Date(date).getTime() - Date.now()) / (24 * 60 * 60 * 1000));
+}
+
+function RotationPolicyDialog({ item, open, onOpenChange }: { item: SecretItem; open: boolean; onOpenChange: (open: boolean) => void }) {
+  const { toast } = useToast();
+  const [owner, setOwner] = useState(item.owner ?? "");
+  const [intervalText, setIntervalText] = useState(item.rotationIntervalDays?.toString() ?? "");
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: { owner?: string | null; rotationIntervalDays?: number | null; lastRotatedAt?: string }) => {
+      await apiRequest("PATCH", `/api/secrets/rotations/${encodeURIComponent(item.key)}`, data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/secrets/inventory"] });
+      onOpenChange(false);
+    },
+    onError: (err: Error) => {
+      toast({ title: "Failed to save rotation policy", description: err.message, variant: "destructive" });
+    },
+  });
+
+  const intervalDays = intervalText.trim() ? Number(intervalText) : null;
+  const intervalValid = intervalDays === null || (Number.isInteger(intervalDays) && intervalDays >= 1 && intervalDays <= 3650);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Rotation policy</DialogTitle>
+          <DialogDescription>
+            <code className="font-mono">{item.key}</code> — an overdue rotation raises a Guardian alert.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-3">
+          <div className="space-y-1.5">
+            <Label htmlFor="rotation-owner">Owner</Label>
+            <Input
+              id="rotation-owner"
+              value={owner}
+              onChange={(e) => setOwner(e.target.value)}
+              placeholder="Who rotates this secret"
+              data-testid="input-rotation-owner"
+            />
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="rotation-interval">Rotation interval (days)</Label>
+            <Input
+              id="rotation-interval"
+              type="number"
+              min={1}
+              value={intervalText}
+              onChange={(e) => setIntervalText(e.target.value)}
+              placeholder="No schedule"
+              data-testid="input-rotation-interval"
+            />
+          </div>
+          {!item.rotatable && (
+            <p className="text-xs text-muted-foreground">
+              This secret is issued by its provider. After replacing it there, mark it rotated to restart the schedule.
+            </p>
+          )}
+        </div>
+        <DialogFooter className="gap-2">
+          {!item.rotatable && (
+            <Button
+              variant="outline"
+              onClick={() => saveMutation.mutate({ lastRotatedAt: new Date().toISOString() })}
+              disabled={saveMutation.isPending}
+              data-testid="button-mark-rotated"
+            >
+              Mark rotated now
+            </Button>
+          )}
+          <Button
+            onClick={() => saveMutation.mutate({ owner: owner.trim() || null, rotationIntervalDays: intervalDays })}
+            disabled={saveMutation.isPending || !intervalValid}
+            data-testid="button-save-rotation-policy"
+          >
+            {saveMutation.isPending && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function SecretRotationControls({ item, onRotated }: { item: SecretItem; onRotated: (result: RotationResult) => void }) {
+  const { toast } = useToast();
+  const [policyOpen, setPolicyOpen] = useState(false);
+  const [confirmOpen, setConfirmOpen] = useState(false);
+
+  const rotateMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/secrets/rotations/${encodeURIComponent(item.key)}/rotate`);
+      return res.json() as Promise<RotationResult>;
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/secrets/inventory"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/api-keys"] });
+      onRotated(result);
+    },
+    onError: (err: Error) => {
+      toast({ title: "Rotation failed", description: err.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="shrink-0 flex items-center gap-1">
+      <Button
+        size="icon"
+        variant="ghost"
+        className="h-7 w-7"
+        onClick={() => setPolicyOpen(true)}
+        data-testid={`button-rotation-policy-${item.key}`}
+      >
+        <Settings2 className="h-3.5 w-3.5" />
+      </Button>
+      {item.rotatable && (
+        <Button
+          size="sm"
+          variant="outline"
+          className="h-7 text-xs"
+          onClick={() => setConfirmOpen(true)}
+          disabled={rotateMutation.isPending}
+          data-testid={`button-rotate-${item.key}`}
+        >
+          {rotateMutation.isPending ? <Loader2 className="h-3 w-3 animate-spin mr-1" /> : <RefreshCw className="h-3 w-3 mr-1" />}
+          Rotate
+        </Button>
+      )}
+
+      {policyOpen && <RotationPolicyDialog item={item} open={policyOpen} onOpenChange={setPolicyOpen} />}
+
+      <AlertDialog open={confirmOpen} onOpenChange={setConfirmOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Rotate {item.label}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              A new value is generated and the current one stops working immediately. Values used on the VPS are pushed
+              to /etc/openclaw-env and the gateway is restarted.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => rotateMutation.mutate()} data-testid="button-confirm-rotate">
+              Rotate
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
+
 function InventoryTab() {
   const { data, isLoading } = useQuery<InventoryData>({
     queryKey: ["/api/secrets/inventory"],
   });
 
+  const { toast } = useToast();
   const [showPreviews, setShowPreviews] = useState(false);
   const [expandedCategory, setExpandedCategory] = useState<string | null>(null);
+  const [rotationResult, setRotationResult] = useState<RotationResult | null>(null);
 
   if (isLoading) {
     return (
@@ -169,13 +351,13 @@ function InventoryTab() {
         <Card data-testid="card-missing-alerts">
           <CardContent className="pt-6">
             <div className="flex items-center gap-2 mb-2">
-              {summary.missingRequired.length > 0 ? (
+              {summary.missingRequired.length > 0 || summary.rotationOverdue.length > 0 ? (
                 <AlertTriangle className="h-4 w-4 text-destructive" />
               ) : (
                 <CheckCircle2 className="h-4 w-4 text-green-500" />
               )}
               <span className="text-sm font-medium">
-                {summary.missingRequired.length > 0 ? "Action Required" : "All Clear"}
+                {summary.missingRequired.length > 0 || summary.rotationOverdue.length > 0 ? "Action Required" : "All Clear"}
               </span>
             </div>
             {summary.missingRequired.length > 0 ? (
@@ -187,6 +369,15 @@ function InventoryTab() {
             ) : (
               <p className="text-xs text-muted-foreground">All required secrets are in place</p>
             )}
+            {summary.rotationOverdue.length > 0 && (
+              <div className="space-y-1 mt-2" data-testid="list-rotation-overdue">
+                {summary.rotationOverdue.map(key => (
+                  <p key={key} className="text-xs text-amber-600 font-mono flex items-center gap-1">
+                    <Clock className="h-3 w-3" /> {key} rotation overdue
+                  </p>
+                ))}
+              </div>
+            )}
           </CardContent>
         </Card>
       </div>
@@ -256,6 +447,18 @@ function InventoryTab() {
                               </span>
                             )}
                           </div>
+                          {(item.lastRotatedAt || item.rotationIntervalDays || item.owner) && (
+                            <div className="flex flex-wrap items-center gap-x-2 mt-0.5 text-[11px] text-muted-foreground" data-testid={`text-rotation-${item.key}`}>
+                              <span>Rotated {item.lastRotatedAt ? new Date(item.lastRotatedAt).toLocaleDateString() : "never"}</span>
+                              {item.rotationIntervalDays && <span>· every {item.rotationIntervalDays}d</span>}
+                              {item.owner && <span>· {item.owner}</span>}
+                              {item.rotationOverdue ? (
+                                <Badge variant="destructive" className="text-[10px] px-1 py-0 h-4">rotation overdue</Badge>
+                              ) : item.nextRotationAt && (
+                                <span>· due in {daysUntil(item.nextRotationAt)}d</span>
+                              )}
+                            </div>
+                          )}
                         </div>
 
                         <div className="shrink-0 text-right hidden sm:block">
@@ -272,6 +475,8 @@ function InventoryTab() {
                             )}
                           </div>
                         </div>
+
+                        <SecretRotationControls item={item} onRotated={setRotationResult} />
                       </div>
                     ))}
                   </div>
@@ -281,6 +486,54 @@ function InventoryTab() {
           );
         })}
       </div>
+
+      <Dialog open={!!rotationResult} onOpenChange={(open) => !open && setRotationResult(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Secret rotated</DialogTitle>
+            <DialogDescription>
+              <code className="font-mono">{rotationResult?.secretKey}</code> was rotated.
+              {rotationResult?.newValue && " Copy the new value now for any clients outside the VPS; it cannot be shown again."}
+            </DialogDescription>
+          </DialogHeader>
+          {rotationResult?.newValue && (
+            <div className="flex items-center gap-2">
+              <code className="flex-1 text-xs bg-muted px-2 py-2 rounded-md font-mono break-all" data-testid="text-rotated-value">
+                {rotationResult.newValue}
+              </code>
+              <Button
+                size="icon"
+                variant="ghost"
+                onClick={() => {
+                  navigator.clipboard.writeText(rotationResult.newValue!);
+                  toast({ title: "Copied", description: "New value copied to clipboard." });
+                }}
+                data-testid="button-copy-rotated-value"
+              >
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+          )}
+          <div className="space-y-1 text-xs">
+            {rotationResult?.gatewayPush && (
+              <p className={rotationResult.gatewayPush.success ? "text-green-600" : "text-destructive"}>
+                Gateway config: {rotationResult.gatewayPush.success ? "updated" : rotationResult.gatewayPush.error || "update failed"}
+              </p>
+            )}
+            {rotationResult?.vpsPush && (
+              <p className={rotationResult.vpsPush.success ? "text-green-600" : "text-destructive"} data-testid="text-rotation-vps-push">
+                VPS environment: {rotationResult.vpsPush.success ? `pushed ${rotationResult.vpsPush.set.length} key(s)` : rotationResult.vpsPush.error || "push failed"}
+              </p>
+            )}
+            {rotationResult && !rotationResult.vpsPush && (
+              <p className="text-muted-foreground">Not used on the VPS; nothing was pushed.</p>
+            )}
+          </div>
+          <DialogFooter>
+            <Button onClick={() => setRotationResult(null)} data-testid="button-close-rotation-result">Done</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
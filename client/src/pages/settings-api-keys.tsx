@@ -2,7 +2,8 @@ import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/com
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Textarea } from "@/components/ui/textarea";
 import { Switch } from "@/components/ui/switch";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger, DialogFooter, DialogDescription } from "@/components/ui/dialog";
@@ -10,28 +11,51 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import { Plus, Copy, Trash2, KeyRound, Eye, EyeOff } from "lucide-react";
+import { Plus, Copy, Trash2, KeyRound, AlertTriangle } from "lucide-react";
 import { useState } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
-import { insertApiKeySchema } from "@shared/schema";
-import type { ApiKey, InsertApiKey } from "@shared/schema";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { z } from "zod";
+import { insertApiKeySchema, API_KEY_SCOPES } from "@shared/schema";
+import type { ApiKeySummary, ApiKeyScope, InsertApiKey } from "@shared/schema";
+
+const SCOPE_DESCRIPTIONS: Record<ApiKeyScope, string> = {
+  heartbeat: "Node agents reporting to /api/node/heartbeat",
+  "home-bot": "The home WhatsApp bot reporting status and relaying messages",
+  "skill-trigger": "Stream Deck, Companion and other callers of /api/webhooks/skill-trigger",
+};
+
+const apiKeyFormSchema = insertApiKeySchema.extend({
+  allowedIps: z.string().optional(),
+  expiresAt: z.string().optional(),
+});
+type ApiKeyForm = z.infer<typeof apiKeyFormSchema>;
+
+function toInsertApiKey(values: ApiKeyForm): InsertApiKey {
+  return {
+    ...values,
+    allowedIps: (values.allowedIps || "").split(/[\s,]+/).filter(Boolean),
+    expiresAt: values.expiresAt ? new Date(`${values.expiresAt}T23:59:59`) : null,
+  };
+}
 
 export default function SettingsApiKeys() {
   const { toast } = useToast();
   const [dialogOpen, setDialogOpen] = useState(false);
-  const [visibleKeys, setVisibleKeys] = useState<Set<string>>(new Set());
+  const [createdKey, setCreatedKey] = useState<string | null>(null);
 
-  const { data: apiKeys, isLoading } = useQuery<ApiKey[]>({
+  const { data: apiKeys, isLoading } = useQuery<ApiKeySummary[]>({
     queryKey: ["/api/api-keys"],
   });
 
-  const form = useForm<InsertApiKey>({
-    resolver: zodResolver(insertApiKeySchema),
+  const form = useForm<ApiKeyForm>({
+    resolver: zodResolver(apiKeyFormSchema),
     defaultValues: {
       name: "",
-      permissions: "read",
+      scopes: [],
+      allowedIps: "",
+      expiresAt: "",
       active: true,
     },
   });
@@ -39,16 +63,16 @@ export default function SettingsApiKeys() {
   const createMutation = useMutation({
     mutationFn: async (data: InsertApiKey) => {
       const res = await apiRequest("POST", "/api/api-keys", data);
-      return res.json();
+      return res.json() as Promise<ApiKeySummary & { key: string }>;
     },
     onSuccess: (data) => {
       queryClient.invalidateQueries({ queryKey: ["/api/api-keys"] });
-      toast({ title: "API Key created", description: "New API key has been generated." });
       setDialogOpen(false);
+      setCreatedKey(data.key);
       form.reset();
     },
-    onError: () => {
-      toast({ title: "Error", description: "Failed to create API key.", variant: "destructive" });
+    onError: (err: Error) => {
+      toast({ title: "Error", description: err.message || "Failed to create API key.", variant: "destructive" });
     },
   });
 
@@ -76,18 +100,8 @@ export default function SettingsApiKeys() {
     toast({ title: "Copied", description: "API key copied to clipboard." });
   };
 
-  const toggleKeyVisibility = (id: string) => {
-    setVisibleKeys((prev) => {
-      const next = new Set(prev);
-      if (next.has(id)) next.delete(id);
-      else next.add(id);
-      return next;
-    });
-  };
-
-  const maskKey = (key: string) => {
-    return key.slice(0, 8) + "..." + key.slice(-4);
-  };
+  const isExpired = (apiKey: ApiKeySummary) =>
+    !!apiKey.expiresAt && new Date(apiKey.expiresAt).getTime() <= Date.now();
 
   if (isLoading) {
     return (
@@ -113,7 +127,7 @@ export default function SettingsApiKeys() {
             API Keys
           </h1>
           <p className="text-muted-foreground text-sm mt-1">
-            Manage API keys for programmatic access to your platform.
+            Scoped keys for node agents, the home bot and webhook callers. Keys are stored hashed and shown only once.
           </p>
         </div>
         <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
@@ -126,10 +140,10 @@ export default function SettingsApiKeys() {
           <DialogContent>
             <DialogHeader>
               <DialogTitle>Generate API Key</DialogTitle>
-              <DialogDescription>Create a new API key for external integrations.</DialogDescription>
+              <DialogDescription>Grant only the scopes the caller needs.</DialogDescription>
             </DialogHeader>
             <Form {...form}>
-              <form onSubmit={form.handleSubmit((d) => createMutation.mutate(d))} className="space-y-4">
+              <form onSubmit={form.handleSubmit((d) => createMutation.mutate(toInsertApiKey(d)))} className="space-y-4">
                 <FormField
                   control={form.control}
                   name="name"
@@ -145,22 +159,61 @@ export default function SettingsApiKeys() {
                 />
                 <FormField
                   control={form.control}
-                  name="permissions"
+                  name="scopes"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Scopes</FormLabel>
+                      <div className="space-y-2">
+                        {API_KEY_SCOPES.map((scope) => (
+                          <label key={scope} className="flex items-start gap-2 text-sm cursor-pointer">
+                            <Checkbox
+                              checked={field.value.includes(scope)}
+                              onCheckedChange={(checked) =>
+                                field.onChange(checked ? [...field.value, scope] : field.value.filter((s) => s !== scope))
+                              }
+                              data-testid={`checkbox-scope-${scope}`}
+                            />
+                            <span>
+                              <span className="font-mono">{scope}</span>
+                              <span className="block text-xs text-muted-foreground">{SCOPE_DESCRIPTIONS[scope]}</span>
+                            </span>
+                          </label>
+                        ))}
+                      </div>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="expiresAt"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Expires</FormLabel>
+                      <FormControl>
+                        <Input type="date" {...field} data-testid="input-api-key-expires" />
+                      </FormControl>
+                      <FormDescription>Leave empty for a key that does not expire.</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="allowedIps"
                   render={({ field }) => (
                     <FormItem>
-                      <FormLabel>Permissions</FormLabel>
-                      <Select value={field.value} onValueChange={field.onChange}>
-                        <FormControl>
-                          <SelectTrigger data-testid="select-permissions">
-                            <SelectValue />
-                          </SelectTrigger>
-                        </FormControl>
-                        <SelectContent>
-                          <SelectItem value="read">Read Only</SelectItem>
-                          <SelectItem value="write">Read & Write</SelectItem>
-                          <SelectItem value="admin">Full Access</SelectItem>
-                        </SelectContent>
-                      </Select>
+                      <FormLabel>IP Allowlist</FormLabel>
+                      <FormControl>
+                        <Textarea
+                          placeholder={"203.0.113.7\n192.168.0.0/24"}
+                          className="font-mono text-xs"
+                          rows={3}
+                          {...field}
+                          data-testid="input-api-key-allowed-ips"
+                        />
+                      </FormControl>
+                      <FormDescription>IP addresses or CIDR ranges, one per line. Leave empty to allow any address.</FormDescription>
                       <FormMessage />
                     </FormItem>
                   )}
@@ -176,6 +229,26 @@ export default function SettingsApiKeys() {
         </Dialog>
       </div>
 
+      <Dialog open={!!createdKey} onOpenChange={(open) => !open && setCreatedKey(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>API Key Created</DialogTitle>
+            <DialogDescription>Copy the key now. Only its prefix is stored in readable form, so it cannot be shown again.</DialogDescription>
+          </DialogHeader>
+          <div className="flex items-center gap-2">
+            <code className="flex-1 text-xs bg-muted px-2 py-2 rounded-md font-mono break-all" data-testid="text-created-api-key">
+              {createdKey}
+            </code>
+            <Button size="icon" variant="ghost" onClick={() => createdKey && copyKey(createdKey)} data-testid="button-copy-created-key">
+              <Copy className="h-4 w-4" />
+            </Button>
+          </div>
+          <DialogFooter>
+            <Button onClick={() => setCreatedKey(null)} data-testid="button-close-created-key">Done</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {apiKeys && apiKeys.length > 0 ? (
         <Card>
           <CardContent className="p-0">
@@ -185,7 +258,9 @@ export default function SettingsApiKeys() {
                   <TableRow>
                     <TableHead>Name</TableHead>
                     <TableHead>Key</TableHead>
-                    <TableHead>Permissions</TableHead>
+                    <TableHead>Scopes</TableHead>
+                    <TableHead>Restrictions</TableHead>
+                    <TableHead>Last Used</TableHead>
                     <TableHead>Status</TableHead>
                     <TableHead>Created</TableHead>
                     <TableHead className="text-right">Actions</TableHead>
@@ -198,36 +273,43 @@ export default function SettingsApiKeys() {
                         {apiKey.name}
                       </TableCell>
                       <TableCell>
-                        <div className="flex items-center gap-2">
-                          <code className="text-xs bg-muted px-2 py-1 rounded-md font-mono">
-                            {visibleKeys.has(apiKey.id) ? apiKey.key : maskKey(apiKey.key)}
-                          </code>
-                          <Button
-                            size="icon"
-                            variant="ghost"
-                            onClick={() => toggleKeyVisibility(apiKey.id)}
-                            data-testid={`button-toggle-key-${apiKey.id}`}
-                          >
-                            {visibleKeys.has(apiKey.id) ? (
-                              <EyeOff className="h-3 w-3" />
-                            ) : (
-                              <Eye className="h-3 w-3" />
-                            )}
-                          </Button>
-                          <Button
-                            size="icon"
-                            variant="ghost"
-                            onClick={() => copyKey(apiKey.key)}
-                            data-testid={`button-copy-key-${apiKey.id}`}
-                          >
-                            <Copy className="h-3 w-3" />
-                          </Button>
-                        </div>
+                        <code className="text-xs bg-muted px-2 py-1 rounded-md font-mono" data-testid={`text-api-key-prefix-${apiKey.id}`}>
+                          {apiKey.keyPrefix}...
+                        </code>
                       </TableCell>
                       <TableCell>
-                        <Badge variant="secondary" className="text-xs">
-                          {apiKey.permissions}
-                        </Badge>
+                        <div className="flex flex-wrap gap-1">
+                          {apiKey.scopes.map((scope) => (
+                            <Badge key={scope} variant="secondary" className="text-xs">
+                              {scope}
+                            </Badge>
+                          ))}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-xs text-muted-foreground">
+                        <div className="space-y-0.5">
+                          {apiKey.expiresAt ? (
+                            <div className={isExpired(apiKey) ? "text-destructive flex items-center gap-1" : ""}>
+                              {isExpired(apiKey) && <AlertTriangle className="h-3 w-3" />}
+                              {isExpired(apiKey) ? "Expired" : "Expires"} {new Date(apiKey.expiresAt).toLocaleDateString()}
+                            </div>
+                          ) : (
+                            <div>No expiry</div>
+                          )}
+                          <div className="font-mono">
+                            {apiKey.allowedIps.length > 0 ? apiKey.allowedIps.join(", ") : "Any IP"}
+                          </div>
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-xs text-muted-foreground" data-testid={`text-api-key-last-used-${apiKey.id}`}>
+                        {apiKey.lastUsed ? (
+                          <div>
+                            {new Date(apiKey.lastUsed).toLocaleString()}
+                            {apiKey.lastUsedIp && <div className="font-mono">{apiKey.lastUsedIp}</div>}
+                          </div>
+                        ) : (
+                          "Never"
+                        )}
                       </TableCell>
                       <TableCell>
                         <Switch
@@ -83,13 +83,12 @@ export default function SettingsDashboard() {
   const probeGatewayQuery = useQuery<{ reachable: boolean }>({
     queryKey: ["/api/gateway/probe", instanceId],
     enabled: !!instanceId && !!selectedInstance?.serverUrl,
-    refetchInterval: 30000,
+    refetchInterval: 60000,
   });
 
   const healthQuery = useQuery<GatewayHealth>({
     queryKey: ["/api/gateway/health", instanceId],
     enabled: !!instanceId,
-    refetchInterval: 30000,
   });
 
   const liveStatusQuery = useQuery<{
@@ -99,6 +98,7 @@ export default function SettingsDashboard() {
   }>({
     queryKey: ["/api/nodes/live-status", instanceId],
     enabled: !!instanceId,
+    // Live updates cover heartbeats and gateway reachability, but not nodes pairing or changing on the gateway.
     refetchInterval: 60000,
   });
 
@@ -136,7 +136,6 @@ export default function SettingsDashboard() {
     enabled?: boolean;
   }>({
     queryKey: ["/api/whatsapp/status"],
-    refetchInterval: 15000,
   });
 
   const health = healthQuery.data;
@@ -4,13 +4,26 @@ import { Label } from "@/components/ui/label";
 import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
 import { Skeleton } from "@/components/ui/skeleton";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { Save } from "lucide-react";
 import { useState, useEffect } from "react";
-import type { Setting } from "@shared/schema";
+import { DEFAULT_MAINTENANCE_MESSAGE, type Setting } from "@shared/schema";
+
+// The window is stored as ISO timestamps; datetime-local inputs work in the browser's time zone.
+function toLocalInput(iso: string | undefined): string {
+  if (!iso) return "";
+  const date = new Date(iso);
+  if (isNaN(date.getTime())) return "";
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+}
+
+function fromLocalInput(value: string): string {
+  return value ? new Date(value).toISOString() : "";
+}
 
 export default function SettingsGeneral() {
   const { toast } = useToast();
@@ -38,6 +51,7 @@ export default function SettingsGeneral() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/settings"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/maintenance"] });
       toast({ title: "Settings saved", description: "General settings have been updated." });
     },
     onError: () => {
@@ -46,6 +60,12 @@ export default function SettingsGeneral() {
   });
 
   const handleSave = () => {
+    const start = formValues["general.maintenance_start"];
+    const end = formValues["general.maintenance_end"];
+    if (start && end && new Date(end) <= new Date(start)) {
+      toast({ title: "Invalid maintenance window", description: "The end must be after the start.", variant: "destructive" });
+      return;
+    }
     const updates = Object.entries(formValues).map(([key, value]) => ({ key, value }));
     mutation.mutate(updates);
   };
@@ -283,20 +303,58 @@ export default function SettingsGeneral() {
             />
           </div>
 
-          <div className="flex items-center justify-between p-3 rounded-md bg-muted/50">
-            <div>
-              <Label data-testid="label-maintenance-mode">Maintenance Mode</Label>
-              <p className="text-xs text-muted-foreground mt-0.5">
-                When enabled, all machines will be paused
-              </p>
+          <div className="p-3 rounded-md bg-muted/50 space-y-4">
+            <div className="flex items-center justify-between">
+              <div>
+                <Label data-testid="label-maintenance-mode">Maintenance Mode</Label>
+                <p className="text-xs text-muted-foreground mt-0.5">
+                  Only owners can make changes, the bots reply with the message below, and automation and Guardian scans pause
+                </p>
+              </div>
+              <Switch
+                checked={formValues["general.maintenance_mode"] === "true"}
+                onCheckedChange={(checked) =>
+                  updateValue("general.maintenance_mode", String(checked))
+                }
+                data-testid="switch-maintenance-mode"
+              />
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="maintenance_start">Starts</Label>
+                <Input
+                  id="maintenance_start"
+                  type="datetime-local"
+                  value={toLocalInput(formValues["general.maintenance_start"])}
+                  onChange={(e) => updateValue("general.maintenance_start", fromLocalInput(e.target.value))}
+                  data-testid="input-maintenance-start"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="maintenance_end">Ends</Label>
+                <Input
+                  id="maintenance_end"
+                  type="datetime-local"
+                  value={toLocalInput(formValues["general.maintenance_end"])}
+                  onChange={(e) => updateValue("general.maintenance_end", fromLocalInput(e.target.value))}
+                  data-testid="input-maintenance-end"
+                />
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Leave both empty to apply as soon as the toggle is saved. With a window, maintenance runs only between these times while the toggle is on.
+            </p>
+            <div className="space-y-2">
+              <Label htmlFor="maintenance_message">Maintenance Message</Label>
+              <Textarea
+                id="maintenance_message"
+                value={formValues["general.maintenance_message"] ?? ""}
+                onChange={(e) => updateValue("general.maintenance_message", e.target.value)}
+                placeholder={DEFAULT_MAINTENANCE_MESSAGE}
+                rows={2}
+                data-testid="input-maintenance-message"
+              />
             </div>
-            <Switch
-              checked={formValues["general.maintenance_mode"] === "true"}
-              onCheckedChange={(checked) =>
-                updateValue("general.maintenance_mode", String(checked))
-              }
-              data-testid="switch-maintenance-mode"
-            />
           </div>
         </CardContent>
       </Card>
@@ -38,6 +38,8 @@ import {
   Trash2,
   ExternalLink,
   Search,
+  PlugZap,
+  Loader2,
   GitBranch,
   BookOpen,
   ClipboardList,
@@ -65,7 +67,7 @@ import {
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import type { Integration } from "@shared/schema";
+import { INTEGRATION_ADAPTER_TYPES, type Integration } from "@shared/schema";
 
 const iconMap: Record<string, LucideIcon> = {
   MessageCircle,
@@ -152,6 +154,7 @@ function getConfigFields(type: string): { key: string; label: string; sensitive?
       ];
     case "slack":
       return [
+        { key: "webhookUrl", label: "Incoming Webhook URL" },
         { key: "botToken", label: "Bot Token", sensitive: true },
         { key: "signingSecret", label: "Signing Secret", sensitive: true },
         { key: "channelId", label: "Channel ID" },
@@ -169,10 +172,10 @@ function getConfigFields(type: string): { key: string; label: string; sensitive?
       ];
     case "mqtt":
       return [
-        { key: "brokerUrl", label: "Broker URL" },
+        { key: "brokerUrl", label: "Broker URL (mqtt://, mqtts:// or wss://)" },
         { key: "username", label: "Username" },
         { key: "password", label: "Password", sensitive: true },
-        { key: "topic", label: "Topic" },
+        { key: "topic", label: "Topics (comma-separated, wildcards subscribe only)" },
       ];
     case "email":
       return [
@@ -192,7 +195,7 @@ function getConfigFields(type: string): { key: string; label: string; sensitive?
       return [
         { key: "instanceUrl", label: "Instance URL" },
         { key: "apiKey", label: "API Key", sensitive: true },
-        { key: "webhookPath", label: "Webhook Path" },
+        { key: "webhookPath", label: "Webhook Path (e.g. webhook/openclaw)" },
       ];
     case "github":
       return [
@@ -429,11 +432,15 @@ function IntegrationCard({
   onConfigure,
   onToggle,
   onDelete,
+  onTest,
+  isTesting,
 }: {
   integration: Integration;
   onConfigure: () => void;
   onToggle: (enabled: boolean) => void;
   onDelete: () => void;
+  onTest?: () => void;
+  isTesting?: boolean;
 }) {
   const Icon = iconMap[integration.icon || ""] || Settings;
 
@@ -486,6 +493,18 @@ function IntegrationCard({
             <Settings className="h-3.5 w-3.5 mr-1" />
             Configure
           </Button>
+          {onTest && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={onTest}
+              disabled={isTesting}
+              data-testid={`button-test-integration-${integration.id}`}
+            >
+              {isTesting ? <Loader2 className="h-3.5 w-3.5 mr-1 animate-spin" /> : <PlugZap className="h-3.5 w-3.5 mr-1" />}
+              Test connection
+            </Button>
+          )}
           <Button
             variant="ghost"
             size="sm"
@@ -625,6 +644,24 @@ export default function SettingsIntegrations() {
     },
   });
 
+  const testMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest("POST", `/api/integrations/${id}/test`);
+      return res.json() as Promise<{ ok: boolean; message: string; integration: Integration }>;
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/integrations"] });
+      toast({
+        title: result.ok ? `${result.integration.name} is connected` : `${result.integration.name} test failed`,
+        description: result.message,
+        variant: result.ok ? "default" : "destructive",
+      });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Failed to test integration", description: err.message, variant: "destructive" });
+    },
+  });
+
   const deleteMutation = useMutation({
     mutationFn: async (id: string) => {
       await apiRequest("DELETE", `/api/integrations/${id}`);
@@ -763,6 +800,12 @@ export default function SettingsIntegrations() {
                   onConfigure={() => openConfigDialog(integration)}
                   onToggle={(enabled) => toggleMutation.mutate({ id: integration.id, enabled })}
                   onDelete={() => deleteMutation.mutate(integration.id)}
+                  onTest={
+                    (INTEGRATION_ADAPTER_TYPES as readonly string[]).includes(integration.type)
+                      ? () => testMutation.mutate(integration.id)
+                      : undefined
+                  }
+                  isTesting={testMutation.isPending && testMutation.variables === integration.id}
                 />
               ))}
             </div>
@@ -12,8 +12,8 @@ import { Plus, Monitor, Trash2, Wifi, WifiOff, Copy, Info, ExternalLink, Termina
 import { Checkbox } from "@/components/ui/checkbox";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
 import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
-import { useState } from "react";
-import { Link } from "wouter";
+import { useEffect, useState } from "react";
+import { Link, useSearch } from "wouter";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
@@ -249,6 +249,7 @@ function NodeCard({
   vpsIp,
   isSelected,
   onToggleSelect,
+  isHighlighted,
 }: {
   machine: Machine;
   onDelete: (id: string) => void;
@@ -263,10 +264,11 @@ function NodeCard({
   vpsIp?: string;
   isSelected?: boolean;
   onToggleSelect?: (id: string) => void;
+  isHighlighted?: boolean;
 }) {
   const effectiveStatus = healthResult?.status || machine.status;
   return (
-    <Card data-testid={`card-node-${machine.id}`}>
+    <Card id={`node-${machine.id}`} className={isHighlighted ? "ring-2 ring-primary" : undefined} data-testid={`card-node-${machine.id}`}>
       <CardContent className="pt-6">
         <div className="flex items-start justify-between gap-3">
           {onToggleSelect && (
@@ -451,13 +453,26 @@ function AgentInstallDialog() {
   const [open, setOpen] = useState(false);
   const [tab, setTab] = useState<"windows" | "linux" | "mac">("windows");
 
-  const { data: apiKeys } = useQuery<Array<{ key: string; permissions: string; active: boolean }>>({
-    queryKey: ["/api/api-keys"],
-    enabled: open,
+  const [agentKey, setAgentKey] = useState<string | null>(null);
+
+  const generateKeyMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/api-keys", {
+        name: `Node agent (${new Date().toLocaleDateString()})`,
+        scopes: ["heartbeat"],
+      });
+      return res.json() as Promise<{ key: string }>;
+    },
+    onSuccess: (data) => {
+      setAgentKey(data.key);
+      queryClient.invalidateQueries({ queryKey: ["/api/api-keys"] });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Could not generate key", description: err.message, variant: "destructive" });
+    },
   });
 
-  const adminKey = apiKeys?.find(k => k.permissions === "admin" && k.active)?.key;
-  const keyPlaceholder = adminKey || "YOUR_API_KEY";
+  const keyPlaceholder = agentKey || "YOUR_API_KEY";
   const baseUrl = window.location.origin;
 
   const copyText = (text: string) => {
@@ -508,6 +523,26 @@ function AgentInstallDialog() {
             ))}
           </div>
 
+          <div className="rounded-md border p-3 flex items-center justify-between gap-3">
+            <p className="text-xs text-muted-foreground">
+              {agentKey
+                ? "A heartbeat-only key was generated and filled in below. It will not be shown again."
+                : "Agents need an API key with the heartbeat scope. Generate one here or use an existing key."}
+            </p>
+            {!agentKey && (
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => generateKeyMutation.mutate()}
+                disabled={generateKeyMutation.isPending}
+                data-testid="button-generate-agent-key"
+              >
+                {generateKeyMutation.isPending ? <Loader2 className="h-3 w-3 mr-1 animate-spin" /> : null}
+                Generate Key
+              </Button>
+            )}
+          </div>
+
           <div className="space-y-4">
             <div className="space-y-2">
               <p className="text-sm font-medium">Option 1: One-liner (just paste and run)</p>
@@ -1020,11 +1055,18 @@ export default function SettingsMachines() {
   const [sshNodeRunning, setSSHNodeRunning] = useState(false);
   const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
   const { selectedInstanceId } = useInstance();
+  const linkedMachineId = new URLSearchParams(useSearch()).get("machine");
 
   const { data: machines, isLoading } = useQuery<Machine[]>({
     queryKey: ["/api/machines"],
   });
 
+  useEffect(() => {
+    if (linkedMachineId && machines) {
+      document.getElementById(`node-${linkedMachineId}`)?.scrollIntoView({ behavior: "smooth", block: "center" });
+    }
+  }, [linkedMachineId, machines]);
+
   const { data: liveStatusData } = useQuery<any>({
     queryKey: ["/api/nodes/live-status-machines", selectedInstanceId],
     queryFn: async () => {
@@ -1930,6 +1972,7 @@ export default function SettingsMachines() {
                 onRemotePcSave={(id, alias) => remotePcMutation.mutate({ id, remotePcAlias: alias })}
                 isCheckingHealth={checkingHealthIds.has(machine.id)}
                 healthResult={healthResults[machine.id] || null}
+                isHighlighted={machine.id === linkedMachineId}
                 gatewayHost={gatewayHost}
                 gatewayPort={gatewayPort}
                 gatewayToken={gatewayToken}
@@ -7,9 +7,10 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import { Save, Mail, Smartphone, Monitor } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Save, Mail, Smartphone, Monitor, MessageCircle, Send, Webhook, BellRing } from "lucide-react";
 import { useState, useEffect } from "react";
-import type { Setting } from "@shared/schema";
+import { NOTIFICATION_SETTING_DEFAULTS, type Notification, type Setting } from "@shared/schema";
 
 function NotificationRow({
   icon: Icon,
@@ -48,6 +49,31 @@ function NotificationRow({
   );
 }
 
+function TargetInput({
+  show,
+  value,
+  onChange,
+  placeholder,
+  testId,
+}: {
+  show: boolean;
+  value: string;
+  onChange: (value: string) => void;
+  placeholder: string;
+  testId: string;
+}) {
+  if (!show) return null;
+  return (
+    <Input
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      placeholder={placeholder}
+      className="ml-11 max-w-md"
+      data-testid={testId}
+    />
+  );
+}
+
 export default function SettingsNotifications() {
   const { toast } = useToast();
   const { data: settings, isLoading } = useQuery<Setting[]>({
@@ -59,8 +85,8 @@ export default function SettingsNotifications() {
   const [formValues, setFormValues] = useState<Record<string, string>>({});
 
   useEffect(() => {
-    if (notifSettings.length > 0) {
-      const values: Record<string, string> = {};
+    if (settings) {
+      const values: Record<string, string> = { ...NOTIFICATION_SETTING_DEFAULTS };
       notifSettings.forEach((s) => {
         values[s.key] = s.value;
       });
@@ -81,6 +107,30 @@ export default function SettingsNotifications() {
     },
   });
 
+  const testMutation = useMutation({
+    mutationFn: async (): Promise<Notification> => {
+      const res = await apiRequest("POST", "/api/notifications/test");
+      return res.json();
+    },
+    onSuccess: (notification) => {
+      const sent = notification.deliveries.filter((d) => d.status === "sent").map((d) => d.channel);
+      const failed = notification.deliveries.filter((d) => d.status === "failed");
+      toast({
+        title: notification.held ? "Held for quiet hours" : "Test notification sent",
+        description: notification.held
+          ? "It will be delivered when quiet hours end."
+          : [
+              sent.length ? `Delivered to ${sent.join(", ")}.` : "No external channel is enabled with a recipient.",
+              ...failed.map((d) => `${d.channel} failed: ${d.error}`),
+            ].join(" "),
+        variant: failed.length ? "destructive" : undefined,
+      });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Error", description: err.message, variant: "destructive" });
+    },
+  });
+
   const handleSave = () => {
     const updates = Object.entries(formValues).map(([key, value]) => ({ key, value }));
     mutation.mutate(updates);
@@ -132,21 +182,64 @@ export default function SettingsNotifications() {
           <NotificationRow
             icon={Mail}
             label="Email Notifications"
-            description="Receive alerts via email"
+            description="Sent through SendGrid, the Email / SMTP integration or Gmail"
             switchKey="notifications.email_enabled"
             checked={formValues["notifications.email_enabled"] === "true"}
             onToggle={toggleValue}
             testIdPrefix="email-notifications"
           />
+          <TargetInput
+            show={formValues["notifications.email_enabled"] === "true"}
+            value={formValues["notifications.email_to"] ?? ""}
+            onChange={(val) => updateValue("notifications.email_to", val)}
+            placeholder="Recipient (defaults to the support email)"
+            testId="input-notification-email-to"
+          />
           <NotificationRow
             icon={Smartphone}
             label="Push Notifications"
-            description="Receive mobile push alerts"
+            description="Receive mobile alerts over WhatsApp and Telegram"
             switchKey="notifications.push_enabled"
             checked={formValues["notifications.push_enabled"] === "true"}
             onToggle={toggleValue}
             testIdPrefix="push-notifications"
           />
+          {formValues["notifications.push_enabled"] === "true" && (
+            <div className="space-y-3 pl-6">
+              <NotificationRow
+                icon={MessageCircle}
+                label="WhatsApp"
+                description="Sent by the WhatsApp bot"
+                switchKey="notifications.whatsapp_enabled"
+                checked={formValues["notifications.whatsapp_enabled"] === "true"}
+                onToggle={toggleValue}
+                testIdPrefix="whatsapp-notifications"
+              />
+              <TargetInput
+                show={formValues["notifications.whatsapp_enabled"] === "true"}
+                value={formValues["notifications.whatsapp_to"] ?? ""}
+                onChange={(val) => updateValue("notifications.whatsapp_to", val)}
+                placeholder="Phone number (defaults to the bot's own number)"
+                testId="input-notification-whatsapp-to"
+              />
+              <NotificationRow
+                icon={Send}
+                label="Telegram"
+                description="Sent by the Telegram bot"
+                switchKey="notifications.telegram_enabled"
+                checked={formValues["notifications.telegram_enabled"] === "true"}
+                onToggle={toggleValue}
+                testIdPrefix="telegram-notifications"
+              />
+              <TargetInput
+                show={formValues["notifications.telegram_enabled"] === "true"}
+                value={formValues["notifications.telegram_chat_id"] ?? ""}
+                onChange={(val) => updateValue("notifications.telegram_chat_id", val)}
+                placeholder="Chat ID (defaults to the Telegram integration chat)"
+                testId="input-notification-telegram-chat"
+              />
+            </div>
+          )}
           <NotificationRow
             icon={Monitor}
             label="In-App Notifications"
@@ -156,6 +249,22 @@ export default function SettingsNotifications() {
             onToggle={toggleValue}
             testIdPrefix="inapp-notifications"
           />
+          <NotificationRow
+            icon={Webhook}
+            label="Webhook"
+            description="POST each alert as JSON to a URL"
+            switchKey="notifications.webhook_enabled"
+            checked={formValues["notifications.webhook_enabled"] === "true"}
+            onToggle={toggleValue}
+            testIdPrefix="webhook-notifications"
+          />
+          <TargetInput
+            show={formValues["notifications.webhook_enabled"] === "true"}
+            value={formValues["notifications.webhook_url"] ?? ""}
+            onChange={(val) => updateValue("notifications.webhook_url", val)}
+            placeholder="https://example.com/hooks/openclaw"
+            testId="input-notification-webhook-url"
+          />
         </CardContent>
       </Card>
 
@@ -167,9 +276,13 @@ export default function SettingsNotifications() {
         <CardContent className="space-y-3">
           {[
             { key: "notifications.machine_offline", label: "Machine Goes Offline", desc: "Alert when a machine stops responding" },
+            { key: "notifications.guardian", label: "Guardian Findings", desc: "Warnings and critical findings from Guardian scans" },
+            { key: "notifications.security", label: "Security Events", desc: "High and critical security events" },
+            { key: "notifications.automation", label: "Automation Jobs", desc: "Job failures and recoveries" },
+            { key: "notifications.calendar", label: "Calendar", desc: "Meeting reminders" },
             { key: "notifications.low_stock", label: "Low Prize Stock", desc: "Alert when prizes are running low" },
             { key: "notifications.revenue_milestone", label: "Revenue Milestones", desc: "Celebrate revenue achievements" },
-            { key: "notifications.maintenance_due", label: "Maintenance Due", desc: "Reminder for scheduled maintenance" },
+            { key: "notifications.maintenance_due", label: "Maintenance Due", desc: "Secret rotations and other scheduled maintenance" },
           ].map((item) => (
             <div
               key={item.key}
@@ -192,7 +305,10 @@ export default function SettingsNotifications() {
       <Card>
         <CardHeader>
           <CardTitle className="text-base">Digest Frequency</CardTitle>
-          <CardDescription>How often to receive summary notifications.</CardDescription>
+          <CardDescription>
+            How often to receive summary notifications. Outside real-time, only critical alerts and reminders are sent
+            as they happen; everything else waits for the digest (08:00 daily, or Mondays for weekly).
+          </CardDescription>
         </CardHeader>
         <CardContent>
           <div className="max-w-xs">
@@ -214,7 +330,45 @@ export default function SettingsNotifications() {
         </CardContent>
       </Card>
 
-      <div className="flex justify-end">
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Quiet Hours</CardTitle>
+          <CardDescription>
+            Hold non-critical alerts during these hours, in the general timezone, and send them together afterwards.
+            Leave empty to turn off.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="flex items-center gap-3">
+            <Input
+              type="time"
+              value={formValues["notifications.quiet_hours_start"] ?? ""}
+              onChange={(e) => updateValue("notifications.quiet_hours_start", e.target.value)}
+              className="w-32"
+              data-testid="input-quiet-hours-start"
+            />
+            <span className="text-sm text-muted-foreground">to</span>
+            <Input
+              type="time"
+              value={formValues["notifications.quiet_hours_end"] ?? ""}
+              onChange={(e) => updateValue("notifications.quiet_hours_end", e.target.value)}
+              className="w-32"
+              data-testid="input-quiet-hours-end"
+            />
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="flex justify-end gap-2">
+        <Button
+          variant="outline"
+          onClick={() => testMutation.mutate()}
+          disabled={testMutation.isPending}
+          data-testid="button-test-notification"
+        >
+          <BellRing className="h-4 w-4 mr-2" />
+          {testMutation.isPending ? "Sending..." : "Send Test"}
+        </Button>
         <Button
           onClick={handleSave}
           disabled={mutation.isPending}
@@ -7,10 +7,10 @@ import { Switch } from "@/components/ui/switch";
 import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Skeleton } from "@/components/ui/skeleton";
 import { useQuery, useMutation } from "@tanstack/react-query";
-import { queryClient, apiRequest } from "@/lib/queryClient";
+import { queryClient, apiRequest, streamRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { Save, Cog, Network, MessageSquare, Globe, CheckCircle, XCircle, Shield, Key, Plus, Trash2, Eye, EyeOff, Play, Square, RotateCw, Phone, UserCheck, Clock, ExternalLink, Copy, Smartphone, Terminal, ChevronDown, ChevronRight, Wrench, Sparkles, Loader2, AlertTriangle, RefreshCw, Download, Monitor, Send } from "lucide-react";
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { useInstance } from "@/hooks/use-instance";
 import type { OpenclawConfig, DockerService, LlmApiKey, WhatsappSession, OpenclawInstance } from "@shared/schema";
 
@@ -611,10 +611,27 @@ function UpdateCheckerCard() {
     refetchInterval: 300000,
   });
 
+  const [updateLog, setUpdateLog] = useState("");
+  const [updatePhase, setUpdatePhase] = useState<string | null>(null);
+  const updateLogRef = useRef<HTMLPreElement>(null);
+
+  useEffect(() => {
+    updateLogRef.current?.scrollTo({ top: updateLogRef.current.scrollHeight });
+  }, [updateLog]);
+
   const updateMutation = useMutation({
     mutationFn: async () => {
-      const res = await apiRequest("POST", "/api/openclaw/update");
-      return res.json();
+      setUpdateLog("");
+      setUpdatePhase(null);
+      let result: any = null;
+      await streamRequest("/api/openclaw/update/stream", undefined, ({ event, data }) => {
+        if (event === "phase") setUpdatePhase(data.message);
+        else if (event === "stdout" || event === "stderr") setUpdateLog((prev) => (prev + data.chunk).slice(-200000));
+        else if (event === "done") result = data;
+        else if (event === "error") throw new Error(data.error);
+      });
+      if (!result) throw new Error("Connection closed before the update finished");
+      return result;
     },
     onSuccess: (data: any) => {
       if (data.alreadyLatest) {
@@ -636,9 +653,11 @@ function UpdateCheckerCard() {
           variant: "destructive",
         });
       }
+      setUpdatePhase(null);
       queryClient.invalidateQueries({ queryKey: ["/api/openclaw/version-check"] });
     },
     onError: (err: any) => {
+      setUpdatePhase(null);
       toast({ title: "Update Failed", description: err.message, variant: "destructive" });
     },
   });
@@ -722,6 +741,23 @@ function UpdateCheckerCard() {
                 </Button>
               ) : null}
             </div>
+            {(updateMutation.isPending || updateLog) && (
+              <div className="space-y-1" data-testid="update-progress">
+                {updatePhase && (
+                  <p className="text-xs text-muted-foreground flex items-center gap-1" data-testid="text-update-phase">
+                    <Loader2 className="h-3 w-3 animate-spin" />
+                    {updatePhase}
+                  </p>
+                )}
+                <pre
+                  ref={updateLogRef}
+                  className="bg-muted p-2 rounded text-xs font-mono whitespace-pre-wrap break-all max-h-64 overflow-y-auto"
+                  data-testid="code-update-log"
+                >
+                  {updateLog || "Waiting for output..."}
+                </pre>
+              </div>
+            )}
           </>
         )}
       </CardContent>
@@ -1123,14 +1159,21 @@ export default function SettingsOpenclaw() {
     }
   };
 
-  const [sshResult, setSSHResult] = useState<{ success?: boolean; output?: string; error?: string; action?: string } | null>(null);
+  const [sshResult, setSSHResult] = useState<{ success?: boolean; output?: string; error?: string; action?: string; running?: boolean } | null>(null);
   const [sshRunning, setSSHRunning] = useState<string | null>(null);
 
   const sshMutation = useMutation({
     mutationFn: async (action: string) => {
       setSSHRunning(action);
-      const resp = await apiRequest("POST", `/api/ssh/gateway/${action}`, { instanceId: selectedInstanceId });
-      return resp.json();
+      setSSHResult({ action, output: "", running: true });
+      let result: any = null;
+      await streamRequest(`/api/ssh/gateway/${action}/stream`, { instanceId: selectedInstanceId }, ({ event, data }) => {
+        if (event === "stdout") setSSHResult((prev) => prev && { ...prev, output: (prev.output || "") + data.chunk });
+        else if (event === "stderr") setSSHResult((prev) => prev && { ...prev, error: (prev.error || "") + data.chunk });
+        else if (event === "done") result = data;
+      });
+      if (!result) throw new Error("Connection closed before the command finished");
+      return result;
     },
     onSuccess: (data: any, action: string) => {
       setSSHResult({ ...data, action });
@@ -1744,15 +1787,17 @@ export default function SettingsOpenclaw() {
             </div>
 
             {sshResult && (
-              <div className={`rounded-md border p-3 ${sshResult.success ? "bg-green-500/10 border-green-500/20" : "bg-red-500/10 border-red-500/20"}`} data-testid="text-ssh-result">
+              <div className={`rounded-md border p-3 ${sshResult.running ? "bg-muted/50" : sshResult.success ? "bg-green-500/10 border-green-500/20" : "bg-red-500/10 border-red-500/20"}`} data-testid="text-ssh-result">
                 <div className="flex items-center gap-2 mb-2">
-                  {sshResult.success ? (
+                  {sshResult.running ? (
+                    <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+                  ) : sshResult.success ? (
                     <CheckCircle className="h-4 w-4 text-green-500" />
                   ) : (
                     <XCircle className="h-4 w-4 text-red-500" />
                   )}
                   <span className="text-sm font-medium">
-                    {sshResult.action} — {sshResult.success ? "Success" : "Failed"}
+                    {sshResult.action} — {sshResult.running ? "Running..." : sshResult.success ? "Success" : "Failed"}
                   </span>
                 </div>
                 {sshResult.output && (
@@ -0,0 +1,148 @@
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { UserCog } from "lucide-react";
+import { USER_ROLES, ROLE_PERMISSIONS } from "@shared/schema";
+import type { User, UserRole } from "@shared/schema";
+
+const ROLE_DESCRIPTIONS: Record<UserRole, string> = {
+  owner: "Full access, including secrets, shell access on hosts and role assignment.",
+  operator: "Can run day-to-day actions and change infrastructure settings, but cannot see secrets or run commands on hosts.",
+  viewer: "Read-only visibility across the dashboard.",
+};
+
+export default function SettingsUsers() {
+  const { toast } = useToast();
+  const { user: currentUser } = useAuth();
+
+  const { data: users, isLoading } = useQuery<User[]>({
+    queryKey: ["/api/users"],
+  });
+
+  const roleMutation = useMutation({
+    mutationFn: async ({ id, role }: { id: string; role: UserRole }) => {
+      const res = await apiRequest("PATCH", `/api/users/${id}/role`, { role });
+      return res.json();
+    },
+    onSuccess: (_data, { id }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      if (id === currentUser?.id) queryClient.invalidateQueries({ queryKey: ["/api/auth/me"] });
+      toast({ title: "Role updated" });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Error", description: err.message, variant: "destructive" });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="p-6 space-y-6">
+        <div>
+          <Skeleton className="h-8 w-48 mb-2" />
+          <Skeleton className="h-4 w-72" />
+        </div>
+        <Card>
+          <CardContent className="pt-6">
+            <Skeleton className="h-64 w-full" />
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold tracking-tight" data-testid="text-page-title">
+          Users & Roles
+        </h1>
+        <p className="text-muted-foreground text-sm mt-1">
+          Control what each teammate can see and do. New sign-ins start as viewers.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {USER_ROLES.map(role => (
+          <Card key={role}>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm capitalize">{role}</CardTitle>
+              <CardDescription className="text-xs">{ROLE_DESCRIPTIONS[role]}</CardDescription>
+            </CardHeader>
+            <CardContent className="flex flex-wrap gap-1">
+              {ROLE_PERMISSIONS[role].map(permission => (
+                <Badge key={permission} variant="secondary" className="text-xs">{permission}</Badge>
+              ))}
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      {users && users.length > 0 ? (
+        <Card>
+          <CardContent className="p-0">
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>User</TableHead>
+                    <TableHead>Email</TableHead>
+                    <TableHead>Joined</TableHead>
+                    <TableHead className="w-40">Role</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {users.map(u => (
+                    <TableRow key={u.id} data-testid={`row-user-${u.id}`}>
+                      <TableCell>
+                        <div className="flex flex-col">
+                          <span className="font-medium" data-testid={`text-user-name-${u.id}`}>
+                            {u.displayName || u.username}
+                            {u.id === currentUser?.id && <span className="text-muted-foreground font-normal"> (you)</span>}
+                          </span>
+                          <span className="text-xs text-muted-foreground">@{u.username}</span>
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground">{u.email || "—"}</TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {new Date(u.createdAt).toLocaleDateString()}
+                      </TableCell>
+                      <TableCell>
+                        <Select
+                          value={u.role}
+                          onValueChange={role => roleMutation.mutate({ id: u.id, role: role as UserRole })}
+                          disabled={roleMutation.isPending}
+                        >
+                          <SelectTrigger className="capitalize" data-testid={`select-user-role-${u.id}`}>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {USER_ROLES.map(role => (
+                              <SelectItem key={role} value={role} className="capitalize">{role}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <CardContent className="flex flex-col items-center justify-center py-12">
+            <UserCog className="h-12 w-12 text-muted-foreground mb-3" />
+            <h3 className="text-sm font-semibold mb-1">No users yet</h3>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,555 @@
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogDescription } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useSearch } from "wouter";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Plus, Copy, Trash2, Pencil, RefreshCw, Send, Webhook, RotateCcw, Loader2 } from "lucide-react";
+import { useEffect, useState } from "react";
+import { WEBHOOK_EVENT_TYPES, WEBHOOK_DELIVERY_STATUSES } from "@shared/schema";
+import type { WebhookSubscriptionSummary, WebhookDelivery, WebhookEventType, WebhookDeliveryStatus } from "@shared/schema";
+
+const EVENT_DESCRIPTIONS: Record<WebhookEventType, string> = {
+  node_approved: "A pending node was approved",
+  node_rejected: "A pending node was rejected",
+  machine_change: "A node was created, edited or deleted",
+  gateway_down: "An instance's gateway stopped answering health checks",
+  gateway_up: "An instance's gateway is answering again",
+  job_failed: "An automation job failed",
+  job_recovered: "A failed automation job succeeded again",
+  whatsapp_session_approved: "A WhatsApp session was approved",
+  skill_installed: "Skills were installed",
+  plugin_installed: "A marketplace plugin was installed",
+  instance_change: "An instance was created, edited or deleted",
+  settings_update: "Dashboard settings were saved",
+  config_change: "OpenClaw config or integrations changed",
+  security_change: "SSH, IP blocking or security policies changed",
+  role_change: "A user's role changed",
+  api_key_change: "An API key was created, edited or deleted",
+  file_change: "Files were changed through the file manager",
+};
+
+const STATUS_VARIANTS: Record<WebhookDeliveryStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  pending: "outline",
+  retrying: "secondary",
+  delivered: "default",
+  dead: "destructive",
+};
+
+interface SubscriptionForm {
+  name: string;
+  url: string;
+  events: WebhookEventType[];
+}
+
+const EMPTY_FORM: SubscriptionForm = { name: "", url: "", events: [] };
+
+function formatBody(body: string | null): string {
+  if (!body) return "";
+  try {
+    return JSON.stringify(JSON.parse(body), null, 2);
+  } catch {
+    return body;
+  }
+}
+
+export default function SettingsWebhooks() {
+  const { toast } = useToast();
+  const search = useSearch();
+  const [formOpen, setFormOpen] = useState(false);
+  const [editing, setEditing] = useState<WebhookSubscriptionSummary | null>(null);
+  const [form, setForm] = useState<SubscriptionForm>(EMPTY_FORM);
+  const [revealedSecret, setRevealedSecret] = useState<string | null>(null);
+  const [subscriptionFilter, setSubscriptionFilter] = useState("all");
+  const [statusFilter, setStatusFilter] = useState("all");
+  const [selectedDelivery, setSelectedDelivery] = useState<WebhookDelivery | null>(null);
+
+  useEffect(() => {
+    const subscription = new URLSearchParams(search).get("subscription");
+    if (subscription) setSubscriptionFilter(subscription);
+  }, [search]);
+
+  const { data: subscriptions, isLoading } = useQuery<WebhookSubscriptionSummary[]>({
+    queryKey: ["/api/outbound-webhooks"],
+  });
+
+  const { data: deliveries, isLoading: deliveriesLoading } = useQuery<WebhookDelivery[]>({
+    queryKey: ["/api/outbound-webhooks/deliveries", subscriptionFilter, statusFilter],
+    queryFn: async () => {
+      const params = new URLSearchParams({ limit: "100" });
+      if (subscriptionFilter !== "all") params.set("subscriptionId", subscriptionFilter);
+      if (statusFilter !== "all") params.set("status", statusFilter);
+      const res = await apiRequest("GET", `/api/outbound-webhooks/deliveries?${params}`);
+      return res.json();
+    },
+  });
+
+  const subscriptionNames = new Map((subscriptions ?? []).map(s => [s.id, s.name]));
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/outbound-webhooks"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/outbound-webhooks/deliveries"] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: SubscriptionForm) => {
+      const res = editing
+        ? await apiRequest("PATCH", `/api/outbound-webhooks/${editing.id}`, data)
+        : await apiRequest("POST", "/api/outbound-webhooks", data);
+      return res.json() as Promise<WebhookSubscriptionSummary & { secret?: string }>;
+    },
+    onSuccess: (data) => {
+      invalidate();
+      setFormOpen(false);
+      if (data.secret) setRevealedSecret(data.secret);
+      else toast({ title: "Webhook updated" });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Failed to save webhook", description: err.message, variant: "destructive" });
+    },
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: async ({ id, enabled }: { id: string; enabled: boolean }) => {
+      await apiRequest("PATCH", `/api/outbound-webhooks/${id}`, { enabled });
+    },
+    onSuccess: invalidate,
+    onError: (err: Error) => {
+      toast({ title: "Failed to update webhook", description: err.message, variant: "destructive" });
+    },
+  });
+
+  const rotateMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest("POST", `/api/outbound-webhooks/${id}/rotate-secret`);
+      return res.json() as Promise<WebhookSubscriptionSummary & { secret: string }>;
+    },
+    onSuccess: (data) => {
+      invalidate();
+      setRevealedSecret(data.secret);
+    },
+    onError: (err: Error) => {
+      toast({ title: "Failed to rotate secret", description: err.message, variant: "destructive" });
+    },
+  });
+
+  const pingMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest("POST", `/api/outbound-webhooks/${id}/ping`);
+      return res.json() as Promise<WebhookDelivery>;
+    },
+    onSuccess: (delivery) => {
+      invalidate();
+      toast({
+        title: delivery.status === "delivered" ? "Ping delivered" : "Ping failed",
+        description: delivery.error || `Endpoint answered ${delivery.responseStatus}`,
+        variant: delivery.status === "delivered" ? "default" : "destructive",
+      });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Failed to send ping", description: err.message, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/outbound-webhooks/${id}`);
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Webhook deleted" });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Failed to delete webhook", description: err.message, variant: "destructive" });
+    },
+  });
+
+  const redeliverMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest("POST", `/api/outbound-webhooks/deliveries/${id}/redeliver`);
+      return res.json() as Promise<WebhookDelivery>;
+    },
+    onSuccess: (delivery) => {
+      invalidate();
+      setSelectedDelivery(delivery);
+      toast({
+        title: delivery.status === "delivered" ? "Redelivered" : "Redelivery failed",
+        description: delivery.status === "delivered" ? undefined : delivery.error || undefined,
+        variant: delivery.status === "delivered" ? "default" : "destructive",
+      });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Failed to redeliver", description: err.message, variant: "destructive" });
+    },
+  });
+
+  const openForm = (subscription: WebhookSubscriptionSummary | null) => {
+    setEditing(subscription);
+    setForm(subscription ? { name: subscription.name, url: subscription.url, events: subscription.events } : EMPTY_FORM);
+    setFormOpen(true);
+  };
+
+  const toggleEvent = (event: WebhookEventType, checked: boolean) => {
+    setForm(f => ({ ...f, events: checked ? [...f.events, event] : f.events.filter(e => e !== event) }));
+  };
+
+  const copySecret = (secret: string) => {
+    navigator.clipboard.writeText(secret);
+    toast({ title: "Copied", description: "Signing secret copied to clipboard." });
+  };
+
+  if (isLoading) {
+    return (
+      <div className="p-6 space-y-6">
+        <div>
+          <Skeleton className="h-8 w-48 mb-2" />
+          <Skeleton className="h-4 w-72" />
+        </div>
+        <Card>
+          <CardContent className="pt-6">
+            <Skeleton className="h-64 w-full" />
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-center justify-between gap-4 flex-wrap">
+        <div>
+          <h1 className="text-2xl font-bold tracking-tight" data-testid="text-page-title">
+            Outbound Webhooks
+          </h1>
+          <p className="text-muted-foreground text-sm mt-1">
+            Send signed events to external systems. Failed deliveries are retried with backoff and kept in the log below.
+          </p>
+        </div>
+        <Button onClick={() => openForm(null)} data-testid="button-add-webhook">
+          <Plus className="h-4 w-4 mr-2" />
+          Add Webhook
+        </Button>
+      </div>
+
+      <Dialog open={formOpen} onOpenChange={setFormOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editing ? "Edit Webhook" : "Add Webhook"}</DialogTitle>
+            <DialogDescription>Events are POSTed as JSON. Leave every event unchecked to receive all of them.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="webhook-name">Name</Label>
+              <Input
+                id="webhook-name"
+                value={form.name}
+                onChange={(e) => setForm(f => ({ ...f, name: e.target.value }))}
+                placeholder="Incident bridge"
+                data-testid="input-webhook-name"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="webhook-url">Payload URL</Label>
+              <Input
+                id="webhook-url"
+                value={form.url}
+                onChange={(e) => setForm(f => ({ ...f, url: e.target.value }))}
+                placeholder="https://example.com/hooks/openclaw"
+                data-testid="input-webhook-url"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Events</Label>
+              <div className="max-h-64 overflow-y-auto rounded-md border p-2 space-y-1">
+                {WEBHOOK_EVENT_TYPES.map(event => (
+                  <label key={event} className="flex items-start gap-2 py-1 cursor-pointer">
+                    <Checkbox
+                      checked={form.events.includes(event)}
+                      onCheckedChange={(checked) => toggleEvent(event, checked === true)}
+                      data-testid={`checkbox-webhook-event-${event}`}
+                    />
+                    <span className="min-w-0">
+                      <span className="block text-sm font-mono">{event}</span>
+                      <span className="block text-xs text-muted-foreground">{EVENT_DESCRIPTIONS[event]}</span>
+                    </span>
+                  </label>
+                ))}
+              </div>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button
+              onClick={() => saveMutation.mutate(form)}
+              disabled={saveMutation.isPending || !form.name.trim() || !form.url.trim()}
+              data-testid="button-save-webhook"
+            >
+              {saveMutation.isPending ? "Saving..." : editing ? "Save" : "Create Webhook"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!revealedSecret} onOpenChange={(open) => !open && setRevealedSecret(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Signing Secret</DialogTitle>
+            <DialogDescription>
+              Copy the secret now; it is not shown again. Each request carries X-OpenClaw-Timestamp and X-OpenClaw-Signature,
+              which is "sha256=" followed by the hex HMAC-SHA256 of the timestamp, a dot and the raw body.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="flex items-center gap-2">
+            <code className="flex-1 text-xs bg-muted px-2 py-2 rounded-md font-mono break-all" data-testid="text-webhook-secret">
+              {revealedSecret}
+            </code>
+            <Button size="icon" variant="ghost" onClick={() => revealedSecret && copySecret(revealedSecret)} data-testid="button-copy-webhook-secret">
+              <Copy className="h-4 w-4" />
+            </Button>
+          </div>
+          <DialogFooter>
+            <Button onClick={() => setRevealedSecret(null)} data-testid="button-close-webhook-secret">Done</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {subscriptions && subscriptions.length > 0 ? (
+        <Card>
+          <CardContent className="p-0">
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>URL</TableHead>
+                    <TableHead>Events</TableHead>
+                    <TableHead>Secret</TableHead>
+                    <TableHead>Enabled</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {subscriptions.map((subscription) => (
+                    <TableRow key={subscription.id} data-testid={`row-webhook-${subscription.id}`}>
+                      <TableCell className="font-medium">{subscription.name}</TableCell>
+                      <TableCell className="text-xs font-mono max-w-64 truncate" title={subscription.url}>{subscription.url}</TableCell>
+                      <TableCell>
+                        {subscription.events.length === 0 ? (
+                          <Badge variant="outline" className="text-xs">All events</Badge>
+                        ) : (
+                          <div className="flex flex-wrap gap-1">
+                            {subscription.events.map(event => (
+                              <Badge key={event} variant="secondary" className="text-xs">{event}</Badge>
+                            ))}
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <code className="text-xs bg-muted px-2 py-1 rounded-md font-mono">{subscription.secretPreview}</code>
+                      </TableCell>
+                      <TableCell>
+                        <Switch
+                          checked={subscription.enabled}
+                          onCheckedChange={(enabled) => toggleMutation.mutate({ id: subscription.id, enabled })}
+                          data-testid={`switch-webhook-enabled-${subscription.id}`}
+                        />
+                      </TableCell>
+                      <TableCell className="text-right whitespace-nowrap">
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          title="Send a test ping"
+                          disabled={pingMutation.isPending || !subscription.enabled}
+                          onClick={() => pingMutation.mutate(subscription.id)}
+                          data-testid={`button-ping-webhook-${subscription.id}`}
+                        >
+                          {pingMutation.isPending && pingMutation.variables === subscription.id
+                            ? <Loader2 className="h-4 w-4 animate-spin" />
+                            : <Send className="h-4 w-4" />}
+                        </Button>
+                        <Button size="icon" variant="ghost" title="Edit" onClick={() => openForm(subscription)} data-testid={`button-edit-webhook-${subscription.id}`}>
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          title="Rotate signing secret"
+                          disabled={rotateMutation.isPending}
+                          onClick={() => rotateMutation.mutate(subscription.id)}
+                          data-testid={`button-rotate-webhook-${subscription.id}`}
+                        >
+                          <RefreshCw className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          title="Delete"
+                          onClick={() => deleteMutation.mutate(subscription.id)}
+                          data-testid={`button-delete-webhook-${subscription.id}`}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <CardContent className="flex flex-col items-center justify-center py-12">
+            <Webhook className="h-12 w-12 text-muted-foreground mb-3" />
+            <h3 className="text-sm font-semibold mb-1">No webhooks yet</h3>
+            <p className="text-xs text-muted-foreground text-center max-w-xs">
+              Add a webhook to push node approvals, gateway outages, job failures and other events to your own systems.
+            </p>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between gap-4 flex-wrap space-y-0">
+          <div>
+            <CardTitle className="text-base">Delivery Log</CardTitle>
+            <CardDescription>The last 100 deliveries. Dead deliveries gave up after repeated failures and can be redelivered.</CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Select value={subscriptionFilter} onValueChange={setSubscriptionFilter}>
+              <SelectTrigger className="w-44" data-testid="select-delivery-subscription">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All webhooks</SelectItem>
+                {subscriptions?.map(s => <SelectItem key={s.id} value={s.id}>{s.name}</SelectItem>)}
+              </SelectContent>
+            </Select>
+            <Select value={statusFilter} onValueChange={setStatusFilter}>
+              <SelectTrigger className="w-36" data-testid="select-delivery-status">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All statuses</SelectItem>
+                {WEBHOOK_DELIVERY_STATUSES.map(status => <SelectItem key={status} value={status}>{status}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+        </CardHeader>
+        <CardContent className="p-0">
+          {deliveriesLoading ? (
+            <div className="p-6"><Skeleton className="h-32 w-full" /></div>
+          ) : !deliveries?.length ? (
+            <p className="text-sm text-muted-foreground text-center py-8" data-testid="text-deliveries-empty">No deliveries</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Event</TableHead>
+                    <TableHead>Webhook</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Response</TableHead>
+                    <TableHead>Attempts</TableHead>
+                    <TableHead>Created</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {deliveries.map(delivery => (
+                    <TableRow
+                      key={delivery.id}
+                      className="cursor-pointer"
+                      onClick={() => setSelectedDelivery(delivery)}
+                      data-testid={`row-delivery-${delivery.id}`}
+                    >
+                      <TableCell className="font-mono text-xs">
+                        {delivery.eventType}
+                        {delivery.redeliveryOf && <Badge variant="outline" className="ml-2 text-[10px]">redelivery</Badge>}
+                      </TableCell>
+                      <TableCell className="text-sm">{subscriptionNames.get(delivery.subscriptionId) ?? delivery.subscriptionId}</TableCell>
+                      <TableCell>
+                        <Badge variant={STATUS_VARIANTS[delivery.status]} data-testid={`badge-delivery-status-${delivery.id}`}>{delivery.status}</Badge>
+                      </TableCell>
+                      <TableCell className="text-xs text-muted-foreground max-w-56 truncate" title={delivery.error ?? undefined}>
+                        {delivery.responseStatus ?? delivery.error ?? "—"}
+                      </TableCell>
+                      <TableCell className="text-xs text-muted-foreground">
+                        {delivery.attempts}
+                        {delivery.status === "retrying" && delivery.nextAttemptAt && (
+                          <span className="block">next {new Date(delivery.nextAttemptAt).toLocaleTimeString()}</span>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-xs text-muted-foreground">{new Date(delivery.createdAt).toLocaleString()}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!selectedDelivery} onOpenChange={(open) => !open && setSelectedDelivery(null)}>
+        <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+          {selectedDelivery && (
+            <>
+              <DialogHeader>
+                <DialogTitle className="flex items-center gap-2">
+                  <span className="font-mono">{selectedDelivery.eventType}</span>
+                  <Badge variant={STATUS_VARIANTS[selectedDelivery.status]}>{selectedDelivery.status}</Badge>
+                </DialogTitle>
+                <DialogDescription>
+                  Delivery {selectedDelivery.id} · {selectedDelivery.attempts} attempt{selectedDelivery.attempts === 1 ? "" : "s"}
+                  {selectedDelivery.durationMs !== null && ` · ${selectedDelivery.durationMs} ms`}
+                </DialogDescription>
+              </DialogHeader>
+              <div className="space-y-4 text-sm">
+                {selectedDelivery.error && (
+                  <p className="text-destructive" data-testid="text-delivery-error">{selectedDelivery.error}</p>
+                )}
+                <div className="space-y-1">
+                  <p className="font-medium">Request headers</p>
+                  <pre className="text-xs bg-muted rounded-md p-3 overflow-x-auto">
+                    {selectedDelivery.requestHeaders
+                      ? Object.entries(selectedDelivery.requestHeaders).map(([k, v]) => `${k}: ${v}`).join("\n")
+                      : "Not sent yet"}
+                  </pre>
+                </div>
+                <div className="space-y-1">
+                  <p className="font-medium">Request body</p>
+                  <pre className="text-xs bg-muted rounded-md p-3 overflow-x-auto max-h-64" data-testid="text-delivery-request">
+                    {formatBody(selectedDelivery.requestBody)}
+                  </pre>
+                </div>
+                <div className="space-y-1">
+                  <p className="font-medium">Response {selectedDelivery.responseStatus !== null && `(${selectedDelivery.responseStatus})`}</p>
+                  <pre className="text-xs bg-muted rounded-md p-3 overflow-x-auto max-h-64" data-testid="text-delivery-response">
+                    {formatBody(selectedDelivery.responseBody) || "No response body"}
+                  </pre>
+                </div>
+              </div>
+              <DialogFooter>
+                <Button
+                  onClick={() => redeliverMutation.mutate(selectedDelivery.id)}
+                  disabled={redeliverMutation.isPending}
+                  data-testid="button-redeliver"
+                >
+                  {redeliverMutation.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <RotateCcw className="h-4 w-4 mr-2" />}
+                  Redeliver
+                </Button>
+              </DialogFooter>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
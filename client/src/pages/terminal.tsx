@@ -0,0 +1,163 @@
+import { useEffect, useRef, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Terminal as XTerm } from "@xterm/xterm";
+import { FitAddon } from "@xterm/addon-fit";
+import "@xterm/xterm/css/xterm.css";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useInstance } from "@/hooks/use-instance";
+import type { Machine } from "@shared/schema";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2, Plug, Unplug } from "lucide-react";
+
+type ConnectionState = "idle" | "connecting" | "connected" | "closed";
+
+type TerminalMessage =
+  | { type: "output"; data: string }
+  | { type: "status"; message: string }
+  | { type: "exit"; reason: string };
+
+const VPS_TARGET = "vps";
+
+export default function TerminalPage() {
+  const { toast } = useToast();
+  const { selectedInstanceId, selectedInstance } = useInstance();
+  const [target, setTarget] = useState(VPS_TARGET);
+  const [state, setState] = useState<ConnectionState>("idle");
+  const [status, setStatus] = useState("");
+  const containerRef = useRef<HTMLDivElement>(null);
+  const termRef = useRef<XTerm | null>(null);
+  const fitRef = useRef<FitAddon | null>(null);
+  const wsRef = useRef<WebSocket | null>(null);
+
+  const { data: machines } = useQuery<Machine[]>({ queryKey: ["/api/machines"] });
+
+  useEffect(() => {
+    const term = new XTerm({
+      cursorBlink: true,
+      fontSize: 13,
+      fontFamily: "ui-monospace, SFMono-Regular, Menlo, monospace",
+      theme: { background: "#0a0a0a" },
+    });
+    const fit = new FitAddon();
+    term.loadAddon(fit);
+    term.open(containerRef.current!);
+    fit.fit();
+    termRef.current = term;
+    fitRef.current = fit;
+
+    const inputListener = term.onData((data) => {
+      if (wsRef.current?.readyState === WebSocket.OPEN) {
+        wsRef.current.send(JSON.stringify({ type: "input", data }));
+      }
+    });
+    const resizeListener = term.onResize(({ cols, rows }) => {
+      if (wsRef.current?.readyState === WebSocket.OPEN) {
+        wsRef.current.send(JSON.stringify({ type: "resize", cols, rows }));
+      }
+    });
+    const onWindowResize = () => fit.fit();
+    window.addEventListener("resize", onWindowResize);
+
+    return () => {
+      window.removeEventListener("resize", onWindowResize);
+      inputListener.dispose();
+      resizeListener.dispose();
+      wsRef.current?.close();
+      term.dispose();
+    };
+  }, []);
+
+  const connect = async () => {
+    const term = termRef.current;
+    if (!term) return;
+    setState("connecting");
+    setStatus("");
+    term.reset();
+    try {
+      const body = target === VPS_TARGET
+        ? { target: "vps", cols: term.cols, rows: term.rows }
+        : { target: "node", machineId: target, cols: term.cols, rows: term.rows };
+      const res = await apiRequest("POST", `/api/terminal/sessions?instanceId=${selectedInstanceId ?? ""}`, body);
+      const { ticket } = await res.json();
+
+      const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+      const ws = new WebSocket(`${protocol}//${window.location.host}/terminal-ws?ticket=${encodeURIComponent(ticket)}`);
+      wsRef.current = ws;
+      ws.onopen = () => {
+        setState("connected");
+        term.focus();
+      };
+      ws.onmessage = (event) => {
+        const message: TerminalMessage = JSON.parse(event.data);
+        if (message.type === "output") term.write(message.data);
+        else if (message.type === "status") setStatus(message.message);
+        else if (message.type === "exit") setStatus(message.reason);
+      };
+      ws.onclose = () => {
+        if (wsRef.current === ws) wsRef.current = null;
+        setState("closed");
+        term.write("\r\n\x1b[90m[disconnected]\x1b[0m\r\n");
+      };
+    } catch (err: any) {
+      setState("idle");
+      toast({ title: "Could not open terminal", description: err.message, variant: "destructive" });
+    }
+  };
+
+  const disconnect = () => wsRef.current?.close();
+
+  const isOpen = state === "connecting" || state === "connected";
+
+  return (
+    <div className="p-4 space-y-4 max-w-6xl mx-auto">
+      <div className="flex items-center justify-between gap-2 flex-wrap">
+        <h1 className="text-xl font-semibold" data-testid="text-terminal-title">Terminal</h1>
+        <div className="flex items-center gap-2 flex-wrap">
+          <Select value={target} onValueChange={setTarget} disabled={isOpen}>
+            <SelectTrigger className="w-64" data-testid="select-terminal-target">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={VPS_TARGET}>VPS shell{selectedInstance ? ` — ${selectedInstance.name}` : ""}</SelectItem>
+              {(machines || []).map((m) => (
+                <SelectItem key={m.id} value={m.id}>Node — {m.displayName || m.hostname || m.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {isOpen ? (
+            <Button variant="outline" size="sm" onClick={disconnect} data-testid="button-terminal-disconnect">
+              <Unplug className="h-4 w-4 mr-1" /> Disconnect
+            </Button>
+          ) : (
+            <Button size="sm" onClick={connect} data-testid="button-terminal-connect">
+              <Plug className="h-4 w-4 mr-1" /> Connect
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between gap-2 space-y-0 pb-2">
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            {state === "connecting" && <Loader2 className="h-3 w-3 animate-spin" />}
+            <span data-testid="text-terminal-status">{status || (state === "idle" ? "Not connected" : "")}</span>
+          </div>
+          <Badge variant={state === "connected" ? "default" : "secondary"} data-testid="badge-terminal-state">
+            {state === "connected" ? "Connected" : state === "connecting" ? "Connecting" : state === "closed" ? "Disconnected" : "Idle"}
+          </Badge>
+        </CardHeader>
+        <CardContent>
+          <div ref={containerRef} className="h-[60vh] rounded-md bg-[#0a0a0a] p-2" data-testid="terminal-container" />
+          <p className="text-xs text-muted-foreground mt-2">
+            Sessions close after 15 minutes without input and are recorded in the Activity Log.
+            Node sessions run one command at a time through the gateway.
+          </p>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
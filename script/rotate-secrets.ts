@@ -0,0 +1,21 @@
+import { assertEncryptionKey } from "../server/encryption";
+import { storage } from "../server/storage";
+
+// Re-encrypts every stored credential under OPENCLAW_MASTER_KEY. To rotate, move the old key to
+// OPENCLAW_MASTER_KEY_PREVIOUS, set a new OPENCLAW_MASTER_KEY, run this, then drop the previous key.
+async function rotateSecrets() {
+  assertEncryptionKey();
+  const counts = await storage.reencryptSecrets();
+  const total = Object.values(counts).reduce((sum, n) => sum + n, 0);
+  for (const [table, count] of Object.entries(counts)) {
+    console.log(`${table}: re-encrypted ${count} row(s)`);
+  }
+  console.log(total > 0 ? `Done, ${total} row(s) re-encrypted.` : "All secrets already use the current master key.");
+}
+
+rotateSecrets()
+  .then(() => process.exit(0))
+  .catch((err) => {
+    console.error(`Rotation failed: ${err.message}`);
+    process.exit(1);
+  });
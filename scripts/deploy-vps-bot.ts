@@ -1,5 +1,6 @@
 import { executeRawSSHCommand, buildSSHConfigFromVps } from "../server/ssh";
 import { storage } from "../server/storage";
+import { checkApiKey, generateApiKey, hashApiKey } from "../server/api-keys";
 import { readFileSync } from "fs";
 import { join } from "path";
 
@@ -11,9 +12,17 @@ async function deploy() {
   if (!vps) { console.log("No VPS"); return; }
   const sshConfig = buildSSHConfigFromVps(vps);
 
-  const keys = await storage.getApiKeys();
-  const activeKey = keys.find(k => k.active && k.name === "Production API");
-  if (!activeKey) { console.log("No active API key found"); return; }
+  // Keys are stored hashed, so the bot gets a home-bot key passed in as VPS_BOT_API_KEY or a newly minted one.
+  let apiKey = process.env.VPS_BOT_API_KEY;
+  if (apiKey) {
+    const error = checkApiKey(await storage.getApiKeyByHash(hashApiKey(apiKey)), "home-bot", undefined);
+    if (error) { console.log("VPS_BOT_API_KEY rejected:", error); return; }
+  } else {
+    const minted = generateApiKey();
+    await storage.createApiKey({ name: `VPS Bot (${new Date().toISOString().slice(0, 10)})`, scopes: ["home-bot"], active: true }, minted.keyHash, minted.keyPrefix);
+    apiKey = minted.key;
+    console.log("Minted a new home-bot API key; revoke the previous VPS Bot key in Settings if it is no longer used");
+  }
 
   const devUrl = process.env.REPLIT_DEV_DOMAIN
     ? "https://" + process.env.REPLIT_DEV_DOMAIN
@@ -22,7 +31,7 @@ async function deploy() {
 
   console.log("Dev URL:", devUrl);
   console.log("Prod URL:", prodUrl);
-  console.log("API key:", activeKey.key.substring(0, 10) + "...");
+  console.log("API key:", apiKey.substring(0, 10) + "...");
 
   console.log("\n--- Stopping existing service ---");
   await executeRawSSHCommand("systemctl stop openclaw-whatsapp 2>/dev/null || true", sshConfig, 0, 10000);
@@ -40,7 +49,7 @@ async function deploy() {
   const configJson = JSON.stringify({
     dashboardUrl: devUrl,
     dashboardUrlProd: prodUrl,
-    apiKey: activeKey.key,
+    apiKey,
     botName: "OpenClaw AI",
     phoneNumber: "13405140344",
     usePairingCode: true,
@@ -1,5 +1,6 @@
 import { storage } from "./storage";
-import { executeRawSSHCommand, buildSSHConfigFromVps } from "./ssh";
+import { executeRawSSHCommand, buildSSHConfigFromVps, type SSHResult } from "./ssh";
+import type { Machine } from "@shared/schema";
 
 const OPENROUTER_API_KEY = process.env.OPENROUTER_API_KEY || "";
 const OPENROUTER_BASE_URL = "https://openrouter.ai/api/v1/chat/completions";
@@ -121,6 +122,7 @@ interface ToolCall {
   path?: string;
   content?: string;
   extension?: string;
+  timeoutMs?: number;
 }
 
 function buildNodeCommand(toolCall: ToolCall): string {
@@ -137,7 +139,7 @@ function buildNodeCommand(toolCall: ToolCall): string {
     case "run_on_node": {
       const cmd = sanitizeParam(toolCall.command || "echo hello");
       const paramsJson = JSON.stringify({ command: toolCall.command || "echo hello" });
-      const timeout = (toolCall.command || "").length > 100 ? "60000" : "35000";
+      const timeout = toolCall.timeoutMs ? String(toolCall.timeoutMs) : (toolCall.command || "").length > 100 ? "60000" : "35000";
       return `openclaw nodes invoke --node "${sanitizeParam(toolCall.node || "")}" --command "system.run" --params '${sanitizeParam(paramsJson)}' --invoke-timeout ${timeout} --timeout ${timeout} ${urlPart} ${tokenPart} --json 2>&1`;
     }
 
@@ -179,6 +181,35 @@ function buildNodeCommand(toolCall: ToolCall): string {
   }
 }
 
+/** The --node value for a machine: the gateway node id once linked, else the hostname the node usually registers with. */
+export function machineNodeId(machine: Pick<Machine, "gatewayNodeId" | "hostname" | "name">): string {
+  return machine.gatewayNodeId || machine.hostname || machine.name;
+}
+
+export function buildRunOnNodeCommand(node: string, command: string, timeoutMs?: number): string {
+  return buildNodeCommand({ tool: "run_on_node", node, command, timeoutMs });
+}
+
+/** Unwraps the JSON printed by `openclaw nodes invoke ... system.run` into a command result. */
+export function parseNodeRunResult(result: SSHResult): SSHResult {
+  if (!result.success) return result;
+  try {
+    const payload = JSON.parse(result.output);
+    const inner = payload.result ?? payload.payload ?? payload;
+    const exitCode = typeof inner.exitCode === "number" ? inner.exitCode : typeof inner.code === "number" ? inner.code : undefined;
+    const output = [inner.stdout ?? inner.output, inner.stderr].filter(Boolean).join("\n") || result.output;
+    const failed = payload.ok === false || !!payload.error || (exitCode !== undefined && exitCode !== 0);
+    return {
+      success: !failed,
+      output,
+      error: failed ? (typeof payload.error === "string" ? payload.error : payload.error?.message) : undefined,
+      exitCode,
+    };
+  } catch {
+    return result;
+  }
+}
+
 function sanitizeParam(param: string): string {
   return param.replace(/[`$\\]/g, "\\$&").replace(/"/g, '\\"').replace(/'/g, "'\\''");
 }
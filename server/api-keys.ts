@@ -0,0 +1,113 @@
+import { createHash, randomBytes } from "crypto";
+import { BlockList, isIP } from "net";
+import type { Request, Response, NextFunction } from "express";
+import { storage } from "./storage";
+import { recordAuthFailure } from "./security";
+import { API_KEY_SCOPES, type ApiKey, type ApiKeyScope, type ApiKeySummary } from "@shared/schema";
+
+const KEY_PREFIX_LENGTH = 11;
+const LAST_USED_WRITE_INTERVAL_MS = 60000;
+
+export function generateApiKey(): { key: string; keyHash: string; keyPrefix: string } {
+  const key = `oc_${randomBytes(20).toString("hex")}`;
+  return { key, keyHash: hashApiKey(key), keyPrefix: key.slice(0, KEY_PREFIX_LENGTH) };
+}
+
+export function hashApiKey(key: string): string {
+  return createHash("sha256").update(key).digest("hex");
+}
+
+export function toApiKeySummary(apiKey: ApiKey): ApiKeySummary {
+  const { key: _key, keyHash: _keyHash, ...summary } = apiKey;
+  return summary;
+}
+
+function normalizeIp(ip: string): string {
+  return ip.startsWith("::ffff:") && isIP(ip.slice(7)) === 4 ? ip.slice(7) : ip;
+}
+
+function parseAllowlistEntry(entry: string): { address: string; prefix?: number; family: "ipv4" | "ipv6" } | null {
+  const [address, prefixText, ...rest] = entry.trim().split("/");
+  const version = isIP(address);
+  if (!version || rest.length > 0) return null;
+  const family = version === 4 ? "ipv4" : "ipv6";
+  if (prefixText === undefined) return { address, family };
+  const prefix = Number(prefixText);
+  const max = version === 4 ? 32 : 128;
+  if (!/^\d+$/.test(prefixText) || prefix > max) return null;
+  return { address, prefix, family };
+}
+
+/** Returns an error message naming the first entry that is not an IP address or CIDR range. */
+export function validateIpAllowlist(entries: string[]): string | null {
+  const invalid = entries.find(entry => !parseAllowlistEntry(entry));
+  return invalid === undefined ? null : `"${invalid}" is not an IP address or CIDR range`;
+}
+
+export function isIpAllowed(ip: string | undefined, allowlist: string[]): boolean {
+  if (allowlist.length === 0) return true;
+  if (!ip) return false;
+  const address = normalizeIp(ip);
+  const family = isIP(address) === 6 ? "ipv6" : "ipv4";
+  const blockList = new BlockList();
+  for (const entry of allowlist) {
+    const parsed = parseAllowlistEntry(entry);
+    if (!parsed) continue;
+    if (parsed.prefix === undefined) blockList.addAddress(parsed.address, parsed.family);
+    else blockList.addSubnet(parsed.address, parsed.prefix, parsed.family);
+  }
+  return blockList.check(address, family);
+}
+
+export function checkApiKey(apiKey: ApiKey | undefined, scope: ApiKeyScope, ip: string | undefined): string | null {
+  if (!apiKey || !apiKey.active) return "Invalid or inactive API key";
+  if (apiKey.expiresAt && apiKey.expiresAt.getTime() <= Date.now()) return "API key has expired";
+  if (!apiKey.scopes.includes(scope)) return `API key does not have the "${scope}" scope`;
+  if (!isIpAllowed(ip, apiKey.allowedIps)) return "API key is not allowed from this IP address";
+  return null;
+}
+
+/**
+ * Guards a machine-to-machine endpoint. The X-API-Key header must match an active, unexpired key
+ * that carries the given scope and, if the key has an IP allowlist, come from an allowed address.
+ */
+export function requireApiKey(scope: ApiKeyScope) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const header = req.headers["x-api-key"];
+    if (typeof header !== "string" || !header) {
+      return res.status(401).json({ error: "API key required (X-API-Key header)" });
+    }
+    try {
+      const apiKey = await storage.getApiKeyByHash(hashApiKey(header));
+      const error = checkApiKey(apiKey, scope, req.ip);
+      if (error) {
+        recordAuthFailure(req, `API key rejected on ${req.path}: ${error}`);
+        return res.status(403).json({ error });
+      }
+      if (!apiKey!.lastUsed || Date.now() - apiKey!.lastUsed.getTime() > LAST_USED_WRITE_INTERVAL_MS) {
+        storage.recordApiKeyUse(apiKey!.id, req.ip ? normalizeIp(req.ip) : null).catch(() => {});
+      }
+      (req as any).apiKeyId = apiKey!.id;
+      next();
+    } catch (error) {
+      res.status(500).json({ error: "Failed to validate API key" });
+    }
+  };
+}
+
+/**
+ * Keys created before hashing were stored in plaintext and accepted on every key-protected
+ * endpoint. Hash them in place, keeping that access by granting all scopes if none are set.
+ */
+export async function hashLegacyApiKeys(): Promise<number> {
+  const legacy = (await storage.getApiKeys()).filter(k => k.key);
+  for (const apiKey of legacy) {
+    await storage.updateApiKey(apiKey.id, {
+      key: null,
+      keyHash: hashApiKey(apiKey.key!),
+      keyPrefix: apiKey.key!.slice(0, KEY_PREFIX_LENGTH),
+      scopes: apiKey.scopes.length > 0 ? apiKey.scopes : [...API_KEY_SCOPES],
+    });
+  }
+  return legacy.length;
+}
@@ -0,0 +1,293 @@
+import { getEventField } from "./event-bus";
+import type { AutomationWorkflowStep, AutomationStepCondition, AutomationStepResult, AutomationEvent } from "@shared/schema";
+
+export interface StepExecution {
+  success: boolean;
+  output: string;
+  error?: string;
+  exitCode?: number;
+  attempt?: number;
+}
+
+// escapeValue is applied to every {{event.*}}, {{steps.*}} and {{vars.*}} value: events come from outside (webhooks,
+// MQTT) and step outputs from HTTP responses or LLMs, so none of them may reach a shell raw.
+export type TemplateRenderer = (template: string, escapeValue?: (value: string) => string) => string;
+export type StepExecutor = (step: AutomationWorkflowStep, render: TemplateRenderer) => Promise<StepExecution>;
+
+export interface WorkflowOptions {
+  signal: AbortSignal;
+  variables: { job: string; target: string; event?: AutomationEvent };
+  truncate: (output: string) => string;
+  onUpdate: (results: AutomationStepResult[]) => Promise<void>;
+}
+
+export interface WorkflowOutcome {
+  status: string;
+  output: string;
+  exitCode?: number;
+  results: AutomationStepResult[];
+}
+
+interface StepState {
+  status: string;
+  output: string;
+  exitCode?: number;
+}
+
+const FINISHED_STATUSES = ["completed", "failed", "skipped", "cancelled"];
+
+export function getStepDependencies(step: AutomationWorkflowStep): string[] {
+  const deps = new Set(step.dependsOn || []);
+  if (step.when) deps.add(step.when.step);
+  return Array.from(deps);
+}
+
+function checkRegex(pattern: string, where: string): string | null {
+  try {
+    new RegExp(pattern);
+    return null;
+  } catch (err: any) {
+    return `${where}: invalid regular expression (${err.message})`;
+  }
+}
+
+function validateStepFields(step: AutomationWorkflowStep): string | null {
+  const label = `Step "${step.id}"`;
+  switch (step.type) {
+    case "ssh":
+      if (!step.command?.trim()) return `${label} needs a command`;
+      break;
+    case "node":
+      if (!step.node?.trim()) return `${label} needs a node`;
+      if (!step.command?.trim()) return `${label} needs a command`;
+      break;
+    case "http":
+      if (!step.url?.trim()) return `${label} needs a URL`;
+      break;
+    case "llm":
+      if (!step.prompt?.trim()) return `${label} needs a prompt`;
+      break;
+    case "message":
+      if (!step.channel) return `${label} needs a channel`;
+      if (!step.to?.trim()) return `${label} needs a recipient`;
+      if (!step.text?.trim()) return `${label} needs message text`;
+      break;
+    case "integration":
+      if (!step.integration) return `${label} needs an integration`;
+      if (!step.text?.trim()) return `${label} needs message text`;
+      break;
+  }
+
+  if (step.when?.outputMatches) {
+    const error = checkRegex(step.when.outputMatches, `${label} condition`);
+    if (error) return error;
+  }
+  for (const [name, pattern] of Object.entries(step.captures || {})) {
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(name)) return `${label}: invalid variable name "${name}"`;
+    const error = checkRegex(pattern, `${label} capture "${name}"`);
+    if (error) return error;
+  }
+  return null;
+}
+
+/**
+ * Checks step IDs, references, per-type required fields and regexes, and that
+ * the dependency graph has no cycles.
+ */
+export function validateWorkflow(steps: AutomationWorkflowStep[]): string | null {
+  const ids = new Set<string>();
+  for (const step of steps) {
+    if (ids.has(step.id)) return `Duplicate step ID "${step.id}"`;
+    ids.add(step.id);
+  }
+
+  for (const step of steps) {
+    for (const dep of getStepDependencies(step)) {
+      if (dep === step.id) return `Step "${step.id}" depends on itself`;
+      if (!ids.has(dep)) return `Step "${step.id}" depends on unknown step "${dep}"`;
+    }
+    const fieldError = validateStepFields(step);
+    if (fieldError) return fieldError;
+  }
+
+  const remaining = new Map(steps.map(s => [s.id, getStepDependencies(s)]));
+  while (remaining.size > 0) {
+    const ready = Array.from(remaining.keys()).filter(id => remaining.get(id)!.every(dep => !remaining.has(dep)));
+    if (ready.length === 0) {
+      return `Steps ${Array.from(remaining.keys()).map(id => `"${id}"`).join(", ")} form a dependency cycle`;
+    }
+    ready.forEach(id => remaining.delete(id));
+  }
+  return null;
+}
+
+/**
+ * Replaces {{steps.<id>.output|exitCode|status}}, {{vars.<name>}}, {{event.type}}, {{event.<payload path>}},
+ * {{job.name}} and {{target}}.
+ * Unknown references render as an empty string; event, step and variable values pass through escapeValue when given.
+ */
+export function renderTemplate(
+  template: string,
+  states: Map<string, StepState>,
+  vars: Record<string, string>,
+  variables: WorkflowOptions["variables"],
+  escapeValue: (value: string) => string = value => value,
+): string {
+  return template.replace(/\{\{\s*([\w.-]+)\s*\}\}/g, (_match, path: string) => {
+    const [scope, key, field] = path.split(".");
+    if (scope === "steps" && key) {
+      const state = states.get(key);
+      if (!state) return escapeValue("");
+      if (field === "exitCode") return escapeValue(state.exitCode !== undefined ? String(state.exitCode) : "");
+      if (field === "status") return escapeValue(state.status);
+      return escapeValue(state.output.trim());
+    }
+    if (scope === "vars" && key) return escapeValue(vars[key] ?? "");
+    if (scope === "event" && key && variables.event) {
+      if (path === "event.type") return escapeValue(variables.event.type);
+      const value = getEventField(variables.event.payload, path.slice("event.".length));
+      if (value === undefined || value === null) return escapeValue("");
+      return escapeValue(typeof value === "object" ? JSON.stringify(value) : String(value));
+    }
+    if (scope === "job" && key === "name") return variables.job;
+    if (scope === "target") return variables.target;
+    return "";
+  });
+}
+
+function evaluateCondition(condition: AutomationStepCondition, states: Map<string, StepState>): boolean {
+  const state = states.get(condition.step);
+  if (!state || (state.status !== "completed" && state.status !== "failed")) return false;
+
+  let matches = true;
+  if (condition.status && state.status !== condition.status) matches = false;
+  if (condition.exitCode !== undefined && state.exitCode !== condition.exitCode) matches = false;
+  if (condition.outputMatches && !new RegExp(condition.outputMatches).test(state.output)) matches = false;
+  return condition.negate ? !matches : matches;
+}
+
+function extractCaptures(step: AutomationWorkflowStep, output: string, vars: Record<string, string>): void {
+  for (const [name, pattern] of Object.entries(step.captures || {})) {
+    const match = new RegExp(pattern).exec(output);
+    if (match) vars[name] = (match[1] ?? match[0]).trim();
+  }
+}
+
+function getSkipReason(step: AutomationWorkflowStep, states: Map<string, StepState>): string | null {
+  for (const dep of step.dependsOn || []) {
+    if (dep === step.when?.step) continue;
+    const status = states.get(dep)?.status;
+    if (status !== "completed") return `Dependency "${dep}" ${status}`;
+  }
+  if (step.when && !evaluateCondition(step.when, states)) return `Condition on "${step.when.step}" not met`;
+  return null;
+}
+
+/**
+ * Runs a validated workflow. Steps whose dependencies have all finished run in parallel waves.
+ * A plain dependency must complete successfully; a step with a condition runs when the
+ * condition holds, whatever the referenced step's outcome. Failed steps fail the workflow
+ * unless marked allowFailure.
+ */
+export async function runWorkflow(steps: AutomationWorkflowStep[], execute: StepExecutor, options: WorkflowOptions): Promise<WorkflowOutcome> {
+  const results = new Map<string, AutomationStepResult>(
+    steps.map(s => [s.id, { id: s.id, name: s.name, type: s.type, status: "pending" }])
+  );
+  const states = new Map<string, StepState>();
+  const vars: Record<string, string> = {};
+  const render: TemplateRenderer = (template, escapeValue) => renderTemplate(template, states, vars, options.variables, escapeValue);
+
+  let persisting = Promise.resolve();
+  const persist = () => {
+    const snapshot = steps.map(s => ({ ...results.get(s.id)! }));
+    persisting = persisting.then(() => options.onUpdate(snapshot)).catch(err => {
+      console.error("[Automation] Failed to save workflow progress:", err.message);
+    });
+  };
+
+  const finish = (step: AutomationWorkflowStep, status: string, extra: Partial<AutomationStepResult> = {}) => {
+    results.set(step.id, { ...results.get(step.id)!, status, ...extra });
+    states.set(step.id, { status, output: extra.output ?? "", exitCode: extra.exitCode });
+  };
+
+  const runStep = async (step: AutomationWorkflowStep) => {
+    const startedAt = new Date();
+    results.set(step.id, { ...results.get(step.id)!, status: "running", startedAt: startedAt.toISOString() });
+    persist();
+
+    let execution: StepExecution;
+    try {
+      execution = await execute(step, render);
+    } catch (err: any) {
+      execution = { success: false, output: "", error: err.message || "Unknown error" };
+    }
+
+    const output = [execution.output, execution.success ? undefined : execution.error].filter(Boolean).join("\n");
+    const status = options.signal.aborted ? "cancelled" : execution.success ? "completed" : "failed";
+    if (status !== "cancelled") extractCaptures(step, output, vars);
+
+    finish(step, status, {
+      output: options.truncate(output),
+      exitCode: execution.exitCode,
+      attempt: execution.attempt,
+      completedAt: new Date().toISOString(),
+      durationMs: Date.now() - startedAt.getTime(),
+    });
+    states.get(step.id)!.output = output;
+    persist();
+  };
+
+  while (true) {
+    const pending = steps.filter(s => results.get(s.id)!.status === "pending");
+    if (pending.length === 0) break;
+
+    if (options.signal.aborted) {
+      pending.forEach(s => finish(s, "cancelled"));
+      persist();
+      break;
+    }
+
+    const ready = pending.filter(s =>
+      getStepDependencies(s).every(dep => FINISHED_STATUSES.includes(results.get(dep)!.status))
+    );
+    if (ready.length === 0) {
+      pending.forEach(s => finish(s, "skipped", { skipReason: "Unresolvable dependencies" }));
+      persist();
+      break;
+    }
+    const runnable: AutomationWorkflowStep[] = [];
+    for (const step of ready) {
+      const skipReason = getSkipReason(step, states);
+      if (skipReason) {
+        finish(step, "skipped", { skipReason });
+      } else {
+        runnable.push(step);
+      }
+    }
+    if (runnable.length === 0) {
+      persist();
+      continue;
+    }
+    await Promise.all(runnable.map(runStep));
+  }
+
+  await persisting;
+
+  const ordered = steps.map(s => results.get(s.id)!);
+  const blocking = steps.find(s => results.get(s.id)!.status === "failed" && !s.allowFailure);
+  const status = options.signal.aborted ? "cancelled" : blocking ? "failed" : "completed";
+  const output = ordered
+    .map(r => {
+      const header = `== ${r.name || r.id} (${r.status}${r.exitCode !== undefined ? `, exit ${r.exitCode}` : ""}) ==`;
+      const body = r.status === "skipped" ? r.skipReason : states.get(r.id)?.output;
+      return body ? `${header}\n${body.trim()}` : header;
+    })
+    .join("\n\n");
+
+  return {
+    status,
+    output,
+    exitCode: blocking ? results.get(blocking.id)!.exitCode : undefined,
+    results: ordered,
+  };
+}
@@ -1,127 +1,615 @@
 import { storage } from "./storage";
-import type { AutomationJob } from "@shared/schema";
+import { parseCron, getNextCronDate, getCronDatesBetween, getServerTimeZone, isValidTimeZone } from "./cron";
+import { executeSSHRawCommand, getSSHConfig, buildSSHConfigFromVps, type SSHConnectionConfig, type SSHResult } from "./ssh";
+import { buildRunOnNodeCommand, machineNodeId, parseNodeRunResult } from "./ai-task-runner";
+import { runWorkflow, validateWorkflow, type StepExecution, type TemplateRenderer } from "./automation-workflow";
+import { eventBus, matchesEventFilters, validateEventFilters } from "./event-bus";
+import { notify } from "./notifications";
+import { emitWebhookEventInBackground } from "./outbound-webhooks";
+import { isMaintenanceActive } from "./maintenance";
+import type { AutomationJob, AutomationWorkflowStep, AutomationEvent } from "@shared/schema";
+
+const CHECK_INTERVAL_MS = 30000;
+// A scheduled time more than this far in the past counts as missed rather than just late.
+const MISSED_GRACE_MS = 2 * 60 * 1000;
+const MAX_CATCH_UP_RUNS = 10;
+const MAX_QUEUED_RUNS = 5;
+const MAX_PARALLEL_TARGETS = 5;
+const DEFAULT_TIMEOUT_MS = 120000;
+// Node invokes carry their own timeout; give the SSH hop to the gateway some headroom on top.
+const NODE_SSH_HEADROOM_MS = 15000;
+const MAX_HTTP_RESPONSE_CHARS = 100000;
+
+interface JobTarget {
+  label: string;
+  sshConfig: SSHConnectionConfig;
+  node?: string;
+}
+
+interface TargetOutcome {
+  label: string;
+  status: string;
+  exitCode?: number;
+  output: string;
+}
+
+interface RunContext {
+  trigger: string;
+  event?: AutomationEvent;
+}
+
+interface QueuedRun {
+  runId: Promise<string>;
+  context: RunContext;
+}
+
+interface ActiveJob {
+  controller: AbortController;
+  queue: QueuedRun[];
+  done: Promise<void>;
+}
 
 let schedulerInterval: ReturnType<typeof setInterval> | null = null;
+const activeJobs = new Map<string, ActiveJob>();
+const lastEventRuns = new Map<string, number>();
+
+function getJobTimeZone(job: Pick<AutomationJob, "timezone">): string {
+  return job.timezone || getServerTimeZone();
+}
+
+function getNextRun(schedule: string, timezone?: string | null, after: Date = new Date()): Date | null {
+  return getNextCronDate(parseCron(schedule), timezone || getServerTimeZone(), after);
+}
 
-function parseCronSchedule(schedule: string): { matches: (date: Date) => boolean } {
-  const parts = schedule.trim().split(/\s+/);
-  if (parts.length !== 5) {
-    return { matches: () => false };
+function validateSchedule(schedule: string, timezone?: string | null): string | null {
+  if (timezone && !isValidTimeZone(timezone)) {
+    return `Unknown time zone "${timezone}"`;
+  }
+  try {
+    if (!getNextRun(schedule, timezone)) {
+      return "Schedule never fires";
+    }
+  } catch (err: any) {
+    return `Invalid schedule: ${err.message}`;
   }
+  return null;
+}
 
-  const [minute, hour, dayOfMonth, month, dayOfWeek] = parts;
+function validateTarget(job: Pick<AutomationJob, "targetType" | "targetInstanceId" | "targetNode" | "targetGroupId">): string | null {
+  if (job.targetType === "instance" && !job.targetInstanceId) return "Choose an instance to run the job on";
+  if (job.targetType === "node" && !job.targetNode?.trim()) return "Choose a node to run the job on";
+  if (job.targetType === "group" && !job.targetGroupId) return "Choose a machine group to run the job on";
+  return null;
+}
 
-  function fieldMatches(field: string, value: number, max: number): boolean {
-    if (field === "*") return true;
-    if (field.includes("/")) {
-      const [base, step] = field.split("/");
-      const stepNum = parseInt(step, 10);
-      if (isNaN(stepNum) || stepNum <= 0) return false;
-      const baseNum = base === "*" ? 0 : parseInt(base, 10);
-      return (value - baseNum) % stepNum === 0 && value >= baseNum;
+function validateTrigger(job: Pick<AutomationJob, "triggerType" | "eventType" | "eventFilters">): string | null {
+  if (job.triggerType !== "event") return null;
+  if (!job.eventType) return "Choose an event type to trigger the job";
+  return validateEventFilters(job.eventFilters);
+}
+
+function validateJobDefinition(job: { command?: string | null; steps?: AutomationWorkflowStep[] | null }): string | null {
+  if (job.steps && job.steps.length > 0) return validateWorkflow(job.steps);
+  if (!job.command?.trim()) return "Command is required";
+  return null;
+}
+
+async function getGatewaySSHConfig(instanceId: string | null): Promise<{ sshConfig: SSHConnectionConfig; label: string }> {
+  const instance = instanceId ? await storage.getInstance(instanceId) : await storage.getDefaultInstance();
+  if (!instance) throw new Error(instanceId ? `Instance ${instanceId} not found` : "No default instance");
+  const vps = await storage.getVpsConnection(instance.id);
+  if (!vps?.vpsIp) throw new Error(`No VPS connection configured for ${instance.name}`);
+  return { sshConfig: buildSSHConfigFromVps(vps), label: `${instance.name} (${vps.vpsIp})` };
+}
+
+async function resolveTargets(job: AutomationJob): Promise<JobTarget[]> {
+  switch (job.targetType) {
+    case "instance": {
+      if (!job.targetInstanceId) throw new Error("No target instance set");
+      const gateway = await getGatewaySSHConfig(job.targetInstanceId);
+      return [{ label: gateway.label, sshConfig: gateway.sshConfig }];
+    }
+    case "node": {
+      if (!job.targetNode) throw new Error("No target node set");
+      const gateway = await getGatewaySSHConfig(job.targetInstanceId);
+      return [{ label: `node ${job.targetNode}`, sshConfig: gateway.sshConfig, node: job.targetNode }];
     }
-    if (field.includes(",")) {
-      return field.split(",").some(f => parseInt(f, 10) === value);
+    case "group": {
+      if (!job.targetGroupId) throw new Error("No target machine group set");
+      const group = await storage.getMachineGroup(job.targetGroupId);
+      if (!group) throw new Error(`Machine group ${job.targetGroupId} not found`);
+      const members = (await storage.getMachines()).filter(m => group.machineIds.includes(m.id));
+      if (members.length === 0) throw new Error(`Machine group ${group.name} has no machines`);
+      const gateway = await getGatewaySSHConfig(job.targetInstanceId);
+      return members.map(m => ({ label: `node ${m.displayName || m.hostname || m.name}`, sshConfig: gateway.sshConfig, node: machineNodeId(m) }));
+    }
+    default: {
+      const sshConfig = getSSHConfig();
+      if (!sshConfig) throw new Error("SSH not configured");
+      return [{ label: "default VPS", sshConfig }];
+    }
+  }
+}
+
+function truncateOutput(output: string, maxChars: number, mode: string): { output: string; truncated: boolean } {
+  if (output.length <= maxChars) return { output, truncated: false };
+  const dropped = output.length - maxChars;
+  const marker = `\n...[${dropped} characters truncated]...\n`;
+  if (mode === "head") return { output: output.slice(0, maxChars) + marker, truncated: true };
+  if (mode === "both") {
+    const half = Math.floor(maxChars / 2);
+    return { output: output.slice(0, half) + marker + output.slice(output.length - (maxChars - half)), truncated: true };
+  }
+  return { output: marker + output.slice(output.length - maxChars), truncated: true };
+}
+
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    if (signal.aborted) return resolve();
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener("abort", () => {
+      clearTimeout(timer);
+      resolve();
+    }, { once: true });
+  });
+}
+
+function getJobTimeoutMs(job: AutomationJob, override?: number): number {
+  if (override) return override * 1000;
+  return job.timeoutSeconds ? job.timeoutSeconds * 1000 : DEFAULT_TIMEOUT_MS;
+}
+
+function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, "'\\''")}'`;
+}
+
+/**
+ * Exposes the triggering event to commands run over SSH as OPENCLAW_EVENT_TYPE and OPENCLAW_EVENT (JSON).
+ * Node targets may not run a POSIX shell, so they only get the event through workflow templates.
+ */
+function withEventEnv(command: string, target: JobTarget, context: RunContext): string {
+  if (!context.event || target.node) return command;
+  const { type, payload } = context.event;
+  return `export OPENCLAW_EVENT_TYPE=${shellQuote(type)} OPENCLAW_EVENT=${shellQuote(JSON.stringify(payload))}; ${command}`;
+}
+
+function runCommandOnTarget(target: JobTarget, command: string, node: string | undefined, timeoutMs: number, signal: AbortSignal): Promise<SSHResult> {
+  if (!node) return executeSSHRawCommand(command, target.sshConfig, 0, { signal, timeoutMs });
+  return executeSSHRawCommand(buildRunOnNodeCommand(node, command, timeoutMs), target.sshConfig, 0, {
+    signal,
+    timeoutMs: timeoutMs + NODE_SSH_HEADROOM_MS,
+  }).then(parseNodeRunResult);
+}
+
+/**
+ * Runs an attempt under the job's retry policy, doubling the backoff after each failure.
+ */
+async function runWithRetries(
+  job: AutomationJob,
+  label: string,
+  signal: AbortSignal,
+  attemptFn: () => Promise<SSHResult>,
+  onRetry?: (attempt: number) => Promise<void>,
+): Promise<{ status: string; result: SSHResult; attempt: number }> {
+  let status = "failed";
+  let result: SSHResult = { success: false, output: "" };
+  let attempt = 0;
+
+  while (attempt <= job.maxRetries) {
+    attempt++;
+    if (attempt > 1 && onRetry) await onRetry(attempt);
+
+    try {
+      result = await attemptFn();
+    } catch (error: any) {
+      result = { success: false, output: "", error: error.message || "Unknown error" };
     }
-    if (field.includes("-")) {
-      const [start, end] = field.split("-").map(Number);
-      return value >= start && value <= end;
+
+    status = signal.aborted ? "cancelled" : result.success ? "completed" : "failed";
+    if (status !== "failed" || attempt > job.maxRetries) break;
+
+    const backoffMs = job.retryBackoffSeconds * 1000 * Math.pow(2, attempt - 1);
+    console.log(`[Automation] ${job.name} on ${label} failed (attempt ${attempt}), retrying in ${backoffMs / 1000}s`);
+    await sleep(backoffMs, signal);
+    if (signal.aborted) {
+      status = "cancelled";
+      break;
     }
-    return parseInt(field, 10) === value;
   }
 
+  return { status, result, attempt };
+}
+
+async function runTarget(job: AutomationJob, target: JobTarget, runId: string, signal: AbortSignal, context: RunContext): Promise<TargetOutcome> {
+  const startedAt = Date.now();
+  const command = withEventEnv(job.command, target, context);
+  const { status, result, attempt } = await runWithRetries(
+    job,
+    target.label,
+    signal,
+    () => runCommandOnTarget(target, command, target.node, getJobTimeoutMs(job), signal),
+    attempt => storage.updateAutomationRun(runId, { status: "retrying", attempt }).then(() => {}),
+  );
+
+  const combined = [result.output, result.success ? undefined : result.error].filter(Boolean).join("\n") || "No output";
+  const { output, truncated } = truncateOutput(combined, job.maxOutputChars, job.outputTruncation);
+
+  await storage.updateAutomationRun(runId, {
+    status,
+    output,
+    outputTruncated: truncated,
+    exitCode: result.exitCode ?? null,
+    durationMs: Date.now() - startedAt,
+    attempt,
+    completedAt: new Date(),
+  });
+
+  return { label: target.label, status, exitCode: result.exitCode, output: combined };
+}
+
+async function runHttpStep(step: AutomationWorkflowStep, render: (template: string) => string, timeoutMs: number, signal: AbortSignal): Promise<SSHResult> {
+  const headers: Record<string, string> = {};
+  for (const [key, value] of Object.entries(step.headers || {})) {
+    headers[key] = render(value);
+  }
+  const response = await fetch(render(step.url || ""), {
+    method: (step.method || "GET").toUpperCase(),
+    headers,
+    body: step.body ? render(step.body) : undefined,
+    signal: AbortSignal.any([signal, AbortSignal.timeout(timeoutMs)]),
+  });
+  const text = (await response.text()).slice(0, MAX_HTTP_RESPONSE_CHARS);
   return {
-    matches(date: Date) {
-      return (
-        fieldMatches(minute, date.getMinutes(), 59) &&
-        fieldMatches(hour, date.getHours(), 23) &&
-        fieldMatches(dayOfMonth, date.getDate(), 31) &&
-        fieldMatches(month, date.getMonth() + 1, 12) &&
-        fieldMatches(dayOfWeek, date.getDay(), 6)
-      );
-    },
+    success: response.ok,
+    output: text,
+    error: response.ok ? undefined : `HTTP ${response.status} ${response.statusText}`,
+    exitCode: response.status,
   };
 }
 
-function getNextRun(schedule: string): Date {
-  const cron = parseCronSchedule(schedule);
-  const now = new Date();
-  const check = new Date(now);
-  check.setSeconds(0, 0);
-  check.setMinutes(check.getMinutes() + 1);
+async function executeWorkflowStep(
+  job: AutomationJob,
+  target: JobTarget,
+  step: AutomationWorkflowStep,
+  render: TemplateRenderer,
+  signal: AbortSignal,
+  context: RunContext,
+): Promise<StepExecution> {
+  const timeoutMs = getJobTimeoutMs(job, step.timeoutSeconds);
+  // Event, step output and variable values are quoted as single shell words, so none of them can inject commands.
+  const renderCommand = (template: string) => render(template, shellQuote);
 
-  for (let i = 0; i < 60 * 24 * 7; i++) {
-    if (cron.matches(check)) return new Date(check);
-    check.setMinutes(check.getMinutes() + 1);
-  }
+  const attemptFn = async (): Promise<SSHResult> => {
+    switch (step.type) {
+      case "ssh":
+        return runCommandOnTarget(target, withEventEnv(renderCommand(step.command || ""), target, context), target.node, timeoutMs, signal);
+      case "node":
+        return runCommandOnTarget(target, renderCommand(step.command || ""), render(step.node || ""), timeoutMs, signal);
+      case "http":
+        return runHttpStep(step, render, timeoutMs, signal);
+      case "llm": {
+        const { chat } = await import("./bot/openrouter");
+        const response = await chat(render(step.prompt || ""), "Automation", "automation");
+        return { success: true, output: response.text };
+      }
+      case "message": {
+        const text = render(step.text || "");
+        await sendToChannel(step.channel!, render(step.to || ""), `[OpenClaw] ${job.name}`, text);
+        return { success: true, output: `Sent via ${step.channel}` };
+      }
+      case "integration": {
+        const { sendViaIntegration } = await import("./integrations");
+        const output = await sendViaIntegration(step.integration!, {
+          title: `[OpenClaw] ${job.name}`,
+          text: render(step.text || ""),
+          to: render(step.to || "") || undefined,
+          event: "automation.message",
+        });
+        return { success: true, output };
+      }
+      default:
+        return { success: false, output: "", error: `Unknown step type "${step.type}"` };
+    }
+  };
 
-  const fallback = new Date(now);
-  fallback.setDate(fallback.getDate() + 1);
-  return fallback;
+  const { result, attempt } = await runWithRetries(job, `${target.label} step ${step.id}`, signal, attemptFn);
+  return { ...result, attempt };
 }
 
-async function executeJob(job: AutomationJob): Promise<void> {
-  const run = await storage.createAutomationRun({
-    jobId: job.id,
-    status: "running",
-    output: null,
+async function runWorkflowTarget(job: AutomationJob, target: JobTarget, runId: string, signal: AbortSignal, context: RunContext): Promise<TargetOutcome> {
+  const startedAt = Date.now();
+  const outcome = await runWorkflow(job.steps || [], (step, render) => executeWorkflowStep(job, target, step, render, signal, context), {
+    signal,
+    variables: { job: job.name, target: target.label, event: context.event },
+    truncate: text => truncateOutput(text, job.maxOutputChars, job.outputTruncation).output,
+    onUpdate: stepResults => storage.updateAutomationRun(runId, { stepResults }).then(() => {}),
   });
 
-  try {
-    const { executeSSHRawCommand, getSSHConfig } = await import("./ssh");
-    const sshConfig = getSSHConfig();
-
-    if (!sshConfig) {
-      await storage.updateAutomationRun(run.id, {
-        status: "failed",
-        output: "SSH not configured",
-        completedAt: new Date(),
-      });
+  const { output, truncated } = truncateOutput(outcome.output || "No output", job.maxOutputChars, job.outputTruncation);
+  await storage.updateAutomationRun(runId, {
+    status: outcome.status,
+    output,
+    outputTruncated: truncated,
+    exitCode: outcome.exitCode ?? null,
+    durationMs: Date.now() - startedAt,
+    stepResults: outcome.results,
+    completedAt: new Date(),
+  });
+
+  return { label: target.label, status: outcome.status, exitCode: outcome.exitCode, output: outcome.output };
+}
+
+function formatNotification(job: AutomationJob, kind: "failure" | "recovery", outcomes: TargetOutcome[]): { subject: string; body: string } {
+  if (kind === "recovery") {
+    return {
+      subject: `[OpenClaw] Automation job recovered: ${job.name}`,
+      body: `✅ Automation job "${job.name}" succeeded again on ${outcomes.map(o => o.label).join(", ")}.`,
+    };
+  }
+
+  const failed = outcomes.filter(o => o.status === "failed");
+  const lines = failed.map(o => {
+    const tail = o.output.length > 500 ? "..." + o.output.slice(-500) : o.output;
+    return `• ${o.label}${o.exitCode !== undefined ? ` (exit ${o.exitCode})` : ""}\n${tail}`;
+  });
+  return {
+    subject: `[OpenClaw] Automation job failed: ${job.name}`,
+    body: `❌ Automation job "${job.name}" failed on ${failed.length} of ${outcomes.length} target(s).\n\n${lines.join("\n\n")}`,
+  };
+}
+
+async function sendToChannel(channel: "whatsapp" | "telegram" | "email", to: string, subject: string, body: string): Promise<void> {
+  switch (channel) {
+    case "whatsapp": {
+      const { whatsappBot } = await import("./bot/whatsapp");
+      await whatsappBot.sendMessage(to.replace(/[^0-9]/g, "") + "@s.whatsapp.net", body);
       return;
     }
+    case "telegram": {
+      const { sendTelegramMessage } = await import("./bot/telegram");
+      await sendTelegramMessage(to, body);
+      return;
+    }
+    case "email": {
+      const { sendSendGridEmail } = await import("./connectors");
+      await sendSendGridEmail({ to, subject, text: body });
+      return;
+    }
+  }
+}
 
-    const result = await executeSSHRawCommand(job.command, sshConfig);
+async function notifyJobOutcome(job: AutomationJob, kind: "failure" | "recovery", outcomes: TargetOutcome[]): Promise<void> {
+  const targets = job.notifyTargets;
+  if (!targets) return;
+  const { subject, body } = formatNotification(job, kind, outcomes);
 
-    await storage.updateAutomationRun(run.id, {
-      status: result.success ? "completed" : "failed",
-      output: result.output || result.error || "No output",
-      completedAt: new Date(),
-    });
+  for (const channel of ["whatsapp", "telegram", "email"] as const) {
+    const to = targets[channel];
+    if (!to) continue;
+    try {
+      await sendToChannel(channel, to, subject, body);
+    } catch (err: any) {
+      console.error(`[Automation] ${channel} alert for ${job.name} failed:`, err.message);
+    }
+  }
+}
 
-    await storage.updateAutomationJob(job.id, {
-      lastRun: new Date(),
-      nextRun: getNextRun(job.schedule),
-    });
+/**
+ * Records the job's overall outcome and sends failure/recovery alerts on state changes.
+ * Cancelled runs leave the previous state alone.
+ */
+async function recordJobOutcome(job: AutomationJob, outcomes: TargetOutcome[]): Promise<void> {
+  if (outcomes.length === 0 || outcomes.every(o => o.status === "cancelled")) return;
+
+  const status = outcomes.some(o => o.status === "failed") ? "failed" : "completed";
+  const previousStatus = (await storage.getAutomationJob(job.id))?.lastStatus;
+  await storage.updateAutomationJob(job.id, { lastStatus: status });
+
+  const kind = status === "failed" ? "failure" : previousStatus === "failed" ? "recovery" : null;
+  if (!kind) return;
+  await notify({
+    category: "automation",
+    severity: kind === "failure" ? "warning" : "info",
+    title: kind === "failure" ? `Automation job failed: ${job.name}` : `Automation job recovered: ${job.name}`,
+    body: formatNotification(job, kind, outcomes).body,
+    source: "automation",
+    link: `/automation?job=${job.id}`,
+    dedupeKey: `automation:${job.id}:${kind}`,
+  }).catch(err => console.error(`[Automation] Notification for ${job.name} failed:`, err.message));
+  emitWebhookEventInBackground(kind === "failure" ? "job_failed" : "job_recovered", {
+    jobId: job.id,
+    jobName: job.name,
+    targets: outcomes.map(o => ({ label: o.label, status: o.status })),
+  });
+
+  if (kind === "failure" && job.notifyOnFailure) {
+    await notifyJobOutcome(job, "failure", outcomes);
+  } else if (kind === "recovery" && job.notifyOnRecovery) {
+    await notifyJobOutcome(job, "recovery", outcomes);
+  }
+}
+
+/**
+ * Runs one occurrence of a job against every target it resolves to, one automation_runs row per target.
+ * A queued placeholder row, if given, is reused for the first target.
+ */
+async function runJob(job: AutomationJob, signal: AbortSignal, context: RunContext, placeholderRunId?: string): Promise<void> {
+  const startedAt = new Date();
+  await storage.updateAutomationJob(job.id, { lastRun: startedAt });
+
+  let targets: JobTarget[];
+  try {
+    targets = await resolveTargets(job);
   } catch (error: any) {
-    await storage.updateAutomationRun(run.id, {
+    const runId = placeholderRunId ?? (await storage.createAutomationRun({
+      jobId: job.id,
+      status: "running",
+      output: null,
+      trigger: context.trigger,
+      event: context.event ?? null,
+    })).id;
+    const message = error.message || "Could not resolve job target";
+    await storage.updateAutomationRun(runId, {
       status: "failed",
-      output: error.message || "Unknown error",
+      output: message,
+      startedAt,
       completedAt: new Date(),
     });
+    await recordJobOutcome(job, [{ label: "target", status: "failed", output: message }]);
+    return;
+  }
+
+  const outcomes: TargetOutcome[] = [];
+  let next = 0;
+  const worker = async () => {
+    while (next < targets.length) {
+      const index = next++;
+      const target = targets[index];
+      let runId: string;
+      if (index === 0 && placeholderRunId) {
+        runId = placeholderRunId;
+        await storage.updateAutomationRun(runId, { status: "running", target: target.label, startedAt: new Date() });
+      } else {
+        runId = (await storage.createAutomationRun({
+          jobId: job.id,
+          target: target.label,
+          status: "running",
+          output: null,
+          trigger: context.trigger,
+          event: context.event ?? null,
+        })).id;
+      }
+      const run = job.steps && job.steps.length > 0 ? runWorkflowTarget : runTarget;
+      outcomes.push(await run(job, target, runId, signal, context));
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(MAX_PARALLEL_TARGETS, targets.length) }, worker));
+
+  await recordJobOutcome(job, outcomes);
+}
+
+async function drainJob(job: AutomationJob, entry: ActiveJob, context: RunContext): Promise<void> {
+  let current: AutomationJob | undefined = job;
+  let placeholderRunId: string | undefined;
+
+  while (current) {
+    await runJob(current, entry.controller.signal, context, placeholderRunId);
+
+    placeholderRunId = undefined;
+    while (!placeholderRunId && entry.queue.length > 0) {
+      const next = entry.queue.shift()!;
+      context = next.context;
+      placeholderRunId = await next.runId.catch(() => undefined);
+    }
+    if (!placeholderRunId) break;
+    entry.controller = new AbortController();
+    current = await storage.getAutomationJob(job.id);
+  }
+}
+
+async function handleOverlap(job: AutomationJob, active: ActiveJob, context: RunContext): Promise<void> {
+  if (job.concurrencyPolicy === "cancel") {
+    console.log(`[Automation] Cancelling running instance of ${job.name}`);
+    active.controller.abort();
+    await active.done.catch(() => {});
+    return executeJob(job, context);
+  }
+
+  if (job.concurrencyPolicy === "queue" && active.queue.length < MAX_QUEUED_RUNS) {
+    active.queue.push({
+      runId: storage.createAutomationRun({
+        jobId: job.id,
+        status: "queued",
+        output: null,
+        trigger: context.trigger,
+        event: context.event ?? null,
+      }).then(run => run.id),
+      context,
+    });
+    return;
   }
+
+  const reason = job.concurrencyPolicy === "queue"
+    ? `Skipped: ${MAX_QUEUED_RUNS} runs already queued`
+    : "Skipped: previous run still in progress";
+  const run = await storage.createAutomationRun({
+    jobId: job.id,
+    status: "skipped",
+    output: reason,
+    trigger: context.trigger,
+    event: context.event ?? null,
+  });
+  await storage.updateAutomationRun(run.id, { completedAt: new Date() });
 }
 
+/**
+ * Runs a job now, applying its concurrency policy if a previous run is still in progress.
+ * Resolves once this run (and anything queued behind it) has finished.
+ */
+function executeJob(job: AutomationJob, context: RunContext = { trigger: "schedule" }): Promise<void> {
+  const active = activeJobs.get(job.id);
+  if (active) return handleOverlap(job, active, context);
+
+  const entry: ActiveJob = { controller: new AbortController(), queue: [], done: Promise.resolve() };
+  activeJobs.set(job.id, entry);
+  entry.done = drainJob(job, entry, context).finally(() => activeJobs.delete(job.id));
+  return entry.done;
+}
+
+async function checkJob(job: AutomationJob, now: Date): Promise<void> {
+  const timeZone = getJobTimeZone(job);
+  const cron = parseCron(job.schedule);
+
+  if (!job.nextRun) {
+    await storage.updateAutomationJob(job.id, { nextRun: getNextCronDate(cron, timeZone, now) });
+    return;
+  }
+
+  const scheduledAt = new Date(job.nextRun);
+  if (scheduledAt > now) return;
+
+  let due = getCronDatesBetween(cron, timeZone, scheduledAt, now, MAX_CATCH_UP_RUNS);
+  if (due.length === 0) due = [scheduledAt];
+  const missed = due.filter(d => now.getTime() - d.getTime() > MISSED_GRACE_MS);
+
+  let runCount: number;
+  if (job.catchUpPolicy === "all") {
+    runCount = due.length;
+  } else if (job.catchUpPolicy === "latest") {
+    runCount = 1;
+  } else {
+    runCount = due.length > missed.length ? 1 : 0;
+  }
+
+  if (missed.length > 0) {
+    console.log(`[Automation] ${job.name}: ${missed.length} missed run(s), catch-up policy "${job.catchUpPolicy}" -> running ${runCount}`);
+  }
+
+  // Advance before dispatching so a slow run can never be picked up twice.
+  await storage.updateAutomationJob(job.id, { nextRun: getNextCronDate(cron, timeZone, now) });
+
+  if (runCount === 0) return;
+  console.log(`[Automation] Running job: ${job.name}`);
+  (async () => {
+    for (let i = 0; i < runCount; i++) {
+      await executeJob(job);
+    }
+  })().catch(err => console.error(`[Automation] Job ${job.name} failed:`, err.message));
+}
+
+// While maintenance is on nothing is started; missed runs follow each job's catch-up policy once it ends.
 async function checkSchedules(): Promise<void> {
   try {
+    if (await isMaintenanceActive()) return;
     const jobs = await storage.getAutomationJobs();
     const now = new Date();
 
     for (const job of jobs) {
-      if (!job.enabled) continue;
-
-      const cron = parseCronSchedule(job.schedule);
-      const checkTime = new Date(now);
-      checkTime.setSeconds(0, 0);
-
-      if (cron.matches(checkTime)) {
-        if (job.lastRun) {
-          const timeSinceLastRun = now.getTime() - new Date(job.lastRun).getTime();
-          if (timeSinceLastRun < 55000) continue;
-        }
-        console.log(`[Automation] Running job: ${job.name}`);
-        executeJob(job).catch(err =>
-          console.error(`[Automation] Job ${job.name} failed:`, err.message)
-        );
+      if (!job.enabled || job.triggerType === "event") continue;
+      try {
+        await checkJob(job, now);
+      } catch (err: any) {
+        console.error(`[Automation] Schedule check for ${job.name} failed:`, err.message);
       }
     }
   } catch (err: any) {
@@ -133,10 +621,39 @@ async function checkSchedules(): Promise<void> {
 }
 checkSchedules._errLogged = false;
 
+/**
+ * Starts every enabled event-triggered job that subscribes to the event and whose filters match,
+ * unless it already fired within its cooldown. Overlaps are handled by the job's concurrency policy.
+ */
+async function handleEvent(event: AutomationEvent): Promise<void> {
+  if (await isMaintenanceActive()) return;
+  const jobs = await storage.getAutomationJobs();
+  for (const job of jobs) {
+    if (!job.enabled || job.triggerType !== "event" || job.eventType !== event.type) continue;
+    if (!matchesEventFilters(job.eventFilters, event.payload)) continue;
+
+    const lastRun = lastEventRuns.get(job.id);
+    if (lastRun && Date.now() - lastRun < job.eventCooldownSeconds * 1000) {
+      console.log(`[Automation] ${job.name}: ignoring ${event.type}, still in cooldown`);
+      continue;
+    }
+    lastEventRuns.set(job.id, Date.now());
+
+    console.log(`[Automation] Running job ${job.name} for event ${event.type}`);
+    executeJob(job, { trigger: `event:${event.type}`, event })
+      .catch(err => console.error(`[Automation] Job ${job.name} failed:`, err.message));
+  }
+}
+
+function onEvent(event: AutomationEvent): void {
+  handleEvent(event).catch(err => console.error(`[Automation] Event dispatch for ${event.type} failed:`, err.message));
+}
+
 export function startAutomationScheduler(): void {
   if (schedulerInterval) return;
-  console.log("[Automation] Scheduler started (checking every 60s)");
-  schedulerInterval = setInterval(checkSchedules, 60000);
+  eventBus.on("event", onEvent);
+  console.log(`[Automation] Scheduler started (checking every ${CHECK_INTERVAL_MS / 1000}s)`);
+  schedulerInterval = setInterval(checkSchedules, CHECK_INTERVAL_MS);
   setTimeout(checkSchedules, 5000);
 }
 
@@ -144,8 +661,9 @@ export function stopAutomationScheduler(): void {
   if (schedulerInterval) {
     clearInterval(schedulerInterval);
     schedulerInterval = null;
+    eventBus.off("event", onEvent);
     console.log("[Automation] Scheduler stopped");
   }
 }
 
-export { executeJob, getNextRun };
+export { executeJob, getNextRun, validateSchedule, validateTarget, validateTrigger, validateJobDefinition };
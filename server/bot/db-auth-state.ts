@@ -4,12 +4,13 @@ import type { AuthenticationCreds, AuthenticationState, SignalDataTypeMap } from
 import { db } from "../db";
 import { waAuthState } from "@shared/schema";
 import { eq } from "drizzle-orm";
+import { decryptSecret, encryptSecret } from "../encryption";
 
 async function dbGet(key: string): Promise<any | null> {
   try {
     const rows = await db.select().from(waAuthState).where(eq(waAuthState.key, key));
     if (rows.length === 0) return null;
-    return JSON.parse(rows[0].value, BufferJSON.reviver);
+    return JSON.parse(decryptSecret(rows[0].value), BufferJSON.reviver);
   } catch (err) {
     console.error(`[WhatsApp Auth] Failed to read key "${key}":`, err);
     return null;
@@ -18,7 +19,7 @@ async function dbGet(key: string): Promise<any | null> {
 
 async function dbSet(key: string, value: any): Promise<void> {
   try {
-    const serialized = JSON.stringify(value, BufferJSON.replacer);
+    const serialized = encryptSecret(JSON.stringify(value, BufferJSON.replacer));
     await db
       .insert(waAuthState)
       .values({ key, value: serialized, updatedAt: new Date() })
@@ -2,14 +2,9 @@ import { Client } from "ssh2";
 import * as https from "https";
 import * as tls from "tls";
 import * as net from "net";
+import { createHostVerifier, getSSHConfig, type SSHConnectionConfig } from "../ssh";
 
-interface TunnelConfig {
-  host: string;
-  port: number;
-  username: string;
-  password?: string;
-  privateKey?: string;
-}
+type TunnelConfig = SSHConnectionConfig;
 
 export class SSHTunnelAgent extends https.Agent {
   private sshClient: Client | null = null;
@@ -69,6 +64,7 @@ export class SSHTunnelAgent extends https.Agent {
         host: this.tunnelConfig.host,
         port: this.tunnelConfig.port,
         username: this.tunnelConfig.username,
+        hostVerifier: createHostVerifier(this.tunnelConfig),
         readyTimeout: 30000,
         keepaliveInterval: 15000,
       };
@@ -154,18 +150,13 @@ export class SSHTunnelAgent extends https.Agent {
 }
 
 export async function createWhatsAppTunnelAgent(): Promise<SSHTunnelAgent | null> {
-  const password = process.env.VPS_ROOT_PASSWORD;
-  if (!password) {
-    console.log("[SSH-Tunnel] No VPS_ROOT_PASSWORD set, WhatsApp will connect directly");
+  const sshConfig = getSSHConfig();
+  if (!sshConfig || (!sshConfig.password && !sshConfig.privateKey)) {
+    console.log("[SSH-Tunnel] No VPS SSH credentials configured, WhatsApp will connect directly");
     return null;
   }
 
-  const agent = new SSHTunnelAgent({
-    host: "72.60.167.64",
-    port: 22,
-    username: "root",
-    password,
-  });
+  const agent = new SSHTunnelAgent(sshConfig);
 
   try {
     await agent.waitReady();
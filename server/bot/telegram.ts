@@ -1,5 +1,6 @@
 import { chat, generateImage } from "./openrouter";
 import { storage } from "../storage";
+import { getMaintenanceState } from "../maintenance";
 
 const TELEGRAM_BOT_TOKEN = process.env.TELEGRAM_BOT_TOKEN || "";
 const TELEGRAM_API = "https://api.telegram.org/bot";
@@ -50,7 +51,7 @@ async function telegramRequest(method: string, body?: any): Promise<any> {
   return data.result;
 }
 
-async function sendMessage(chatId: number, text: string): Promise<void> {
+async function sendMessage(chatId: number | string, text: string): Promise<void> {
   const maxLen = 4096;
   const chunks: string[] = [];
   let remaining = text;
@@ -120,6 +121,12 @@ async function handleMessage(update: TelegramUpdate): Promise<void> {
   console.log(`[Telegram] Message from ${senderName} (@${username}): "${text.substring(0, 80)}"`);
   messageCount++;
 
+  const maintenance = await getMaintenanceState().catch(() => null);
+  if (maintenance?.active) {
+    await sendMessage(chatId, maintenance.message);
+    return;
+  }
+
   try {
     await telegramRequest("sendChatAction", { chat_id: chatId, action: "typing" });
   } catch {}
@@ -232,6 +239,11 @@ export async function startTelegramBot(): Promise<void> {
   }
 }
 
+export async function sendTelegramMessage(chatId: number | string, text: string): Promise<void> {
+  if (!TELEGRAM_BOT_TOKEN) throw new Error("TELEGRAM_BOT_TOKEN not set");
+  await sendMessage(chatId, text);
+}
+
 export function stopTelegramBot(): void {
   pollingActive = false;
   if (pollingTimer) {
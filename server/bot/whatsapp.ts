@@ -7,6 +7,7 @@ import { Boom } from "@hapi/boom";
 import * as QRCode from "qrcode";
 import { randomBytes } from "crypto";
 import { storage } from "../storage";
+import { getMaintenanceState } from "../maintenance";
 import { chat, generateImage } from "./openrouter";
 import { EventEmitter } from "events";
 import { useDbAuthState, hasDbAuthState, clearAllDbAuthState } from "./db-auth-state";
@@ -581,6 +582,13 @@ class WhatsAppBot extends EventEmitter {
       if (session.status === "approved") {
         await storage.updateWhatsappSessionLastMessage(phone);
 
+        const maintenance = await getMaintenanceState().catch(() => null);
+        if (maintenance?.active) {
+          console.log(`[WhatsApp] Maintenance mode, not processing message from ${phone}`);
+          await this.sendMessage(jid, maintenance.message);
+          return;
+        }
+
         console.log(`[WhatsApp] Processing AI response for approved user ${phone}...`);
         await this.sendTyping(jid);
 
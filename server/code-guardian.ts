@@ -1,5 +1,7 @@
 import { storage } from "./storage";
 import { executeRawSSHCommand, buildSSHConfigFromVps, type SSHConnectionConfig } from "./ssh";
+import { eventBus } from "./event-bus";
+import { isMaintenanceActive } from "./maintenance";
 import type { InsertGuardianLog } from "@shared/schema";
 
 async function getSSHConfig(): Promise<SSHConnectionConfig> {
@@ -12,7 +14,17 @@ async function getSSHConfig(): Promise<SSHConnectionConfig> {
 }
 
 async function logCheck(data: InsertGuardianLog) {
-  return storage.createGuardianLog(data);
+  const log = await storage.createGuardianLog(data);
+  eventBus.publish("guardian.log", "code-guardian", {
+    id: log.id,
+    type: log.type,
+    severity: log.severity,
+    message: log.message,
+    details: log.details,
+    status: log.status,
+    source: log.source,
+  });
+  return log;
 }
 
 let homeBotStatusRef: (() => { state: string; phone: string | null; error: string | null; hostname: string | null; lastReport: Date | null }) | null = null;
@@ -27,6 +39,7 @@ function startAutoScan(intervalMs = 15 * 60 * 1000) {
   if (autoScanInterval) clearInterval(autoScanInterval);
   autoScanInterval = setInterval(async () => {
     try {
+      if (await isMaintenanceActive()) return;
       await scanSystem();
     } catch (err) {
       console.error("[Guardian] Auto-scan error:", err);
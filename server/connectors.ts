@@ -134,6 +134,30 @@ export async function getSendGridCredentials(): Promise<{
   };
 }
 
+export async function sendSendGridEmail(message: {
+  to: string;
+  subject: string;
+  text?: string;
+  html?: string;
+}): Promise<void> {
+  const { apiKey, fromEmail } = await getSendGridCredentials();
+  const response = await fetch("https://api.sendgrid.com/v3/mail/send", {
+    method: "POST",
+    headers: { Authorization: `Bearer ${apiKey}`, "Content-Type": "application/json" },
+    body: JSON.stringify({
+      personalizations: [{ to: [{ email: message.to }] }],
+      from: { email: fromEmail },
+      subject: message.subject,
+      content: [{ type: message.html ? "text/html" : "text/plain", value: message.html || message.text || "" }],
+    }),
+  });
+  if (!response.ok && response.status !== 202) {
+    const err = new Error(await response.text()) as Error & { status?: number };
+    err.status = response.status;
+    throw err;
+  }
+}
+
 export async function checkConnectorStatus(
   connectorName: string
 ): Promise<{ connected: boolean; error?: string }> {
@@ -0,0 +1,242 @@
+export interface CronExpression {
+  source: string;
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  domRestricted: boolean;
+  dowRestricted: boolean;
+}
+
+interface ZonedParts {
+  month: number;
+  day: number;
+  weekday: number;
+  hour: number;
+  minute: number;
+}
+
+const MACROS: Record<string, string> = {
+  "@yearly": "0 0 1 1 *",
+  "@annually": "0 0 1 1 *",
+  "@monthly": "0 0 1 * *",
+  "@weekly": "0 0 * * 0",
+  "@daily": "0 0 * * *",
+  "@midnight": "0 0 * * *",
+  "@hourly": "0 * * * *",
+};
+
+const MONTH_NAMES = ["JAN", "FEB", "MAR", "APR", "MAY", "JUN", "JUL", "AUG", "SEP", "OCT", "NOV", "DEC"];
+const WEEKDAY_NAMES = ["SUN", "MON", "TUE", "WED", "THU", "FRI", "SAT"];
+
+const FIELDS: { name: string; min: number; max: number; names?: string[]; namesOffset?: number }[] = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day of month", min: 1, max: 31 },
+  { name: "month", min: 1, max: 12, names: MONTH_NAMES, namesOffset: 1 },
+  { name: "day of week", min: 0, max: 7, names: WEEKDAY_NAMES, namesOffset: 0 },
+];
+
+// Five years covers every satisfiable expression, including Feb 29 schedules.
+const SEARCH_HORIZON_MS = 5 * 366 * 24 * 60 * 60 * 1000;
+const MINUTE_MS = 60 * 1000;
+
+export function getServerTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function parseValue(raw: string, field: typeof FIELDS[number]): number {
+  const upper = raw.toUpperCase();
+  if (field.names) {
+    const idx = field.names.indexOf(upper);
+    if (idx !== -1) return idx + (field.namesOffset || 0);
+  }
+  if (!/^\d+$/.test(raw)) {
+    throw new Error(`Invalid ${field.name} value "${raw}"`);
+  }
+  const value = parseInt(raw, 10);
+  if (value < field.min || value > field.max) {
+    throw new Error(`${field.name} value ${value} out of range ${field.min}-${field.max}`);
+  }
+  return value;
+}
+
+function parseField(raw: string, field: typeof FIELDS[number]): Set<number> {
+  const values = new Set<number>();
+
+  for (const item of raw.split(",")) {
+    if (!item) throw new Error(`Empty list item in ${field.name} field "${raw}"`);
+
+    const [rangePart, stepPart, extra] = item.split("/");
+    if (extra !== undefined) throw new Error(`Invalid step in ${field.name} field "${item}"`);
+
+    let step = 1;
+    if (stepPart !== undefined) {
+      if (!/^\d+$/.test(stepPart) || parseInt(stepPart, 10) <= 0) {
+        throw new Error(`Invalid step "${stepPart}" in ${field.name} field`);
+      }
+      step = parseInt(stepPart, 10);
+    }
+
+    let start: number;
+    let end: number;
+    if (rangePart === "*") {
+      start = field.min;
+      end = field.max;
+    } else if (rangePart.includes("-")) {
+      const [from, to] = rangePart.split("-");
+      start = parseValue(from, field);
+      end = parseValue(to, field);
+      if (start > end) throw new Error(`Invalid ${field.name} range "${rangePart}"`);
+    } else {
+      start = parseValue(rangePart, field);
+      end = stepPart !== undefined ? field.max : start;
+    }
+
+    for (let v = start; v <= end; v += step) {
+      values.add(v);
+    }
+  }
+
+  return values;
+}
+
+export function parseCron(schedule: string): CronExpression {
+  const trimmed = schedule.trim();
+  const lower = trimmed.toLowerCase();
+  if (lower === "@reboot") {
+    throw new Error("@reboot is not supported");
+  }
+  const expanded = MACROS[lower] || trimmed;
+
+  const parts = expanded.split(/\s+/);
+  if (parts.length !== 5) {
+    throw new Error(`Expected 5 cron fields, got ${parts.length}`);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map((part, i) => parseField(part, FIELDS[i]));
+  if (daysOfWeek.has(7)) {
+    daysOfWeek.delete(7);
+    daysOfWeek.add(0);
+  }
+
+  return {
+    source: trimmed,
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    domRestricted: !parts[2].startsWith("*"),
+    dowRestricted: !parts[4].startsWith("*"),
+  };
+}
+
+export function validateCron(schedule: string): string | null {
+  try {
+    parseCron(schedule);
+    return null;
+  } catch (err: any) {
+    return err.message;
+  }
+}
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+function getZonedParts(date: Date, timeZone: string): ZonedParts {
+  let formatter = formatterCache.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      month: "numeric",
+      day: "numeric",
+      weekday: "short",
+      hour: "numeric",
+      minute: "numeric",
+    });
+    formatterCache.set(timeZone, formatter);
+  }
+
+  const parts: Record<string, string> = {};
+  for (const part of formatter.formatToParts(date)) {
+    parts[part.type] = part.value;
+  }
+
+  return {
+    month: parseInt(parts.month, 10),
+    day: parseInt(parts.day, 10),
+    weekday: WEEKDAY_NAMES.indexOf(parts.weekday.toUpperCase().slice(0, 3)),
+    hour: parseInt(parts.hour, 10) % 24,
+    minute: parseInt(parts.minute, 10),
+  };
+}
+
+function dayMatches(expr: CronExpression, parts: ZonedParts): boolean {
+  const domMatch = expr.daysOfMonth.has(parts.day);
+  const dowMatch = expr.daysOfWeek.has(parts.weekday);
+  // Standard cron semantics: when both day fields are restricted, either one may match.
+  if (expr.domRestricted && expr.dowRestricted) return domMatch || dowMatch;
+  return domMatch && dowMatch;
+}
+
+/**
+ * Returns the first time strictly after `after` at which the expression fires
+ * in the given IANA time zone, or null if it never fires within the search horizon.
+ * Wall-clock times skipped by a DST jump are skipped; repeated ones fire once.
+ */
+export function getNextCronDate(expr: CronExpression, timeZone: string, after: Date): Date | null {
+  let candidate = Math.floor(after.getTime() / MINUTE_MS) * MINUTE_MS + MINUTE_MS;
+  const limit = after.getTime() + SEARCH_HORIZON_MS;
+
+  while (candidate <= limit) {
+    const parts = getZonedParts(new Date(candidate), timeZone);
+
+    if (!expr.months.has(parts.month) || !dayMatches(expr, parts) || !expr.hours.has(parts.hour)) {
+      candidate += (60 - parts.minute) * MINUTE_MS;
+      continue;
+    }
+
+    if (!expr.minutes.has(parts.minute)) {
+      let nextMinute = -1;
+      expr.minutes.forEach(m => {
+        if (m > parts.minute && (nextMinute === -1 || m < nextMinute)) nextMinute = m;
+      });
+      candidate += (nextMinute === -1 ? 60 - parts.minute : nextMinute - parts.minute) * MINUTE_MS;
+      continue;
+    }
+
+    // On a DST fall-back the same wall-clock minute occurs twice; only the first one fires.
+    const hourEarlier = getZonedParts(new Date(candidate - 60 * MINUTE_MS), timeZone);
+    if (hourEarlier.day === parts.day && hourEarlier.hour === parts.hour && hourEarlier.minute === parts.minute) {
+      candidate += MINUTE_MS;
+      continue;
+    }
+
+    return new Date(candidate);
+  }
+
+  return null;
+}
+
+export function getCronDatesBetween(expr: CronExpression, timeZone: string, from: Date, to: Date, limit: number): Date[] {
+  const dates: Date[] = [];
+  let cursor = new Date(from.getTime() - 1);
+  while (dates.length < limit) {
+    const next = getNextCronDate(expr, timeZone, cursor);
+    if (!next || next.getTime() > to.getTime()) break;
+    dates.push(next);
+    cursor = next;
+  }
+  return dates;
+}
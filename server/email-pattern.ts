@@ -0,0 +1,279 @@
+/**
+ * Gmail-style search patterns for email workflows, evaluated locally so Gmail and IMAP
+ * mailboxes behave the same. Supports from:, to:, cc:, subject:, label:, filename:,
+ * has:attachment, is:unread|read|starred, quoted phrases, parentheses, OR, AND and
+ * "-" negation. As in Gmail, OR binds tighter than the implicit AND between terms.
+ * Terms match case-insensitively as substrings.
+ */
+
+export interface EmailMatchFields {
+  from: string;
+  to: string;
+  cc: string;
+  subject: string;
+  body: string;
+  labels: string[];
+  attachmentNames: string[];
+  unread: boolean;
+  starred: boolean;
+}
+
+export type PatternField = "from" | "to" | "cc" | "subject" | "label" | "filename";
+
+export type PatternNode =
+  | { kind: "term"; field: PatternField | null; value: string; start: number; end: number }
+  | { kind: "flag"; operator: "has" | "is"; value: string; start: number; end: number }
+  | { kind: "and" | "or"; children: PatternNode[]; start: number; end: number }
+  | { kind: "not"; child: PatternNode; start: number; end: number };
+
+interface Token {
+  type: "word" | "phrase" | "field" | "lparen" | "rparen" | "or" | "and" | "not";
+  value: string;
+  field?: string;
+  start: number;
+  end: number;
+}
+
+const FIELDS: PatternField[] = ["from", "to", "cc", "subject", "label", "filename"];
+const FLAGS: Record<string, string[]> = {
+  has: ["attachment"],
+  is: ["unread", "read", "starred"],
+};
+
+function tokenize(pattern: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < pattern.length) {
+    const ch = pattern[i];
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+    if (ch === "(" || ch === ")") {
+      tokens.push({ type: ch === "(" ? "lparen" : "rparen", value: ch, start: i, end: i + 1 });
+      i++;
+      continue;
+    }
+    if (ch === "-" && i + 1 < pattern.length && !/[\s)]/.test(pattern[i + 1])) {
+      tokens.push({ type: "not", value: ch, start: i, end: i + 1 });
+      i++;
+      continue;
+    }
+    if (ch === '"') {
+      const close = pattern.indexOf('"', i + 1);
+      if (close === -1) throw new Error(`Unterminated quote at position ${i + 1}`);
+      tokens.push({ type: "phrase", value: pattern.slice(i + 1, close), start: i, end: close + 1 });
+      i = close + 1;
+      continue;
+    }
+
+    const start = i;
+    while (i < pattern.length && !/[\s()"]/.test(pattern[i])) i++;
+    const word = pattern.slice(start, i);
+    const colon = word.indexOf(":");
+    const operator = colon > 0 ? word.slice(0, colon).toLowerCase() : "";
+    if (word === "OR" || word === "|") {
+      tokens.push({ type: "or", value: word, start, end: i });
+    } else if (word === "AND") {
+      tokens.push({ type: "and", value: word, start, end: i });
+    } else if (operator && (FIELDS.includes(operator as PatternField) || operator in FLAGS)) {
+      tokens.push({ type: "field", field: operator, value: word.slice(colon + 1), start, end: i });
+    } else {
+      tokens.push({ type: "word", value: word, start, end: i });
+    }
+  }
+  return tokens;
+}
+
+class PatternParser {
+  private pos = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  parse(): PatternNode {
+    const node = this.parseAnd(null);
+    const extra = this.tokens[this.pos];
+    if (extra) throw new Error(`Unexpected "${extra.value}" at position ${extra.start + 1}`);
+    return node;
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.pos];
+  }
+
+  private parseAnd(field: PatternField | null): PatternNode {
+    const children: PatternNode[] = [];
+    while (this.peek() && this.peek()!.type !== "rparen") {
+      if (this.peek()!.type === "and") {
+        this.pos++;
+        continue;
+      }
+      children.push(this.parseOr(field));
+    }
+    if (children.length === 0) {
+      const token = this.peek();
+      throw new Error(token ? `Unexpected "${token.value}" at position ${token.start + 1}` : "Pattern is empty");
+    }
+    if (children.length === 1) return children[0];
+    return { kind: "and", children, start: children[0].start, end: children[children.length - 1].end };
+  }
+
+  private parseOr(field: PatternField | null): PatternNode {
+    const children = [this.parseUnary(field)];
+    while (this.peek()?.type === "or") {
+      const or = this.tokens[this.pos++];
+      const next = this.peek();
+      if (!next || next.type === "rparen" || next.type === "or" || next.type === "and") {
+        throw new Error(`"${or.value}" at position ${or.start + 1} needs a term on both sides`);
+      }
+      children.push(this.parseUnary(field));
+    }
+    if (children.length === 1) return children[0];
+    return { kind: "or", children, start: children[0].start, end: children[children.length - 1].end };
+  }
+
+  private parseUnary(field: PatternField | null): PatternNode {
+    const token = this.peek();
+    if (token?.type === "not") {
+      this.pos++;
+      if (!this.peek()) throw new Error(`"-" at position ${token.start + 1} needs a term`);
+      const child = this.parseUnary(field);
+      return { kind: "not", child, start: token.start, end: child.end };
+    }
+    return this.parsePrimary(field);
+  }
+
+  private parseGroup(field: PatternField | null, open: Token): PatternNode {
+    this.pos++;
+    if (!this.peek() || this.peek()!.type === "rparen") throw new Error(`Empty group at position ${open.start + 1}`);
+    const inner = this.parseAnd(field);
+    const close = this.peek();
+    if (close?.type !== "rparen") throw new Error(`Unclosed "(" at position ${open.start + 1}`);
+    this.pos++;
+    return { ...inner, start: open.start, end: close.end } as PatternNode;
+  }
+
+  private parsePrimary(field: PatternField | null): PatternNode {
+    const token = this.peek();
+    if (!token) throw new Error("Pattern ends unexpectedly");
+
+    switch (token.type) {
+      case "lparen":
+        return this.parseGroup(field, token);
+      case "rparen":
+        throw new Error(`Unexpected ")" at position ${token.start + 1}`);
+      case "or":
+        throw new Error(`"${token.value}" at position ${token.start + 1} needs a term on both sides`);
+      case "word":
+      case "phrase":
+        this.pos++;
+        return { kind: "term", field, value: token.value, start: token.start, end: token.end };
+      case "field": {
+        this.pos++;
+        const operator = token.field!;
+        if (operator in FLAGS) {
+          const value = token.value.toLowerCase();
+          if (!FLAGS[operator].includes(value)) {
+            throw new Error(`Unsupported operator "${operator}:${token.value}" at position ${token.start + 1}`);
+          }
+          return { kind: "flag", operator: operator as "has" | "is", value, start: token.start, end: token.end };
+        }
+        if (token.value) {
+          return { kind: "term", field: operator as PatternField, value: token.value, start: token.start, end: token.end };
+        }
+        const next = this.peek();
+        if (next?.type === "lparen") {
+          const group = this.parseGroup(operator as PatternField, next);
+          return { ...group, start: token.start } as PatternNode;
+        }
+        if (next?.type === "phrase") {
+          this.pos++;
+          return { kind: "term", field: operator as PatternField, value: next.value, start: token.start, end: next.end };
+        }
+        throw new Error(`"${operator}:" at position ${token.start + 1} needs a value`);
+      }
+      default:
+        throw new Error(`Unexpected "${token.value}" at position ${token.start + 1}`);
+    }
+  }
+}
+
+export function parseEmailPattern(pattern: string): PatternNode {
+  return new PatternParser(tokenize(pattern)).parse();
+}
+
+export function validateEmailPattern(pattern: string): string | null {
+  try {
+    parseEmailPattern(pattern);
+    return null;
+  } catch (err: any) {
+    return `Invalid trigger pattern: ${err.message}`;
+  }
+}
+
+function fieldText(fields: EmailMatchFields, field: PatternField | null): string {
+  switch (field) {
+    case "from":
+      return fields.from;
+    case "to":
+      return `${fields.to}\n${fields.cc}`;
+    case "cc":
+      return fields.cc;
+    case "subject":
+      return fields.subject;
+    case "label":
+      return fields.labels.join("\n");
+    case "filename":
+      return fields.attachmentNames.join("\n");
+    default:
+      return [fields.from, fields.to, fields.cc, fields.subject, fields.body].join("\n");
+  }
+}
+
+function matchFlag(node: Extract<PatternNode, { kind: "flag" }>, fields: EmailMatchFields): boolean {
+  if (node.operator === "has") return fields.attachmentNames.length > 0;
+  if (node.value === "unread") return fields.unread;
+  if (node.value === "read") return !fields.unread;
+  return fields.starred;
+}
+
+export function matchesEmailPattern(node: PatternNode, fields: EmailMatchFields): boolean {
+  switch (node.kind) {
+    case "term":
+      return fieldText(fields, node.field).toLowerCase().includes(node.value.toLowerCase());
+    case "flag":
+      return matchFlag(node, fields);
+    case "and":
+      return node.children.every(child => matchesEmailPattern(child, fields));
+    case "or":
+      return node.children.some(child => matchesEmailPattern(child, fields));
+    case "not":
+      return !matchesEmailPattern(node.child, fields);
+  }
+}
+
+export interface PatternHighlight {
+  start: number;
+  end: number;
+  found: boolean;
+  satisfied: boolean;
+}
+
+/**
+ * Lists every term and operator in the pattern with whether it was found in the message and whether,
+ * after any "-" negation, it counts in the message's favour. Used to highlight patterns in the test panel.
+ */
+export function explainEmailPattern(node: PatternNode, fields: EmailMatchFields, negated = false): PatternHighlight[] {
+  switch (node.kind) {
+    case "term":
+    case "flag": {
+      const found = matchesEmailPattern(node, fields);
+      return [{ start: node.start, end: node.end, found, satisfied: negated ? !found : found }];
+    }
+    case "and":
+    case "or":
+      return node.children.flatMap(child => explainEmailPattern(child, fields, negated));
+    case "not":
+      return explainEmailPattern(node.child, fields, !negated);
+  }
+}
@@ -0,0 +1,660 @@
+import { storage } from "./storage";
+import { parseEmailPattern, matchesEmailPattern, explainEmailPattern, type EmailMatchFields, type PatternNode, type PatternHighlight } from "./email-pattern";
+import type { EmailWorkflow } from "@shared/schema";
+import type { ParsedMail } from "mailparser";
+
+export interface EmailMessage extends EmailMatchFields {
+  mailbox: "gmail" | "imap" | "sample";
+  id: string;
+  threadId?: string;
+  rfcMessageId?: string;
+  replyTo: string;
+  date: Date;
+  snippet: string;
+  uid?: number;
+}
+
+interface Mailbox {
+  name: "gmail" | "imap";
+  fetchMessages(options: { limit: number }): Promise<EmailMessage[]>;
+  // The oldest `limit` messages received at or after `since`, oldest first, dated by when the mailbox received them.
+  fetchMessagesSince(since: Date, limit: number): Promise<EmailMessage[]>;
+  fetchMessage(id: string): Promise<EmailMessage | undefined>;
+  addLabel(message: EmailMessage, label: string): Promise<void>;
+  createDraftReply(message: EmailMessage, body: string): Promise<void>;
+  send(to: string, subject: string, body: string): Promise<void>;
+  close(): Promise<void>;
+}
+
+interface EmailActionConfig {
+  to?: string;
+  forwardTo?: string;
+  label?: string;
+  priority?: string;
+  messageTemplate?: string;
+  todoTemplate?: string;
+  prompt?: string;
+  alertVia?: string;
+}
+
+// Actions stored by older versions of the page, mapped onto what the engine can actually do.
+const LEGACY_ACTIONS: Record<string, string> = {
+  notification: "whatsapp",
+  calendar: "todo",
+  crm: "todo",
+};
+
+const POLL_INTERVAL_MS = (parseInt(process.env.EMAIL_WORKFLOW_POLL_SECONDS || "", 10) || 120) * 1000;
+const INITIAL_LOOKBACK_MS = (parseInt(process.env.EMAIL_WORKFLOW_LOOKBACK_MINUTES || "", 10) || 60) * 60000;
+// Re-read a few minutes before the last poll so late-delivered mail is not missed; dedupe absorbs the overlap.
+const POLL_OVERLAP_MS = 5 * 60000;
+const MAX_MESSAGES_PER_POLL = 50;
+// A busier window is finished on later polls, continuing from the last message read.
+const MAX_PAGES_PER_POLL = 10;
+const MAX_BODY_CHARS = 20000;
+const MAX_OUTPUT_CHARS = 4000;
+
+let pollInterval: ReturnType<typeof setInterval> | null = null;
+let polling = false;
+const lastPolled = new Map<string, Date>();
+
+function header(headers: { name?: string | null; value?: string | null }[], name: string): string {
+  return headers.find(h => h.name?.toLowerCase() === name)?.value || "";
+}
+
+function collectAttachmentNames(parts: any[] | undefined, names: string[] = []): string[] {
+  for (const part of parts || []) {
+    if (part.filename) names.push(part.filename);
+    if (part.parts) collectAttachmentNames(part.parts, names);
+  }
+  return names;
+}
+
+function replySubject(subject: string): string {
+  return /^re:/i.test(subject) ? subject : `Re: ${subject}`;
+}
+
+function buildRawMessage(headers: Record<string, string | undefined>, body: string): string {
+  const lines = Object.entries(headers)
+    .filter(([, value]) => value)
+    .map(([name, value]) => `${name}: ${value!.replace(/[\r\n]+/g, " ")}`);
+  return [...lines, "Content-Type: text/plain; charset=utf-8", "", body].join("\r\n");
+}
+
+function addressText(value: { text: string } | { text: string }[] | undefined): string {
+  return (Array.isArray(value) ? value : value ? [value] : []).map(v => v.text).join(", ");
+}
+
+function fromParsedMail(mail: ParsedMail, mailbox: EmailMessage["mailbox"]): EmailMessage {
+  const from = addressText(mail.from);
+  const body = mail.text || "";
+  return {
+    mailbox,
+    id: mail.messageId || "",
+    rfcMessageId: mail.messageId,
+    from,
+    to: addressText(mail.to),
+    cc: addressText(mail.cc),
+    replyTo: addressText(mail.replyTo) || from,
+    subject: mail.subject || "",
+    body: body.slice(0, MAX_BODY_CHARS),
+    snippet: body.replace(/\s+/g, " ").trim().slice(0, 200),
+    labels: [],
+    attachmentNames: mail.attachments.map(a => a.filename || "attachment"),
+    unread: true,
+    starred: false,
+    date: mail.date || new Date(),
+  };
+}
+
+export function isImapConfigured(): boolean {
+  return !!(process.env.IMAP_HOST && process.env.IMAP_USER && process.env.IMAP_PASSWORD);
+}
+
+async function openGmailMailbox(): Promise<Mailbox> {
+  const { getUncachableGmailClient, extractTextFromParts } = await import("./gmail");
+  const gmail = await getUncachableGmailClient();
+  const labelsRes = await gmail.users.labels.list({ userId: "me" });
+  const labels = labelsRes.data.labels || [];
+  const labelName = (id: string) => labels.find(l => l.id === id)?.name || id;
+
+  const readMessage = async (id: string): Promise<EmailMessage> => {
+    const msgRes = await gmail.users.messages.get({ userId: "me", id, format: "full" });
+    const payload = msgRes.data.payload;
+    const headers = payload?.headers || [];
+    const body = payload?.body?.data
+      ? Buffer.from(payload.body.data, "base64url").toString("utf-8")
+      : extractTextFromParts(payload?.parts || []);
+    const labelIds = msgRes.data.labelIds || [];
+    const from = header(headers, "from");
+    return {
+      mailbox: "gmail",
+      id,
+      threadId: msgRes.data.threadId || undefined,
+      rfcMessageId: header(headers, "message-id") || undefined,
+      from,
+      to: header(headers, "to"),
+      cc: header(headers, "cc"),
+      replyTo: header(headers, "reply-to") || from,
+      subject: header(headers, "subject"),
+      body: body.slice(0, MAX_BODY_CHARS),
+      snippet: msgRes.data.snippet || "",
+      labels: labelIds.map(labelName),
+      attachmentNames: collectAttachmentNames(payload?.parts),
+      unread: labelIds.includes("UNREAD"),
+      starred: labelIds.includes("STARRED"),
+      date: new Date(parseInt(msgRes.data.internalDate || "0", 10) || Date.now()),
+    };
+  };
+
+  const readMessages = async (ids: string[]): Promise<EmailMessage[]> => {
+    const messages: EmailMessage[] = [];
+    for (const id of ids) {
+      try {
+        messages.push(await readMessage(id));
+      } catch (err: any) {
+        console.error(`[EmailWorkflows] Failed to read Gmail message ${id}:`, err.message);
+      }
+    }
+    return messages;
+  };
+
+  return {
+    name: "gmail",
+
+    async fetchMessages({ limit }) {
+      const listRes = await gmail.users.messages.list({ userId: "me", maxResults: limit });
+      return readMessages((listRes.data.messages || []).flatMap(ref => ref.id ? [ref.id] : []));
+    },
+
+    async fetchMessagesSince(since, limit) {
+      // Gmail lists newest first, so page through the whole window before taking its oldest messages.
+      const ids: string[] = [];
+      let pageToken: string | undefined;
+      do {
+        const listRes = await gmail.users.messages.list({
+          userId: "me",
+          q: `after:${Math.floor(since.getTime() / 1000)}`,
+          maxResults: 500,
+          pageToken,
+        });
+        for (const ref of listRes.data.messages || []) if (ref.id) ids.push(ref.id);
+        pageToken = listRes.data.nextPageToken || undefined;
+      } while (pageToken);
+      const messages = await readMessages(ids.reverse().slice(0, limit));
+      return messages.sort((a, b) => a.date.getTime() - b.date.getTime());
+    },
+
+    async fetchMessage(id) {
+      try {
+        return await readMessage(id);
+      } catch (err: any) {
+        if (err.code === 404) return undefined;
+        throw err;
+      }
+    },
+
+    async addLabel(message, label) {
+      let existing = labels.find(l => l.name?.toLowerCase() === label.toLowerCase());
+      if (!existing) {
+        const created = await gmail.users.labels.create({
+          userId: "me",
+          requestBody: { name: label, labelListVisibility: "labelShow", messageListVisibility: "show" },
+        });
+        existing = created.data;
+        labels.push(existing);
+      }
+      await gmail.users.messages.modify({ userId: "me", id: message.id, requestBody: { addLabelIds: [existing.id!] } });
+    },
+
+    async createDraftReply(message, body) {
+      const raw = buildRawMessage({
+        To: message.replyTo,
+        Subject: replySubject(message.subject),
+        "In-Reply-To": message.rfcMessageId,
+        References: message.rfcMessageId,
+      }, body);
+      await gmail.users.drafts.create({
+        userId: "me",
+        requestBody: { message: { raw: Buffer.from(raw).toString("base64url"), threadId: message.threadId } },
+      });
+    },
+
+    async send(to, subject, body) {
+      const raw = buildRawMessage({ To: to, Subject: subject }, body);
+      await gmail.users.messages.send({ userId: "me", requestBody: { raw: Buffer.from(raw).toString("base64url") } });
+    },
+
+    async close() {},
+  };
+}
+
+async function openImapMailbox(): Promise<Mailbox> {
+  const { ImapFlow } = await import("imapflow");
+  const { simpleParser } = await import("mailparser");
+  const client = new ImapFlow({
+    host: process.env.IMAP_HOST!,
+    port: parseInt(process.env.IMAP_PORT || "993", 10),
+    secure: process.env.IMAP_SECURE !== "false",
+    auth: { user: process.env.IMAP_USER!, pass: process.env.IMAP_PASSWORD! },
+    logger: false,
+  });
+  await client.connect();
+  const lock = await client.getMailboxLock(process.env.IMAP_MAILBOX || "INBOX");
+
+  const readMessages = async (uids: number[]): Promise<EmailMessage[]> => {
+    if (uids.length === 0) return [];
+    const fetched = await client.fetchAll(uids, { uid: true, flags: true, source: true }, { uid: true });
+    const messages: EmailMessage[] = [];
+    for (const item of fetched) {
+      if (!item.source) continue;
+      try {
+        const flags = item.flags || new Set<string>();
+        const message = fromParsedMail(await simpleParser(item.source), "imap");
+        messages.push({
+          ...message,
+          id: message.rfcMessageId || `uid-${client.mailbox ? client.mailbox.uidValidity : 0}-${item.uid}`,
+          uid: item.uid,
+          labels: Array.from(flags).filter(f => !f.startsWith("\\")),
+          unread: !flags.has("\\Seen"),
+          starred: flags.has("\\Flagged"),
+        });
+      } catch (err: any) {
+        console.error(`[EmailWorkflows] Failed to parse IMAP message ${item.uid}:`, err.message);
+      }
+    }
+    return messages;
+  };
+
+  return {
+    name: "imap",
+
+    async fetchMessages({ limit }) {
+      const found = await client.search({ all: true }, { uid: true });
+      return readMessages((found || []).slice(-limit));
+    },
+
+    async fetchMessagesSince(since, limit) {
+      // SEARCH SINCE only compares dates, so the arrival times narrow the day's mail down to the window.
+      const found = await client.search({ since }, { uid: true });
+      if (!found || found.length === 0) return [];
+      const received = new Map<number, Date>();
+      for (const item of await client.fetchAll(found, { uid: true, internalDate: true }, { uid: true })) {
+        const at = item.internalDate ? new Date(item.internalDate) : null;
+        if (at && at >= since) received.set(item.uid, at);
+      }
+      const uids = Array.from(received.keys()).sort((a, b) => a - b).slice(0, limit);
+      const messages = (await readMessages(uids)).map(m => ({ ...m, date: received.get(m.uid!) ?? m.date }));
+      return messages.sort((a, b) => a.date.getTime() - b.date.getTime());
+    },
+
+    async fetchMessage(id) {
+      const found = await client.search({ header: { "message-id": id } }, { uid: true });
+      const [message] = await readMessages((found || []).slice(-1));
+      return message;
+    },
+
+    async addLabel(message, label) {
+      if (!message.uid) throw new Error("Message has no IMAP UID");
+      // IMAP keywords are atoms: no spaces or specials.
+      const keyword = label.replace(/[^A-Za-z0-9_.-]+/g, "_");
+      await client.messageFlagsAdd(message.uid, [keyword], { uid: true });
+    },
+
+    async createDraftReply(message, body) {
+      const folders = await client.list();
+      const drafts = folders.find(f => f.specialUse === "\\Drafts")?.path || "Drafts";
+      const raw = buildRawMessage({
+        From: process.env.IMAP_USER,
+        To: message.replyTo,
+        Subject: replySubject(message.subject),
+        Date: new Date().toUTCString(),
+        "In-Reply-To": message.rfcMessageId,
+        References: message.rfcMessageId,
+      }, body);
+      await client.append(drafts, raw, ["\\Draft", "\\Seen"]);
+    },
+
+    async send(to, subject, body) {
+      const { sendSendGridEmail } = await import("./connectors");
+      await sendSendGridEmail({ to, subject, text: body });
+    },
+
+    async close() {
+      lock.release();
+      await client.logout();
+    },
+  };
+}
+
+export function renderEmailTemplate(template: string, message: EmailMessage, extra: Record<string, string> = {}): string {
+  const values: Record<string, string> = {
+    subject: message.subject,
+    from: message.from,
+    to: message.to,
+    date: message.date.toISOString(),
+    snippet: message.snippet,
+    body: message.body,
+    ...extra,
+  };
+  return template.replace(/\{(\w+)\}/g, (match, key: string) => values[key] ?? match);
+}
+
+function describeMessage(message: EmailMessage): string {
+  return `From: ${message.from}\nTo: ${message.to}\nSubject: ${message.subject}\nDate: ${message.date.toISOString()}\n\n${message.body}`;
+}
+
+async function sendWhatsApp(to: string | undefined, text: string): Promise<string> {
+  const { whatsappBot } = await import("./bot/whatsapp");
+  const phone = to || whatsappBot.getStatus().phone;
+  if (!phone) throw new Error("No WhatsApp recipient configured and the bot is not connected");
+  await whatsappBot.sendMessage(phone.replace(/[^0-9]/g, "") + "@s.whatsapp.net", text);
+  return `WhatsApp sent to ${phone}`;
+}
+
+async function askAI(prompt: string, message: EmailMessage): Promise<string> {
+  const { chat } = await import("./bot/openrouter");
+  const response = await chat(`${prompt}\n\n---\n${describeMessage(message)}`, "Email Workflows", "email-workflows");
+  return response.text;
+}
+
+function dedupeKey(workflow: EmailWorkflow, message: EmailMessage): string {
+  return `${workflow.id}:${message.mailbox}:${message.id}`;
+}
+
+export function resolveEmailAction(action: string): string {
+  return LEGACY_ACTIONS[action] || action;
+}
+
+async function runEmailAction(workflow: EmailWorkflow, message: EmailMessage, mailbox: Mailbox): Promise<string> {
+  const config = (workflow.actionConfig || {}) as EmailActionConfig;
+  const outputs: string[] = [];
+
+  switch (resolveEmailAction(workflow.action)) {
+    case "forward": {
+      if (!config.forwardTo) throw new Error("actionConfig.forwardTo is not set");
+      const body = `---------- Forwarded message ----------\n${describeMessage(message)}`;
+      await mailbox.send(config.forwardTo, `Fwd: ${message.subject}`, body);
+      outputs.push(`Forwarded to ${config.forwardTo}`);
+      break;
+    }
+    case "label": {
+      if (!config.label) throw new Error("actionConfig.label is not set");
+      await mailbox.addLabel(message, config.label);
+      outputs.push(`Labelled "${config.label}"`);
+      break;
+    }
+    case "todo": {
+      // Workflows watch the owner's mailbox, so their todos land on the owner's list.
+      const owner = await storage.getOwnerUser();
+      if (!owner) throw new Error("No owner account to assign the todo to");
+      const todo = await storage.createOmiTodo(owner.id, {
+        content: renderEmailTemplate(config.todoTemplate || "{subject} (from {from})", message),
+        source: "email-workflow",
+        sourceTitle: workflow.name,
+        priority: config.priority || "medium",
+      });
+      outputs.push(`Created todo ${todo.id}`);
+      break;
+    }
+    case "whatsapp":
+      outputs.push(await sendWhatsApp(config.to, renderEmailTemplate(config.messageTemplate || "Email: {subject}\nFrom: {from}", message)));
+      break;
+    case "ai-summarize": {
+      const summary = await askAI(config.prompt || "Summarize this email in a few short sentences.", message);
+      const template = config.messageTemplate || "{workflow}: {subject}\n\n{summary}";
+      outputs.push(await sendWhatsApp(config.to, renderEmailTemplate(template, message, { summary, workflow: workflow.name })));
+      break;
+    }
+    case "ai-reply": {
+      const reply = await askAI(
+        config.prompt || "Draft a brief, polite reply to this email. Return only the reply body.",
+        message,
+      );
+      await mailbox.createDraftReply(message, reply);
+      outputs.push("Draft reply created");
+      break;
+    }
+    case "log":
+      outputs.push(`Matched "${message.subject}" from ${message.from}`);
+      break;
+    default:
+      throw new Error(`Unsupported action "${workflow.action}"`);
+  }
+
+  if (config.alertVia === "whatsapp" && !["whatsapp", "ai-summarize"].includes(resolveEmailAction(workflow.action))) {
+    outputs.push(await sendWhatsApp(config.to, `${workflow.name}: ${message.subject}\nFrom: ${message.from}`));
+  }
+  return outputs.join("\n");
+}
+
+/**
+ * Describes what runEmailAction would do for this message, without contacting any service.
+ */
+export function describeEmailAction(workflow: EmailWorkflow, message: EmailMessage): string[] {
+  const config = (workflow.actionConfig || {}) as EmailActionConfig;
+  const action = resolveEmailAction(workflow.action);
+  const whatsappTo = config.to || "the bot's own number";
+  const steps: string[] = [];
+
+  switch (action) {
+    case "forward":
+      steps.push(config.forwardTo ? `Forward "Fwd: ${message.subject}" to ${config.forwardTo}` : "Fail: actionConfig.forwardTo is not set");
+      break;
+    case "label":
+      steps.push(config.label ? `Apply label "${config.label}"` : "Fail: actionConfig.label is not set");
+      break;
+    case "todo":
+      steps.push(`Create ${config.priority || "medium"} priority todo: "${renderEmailTemplate(config.todoTemplate || "{subject} (from {from})", message)}"`);
+      break;
+    case "whatsapp":
+      steps.push(`Send WhatsApp to ${whatsappTo}: "${renderEmailTemplate(config.messageTemplate || "Email: {subject}\nFrom: {from}", message)}"`);
+      break;
+    case "ai-summarize":
+      steps.push(`Ask the AI to summarize ("${config.prompt || "Summarize this email in a few short sentences."}")`);
+      steps.push(`Send the summary via WhatsApp to ${whatsappTo}`);
+      break;
+    case "ai-reply":
+      steps.push(`Ask the AI to draft a reply ("${config.prompt || "Draft a brief, polite reply to this email."}")`);
+      steps.push(`Save it as a draft reply to ${message.replyTo || "the sender"} with subject "${replySubject(message.subject)}"`);
+      break;
+    case "log":
+      steps.push("Record the match only");
+      break;
+    default:
+      steps.push(`Fail: unsupported action "${workflow.action}"`);
+  }
+  if (config.alertVia === "whatsapp" && !["whatsapp", "ai-summarize"].includes(action)) {
+    steps.push(`Send WhatsApp alert to ${whatsappTo}: "${workflow.name}: ${message.subject}"`);
+  }
+  return steps;
+}
+
+export interface EmailWorkflowTestResult {
+  workflowId: string;
+  name: string;
+  enabled: boolean;
+  matched: boolean;
+  error?: string;
+  highlights: PatternHighlight[];
+  actions: string[];
+  alreadyFired: boolean;
+}
+
+/**
+ * Dry run: evaluates every workflow against one message and reports the pattern highlights and
+ * the actions a match would take. Nothing is executed or recorded.
+ */
+export async function testEmailWorkflows(message: EmailMessage, workflows: EmailWorkflow[]): Promise<EmailWorkflowTestResult[]> {
+  const results: EmailWorkflowTestResult[] = [];
+  for (const workflow of workflows) {
+    const base = { workflowId: workflow.id, name: workflow.name, enabled: workflow.enabled };
+    let pattern: PatternNode;
+    try {
+      pattern = parseEmailPattern(workflow.triggerPattern);
+    } catch (err: any) {
+      results.push({ ...base, matched: false, error: err.message, highlights: [], actions: [], alreadyFired: false });
+      continue;
+    }
+
+    const matched = matchesEmailPattern(pattern, message);
+    const alreadyFired = matched && message.mailbox !== "sample"
+      && !!(await storage.getEmailWorkflowMatchByKey(dedupeKey(workflow, message)));
+    results.push({
+      ...base,
+      matched,
+      highlights: explainEmailPattern(pattern, message),
+      actions: matched ? describeEmailAction(workflow, message) : [],
+      alreadyFired,
+    });
+  }
+  return results.sort((a, b) => Number(b.matched) - Number(a.matched));
+}
+
+export async function parseSampleEmail(raw: string): Promise<EmailMessage> {
+  const { simpleParser } = await import("mailparser");
+  // Pasted samples often use bare LF line endings and may omit headers entirely.
+  const normalized = raw.replace(/\r?\n/g, "\r\n");
+  const hasHeaders = /^[A-Za-z-]+:[^\r\n]*\r\n/.test(normalized);
+  return fromParsedMail(await simpleParser(hasHeaders ? normalized : `\r\n${normalized}`), "sample");
+}
+
+export async function getRecentGmailMessages(limit: number): Promise<EmailMessage[]> {
+  const mailbox = await openGmailMailbox();
+  try {
+    return await mailbox.fetchMessages({ limit });
+  } finally {
+    await mailbox.close();
+  }
+}
+
+export async function getGmailMessage(id: string): Promise<EmailMessage | undefined> {
+  const mailbox = await openGmailMailbox();
+  try {
+    return await mailbox.fetchMessage(id);
+  } finally {
+    await mailbox.close();
+  }
+}
+
+function workflowReadsMailbox(workflow: EmailWorkflow, mailbox: Mailbox["name"]): boolean {
+  return workflow.triggerSource === "email" || workflow.triggerSource === mailbox;
+}
+
+/**
+ * Runs each matching workflow at most once per message. The dedupe row is claimed before the
+ * action runs, so overlapping polls or a crash mid-action never fire the same message twice.
+ */
+async function processMessage(message: EmailMessage, workflows: { workflow: EmailWorkflow; pattern: PatternNode }[], mailbox: Mailbox): Promise<number> {
+  let fired = 0;
+  for (const { workflow, pattern } of workflows) {
+    if (!matchesEmailPattern(pattern, message)) continue;
+
+    const match = await storage.claimEmailWorkflowMatch({
+      workflowId: workflow.id,
+      dedupeKey: dedupeKey(workflow, message),
+      mailbox: message.mailbox,
+      messageId: message.id,
+      subject: message.subject.slice(0, 500),
+      sender: message.from.slice(0, 500),
+      action: workflow.action,
+      status: "running",
+    });
+    if (!match) continue;
+
+    let status = "completed";
+    let output: string;
+    try {
+      output = await runEmailAction(workflow, message, mailbox);
+    } catch (err: any) {
+      status = "failed";
+      output = err.message || "Unknown error";
+      console.error(`[EmailWorkflows] ${workflow.name} failed on "${message.subject}":`, output);
+    }
+    await storage.updateEmailWorkflowMatch(match.id, { status, output: output.slice(0, MAX_OUTPUT_CHARS), completedAt: new Date() });
+    await storage.recordEmailWorkflowTrigger(workflow.id);
+    fired++;
+  }
+  return fired;
+}
+
+async function pollMailbox(open: () => Promise<Mailbox>, name: Mailbox["name"], workflows: EmailWorkflow[]): Promise<void> {
+  const relevant: { workflow: EmailWorkflow; pattern: PatternNode }[] = [];
+  for (const workflow of workflows) {
+    if (!workflowReadsMailbox(workflow, name)) continue;
+    try {
+      relevant.push({ workflow, pattern: parseEmailPattern(workflow.triggerPattern) });
+    } catch (err: any) {
+      console.error(`[EmailWorkflows] Skipping ${workflow.name}: invalid pattern (${err.message})`);
+    }
+  }
+  if (relevant.length === 0) return;
+
+  const startedAt = new Date();
+  let since = lastPolled.get(name) || new Date(startedAt.getTime() - INITIAL_LOOKBACK_MS);
+  const mailbox = await open();
+  try {
+    let fired = 0;
+    let read = 0;
+    let caughtUp = false;
+    for (let page = 0; page < MAX_PAGES_PER_POLL && !caughtUp; page++) {
+      const messages = await mailbox.fetchMessagesSince(since, MAX_MESSAGES_PER_POLL);
+      for (const message of messages) {
+        fired += await processMessage(message, relevant, mailbox);
+      }
+      read += messages.length;
+      const newest = messages[messages.length - 1]?.date;
+      // A short page reached the present; so does a full page that cannot move past a single timestamp.
+      caughtUp = messages.length < MAX_MESSAGES_PER_POLL || !newest || newest <= since;
+      if (!caughtUp) since = newest;
+    }
+    if (fired > 0) console.log(`[EmailWorkflows] ${name}: ${fired} workflow action(s) fired from ${read} message(s)`);
+    lastPolled.set(name, caughtUp ? new Date(startedAt.getTime() - POLL_OVERLAP_MS) : since);
+  } finally {
+    await mailbox.close().catch(() => {});
+  }
+}
+
+export async function pollEmailWorkflows(): Promise<void> {
+  if (polling) return;
+  polling = true;
+  try {
+    const workflows = (await storage.getEmailWorkflows()).filter(w => w.enabled);
+    if (workflows.length === 0) return;
+
+    const { isGmailConfigured } = await import("./gmail");
+    if (isGmailConfigured()) {
+      await pollMailbox(openGmailMailbox, "gmail", workflows).catch(err => {
+        console.error("[EmailWorkflows] Gmail poll failed:", err.message);
+      });
+    }
+    if (isImapConfigured()) {
+      await pollMailbox(openImapMailbox, "imap", workflows).catch(err => {
+        console.error("[EmailWorkflows] IMAP poll failed:", err.message);
+      });
+    }
+  } catch (err: any) {
+    console.error("[EmailWorkflows] Poll failed:", err.message);
+  } finally {
+    polling = false;
+  }
+}
+
+export async function startEmailWorkflowEngine(): Promise<void> {
+  const { isGmailConfigured } = await import("./gmail");
+  if (!isGmailConfigured() && !isImapConfigured()) {
+    console.log("[EmailWorkflows] No Gmail connector or IMAP mailbox configured, engine not started");
+    return;
+  }
+  if (pollInterval) return;
+  pollInterval = setInterval(pollEmailWorkflows, POLL_INTERVAL_MS);
+  console.log(`[EmailWorkflows] Engine started, polling every ${POLL_INTERVAL_MS / 1000}s`);
+  pollEmailWorkflows();
+}
+
+export function stopEmailWorkflowEngine(): void {
+  if (pollInterval) {
+    clearInterval(pollInterval);
+    pollInterval = null;
+  }
+}
@@ -0,0 +1,107 @@
+import { createCipheriv, createDecipheriv, createHash, hkdfSync, randomBytes } from "crypto";
+
+const PREFIX = "enc:v1:";
+const MIN_MASTER_KEY_LENGTH = 32;
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+interface MasterKey {
+  id: string;
+  key: Buffer;
+}
+
+let currentKey: MasterKey | null = null;
+let previousKey: MasterKey | null = null;
+
+function deriveMasterKey(secret: string): MasterKey {
+  const key = Buffer.from(hkdfSync("sha256", secret, "openclaw-secrets", "master-key-v1", 32));
+  return { id: createHash("sha256").update(key).digest("hex").slice(0, 8), key };
+}
+
+function validateSecret(name: string): string | null {
+  const secret = process.env[name];
+  if (!secret) return null;
+  if (secret.length < MIN_MASTER_KEY_LENGTH) {
+    throw new Error(`${name} must be at least ${MIN_MASTER_KEY_LENGTH} characters (generate one with: openssl rand -base64 32)`);
+  }
+  return secret;
+}
+
+function getCurrentKey(): MasterKey {
+  if (!currentKey) {
+    const secret = validateSecret("OPENCLAW_MASTER_KEY");
+    if (!secret) {
+      throw new Error("OPENCLAW_MASTER_KEY is not set. It encrypts stored credentials; generate one with: openssl rand -base64 32");
+    }
+    currentKey = deriveMasterKey(secret);
+    const previous = validateSecret("OPENCLAW_MASTER_KEY_PREVIOUS");
+    previousKey = previous ? deriveMasterKey(previous) : null;
+  }
+  return currentKey;
+}
+
+/** Throws unless a usable master key is configured. Called before the server touches the database. */
+export function assertEncryptionKey(): void {
+  getCurrentKey();
+}
+
+function seal(key: Buffer, plaintext: Buffer): string {
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv("aes-256-gcm", key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString("base64");
+}
+
+function unseal(key: Buffer, sealed: string): Buffer {
+  const data = Buffer.from(sealed, "base64");
+  const decipher = createDecipheriv("aes-256-gcm", key, data.subarray(0, IV_LENGTH));
+  decipher.setAuthTag(data.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH));
+  return Buffer.concat([decipher.update(data.subarray(IV_LENGTH + TAG_LENGTH)), decipher.final()]);
+}
+
+export function isEncrypted(value: string | null | undefined): boolean {
+  return typeof value === "string" && value.startsWith(PREFIX);
+}
+
+function encryptedKeyId(value: string): string {
+  return value.slice(PREFIX.length).split(":")[0];
+}
+
+/**
+ * Envelope-encrypts a value: a fresh data key encrypts the value and the master key encrypts the
+ * data key. Stored as `enc:v1:<master key id>:<wrapped data key>:<ciphertext>`.
+ */
+export function encryptSecret<T extends string | null | undefined>(value: T): T {
+  if (typeof value !== "string" || isEncrypted(value)) return value;
+  const master = getCurrentKey();
+  const dataKey = randomBytes(32);
+  return `${PREFIX}${master.id}:${seal(master.key, dataKey)}:${seal(dataKey, Buffer.from(value, "utf8"))}` as T;
+}
+
+/** Decrypts a value written by encryptSecret. Plaintext from before encryption is returned unchanged. */
+export function decryptSecret<T extends string | null | undefined>(value: T): T {
+  if (typeof value !== "string" || !isEncrypted(value)) return value;
+  const [keyId, wrappedKey, payload] = value.slice(PREFIX.length).split(":");
+  getCurrentKey();
+  const master = [currentKey, previousKey].find(k => k?.id === keyId);
+  if (!master) {
+    throw new Error(`Secret was encrypted with unknown master key ${keyId}; set OPENCLAW_MASTER_KEY_PREVIOUS to the key it was written with`);
+  }
+  const dataKey = unseal(master.key, wrappedKey);
+  return unseal(dataKey, payload).toString("utf8") as T;
+}
+
+/** True for plaintext values and values encrypted under a master key other than the current one. */
+export function needsReencryption(value: string | null | undefined): boolean {
+  if (typeof value !== "string") return false;
+  return !isEncrypted(value) || encryptedKeyId(value) !== getCurrentKey().id;
+}
+
+export function reencryptSecret<T extends string | null | undefined>(value: T): T {
+  return encryptSecret(decryptSecret(value));
+}
+
+/** Deterministic hash for looking up a row by a secret that is stored encrypted. */
+export function secretLookupHash(value: string): string {
+  return createHash("sha256").update(value).digest("hex");
+}
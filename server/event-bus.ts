@@ -0,0 +1,159 @@
+import { EventEmitter } from "events";
+import { randomUUID } from "crypto";
+import type { AutomationEvent, AutomationEventFilter } from "@shared/schema";
+
+const MAX_RECENT_EVENTS = 200;
+// Heartbeat agents report every 30s; matches the home-bot staleness threshold in routes.ts.
+const NODE_STALE_MS = 120000;
+const NODE_STALE_CHECK_MS = 30000;
+
+interface NodeHeartbeat {
+  machineId: string;
+  name: string;
+  hostname: string;
+  lastHeartbeat: Date;
+  stale: boolean;
+}
+
+class EventBus extends EventEmitter {
+  private recent: AutomationEvent[] = [];
+
+  publish(type: string, source: string, payload: Record<string, any>): AutomationEvent {
+    const event: AutomationEvent = {
+      id: randomUUID(),
+      type,
+      source,
+      payload,
+      timestamp: new Date().toISOString(),
+    };
+    this.recent.push(event);
+    if (this.recent.length > MAX_RECENT_EVENTS) this.recent.shift();
+
+    try {
+      this.emit("event", event);
+    } catch (err: any) {
+      console.error(`[Events] Listener for ${type} failed:`, err.message);
+    }
+    return event;
+  }
+
+  getRecentEvents(limit = 50): AutomationEvent[] {
+    return this.recent.slice(-limit).reverse();
+  }
+}
+
+export const eventBus = new EventBus();
+
+export function getEventField(payload: Record<string, any>, path: string): unknown {
+  let value: any = payload;
+  for (const key of path.split(".")) {
+    if (value === null || value === undefined) return undefined;
+    value = value[key];
+  }
+  return value;
+}
+
+function stringifyField(value: unknown): string {
+  if (value === undefined || value === null) return "";
+  return typeof value === "object" ? JSON.stringify(value) : String(value);
+}
+
+/**
+ * All filters must match. "matches" is a case-insensitive regex; "contains" is case-insensitive too.
+ */
+export function matchesEventFilters(filters: AutomationEventFilter[] | null | undefined, payload: Record<string, any>): boolean {
+  for (const filter of filters || []) {
+    const actual = stringifyField(getEventField(payload, filter.field));
+    switch (filter.op) {
+      case "equals":
+        if (actual !== filter.value) return false;
+        break;
+      case "contains":
+        if (!actual.toLowerCase().includes(filter.value.toLowerCase())) return false;
+        break;
+      case "matches":
+        try {
+          if (!new RegExp(filter.value, "i").test(actual)) return false;
+        } catch {
+          return false;
+        }
+        break;
+    }
+  }
+  return true;
+}
+
+export function validateEventFilters(filters: AutomationEventFilter[] | null | undefined): string | null {
+  for (const filter of filters || []) {
+    if (filter.op !== "matches") continue;
+    try {
+      new RegExp(filter.value, "i");
+    } catch (err: any) {
+      return `Invalid filter regex for "${filter.field}": ${err.message}`;
+    }
+  }
+  return null;
+}
+
+const nodeHeartbeats = new Map<string, NodeHeartbeat>();
+let staleCheckInterval: ReturnType<typeof setInterval> | null = null;
+let lastWhatsappState: string | null = null;
+
+export function recordNodeHeartbeat(machine: { id: string; name: string; displayName?: string | null; hostname?: string | null }): void {
+  const previous = nodeHeartbeats.get(machine.id);
+  const entry: NodeHeartbeat = {
+    machineId: machine.id,
+    name: machine.displayName || machine.name,
+    hostname: machine.hostname || machine.name,
+    lastHeartbeat: new Date(),
+    stale: false,
+  };
+  nodeHeartbeats.set(machine.id, entry);
+
+  if (previous?.stale) {
+    eventBus.publish("node.online", "node-heartbeat", {
+      machineId: entry.machineId,
+      name: entry.name,
+      hostname: entry.hostname,
+      offlineSince: previous.lastHeartbeat.toISOString(),
+    });
+  }
+}
+
+function checkStaleNodes(): void {
+  const now = Date.now();
+  nodeHeartbeats.forEach(entry => {
+    if (entry.stale || now - entry.lastHeartbeat.getTime() <= NODE_STALE_MS) return;
+    entry.stale = true;
+    eventBus.publish("node.stale", "node-heartbeat", {
+      machineId: entry.machineId,
+      name: entry.name,
+      hostname: entry.hostname,
+      lastHeartbeat: entry.lastHeartbeat.toISOString(),
+    });
+  });
+}
+
+/**
+ * Starts the event sources that are not tied to a request: node heartbeat staleness and WhatsApp bot state.
+ */
+export async function startEventSources(): Promise<void> {
+  if (!staleCheckInterval) {
+    staleCheckInterval = setInterval(checkStaleNodes, NODE_STALE_CHECK_MS);
+  }
+
+  const { whatsappBot } = await import("./bot/whatsapp");
+  lastWhatsappState = whatsappBot.getStatus().state;
+  whatsappBot.on("status", (status: { state: string; phone: string | null; error: string | null }) => {
+    if (status.state === lastWhatsappState) return;
+    const previousState = lastWhatsappState;
+    lastWhatsappState = status.state;
+    eventBus.publish("whatsapp.state", "whatsapp-bot", {
+      state: status.state,
+      previousState,
+      phone: status.phone,
+      error: status.error,
+    });
+  });
+  console.log("[Events] Event sources started");
+}
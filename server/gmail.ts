@@ -121,7 +121,7 @@ export interface FoundSecret {
   messageId: string;
 }
 
-function extractTextFromParts(parts: any[]): string {
+export function extractTextFromParts(parts: any[]): string {
   let text = "";
   for (const part of parts) {
     if (part.mimeType === "text/plain" && part.body?.data) {
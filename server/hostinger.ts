@@ -268,7 +268,7 @@ export const hostinger = {
     return hostingerFetch(`/api/vps/v1/firewall/${firewallId}`);
   },
 
-  async createFirewallRule(firewallId: number, rule: { protocol: string; port: string; source: string; source_detail?: string }): Promise<any> {
+  async createFirewallRule(firewallId: number, rule: { protocol: string; port: string; source: string; source_detail?: string; action?: string }): Promise<any> {
     return hostingerFetch(`/api/vps/v1/firewall/${firewallId}/rules`, {
       method: "POST",
       body: JSON.stringify(rule),
@@ -5,6 +5,8 @@ import { registerRoutes } from "./routes";
 import { serveStatic } from "./static";
 import { createServer } from "http";
 import { storage } from "./storage";
+import { assertEncryptionKey } from "./encryption";
+import { applyManagedSecrets } from "./secret-rotation";
 import pg from "pg";
 
 declare module "express-session" {
@@ -72,6 +74,18 @@ app.use((req, res, next) => {
 });
 
 (async () => {
+  try {
+    assertEncryptionKey();
+    const reencrypted = await storage.reencryptSecrets();
+    for (const [table, count] of Object.entries(reencrypted)) {
+      log(`Encrypted ${count} row(s) in ${table} with the current master key`, "encryption");
+    }
+    await applyManagedSecrets();
+  } catch (err: any) {
+    console.error(`[Encryption] Refusing to start: ${err.message}`);
+    process.exit(1);
+  }
+
   const pool = new pg.Pool({ connectionString: process.env.DATABASE_URL });
   await pool.query(`
     CREATE TABLE IF NOT EXISTS "session" (
@@ -107,11 +121,56 @@ app.use((req, res, next) => {
 
   const { seed } = await import("./seed");
   await seed();
+  try {
+    const { initSSHVault } = await import("./ssh-vault");
+    await initSSHVault();
+  } catch (err: any) {
+    console.error("[SSH] Failed to load the default VPS connection:", err.message);
+  }
+  try {
+    const { startOperationRecorder } = await import("./operation-recorder");
+    startOperationRecorder();
+  } catch (err: any) {
+    console.error("[Operations] Failed to start the operation recorder:", err.message);
+  }
+  try {
+    const { startNotificationService } = await import("./notifications");
+    startNotificationService();
+  } catch (err: any) {
+    console.error("[Notifications] Failed to start the notification service:", err.message);
+  }
+  try {
+    const { startLiveUpdates } = await import("./live-updates");
+    startLiveUpdates();
+  } catch (err: any) {
+    console.error("[Live] Failed to start live updates:", err.message);
+  }
+  try {
+    const { startIntegrations } = await import("./integrations");
+    startIntegrations();
+  } catch (err: any) {
+    console.error("[Integrations] Failed to start integrations:", err.message);
+  }
+  try {
+    const { startWebhookDispatcher } = await import("./outbound-webhooks");
+    startWebhookDispatcher();
+  } catch (err: any) {
+    console.error("[Webhooks] Failed to start the webhook dispatcher:", err.message);
+  }
+  try {
+    const { startMaintenanceWatcher } = await import("./maintenance");
+    startMaintenanceWatcher();
+  } catch (err: any) {
+    console.error("[Maintenance] Failed to start the maintenance watcher:", err.message);
+  }
   await registerRoutes(httpServer, app);
 
   const { setupGatewayProxy } = await import("./gateway-proxy");
   setupGatewayProxy(app, httpServer);
 
+  const { setupTerminalServer } = await import("./terminal");
+  setupTerminalServer(httpServer);
+
   try {
     const { hostinger } = await import("./hostinger");
     const portResult = await hostinger.ensurePortsOpen(["22", "18789"]);
@@ -209,6 +268,10 @@ app.use((req, res, next) => {
         await whatsappBot.stopGracefully();
       }
     } catch {}
+    try {
+      const { closeSSHPool } = await import("./ssh");
+      closeSSHPool();
+    } catch {}
     httpServer.close(() => {
       log("HTTP server closed");
       process.exit(0);
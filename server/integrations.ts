@@ -0,0 +1,353 @@
+import { createHmac } from "crypto";
+import nodemailer from "nodemailer";
+import mqtt, { type IClientOptions, type MqttClient } from "mqtt";
+import { storage } from "./storage";
+import { eventBus } from "./event-bus";
+import { INTEGRATION_ADAPTER_TYPES, type Integration, type IntegrationAdapterType } from "@shared/schema";
+
+const HTTP_TIMEOUT_MS = 10000;
+const MQTT_CONNECT_TIMEOUT_MS = 10000;
+const MQTT_RECONNECT_MS = 15000;
+const MAX_MQTT_MESSAGE_CHARS = 64 * 1024;
+const TEST_TEXT = "Test message from the OpenClaw dashboard.";
+
+export interface IntegrationMessage {
+  title?: string;
+  text: string;
+  // Recipient override: email address, Slack channel, MQTT topic or n8n webhook path.
+  to?: string;
+  event?: string;
+  payload?: Record<string, unknown>;
+}
+
+export interface IntegrationTestResult {
+  ok: boolean;
+  message: string;
+  integration: Integration;
+}
+
+interface IntegrationAdapter {
+  configured(config: Record<string, any>): boolean;
+  // Resolves with a short description of what was checked; throws when the service is unreachable or rejects us.
+  test(config: Record<string, any>): Promise<string>;
+  send(config: Record<string, any>, message: IntegrationMessage): Promise<string>;
+}
+
+let mqttClient: MqttClient | null = null;
+let mqttStatus: string | null = null;
+
+// Config fields holding credentials, such as password, apiKey, botToken, signingSecret or secretAccessKey.
+const SECRET_CONFIG_KEY = /(password|secret|token|api_?key|access_?key)/i;
+export const MASKED_SECRET = "••••••••";
+
+/** Replaces credential values in the config for callers without the "secrets" permission. */
+export function maskIntegrationSecrets<T extends { config: unknown }>(integration: T): T {
+  if (!integration.config || typeof integration.config !== "object") return integration;
+  const config: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(integration.config as Record<string, unknown>)) {
+    config[key] = SECRET_CONFIG_KEY.test(key) && value !== "" && value !== null && value !== undefined ? MASKED_SECRET : value;
+  }
+  return { ...integration, config };
+}
+
+/** Keeps the stored value of any credential a masked config sends back unchanged. */
+export function restoreMaskedSecrets<T>(config: T, stored: unknown): T {
+  if (!config || typeof config !== "object" || !stored || typeof stored !== "object") return config;
+  const restored: Record<string, unknown> = { ...(config as Record<string, unknown>) };
+  for (const [key, value] of Object.entries(restored)) {
+    if (value === MASKED_SECRET) restored[key] = (stored as Record<string, unknown>)[key];
+  }
+  return restored as T;
+}
+
+function str(value: unknown): string {
+  return typeof value === "string" ? value.trim() : value === undefined || value === null ? "" : String(value);
+}
+
+async function postJson(url: string, body: unknown, headers: Record<string, string> = {}): Promise<Response> {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...headers },
+    body: typeof body === "string" ? body : JSON.stringify(body),
+    signal: AbortSignal.timeout(HTTP_TIMEOUT_MS),
+  });
+  if (!response.ok) {
+    const detail = (await response.text().catch(() => "")).slice(0, 200);
+    throw new Error(`${url} returned ${response.status}${detail ? `: ${detail}` : ""}`);
+  }
+  return response;
+}
+
+function messageText(message: IntegrationMessage): string {
+  return message.title ? `${message.title}\n\n${message.text}` : message.text;
+}
+
+// Slack: an incoming webhook URL, or a bot token plus channel for chat.postMessage.
+async function slackApi(token: string, method: string, body: Record<string, unknown>): Promise<Record<string, any>> {
+  const response = await postJson(`https://slack.com/api/${method}`, body, { Authorization: `Bearer ${token}` });
+  const data = await response.json() as Record<string, any>;
+  if (!data.ok) throw new Error(`Slack ${method} failed: ${data.error || "unknown error"}`);
+  return data;
+}
+
+const slackAdapter: IntegrationAdapter = {
+  configured: config => !!str(config.webhookUrl) || (!!str(config.botToken) && !!str(config.channelId)),
+  async test(config) {
+    if (str(config.botToken)) {
+      const auth = await slackApi(str(config.botToken), "auth.test", {});
+      return `Authenticated as ${auth.user} in ${auth.team}`;
+    }
+    if (!str(config.webhookUrl)) throw new Error("Set an incoming webhook URL or a bot token");
+    await postJson(str(config.webhookUrl), { text: TEST_TEXT });
+    return "Posted a test message to the incoming webhook";
+  },
+  async send(config, message) {
+    const text = message.title ? `*${message.title}*\n${message.text}` : message.text;
+    const channel = str(message.to) || str(config.channelId);
+    if (str(config.webhookUrl) && !str(message.to)) {
+      await postJson(str(config.webhookUrl), { text });
+      return "Posted to the Slack incoming webhook";
+    }
+    if (!str(config.botToken) || !channel) throw new Error("Slack needs a bot token and channel to post to a specific channel");
+    await slackApi(str(config.botToken), "chat.postMessage", { channel, text });
+    return `Posted to Slack channel ${channel}`;
+  },
+};
+
+/** HMAC-SHA256 over "<timestamp>.<body>", hex encoded; receivers recompute it with the shared secret. */
+export function signWebhookPayload(secret: string, timestamp: string, body: string): string {
+  return createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+}
+
+async function postSignedJson(url: string, secret: string, event: string, data: Record<string, unknown>): Promise<Response> {
+  const timestamp = String(Math.floor(Date.now() / 1000));
+  const body = JSON.stringify({ event, timestamp: new Date().toISOString(), data });
+  const headers: Record<string, string> = { "X-OpenClaw-Event": event, "X-OpenClaw-Timestamp": timestamp };
+  if (secret) headers["X-OpenClaw-Signature"] = `sha256=${signWebhookPayload(secret, timestamp, body)}`;
+  return postJson(url, body, headers);
+}
+
+const webhookAdapter: IntegrationAdapter = {
+  configured: config => !!str(config.url),
+  async test(config) {
+    const response = await postSignedJson(str(config.url), str(config.secret), "integration.test", { text: TEST_TEXT });
+    return `Endpoint accepted the signed test event (${response.status})`;
+  },
+  async send(config, message) {
+    const response = await postSignedJson(str(config.url), str(config.secret), message.event || "message", {
+      title: message.title,
+      text: message.text,
+      ...message.payload,
+    });
+    return `Webhook accepted the event (${response.status})`;
+  },
+};
+
+function mqttOptions(config: Record<string, any>): IClientOptions {
+  return {
+    username: str(config.username) || undefined,
+    password: str(config.password) || undefined,
+    connectTimeout: MQTT_CONNECT_TIMEOUT_MS,
+    clientId: `openclaw-dashboard-${Math.random().toString(16).slice(2, 10)}`,
+  };
+}
+
+// The topic setting may list several topics separated by commas; wildcards only make sense for subscribing.
+function mqttTopics(config: Record<string, any>): string[] {
+  return str(config.topic).split(",").map(t => t.trim()).filter(Boolean);
+}
+
+const mqttAdapter: IntegrationAdapter = {
+  configured: config => !!str(config.brokerUrl),
+  async test(config) {
+    const client = await mqtt.connectAsync(str(config.brokerUrl), { ...mqttOptions(config), reconnectPeriod: 0 }, false);
+    try {
+      const topics = mqttTopics(config);
+      if (topics.length > 0) await client.subscribeAsync(topics);
+      return topics.length > 0 ? `Connected and subscribed to ${topics.join(", ")}` : `Connected to ${str(config.brokerUrl)}`;
+    } finally {
+      await client.endAsync(true).catch(() => {});
+    }
+  },
+  async send(config, message) {
+    const topic = str(message.to) || mqttTopics(config).find(t => !/[#+]/.test(t));
+    if (!topic) throw new Error("No MQTT topic to publish to");
+    const payload = message.payload ? JSON.stringify({ title: message.title, text: message.text, ...message.payload }) : messageText(message);
+    if (mqttClient?.connected) {
+      await mqttClient.publishAsync(topic, payload);
+    } else {
+      const client = await mqtt.connectAsync(str(config.brokerUrl), { ...mqttOptions(config), reconnectPeriod: 0 }, false);
+      try {
+        await client.publishAsync(topic, payload);
+      } finally {
+        await client.endAsync().catch(() => {});
+      }
+    }
+    return `Published to ${topic}`;
+  },
+};
+
+function smtpTransport(config: Record<string, any>) {
+  const port = Number(config.smtpPort) || 587;
+  return nodemailer.createTransport({
+    host: str(config.smtpHost),
+    port,
+    secure: port === 465,
+    auth: str(config.username) ? { user: str(config.username), pass: str(config.password) } : undefined,
+    connectionTimeout: HTTP_TIMEOUT_MS,
+  });
+}
+
+const emailAdapter: IntegrationAdapter = {
+  configured: config => !!str(config.smtpHost),
+  async test(config) {
+    await smtpTransport(config).verify();
+    return `SMTP server ${str(config.smtpHost)} accepted the connection`;
+  },
+  async send(config, message) {
+    const to = str(message.to);
+    if (!to) throw new Error("No email recipient");
+    await smtpTransport(config).sendMail({
+      from: str(config.fromAddress) || str(config.username),
+      to,
+      subject: message.title || "[OpenClaw] Notification",
+      text: message.text,
+    });
+    return `Emailed ${to}`;
+  },
+};
+
+function n8nWebhookUrl(config: Record<string, any>, path?: string): string {
+  const target = str(path) || str(config.webhookPath);
+  if (/^https?:\/\//i.test(target)) return target;
+  if (!target) throw new Error("No n8n webhook path");
+  const relative = target.replace(/^\/+/, "");
+  const base = str(config.instanceUrl).replace(/\/+$/, "");
+  return `${base}/${/^webhook(-test)?\//.test(relative) ? relative : `webhook/${relative}`}`;
+}
+
+const n8nAdapter: IntegrationAdapter = {
+  configured: config => !!str(config.instanceUrl) || /^https?:\/\//i.test(str(config.webhookPath)),
+  async test(config) {
+    const base = str(config.instanceUrl).replace(/\/+$/, "");
+    if (!base) throw new Error("Set the n8n instance URL");
+    const apiKey = str(config.apiKey);
+    const response = await fetch(apiKey ? `${base}/api/v1/workflows?limit=1` : `${base}/healthz`, {
+      headers: apiKey ? { "X-N8N-API-KEY": apiKey } : {},
+      signal: AbortSignal.timeout(HTTP_TIMEOUT_MS),
+    });
+    if (!response.ok) throw new Error(`n8n returned ${response.status}${response.status === 401 ? " (check the API key)" : ""}`);
+    return apiKey ? "API key accepted by the n8n instance" : "n8n instance is healthy";
+  },
+  async send(config, message) {
+    const url = n8nWebhookUrl(config, message.to);
+    const response = await postJson(url, { event: message.event || "message", title: message.title, text: message.text, ...message.payload });
+    const text = (await response.text().catch(() => "")).slice(0, 500);
+    return `Triggered ${url}${text ? `: ${text}` : ""}`;
+  },
+};
+
+const ADAPTERS: Record<IntegrationAdapterType, IntegrationAdapter> = {
+  slack: slackAdapter,
+  webhook: webhookAdapter,
+  mqtt: mqttAdapter,
+  email: emailAdapter,
+  n8n: n8nAdapter,
+};
+
+export function hasAdapter(type: string): type is IntegrationAdapterType {
+  return INTEGRATION_ADAPTER_TYPES.includes(type as IntegrationAdapterType);
+}
+
+function integrationConfig(integration: Integration): Record<string, any> {
+  return (integration.config as Record<string, any> | null) || {};
+}
+
+export function isIntegrationConfigured(integration: Integration): boolean {
+  return hasAdapter(integration.type) && ADAPTERS[integration.type].configured(integrationConfig(integration));
+}
+
+/** The enabled, configured row for an adapter type; the seed creates one row per type. */
+export async function getEnabledIntegration(type: IntegrationAdapterType): Promise<Integration | undefined> {
+  return (await storage.getIntegrations()).find(i => i.type === type && i.enabled && isIntegrationConfigured(i));
+}
+
+/** Checks the saved settings against the real service and records the result in the row's status. */
+export async function testIntegration(integration: Integration): Promise<IntegrationTestResult> {
+  if (!hasAdapter(integration.type)) throw new Error(`${integration.name} has no connection test`);
+  let ok = false;
+  let message: string;
+  try {
+    message = await ADAPTERS[integration.type].test(integrationConfig(integration));
+    ok = true;
+  } catch (err: any) {
+    message = err.message || "Connection test failed";
+  }
+  const updated = await storage.updateIntegration(integration.id, { status: ok ? "connected" : "error" });
+  if (integration.type === "mqtt" && integration.enabled) mqttStatus = ok ? "connected" : "error";
+  return { ok, message, integration: updated ?? integration };
+}
+
+export async function sendThroughIntegration(integration: Integration, message: IntegrationMessage): Promise<string> {
+  if (!hasAdapter(integration.type)) throw new Error(`${integration.name} cannot send messages`);
+  return ADAPTERS[integration.type].send(integrationConfig(integration), message);
+}
+
+export async function sendViaIntegration(type: IntegrationAdapterType, message: IntegrationMessage): Promise<string> {
+  const integration = await getEnabledIntegration(type);
+  if (!integration) throw new Error(`No enabled and configured ${type} integration`);
+  return sendThroughIntegration(integration, message);
+}
+
+function setMqttStatus(client: MqttClient, integrationId: string, status: string): void {
+  if (client !== mqttClient || status === mqttStatus) return;
+  mqttStatus = status;
+  storage.updateIntegration(integrationId, { status })
+    .catch(err => console.error("[Integrations] Failed to record MQTT status:", err.message));
+}
+
+/**
+ * (Re)connects the MQTT subscriber from the enabled MQTT integration. Messages on its topics are
+ * published on the event bus as "mqtt.message", so automation jobs can trigger on them.
+ */
+export async function reloadMqttSubscriber(): Promise<void> {
+  if (mqttClient) {
+    const previous = mqttClient;
+    mqttClient = null;
+    mqttStatus = null;
+    await previous.endAsync(true).catch(() => {});
+  }
+
+  const integration = await getEnabledIntegration("mqtt");
+  const config = integration ? integrationConfig(integration) : {};
+  const topics = mqttTopics(config);
+  if (!integration || topics.length === 0) return;
+
+  const client = mqtt.connect(str(config.brokerUrl), { ...mqttOptions(config), reconnectPeriod: MQTT_RECONNECT_MS });
+  mqttClient = client;
+  client.on("connect", () => {
+    client.subscribe(topics, err => {
+      if (err) console.error("[Integrations] MQTT subscribe failed:", err.message);
+    });
+    setMqttStatus(client, integration.id, "connected");
+  });
+  client.on("error", err => {
+    console.error("[Integrations] MQTT error:", err.message);
+    setMqttStatus(client, integration.id, "error");
+  });
+  client.on("offline", () => setMqttStatus(client, integration.id, "disconnected"));
+  client.on("message", (topic, payload) => {
+    const message = payload.toString("utf8").slice(0, MAX_MQTT_MESSAGE_CHARS);
+    let json: unknown = null;
+    try {
+      json = JSON.parse(message);
+    } catch {}
+    eventBus.publish("mqtt.message", "mqtt", { topic, message, json });
+  });
+}
+
+export function startIntegrations() {
+  reloadMqttSubscriber()
+    .then(() => console.log("[Integrations] Adapters ready"))
+    .catch(err => console.error("[Integrations] Failed to start the MQTT subscriber:", err.message));
+}
@@ -0,0 +1,365 @@
+import { storage } from "./storage";
+import { executeRawSSHCommand, buildSSHConfigFromVps } from "./ssh";
+import { eventBus } from "./event-bus";
+import { isIpAllowed } from "./api-keys";
+import type { InsertGuardianLog, IntrusionScanSummary, OpenclawInstance, VpsConnection, VpsListener, VpsSecurityBaseline } from "@shared/schema";
+
+const FIRST_SCAN_LOOKBACK_MS = 60 * 60 * 1000;
+const AUTH_LOG_TAIL_LINES = 5000;
+
+interface AuthEvent {
+  at: Date;
+  kind: "failed" | "accepted";
+  user: string;
+  ip: string;
+}
+
+let monitorInterval: NodeJS.Timeout | null = null;
+let scanInProgress = false;
+
+async function logCheck(data: InsertGuardianLog) {
+  const log = await storage.createGuardianLog(data);
+  eventBus.publish("guardian.log", "intrusion-monitor", {
+    id: log.id,
+    type: log.type,
+    severity: log.severity,
+    message: log.message,
+    details: log.details,
+    status: log.status,
+    source: log.source,
+  });
+  return log;
+}
+
+function buildScanCommand(since: Date): string {
+  const sinceEpoch = Math.floor(since.getTime() / 1000);
+  return [
+    // The address this SSH session comes from is the dashboard itself, whose own root logins are expected.
+    "echo '@@SELF'",
+    "echo \"${SSH_CLIENT%% *}\"",
+    "echo '@@AUTH'",
+    `if [ -r /var/log/auth.log ]; then echo 'source=auth.log'; tail -n ${AUTH_LOG_TAIL_LINES} /var/log/auth.log | grep -E 'sshd(-session)?\\['`,
+    `elif [ -r /var/log/secure ]; then echo 'source=secure'; tail -n ${AUTH_LOG_TAIL_LINES} /var/log/secure | grep -E 'sshd(-session)?\\['`,
+    `elif command -v journalctl >/dev/null 2>&1; then echo 'source=journald'; journalctl -t sshd -t sshd-session --since "@${sinceEpoch}" -o short-iso --no-pager -q 2>/dev/null | tail -n ${AUTH_LOG_TAIL_LINES}`,
+    "else echo 'source=none'; fi",
+    "echo '@@F2B'",
+    "if command -v fail2ban-client >/dev/null 2>&1; then for j in $(fail2ban-client status 2>/dev/null | sed -n 's/.*Jail list:[[:space:]]*//p' | tr ',' ' '); do echo \"jail=$j\"; fail2ban-client status \"$j\" 2>/dev/null; done; else echo 'missing'; fi",
+    "echo '@@PORTS'",
+    "ss -tlnpH 2>/dev/null || ss -tlnp | tail -n +2",
+  ].join("\n");
+}
+
+function splitSections(output: string): Record<string, string[]> {
+  const sections: Record<string, string[]> = {};
+  let current = "";
+  for (const line of output.split("\n")) {
+    const header = line.match(/^@@(\w+)$/);
+    if (header) {
+      current = header[1];
+      sections[current] = [];
+    } else if (current && line.trim()) {
+      sections[current].push(line);
+    }
+  }
+  return sections;
+}
+
+const SYSLOG_MONTHS = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+
+/** Reads the timestamp of an auth log line in either ISO (rsyslog/journald short-iso) or classic syslog format. */
+function parseLogTimestamp(line: string, now: Date): Date | null {
+  const iso = line.match(/^(\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(?:\.\d+)?(?:Z|[+-]\d{2}:?\d{2})?)/);
+  if (iso) {
+    const at = new Date(iso[1].replace(/([+-]\d{2})(\d{2})$/, "$1:$2"));
+    return isNaN(at.getTime()) ? null : at;
+  }
+  const syslog = line.match(/^(\w{3})\s+(\d{1,2})\s+(\d{2}):(\d{2}):(\d{2})/);
+  if (!syslog) return null;
+  const month = SYSLOG_MONTHS.indexOf(syslog[1]);
+  if (month < 0) return null;
+  const at = new Date(now.getFullYear(), month, Number(syslog[2]), Number(syslog[3]), Number(syslog[4]), Number(syslog[5]));
+  if (at.getTime() > now.getTime() + 24 * 3600 * 1000) at.setFullYear(at.getFullYear() - 1);
+  return at;
+}
+
+function parseAuthLog(lines: string[], since: Date, now = new Date()): AuthEvent[] {
+  const events: AuthEvent[] = [];
+  for (const line of lines) {
+    const at = parseLogTimestamp(line, now);
+    if (!at || at <= since) continue;
+    const failed = line.match(/Failed \S+ for (?:invalid user )?(\S+) from (\S+) port/);
+    if (failed) {
+      events.push({ at, kind: "failed", user: failed[1], ip: failed[2] });
+      continue;
+    }
+    const accepted = line.match(/Accepted \S+ for (\S+) from (\S+) port/);
+    if (accepted) events.push({ at, kind: "accepted", user: accepted[1], ip: accepted[2] });
+  }
+  return events;
+}
+
+function parseFail2ban(lines: string[]): IntrusionScanSummary["fail2ban"] {
+  if (lines[0] === "missing") return { installed: false, jails: [] };
+  const jails: IntrusionScanSummary["fail2ban"]["jails"] = [];
+  let jail: IntrusionScanSummary["fail2ban"]["jails"][number] | null = null;
+  const count = (line: string) => parseInt(line.split(":").pop() || "0", 10) || 0;
+  for (const line of lines) {
+    const name = line.match(/^jail=(.+)$/);
+    if (name) {
+      jail = { name: name[1], currentlyFailed: 0, currentlyBanned: 0, totalBanned: 0, bannedIps: [] };
+      jails.push(jail);
+    } else if (jail && line.includes("Currently failed:")) {
+      jail.currentlyFailed = count(line);
+    } else if (jail && line.includes("Currently banned:")) {
+      jail.currentlyBanned = count(line);
+    } else if (jail && line.includes("Total banned:")) {
+      jail.totalBanned = count(line);
+    } else if (jail && line.includes("Banned IP list:")) {
+      jail.bannedIps = line.split("Banned IP list:")[1].trim().split(/\s+/).filter(Boolean);
+    }
+  }
+  return { installed: true, jails };
+}
+
+function isLoopbackAddress(address: string): boolean {
+  return address.startsWith("127.") || address === "[::1]" || address === "::1";
+}
+
+/** Parses `ss -tlnp` rows into public listeners, one per port (IPv4 and IPv6 sockets are merged). */
+function parseListeners(lines: string[]): VpsListener[] {
+  const byPort = new Map<number, VpsListener>();
+  for (const line of lines) {
+    const fields = line.trim().split(/\s+/);
+    const local = fields[0] === "LISTEN" ? fields[3] : fields.find(f => /:\d+$/.test(f));
+    if (!local) continue;
+    const sep = local.lastIndexOf(":");
+    const address = local.slice(0, sep).replace(/%\S+$/, "");
+    const port = Number(local.slice(sep + 1));
+    if (!port || isLoopbackAddress(address)) continue;
+    const process = line.match(/users:\(\("([^"]+)"/)?.[1] || null;
+    if (!byPort.has(port)) byPort.set(port, { port, address, process });
+  }
+  return Array.from(byPort.values()).sort((a, b) => a.port - b.port);
+}
+
+/**
+ * Adds a drop rule for the IP on the SSH port of the Hostinger firewall attached to this VPS
+ * (matched by IP address) and syncs the firewall to the VM.
+ */
+async function blockOnHostingerFirewall(vps: VpsConnection, ip: string): Promise<void> {
+  const { hostinger } = await import("./hostinger");
+  const vms = await hostinger.listVMs();
+  const vm = vms.find(v => v.ip_addresses.some(a => a.address === vps.vpsIp));
+  if (!vm) throw new Error(`No Hostinger VM has IP ${vps.vpsIp}`);
+  if (!vm.firewall_group_id) throw new Error(`Hostinger VM ${vm.hostname} has no firewall attached`);
+  const firewall = await hostinger.getFirewall(vm.firewall_group_id);
+  if (!firewall.rules?.some(r => r.source_detail === ip && r.action === "drop")) {
+    await hostinger.createFirewallRule(firewall.id, {
+      protocol: "tcp",
+      port: String(vps.vpsPort),
+      source: "custom",
+      source_detail: ip,
+      action: "drop",
+    });
+  }
+  await hostinger.syncFirewall(firewall.id, vm.id);
+}
+
+async function scanInstance(instance: OpenclawInstance, vps: VpsConnection): Promise<IntrusionScanSummary> {
+  const now = new Date();
+  const existing = await storage.getVpsSecurityBaseline(instance.id);
+  const since = existing?.lastScanAt || new Date(now.getTime() - FIRST_SCAN_LOOKBACK_MS);
+  const baseline: Pick<VpsSecurityBaseline, "approvedPorts" | "trustedIps" | "failureThreshold" | "autoBlock" | "firewallBlockedIps" | "lastScan"> = existing || {
+    approvedPorts: [], trustedIps: [], failureThreshold: 20, autoBlock: false, firewallBlockedIps: [], lastScan: null,
+  };
+  const label = instance.name;
+
+  const result = await executeRawSSHCommand(buildScanCommand(since), buildSSHConfigFromVps(vps), 1, 60000);
+  if (!result.success && !result.output.includes("@@PORTS")) {
+    const summary: IntrusionScanSummary = {
+      scannedAt: now.toISOString(), since: since.toISOString(), logSource: "none", failedLogins: 0, failuresByIp: [],
+      rootLogins: [], fail2ban: { installed: false, jails: [] }, listeners: baseline.lastScan?.listeners || [],
+      unapprovedPorts: baseline.lastScan?.unapprovedPorts || [], missingPorts: baseline.lastScan?.missingPorts || [],
+      blockedIps: [], error: result.error || result.output || "SSH command failed",
+    };
+    await logCheck({
+      type: "intrusion",
+      severity: "warning",
+      message: `Intrusion scan failed on ${label}`,
+      details: summary.error,
+      status: "detected",
+      source: "intrusion-scan",
+    });
+    await storage.upsertVpsSecurityBaseline(instance.id, { lastScan: summary });
+    return summary;
+  }
+
+  const sections = splitSections(result.output);
+  const authLines = sections.AUTH || [];
+  const sourceLine = authLines.find(l => l.startsWith("source="));
+  const logSource = (sourceLine?.slice(7) || "none") as IntrusionScanSummary["logSource"];
+  const authEvents = parseAuthLog(authLines.filter(l => l !== sourceLine), since, now);
+  const fail2ban = parseFail2ban(sections.F2B || []);
+  const listeners = parseListeners(sections.PORTS || []);
+  const selfIp = sections.SELF?.[0]?.trim() || null;
+  const isTrusted = (ip: string) => ip === selfIp || (baseline.trustedIps.length > 0 && isIpAllowed(ip, baseline.trustedIps));
+
+  const failureCounts = new Map<string, number>();
+  for (const e of authEvents) {
+    if (e.kind === "failed") failureCounts.set(e.ip, (failureCounts.get(e.ip) || 0) + 1);
+  }
+  const failuresByIp = Array.from(failureCounts.entries())
+    .map(([ip, count]) => ({ ip, count }))
+    .sort((a, b) => b.count - a.count);
+  const failedLogins = failuresByIp.reduce((sum, f) => sum + f.count, 0);
+
+  if (failedLogins >= baseline.failureThreshold) {
+    await logCheck({
+      type: "intrusion",
+      severity: failedLogins >= baseline.failureThreshold * 5 ? "critical" : "warning",
+      message: `${failedLogins} failed SSH logins on ${label} since ${since.toLocaleString()}`,
+      details: failuresByIp.slice(0, 10).map(f => `${f.ip}: ${f.count}`).join("\n"),
+      status: "detected",
+      source: "ssh-auth-check",
+    });
+  }
+
+  const rootLogins = authEvents
+    .filter(e => e.kind === "accepted" && e.user === "root")
+    .map(e => ({ ip: e.ip, at: e.at.toISOString(), trusted: isTrusted(e.ip) }));
+  for (const ip of Array.from(new Set(rootLogins.filter(l => !l.trusted).map(l => l.ip)))) {
+    const logins = rootLogins.filter(l => l.ip === ip);
+    await logCheck({
+      type: "intrusion",
+      // Without a trusted list every other address is unknown, so only a configured list makes this critical.
+      severity: baseline.trustedIps.length > 0 ? "critical" : "warning",
+      message: `Root SSH login on ${label} from unknown IP ${ip}`,
+      details: `${logins.length} login(s): ${logins.map(l => l.at).join(", ")}. Add the IP to trusted IPs if this was expected.`,
+      status: "detected",
+      source: "ssh-auth-check",
+    });
+  }
+
+  // The first scan of an instance records its current listeners as the approved baseline.
+  let approvedPorts = baseline.approvedPorts;
+  if (!existing?.lastScanAt && approvedPorts.length === 0 && listeners.length > 0) {
+    approvedPorts = listeners.map(l => l.port);
+    await logCheck({
+      type: "intrusion",
+      severity: "info",
+      message: `Recorded port baseline for ${label}: ${approvedPorts.join(", ")}`,
+      details: listeners.map(l => `${l.port} ${l.address} ${l.process || ""}`.trim()).join("\n"),
+      status: "detected",
+      source: "port-check",
+    });
+  }
+  const listeningPorts = new Set(listeners.map(l => l.port));
+  const unapprovedPorts = listeners.filter(l => !approvedPorts.includes(l.port)).map(l => l.port);
+  const missingPorts = approvedPorts.filter(p => !listeningPorts.has(p));
+  const previousUnapproved = baseline.lastScan?.unapprovedPorts || [];
+  const previousMissing = baseline.lastScan?.missingPorts || [];
+  const newListeners = listeners.filter(l => unapprovedPorts.includes(l.port) && !previousUnapproved.includes(l.port));
+  if (newListeners.length > 0) {
+    await logCheck({
+      type: "intrusion",
+      severity: "warning",
+      message: `New listening port${newListeners.length > 1 ? "s" : ""} on ${label}: ${newListeners.map(l => l.port).join(", ")}`,
+      details: newListeners.map(l => `${l.port} on ${l.address} (${l.process || "unknown process"})`).join("\n"),
+      status: "detected",
+      source: "port-check",
+    });
+  }
+  const newlyMissing = missingPorts.filter(p => !previousMissing.includes(p));
+  if (newlyMissing.length > 0) {
+    await logCheck({
+      type: "intrusion",
+      severity: "info",
+      message: `Approved port${newlyMissing.length > 1 ? "s" : ""} no longer listening on ${label}: ${newlyMissing.join(", ")}`,
+      status: "detected",
+      source: "port-check",
+    });
+  }
+
+  const blocked: string[] = [];
+  let firewallBlockedIps = baseline.firewallBlockedIps;
+  if (baseline.autoBlock) {
+    const offenders = failuresByIp.filter(f => f.count >= baseline.failureThreshold && !isTrusted(f.ip) && !firewallBlockedIps.includes(f.ip));
+    for (const offender of offenders) {
+      try {
+        await blockOnHostingerFirewall(vps, offender.ip);
+        blocked.push(offender.ip);
+      } catch (err: any) {
+        await logCheck({
+          type: "intrusion",
+          severity: "warning",
+          message: `Could not block ${offender.ip} on the Hostinger firewall for ${label}`,
+          details: err.message,
+          status: "failed",
+          source: "firewall-block",
+        });
+      }
+    }
+    if (blocked.length > 0) {
+      firewallBlockedIps = [...firewallBlockedIps, ...blocked];
+      await logCheck({
+        type: "intrusion",
+        severity: "warning",
+        message: `Blocked ${blocked.length} IP${blocked.length > 1 ? "s" : ""} on the Hostinger firewall for ${label}`,
+        details: blocked.map(ip => `${ip}: ${failureCounts.get(ip)} failed logins`).join("\n"),
+        status: "fixed",
+        source: "firewall-block",
+        resolution: `Drop rule added on port ${vps.vpsPort} and firewall synced`,
+      });
+    }
+  }
+
+  const summary: IntrusionScanSummary = {
+    scannedAt: now.toISOString(),
+    since: since.toISOString(),
+    logSource,
+    failedLogins,
+    failuresByIp: failuresByIp.slice(0, 20),
+    rootLogins,
+    fail2ban,
+    listeners,
+    unapprovedPorts,
+    missingPorts,
+    blockedIps: blocked,
+  };
+  await storage.upsertVpsSecurityBaseline(instance.id, { approvedPorts, firewallBlockedIps, lastScan: summary, lastScanAt: now });
+  return summary;
+}
+
+export async function scanInstanceForIntrusions(instanceId: string): Promise<IntrusionScanSummary> {
+  const instance = await storage.getInstance(instanceId);
+  if (!instance) throw new Error("Instance not found");
+  const vps = await storage.getVpsConnection(instanceId);
+  if (!vps) throw new Error("No VPS connection configured for this instance");
+  return scanInstance(instance, vps);
+}
+
+export async function scanAllInstancesForIntrusions(): Promise<void> {
+  if (scanInProgress) return;
+  scanInProgress = true;
+  try {
+    for (const instance of await storage.getInstances()) {
+      const vps = await storage.getVpsConnection(instance.id);
+      if (!vps) continue;
+      try {
+        await scanInstance(instance, vps);
+      } catch (err: any) {
+        console.error(`[Intrusion] Scan of ${instance.name} failed:`, err.message);
+      }
+    }
+  } finally {
+    scanInProgress = false;
+  }
+}
+
+export function startIntrusionMonitor(intervalMs = 15 * 60 * 1000) {
+  if (monitorInterval) clearInterval(monitorInterval);
+  monitorInterval = setInterval(() => {
+    scanAllInstancesForIntrusions().catch(err => console.error("[Intrusion] Scheduled scan error:", err));
+  }, intervalMs);
+  console.log(`[Intrusion] Monitor started (every ${intervalMs / 60000} min)`);
+}
@@ -0,0 +1,139 @@
+import { storage } from "./storage";
+import { eventBus } from "./event-bus";
+import { emitWebhookEventInBackground, hasWebhookSubscribers } from "./outbound-webhooks";
+import type { SSEStream } from "./sse";
+import type { AutomationEvent, Notification, UserNotification } from "@shared/schema";
+
+const GATEWAY_CHECK_MS = 30000;
+
+export type GatewayHealth = Record<string, any> & { ok?: boolean; error?: string };
+
+interface LiveClient {
+  stream: SSEStream;
+  userId: string;
+  instanceId: string | null;
+}
+
+// Query keys each bus event makes stale in the browser; they are prefixes, as with invalidateQueries.
+const EVENT_QUERY_KEYS: Record<string, string[][]> = {
+  "node.stale": [["/api/machines"], ["/api/nodes/live-status"]],
+  "node.online": [["/api/machines"], ["/api/nodes/live-status"]],
+  "whatsapp.state": [["/api/whatsapp/status"]],
+  "guardian.log": [["/api/admin/guardian/logs"]],
+};
+
+const clients = new Set<LiveClient>();
+const lastGatewayHealth = new Map<string, string>();
+let gatewayTimer: ReturnType<typeof setInterval> | null = null;
+let checkingGateways = false;
+
+export function toUserNotification(notification: Notification, userId: string): UserNotification {
+  return { ...notification, read: notification.readBy.includes(userId) };
+}
+
+function broadcast(event: string, data: unknown, to: (client: LiveClient) => boolean = () => true): void {
+  clients.forEach(client => {
+    if (to(client)) client.stream.send(event, data);
+  });
+}
+
+/** Registers a browser tab; it receives notifications, query invalidations and gateway health for its instance. */
+export function addLiveClient(stream: SSEStream, userId: string, instanceId: string | null): void {
+  const client: LiveClient = { stream, userId, instanceId };
+  clients.add(client);
+  stream.signal.addEventListener("abort", () => clients.delete(client));
+  stream.send("ready", { instanceId });
+}
+
+export function invalidateLiveQueries(queryKeys: string[][]): void {
+  broadcast("invalidate", { queryKeys });
+}
+
+/** Sends a new or updated notification to every open tab, with the read state of that tab's user. */
+export function pushNotification(notification: Notification, created: boolean): void {
+  if (!notification.inApp) return;
+  clients.forEach(client => {
+    client.stream.send("notification", { created, notification: toUserNotification(notification, client.userId) });
+  });
+}
+
+export function pushNotificationsRead(userId: string): void {
+  broadcast("invalidate", { queryKeys: [["/api/notifications"]] }, client => client.userId === userId);
+}
+
+export async function checkGatewayHealth(instanceId: string): Promise<GatewayHealth> {
+  const vps = await storage.getVpsConnection(instanceId);
+  if (!vps) return { error: "No VPS configured", ok: false };
+
+  const { executeSSHCommand, buildSSHConfigFromVps } = await import("./ssh");
+  const result = await executeSSHCommand("gateway-call-health", buildSSHConfigFromVps(vps));
+  if (result.success && result.output) {
+    try {
+      return JSON.parse(result.output.trim());
+    } catch {
+      return { ok: false, error: "Failed to parse health response", raw: result.output?.substring(0, 500) };
+    }
+  }
+  return { ok: false, error: result.output || "Health check failed" };
+}
+
+/**
+ * Checks the gateway of every instance a tab is watching, once for all tabs, and pushes the result when
+ * it changes. A change in reachability also refreshes the probe and node status queries. While a webhook
+ * subscription listens for gateway events every instance is checked, open tabs or not.
+ */
+async function checkWatchedGateways(): Promise<void> {
+  if (checkingGateways) return;
+  checkingGateways = true;
+  try {
+    const watched = new Set<string>();
+    clients.forEach(client => {
+      if (client.instanceId) watched.add(client.instanceId);
+    });
+    if (await hasWebhookSubscribers(["gateway_down", "gateway_up"])) {
+      (await storage.getInstances()).forEach(instance => watched.add(instance.id));
+    }
+    for (const instanceId of Array.from(lastGatewayHealth.keys())) {
+      if (!watched.has(instanceId)) lastGatewayHealth.delete(instanceId);
+    }
+
+    for (const instanceId of Array.from(watched)) {
+      let health: GatewayHealth;
+      try {
+        health = await checkGatewayHealth(instanceId);
+      } catch (err: any) {
+        health = { ok: false, error: err.message || "Gateway health check failed" };
+      }
+      const serialized = JSON.stringify(health);
+      const previous = lastGatewayHealth.get(instanceId);
+      lastGatewayHealth.set(instanceId, serialized);
+      if (serialized === previous) continue;
+
+      const forInstance = (client: LiveClient) => client.instanceId === instanceId;
+      broadcast("gateway.health", { instanceId, health }, forInstance);
+      const wasOk = previous ? !!JSON.parse(previous).ok : undefined;
+      if (wasOk !== undefined && wasOk !== !!health.ok) {
+        broadcast("invalidate", { queryKeys: [["/api/gateway/probe", instanceId], ["/api/nodes/live-status", instanceId]] }, forInstance);
+        emitWebhookEventInBackground(health.ok ? "gateway_up" : "gateway_down", { instanceId, error: health.error ?? null });
+      }
+    }
+  } finally {
+    checkingGateways = false;
+  }
+}
+
+function onBusEvent(event: AutomationEvent) {
+  const queryKeys = EVENT_QUERY_KEYS[event.type];
+  if (queryKeys) invalidateLiveQueries(queryKeys);
+}
+
+export function startLiveUpdates() {
+  eventBus.off("event", onBusEvent);
+  eventBus.on("event", onBusEvent);
+  if (gatewayTimer) clearInterval(gatewayTimer);
+  gatewayTimer = setInterval(() => {
+    checkWatchedGateways().catch(err => console.error("[Live] Gateway check failed:", err.message));
+  }, GATEWAY_CHECK_MS);
+  gatewayTimer.unref?.();
+  console.log("[Live] Live updates started");
+}
@@ -0,0 +1,82 @@
+import { storage } from "./storage";
+import { invalidateLiveQueries } from "./live-updates";
+import { DEFAULT_MAINTENANCE_MESSAGE, type MaintenanceState } from "@shared/schema";
+
+const CACHE_MS = 5000;
+const WATCH_MS = 30000;
+const MUTATING = ["POST", "PUT", "PATCH", "DELETE"];
+// Still allowed for everyone during maintenance: marking notifications read only changes the caller's own state.
+const EXEMPT_PATHS = [/^\/api\/notifications\/(read-all|[^/]+\/read)$/];
+
+let cached: { state: MaintenanceState; expiresAt: number } | null = null;
+let lastActive: boolean | null = null;
+let watchTimer: ReturnType<typeof setInterval> | null = null;
+
+function parseTime(value: string | undefined): Date | null {
+  if (!value) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/** The toggle must be on; a start or end time, when set, further limits maintenance to that window. */
+export function resolveMaintenanceState(values: Record<string, string>, now: Date = new Date()): MaintenanceState {
+  const enabled = values["general.maintenance_mode"] === "true";
+  const startsAt = parseTime(values["general.maintenance_start"]);
+  const endsAt = parseTime(values["general.maintenance_end"]);
+  const active = enabled && (!startsAt || startsAt <= now) && (!endsAt || endsAt > now);
+  return {
+    active,
+    enabled,
+    startsAt: startsAt?.toISOString() ?? null,
+    endsAt: endsAt?.toISOString() ?? null,
+    message: values["general.maintenance_message"]?.trim() || DEFAULT_MAINTENANCE_MESSAGE,
+  };
+}
+
+export async function getMaintenanceState(): Promise<MaintenanceState> {
+  if (cached && cached.expiresAt > Date.now()) return cached.state;
+  const values: Record<string, string> = {};
+  for (const setting of await storage.getSettingsByCategory("general")) {
+    values[setting.key] = setting.value;
+  }
+  const state = resolveMaintenanceState(values);
+  cached = { state, expiresAt: Date.now() + CACHE_MS };
+  return state;
+}
+
+export async function isMaintenanceActive(): Promise<boolean> {
+  try {
+    return (await getMaintenanceState()).active;
+  } catch {
+    return false;
+  }
+}
+
+/** Whether maintenance turns this request away: mutating calls from anyone but an owner. */
+export function isBlockedDuringMaintenance(method: string, path: string, role: string | null): boolean {
+  return MUTATING.includes(method) && role !== "owner" && !EXEMPT_PATHS.some(pattern => pattern.test(path));
+}
+
+// Pushes the banner state to open tabs when maintenance starts or ends, by toggle or by schedule.
+async function checkTransition(): Promise<void> {
+  const { active } = await getMaintenanceState();
+  if (active === lastActive) return;
+  if (lastActive !== null) console.log(`[Maintenance] Maintenance mode ${active ? "started" : "ended"}`);
+  lastActive = active;
+  invalidateLiveQueries([["/api/maintenance"]]);
+}
+
+/** Called after the general settings are saved so the change applies immediately. */
+export function invalidateMaintenanceState(): void {
+  cached = null;
+  checkTransition().catch(err => console.error("[Maintenance] State check failed:", err.message));
+}
+
+export function startMaintenanceWatcher() {
+  if (watchTimer) clearInterval(watchTimer);
+  watchTimer = setInterval(() => {
+    checkTransition().catch(err => console.error("[Maintenance] State check failed:", err.message));
+  }, WATCH_MS);
+  watchTimer.unref?.();
+  checkTransition().catch(err => console.error("[Maintenance] State check failed:", err.message));
+}
@@ -0,0 +1,403 @@
+import { storage } from "./storage";
+import { eventBus } from "./event-bus";
+import { pushNotification } from "./live-updates";
+import { getEnabledIntegration, sendThroughIntegration } from "./integrations";
+import {
+  NOTIFICATION_CHANNELS, NOTIFICATION_SETTING_DEFAULTS,
+  type AutomationEvent, type DigestFrequency, type Notification, type NotificationCategory,
+  type NotificationChannel, type NotificationDelivery, type NotificationSeverity,
+} from "@shared/schema";
+
+const DEDUPE_WINDOW_MS = 60 * 60 * 1000;
+const TICK_MS = 60 * 1000;
+const PRUNE_INTERVAL_MS = 6 * 60 * 60 * 1000;
+const RETENTION_DAYS = 30;
+const DIGEST_HOUR = 8;
+const DIGEST_MAX_LINES = 50;
+const WEBHOOK_TIMEOUT_MS = 10000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const SEVERITY_ICONS: Record<NotificationSeverity, string> = { info: "ℹ️", warning: "⚠️", critical: "🚨" };
+
+export interface NotifyInput {
+  category: NotificationCategory;
+  severity?: NotificationSeverity;
+  title: string;
+  body?: string;
+  source: string;
+  // App path the notification center links to.
+  link?: string;
+  // Repeats with the same key within an hour only bump the occurrence count. Defaults to category + title.
+  dedupeKey?: string;
+  // Send now rather than in the digest, e.g. reminders. Quiet hours still apply unless critical.
+  immediate?: boolean;
+  // Narrows delivery to these channels; the notification settings still have to allow them.
+  channels?: NotificationChannel[];
+}
+
+interface NotificationPreferences {
+  values: Record<string, string>;
+  timezone: string;
+  supportEmail: string;
+}
+
+type ChannelTargets = Partial<Record<NotificationChannel, string>>;
+
+let tickTimer: ReturnType<typeof setInterval> | null = null;
+let pruneTimer: ReturnType<typeof setInterval> | null = null;
+let ticking = false;
+
+async function loadPreferences(): Promise<NotificationPreferences> {
+  const values = { ...NOTIFICATION_SETTING_DEFAULTS };
+  let timezone = "UTC";
+  let supportEmail = "";
+  for (const setting of await storage.getSettings()) {
+    if (setting.category === "notifications") values[setting.key] = setting.value;
+    else if (setting.key === "general.timezone" && setting.value) timezone = setting.value;
+    else if (setting.key === "general.support_email") supportEmail = setting.value;
+  }
+  return { values, timezone, supportEmail };
+}
+
+function isOn(prefs: NotificationPreferences, key: string): boolean {
+  return prefs.values[key] === "true";
+}
+
+/** Resolves who each enabled channel delivers to; channels without a recipient are left out. */
+async function channelTargets(prefs: NotificationPreferences, only?: NotificationChannel[]): Promise<ChannelTargets> {
+  const targets: ChannelTargets = {};
+  const push = isOn(prefs, "notifications.push_enabled");
+
+  if (isOn(prefs, "notifications.email_enabled")) {
+    const to = prefs.values["notifications.email_to"] || prefs.supportEmail;
+    if (to) targets.email = to;
+  }
+  if (push && isOn(prefs, "notifications.whatsapp_enabled")) {
+    let to = prefs.values["notifications.whatsapp_to"];
+    if (!to) {
+      const { whatsappBot } = await import("./bot/whatsapp");
+      to = whatsappBot.getStatus().phone || "";
+    }
+    if (to) targets.whatsapp = to;
+  }
+  if (push && isOn(prefs, "notifications.telegram_enabled")) {
+    let chatId = prefs.values["notifications.telegram_chat_id"];
+    if (!chatId) {
+      const telegram = (await storage.getIntegrations()).find(i => i.type === "telegram");
+      chatId = (telegram?.config as { chatId?: string } | null)?.chatId || "";
+    }
+    if (chatId) targets.telegram = chatId;
+  }
+  if (isOn(prefs, "notifications.webhook_enabled") && prefs.values["notifications.webhook_url"]) {
+    targets.webhook = prefs.values["notifications.webhook_url"];
+  }
+
+  if (only) {
+    for (const channel of NOTIFICATION_CHANNELS) {
+      if (!only.includes(channel)) delete targets[channel];
+    }
+  }
+  return targets;
+}
+
+function localClock(date: Date, timezone: string): { weekday: number; hour: number; minute: number } {
+  let parts: Intl.DateTimeFormatPart[];
+  try {
+    parts = new Intl.DateTimeFormat("en-US", { timeZone: timezone, weekday: "short", hour: "2-digit", minute: "2-digit", hourCycle: "h23" }).formatToParts(date);
+  } catch {
+    parts = new Intl.DateTimeFormat("en-US", { timeZone: "UTC", weekday: "short", hour: "2-digit", minute: "2-digit", hourCycle: "h23" }).formatToParts(date);
+  }
+  const part = (type: string) => parts.find(p => p.type === type)?.value || "";
+  return {
+    weekday: ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"].indexOf(part("weekday")),
+    hour: Number(part("hour")),
+    minute: Number(part("minute")),
+  };
+}
+
+function parseClockTime(value: string): number | null {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value.trim());
+  if (!match || Number(match[1]) > 23 || Number(match[2]) > 59) return null;
+  return Number(match[1]) * 60 + Number(match[2]);
+}
+
+function isQuietHours(prefs: NotificationPreferences, now: Date): boolean {
+  const start = parseClockTime(prefs.values["notifications.quiet_hours_start"] || "");
+  const end = parseClockTime(prefs.values["notifications.quiet_hours_end"] || "");
+  if (start === null || end === null || start === end) return false;
+  const { hour, minute } = localClock(now, prefs.timezone);
+  const current = hour * 60 + minute;
+  return start < end ? current >= start && current < end : current >= start || current < end;
+}
+
+/**
+ * Start of the most recent digest slot in the configured timezone: the top of the hour, 08:00 each
+ * day, or 08:00 on Mondays. Anything created before it and not yet digested is due.
+ */
+function digestSlotStart(frequency: DigestFrequency, timezone: string, now: Date): Date | null {
+  if (frequency === "realtime") return null;
+  const { weekday, hour, minute } = localClock(now, timezone);
+  const startOfMinute = now.getTime() - now.getSeconds() * 1000 - now.getMilliseconds();
+  if (frequency === "hourly") return new Date(startOfMinute - minute * 60000);
+
+  const sinceDigestHour = ((hour - DIGEST_HOUR) * 60 + minute) * 60000;
+  let slot = startOfMinute - sinceDigestHour;
+  if (frequency === "daily") return new Date(sinceDigestHour < 0 ? slot - DAY_MS : slot);
+
+  let daysBack = (weekday + 6) % 7;
+  if (daysBack === 0 && sinceDigestHour < 0) daysBack = 7;
+  slot -= daysBack * DAY_MS;
+  return new Date(slot);
+}
+
+async function sendEmail(to: string, subject: string, text: string): Promise<void> {
+  const { getSendGridCredentials, sendSendGridEmail } = await import("./connectors");
+  if (await getSendGridCredentials().catch(() => null)) {
+    await sendSendGridEmail({ to, subject, text });
+    return;
+  }
+
+  const smtp = await getEnabledIntegration("email");
+  if (smtp) {
+    await sendThroughIntegration(smtp, { to, title: subject, text });
+    return;
+  }
+
+  const { getUncachableGmailClient, isGmailConfigured } = await import("./gmail");
+  if (!isGmailConfigured()) throw new Error("No email provider configured (SendGrid, SMTP integration or Gmail)");
+  const gmail = await getUncachableGmailClient();
+  const raw = Buffer.from(
+    `From: ${to}\r\nTo: ${to}\r\nSubject: ${subject}\r\nContent-Type: text/plain; charset=utf-8\r\n\r\n${text}`
+  ).toString("base64url");
+  await gmail.users.messages.send({ userId: "me", requestBody: { raw } });
+}
+
+async function sendToChannel(channel: NotificationChannel, to: string, subject: string, text: string, payload: Record<string, unknown>): Promise<void> {
+  switch (channel) {
+    case "email":
+      return sendEmail(to, subject, text);
+    case "whatsapp": {
+      const { whatsappBot } = await import("./bot/whatsapp");
+      if (whatsappBot.getStatus().state !== "connected") throw new Error("WhatsApp is not connected");
+      await whatsappBot.sendMessage(to.replace(/[^0-9]/g, "") + "@s.whatsapp.net", text);
+      return;
+    }
+    case "telegram": {
+      const { sendTelegramMessage } = await import("./bot/telegram");
+      await sendTelegramMessage(to, text);
+      return;
+    }
+    case "webhook": {
+      const response = await fetch(to, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(payload),
+        signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+      });
+      if (!response.ok) throw new Error(`Webhook returned ${response.status}`);
+      return;
+    }
+  }
+}
+
+async function deliver(targets: ChannelTargets, subject: string, text: string, payload: Record<string, unknown>): Promise<NotificationDelivery[]> {
+  const channels = NOTIFICATION_CHANNELS.filter(channel => targets[channel]);
+  return Promise.all(channels.map(async (channel): Promise<NotificationDelivery> => {
+    try {
+      await sendToChannel(channel, targets[channel]!, subject, text, payload);
+      return { channel, status: "sent", at: new Date().toISOString() };
+    } catch (err: any) {
+      console.error(`[Notifications] ${channel} delivery failed:`, err.message);
+      return { channel, status: "failed", error: err.message, at: new Date().toISOString() };
+    }
+  }));
+}
+
+function formatNotification(notification: Notification): { subject: string; text: string; payload: Record<string, unknown> } {
+  const severity = notification.severity as NotificationSeverity;
+  return {
+    subject: `[OpenClaw] ${notification.title}`,
+    text: `${SEVERITY_ICONS[severity] ?? ""} ${notification.title}${notification.body ? `\n\n${notification.body}` : ""}`.trim(),
+    payload: {
+      type: "notification",
+      id: notification.id,
+      category: notification.category,
+      severity: notification.severity,
+      title: notification.title,
+      body: notification.body,
+      source: notification.source,
+      createdAt: notification.createdAt.toISOString(),
+    },
+  };
+}
+
+function formatBatch(heading: string, batch: Notification[]): { subject: string; text: string; payload: Record<string, unknown> } {
+  const lines = batch.slice(0, DIGEST_MAX_LINES).map(n => {
+    const repeats = n.occurrences > 1 ? ` (×${n.occurrences})` : "";
+    return `${SEVERITY_ICONS[n.severity as NotificationSeverity] ?? "•"} [${n.category}] ${n.title}${repeats}`;
+  });
+  if (batch.length > DIGEST_MAX_LINES) lines.push(`…and ${batch.length - DIGEST_MAX_LINES} more`);
+  return {
+    subject: `[OpenClaw] ${heading}`,
+    text: `${heading}\n\n${lines.join("\n")}`,
+    payload: {
+      type: "digest",
+      heading,
+      notifications: batch.map(n => ({ id: n.id, category: n.category, severity: n.severity, title: n.title, occurrences: n.occurrences })),
+    },
+  };
+}
+
+/**
+ * Records a notification, pushes it to open tabs and routes it by the notification settings: muted
+ * categories are dropped, repeats within an hour are folded into the earlier row and become unread
+ * again, and external channels get it now only when it is critical, marked immediate or the digest is
+ * real-time. Everything else waits for the digest. Returns null when the category is turned off; a
+ * folded repeat comes back as the earlier row with occurrences above one and is not delivered again.
+ */
+export async function notify(input: NotifyInput): Promise<Notification | null> {
+  const prefs = await loadPreferences();
+  if (input.category !== "system" && prefs.values[`notifications.${input.category}`] === "false") return null;
+
+  const now = new Date();
+  const severity = input.severity ?? "info";
+  const dedupeKey = input.dedupeKey ?? `${input.category}:${input.title}`;
+  const repeat = await storage.findRecentNotification(dedupeKey, new Date(now.getTime() - DEDUPE_WINDOW_MS));
+  if (repeat) {
+    const updated = (await storage.updateNotification(repeat.id, { occurrences: repeat.occurrences + 1, readBy: [] })) ?? repeat;
+    pushNotification(updated, false);
+    return updated;
+  }
+
+  const realtime = prefs.values["notifications.digest_frequency"] === "realtime";
+  const sendNow = severity === "critical" || !!input.immediate || realtime;
+  const quiet = severity !== "critical" && isQuietHours(prefs, now);
+  const notification = await storage.createNotification({
+    category: input.category,
+    severity,
+    title: input.title,
+    body: input.body ?? "",
+    source: input.source,
+    link: input.link ?? null,
+    dedupeKey,
+    inApp: isOn(prefs, "notifications.inapp_enabled"),
+    held: sendNow && quiet,
+    channels: input.channels ?? null,
+    digestedAt: realtime ? now : null,
+  });
+  pushNotification(notification, true);
+  if (!sendNow || quiet) return notification;
+
+  const { subject, text, payload } = formatNotification(notification);
+  const deliveries = await deliver(await channelTargets(prefs, input.channels), subject, text, payload);
+  if (deliveries.length === 0) return notification;
+  return (await storage.updateNotification(notification.id, { deliveries })) ?? notification;
+}
+
+async function flushHeld(prefs: NotificationPreferences, now: Date): Promise<void> {
+  if (isQuietHours(prefs, now)) return;
+  const held = await storage.getHeldNotifications();
+  if (held.length === 0) return;
+
+  // Batch by the channels each one was narrowed to, so a reminder meant for email only stays on email.
+  const groups = new Map<string, Notification[]>();
+  for (const notification of held) {
+    const key = notification.channels ? [...notification.channels].sort().join(",") : "*";
+    groups.set(key, [...(groups.get(key) ?? []), notification]);
+  }
+
+  for (const batch of Array.from(groups.values())) {
+    const message = batch.length === 1 ? formatNotification(batch[0]) : formatBatch(`${batch.length} notifications held during quiet hours`, batch);
+    const deliveries = await deliver(await channelTargets(prefs, batch[0].channels ?? undefined), message.subject, message.text, message.payload);
+    for (const notification of batch) {
+      await storage.updateNotification(notification.id, { held: false, deliveries: [...notification.deliveries, ...deliveries] });
+    }
+  }
+}
+
+async function sendDigest(prefs: NotificationPreferences, now: Date): Promise<void> {
+  const slot = digestSlotStart(prefs.values["notifications.digest_frequency"] as DigestFrequency, prefs.timezone, now);
+  if (!slot || isQuietHours(prefs, now)) return;
+  const pending = await storage.getUndigestedNotifications(now);
+  if (!pending.some(n => n.createdAt < slot)) return;
+
+  const frequency = prefs.values["notifications.digest_frequency"];
+  const { subject, text, payload } = formatBatch(`${frequency[0].toUpperCase()}${frequency.slice(1)} digest: ${pending.length} notification${pending.length === 1 ? "" : "s"}`, pending);
+  await deliver(await channelTargets(prefs), subject, text, payload);
+  await storage.markNotificationsDigested(pending.map(n => n.id), now);
+}
+
+async function tick(): Promise<void> {
+  if (ticking) return;
+  ticking = true;
+  try {
+    const prefs = await loadPreferences();
+    const now = new Date();
+    await flushHeld(prefs, now);
+    await sendDigest(prefs, now);
+  } catch (err: any) {
+    console.error("[Notifications] Tick failed:", err.message);
+  } finally {
+    ticking = false;
+  }
+}
+
+/** Maps bus events from Guardian, node heartbeats and the security agent to notifications. */
+function notificationForEvent(event: AutomationEvent): NotifyInput | null {
+  const p = event.payload;
+  switch (event.type) {
+    case "node.stale":
+      return {
+        category: "machine_offline", severity: "warning", source: event.source,
+        title: `${p.name} is offline`, body: `No heartbeat from ${p.hostname} since ${p.lastHeartbeat}.`,
+        link: `/settings/machines?machine=${p.machineId}`,
+        dedupeKey: `node.stale:${p.machineId}`,
+      };
+    case "node.online":
+      return {
+        category: "machine_offline", severity: "info", source: event.source,
+        title: `${p.name} is back online`, body: `Heartbeats from ${p.hostname} resumed after being offline since ${p.offlineSince}.`,
+        link: `/settings/machines?machine=${p.machineId}`,
+        dedupeKey: `node.online:${p.machineId}`,
+      };
+    case "guardian.log":
+      if (p.severity !== "warning" && p.severity !== "critical") return null;
+      return {
+        category: event.source === "secret-rotation" ? "maintenance_due" : "guardian", severity: p.severity, source: event.source,
+        title: p.message, body: p.details || "",
+        link: event.source === "secret-rotation" ? "/secrets" : "/admin?tab=guardian",
+        dedupeKey: `guardian:${p.type}:${p.message}`,
+      };
+    case "security.event":
+      if (p.severity !== "critical" && p.severity !== "high") return null;
+      return {
+        category: "security", severity: p.severity === "critical" ? "critical" : "warning", source: event.source,
+        title: p.message, body: `${p.type} from ${p.sourceIp}${p.blocked ? " (blocked)" : ""}`,
+        link: "/admin?tab=security",
+        dedupeKey: `security:${p.type}:${p.sourceIp}`,
+      };
+    default:
+      return null;
+  }
+}
+
+function onBusEvent(event: AutomationEvent) {
+  const input = notificationForEvent(event);
+  if (!input) return;
+  notify(input).catch(err => console.error(`[Notifications] Failed to record ${event.type}:`, err.message));
+}
+
+export function startNotificationService() {
+  eventBus.off("event", onBusEvent);
+  eventBus.on("event", onBusEvent);
+  if (tickTimer) clearInterval(tickTimer);
+  tickTimer = setInterval(() => { void tick(); }, TICK_MS);
+  tickTimer.unref?.();
+  if (pruneTimer) clearInterval(pruneTimer);
+  pruneTimer = setInterval(() => {
+    storage.pruneNotifications(new Date(Date.now() - RETENTION_DAYS * DAY_MS))
+      .catch(err => console.error("[Notifications] Prune failed:", err.message));
+  }, PRUNE_INTERVAL_MS);
+  pruneTimer.unref?.();
+  console.log("[Notifications] Service started");
+}
@@ -0,0 +1,164 @@
+import { createHash } from "crypto";
+import { storage } from "./storage";
+import { executeRawSSHCommand, type SSHConnectionConfig } from "./ssh";
+import { readTextFile, writeTextFile, fileErrorStatus } from "./sftp";
+import {
+  OPENCLAW_CONFIG_FILES, openclawJsonSchema, openclawNodeJsonSchema,
+  type OpenclawConfigFile, type OpenclawConfigVersion,
+} from "@shared/schema";
+
+const CONFIG_DIR = "/root/.openclaw";
+const RESTART_TIMEOUT_MS = 60000;
+const RESTART_GATEWAY = "(systemctl restart openclaw-gateway 2>&1 || openclaw gateway restart 2>&1) && sleep 3 && (systemctl is-active openclaw-gateway 2>/dev/null || openclaw gateway status 2>&1)";
+
+const FILE_SCHEMAS = {
+  "openclaw.json": openclawJsonSchema,
+  "node.json": openclawNodeJsonSchema,
+} as const;
+
+export interface ConfigValidation {
+  valid: boolean;
+  errors: string[];
+}
+
+export interface LiveConfig {
+  file: OpenclawConfigFile;
+  path: string;
+  exists: boolean;
+  content: string;
+  mtime: number | null;
+  lastDeployed: OpenclawConfigVersion | null;
+  validation: ConfigValidation;
+}
+
+export interface GatewayRestartResult {
+  success: boolean;
+  output: string;
+}
+
+export type ConfigDeployResult =
+  | { conflict: true; currentMtime: number }
+  | { conflict: false; version: OpenclawConfigVersion; mtime: number; restart: GatewayRestartResult | null };
+
+export interface ConfigDeployOptions {
+  instanceId: string;
+  file: OpenclawConfigFile;
+  content: string;
+  expectedMtime?: number;
+  note?: string | null;
+  userId?: string | null;
+  restart?: boolean;
+}
+
+function httpError(status: number, message: string, extra?: Record<string, unknown>): Error {
+  return Object.assign(new Error(message), { status, ...extra });
+}
+
+export function isConfigFile(file: unknown): file is OpenclawConfigFile {
+  return OPENCLAW_CONFIG_FILES.includes(file as OpenclawConfigFile);
+}
+
+export function configFilePath(file: OpenclawConfigFile): string {
+  return `${CONFIG_DIR}/${file}`;
+}
+
+function contentHash(content: string): string {
+  return createHash("sha256").update(content).digest("hex");
+}
+
+/** Parses the file and checks the keys the dashboard knows about; other keys are left to OpenClaw. */
+export function validateConfigText(file: OpenclawConfigFile, text: string): ConfigValidation {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (err: any) {
+    return { valid: false, errors: [`Invalid JSON: ${err.message}`] };
+  }
+  const result = FILE_SCHEMAS[file].safeParse(parsed);
+  if (result.success) return { valid: true, errors: [] };
+  return {
+    valid: false,
+    errors: result.error.issues.map(issue => `${issue.path.length ? issue.path.join(".") : "(root)"}: ${issue.message}`),
+  };
+}
+
+/**
+ * Reads the file from the VPS. The first time a file is loaded its current content is stored as
+ * the baseline version, so there is always something to diff against and roll back to.
+ */
+export async function loadLiveConfig(sshConfig: SSHConnectionConfig, instanceId: string, file: OpenclawConfigFile): Promise<LiveConfig> {
+  const path = configFilePath(file);
+  let content = "";
+  let mtime: number | null = null;
+  try {
+    const remote = await readTextFile(sshConfig, path);
+    content = remote.content;
+    mtime = remote.mtime;
+  } catch (err) {
+    if (fileErrorStatus(err) !== 404) throw err;
+  }
+
+  let lastDeployed = await storage.getLatestOpenclawConfigVersion(instanceId, file) ?? null;
+  if (!lastDeployed && mtime !== null) {
+    lastDeployed = await storage.createOpenclawConfigVersion({
+      instanceId,
+      file,
+      content,
+      contentHash: contentHash(content),
+      source: "baseline",
+      note: "Loaded from the VPS",
+      userId: null,
+    });
+  }
+
+  return { file, path, exists: mtime !== null, content, mtime, lastDeployed, validation: validateConfigText(file, content) };
+}
+
+export async function restartGateway(sshConfig: SSHConnectionConfig): Promise<GatewayRestartResult> {
+  const result = await executeRawSSHCommand(RESTART_GATEWAY, sshConfig, 0, RESTART_TIMEOUT_MS);
+  return { success: result.success, output: (result.output || result.error || "").substring(0, 2000) };
+}
+
+async function writeVersion(sshConfig: SSHConnectionConfig, options: ConfigDeployOptions, source: "deploy" | "rollback"): Promise<ConfigDeployResult> {
+  const validation = validateConfigText(options.file, options.content);
+  if (!validation.valid) throw httpError(422, "The config has validation errors", { errors: validation.errors });
+
+  const written = await writeTextFile(sshConfig, configFilePath(options.file), options.content, options.expectedMtime);
+  if (written.conflict) return written;
+
+  const version = await storage.createOpenclawConfigVersion({
+    instanceId: options.instanceId,
+    file: options.file,
+    content: options.content,
+    contentHash: contentHash(options.content),
+    source,
+    note: options.note || null,
+    userId: options.userId ?? null,
+  });
+  const restart = options.restart === false ? null : await restartGateway(sshConfig);
+  return { conflict: false, version, mtime: written.mtime, restart };
+}
+
+/** Validates and writes the file, records it as a new version, then restarts the gateway unless told not to. */
+export function deployConfig(sshConfig: SSHConnectionConfig, options: ConfigDeployOptions): Promise<ConfigDeployResult> {
+  return writeVersion(sshConfig, options, "deploy");
+}
+
+/** Writes a stored version back to the VPS, regardless of what is there now, and restarts the gateway. */
+export async function rollbackConfig(
+  sshConfig: SSHConnectionConfig,
+  instanceId: string,
+  file: OpenclawConfigFile,
+  versionId: string,
+  userId?: string | null,
+): Promise<ConfigDeployResult> {
+  const target = await storage.getOpenclawConfigVersion(versionId);
+  if (!target || target.instanceId !== instanceId || target.file !== file) throw httpError(404, "Version not found");
+  return writeVersion(sshConfig, {
+    instanceId,
+    file,
+    content: target.content,
+    note: `Rolled back to the ${target.source} of ${target.createdAt.toISOString()}`,
+    userId,
+  }, "rollback");
+}
@@ -0,0 +1,148 @@
+import { executeRawSSHCommand, streamSSHCommand, type SSHConnectionConfig, type SSHResult, type SSHStreamOptions } from "./ssh";
+
+// Progress is visible when streamed, so a slow npm install or image pull is allowed to run longer.
+const STREAMED_UPDATE_TIMEOUT_MS = 10 * 60 * 1000;
+
+export interface OpenclawUpdateResult {
+  success: boolean;
+  newVersion: string;
+  output: string;
+  method: string;
+  alreadyLatest?: boolean;
+  gatewayRunning?: boolean;
+  sshSuccess?: boolean;
+  sshError?: string;
+}
+
+// No abort signal: stopping midway can leave the gateway killed and not yet restarted, so an update always runs to the end.
+export interface OpenclawUpdateStream extends Pick<SSHStreamOptions, "onStdout" | "onStderr"> {
+  onPhase?: (message: string) => void;
+}
+
+const UPDATE_RETRIES = 2;
+
+// Same retry policy as executeRawSSHCommand: only timeouts and failed connections are tried again.
+async function streamUpdateCommand(command: string, sshConfig: SSHConnectionConfig, stream: OpenclawUpdateStream): Promise<SSHResult> {
+  let result: SSHResult = { success: false, output: "", error: "SSH failed after retries" };
+  for (let attempt = 0; attempt <= UPDATE_RETRIES; attempt++) {
+    if (attempt > 0) stream.onPhase?.(`Retrying (attempt ${attempt + 1} of ${UPDATE_RETRIES + 1})...`);
+    result = await streamSSHCommand(command, sshConfig, { onStdout: stream.onStdout, onStderr: stream.onStderr, timeoutMs: STREAMED_UPDATE_TIMEOUT_MS });
+    if (result.success || !(result.error?.includes("timed out") || result.error?.includes("connection failed"))) break;
+    if (attempt < UPDATE_RETRIES) await new Promise(r => setTimeout(r, 3000));
+  }
+  return result;
+}
+
+/** Updates OpenClaw on the VPS via Docker or npm, restarts the gateway and reports the new version. */
+export async function runOpenclawUpdate(
+  sshConfig: SSHConnectionConfig,
+  dockerProject: string,
+  stream?: OpenclawUpdateStream
+): Promise<OpenclawUpdateResult> {
+  const onPhase = stream?.onPhase;
+
+  const hasDockerCmd = [
+    `docker compose -p ${dockerProject} ps --format json 2>/dev/null | head -1`,
+    'echo "---ALT---"',
+    `docker ps --filter "name=${dockerProject}" --format "{{.Names}}" 2>/dev/null | head -1`,
+    'echo "---ALT2---"',
+    'docker ps --filter "name=openclaw" --format "{{.Names}}" 2>/dev/null | head -1',
+  ].join('; ');
+  onPhase?.("Detecting how OpenClaw is installed...");
+  const dockerCheck = await executeRawSSHCommand(hasDockerCmd, sshConfig);
+  const dkOut = dockerCheck.output || "";
+  const dkParts = dkOut.split("---ALT---");
+  const composeOut = dkParts[0]?.trim() || "";
+  const altParts = (dkParts[1] || "").split("---ALT2---");
+  const filterOut = altParts[0]?.trim() || "";
+  const anyOpenclawContainer = altParts[1]?.trim() || "";
+  const isDocker = !!(composeOut && composeOut !== "[]") || !!filterOut || !!anyOpenclawContainer;
+  const detectedContainer = filterOut || anyOpenclawContainer || "";
+
+  const versionCheckCmd = [
+    'npm view openclaw version 2>/dev/null || echo "NO_NPM"',
+    'echo "---CUR---"',
+    'for p in /usr/local/lib/node_modules/openclaw /usr/lib/node_modules/openclaw /root/.npm-global/lib/node_modules/openclaw; do [ -f "$p/package.json" ] && grep \'"version"\' "$p/package.json" | head -1 && break; done 2>/dev/null || echo "NO_PKG"',
+  ].join('; ');
+  onPhase?.("Checking installed and latest versions...");
+  const preCheck = await executeRawSSHCommand(versionCheckCmd, sshConfig);
+  const preOut = preCheck.output || "";
+  const preParts = preOut.split("---CUR---");
+  const npmLatest = preParts[0]?.trim().match(/(\d+[\.\d-]+\S*)/)?.[1] || "";
+  const curPkgMatch = preParts[1]?.trim().match(/"version"\s*:\s*"([^"]+)"/);
+  const currentInstalled = curPkgMatch?.[1] || "";
+
+  if (npmLatest && currentInstalled && npmLatest === currentInstalled && !isDocker) {
+    return {
+      success: true,
+      newVersion: currentInstalled,
+      output: `Already at the latest version (${currentInstalled}). No update needed.`,
+      method: "npm",
+      alreadyLatest: true,
+    };
+  }
+
+  let updateCmd: string;
+  let method: string;
+  if (isDocker) {
+    method = "docker";
+    const containerName = detectedContainer || `${dockerProject}.*gateway`;
+    updateCmd = [
+      `echo "Pulling latest Docker images..."`,
+      `cd /root/${dockerProject} 2>/dev/null || cd /opt/${dockerProject} 2>/dev/null || cd $(find / -maxdepth 3 -name "docker-compose.yml" -path "*${dockerProject}*" -exec dirname {} \\; 2>/dev/null | head -1) 2>/dev/null || cd $(find / -maxdepth 3 -name "docker-compose.yml" -path "*openclaw*" -exec dirname {} \\; 2>/dev/null | head -1) 2>/dev/null`,
+      `docker compose pull 2>&1 || docker pull $(docker inspect --format='{{.Config.Image}}' ${containerName} 2>/dev/null) 2>&1`,
+      'echo "---RESTART---"',
+      `docker compose down 2>&1 || true`,
+      `docker compose up -d 2>&1 || docker restart ${containerName} 2>&1`,
+      'sleep 5',
+      'echo "---STATUS---"',
+      `docker ps --filter "name=openclaw" --format "table {{.Names}}\\t{{.Status}}" 2>&1`,
+      'echo "---VERSION---"',
+      `docker exec ${containerName} openclaw --version 2>/dev/null || docker exec $(docker ps -qf "name=openclaw" | head -1) openclaw --version 2>/dev/null || echo "NO_VERSION"`,
+    ].join('; ');
+  } else {
+    method = "npm";
+    updateCmd = [
+      'echo "Installing latest OpenClaw via npm..."',
+      'npm install -g openclaw@latest 2>&1; NPM_EXIT=$?',
+      'echo "---NPM_EXIT=$NPM_EXIT---"',
+      'echo "---RESTART---"',
+      'kill $(pgrep -f "openclaw gateway") $(pgrep -f "openclaw-gateway") 2>/dev/null || true',
+      'sleep 2',
+      'nohup openclaw gateway run --bind lan --port 18789 --force > /tmp/openclaw-gateway.log 2>&1 & disown',
+      'sleep 5',
+      'echo "---VERSION---"',
+      'openclaw --version 2>/dev/null || echo "NO_VERSION"',
+      'for p in /usr/local/lib/node_modules/openclaw /usr/lib/node_modules/openclaw /root/.npm-global/lib/node_modules/openclaw; do [ -f "$p/package.json" ] && grep \'"version"\' "$p/package.json" | head -1 && break; done 2>/dev/null || echo "NO_PKG"',
+      'echo "---GATEWAY---"',
+      'curl -sf http://localhost:18789/health 2>/dev/null && echo "GATEWAY_OK" || echo "GATEWAY_DOWN"',
+    ].join('; ');
+  }
+
+  onPhase?.(method === "docker" ? "Pulling images and restarting containers..." : "Installing the latest release with npm...");
+  const result = stream
+    ? await streamUpdateCommand(updateCmd, sshConfig, stream)
+    : await executeRawSSHCommand(updateCmd, sshConfig, UPDATE_RETRIES, 120000);
+
+  const output = result.output || "";
+  const stderr = result.error || "";
+  const versionSection = output.split("---VERSION---")[1]?.split("---GATEWAY---")[0]?.trim() || "";
+  const versionMatch = versionSection.match(/"version"\s*:\s*"([^"]+)"/) || versionSection.match(/(\d+\.\d+[\.\d-]*\S*)/);
+  const newVersion = versionMatch ? versionMatch[1] : "";
+
+  const hasNpmFail = output.includes("NPM_EXIT=1") || output.includes("npm ERR!");
+  const gatewayOk = output.includes("GATEWAY_OK");
+  const hasVersionOutput = newVersion && newVersion !== "NO_VERSION";
+  const updateSucceeded = (hasVersionOutput || gatewayOk) && !hasNpmFail;
+
+
+  return {
+    success: !!updateSucceeded,
+    newVersion: newVersion || "updated",
+    output,
+    method,
+    gatewayRunning: gatewayOk,
+    sshSuccess: result.success,
+    sshError: stderr || undefined,
+  };
+}
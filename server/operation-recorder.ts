@@ -0,0 +1,200 @@
+import { AsyncLocalStorage } from "async_hooks";
+import type { Request, Response, NextFunction } from "express";
+import { storage } from "./storage";
+import { setCommandListener, type SSHConnectionConfig, type SSHResult } from "./ssh";
+import type { OperationTranscriptEvent, OperationType } from "@shared/schema";
+
+const MUTATING = ["POST", "PUT", "PATCH", "DELETE"];
+const MAX_COMMAND_CHARS = 64000;
+const MAX_OUTPUT_CHARS = 200000;
+const MAX_TRANSCRIPT_CHARS = 1000000;
+const RETENTION_DAYS = 90;
+const PRUNE_INTERVAL_MS = 6 * 60 * 60 * 1000;
+const MIN_SECRET_LENGTH = 8;
+
+// First match wins; other mutating API requests that reach SSH are recorded as ssh_command.
+const OPERATION_ROUTES: Array<{ pattern: RegExp; type: OperationType }> = [
+  { pattern: /^\/api\/ssh\/gateway\//, type: "gateway_action" },
+  { pattern: /^\/api\/files(\/|$)/, type: "file_write" },
+  { pattern: /^\/api\/openclaw\/config\/files(\/|$)/, type: "file_write" },
+  { pattern: /^\/api\/ai\//, type: "ai_task" },
+];
+
+interface OperationContext {
+  source: string;
+  operationType: OperationType;
+  userId: () => string | null;
+  // Set by handlers whose raw command is unreadable, e.g. file contents sent as base64.
+  summary?: string;
+  command?: string;
+  input?: string;
+}
+
+export interface TerminalRecorder {
+  append(direction: "i" | "o", data: string): void;
+  save(exitReason: string): Promise<void>;
+}
+
+const operationContext = new AsyncLocalStorage<OperationContext>();
+let pruneTimer: ReturnType<typeof setInterval> | null = null;
+
+/** Records SSH commands run while handling mutating API requests, attributed to the signed-in user. */
+export function operationContextMiddleware(req: Request, _res: Response, next: NextFunction) {
+  if (!req.path.startsWith("/api/") || !MUTATING.includes(req.method)) return next();
+  const operationType = OPERATION_ROUTES.find(r => r.pattern.test(req.path))?.type ?? "ssh_command";
+  const context: OperationContext = {
+    source: `${req.method} ${req.path}`,
+    operationType,
+    userId: () => req.session?.userId || (req as any).voiceTokenUserId || null,
+  };
+  operationContext.run(context, () => next());
+}
+
+export function annotateOperation(details: Pick<OperationContext, "summary" | "command" | "input">) {
+  const context = operationContext.getStore();
+  if (context) Object.assign(context, details);
+}
+
+function targetHost(config: SSHConnectionConfig): string {
+  return `${config.username || "root"}@${config.host}:${config.port || 22}`;
+}
+
+function knownSecrets(config: SSHConnectionConfig): string[] {
+  const values = Object.entries(process.env)
+    .filter(([name, value]) => /(KEY|TOKEN|SECRET|PASSWORD)/i.test(name) && !!value)
+    .map(([, value]) => value as string);
+  if (config.password) values.push(config.password);
+  return values.filter(v => v.length >= MIN_SECRET_LENGTH).sort((a, b) => b.length - a.length);
+}
+
+/** Masks secret-looking assignments, CLI flags and known secret values before anything is stored. */
+export function redactSecrets(text: string, secrets: string[]): string {
+  let redacted = text;
+  for (const secret of secrets) redacted = redacted.split(secret).join("***");
+  return redacted
+    .replace(/(--(?:token|password|api-key|secret)\s+)("[^"]*"|'[^']*'|\S+)/gi, "$1***")
+    .replace(
+      /\b([A-Za-z0-9_]*(?:token|password|passwd|secret|api[_-]?key)[A-Za-z0-9_]*)(["']?\s*[=:]\s*)("[^"]*"|'[^']*'|[^\s"',;&}]+)/gi,
+      (_match, key: string, separator: string, value: string) => {
+        const quote = value.startsWith('"') || value.startsWith("'") ? value[0] : "";
+        return `${key}${separator}${quote}***${quote}`;
+      },
+    );
+}
+
+function limit(text: string, max: number): { text: string; truncated: boolean } {
+  if (text.length <= max) return { text, truncated: false };
+  return { text: `${text.slice(0, max)}\n...[${text.length - max} characters truncated]`, truncated: true };
+}
+
+function onCommandStart({ command, config, startedAt }: { command: string; config: SSHConnectionConfig; startedAt: Date }) {
+  const context = operationContext.getStore();
+  if (!context) return;
+  const userId = context.userId();
+  const display = context.command ?? command;
+  const { summary, input } = context;
+
+  return (result: SSHResult, durationMs: number) => {
+    const secrets = knownSecrets(config);
+    const recordedCommand = limit(redactSecrets(display, secrets), MAX_COMMAND_CHARS);
+    const stdout = limit(redactSecrets(result.output || "", secrets), MAX_OUTPUT_CHARS);
+    const stderr = limit(redactSecrets(result.error || "", secrets), MAX_OUTPUT_CHARS);
+    const recordedInput = input !== undefined ? limit(redactSecrets(input, secrets), MAX_OUTPUT_CHARS) : undefined;
+    storage.createOperationRecord({
+      operationType: context.operationType,
+      source: context.source,
+      summary: summary ?? null,
+      command: recordedCommand.text,
+      input: recordedInput?.text ?? null,
+      targetHost: targetHost(config),
+      userId,
+      stdout: stdout.text,
+      stderr: stderr.text,
+      exitCode: result.exitCode ?? null,
+      success: result.success,
+      durationMs,
+      truncated: recordedCommand.truncated || stdout.truncated || stderr.truncated || !!recordedInput?.truncated,
+      startedAt,
+    }).catch(err => console.error("[Operations] Failed to record command:", err.message));
+  };
+}
+
+/**
+ * Merges each direction's chunks into whole lines, stamped with the time of their first chunk. Input arrives one
+ * keystroke per event and output in arbitrary pieces, so redacting the raw events would miss split secrets.
+ */
+function coalesceLines(events: OperationTranscriptEvent[]): OperationTranscriptEvent[] {
+  const lines: OperationTranscriptEvent[] = [];
+  const pending: Record<"i" | "o", { t: number; data: string } | null> = { i: null, o: null };
+  for (const [t, direction, data] of events) {
+    const buffer = pending[direction] ?? { t, data: "" };
+    buffer.data += data;
+    const end = Math.max(buffer.data.lastIndexOf("\n"), buffer.data.lastIndexOf("\r")) + 1;
+    if (end > 0) {
+      lines.push([buffer.t, direction, buffer.data.slice(0, end)]);
+      pending[direction] = end < buffer.data.length ? { t, data: buffer.data.slice(end) } : null;
+    } else {
+      pending[direction] = buffer;
+    }
+  }
+  for (const direction of ["i", "o"] as const) {
+    const buffer = pending[direction];
+    if (buffer) lines.push([buffer.t, direction, buffer.data]);
+  }
+  return lines.sort((a, b) => a[0] - b[0]);
+}
+
+/** Collects a terminal session's timed input and output, stored as one record when the session ends. */
+export function startTerminalRecording(
+  target: { label: string; kind: "vps" | "node"; config: SSHConnectionConfig },
+  userId: string | null,
+): TerminalRecorder {
+  const startedAt = new Date();
+  const transcript: OperationTranscriptEvent[] = [];
+  let chars = 0;
+  let truncated = false;
+
+  return {
+    append(direction, data) {
+      if (truncated || !data) return;
+      if (chars + data.length > MAX_TRANSCRIPT_CHARS) {
+        truncated = true;
+        return;
+      }
+      chars += data.length;
+      transcript.push([Date.now() - startedAt.getTime(), direction, data]);
+    },
+    async save(exitReason) {
+      const secrets = knownSecrets(target.config);
+      const redacted = coalesceLines(transcript).map(([t, direction, data]): OperationTranscriptEvent => [t, direction, redactSecrets(data, secrets)]);
+      const output = limit(redactSecrets(transcript.filter(e => e[1] === "o").map(e => e[2]).join(""), secrets), MAX_OUTPUT_CHARS);
+      await storage.createOperationRecord({
+        operationType: "terminal",
+        source: target.kind === "node" ? "node terminal" : "VPS terminal",
+        summary: `Terminal session on ${target.label}: ${exitReason}`,
+        command: target.kind === "node" ? "line-mode shell via gateway system.run" : "interactive shell (PTY)",
+        input: null,
+        targetHost: target.kind === "node" ? target.label : targetHost(target.config),
+        userId,
+        stdout: output.text,
+        stderr: "",
+        exitCode: null,
+        success: true,
+        durationMs: Date.now() - startedAt.getTime(),
+        truncated: truncated || output.truncated,
+        transcript: redacted,
+        startedAt,
+      });
+    },
+  };
+}
+
+export function startOperationRecorder() {
+  setCommandListener(onCommandStart);
+  if (pruneTimer) clearInterval(pruneTimer);
+  pruneTimer = setInterval(() => {
+    storage.pruneOperationRecords(new Date(Date.now() - RETENTION_DAYS * 24 * 3600 * 1000))
+      .catch(err => console.error("[Operations] Prune failed:", err.message));
+  }, PRUNE_INTERVAL_MS);
+  pruneTimer.unref?.();
+}
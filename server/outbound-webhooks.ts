@@ -0,0 +1,218 @@
+import { randomBytes, randomUUID } from "crypto";
+import { storage } from "./storage";
+import { signWebhookPayload } from "./integrations";
+import { notify } from "./notifications";
+import { invalidateLiveQueries } from "./live-updates";
+import {
+  WEBHOOK_EVENT_TYPES,
+  type WebhookDelivery, type WebhookEventType, type WebhookSubscription, type WebhookSubscriptionSummary,
+} from "@shared/schema";
+
+const REQUEST_TIMEOUT_MS = 10000;
+const MAX_ATTEMPTS = 8;
+const BASE_RETRY_MS = 30 * 1000;
+const MAX_RETRY_MS = 60 * 60 * 1000;
+const TICK_MS = 15 * 1000;
+const BATCH_SIZE = 20;
+// A pending delivery this old was interrupted by a restart before its first attempt finished.
+const STALE_PENDING_MS = 2 * 60 * 1000;
+const MAX_RESPONSE_CHARS = 4000;
+const PRUNE_INTERVAL_MS = 6 * 60 * 60 * 1000;
+const RETENTION_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const PING_EVENT = "ping";
+
+let tickTimer: ReturnType<typeof setInterval> | null = null;
+let pruneTimer: ReturnType<typeof setInterval> | null = null;
+let ticking = false;
+const inFlight = new Set<string>();
+
+export function isWebhookEventType(type: string): type is WebhookEventType {
+  return WEBHOOK_EVENT_TYPES.includes(type as WebhookEventType);
+}
+
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString("hex")}`;
+}
+
+export function toSubscriptionSummary(subscription: WebhookSubscription): WebhookSubscriptionSummary {
+  const { secret, ...rest } = subscription;
+  return { ...rest, secretPreview: `${secret.slice(0, 6)}…${secret.slice(-4)}` };
+}
+
+function subscribes(subscription: WebhookSubscription, type: string): boolean {
+  return subscription.enabled && (subscription.events.length === 0 || subscription.events.includes(type as WebhookEventType));
+}
+
+/** Whether any enabled subscription listens for one of these events, so callers can skip work nobody receives. */
+export async function hasWebhookSubscribers(types: WebhookEventType[]): Promise<boolean> {
+  const subscriptions = await storage.getWebhookSubscriptions();
+  return subscriptions.some(s => types.some(type => subscribes(s, type)));
+}
+
+function retryDelayMs(attempts: number): number {
+  return Math.min(BASE_RETRY_MS * 2 ** (attempts - 1), MAX_RETRY_MS);
+}
+
+/**
+ * Posts one attempt of a delivery. The body is fixed when the event is emitted; the timestamp and signature
+ * are fresh on every attempt so receivers can reject replays. Failures are retried with exponential backoff
+ * until MAX_ATTEMPTS, after which the delivery is dead-lettered and only a manual redelivery resends it.
+ */
+async function attemptDelivery(delivery: WebhookDelivery): Promise<WebhookDelivery> {
+  if (inFlight.has(delivery.id)) return delivery;
+  inFlight.add(delivery.id);
+  try {
+    const subscription = await storage.getWebhookSubscription(delivery.subscriptionId);
+    if (!subscription || !subscription.enabled) {
+      const updated = await storage.updateWebhookDelivery(delivery.id, {
+        status: "dead",
+        nextAttemptAt: null,
+        error: subscription ? "Subscription is disabled" : "Subscription was deleted",
+      });
+      return updated ?? delivery;
+    }
+
+    const attempts = delivery.attempts + 1;
+    const timestamp = String(Math.floor(Date.now() / 1000));
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+      "User-Agent": "OpenClaw-Webhooks/1.0",
+      "X-OpenClaw-Event": delivery.eventType,
+      "X-OpenClaw-Delivery": delivery.id,
+      "X-OpenClaw-Timestamp": timestamp,
+      "X-OpenClaw-Signature": `sha256=${signWebhookPayload(subscription.secret, timestamp, delivery.requestBody)}`,
+    };
+
+    const started = Date.now();
+    let responseStatus: number | null = null;
+    let responseBody: string | null = null;
+    let error: string | null = null;
+    try {
+      const response = await fetch(subscription.url, {
+        method: "POST",
+        headers,
+        body: delivery.requestBody,
+        redirect: "manual",
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      });
+      responseStatus = response.status;
+      responseBody = (await response.text().catch(() => "")).slice(0, MAX_RESPONSE_CHARS);
+      if (!response.ok) error = `Endpoint returned ${response.status}`;
+    } catch (err: any) {
+      error = err.name === "TimeoutError" ? `No response within ${REQUEST_TIMEOUT_MS / 1000}s` : err.cause?.message || err.message || "Request failed";
+    }
+
+    const now = new Date();
+    const status = !error ? "delivered" : attempts >= MAX_ATTEMPTS ? "dead" : "retrying";
+    const updated = await storage.updateWebhookDelivery(delivery.id, {
+      status,
+      attempts,
+      requestHeaders: headers,
+      responseStatus,
+      responseBody,
+      error,
+      durationMs: now.getTime() - started,
+      lastAttemptAt: now,
+      nextAttemptAt: status === "retrying" ? new Date(now.getTime() + retryDelayMs(attempts)) : null,
+      deliveredAt: status === "delivered" ? now : null,
+    });
+
+    invalidateLiveQueries([["/api/outbound-webhooks/deliveries"]]);
+    if (status === "dead") {
+      await notify({
+        category: "system",
+        severity: "warning",
+        title: `Webhook delivery failed: ${subscription.name}`,
+        body: `${delivery.eventType} could not be delivered to ${subscription.url} after ${attempts} attempts. Last error: ${error}`,
+        source: "webhooks",
+        link: `/settings/webhooks?subscription=${subscription.id}`,
+        dedupeKey: `webhook-dead:${subscription.id}`,
+      }).catch(err => console.error("[Webhooks] Dead-letter notification failed:", err.message));
+    }
+    return updated ?? delivery;
+  } finally {
+    inFlight.delete(delivery.id);
+  }
+}
+
+async function enqueue(subscription: WebhookSubscription, eventId: string, type: string, requestBody: string, redeliveryOf?: string): Promise<WebhookDelivery> {
+  return storage.createWebhookDelivery({
+    subscriptionId: subscription.id,
+    eventId,
+    eventType: type,
+    status: "pending",
+    requestBody,
+    redeliveryOf: redeliveryOf ?? null,
+  });
+}
+
+function eventBody(eventId: string, type: string, data: Record<string, unknown>): string {
+  return JSON.stringify({ id: eventId, event: type, timestamp: new Date().toISOString(), data });
+}
+
+/** Queues the event for every subscription that listens for it and makes the first attempt right away. */
+export async function emitWebhookEvent(type: WebhookEventType, data: Record<string, unknown>): Promise<void> {
+  const subscriptions = (await storage.getWebhookSubscriptions()).filter(s => subscribes(s, type));
+  if (subscriptions.length === 0) return;
+
+  const eventId = randomUUID();
+  const requestBody = eventBody(eventId, type, data);
+  for (const subscription of subscriptions) {
+    const delivery = await enqueue(subscription, eventId, type, requestBody);
+    attemptDelivery(delivery).catch(err => console.error(`[Webhooks] Delivery ${delivery.id} failed:`, err.message));
+  }
+}
+
+/** Fire-and-forget wrapper for call sites that must not wait on, or fail because of, webhook delivery. */
+export function emitWebhookEventInBackground(type: WebhookEventType, data: Record<string, unknown>): void {
+  emitWebhookEvent(type, data).catch(err => console.error(`[Webhooks] Failed to emit ${type}:`, err.message));
+}
+
+/** Sends a signed ping to one subscription, ignoring its event filter, and waits for the first attempt. */
+export async function pingWebhookSubscription(subscription: WebhookSubscription): Promise<WebhookDelivery> {
+  const eventId = randomUUID();
+  const delivery = await enqueue(subscription, eventId, PING_EVENT, eventBody(eventId, PING_EVENT, {
+    subscriptionId: subscription.id,
+    name: subscription.name,
+  }));
+  return attemptDelivery(delivery);
+}
+
+/** Sends a delivery's original body again as a new delivery, whatever state the original ended in. */
+export async function redeliverWebhook(delivery: WebhookDelivery): Promise<WebhookDelivery> {
+  const subscription = await storage.getWebhookSubscription(delivery.subscriptionId);
+  if (!subscription) throw new Error("The subscription for this delivery no longer exists");
+  const redelivery = await enqueue(subscription, delivery.eventId, delivery.eventType, delivery.requestBody, delivery.redeliveryOf ?? delivery.id);
+  return attemptDelivery(redelivery);
+}
+
+async function tick(): Promise<void> {
+  if (ticking) return;
+  ticking = true;
+  try {
+    const now = new Date();
+    const due = await storage.getDueWebhookDeliveries(now, new Date(now.getTime() - STALE_PENDING_MS), BATCH_SIZE);
+    for (const delivery of due) {
+      await attemptDelivery(delivery).catch(err => console.error(`[Webhooks] Retry of ${delivery.id} failed:`, err.message));
+    }
+  } catch (err: any) {
+    console.error("[Webhooks] Dispatcher tick failed:", err.message);
+  } finally {
+    ticking = false;
+  }
+}
+
+export function startWebhookDispatcher() {
+  if (tickTimer) clearInterval(tickTimer);
+  tickTimer = setInterval(() => { void tick(); }, TICK_MS);
+  tickTimer.unref?.();
+  if (pruneTimer) clearInterval(pruneTimer);
+  pruneTimer = setInterval(() => {
+    storage.pruneWebhookDeliveries(new Date(Date.now() - RETENTION_DAYS * DAY_MS))
+      .catch(err => console.error("[Webhooks] Prune failed:", err.message));
+  }, PRUNE_INTERVAL_MS);
+  pruneTimer.unref?.();
+  console.log("[Webhooks] Dispatcher started");
+}
@@ -0,0 +1,103 @@
+import type { Request, Response, NextFunction } from "express";
+import { storage } from "./storage";
+import { getMaintenanceState, isBlockedDuringMaintenance } from "./maintenance";
+import { ROLE_PERMISSIONS, USER_ROLES, type Permission, type UserRole } from "@shared/schema";
+
+interface RouteRule {
+  pattern: RegExp;
+  methods?: string[];
+  permission: Permission;
+}
+
+const MUTATING = ["POST", "PUT", "PATCH", "DELETE"];
+
+// First match wins. Routes not listed need "view" for reads and "operate" for anything else.
+const ROUTE_RULES: RouteRule[] = [
+  { pattern: /^\/api\/users(\/|$)/, permission: "users" },
+  // Only changes the caller's own read state.
+  { pattern: /^\/api\/notifications\/(read-all|[^/]+\/read)$/, methods: MUTATING, permission: "view" },
+  { pattern: /^\/api\/secrets(\/|$)/, permission: "secrets" },
+  { pattern: /^\/api\/(api-keys|llm-api-keys)(\/|$)/, permission: "secrets" },
+  { pattern: /^\/api\/ssh\/(skill-keys|push-env-keys|setup-clawhub-auth|setup-github-auth)(\/|$)/, permission: "secrets" },
+  { pattern: /^\/api\/gemini-proxy\/settings$/, permission: "secrets" },
+  { pattern: /^\/api\/openclaw\/config\/files(\/|$)/, permission: "secrets" },
+  // Subscriptions send audit events off the host, and the delivery log holds their payloads.
+  { pattern: /^\/api\/outbound-webhooks(\/|$)/, permission: "manage" },
+  // Installing our own key, setting the root password or unpinning the host key amounts to a root shell on the VPS.
+  { pattern: /^\/api\/vps\/(ssh-key|ssh-password|host-key)(\/|$)/, methods: MUTATING, permission: "shell" },
+  { pattern: /^\/api\/files(\/|$)/, permission: "shell" },
+  { pattern: /^\/api\/terminal(\/|$)/, permission: "shell" },
+  { pattern: /^\/api\/operations(\/|$)/, permission: "shell" },
+  { pattern: /^\/api\/ai\/conversations\/[^/]+\/messages$/, methods: MUTATING, permission: "shell" },
+  { pattern: /^\/api\/automation\/jobs\/[^/]+\/run$/, methods: MUTATING, permission: "operate" },
+  // Job definitions are arbitrary commands on VPS targets.
+  { pattern: /^\/api\/automation\/jobs(\/|$)/, methods: MUTATING, permission: "shell" },
+  { pattern: /^\/api\/admin\/(guardian\/fix|code-upgrades)/, methods: MUTATING, permission: "shell" },
+  {
+    pattern: /^\/api\/(settings|security|instances|machines|machine-groups|vps|nodes|node-setup|integrations|hostinger|skills|marketplace|openclaw\/(config|update)|whatsapp\/(deploy|stop)-vps-bot)(\/|$)/,
+    methods: MUTATING,
+    permission: "manage",
+  },
+];
+
+// Instance API tokens authenticate the gateway and scripts, not a person.
+const API_TOKEN_ROLE: UserRole = "operator";
+const ROLE_CACHE_MS = 30000;
+const roleCache = new Map<string, { role: UserRole | null; expiresAt: number }>();
+
+export function getRequiredPermission(method: string, path: string): Permission {
+  const rule = ROUTE_RULES.find(r => r.pattern.test(path) && (!r.methods || r.methods.includes(method)));
+  if (rule) return rule.permission;
+  return ["GET", "HEAD", "OPTIONS"].includes(method) ? "view" : "operate";
+}
+
+export function hasPermission(role: UserRole | null | undefined, permission: Permission): boolean {
+  return !!role && ROLE_PERMISSIONS[role].includes(permission);
+}
+
+export function toUserRole(value: string | null | undefined): UserRole | null {
+  return USER_ROLES.includes(value as UserRole) ? (value as UserRole) : null;
+}
+
+export async function getUserRole(userId: string): Promise<UserRole | null> {
+  const cached = roleCache.get(userId);
+  if (cached && cached.expiresAt > Date.now()) return cached.role;
+  const user = await storage.getUser(userId);
+  const role = toUserRole(user?.role);
+  roleCache.set(userId, { role, expiresAt: Date.now() + ROLE_CACHE_MS });
+  return role;
+}
+
+export function invalidateUserRole(userId: string): void {
+  roleCache.delete(userId);
+}
+
+/**
+ * Runs after authentication. Resolves the caller's role (session user, voice-token user or
+ * instance API token) and rejects the request with 403 if the route needs a permission the role lacks,
+ * or with 503 if it changes something while maintenance mode is on and the caller is not an owner.
+ */
+export function authorizeRequest(req: Request, res: Response, next: NextFunction): void {
+  const userId = req.session.userId || (req as any).voiceTokenUserId;
+  const resolveRole = userId
+    ? getUserRole(userId)
+    : Promise.resolve((req as any).apiTokenInstanceId ? API_TOKEN_ROLE : null);
+
+  resolveRole.then(async role => {
+    const permission = getRequiredPermission(req.method, req.path);
+    if (!hasPermission(role, permission)) {
+      return res.status(403).json({ error: `Your role (${role || "none"}) does not have the "${permission}" permission`, permission });
+    }
+    if (isBlockedDuringMaintenance(req.method, req.path, role)) {
+      const maintenance = await getMaintenanceState();
+      if (maintenance.active) {
+        res.setHeader("Retry-After", maintenance.endsAt ? String(Math.max(1, Math.ceil((Date.parse(maintenance.endsAt) - Date.now()) / 1000))) : "3600");
+        return res.status(503).json({ error: maintenance.message, maintenance: true, endsAt: maintenance.endsAt });
+      }
+    }
+    (req as any).userRole = role;
+    next();
+  }).catch(() => {
+    res.status(500).json({ error: "Failed to check permissions" });
+  });
+}
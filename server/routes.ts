@@ -1,12 +1,23 @@
 import type { Express, Request, Response, NextFunction } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { insertMachineSchema, insertApiKeySchema, insertLlmApiKeySchema, insertIntegrationSchema, insertInstanceSchema, insertSkillSchema, insertDocSchema, insertNodeSetupSessionSchema, insertEmailWorkflowSchema, insertReplitProjectSchema, insertHealthLogSchema, insertGroceryItemSchema, insertFinancialTransactionSchema, insertHabitSchema, insertHabitCompletionSchema, insertMeetingPrepSchema, insertFocusSessionSchema, insertLifeEventSchema, insertConnectedDeviceSchema } from "@shared/schema";
+import { insertMachineSchema, OPERATION_TYPES, type OperationRecord, type OperationRecordFilter, insertApiKeySchema, insertLlmApiKeySchema, insertIntegrationSchema, insertInstanceSchema, insertSkillSchema, insertDocSchema, insertNodeSetupSessionSchema, insertEmailWorkflowSchema, insertReplitProjectSchema, insertHealthLogSchema, insertGroceryItemSchema, insertFinancialTransactionSchema, insertHabitSchema, insertHabitCompletionSchema, insertMeetingPrepSchema, insertFocusSessionSchema, insertLifeEventSchema, insertConnectedDeviceSchema, ROLE_PERMISSIONS, USER_ROLES, SECURITY_EVENT_TYPES, SECURITY_SEVERITIES, SECURITY_POLICY_KEYS, updateSecurityPolicySchema, updateVpsSecurityBaselineSchema, updateSecretRotationSchema, insertWebhookSubscriptionSchema, WEBHOOK_DELIVERY_STATUSES, type WebhookDeliveryStatus } from "@shared/schema";
 import { z } from "zod";
 import { randomBytes, createHmac, timingSafeEqual } from "crypto";
 import multer from "multer";
 import { writeFileSync, unlinkSync, mkdirSync, existsSync, readFileSync } from "fs";
 import { join } from "path";
+import { tmpdir } from "os";
+import { isIP } from "net";
+import { eventBus, recordNodeHeartbeat, startEventSources } from "./event-bus";
+import { addLiveClient, checkGatewayHealth, invalidateLiveQueries, pushNotificationsRead, toUserNotification } from "./live-updates";
+import { emitWebhookEventInBackground, generateWebhookSecret, isWebhookEventType, pingWebhookSubscription, redeliverWebhook, toSubscriptionSummary } from "./outbound-webhooks";
+import { generateApiKey, hashLegacyApiKeys, requireApiKey, toApiKeySummary, validateIpAllowlist } from "./api-keys";
+import { authorizeRequest, getUserRole, hasPermission, invalidateUserRole, toUserRole } from "./rbac";
+import { getMaintenanceState, invalidateMaintenanceState } from "./maintenance";
+import { annotateOperation, operationContextMiddleware } from "./operation-recorder";
+import type { ConfigDeployResult } from "./openclaw-config";
+import { blockIp, clientIp, getSecurityPolicies, getSecurityStats, recordAuthFailure, securityGuard, startSecurityAgent, unblockIp, updateSecurityPolicy } from "./security";
 
 const voiceTokens = new Map<string, { userId: string; expiresAt: number }>();
 
@@ -19,6 +30,12 @@ const voiceUpload = multer({
   },
 });
 
+const MAX_UPLOAD_FILES = 20;
+const fileUpload = multer({
+  dest: join(tmpdir(), "openclaw-uploads"),
+  limits: { fileSize: 512 * 1024 * 1024, files: MAX_UPLOAD_FILES },
+});
+
 const TMP_AUDIO_DIR = join(process.cwd(), ".tmp-audio");
 if (!existsSync(TMP_AUDIO_DIR)) {
   mkdirSync(TMP_AUDIO_DIR, { recursive: true });
@@ -28,7 +45,7 @@ const ttsAudioCache = new Map<string, { buffer: Buffer; expiresAt: number }>();
 
 function requireAuthOrVoiceToken(req: Request, res: Response, next: NextFunction) {
   if (req.session.userId) {
-    return next();
+    return authorizeRequest(req, res, next);
   }
 
   const authHeader = req.headers.authorization;
@@ -38,13 +55,14 @@ function requireAuthOrVoiceToken(req: Request, res: Response, next: NextFunction
       const voiceSession = voiceTokens.get(token);
       if (voiceSession && voiceSession.expiresAt > Date.now()) {
         (req as any).voiceTokenUserId = voiceSession.userId;
-        return next();
+        return authorizeRequest(req, res, next);
       }
       storage.getInstanceByApiKey(token).then(instance => {
         if (instance) {
           (req as any).apiTokenInstanceId = instance.id;
-          return next();
+          return authorizeRequest(req, res, next);
         }
+        recordAuthFailure(req, "Invalid or expired bearer token");
         return res.status(401).json({ error: "Invalid or expired token" });
       }).catch(() => {
         return res.status(401).json({ error: "Authentication failed" });
@@ -56,7 +74,7 @@ function requireAuthOrVoiceToken(req: Request, res: Response, next: NextFunction
   storage.getAllUsers().then(users => {
     if (users.length === 1) {
       req.session.userId = users[0].id;
-      req.session.save(() => next());
+      req.session.save(() => authorizeRequest(req, res, next));
     } else {
       return res.status(401).json({ error: "Not authenticated. Provide a session cookie or Bearer token." });
     }
@@ -102,6 +120,14 @@ const vpsUpdateSchema = z.object({
   vpsPort: z.number().optional(),
   sshUser: z.string().optional(),
   sshKeyPath: z.string().nullable().optional(),
+  passwordAuthEnabled: z.boolean().optional(),
+});
+
+const terminalSessionSchema = z.object({
+  target: z.enum(["vps", "node"]),
+  machineId: z.string().optional(),
+  cols: z.number().int().min(1).max(500).optional(),
+  rows: z.number().int().min(1).max(500).optional(),
 });
 
 const MEDINVEST_BASE_URL = process.env.OPENCLAW_DID_BASE_URL || "https://did-login.replit.app";
@@ -143,7 +169,7 @@ function verifySignedState(state: string): boolean {
 
 function requireAuth(req: Request, res: Response, next: NextFunction) {
   if (req.session.userId) {
-    return next();
+    return authorizeRequest(req, res, next);
   }
 
   const authHeader = req.headers.authorization;
@@ -153,8 +179,9 @@ function requireAuth(req: Request, res: Response, next: NextFunction) {
       storage.getInstanceByApiKey(token).then(instance => {
         if (instance) {
           (req as any).apiTokenInstanceId = instance.id;
-          return next();
+          return authorizeRequest(req, res, next);
         }
+        recordAuthFailure(req, "Invalid instance API token");
         return res.status(401).json({ error: "Invalid API token" });
       }).catch(() => {
         return res.status(401).json({ error: "Authentication failed" });
@@ -166,7 +193,7 @@ function requireAuth(req: Request, res: Response, next: NextFunction) {
   storage.getAllUsers().then(users => {
     if (users.length === 1) {
       req.session.userId = users[0].id;
-      req.session.save(() => next());
+      req.session.save(() => authorizeRequest(req, res, next));
     } else {
       return res.status(401).json({ error: "Not authenticated. Provide a session cookie or Bearer token (instance API key) in the Authorization header." });
     }
@@ -175,8 +202,24 @@ function requireAuth(req: Request, res: Response, next: NextFunction) {
   });
 }
 
-function logAudit(action: string, actionType: string, details?: string, userId?: string) {
+// Personal (life-automation) records belong to a user, so instance API tokens cannot reach them.
+function requireUser(req: Request, res: Response, next: NextFunction) {
+  if (!currentUserId(req)) {
+    return res.status(403).json({ error: "This endpoint needs a signed-in user" });
+  }
+  next();
+}
+
+function currentUserId(req: Request): string {
+  return req.session.userId || (req as any).voiceTokenUserId;
+}
+
+// Audited actions whose type is in the webhook event catalog are also sent to outbound webhook subscribers, with `data` merged into the payload.
+function logAudit(action: string, actionType: string, details?: string, userId?: string, data?: Record<string, unknown>) {
   storage.createAuditLog({ action, actionType, details: details ?? null, userId: userId ?? null }).catch(() => {});
+  if (isWebhookEventType(actionType)) {
+    emitWebhookEventInBackground(actionType, { action, details: details ?? null, userId: userId ?? null, ...data });
+  }
 }
 
 async function resolveInstanceId(req: Request): Promise<string | null> {
@@ -1352,6 +1395,9 @@ export async function registerRoutes(
 ): Promise<Server> {
   const isProductionRuntime = process.env.NODE_ENV === "production";
 
+  app.use(securityGuard);
+  app.use(operationContextMiddleware);
+
   app.get("/api/public/home-bot/:file", async (req, res) => {
     const fs = await import("fs");
     const path = await import("path");
@@ -1365,8 +1411,6 @@ export async function registerRoutes(
 
     if (file === "config.json") {
       try {
-        const keys = await storage.getApiKeys();
-        const activeKey = keys.find((k: any) => k.active && k.permissions === "admin");
         const openclawConfig = await storage.getOpenclawConfig(
           (await storage.getInstances()).find((i: any) => i.isDefault)?.id || ""
         );
@@ -1375,7 +1419,6 @@ export async function registerRoutes(
         const dashboardUrl = devDomain ? `https://${devDomain}` : "https://claw-settings.replit.app";
         return res.json({
           dashboardUrl,
-          apiKey: activeKey?.key || "YOUR_API_KEY_HERE",
           phoneNumber: phone,
           botName: "OpenClaw AI",
           usePairingCode: true,
@@ -1388,9 +1431,6 @@ export async function registerRoutes(
   });
 
   app.get("/api/public/home-bot-setup", async (_req, res) => {
-    const keys = await storage.getApiKeys();
-    const activeKey = keys.find((k: any) => k.active && k.permissions === "admin");
-    const apiKey = activeKey?.key || "YOUR_API_KEY_HERE";
     const baseUrl = `https://${process.env.REPLIT_DEV_DOMAIN || "claw-settings.replit.app"}`;
 
     res.setHeader("Content-Type", "text/plain");
@@ -1404,6 +1444,8 @@ Invoke-WebRequest ${baseUrl}/api/public/home-bot/config.json -OutFile config.jso
 Invoke-WebRequest ${baseUrl}/api/public/home-bot/openclaw-whatsapp.js -OutFile openclaw-whatsapp.js
 Invoke-WebRequest ${baseUrl}/api/public/home-bot/install-service.js -OutFile install-service.js
 npm install
+# Generate a key with the "home-bot" scope under Settings > API Keys, then:
+$env:OPENCLAW_API_KEY="YOUR_HOME_BOT_API_KEY"
 npm start
 
 # A pairing code will appear. Enter it in WhatsApp:
@@ -1420,16 +1462,18 @@ npm start
           req.session.userId = allUsers[0].id;
           await new Promise<void>((resolve, reject) => req.session.save((err) => err ? reject(err) : resolve()));
           console.log("Auto-authenticated single user:", allUsers[0].displayName);
-          return res.json({ user: allUsers[0] });
+          const role = await getUserRole(allUsers[0].id);
+          return res.json({ user: allUsers[0], permissions: role ? ROLE_PERMISSIONS[role] : [] });
         }
       } catch {}
-      return res.json({ user: null });
+      return res.json({ user: null, permissions: [] });
     }
     try {
       const user = await storage.getUser(req.session.userId);
-      res.json({ user: user ?? null });
+      const role = toUserRole(user?.role);
+      res.json({ user: user ?? null, permissions: role ? ROLE_PERMISSIONS[role] : [] });
     } catch {
-      res.json({ user: null });
+      res.json({ user: null, permissions: [] });
     }
   });
 
@@ -1539,6 +1583,39 @@ npm start
     });
   });
 
+  app.get("/api/users", requireAuth, async (_req, res) => {
+    try {
+      const users = await storage.getAllUsers();
+      res.json(users);
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  });
+
+  app.patch("/api/users/:id/role", requireAuth, async (req, res) => {
+    try {
+      const parsed = z.object({ role: z.enum(USER_ROLES) }).safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.message });
+      }
+      const id = req.params.id as string;
+      const target = await storage.getUser(id);
+      if (!target) return res.status(404).json({ error: "User not found" });
+
+      if (target.role === "owner" && parsed.data.role !== "owner") {
+        const owners = (await storage.getAllUsers()).filter(u => u.role === "owner");
+        if (owners.length <= 1) return res.status(400).json({ error: "At least one owner is required" });
+      }
+
+      const user = await storage.updateUserRole(id, parsed.data.role);
+      invalidateUserRole(id);
+      logAudit(`Changed role of ${target.username} to ${parsed.data.role}`, "role_change", `from ${target.role}`, req.session.userId);
+      res.json(user);
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  });
+
   app.get("/api/whatsapp-pair", async (_req, res) => {
     res.setHeader("Content-Type", "text/html");
     res.send(`<!DOCTYPE html>
@@ -1702,6 +1779,7 @@ async function restart(){try{await fetch('/api/whatsapp/restart',{method:'POST'}
         return res.status(400).json({ error: parsed.error.message });
       }
       await storage.bulkUpdateSettings(parsed.data.updates);
+      if (parsed.data.updates.some((u: any) => u.key.startsWith("general.maintenance_"))) invalidateMaintenanceState();
       logAudit(`Updated ${parsed.data.updates.length} settings`, "settings_update", parsed.data.updates.map((u: any) => u.key).join(", "), req.session.userId);
       res.json({ success: true });
     } catch (error) {
@@ -1709,6 +1787,76 @@ async function restart(){try{await fetch('/api/whatsapp/restart',{method:'POST'}
     }
   });
 
+  app.get("/api/maintenance", requireAuth, async (_req, res) => {
+    try {
+      res.json(await getMaintenanceState());
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch maintenance state" });
+    }
+  });
+
+  app.get("/api/notifications", requireAuth, async (req, res) => {
+    try {
+      const userId = currentUserId(req);
+      if (!userId) return res.status(403).json({ error: "Notifications are only available to signed-in users" });
+      const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 50, 1), 200);
+      const [list, unread] = await Promise.all([storage.getInAppNotifications(limit), storage.countUnreadNotifications(userId)]);
+      res.json({ notifications: list.map(n => toUserNotification(n, userId)), unread });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message || "Failed to fetch notifications" });
+    }
+  });
+
+  app.post("/api/notifications/read-all", requireAuth, async (req, res) => {
+    try {
+      const userId = currentUserId(req);
+      if (!userId) return res.status(403).json({ error: "Notifications are only available to signed-in users" });
+      const updated = await storage.markAllNotificationsRead(userId);
+      pushNotificationsRead(userId);
+      res.json({ updated });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message || "Failed to mark notifications read" });
+    }
+  });
+
+  app.post("/api/notifications/:id/read", requireAuth, async (req, res) => {
+    try {
+      const userId = currentUserId(req);
+      if (!userId) return res.status(403).json({ error: "Notifications are only available to signed-in users" });
+      const notification = await storage.markNotificationRead(req.params.id as string, userId);
+      if (!notification) return res.status(404).json({ error: "Notification not found" });
+      pushNotificationsRead(userId);
+      res.json(toUserNotification(notification, userId));
+    } catch (error: any) {
+      res.status(500).json({ error: error.message || "Failed to mark notification read" });
+    }
+  });
+
+  app.get("/api/live", requireAuth, async (req, res) => {
+    const userId = currentUserId(req);
+    if (!userId) return res.status(403).json({ error: "Live updates are only available to signed-in users" });
+    const instanceId = typeof req.query.instanceId === "string" && req.query.instanceId ? req.query.instanceId : null;
+    const { openSSEStream } = await import("./sse");
+    addLiveClient(openSSEStream(res), userId, instanceId);
+  });
+
+  app.post("/api/notifications/test", requireAuth, async (req, res) => {
+    try {
+      const { notify } = await import("./notifications");
+      const notification = await notify({
+        category: "system",
+        title: "Test notification",
+        body: "Notifications from the OpenClaw dashboard reach you here.",
+        source: "notification-settings",
+        dedupeKey: `test:${Date.now()}`,
+        immediate: true,
+      });
+      res.json(notification);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message || "Failed to send test notification" });
+    }
+  });
+
   app.get("/api/machines", requireAuth, async (_req, res) => {
     try {
       const allMachines = await storage.getMachines();
@@ -1878,21 +2026,7 @@ async function restart(){try{await fetch('/api/whatsapp/restart',{method:'POST'}
     try {
       const instanceId = await resolveInstanceId(req);
       if (!instanceId) return res.status(400).json({ error: "No instance specified" });
-      const vps = await storage.getVpsConnection(instanceId);
-      if (!vps) return res.json({ error: "No VPS configured", ok: false });
-
-      const { executeSSHCommand, buildSSHConfigFromVps } = await import("./ssh");
-      const sshConfig = buildSSHConfigFromVps(vps);
-      const result = await executeSSHCommand("gateway-call-health", sshConfig);
-      if (result.success && result.output) {
-        try {
-          const data = JSON.parse(result.output.trim());
-          return res.json(data);
-        } catch {
-          return res.json({ ok: false, error: "Failed to parse health response", raw: result.output?.substring(0, 500) });
-        }
-      }
-      return res.json({ ok: false, error: result.output || "Health check failed" });
+      res.json(await checkGatewayHealth(instanceId));
     } catch (error: any) {
       res.json({ ok: false, error: error.message || "Gateway health check failed" });
     }
@@ -2286,8 +2420,10 @@ h1{color:#ef4444;font-size:1.5rem}p{color:#999;line-height:1.6}
         const ipAddress = gNode.ip || gNode.ipAddress || gNode.address || "";
         const os = gNode.os || gNode.platform || "";
 
+        const gatewayNodeId = gNode.nodeId || gNode.id || gNode.deviceId || null;
         const existing = existingMachines.find(
           (m) => {
+            if (gatewayNodeId && m.gatewayNodeId === gatewayNodeId) return true;
             const mIds = [m.hostname, m.name, m.displayName, m.ipAddress].filter(Boolean).map((s) => s!.toLowerCase());
             const nIds = [hostname, nodeName, gNode.id, gNode.nodeId, gNode.requestId, gNode.deviceId].filter(Boolean).map((s: string) => s.toLowerCase());
             return mIds.some((mid) => nIds.includes(mid));
@@ -2300,6 +2436,7 @@ h1{color:#ef4444;font-size:1.5rem}p{color:#999;line-height:1.6}
             ...(hostname && { hostname }),
             ...(ipAddress && { ipAddress }),
             ...(os && { os }),
+            ...(gatewayNodeId && { gatewayNodeId }),
             lastSeen: new Date(),
           });
           updated++;
@@ -2311,6 +2448,7 @@ h1{color:#ef4444;font-size:1.5rem}p{color:#999;line-height:1.6}
             ipAddress,
             os,
             status,
+            gatewayNodeId,
           });
           created++;
         }
@@ -2624,7 +2762,7 @@ h1{color:#ef4444;font-size:1.5rem}p{color:#999;line-height:1.6}
   app.get("/api/api-keys", requireAuth, async (_req, res) => {
     try {
       const keys = await storage.getApiKeys();
-      res.json(keys);
+      res.json(keys.map(toApiKeySummary));
     } catch (error) {
       res.status(500).json({ error: "Failed to fetch API keys" });
     }
@@ -2636,9 +2774,14 @@ h1{color:#ef4444;font-size:1.5rem}p{color:#999;line-height:1.6}
       if (!parsed.success) {
         return res.status(400).json({ error: parsed.error.message });
       }
-      const apiKey = await storage.createApiKey(parsed.data);
-      logAudit(`Created API key "${parsed.data.name}"`, "api_key_change", undefined, req.session.userId);
-      res.status(201).json(apiKey);
+      const ipError = validateIpAllowlist(parsed.data.allowedIps ?? []);
+      if (ipError) {
+        return res.status(400).json({ error: ipError });
+      }
+      const { key, keyHash, keyPrefix } = generateApiKey();
+      const apiKey = await storage.createApiKey(parsed.data, keyHash, keyPrefix);
+      logAudit(`Created API key "${parsed.data.name}" (${parsed.data.scopes.join(", ")})`, "api_key_change", undefined, req.session.userId);
+      res.status(201).json({ ...toApiKeySummary(apiKey), key });
     } catch (error) {
       res.status(500).json({ error: "Failed to create API key" });
     }
@@ -2646,12 +2789,20 @@ h1{color:#ef4444;font-size:1.5rem}p{color:#999;line-height:1.6}
 
   app.patch("/api/api-keys/:id", requireAuth, async (req, res) => {
     try {
-      const updated = await storage.updateApiKey(req.params.id as string, req.body);
+      const parsed = insertApiKeySchema.partial().safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.message });
+      }
+      const ipError = validateIpAllowlist(parsed.data.allowedIps ?? []);
+      if (ipError) {
+        return res.status(400).json({ error: ipError });
+      }
+      const updated = await storage.updateApiKey(req.params.id as string, parsed.data);
       if (!updated) {
         return res.status(404).json({ error: "API key not found" });
       }
       logAudit(`Updated API key "${updated.name}"`, "api_key_change", undefined, req.session.userId);
-      res.json(updated);
+      res.json(toApiKeySummary(updated));
     } catch (error) {
       res.status(500).json({ error: "Failed to update API key" });
     }
@@ -2661,6 +2812,8 @@ h1{color:#ef4444;font-size:1.5rem}p{color:#999;line-height:1.6}
     try {
       logAudit(`Deleted API key ${req.params.id}`, "api_key_change", undefined, req.session.userId);
       await storage.deleteApiKey(req.params.id as string);
+      const { dashboardApiKeySecret } = await import("./secret-rotation");
+      await storage.deleteSecretRotation(dashboardApiKeySecret(req.params.id as string));
       res.json({ success: true });
     } catch (error) {
       res.status(500).json({ error: "Failed to delete API key" });
@@ -2672,7 +2825,8 @@ h1{color:#ef4444;font-size:1.5rem}p{color:#999;line-height:1.6}
       const instanceId = await resolveInstanceId(req);
       if (!instanceId) return res.json(null);
       const vps = await storage.getVpsConnection(instanceId);
-      res.json(vps ?? null);
+      const { toVpsConnectionSummary } = await import("./ssh-vault");
+      res.json(vps ? toVpsConnectionSummary(vps) : null);
     } catch (error) {
       res.status(500).json({ error: "Failed to fetch VPS connection" });
     }
@@ -2686,13 +2840,139 @@ h1{color:#ef4444;font-size:1.5rem}p{color:#999;line-height:1.6}
       if (!parsed.success) {
         return res.status(400).json({ error: parsed.error.message });
       }
-      const vps = await storage.upsertVpsConnection(instanceId, parsed.data);
-      res.json(vps);
+      const { toVpsConnectionSummary, refreshDefaultSSHConnection } = await import("./ssh-vault");
+      const existing = await storage.getVpsConnection(instanceId);
+      const movesPinnedHost = !!existing?.hostKeyFingerprint && (
+        (parsed.data.vpsIp !== undefined && parsed.data.vpsIp !== existing.vpsIp) ||
+        (parsed.data.vpsPort !== undefined && parsed.data.vpsPort !== existing.vpsPort)
+      );
+      // Moving a pinned connection unpins it, and the stored root credentials would then go to the new host.
+      if (movesPinnedHost && !hasPermission((req as any).userRole, "shell")) {
+        return res.status(403).json({ error: "Only owners can change the host of a pinned VPS connection", permission: "shell" });
+      }
+      if (parsed.data.passwordAuthEnabled === false && !existing?.keyInstalledAt) {
+        return res.status(400).json({ error: "Install an SSH key on the VPS before disabling password authentication" });
+      }
+      let vps = await storage.upsertVpsConnection(instanceId, parsed.data);
+      const hostChanged = existing && (existing.vpsIp !== vps.vpsIp || existing.vpsPort !== vps.vpsPort);
+      if (hostChanged && vps.hostKeyFingerprint) {
+        vps = (await storage.updateVpsCredentials(vps.id, { hostKeyFingerprint: null, hostKeyPinnedAt: null }))!;
+      }
+      if (parsed.data.passwordAuthEnabled !== undefined && parsed.data.passwordAuthEnabled !== existing?.passwordAuthEnabled) {
+        logAudit(`${parsed.data.passwordAuthEnabled ? "Enabled" : "Disabled"} SSH password auth for ${vps.vpsIp}`, "security_change", undefined, req.session.userId);
+      }
+      await refreshDefaultSSHConnection();
+      res.json(toVpsConnectionSummary(vps));
     } catch (error) {
       res.status(500).json({ error: "Failed to update VPS connection" });
     }
   });
 
+  app.post("/api/vps/ssh-key", requireAuth, async (req, res) => {
+    try {
+      const instanceId = await resolveInstanceId(req);
+      if (!instanceId) return res.status(400).json({ error: "No instance specified" });
+      const vps = await storage.getVpsConnection(instanceId);
+      if (!vps) return res.status(404).json({ error: "No VPS configured" });
+      const parsed = z.object({ privateKey: z.string().min(1).optional() }).safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.message });
+      }
+      const { generateSSHKeyPair, importSSHPrivateKey, keyComment, toVpsConnectionSummary, refreshDefaultSSHConnection } = await import("./ssh-vault");
+      let keyPair: { privateKey: string; publicKey: string };
+      try {
+        keyPair = parsed.data.privateKey
+          ? importSSHPrivateKey(parsed.data.privateKey, keyComment(vps))
+          : generateSSHKeyPair(keyComment(vps));
+      } catch (err: any) {
+        return res.status(400).json({ error: err.message });
+      }
+      const updated = await storage.updateVpsCredentials(vps.id, {
+        sshPrivateKey: keyPair.privateKey,
+        sshPublicKey: keyPair.publicKey,
+        keyInstalledAt: null,
+      });
+      await refreshDefaultSSHConnection();
+      logAudit(`${parsed.data.privateKey ? "Uploaded" : "Generated"} SSH key for ${vps.vpsIp}`, "security_change", undefined, req.session.userId);
+      res.json(toVpsConnectionSummary(updated!));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to store SSH key" });
+    }
+  });
+
+  app.post("/api/vps/ssh-key/install", requireAuth, async (req, res) => {
+    try {
+      const instanceId = await resolveInstanceId(req);
+      if (!instanceId) return res.status(400).json({ error: "No instance specified" });
+      const vps = await storage.getVpsConnection(instanceId);
+      if (!vps) return res.status(404).json({ error: "No VPS configured" });
+      const { installPublicKey, toVpsConnectionSummary } = await import("./ssh-vault");
+      const result = await installPublicKey(vps);
+      if (!result.success) {
+        return res.status(502).json({ error: result.error });
+      }
+      logAudit(`Installed SSH key on ${vps.vpsIp}`, "security_change", undefined, req.session.userId);
+      res.json(toVpsConnectionSummary(result.vps!));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to install SSH key" });
+    }
+  });
+
+  app.delete("/api/vps/ssh-key", requireAuth, async (req, res) => {
+    try {
+      const instanceId = await resolveInstanceId(req);
+      if (!instanceId) return res.status(400).json({ error: "No instance specified" });
+      const vps = await storage.getVpsConnection(instanceId);
+      if (!vps) return res.status(404).json({ error: "No VPS configured" });
+      if (!vps.passwordAuthEnabled) {
+        return res.status(400).json({ error: "Enable password authentication before removing the only SSH key" });
+      }
+      const { toVpsConnectionSummary, refreshDefaultSSHConnection } = await import("./ssh-vault");
+      const updated = await storage.updateVpsCredentials(vps.id, { sshPrivateKey: null, sshPublicKey: null, keyInstalledAt: null });
+      await refreshDefaultSSHConnection();
+      logAudit(`Removed SSH key for ${vps.vpsIp}`, "security_change", undefined, req.session.userId);
+      res.json(toVpsConnectionSummary(updated!));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to remove SSH key" });
+    }
+  });
+
+  app.put("/api/vps/ssh-password", requireAuth, async (req, res) => {
+    try {
+      const instanceId = await resolveInstanceId(req);
+      if (!instanceId) return res.status(400).json({ error: "No instance specified" });
+      const vps = await storage.getVpsConnection(instanceId);
+      if (!vps) return res.status(404).json({ error: "No VPS configured" });
+      const parsed = z.object({ password: z.string().min(1).nullable() }).safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.message });
+      }
+      const { toVpsConnectionSummary, refreshDefaultSSHConnection } = await import("./ssh-vault");
+      const updated = await storage.updateVpsCredentials(vps.id, { sshPassword: parsed.data.password });
+      await refreshDefaultSSHConnection();
+      logAudit(`${parsed.data.password ? "Set" : "Cleared"} SSH password for ${vps.vpsIp}`, "security_change", undefined, req.session.userId);
+      res.json(toVpsConnectionSummary(updated!));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to update SSH password" });
+    }
+  });
+
+  app.delete("/api/vps/host-key", requireAuth, async (req, res) => {
+    try {
+      const instanceId = await resolveInstanceId(req);
+      if (!instanceId) return res.status(400).json({ error: "No instance specified" });
+      const vps = await storage.getVpsConnection(instanceId);
+      if (!vps) return res.status(404).json({ error: "No VPS configured" });
+      const { toVpsConnectionSummary, refreshDefaultSSHConnection } = await import("./ssh-vault");
+      const updated = await storage.updateVpsCredentials(vps.id, { hostKeyFingerprint: null, hostKeyPinnedAt: null });
+      await refreshDefaultSSHConnection();
+      logAudit(`Reset pinned SSH host key for ${vps.vpsIp} (was ${vps.hostKeyFingerprint ?? "unpinned"})`, "security_change", undefined, req.session.userId);
+      res.json(toVpsConnectionSummary(updated!));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to reset host key" });
+    }
+  });
+
   app.post("/api/vps/check", requireAuth, async (req, res) => {
     try {
       const instanceId = await resolveInstanceId(req);
@@ -2712,7 +2992,8 @@ h1{color:#ef4444;font-size:1.5rem}p{color:#999;line-height:1.6}
         status: hasValidConfig ? "connected" : "error",
         message: statusMsg,
       });
-      res.json({ connected: hasValidConfig, vps: updated });
+      const { toVpsConnectionSummary } = await import("./ssh-vault");
+      res.json({ connected: hasValidConfig, vps: updated ? toVpsConnectionSummary(updated) : updated });
     } catch (error) {
       res.status(500).json({ error: "Failed to check VPS" });
     }
@@ -2776,7 +3057,8 @@ h1{color:#ef4444;font-size:1.5rem}p{color:#999;line-height:1.6}
       try {
         const vps = await storage.getVpsConnection(instanceId);
         if (vps) {
-          const { executeRawSSHCommand, buildSSHConfigFromVps } = await import("./ssh");
+          const { buildSSHConfigFromVps } = await import("./ssh");
+          const { pushGatewayConfigToVps } = await import("./secret-rotation");
           const sshConfig = buildSSHConfigFromVps(vps);
           const updates: Record<string, any> = {};
           if (parsed.data.gatewayPort !== undefined) updates.port = parsed.data.gatewayPort;
@@ -2787,36 +3069,7 @@ h1{color:#ef4444;font-size:1.5rem}p{color:#999;line-height:1.6}
           if (parsed.data.fallbackLlm !== undefined) updates.fallbackModel = parsed.data.fallbackLlm;
 
           if (Object.keys(updates).length > 0) {
-            const pyUpdates = JSON.stringify(updates).replace(/'/g, "\\'");
-            const pushCmd = `python3 -c "
-import json, os
-f='/root/.openclaw/openclaw.json'
-if not os.path.exists(f):
-    print(json.dumps({'error':'Config file not found'}))
-    exit(0)
-d=json.load(open(f))
-gw=d.setdefault('gateway',{})
-updates=${pyUpdates}
-for k,v in updates.items():
-    parts=k.split('.')
-    target=gw
-    for p in parts[:-1]:
-        target=target.setdefault(p,{})
-    target[parts[-1]]=v
-json.dump(d,open(f,'w'),indent=2)
-print(json.dumps({'success':True,'updated':list(updates.keys())}))
-"`;
-            const result = await executeRawSSHCommand(pushCmd, sshConfig);
-            if (result.success) {
-              try {
-                const parsed = JSON.parse(result.output.trim());
-                vpsPushResult = parsed;
-              } catch {
-                vpsPushResult = { success: true };
-              }
-            } else {
-              vpsPushResult = { success: false, error: result.error || result.output };
-            }
+            vpsPushResult = await pushGatewayConfigToVps(sshConfig, updates);
           }
         }
       } catch (e: any) {
@@ -2829,6 +3082,109 @@ print(json.dumps({'success':True,'updated':list(updates.keys())}))
     }
   });
 
+  const configFileTarget = async (req: Request, res: Response) => {
+    const { isConfigFile } = await import("./openclaw-config");
+    const file = req.params.file as string;
+    if (!isConfigFile(file)) {
+      res.status(404).json({ error: "Unknown config file" });
+      return null;
+    }
+    const instanceId = await resolveInstanceId(req);
+    if (!instanceId) {
+      res.status(400).json({ error: "No instance specified" });
+      return null;
+    }
+    const vps = await storage.getVpsConnection(instanceId);
+    if (!vps) {
+      res.status(400).json({ error: "No VPS configured" });
+      return null;
+    }
+    const { buildSSHConfigFromVps } = await import("./ssh");
+    return { file, instanceId, sshConfig: buildSSHConfigFromVps(vps) };
+  };
+
+  const sendConfigDeployResult = (res: Response, result: ConfigDeployResult) => {
+    if (result.conflict) {
+      return res.status(409).json({ error: "The file was changed on the VPS since it was loaded", currentMtime: result.currentMtime });
+    }
+    res.json(result);
+  };
+
+  app.get("/api/openclaw/config/files/:file", requireAuth, async (req: Request, res: Response) => {
+    const { fileErrorStatus } = await import("./sftp");
+    try {
+      const target = await configFileTarget(req, res);
+      if (!target) return;
+      const { loadLiveConfig } = await import("./openclaw-config");
+      res.json(await loadLiveConfig(target.sshConfig, target.instanceId, target.file));
+    } catch (error: any) {
+      res.status(fileErrorStatus(error)).json({ error: error.message || "Failed to load config file" });
+    }
+  });
+
+  app.post("/api/openclaw/config/files/:file/validate", requireAuth, async (req: Request, res: Response) => {
+    const { isConfigFile, validateConfigText } = await import("./openclaw-config");
+    const file = req.params.file as string;
+    if (!isConfigFile(file)) return res.status(404).json({ error: "Unknown config file" });
+    if (typeof req.body?.content !== "string") return res.status(400).json({ error: "content is required" });
+    res.json(validateConfigText(file, req.body.content));
+  });
+
+  app.put("/api/openclaw/config/files/:file", requireAuth, async (req: Request, res: Response) => {
+    const { fileErrorStatus } = await import("./sftp");
+    try {
+      const { content, expectedMtime, note, restart } = req.body;
+      if (typeof content !== "string") return res.status(400).json({ error: "content is required" });
+      if (expectedMtime !== undefined && typeof expectedMtime !== "number") {
+        return res.status(400).json({ error: "expectedMtime must be a number" });
+      }
+      const target = await configFileTarget(req, res);
+      if (!target) return;
+      const { deployConfig } = await import("./openclaw-config");
+      const result = await deployConfig(target.sshConfig, {
+        instanceId: target.instanceId,
+        file: target.file,
+        content,
+        expectedMtime,
+        note: typeof note === "string" ? note.slice(0, 500) : null,
+        userId: currentUserId(req),
+        restart: restart !== false,
+      });
+      if (!result.conflict) {
+        logAudit(`Deployed ${target.file}`, "config_change", result.restart ? `Gateway restart ${result.restart.success ? "succeeded" : "failed"}` : "Gateway not restarted", currentUserId(req));
+      }
+      sendConfigDeployResult(res, result);
+    } catch (error: any) {
+      res.status(fileErrorStatus(error)).json({ error: error.message || "Failed to deploy config file", errors: error.errors });
+    }
+  });
+
+  app.get("/api/openclaw/config/files/:file/versions", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const target = await configFileTarget(req, res);
+      if (!target) return;
+      res.json(await storage.getOpenclawConfigVersions(target.instanceId, target.file));
+    } catch (error: any) {
+      res.status(500).json({ error: error.message || "Failed to fetch config versions" });
+    }
+  });
+
+  app.post("/api/openclaw/config/files/:file/versions/:id/rollback", requireAuth, async (req: Request, res: Response) => {
+    const { fileErrorStatus } = await import("./sftp");
+    try {
+      const target = await configFileTarget(req, res);
+      if (!target) return;
+      const { rollbackConfig } = await import("./openclaw-config");
+      const result = await rollbackConfig(target.sshConfig, target.instanceId, target.file, req.params.id as string, currentUserId(req));
+      if (!result.conflict) {
+        logAudit(`Rolled back ${target.file}`, "config_change", `${result.version.note}; gateway restart ${result.restart?.success ? "succeeded" : "failed"}`, currentUserId(req));
+      }
+      sendConfigDeployResult(res, result);
+    } catch (error: any) {
+      res.status(fileErrorStatus(error)).json({ error: error.message || "Failed to roll back config file", errors: error.errors });
+    }
+  });
+
   app.get("/api/status", async (req, res) => {
     try {
       const instanceId = await resolveInstanceId(req);
@@ -3028,6 +3384,7 @@ print(json.dumps({'success':True,'updated':list(updates.keys())}))
         } catch {}
       }
 
+      logAudit(`Approved node ${node_id}`, "node_approved", sshApproved ? "Approved on the gateway" : "Approved locally", currentUserId(req), { instanceId, nodeId: node_id, node: approvedNode });
       res.json({ success: true, sshApproved, node: approvedNode });
     } catch (error) {
       res.status(500).json({ error: "Failed to approve node" });
@@ -3085,6 +3442,7 @@ print(json.dumps({'success':True,'updated':list(updates.keys())}))
         }
       }
 
+      logAudit(`Rejected node ${node_id}`, "node_rejected", undefined, currentUserId(req), { instanceId, nodeId: node_id });
       res.json({ success: true, sshRejected });
     } catch (error) {
       res.status(500).json({ error: "Failed to reject node" });
@@ -3244,6 +3602,7 @@ print(json.dumps({'success':True,'updated':list(updates.keys())}))
               nodes = cached.nodes.map((n: any, idx: number) => ({
                 name: n.displayName || n.name || n.hostname || `node-${idx}`,
                 id: n.nodeId || n.id || n.deviceId || `node-${idx}`,
+                nodeId: n.nodeId || n.id || n.deviceId || null,
                 ip: n.ip || n.address || "",
                 status: n.connected ? "connected" : "disconnected",
                 caps: n.caps || n.capabilities || "",
@@ -3267,6 +3626,7 @@ print(json.dumps({'success':True,'updated':list(updates.keys())}))
                 nodes = (rawNodes as any[]).map((n: any, idx: number) => ({
                   name: n.name || n.displayName || n.hostname || `node-${idx}`,
                   id: n.id || n.nodeId || n.deviceId || `node-${idx}`,
+                  nodeId: n.id || n.nodeId || n.deviceId || null,
                   ip: n.ip || n.address || "",
                   status: n.status || "unknown",
                   caps: n.caps || n.capabilities || "",
@@ -3452,10 +3812,15 @@ print(json.dumps({'success':True,'updated':list(updates.keys())}))
         .filter((m: any) => m.os !== "WhatsApp")
         .map((m: any) => {
           const mIds = [m.hostname, m.name, m.displayName, m.ipAddress].filter(Boolean).map((s: string) => s.toLowerCase());
-          const matchedGatewayNode = nodes.find((n: any) => {
+          const matchedGatewayNode = nodes.find((n: any) => m.gatewayNodeId && n.nodeId === m.gatewayNodeId) || nodes.find((n: any) => {
             const nIds = [n.name, n.id].filter(Boolean).map((s: string) => s.toLowerCase());
             return mIds.some((mid: string) => nIds.includes(mid));
           });
+          // Remember the gateway's id for this machine so node commands keep reaching it after a rename.
+          if (matchedGatewayNode?.nodeId && matchedGatewayNode.nodeId !== m.gatewayNodeId) {
+            storage.updateMachine(m.id, { gatewayNodeId: matchedGatewayNode.nodeId })
+              .catch(err => console.error("[live-status] Failed to link gateway node:", err.message));
+          }
           return {
             id: m.id,
             name: m.displayName || m.hostname || m.name,
@@ -3474,6 +3839,7 @@ print(json.dumps({'success':True,'updated':list(updates.keys())}))
       const gatewayOnlyRaw = nodes.filter((n: any) => {
         const nIds = [n.name, n.id].filter(Boolean).map((s: string) => s.toLowerCase());
         return !allMachines.some((m: any) => {
+          if (m.gatewayNodeId && n.nodeId === m.gatewayNodeId) return true;
           const mIds = [m.hostname, m.name, m.displayName, m.ipAddress].filter(Boolean).map((s: string) => s.toLowerCase());
           return mIds.some((mid: string) => nIds.includes(mid));
         });
@@ -3643,9 +4009,11 @@ print(json.dumps({'success':True,'updated':list(updates.keys())}))
     }
   });
 
-  app.get("/api/integrations", requireAuth, async (_req, res) => {
+  app.get("/api/integrations", requireAuth, async (req, res) => {
     try {
       const all = await storage.getIntegrations();
+      const { maskIntegrationSecrets } = await import("./integrations");
+      const mask = hasPermission((req as any).userRole, "secrets") ? <T,>(i: T) => i : maskIntegrationSecrets;
 
       const enriched = await Promise.all(all.map(async (integration) => {
         if (integration.type === "telegram") {
@@ -3672,7 +4040,7 @@ print(json.dumps({'success':True,'updated':list(updates.keys())}))
         return integration;
       }));
 
-      res.json(enriched);
+      res.json(enriched.map(mask));
     } catch (error) {
       res.status(500).json({ error: "Failed to fetch integrations" });
     }
@@ -3685,6 +4053,10 @@ print(json.dumps({'success':True,'updated':list(updates.keys())}))
         return res.status(400).json({ error: parsed.error.message });
       }
       const integration = await storage.createIntegration(parsed.data);
+      if (integration.type === "mqtt") {
+        const { reloadMqttSubscriber } = await import("./integrations");
+        reloadMqttSubscriber().catch(err => console.error("[Integrations] MQTT reload failed:", err.message));
+      }
       res.status(201).json(integration);
     } catch (error) {
       res.status(500).json({ error: "Failed to create integration" });
@@ -3698,26 +4070,163 @@ print(json.dumps({'success':True,'updated':list(updates.keys())}))
       if (!parsed.success) {
         return res.status(400).json({ error: parsed.error.message });
       }
+      const { maskIntegrationSecrets, restoreMaskedSecrets, reloadMqttSubscriber } = await import("./integrations");
+      if (parsed.data.config !== undefined) {
+        const existing = await storage.getIntegration(req.params.id as string);
+        parsed.data.config = restoreMaskedSecrets(parsed.data.config, existing?.config);
+      }
       const updated = await storage.updateIntegration(req.params.id as string, parsed.data);
       if (!updated) {
         return res.status(404).json({ error: "Integration not found" });
       }
-      res.json(updated);
+      if (updated.type === "mqtt") {
+        reloadMqttSubscriber().catch(err => console.error("[Integrations] MQTT reload failed:", err.message));
+      }
+      res.json(hasPermission((req as any).userRole, "secrets") ? updated : maskIntegrationSecrets(updated));
     } catch (error) {
       res.status(500).json({ error: "Failed to update integration" });
     }
   });
 
+  app.post("/api/integrations/:id/test", requireAuth, async (req, res) => {
+    try {
+      const integration = await storage.getIntegration(req.params.id as string);
+      if (!integration) return res.status(404).json({ error: "Integration not found" });
+      const { hasAdapter, testIntegration } = await import("./integrations");
+      if (!hasAdapter(integration.type)) return res.status(400).json({ error: `${integration.name} has no connection test` });
+      const result = await testIntegration(integration);
+      logAudit(`Tested integration "${integration.name}": ${result.ok ? "connected" : "failed"}`, "config_change", result.message, currentUserId(req));
+      const { maskIntegrationSecrets } = await import("./integrations");
+      res.json(hasPermission((req as any).userRole, "secrets") ? result : { ...result, integration: maskIntegrationSecrets(result.integration) });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message || "Failed to test integration" });
+    }
+  });
+
   app.delete("/api/integrations/:id", requireAuth, async (req, res) => {
     try {
+      const integration = await storage.getIntegration(req.params.id as string);
       await storage.deleteIntegration(req.params.id as string);
+      if (integration?.type === "mqtt") {
+        const { reloadMqttSubscriber } = await import("./integrations");
+        reloadMqttSubscriber().catch(err => console.error("[Integrations] MQTT reload failed:", err.message));
+      }
       res.json({ success: true });
     } catch (error) {
       res.status(500).json({ error: "Failed to delete integration" });
     }
   });
 
-  app.get("/api/whatsapp/qr", async (_req, res) => {
+  app.get("/api/outbound-webhooks", requireAuth, async (_req, res) => {
+    try {
+      const subscriptions = await storage.getWebhookSubscriptions();
+      res.json(subscriptions.map(toSubscriptionSummary));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch webhook subscriptions" });
+    }
+  });
+
+  app.post("/api/outbound-webhooks", requireAuth, async (req, res) => {
+    try {
+      const parsed = insertWebhookSubscriptionSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.message });
+      }
+      const subscription = await storage.createWebhookSubscription({ ...parsed.data, secret: generateWebhookSecret() });
+      logAudit(`Created webhook subscription "${subscription.name}"`, "config_change", subscription.url, currentUserId(req));
+      res.status(201).json({ ...toSubscriptionSummary(subscription), secret: subscription.secret });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to create webhook subscription" });
+    }
+  });
+
+  app.patch("/api/outbound-webhooks/:id", requireAuth, async (req, res) => {
+    try {
+      const parsed = insertWebhookSubscriptionSchema.partial().safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.message });
+      }
+      const updated = await storage.updateWebhookSubscription(req.params.id as string, parsed.data);
+      if (!updated) {
+        return res.status(404).json({ error: "Webhook subscription not found" });
+      }
+      logAudit(`Updated webhook subscription "${updated.name}"`, "config_change", Object.keys(parsed.data).join(", "), currentUserId(req));
+      res.json(toSubscriptionSummary(updated));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to update webhook subscription" });
+    }
+  });
+
+  app.post("/api/outbound-webhooks/:id/rotate-secret", requireAuth, async (req, res) => {
+    try {
+      const updated = await storage.updateWebhookSubscription(req.params.id as string, { secret: generateWebhookSecret() });
+      if (!updated) {
+        return res.status(404).json({ error: "Webhook subscription not found" });
+      }
+      logAudit(`Rotated signing secret of webhook subscription "${updated.name}"`, "security_change", undefined, currentUserId(req));
+      res.json({ ...toSubscriptionSummary(updated), secret: updated.secret });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to rotate webhook secret" });
+    }
+  });
+
+  app.post("/api/outbound-webhooks/:id/ping", requireAuth, async (req, res) => {
+    try {
+      const subscription = await storage.getWebhookSubscription(req.params.id as string);
+      if (!subscription) {
+        return res.status(404).json({ error: "Webhook subscription not found" });
+      }
+      res.json(await pingWebhookSubscription(subscription));
+    } catch (error: any) {
+      res.status(500).json({ error: error.message || "Failed to ping webhook" });
+    }
+  });
+
+  app.delete("/api/outbound-webhooks/:id", requireAuth, async (req, res) => {
+    try {
+      const subscription = await storage.getWebhookSubscription(req.params.id as string);
+      if (!subscription) {
+        return res.status(404).json({ error: "Webhook subscription not found" });
+      }
+      await storage.deleteWebhookSubscription(subscription.id);
+      logAudit(`Deleted webhook subscription "${subscription.name}"`, "config_change", subscription.url, currentUserId(req));
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to delete webhook subscription" });
+    }
+  });
+
+  app.get("/api/outbound-webhooks/deliveries", requireAuth, async (req, res) => {
+    try {
+      const status = req.query.status as string | undefined;
+      if (status && !WEBHOOK_DELIVERY_STATUSES.includes(status as WebhookDeliveryStatus)) {
+        return res.status(400).json({ error: `status must be one of: ${WEBHOOK_DELIVERY_STATUSES.join(", ")}` });
+      }
+      const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 100, 1), 500);
+      const deliveries = await storage.getWebhookDeliveries({
+        limit,
+        subscriptionId: (req.query.subscriptionId as string) || undefined,
+        status: status as WebhookDeliveryStatus | undefined,
+      });
+      res.json(deliveries);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch webhook deliveries" });
+    }
+  });
+
+  app.post("/api/outbound-webhooks/deliveries/:id/redeliver", requireAuth, async (req, res) => {
+    try {
+      const delivery = await storage.getWebhookDelivery(req.params.id as string);
+      if (!delivery) {
+        return res.status(404).json({ error: "Delivery not found" });
+      }
+      res.json(await redeliverWebhook(delivery));
+    } catch (error: any) {
+      res.status(500).json({ error: error.message || "Failed to redeliver webhook" });
+    }
+  });
+
+  app.get("/api/whatsapp/qr", requireAuth, async (_req, res) => {
     try {
       const bot = await getWhatsappBot();
       const status = bot.getStatus();
@@ -3732,7 +4241,7 @@ print(json.dumps({'success':True,'updated':list(updates.keys())}))
     }
   });
 
-  app.post("/api/whatsapp/start", async (req, res) => {
+  app.post("/api/whatsapp/start", requireAuth, async (req, res) => {
     try {
       const instanceId = await resolveInstanceId(req);
       if (instanceId) {
@@ -3756,7 +4265,7 @@ print(json.dumps({'success':True,'updated':list(updates.keys())}))
     }
   });
 
-  app.post("/api/whatsapp/pair", async (req, res) => {
+  app.post("/api/whatsapp/pair", requireAuth, async (req, res) => {
     try {
       const { phoneNumber } = req.body;
       if (!phoneNumber || typeof phoneNumber !== "string") {
@@ -3796,7 +4305,7 @@ print(json.dumps({'success':True,'updated':list(updates.keys())}))
     }
   });
 
-  app.post("/api/whatsapp/restart", async (_req, res) => {
+  app.post("/api/whatsapp/restart", requireAuth, async (_req, res) => {
     try {
       const bot = await getWhatsappBot();
       await bot.restart();
@@ -3806,7 +4315,7 @@ print(json.dumps({'success':True,'updated':list(updates.keys())}))
     }
   });
 
-  app.post("/api/whatsapp/logout", async (req, res) => {
+  app.post("/api/whatsapp/logout", requireAuth, async (req, res) => {
     try {
       const instanceId = await resolveInstanceId(req);
       if (instanceId) {
@@ -3820,7 +4329,7 @@ print(json.dumps({'success':True,'updated':list(updates.keys())}))
     }
   });
 
-  app.post("/api/whatsapp/start-fresh", async (req, res) => {
+  app.post("/api/whatsapp/start-fresh", requireAuth, async (req, res) => {
     try {
       const instanceId = await resolveInstanceId(req);
       if (instanceId) {
@@ -3861,6 +4370,11 @@ print(json.dumps({'success':True,'updated':list(updates.keys())}))
       if (!session) {
         return res.status(404).json({ error: "Session not found" });
       }
+      logAudit(`Approved WhatsApp session for ${session.displayName || session.phone}`, "whatsapp_session_approved", undefined, currentUserId(req), {
+        sessionId: session.id,
+        phone: session.phone,
+        displayName: session.displayName,
+      });
       if (!isProductionRuntime) {
         try {
           const bot = await getWhatsappBot();
@@ -3886,6 +4400,11 @@ print(json.dumps({'success':True,'updated':list(updates.keys())}))
         return res.status(404).json({ error: "No pending session found with that pairing code" });
       }
       console.log(`[WhatsApp] Approved session: phone=${session.phone}, name=${session.displayName}`);
+      logAudit(`Approved WhatsApp session for ${session.displayName || session.phone}`, "whatsapp_session_approved", undefined, currentUserId(req), {
+        sessionId: session.id,
+        phone: session.phone,
+        displayName: session.displayName,
+      });
       if (!isProductionRuntime) {
         try {
           const bot = await getWhatsappBot();
@@ -3908,20 +4427,7 @@ print(json.dumps({'success':True,'updated':list(updates.keys())}))
     }
   });
 
-  const validateApiKey = async (req: Request, res: Response, next: () => void) => {
-    const apiKeyHeader = req.headers["x-api-key"] as string;
-    if (!apiKeyHeader) {
-      return res.status(401).json({ error: "API key required (X-API-Key header)" });
-    }
-    const keys = await storage.getApiKeys();
-    const match = keys.find(k => k.key === apiKeyHeader && k.active);
-    if (!match) {
-      return res.status(403).json({ error: "Invalid or inactive API key" });
-    }
-    next();
-  };
-
-  app.post("/api/node/heartbeat", validateApiKey as any, async (req: Request, res: Response) => {
+  app.post("/api/node/heartbeat", requireApiKey("heartbeat"), async (req: Request, res: Response) => {
     try {
       const { hostname, displayName, os, ipAddress, remotePcAlias } = req.body;
       if (!hostname) {
@@ -3943,6 +4449,8 @@ print(json.dumps({'success':True,'updated':list(updates.keys())}))
           ...(displayName && { displayName }),
           ...(remotePcAlias && { remotePcAlias }),
         });
+        recordNodeHeartbeat({ ...existing, ...(displayName && { displayName }) });
+        if (existing.status !== "connected") invalidateLiveQueries([["/api/machines"]]);
         return res.json({ ok: true, nodeId: existing.id, name: existing.displayName || existing.name });
       } else {
         const machine = await storage.createMachine({
@@ -3953,6 +4461,8 @@ print(json.dumps({'success':True,'updated':list(updates.keys())}))
           os: os || "unknown",
           status: "connected",
         });
+        recordNodeHeartbeat(machine);
+        invalidateLiveQueries([["/api/machines"]]);
         return res.json({ ok: true, nodeId: machine.id, name: machine.displayName || machine.name, created: true });
       }
     } catch (error: any) {
@@ -4197,14 +4707,17 @@ setInterval(sendHeartbeat, INTERVAL_MS);
 
   ensureVertexCredentialsFile();
 
-  const GEMINI_PROXY_KEY = process.env.GEMINI_PROXY_API_KEY || "";
-
   function requireGeminiProxyAuth(req: Request, res: Response, next: NextFunction) {
     const auth = req.headers.authorization || "";
     const match = auth.match(/^Bearer\s+(.+)$/i);
     if (!match) return res.status(401).json({ error: { message: "Missing Bearer token" } });
-    if (!GEMINI_PROXY_KEY) return res.status(500).json({ error: { message: "Proxy API key not configured" } });
-    if (match[1] !== GEMINI_PROXY_KEY) return res.status(403).json({ error: { message: "Invalid proxy token" } });
+    // Read per request: the key can be rotated from the Secrets Inventory while the server runs.
+    const proxyKey = process.env.GEMINI_PROXY_API_KEY || "";
+    if (!proxyKey) return res.status(500).json({ error: { message: "Proxy API key not configured" } });
+    if (match[1] !== proxyKey) {
+      recordAuthFailure(req, "Invalid Gemini proxy token");
+      return res.status(403).json({ error: { message: "Invalid proxy token" } });
+    }
     next();
   }
 
@@ -4295,7 +4808,7 @@ setInterval(sendHeartbeat, INTERVAL_MS);
         hasVertexProject: Boolean(process.env.GOOGLE_CLOUD_PROJECT),
         hasADCFile: Boolean(process.env.GOOGLE_APPLICATION_CREDENTIALS),
         hasServiceAccountJson: Boolean(process.env.GCP_SERVICE_ACCOUNT_JSON),
-        hasProxyKey: Boolean(GEMINI_PROXY_KEY),
+        hasProxyKey: Boolean(process.env.GEMINI_PROXY_API_KEY),
       },
     });
   });
@@ -4396,7 +4909,7 @@ setInterval(sendHeartbeat, INTERVAL_MS);
     } catch {}
   })();
 
-  app.post("/api/whatsapp/home-bot-status", validateApiKey as any, (req: Request, res: Response) => {
+  app.post("/api/whatsapp/home-bot-status", requireApiKey("home-bot"), (req: Request, res: Response) => {
     const { state, phone, error, hostname, qrDataUrl, pairingCode } = req.body;
     const host = hostname || "unknown";
     homeBotStatusByHost.set(host, {
@@ -4412,7 +4925,7 @@ setInterval(sendHeartbeat, INTERVAL_MS);
     res.json({ ok: true });
   });
 
-  app.post("/api/whatsapp/home-bot-message", validateApiKey as any, async (req: Request, res: Response) => {
+  app.post("/api/whatsapp/home-bot-message", requireApiKey("home-bot"), async (req: Request, res: Response) => {
     try {
       const { phone, text, pushName } = req.body;
       if (!phone || !text) {
@@ -4619,8 +5132,6 @@ setInterval(sendHeartbeat, INTERVAL_MS);
         return res.status(404).json({ error: "Home bot files not found" });
       }
 
-      const keys = await storage.getApiKeys();
-      const activeKey = keys.find(k => k.active && k.permissions === "admin");
       const openclawConfig = await storage.getOpenclawConfig(
         (await storage.getInstances()).find(i => i.isDefault)?.id || ""
       );
@@ -4635,7 +5146,6 @@ setInterval(sendHeartbeat, INTERVAL_MS);
       const dynamicConfig = JSON.stringify({
         dashboardUrl: "https://claw-settings.replit.app",
         dashboardUrlDev: prodUrl !== "https://claw-settings.replit.app" ? prodUrl : undefined,
-        apiKey: activeKey?.key || "YOUR_API_KEY_HERE",
         phoneNumber: phone,
         botName: "OpenClaw AI",
         usePairingCode: true,
@@ -4836,6 +5346,7 @@ setInterval(sendHeartbeat, INTERVAL_MS);
         console.error(`[skills] VPS install for ${data.skillId} failed:`, e.message);
       }
 
+      logAudit(`Installed skill "${skill.name}"`, "skill_installed", undefined, currentUserId(req), { skillIds: [skill.skillId] });
       res.json(skill);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -4845,11 +5356,12 @@ setInterval(sendHeartbeat, INTERVAL_MS);
     }
   });
 
-  app.post("/api/skills/install-all", requireAuth, async (_req, res) => {
+  app.post("/api/skills/install-all", requireAuth, async (req, res) => {
     try {
       const installed = await storage.getSkills();
       const installedIds = new Set(installed.map(s => s.skillId));
       let dbInstalled = 0;
+      const newSkillIds: string[] = [];
 
       const installedMap = new Map(installed.map(s => [s.skillId, s]));
       for (const skill of SKILLS_CATALOG) {
@@ -4865,6 +5377,7 @@ setInterval(sendHeartbeat, INTERVAL_MS);
             status: "installed",
           });
           dbInstalled++;
+          newSkillIds.push(skill.skillId);
         } else if (existing.description !== skill.description || existing.name !== skill.name || existing.category !== skill.category) {
           await storage.updateSkill(String(existing.id), {
             name: skill.name,
@@ -4916,6 +5429,9 @@ setInterval(sendHeartbeat, INTERVAL_MS);
         vpsResult = `VPS sync error: ${e.message}`;
       }
 
+      if (newSkillIds.length > 0) {
+        logAudit(`Installed ${newSkillIds.length} skills from the catalog`, "skill_installed", undefined, currentUserId(req), { skillIds: newSkillIds });
+      }
       res.json({
         success: true,
         totalCatalog: SKILLS_CATALOG.length,
@@ -5022,21 +5538,67 @@ setInterval(sendHeartbeat, INTERVAL_MS);
     }
   });
 
-  // ── Node Setup Wizard ──
-  app.get("/api/node-setup", requireAuth, async (req, res) => {
+  app.get("/api/vps/intrusion", requireAuth, async (req, res) => {
     try {
       const instanceId = await resolveInstanceId(req);
-      if (!instanceId) return res.json([]);
-      const sessions = await storage.getNodeSetupSessions(instanceId);
-      res.json(sessions);
+      if (!instanceId) return res.json(null);
+      const baseline = await storage.getVpsSecurityBaseline(instanceId);
+      res.json(baseline ?? null);
     } catch (error) {
-      res.status(500).json({ error: "Failed to fetch setup sessions" });
+      res.status(500).json({ error: "Failed to fetch intrusion monitoring settings" });
     }
   });
 
-  app.get("/api/node-setup/:id", requireAuth, async (req, res) => {
+  app.patch("/api/vps/intrusion", requireAuth, async (req, res) => {
     try {
-      const session = await storage.getNodeSetupSession(String(req.params.id));
+      const instanceId = await resolveInstanceId(req);
+      if (!instanceId) return res.status(400).json({ error: "No instance specified" });
+      const parsed = updateVpsSecurityBaselineSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.message });
+      }
+      const ipError = parsed.data.trustedIps ? validateIpAllowlist(parsed.data.trustedIps) : null;
+      if (ipError) {
+        return res.status(400).json({ error: ipError });
+      }
+      const data = parsed.data.approvedPorts
+        ? { ...parsed.data, approvedPorts: Array.from(new Set(parsed.data.approvedPorts)).sort((a, b) => a - b) }
+        : parsed.data;
+      const baseline = await storage.upsertVpsSecurityBaseline(instanceId, data);
+      logAudit("Updated VPS intrusion monitoring settings", "security_change", JSON.stringify(parsed.data), req.session.userId);
+      res.json(baseline);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to update intrusion monitoring settings" });
+    }
+  });
+
+  app.post("/api/vps/intrusion/scan", requireAuth, async (req, res) => {
+    try {
+      const instanceId = await resolveInstanceId(req);
+      if (!instanceId) return res.status(400).json({ error: "No instance specified" });
+      const { scanInstanceForIntrusions } = await import("./intrusion-monitor");
+      const summary = await scanInstanceForIntrusions(instanceId);
+      res.json(summary);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message || "Intrusion scan failed" });
+    }
+  });
+
+  // ── Node Setup Wizard ──
+  app.get("/api/node-setup", requireAuth, async (req, res) => {
+    try {
+      const instanceId = await resolveInstanceId(req);
+      if (!instanceId) return res.json([]);
+      const sessions = await storage.getNodeSetupSessions(instanceId);
+      res.json(sessions);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch setup sessions" });
+    }
+  });
+
+  app.get("/api/node-setup/:id", requireAuth, async (req, res) => {
+    try {
+      const session = await storage.getNodeSetupSession(String(req.params.id));
       if (!session) return res.status(404).json({ error: "Session not found" });
       res.json(session);
     } catch (error) {
@@ -5509,68 +6071,16 @@ setInterval(sendHeartbeat, INTERVAL_MS);
 
   app.post("/api/ssh/push-env-keys", requireAuth, async (req, res) => {
     try {
-      const { executeRawSSHCommand, getSSHConfig } = await import("./ssh");
+      const { getSSHConfig } = await import("./ssh");
+      const { pushEnvKeysToVps } = await import("./secret-rotation");
       const sshConfig = getSSHConfig() || undefined;
       if (!sshConfig) return res.status(500).json({ error: "No SSH config" });
 
-      const keys: Record<string, string | undefined> = {
-        OPENAI_API_KEY: process.env.OPENAI_API_KEY,
-        GITHUB_TOKEN: process.env.OPENCLAW_GITHUB_TOKEN || process.env.GITHUB_TOKEN,
-        NOTION_API_KEY: process.env.NOTION_API_KEY,
-        GEMINI_API_KEY: process.env.GEMINI_API_KEY,
-        ELEVENLABS_API_KEY: process.env.ELEVENLABS_API_KEY,
-        ANTHROPIC_API_KEY: process.env.ANTHROPIC_API_KEY,
-        PERPLEXITY_API_KEY: process.env.PERPLEXITY_API_KEY,
-        GROQ_API_KEY: process.env.GROQ_API_KEY,
-        HUGGINGFACE_TOKEN: process.env.HUGGINGFACE_TOKEN,
-        PINECONE_API_KEY: process.env.PINECONE_API_KEY,
-        SUPABASE_KEY: process.env.SUPABASE_KEY,
-        AIRTABLE_API_KEY: process.env.AIRTABLE_API_KEY,
-        ZAPIER_API_KEY: process.env.ZAPIER_API_KEY,
-        LINEAR_API_KEY: process.env.LINEAR_API_KEY,
-        AWS_ACCESS_KEY_ID: process.env.AWS_ACCESS_KEY_ID,
-        AWS_SECRET_ACCESS_KEY: process.env.AWS_SECRET_ACCESS_KEY,
-        CLOUDFLARE_API_TOKEN: process.env.CLOUDFLARE_API_TOKEN,
-        RESEND_API_KEY: process.env.RESEND_API_KEY,
-        TWILIO_ACCOUNT_SID: process.env.TWILIO_ACCOUNT_SID,
-        TWILIO_AUTH_TOKEN: process.env.TWILIO_AUTH_TOKEN,
-        TELEGRAM_BOT_TOKEN: process.env.TELEGRAM_BOT_TOKEN,
-      };
-
-      const lines: string[] = [];
-      const set: string[] = [];
-      const skipped: string[] = [];
-
-      for (const [k, v] of Object.entries(keys)) {
-        if (v) {
-          lines.push(`export ${k}="${v.replace(/"/g, '\\"')}"`);
-          set.push(k);
-        } else {
-          skipped.push(k);
-        }
-      }
-
-      if (lines.length === 0) {
-        return res.json({ success: false, error: "No API keys found in Replit secrets" });
+      const result = await pushEnvKeysToVps(sshConfig);
+      if (result.set.length === 0) {
+        return res.json({ success: false, error: result.error });
       }
-
-      const envFileLines = lines.map(l => l.replace("export ", ""));
-      const envFileContent = envFileLines.join("\\n");
-
-      const bashrcCmd = lines.map(line => {
-        const key = line.split("=")[0].replace("export ", "");
-        return `grep -q "^export ${key}=" /root/.bashrc && sed -i "s|^export ${key}=.*|${line.replace(/\|/g, '\\|')}|" /root/.bashrc || echo '${line}' >> /root/.bashrc`;
-      }).join(" && ");
-
-      const envFileCmd = `printf '${envFileContent}\\n' > /etc/openclaw-env`;
-      const systemdPatch = `grep -q '^EnvironmentFile=' /etc/systemd/system/openclaw-gateway.service || sed -i '/^\\[Service\\]/a EnvironmentFile=/etc/openclaw-env' /etc/systemd/system/openclaw-gateway.service`;
-      const waBotPatch = `test -f /etc/systemd/system/openclaw-whatsapp.service && (grep -q '^EnvironmentFile=' /etc/systemd/system/openclaw-whatsapp.service || sed -i '/^\\[Service\\]/a EnvironmentFile=/etc/openclaw-env' /etc/systemd/system/openclaw-whatsapp.service) || true`;
-      const reloadAndRestart = `systemctl daemon-reload && systemctl restart openclaw-gateway && sleep 2 && systemctl is-active openclaw-gateway`;
-
-      const cmd = `${bashrcCmd} && ${envFileCmd} && ${systemdPatch} && ${waBotPatch} && ${reloadAndRestart} && echo "---SET---" && cat /etc/openclaw-env | sed 's/=.*/=***/' && echo "---DONE---"`;
-
-      const result = await executeRawSSHCommand(cmd, sshConfig, 1, 45000);
-      res.json({ success: result.success, set, skipped, output: result.output?.substring(0, 500) });
+      res.json({ success: result.success, set: result.set, skipped: result.skipped, output: result.output });
     } catch (error: any) {
       res.status(500).json({ success: false, error: error.message });
     }
@@ -5637,6 +6147,47 @@ setInterval(sendHeartbeat, INTERVAL_MS);
     }
   });
 
+  app.post("/api/ssh/gateway/:action/stream", requireAuth, async (req, res) => {
+    try {
+      const { streamSSHAction, listAllowedCommands, buildSSHConfigFromVps, getSSHConfig } = await import("./ssh");
+      const action = String(req.params.action);
+      const allowed = listAllowedCommands();
+      if (!allowed.includes(action)) {
+        return res.status(400).json({ error: `Invalid action: ${action}. Allowed: ${allowed.join(", ")}` });
+      }
+
+      const instanceId = req.body?.instanceId as string | undefined;
+      let sshConfig;
+      if (instanceId) {
+        const vps = await storage.getVpsConnection(instanceId);
+        if (vps) {
+          sshConfig = buildSSHConfigFromVps(vps);
+        }
+      }
+      if (!sshConfig) {
+        sshConfig = getSSHConfig() || undefined;
+      }
+
+      const { openSSEStream } = await import("./sse");
+      const stream = openSSEStream(res);
+      const result = await streamSSHAction(action, sshConfig, {
+        signal: stream.signal,
+        onStdout: chunk => stream.send("stdout", { chunk }),
+        onStderr: chunk => stream.send("stderr", { chunk }),
+      });
+      stream.send("done", result);
+      stream.end();
+    } catch (error: any) {
+      if (res.headersSent) return res.end();
+      res.status(500).json({ success: false, error: error.message || "SSH command failed" });
+    }
+  });
+
+  app.get("/api/ssh/pool", requireAuth, async (_req, res) => {
+    const { getSSHPoolStats } = await import("./ssh");
+    res.json({ connections: getSSHPoolStats() });
+  });
+
   app.get("/api/ssh/gateway/actions", requireAuth, async (req, res) => {
     try {
       const { listAllowedCommands, getSSHConfig, buildSSHConfigFromVps } = await import("./ssh");
@@ -5768,110 +6319,41 @@ setInterval(sendHeartbeat, INTERVAL_MS);
       const vps = await storage.getVpsConnection(instanceId);
       if (!vps?.vpsIp) return res.status(400).json({ error: "No VPS configured" });
       const config = await storage.getOpenclawConfig(instanceId);
-      const dockerProject = config?.dockerProject || "claw";
 
-      const { executeRawSSHCommand, buildSSHConfigFromVps } = await import("./ssh");
-      const sshConfig = buildSSHConfigFromVps(vps);
+      const { buildSSHConfigFromVps } = await import("./ssh");
+      const { runOpenclawUpdate } = await import("./openclaw-update");
+      res.json(await runOpenclawUpdate(buildSSHConfigFromVps(vps), config?.dockerProject || "claw"));
+    } catch (error: any) {
+      res.status(500).json({ error: error.message || "Update failed" });
+    }
+  });
 
-      const hasDockerCmd = [
-        `docker compose -p ${dockerProject} ps --format json 2>/dev/null | head -1`,
-        'echo "---ALT---"',
-        `docker ps --filter "name=${dockerProject}" --format "{{.Names}}" 2>/dev/null | head -1`,
-        'echo "---ALT2---"',
-        'docker ps --filter "name=openclaw" --format "{{.Names}}" 2>/dev/null | head -1',
-      ].join('; ');
-      const dockerCheck = await executeRawSSHCommand(hasDockerCmd, sshConfig);
-      const dkOut = dockerCheck.output || "";
-      const dkParts = dkOut.split("---ALT---");
-      const composeOut = dkParts[0]?.trim() || "";
-      const altParts = (dkParts[1] || "").split("---ALT2---");
-      const filterOut = altParts[0]?.trim() || "";
-      const anyOpenclawContainer = altParts[1]?.trim() || "";
-      const isDocker = !!(composeOut && composeOut !== "[]") || !!filterOut || !!anyOpenclawContainer;
-      const detectedContainer = filterOut || anyOpenclawContainer || "";
-
-      const versionCheckCmd = [
-        'npm view openclaw version 2>/dev/null || echo "NO_NPM"',
-        'echo "---CUR---"',
-        'for p in /usr/local/lib/node_modules/openclaw /usr/lib/node_modules/openclaw /root/.npm-global/lib/node_modules/openclaw; do [ -f "$p/package.json" ] && grep \'"version"\' "$p/package.json" | head -1 && break; done 2>/dev/null || echo "NO_PKG"',
-      ].join('; ');
-      const preCheck = await executeRawSSHCommand(versionCheckCmd, sshConfig);
-      const preOut = preCheck.output || "";
-      const preParts = preOut.split("---CUR---");
-      const npmLatest = preParts[0]?.trim().match(/(\d+[\.\d-]+\S*)/)?.[1] || "";
-      const curPkgMatch = preParts[1]?.trim().match(/"version"\s*:\s*"([^"]+)"/);
-      const currentInstalled = curPkgMatch?.[1] || "";
-
-      if (npmLatest && currentInstalled && npmLatest === currentInstalled && !isDocker) {
-        return res.json({
-          success: true,
-          newVersion: currentInstalled,
-          output: `Already at the latest version (${currentInstalled}). No update needed.`,
-          method: "npm",
-          alreadyLatest: true,
+  app.post("/api/openclaw/update/stream", requireAuth, async (req, res) => {
+    try {
+      const instanceId = await resolveInstanceId(req);
+      if (!instanceId) return res.status(400).json({ error: "No instance" });
+      const vps = await storage.getVpsConnection(instanceId);
+      if (!vps?.vpsIp) return res.status(400).json({ error: "No VPS configured" });
+      const config = await storage.getOpenclawConfig(instanceId);
+
+      const { buildSSHConfigFromVps } = await import("./ssh");
+      const { runOpenclawUpdate } = await import("./openclaw-update");
+      const { openSSEStream } = await import("./sse");
+      const stream = openSSEStream(res);
+      try {
+        // Leaving the page only stops the output; the update itself keeps running on the VPS.
+        const result = await runOpenclawUpdate(buildSSHConfigFromVps(vps), config?.dockerProject || "claw", {
+          onPhase: message => stream.send("phase", { message }),
+          onStdout: chunk => stream.send("stdout", { chunk }),
+          onStderr: chunk => stream.send("stderr", { chunk }),
         });
+        stream.send("done", result);
+      } catch (error: any) {
+        stream.send("error", { error: error.message || "Update failed" });
       }
-
-      let updateCmd: string;
-      let method: string;
-      if (isDocker) {
-        method = "docker";
-        const containerName = detectedContainer || `${dockerProject}.*gateway`;
-        updateCmd = [
-          `echo "Pulling latest Docker images..."`,
-          `cd /root/${dockerProject} 2>/dev/null || cd /opt/${dockerProject} 2>/dev/null || cd $(find / -maxdepth 3 -name "docker-compose.yml" -path "*${dockerProject}*" -exec dirname {} \\; 2>/dev/null | head -1) 2>/dev/null || cd $(find / -maxdepth 3 -name "docker-compose.yml" -path "*openclaw*" -exec dirname {} \\; 2>/dev/null | head -1) 2>/dev/null`,
-          `docker compose pull 2>&1 || docker pull $(docker inspect --format='{{.Config.Image}}' ${containerName} 2>/dev/null) 2>&1`,
-          'echo "---RESTART---"',
-          `docker compose down 2>&1 || true`,
-          `docker compose up -d 2>&1 || docker restart ${containerName} 2>&1`,
-          'sleep 5',
-          'echo "---STATUS---"',
-          `docker ps --filter "name=openclaw" --format "table {{.Names}}\\t{{.Status}}" 2>&1`,
-          'echo "---VERSION---"',
-          `docker exec ${containerName} openclaw --version 2>/dev/null || docker exec $(docker ps -qf "name=openclaw" | head -1) openclaw --version 2>/dev/null || echo "NO_VERSION"`,
-        ].join('; ');
-      } else {
-        method = "npm";
-        updateCmd = [
-          'echo "Installing latest OpenClaw via npm..."',
-          'npm install -g openclaw@latest 2>&1; NPM_EXIT=$?',
-          'echo "---NPM_EXIT=$NPM_EXIT---"',
-          'echo "---RESTART---"',
-          'kill $(pgrep -f "openclaw gateway") $(pgrep -f "openclaw-gateway") 2>/dev/null || true',
-          'sleep 2',
-          'nohup openclaw gateway run --bind lan --port 18789 --force > /tmp/openclaw-gateway.log 2>&1 & disown',
-          'sleep 5',
-          'echo "---VERSION---"',
-          'openclaw --version 2>/dev/null || echo "NO_VERSION"',
-          'for p in /usr/local/lib/node_modules/openclaw /usr/lib/node_modules/openclaw /root/.npm-global/lib/node_modules/openclaw; do [ -f "$p/package.json" ] && grep \'"version"\' "$p/package.json" | head -1 && break; done 2>/dev/null || echo "NO_PKG"',
-          'echo "---GATEWAY---"',
-          'curl -sf http://localhost:18789/health 2>/dev/null && echo "GATEWAY_OK" || echo "GATEWAY_DOWN"',
-        ].join('; ');
-      }
-
-      const result = await executeRawSSHCommand(updateCmd, sshConfig, 2, 120000);
-
-      const output = result.output || "";
-      const stderr = result.error || "";
-      const versionSection = output.split("---VERSION---")[1]?.split("---GATEWAY---")[0]?.trim() || "";
-      const versionMatch = versionSection.match(/"version"\s*:\s*"([^"]+)"/) || versionSection.match(/(\d+\.\d+[\.\d-]*\S*)/);
-      const newVersion = versionMatch ? versionMatch[1] : "";
-
-      const hasNpmFail = output.includes("NPM_EXIT=1") || output.includes("npm ERR!");
-      const gatewayOk = output.includes("GATEWAY_OK");
-      const hasVersionOutput = newVersion && newVersion !== "NO_VERSION";
-      const updateSucceeded = (hasVersionOutput || gatewayOk) && !hasNpmFail;
-
-      res.json({
-        success: updateSucceeded,
-        newVersion: newVersion || "updated",
-        output,
-        method,
-        gatewayRunning: gatewayOk,
-        sshSuccess: result.success,
-        sshError: stderr || undefined,
-      });
+      stream.end();
     } catch (error: any) {
+      if (res.headersSent) return res.end();
       res.status(500).json({ error: error.message || "Update failed" });
     }
   });
@@ -6344,7 +6826,7 @@ setInterval(sendHeartbeat, INTERVAL_MS);
 
   const skillTriggerLog: Array<{ timestamp: string; source: string; action: string; payload: any; result: string }> = [];
 
-  app.post("/api/webhooks/skill-trigger", async (req: Request, res: Response) => {
+  app.post("/api/webhooks/skill-trigger", requireApiKey("skill-trigger"), async (req: Request, res: Response) => {
     try {
       const { action, source, payload } = req.body;
       const sourceLabel = source || req.headers["x-trigger-source"] || "unknown";
@@ -6365,6 +6847,7 @@ setInterval(sendHeartbeat, INTERVAL_MS);
       if (skillTriggerLog.length > 200) skillTriggerLog.shift();
 
       console.log(`[Webhook] Skill trigger: action=${action} source=${sourceLabel}`);
+      eventBus.publish("skill.trigger", "skill-trigger-webhook", { action, source: sourceLabel, payload: entry.payload });
 
       res.json({ status: "ok", action, source: sourceLabel, timestamp: entry.timestamp });
     } catch (error: any) {
@@ -6405,23 +6888,16 @@ def run(command: str):
     except Exception as e:
         return {"error": str(e)}`;
 
-      const { executeSSHCommand } = await import("./ssh");
-      const vps = await storage.getVpsConnection();
-      if (!vps) {
+      const { executeSSHRawCommand, getSSHConfig } = await import("./ssh");
+      const sshConfig = getSSHConfig();
+      if (!sshConfig) {
         return res.status(400).json({ error: "No VPS connection configured" });
       }
 
-      const sshConfig = {
-        host: vps.vpsIp,
-        port: vps.vpsPort || 22,
-        username: vps.sshUser || "root",
-        privateKey: vps.sshKeyPath || undefined,
-      };
-
       const skillPath = `/root/.openclaw/skills/${safeName}`;
-      await executeSSHCommand(sshConfig, `mkdir -p '${skillPath}'`);
-      await executeSSHCommand(sshConfig, `cat > '${skillPath}/SKILL.md' << 'SKILLEOF'\n${skillMd}\nSKILLEOF`);
-      await executeSSHCommand(sshConfig, `cat > '${skillPath}/handler.py' << 'HANDLEREOF'\n${handlerPy}\nHANDLEREOF`);
+      await executeSSHRawCommand(`mkdir -p '${skillPath}'`, sshConfig);
+      await executeSSHRawCommand(`cat > '${skillPath}/SKILL.md' << 'SKILLEOF'\n${skillMd}\nSKILLEOF`, sshConfig);
+      await executeSSHRawCommand(`cat > '${skillPath}/handler.py' << 'HANDLEREOF'\n${handlerPy}\nHANDLEREOF`, sshConfig);
 
       res.json({
         status: "created",
@@ -6633,6 +7109,17 @@ def api_call(method: str, path: str, data: dict = None, headers: dict = None):
       });
 
       console.log(`[GitHub Webhook] ${event} from ${repo} by ${sender} (delivery: ${deliveryId})`);
+      eventBus.publish("github.webhook", "github-webhook", {
+        event,
+        action: payload.action,
+        repo,
+        sender,
+        branch: payload.ref?.replace("refs/heads/", "") || payload.workflow_run?.head_branch || payload.pull_request?.head?.ref,
+        conclusion: payload.workflow_run?.conclusion,
+        severity,
+        message,
+        deliveryId,
+      });
 
       if (event === "workflow_run" && payload.workflow_run?.conclusion === "failure") {
         try {
@@ -6648,99 +7135,208 @@ def api_call(method: str, path: str, data: dict = None, headers: dict = None):
     }
   });
 
+  app.post("/api/terminal/sessions", requireAuth, async (req, res) => {
+    try {
+      const parsed = terminalSessionSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.message });
+      }
+      const instanceId = await resolveInstanceId(req);
+      const instance = instanceId ? await storage.getInstance(instanceId) : undefined;
+      if (!instance) return res.status(400).json({ error: "No instance" });
+      const vps = await storage.getVpsConnection(instance.id);
+      if (!vps?.vpsIp) return res.status(400).json({ error: "No VPS configured" });
+
+      const { buildSSHConfigFromVps } = await import("./ssh");
+      const { createTerminalTicket } = await import("./terminal");
+      const sshConfig = buildSSHConfigFromVps(vps);
+      const { target, machineId, cols, rows } = parsed.data;
+      if (target === "node") {
+        const machine = machineId ? await storage.getMachine(machineId) : undefined;
+        if (!machine) return res.status(404).json({ error: "Node not found" });
+        const { machineNodeId } = await import("./ai-task-runner");
+        const label = `node ${machine.displayName || machine.hostname || machine.name}`;
+        return res.json(createTerminalTicket({ kind: "node", label, sshConfig, node: machineNodeId(machine) }, currentUserId(req) ?? null, { cols, rows }));
+      }
+      res.json(createTerminalTicket({ kind: "vps", label: `${instance.name} (${vps.vpsIp})`, sshConfig }, currentUserId(req) ?? null, { cols, rows }));
+    } catch (error: any) {
+      res.status(500).json({ error: error.message || "Failed to open terminal" });
+    }
+  });
+
+  app.get("/api/terminal/sessions", requireAuth, async (_req, res) => {
+    const { listTerminalSessions } = await import("./terminal");
+    res.json(listTerminalSessions());
+  });
+
+  app.delete("/api/terminal/sessions/:id", requireAuth, async (req, res) => {
+    const { closeTerminalSession } = await import("./terminal");
+    if (!closeTerminalSession(req.params.id as string)) return res.status(404).json({ error: "Session not found" });
+    logAudit("Terminal session closed", "terminal_session", `Session ${req.params.id}`, currentUserId(req));
+    res.json({ success: true });
+  });
+
+  const fileSSHConfig = async (res: Response) => {
+    const { getSSHConfig } = await import("./ssh");
+    const sshConfig = getSSHConfig();
+    if (!sshConfig) res.status(500).json({ error: "No SSH connection configured" });
+    return sshConfig;
+  };
+
   app.get("/api/files/list", requireAuth, async (req: Request, res: Response) => {
+    const { fileErrorStatus, listDirectory, normalizeRemotePath } = await import("./sftp");
     try {
-      const dirPath = (req.query.path as string) || "/root";
-      const safePath = dirPath.replace(/\.\./g, "").replace(/[;&|`$]/g, "");
-      const { executeRawSSHCommand, getSSHConfig } = await import("./ssh");
-      const sshConfig = getSSHConfig();
-      if (!sshConfig) return res.status(500).json({ error: "No SSH connection configured" });
-      const result = await executeRawSSHCommand(
-        `ls -la --time-style=long-iso ${JSON.stringify(safePath)} 2>/dev/null | tail -n +2`,
-        sshConfig
-      );
-      if (!result.success) return res.status(500).json({ error: result.error || "Failed to list directory" });
-      const entries: Array<{ name: string; type: string; size: number; modified: string; permissions: string }> = [];
-      const lines = result.output.split("\n").filter((l: string) => l.trim());
-      for (const line of lines) {
-        const parts = line.trim().split(/\s+/);
-        if (parts.length < 8) continue;
-        const permissions = parts[0];
-        const size = parseInt(parts[4], 10) || 0;
-        const date = parts[5];
-        const time = parts[6];
-        const name = parts.slice(7).join(" ").replace(/ -> .*$/, "");
-        if (name === "." || name === "..") continue;
-        let type = "file";
-        if (permissions.startsWith("d")) type = "directory";
-        else if (permissions.startsWith("l")) type = "symlink";
-        else if (!permissions.startsWith("-")) type = "other";
-        entries.push({ name, type, size, modified: `${date} ${time}`, permissions });
-      }
-      entries.sort((a, b) => {
-        if (a.type === "directory" && b.type !== "directory") return -1;
-        if (a.type !== "directory" && b.type === "directory") return 1;
-        return a.name.localeCompare(b.name);
-      });
-      res.json({ path: safePath, entries });
+      const safePath = normalizeRemotePath((req.query.path as string) || "/root");
+      if (!safePath) return res.status(400).json({ error: "An absolute path is required" });
+      const sshConfig = await fileSSHConfig(res);
+      if (!sshConfig) return;
+      res.json({ path: safePath, entries: await listDirectory(sshConfig, safePath) });
     } catch (error: any) {
-      res.status(500).json({ error: error.message || "Failed to list directory" });
+      res.status(fileErrorStatus(error)).json({ error: error.message || "Failed to list directory" });
     }
   });
 
   app.get("/api/files/read", requireAuth, async (req: Request, res: Response) => {
+    const { fileErrorStatus, normalizeRemotePath, readTextFile } = await import("./sftp");
     try {
-      const filePath = (req.query.path as string);
-      if (!filePath) return res.status(400).json({ error: "Path is required" });
-      const safePath = filePath.replace(/\.\./g, "").replace(/[;&|`$]/g, "");
-      const { executeRawSSHCommand, getSSHConfig } = await import("./ssh");
-      const sshConfig = getSSHConfig();
-      if (!sshConfig) return res.status(500).json({ error: "No SSH connection configured" });
-      const sizeCheck = await executeRawSSHCommand(
-        `stat --printf='%s' ${JSON.stringify(safePath)} 2>/dev/null || echo 'NOT_FOUND'`,
-        sshConfig
-      );
-      if (sizeCheck.output.includes("NOT_FOUND")) {
-        return res.status(404).json({ error: "File not found" });
-      }
-      const fileSize = parseInt(sizeCheck.output.trim(), 10);
-      if (fileSize > 1024 * 1024) {
-        return res.status(400).json({ error: "File too large to edit (>1MB)" });
-      }
-      const result = await executeRawSSHCommand(
-        `cat ${JSON.stringify(safePath)}`,
-        sshConfig,
-        1,
-        30000
-      );
-      if (!result.success) return res.status(500).json({ error: result.error || "Failed to read file" });
-      res.json({ path: safePath, content: result.output });
+      const safePath = normalizeRemotePath(req.query.path);
+      if (!safePath) return res.status(400).json({ error: "Path is required" });
+      const sshConfig = await fileSSHConfig(res);
+      if (!sshConfig) return;
+      res.json(await readTextFile(sshConfig, safePath));
     } catch (error: any) {
-      res.status(500).json({ error: error.message || "Failed to read file" });
+      res.status(fileErrorStatus(error)).json({ error: error.message || "Failed to read file" });
     }
   });
 
   app.post("/api/files/write", requireAuth, async (req: Request, res: Response) => {
+    const { fileErrorStatus, normalizeRemotePath, writeTextFile } = await import("./sftp");
     try {
-      const { path: filePath, content } = req.body;
-      if (!filePath || typeof content !== "string") {
+      const { content, expectedMtime } = req.body;
+      const safePath = normalizeRemotePath(req.body.path);
+      if (!safePath || typeof content !== "string") {
         return res.status(400).json({ error: "Path and content are required" });
       }
-      const safePath = filePath.replace(/\.\./g, "").replace(/[;&|`$]/g, "");
-      const { executeRawSSHCommand, getSSHConfig } = await import("./ssh");
-      const sshConfig = getSSHConfig();
-      if (!sshConfig) return res.status(500).json({ error: "No SSH connection configured" });
-      const b64 = Buffer.from(content, "utf8").toString("base64");
-      const result = await executeRawSSHCommand(
-        `echo '${b64}' | base64 -d > ${JSON.stringify(safePath)}`,
-        sshConfig,
-        1,
-        30000
-      );
-      if (!result.success) return res.status(500).json({ error: result.error || "Failed to write file" });
+      if (expectedMtime !== undefined && typeof expectedMtime !== "number") {
+        return res.status(400).json({ error: "expectedMtime must be a number" });
+      }
+      const sshConfig = await fileSSHConfig(res);
+      if (!sshConfig) return;
+      annotateOperation({
+        summary: `Write ${safePath} (${Buffer.byteLength(content, "utf8")} bytes)`,
+        command: `write ${JSON.stringify(safePath)}`,
+        input: content,
+      });
+      const result = await writeTextFile(sshConfig, safePath, content, expectedMtime);
+      if (result.conflict) {
+        return res.status(409).json({ error: "The file was changed on the server since it was opened", currentMtime: result.currentMtime });
+      }
+      logAudit(`Saved ${safePath}`, "file_change", result.backupPath ? `Previous version kept at ${result.backupPath}` : "New file", currentUserId(req));
+      res.json({ success: true, path: safePath, mtime: result.mtime, backupPath: result.backupPath });
+    } catch (error: any) {
+      res.status(fileErrorStatus(error)).json({ error: error.message || "Failed to write file" });
+    }
+  });
+
+  app.post("/api/files/upload", requireAuth, fileUpload.array("files", MAX_UPLOAD_FILES), async (req: Request, res: Response) => {
+    const { fileErrorStatus, normalizeRemotePath, uploadFiles } = await import("./sftp");
+    const files = Array.isArray(req.files) ? req.files : [];
+    try {
+      const directory = normalizeRemotePath(req.query.path);
+      if (!directory) return res.status(400).json({ error: "An absolute target directory is required" });
+      if (files.length === 0) return res.status(400).json({ error: "No files were uploaded" });
+      const sshConfig = await fileSSHConfig(res);
+      if (!sshConfig) return;
+      const uploaded = await uploadFiles(sshConfig, directory, files.map(f => ({ localPath: f.path, name: f.originalname })));
+      logAudit(`Uploaded ${uploaded.length} file(s) to ${directory}`, "file_change", uploaded.join(", "), currentUserId(req));
+      res.json({ success: true, paths: uploaded });
+    } catch (error: any) {
+      res.status(fileErrorStatus(error)).json({ error: error.message || "Failed to upload files" });
+    } finally {
+      files.forEach(f => { try { unlinkSync(f.path); } catch {} });
+    }
+  });
+
+  app.get("/api/files/download", requireAuth, async (req: Request, res: Response) => {
+    const { downloadPath, fileErrorStatus, normalizeRemotePath } = await import("./sftp");
+    try {
+      const safePath = normalizeRemotePath(req.query.path);
+      if (!safePath) return res.status(400).json({ error: "Path is required" });
+      const sshConfig = await fileSSHConfig(res);
+      if (!sshConfig) return;
+      await downloadPath(sshConfig, safePath, req.query.format === "zip" ? "zip" : "tar", {
+        begin: (filename, contentType, size) => {
+          res.setHeader("Content-Type", contentType);
+          res.setHeader("Content-Disposition", `attachment; filename="${filename.replace(/["\\\r\n]/g, "_")}"`);
+          if (size !== undefined) res.setHeader("Content-Length", size);
+          return res;
+        },
+      });
+    } catch (error: any) {
+      if (res.headersSent) return res.destroy(error);
+      res.status(fileErrorStatus(error)).json({ error: error.message || "Failed to download" });
+    }
+  });
+
+  app.post("/api/files/move", requireAuth, async (req: Request, res: Response) => {
+    const { fileErrorStatus, movePath, normalizeRemotePath } = await import("./sftp");
+    try {
+      const from = normalizeRemotePath(req.body.from);
+      const to = normalizeRemotePath(req.body.to);
+      if (!from || !to) return res.status(400).json({ error: "Absolute source and destination paths are required" });
+      const sshConfig = await fileSSHConfig(res);
+      if (!sshConfig) return;
+      const path = await movePath(sshConfig, from, to);
+      logAudit(`Moved ${from} to ${path}`, "file_change", undefined, currentUserId(req));
+      res.json({ success: true, path });
+    } catch (error: any) {
+      res.status(fileErrorStatus(error)).json({ error: error.message || "Failed to move" });
+    }
+  });
+
+  app.post("/api/files/chmod", requireAuth, async (req: Request, res: Response) => {
+    const { changeMode, fileErrorStatus, normalizeRemotePath } = await import("./sftp");
+    try {
+      const safePath = normalizeRemotePath(req.body.path);
+      const mode = String(req.body.mode ?? "");
+      if (!safePath || !/^[0-7]{3,4}$/.test(mode)) return res.status(400).json({ error: "Path and an octal mode such as 644 are required" });
+      const sshConfig = await fileSSHConfig(res);
+      if (!sshConfig) return;
+      await changeMode(sshConfig, safePath, parseInt(mode, 8));
+      logAudit(`Changed mode of ${safePath} to ${mode}`, "file_change", undefined, currentUserId(req));
+      res.json({ success: true });
+    } catch (error: any) {
+      res.status(fileErrorStatus(error)).json({ error: error.message || "Failed to change permissions" });
+    }
+  });
+
+  app.post("/api/files/mkdir", requireAuth, async (req: Request, res: Response) => {
+    const { fileErrorStatus, makeDirectory, normalizeRemotePath } = await import("./sftp");
+    try {
+      const safePath = normalizeRemotePath(req.body.path);
+      if (!safePath) return res.status(400).json({ error: "Path is required" });
+      const sshConfig = await fileSSHConfig(res);
+      if (!sshConfig) return;
+      await makeDirectory(sshConfig, safePath);
+      logAudit(`Created directory ${safePath}`, "file_change", undefined, currentUserId(req));
       res.json({ success: true, path: safePath });
     } catch (error: any) {
-      res.status(500).json({ error: error.message || "Failed to write file" });
+      res.status(fileErrorStatus(error)).json({ error: error.message || "Failed to create directory" });
+    }
+  });
+
+  app.delete("/api/files", requireAuth, async (req: Request, res: Response) => {
+    const { fileErrorStatus, normalizeRemotePath, removePath } = await import("./sftp");
+    try {
+      const safePath = normalizeRemotePath(req.query.path);
+      if (!safePath || safePath === "/") return res.status(400).json({ error: "A path other than / is required" });
+      const sshConfig = await fileSSHConfig(res);
+      if (!sshConfig) return;
+      const removed = await removePath(sshConfig, safePath, req.query.recursive === "true");
+      logAudit(`Deleted ${safePath}`, "file_change", `${removed} entr${removed === 1 ? "y" : "ies"} removed`, currentUserId(req));
+      res.json({ success: true, removed });
+    } catch (error: any) {
+      res.status(fileErrorStatus(error)).json({ error: error.message || "Failed to delete" });
     }
   });
 
@@ -6897,8 +7493,12 @@ def api_call(method: str, path: str, data: dict = None, headers: dict = None):
         sshConfig
       );
 
+      const success = result.success && (result.output || "").includes("INSTALL_SUCCESS");
+      if (success) {
+        logAudit(`Installed plugin ${pluginName}`, "plugin_installed", undefined, currentUserId(req), { instanceId, plugin: pluginName });
+      }
       res.json({
-        success: result.success && (result.output || "").includes("INSTALL_SUCCESS"),
+        success,
         output: result.output,
         error: result.error,
       });
@@ -7078,12 +7678,10 @@ def api_call(method: str, path: str, data: dict = None, headers: dict = None):
       const instanceId = await resolveInstanceId(req);
       if (!instanceId) return res.status(400).json({ error: "No instance" });
       const instance = await storage.getInstance(instanceId);
-      const vps = instance ? await storage.getVpsConfig(instanceId) : null;
+      const vps = instance ? await storage.getVpsConnection(instanceId) : null;
 
       const { executeSSHRawCommand, buildSSHConfigFromVps, getSSHConfig } = await import("./ssh");
-      const sshConfig = vps?.vpsIp
-        ? buildSSHConfigFromVps({ vpsIp: vps.vpsIp, vpsPort: vps.vpsPort || 22, sshUser: vps.sshUser || "root", sshKeyPath: vps.sshKeyPath })
-        : getSSHConfig();
+      const sshConfig = vps?.vpsIp ? buildSSHConfigFromVps(vps) : getSSHConfig();
 
       if (!sshConfig) return res.status(400).json({ error: "No SSH credentials configured" });
 
@@ -7170,12 +7768,10 @@ def api_call(method: str, path: str, data: dict = None, headers: dict = None):
       const instanceId = await resolveInstanceId(req);
       if (!instanceId) return res.status(400).json({ error: "No instance" });
       const instance = await storage.getInstance(instanceId);
-      const vps = instance ? await storage.getVpsConfig(instanceId) : null;
+      const vps = instance ? await storage.getVpsConnection(instanceId) : null;
 
       const { executeSSHRawCommand, buildSSHConfigFromVps, getSSHConfig } = await import("./ssh");
-      const sshConfig = vps?.vpsIp
-        ? buildSSHConfigFromVps({ vpsIp: vps.vpsIp, vpsPort: vps.vpsPort || 22, sshUser: vps.sshUser || "root", sshKeyPath: vps.sshKeyPath })
-        : getSSHConfig();
+      const sshConfig = vps?.vpsIp ? buildSSHConfigFromVps(vps) : getSSHConfig();
 
       if (!sshConfig) return res.status(400).json({ error: "No SSH credentials configured" });
 
@@ -7217,8 +7813,22 @@ def api_call(method: str, path: str, data: dict = None, headers: dict = None):
       const { insertAutomationJobSchema } = await import("@shared/schema");
       const parsed = insertAutomationJobSchema.safeParse(req.body);
       if (!parsed.success) return res.status(400).json({ error: parsed.error.message });
-      const { getNextRun } = await import("./automation");
-      const nextRun = getNextRun(parsed.data.schedule);
+      const { getNextRun, validateSchedule, validateTarget, validateTrigger, validateJobDefinition } = await import("./automation");
+      const isEventJob = parsed.data.triggerType === "event";
+      const scheduleError = (isEventJob
+        ? validateTrigger({
+          triggerType: "event",
+          eventType: parsed.data.eventType ?? null,
+          eventFilters: parsed.data.eventFilters ?? null,
+        })
+        : validateSchedule(parsed.data.schedule, parsed.data.timezone)) || validateTarget({
+        targetType: parsed.data.targetType ?? "default",
+        targetInstanceId: parsed.data.targetInstanceId ?? null,
+        targetNode: parsed.data.targetNode ?? null,
+        targetGroupId: parsed.data.targetGroupId ?? null,
+      }) || validateJobDefinition(parsed.data);
+      if (scheduleError) return res.status(400).json({ error: scheduleError });
+      const nextRun = isEventJob ? null : getNextRun(parsed.data.schedule, parsed.data.timezone);
       const job = await storage.createAutomationJob(parsed.data);
       await storage.updateAutomationJob(job.id, { nextRun });
       const updated = await storage.getAutomationJob(job.id);
@@ -7235,9 +7845,21 @@ def api_call(method: str, path: str, data: dict = None, headers: dict = None):
       const parsed = updateSchema.safeParse(req.body);
       if (!parsed.success) return res.status(400).json({ error: parsed.error.message });
       const updateData: any = { ...parsed.data };
-      if (parsed.data.schedule) {
-        const { getNextRun } = await import("./automation");
-        updateData.nextRun = getNextRun(parsed.data.schedule);
+      const existing = await storage.getAutomationJob(req.params.id as string);
+      if (!existing) return res.status(404).json({ error: "Job not found" });
+      const { validateTarget, validateTrigger, validateJobDefinition } = await import("./automation");
+      const merged = { ...existing, ...parsed.data };
+      const targetError = validateTarget(merged) || validateTrigger(merged) || validateJobDefinition(merged);
+      if (targetError) return res.status(400).json({ error: targetError });
+      if (merged.triggerType === "event") {
+        updateData.nextRun = null;
+      } else if (parsed.data.schedule !== undefined || parsed.data.timezone !== undefined || parsed.data.enabled || parsed.data.triggerType !== undefined) {
+        const schedule = parsed.data.schedule ?? existing.schedule;
+        const timezone = parsed.data.timezone !== undefined ? parsed.data.timezone : existing.timezone;
+        const { getNextRun, validateSchedule } = await import("./automation");
+        const scheduleError = validateSchedule(schedule, timezone);
+        if (scheduleError) return res.status(400).json({ error: scheduleError });
+        updateData.nextRun = getNextRun(schedule, timezone);
       }
       const updated = await storage.updateAutomationJob(req.params.id, updateData);
       if (!updated) return res.status(404).json({ error: "Job not found" });
@@ -7261,7 +7883,7 @@ def api_call(method: str, path: str, data: dict = None, headers: dict = None):
       const job = await storage.getAutomationJob(req.params.id);
       if (!job) return res.status(404).json({ error: "Job not found" });
       const { executeJob } = await import("./automation");
-      executeJob(job).catch(err => console.error("[Automation] Manual run failed:", err.message));
+      executeJob(job, { trigger: "manual" }).catch(err => console.error("[Automation] Manual run failed:", err.message));
       res.json({ success: true, message: "Job execution started" });
     } catch (error: any) {
       res.status(500).json({ error: "Failed to run job" });
@@ -7277,6 +7899,69 @@ def api_call(method: str, path: str, data: dict = None, headers: dict = None):
     }
   });
 
+  app.get("/api/automation/events", requireAuth, async (req, res) => {
+    const limit = Math.min(parseInt(req.query.limit as string, 10) || 50, 200);
+    res.json(eventBus.getRecentEvents(limit));
+  });
+
+  app.post("/api/automation/events/test", requireAuth, async (req, res) => {
+    try {
+      const { AUTOMATION_EVENT_TYPES } = await import("@shared/schema");
+      const parsed = z.object({
+        type: z.enum(AUTOMATION_EVENT_TYPES),
+        payload: z.record(z.any()).default({}),
+      }).safeParse(req.body);
+      if (!parsed.success) return res.status(400).json({ error: parsed.error.message });
+      const event = eventBus.publish(parsed.data.type, "manual-test", parsed.data.payload);
+      res.json(event);
+    } catch (error: any) {
+      res.status(500).json({ error: "Failed to publish test event" });
+    }
+  });
+
+  app.get("/api/machine-groups", requireAuth, async (_req, res) => {
+    try {
+      const groups = await storage.getMachineGroups();
+      res.json(groups);
+    } catch (error: any) {
+      res.status(500).json({ error: "Failed to fetch machine groups" });
+    }
+  });
+
+  app.post("/api/machine-groups", requireAuth, async (req, res) => {
+    try {
+      const { insertMachineGroupSchema } = await import("@shared/schema");
+      const parsed = insertMachineGroupSchema.safeParse(req.body);
+      if (!parsed.success) return res.status(400).json({ error: parsed.error.message });
+      const group = await storage.createMachineGroup(parsed.data);
+      res.status(201).json(group);
+    } catch (error: any) {
+      res.status(500).json({ error: "Failed to create machine group" });
+    }
+  });
+
+  app.patch("/api/machine-groups/:id", requireAuth, async (req, res) => {
+    try {
+      const { insertMachineGroupSchema } = await import("@shared/schema");
+      const parsed = insertMachineGroupSchema.partial().safeParse(req.body);
+      if (!parsed.success) return res.status(400).json({ error: parsed.error.message });
+      const updated = await storage.updateMachineGroup(req.params.id as string, parsed.data);
+      if (!updated) return res.status(404).json({ error: "Machine group not found" });
+      res.json(updated);
+    } catch (error: any) {
+      res.status(500).json({ error: "Failed to update machine group" });
+    }
+  });
+
+  app.delete("/api/machine-groups/:id", requireAuth, async (req, res) => {
+    try {
+      await storage.deleteMachineGroup(req.params.id as string);
+      res.json({ success: true });
+    } catch (error: any) {
+      res.status(500).json({ error: "Failed to delete machine group" });
+    }
+  });
+
   app.get("/api/metrics", requireAuth, async (req, res) => {
     try {
       const category = req.query.category as string | undefined;
@@ -7420,6 +8105,9 @@ Suggest 3 practical code improvements. Return JSON array with objects having: ti
   app.post("/api/email-workflows", requireAuth, async (req, res) => {
     try {
       const parsed = insertEmailWorkflowSchema.parse(req.body);
+      const { validateEmailPattern } = await import("./email-pattern");
+      const patternError = validateEmailPattern(parsed.triggerPattern);
+      if (patternError) return res.status(400).json({ error: patternError });
       const wf = await storage.createEmailWorkflow(parsed);
       res.json(wf);
     } catch (err: any) {
@@ -7440,6 +8128,11 @@ Suggest 3 practical code improvements. Return JSON array with objects having: ti
         enabled: z.boolean().optional(),
       });
       const parsed = updateSchema.parse(req.body);
+      if (parsed.triggerPattern !== undefined) {
+        const { validateEmailPattern } = await import("./email-pattern");
+        const patternError = validateEmailPattern(parsed.triggerPattern);
+        if (patternError) return res.status(400).json({ error: patternError });
+      }
       const wf = await storage.updateEmailWorkflow(req.params.id, parsed);
       if (!wf) return res.status(404).json({ error: "Workflow not found" });
       res.json(wf);
@@ -7457,6 +8150,78 @@ Suggest 3 practical code improvements. Return JSON array with objects having: ti
     }
   });
 
+  app.get("/api/email-workflows/test/recent", requireAuth, async (req, res) => {
+    try {
+      const { isGmailConfigured } = await import("./gmail");
+      if (!isGmailConfigured()) return res.status(400).json({ error: "Gmail is not connected" });
+      const { getRecentGmailMessages } = await import("./email-workflows");
+      const limit = Math.min(parseInt(req.query.limit as string) || 10, 25);
+      const messages = await getRecentGmailMessages(limit);
+      res.json(messages.map(m => ({ id: m.id, from: m.from, subject: m.subject, date: m.date, snippet: m.snippet })));
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  });
+
+  app.post("/api/email-workflows/test", requireAuth, async (req, res) => {
+    try {
+      const testSchema = z.object({
+        raw: z.string().max(200000).optional(),
+        gmailMessageId: z.string().optional(),
+        workflowIds: z.array(z.string()).optional(),
+      }).refine(body => !!body.raw?.trim() !== !!body.gmailMessageId, { message: "Provide either raw or gmailMessageId" });
+      const parsed = testSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.message });
+      }
+
+      const { parseSampleEmail, getGmailMessage, testEmailWorkflows } = await import("./email-workflows");
+      const message = parsed.data.gmailMessageId
+        ? await getGmailMessage(parsed.data.gmailMessageId)
+        : await parseSampleEmail(parsed.data.raw!);
+      if (!message) return res.status(404).json({ error: "Gmail message not found" });
+
+      let workflows = await storage.getEmailWorkflows();
+      if (parsed.data.workflowIds) workflows = workflows.filter(w => parsed.data.workflowIds!.includes(w.id));
+      const results = await testEmailWorkflows(message, workflows);
+      res.json({
+        message: {
+          from: message.from,
+          to: message.to,
+          cc: message.cc,
+          subject: message.subject,
+          date: message.date,
+          snippet: message.snippet,
+          labels: message.labels,
+          attachmentNames: message.attachmentNames,
+        },
+        results,
+      });
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  });
+
+  app.get("/api/email-workflows/:id/matches", requireAuth, async (req, res) => {
+    try {
+      const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+      const matches = await storage.getEmailWorkflowMatches(req.params.id as string, limit);
+      res.json(matches);
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  });
+
+  app.post("/api/email-workflows/poll", requireAuth, async (_req, res) => {
+    try {
+      const { pollEmailWorkflows } = await import("./email-workflows");
+      await pollEmailWorkflows();
+      res.json({ success: true });
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  });
+
   setTimeout(async () => {
     try {
       if (process.env.TELEGRAM_BOT_TOKEN && process.env.NODE_ENV !== "development") {
@@ -7468,18 +8233,63 @@ Suggest 3 practical code improvements. Return JSON array with objects having: ti
     } catch (err: any) {
       console.error("[Startup] Telegram auto-start failed:", err.message);
     }
+    try {
+      await storage.ensureOwner();
+      const owner = await storage.getOwnerUser();
+      if (owner) {
+        const claimed = await storage.claimUnownedPersonalData(owner.id);
+        if (claimed > 0) console.log(`[Startup] Assigned ${claimed} unowned personal record(s) to ${owner.username}`);
+      }
+    } catch (err: any) {
+      console.error("[Startup] Owner bootstrap failed:", err.message);
+    }
+    try {
+      const hashed = await hashLegacyApiKeys();
+      if (hashed > 0) console.log(`[Startup] Hashed ${hashed} legacy API key(s)`);
+    } catch (err: any) {
+      console.error("[Startup] API key hashing failed:", err.message);
+    }
+    try {
+      await startSecurityAgent();
+    } catch (err: any) {
+      console.error("[Startup] Security agent failed:", err.message);
+    }
+    try {
+      await startEventSources();
+    } catch (err: any) {
+      console.error("[Startup] Event sources failed:", err.message);
+    }
     try {
       const { startAutomationScheduler } = await import("./automation");
       startAutomationScheduler();
     } catch (err: any) {
       console.error("[Startup] Automation scheduler failed:", err.message);
     }
+    try {
+      const { startEmailWorkflowEngine } = await import("./email-workflows");
+      await startEmailWorkflowEngine();
+    } catch (err: any) {
+      console.error("[Startup] Email workflow engine failed:", err.message);
+    }
     try {
       const { startAutoScan } = await import("./code-guardian");
       startAutoScan();
     } catch (err: any) {
       console.error("[Startup] Guardian auto-scan failed:", err.message);
     }
+    try {
+      const { startIntrusionMonitor } = await import("./intrusion-monitor");
+      startIntrusionMonitor();
+    } catch (err: any) {
+      console.error("[Startup] Intrusion monitor failed:", err.message);
+    }
+    try {
+      const { checkOverdueRotations, startSecretRotationMonitor } = await import("./secret-rotation");
+      await checkOverdueRotations();
+      startSecretRotationMonitor();
+    } catch (err: any) {
+      console.error("[Startup] Secret rotation monitor failed:", err.message);
+    }
   }, 3000);
 
   // ── Replit Projects ──────────────────────────────────────
@@ -8376,7 +9186,7 @@ Suggest 3 practical code improvements. Return JSON array with objects having: ti
     }
   });
 
-  app.post("/api/omi/analyze", requireAuth, async (_req, res) => {
+  app.post("/api/omi/analyze", requireAuth, requireUser, async (req, res) => {
     try {
       const { fetchOmiMemories, isOmiConfigured } = await import("./omi");
       if (!isOmiConfigured()) return res.status(400).json({ error: "OMI_API_KEY not configured" });
@@ -8418,7 +9228,7 @@ Please respond with ONLY valid JSON (no markdown, no code blocks) in this exact
       }
 
       for (const todo of (parsed.todos || [])) {
-        await storage.createOmiTodo({
+        await storage.createOmiTodo(currentUserId(req), {
           content: todo.content,
           source: todo.source || null,
           sourceTitle: todo.source || null,
@@ -8435,22 +9245,23 @@ Please respond with ONLY valid JSON (no markdown, no code blocks) in this exact
     }
   });
 
-  app.get("/api/omi/todos", requireAuth, async (req, res) => {
+  app.get("/api/omi/todos", requireAuth, requireUser, async (req, res) => {
     try {
       const status = req.query.status as string | undefined;
-      const todos = await storage.getOmiTodos(status);
+      const todos = await storage.getOmiTodos(currentUserId(req), status);
       res.json(todos);
     } catch (error) {
       res.status(500).json({ error: "Failed to fetch todos" });
     }
   });
 
-  app.post("/api/omi/todos", requireAuth, async (req, res) => {
+  app.post("/api/omi/todos", requireAuth, requireUser, async (req, res) => {
     try {
-      const { content, priority, source, sourceTitle } = req.body;
+      const { content, priority, source, sourceTitle, shared } = req.body;
       if (!content?.trim()) return res.status(400).json({ error: "Content is required" });
-      const todo = await storage.createOmiTodo({
+      const todo = await storage.createOmiTodo(currentUserId(req), {
         content: content.trim(),
+        shared: shared === true,
         priority: priority || "medium",
         source: source || "manual",
         sourceTitle: sourceTitle || null,
@@ -8463,7 +9274,7 @@ Please respond with ONLY valid JSON (no markdown, no code blocks) in this exact
     }
   });
 
-  app.patch("/api/omi/todos/:id", requireAuth, async (req, res) => {
+  app.patch("/api/omi/todos/:id", requireAuth, requireUser, async (req, res) => {
     try {
       const validStatuses = ["pending", "done", "dismissed"];
       const status = req.body.status;
@@ -8472,7 +9283,7 @@ Please respond with ONLY valid JSON (no markdown, no code blocks) in this exact
       }
       const updates: any = { status };
       if (status === "done") updates.completedAt = new Date();
-      const todo = await storage.updateOmiTodo(req.params.id, updates);
+      const todo = await storage.updateOmiTodo(currentUserId(req), req.params.id, updates);
       if (!todo) return res.status(404).json({ error: "Todo not found" });
       res.json(todo);
     } catch (error) {
@@ -8480,9 +9291,10 @@ Please respond with ONLY valid JSON (no markdown, no code blocks) in this exact
     }
   });
 
-  app.delete("/api/omi/todos/:id", requireAuth, async (req, res) => {
+  app.delete("/api/omi/todos/:id", requireAuth, requireUser, async (req, res) => {
     try {
-      await storage.deleteOmiTodo(req.params.id);
+      const deleted = await storage.deleteOmiTodo(currentUserId(req), req.params.id);
+      if (!deleted) return res.status(404).json({ error: "Todo not found" });
       res.json({ success: true });
     } catch (error) {
       res.status(500).json({ error: "Failed to delete todo" });
@@ -8490,67 +9302,96 @@ Please respond with ONLY valid JSON (no markdown, no code blocks) in this exact
   });
 
   // ── Secrets Inventory ──
+  const secretInventory = [
+    { key: "DATABASE_URL", category: "core", label: "PostgreSQL Database", usedBy: ["Database connections", "Session store"], required: true },
+    { key: "SESSION_SECRET", category: "core", label: "Session Encryption Secret", usedBy: ["Express session encryption"], required: true },
+    { key: "APP_BASE_URL", category: "core", label: "Application Base URL", usedBy: ["OAuth callbacks", "Webhook URLs"], required: false },
+
+    { key: "OPENCLAW_DID_BASE_URL", category: "auth", label: "MedInvest DID Base URL", usedBy: ["OAuth 2.0 login"], required: true },
+    { key: "OPENCLAW_DID_CLIENT_ID", category: "auth", label: "MedInvest DID Client ID", usedBy: ["OAuth 2.0 login"], required: true },
+    { key: "OPENCLAW_DID_SECRET", category: "auth", label: "MedInvest DID Client Secret", usedBy: ["OAuth 2.0 login"], required: true },
+
+    { key: "OPENROUTER_API_KEY", category: "ai", label: "OpenRouter API Key", usedBy: ["LLM chat", "AI Task Runner", "SOP Generator", "Voice Chat"], required: true },
+    { key: "OPENAI_API_KEY", category: "ai", label: "OpenAI API Key", usedBy: ["Whisper STT", "TTS voice", "DALL-E images", "Code analysis"], required: true },
+    { key: "GEMINI_API_KEY", category: "ai", label: "Google Gemini API Key", usedBy: ["Gemini Proxy", "Image generation fallback"], required: false },
+    { key: "ANTHROPIC_API_KEY", category: "ai", label: "Anthropic API Key", usedBy: ["Claude models via OpenRouter"], required: false },
+    { key: "PERPLEXITY_API_KEY", category: "ai", label: "Perplexity API Key", usedBy: ["Search-augmented LLM"], required: false },
+    { key: "GROQ_API_KEY", category: "ai", label: "Groq API Key", usedBy: ["Fast inference models"], required: false },
+    { key: "ELEVENLABS_API_KEY", category: "ai", label: "ElevenLabs API Key", usedBy: ["Voice synthesis"], required: false },
+
+    { key: "GEMINI_PROXY_API_KEY", category: "proxy", label: "Gemini Proxy Auth Token", usedBy: ["Gemini Anti-Gravity Proxy authentication"], required: false },
+    { key: "GOOGLE_CLOUD_PROJECT", category: "proxy", label: "Google Cloud Project ID", usedBy: ["Vertex AI endpoint"], required: false },
+    { key: "GOOGLE_CLOUD_LOCATION", category: "proxy", label: "Google Cloud Location", usedBy: ["Vertex AI region"], required: false },
+    { key: "GCP_SERVICE_ACCOUNT_JSON", category: "proxy", label: "GCP Service Account JSON", usedBy: ["Vertex AI authentication"], required: false },
+
+    { key: "TELEGRAM_BOT_TOKEN", category: "messaging", label: "Telegram Bot Token", usedBy: ["Telegram bot"], required: false },
+    { key: "TWILIO_ACCOUNT_SID", category: "messaging", label: "Twilio Account SID", usedBy: ["SMS/WhatsApp via Twilio"], required: false },
+    { key: "TWILIO_AUTH_TOKEN", category: "messaging", label: "Twilio Auth Token", usedBy: ["SMS/WhatsApp via Twilio"], required: false },
+    { key: "RESEND_API_KEY", category: "messaging", label: "Resend API Key", usedBy: ["Email delivery"], required: false },
+
+    { key: "HOSTINGER_API_KEY", category: "infra", label: "Hostinger API Key", usedBy: ["VPS monitoring", "Firewall management"], required: false },
+    { key: "VPS_ROOT_PASSWORD", category: "infra", label: "VPS Root Password", usedBy: ["SSH tunnel agent", "Direct SSH access"], required: false },
+    { key: "OPENCLAW_API_KEY", category: "infra", label: "OpenClaw Gateway API Key", usedBy: ["Node heartbeat auth", "Agent script"], required: false },
+    { key: "OPENCLAW_GATEWAY_TOKEN", category: "infra", label: "OpenClaw Gateway Token", usedBy: ["Gateway proxy auth"], required: false },
+
+    { key: "REPLIT_SID", category: "replit", label: "Replit Session ID", usedBy: ["Replit project sync", "GraphQL API"], required: false },
+    { key: "REPLIT_USERNAME", category: "replit", label: "Replit Username", usedBy: ["Replit project sync", "Profile URL"], required: false },
+    { key: "OMI_API_KEY", category: "replit", label: "Omi Wearable API Key", usedBy: ["Omi memories", "SOP Generator", "Todo extraction"], required: false },
+
+    { key: "OPENCLAW_GITHUB_TOKEN", category: "integrations", label: "GitHub Token (OpenClaw)", usedBy: ["GitHub webhooks", "Repo access"], required: false },
+    { key: "GITHUB_TOKEN", category: "integrations", label: "GitHub Token (Fallback)", usedBy: ["GitHub API fallback"], required: false },
+    { key: "GITHUB_WEBHOOK_SECRET", category: "integrations", label: "GitHub Webhook Secret", usedBy: ["Webhook signature verification"], required: false },
+    { key: "NOTION_API_KEY", category: "integrations", label: "Notion API Key", usedBy: ["Notion integration"], required: false },
+    { key: "LINEAR_API_KEY", category: "integrations", label: "Linear API Key", usedBy: ["Linear issue tracking"], required: false },
+    { key: "HUGGINGFACE_TOKEN", category: "integrations", label: "Hugging Face Token", usedBy: ["Model inference"], required: false },
+    { key: "PINECONE_API_KEY", category: "integrations", label: "Pinecone API Key", usedBy: ["Vector database"], required: false },
+    { key: "SUPABASE_KEY", category: "integrations", label: "Supabase Key", usedBy: ["Supabase backend"], required: false },
+    { key: "AIRTABLE_API_KEY", category: "integrations", label: "Airtable API Key", usedBy: ["Airtable integration"], required: false },
+    { key: "ZAPIER_API_KEY", category: "integrations", label: "Zapier API Key", usedBy: ["Zapier automation"], required: false },
+
+    { key: "AWS_ACCESS_KEY_ID", category: "cloud", label: "AWS Access Key ID", usedBy: ["AWS services"], required: false },
+    { key: "AWS_SECRET_ACCESS_KEY", category: "cloud", label: "AWS Secret Access Key", usedBy: ["AWS services"], required: false },
+    { key: "CLOUDFLARE_API_TOKEN", category: "cloud", label: "Cloudflare API Token", usedBy: ["DNS/CDN management"], required: false },
+  ];
+
   app.get("/api/secrets/inventory", requireAuth, async (_req, res) => {
     try {
+      const { dashboardApiKeySecret, isRotatable, rotationDueAt } = await import("./secret-rotation");
+      const rotations = await storage.getSecretRotations();
+      const apiKeys = await storage.getApiKeys();
       const secrets = [
-        { key: "DATABASE_URL", category: "core", label: "PostgreSQL Database", usedBy: ["Database connections", "Session store"], required: true },
-        { key: "SESSION_SECRET", category: "core", label: "Session Encryption Secret", usedBy: ["Express session encryption"], required: true },
-        { key: "APP_BASE_URL", category: "core", label: "Application Base URL", usedBy: ["OAuth callbacks", "Webhook URLs"], required: false },
-
-        { key: "OPENCLAW_DID_BASE_URL", category: "auth", label: "MedInvest DID Base URL", usedBy: ["OAuth 2.0 login"], required: true },
-        { key: "OPENCLAW_DID_CLIENT_ID", category: "auth", label: "MedInvest DID Client ID", usedBy: ["OAuth 2.0 login"], required: true },
-        { key: "OPENCLAW_DID_SECRET", category: "auth", label: "MedInvest DID Client Secret", usedBy: ["OAuth 2.0 login"], required: true },
-
-        { key: "OPENROUTER_API_KEY", category: "ai", label: "OpenRouter API Key", usedBy: ["LLM chat", "AI Task Runner", "SOP Generator", "Voice Chat"], required: true },
-        { key: "OPENAI_API_KEY", category: "ai", label: "OpenAI API Key", usedBy: ["Whisper STT", "TTS voice", "DALL-E images", "Code analysis"], required: true },
-        { key: "GEMINI_API_KEY", category: "ai", label: "Google Gemini API Key", usedBy: ["Gemini Proxy", "Image generation fallback"], required: false },
-        { key: "ANTHROPIC_API_KEY", category: "ai", label: "Anthropic API Key", usedBy: ["Claude models via OpenRouter"], required: false },
-        { key: "PERPLEXITY_API_KEY", category: "ai", label: "Perplexity API Key", usedBy: ["Search-augmented LLM"], required: false },
-        { key: "GROQ_API_KEY", category: "ai", label: "Groq API Key", usedBy: ["Fast inference models"], required: false },
-        { key: "ELEVENLABS_API_KEY", category: "ai", label: "ElevenLabs API Key", usedBy: ["Voice synthesis"], required: false },
-
-        { key: "GEMINI_PROXY_API_KEY", category: "proxy", label: "Gemini Proxy Auth Token", usedBy: ["Gemini Anti-Gravity Proxy authentication"], required: false },
-        { key: "GOOGLE_CLOUD_PROJECT", category: "proxy", label: "Google Cloud Project ID", usedBy: ["Vertex AI endpoint"], required: false },
-        { key: "GOOGLE_CLOUD_LOCATION", category: "proxy", label: "Google Cloud Location", usedBy: ["Vertex AI region"], required: false },
-        { key: "GCP_SERVICE_ACCOUNT_JSON", category: "proxy", label: "GCP Service Account JSON", usedBy: ["Vertex AI authentication"], required: false },
-
-        { key: "TELEGRAM_BOT_TOKEN", category: "messaging", label: "Telegram Bot Token", usedBy: ["Telegram bot"], required: false },
-        { key: "TWILIO_ACCOUNT_SID", category: "messaging", label: "Twilio Account SID", usedBy: ["SMS/WhatsApp via Twilio"], required: false },
-        { key: "TWILIO_AUTH_TOKEN", category: "messaging", label: "Twilio Auth Token", usedBy: ["SMS/WhatsApp via Twilio"], required: false },
-        { key: "RESEND_API_KEY", category: "messaging", label: "Resend API Key", usedBy: ["Email delivery"], required: false },
-
-        { key: "HOSTINGER_API_KEY", category: "infra", label: "Hostinger API Key", usedBy: ["VPS monitoring", "Firewall management"], required: false },
-        { key: "VPS_ROOT_PASSWORD", category: "infra", label: "VPS Root Password", usedBy: ["SSH tunnel agent", "Direct SSH access"], required: false },
-        { key: "OPENCLAW_API_KEY", category: "infra", label: "OpenClaw Gateway API Key", usedBy: ["Node heartbeat auth", "Agent script"], required: false },
-        { key: "OPENCLAW_GATEWAY_TOKEN", category: "infra", label: "OpenClaw Gateway Token", usedBy: ["Gateway proxy auth"], required: false },
-
-        { key: "REPLIT_SID", category: "replit", label: "Replit Session ID", usedBy: ["Replit project sync", "GraphQL API"], required: false },
-        { key: "REPLIT_USERNAME", category: "replit", label: "Replit Username", usedBy: ["Replit project sync", "Profile URL"], required: false },
-        { key: "OMI_API_KEY", category: "replit", label: "Omi Wearable API Key", usedBy: ["Omi memories", "SOP Generator", "Todo extraction"], required: false },
-
-        { key: "OPENCLAW_GITHUB_TOKEN", category: "integrations", label: "GitHub Token (OpenClaw)", usedBy: ["GitHub webhooks", "Repo access"], required: false },
-        { key: "GITHUB_TOKEN", category: "integrations", label: "GitHub Token (Fallback)", usedBy: ["GitHub API fallback"], required: false },
-        { key: "GITHUB_WEBHOOK_SECRET", category: "integrations", label: "GitHub Webhook Secret", usedBy: ["Webhook signature verification"], required: false },
-        { key: "NOTION_API_KEY", category: "integrations", label: "Notion API Key", usedBy: ["Notion integration"], required: false },
-        { key: "LINEAR_API_KEY", category: "integrations", label: "Linear API Key", usedBy: ["Linear issue tracking"], required: false },
-        { key: "HUGGINGFACE_TOKEN", category: "integrations", label: "Hugging Face Token", usedBy: ["Model inference"], required: false },
-        { key: "PINECONE_API_KEY", category: "integrations", label: "Pinecone API Key", usedBy: ["Vector database"], required: false },
-        { key: "SUPABASE_KEY", category: "integrations", label: "Supabase Key", usedBy: ["Supabase backend"], required: false },
-        { key: "AIRTABLE_API_KEY", category: "integrations", label: "Airtable API Key", usedBy: ["Airtable integration"], required: false },
-        { key: "ZAPIER_API_KEY", category: "integrations", label: "Zapier API Key", usedBy: ["Zapier automation"], required: false },
-
-        { key: "AWS_ACCESS_KEY_ID", category: "cloud", label: "AWS Access Key ID", usedBy: ["AWS services"], required: false },
-        { key: "AWS_SECRET_ACCESS_KEY", category: "cloud", label: "AWS Secret Access Key", usedBy: ["AWS services"], required: false },
-        { key: "CLOUDFLARE_API_TOKEN", category: "cloud", label: "Cloudflare API Token", usedBy: ["DNS/CDN management"], required: false },
+        ...secretInventory.map(s => ({
+          ...s,
+          isSet: !!process.env[s.key],
+          maskedPreview: process.env[s.key]
+            ? `${process.env[s.key]!.substring(0, 4)}${"•".repeat(Math.min(20, process.env[s.key]!.length - 4))}`
+            : null,
+        })),
+        ...apiKeys.map(k => ({
+          key: dashboardApiKeySecret(k.id),
+          category: "dashboard",
+          label: k.name,
+          usedBy: k.scopes.length > 0 ? k.scopes.map(scope => `Scope: ${scope}`) : ["No scopes"],
+          required: false,
+          isSet: k.active && !!k.keyHash,
+          maskedPreview: k.keyPrefix ? `${k.keyPrefix}${"•".repeat(12)}` : null,
+        })),
       ];
 
-      const inventory = secrets.map(s => ({
-        ...s,
-        isSet: !!process.env[s.key],
-        maskedPreview: process.env[s.key]
-          ? `${process.env[s.key]!.substring(0, 4)}${"•".repeat(Math.min(20, process.env[s.key]!.length - 4))}`
-          : null,
-      }));
+      const now = Date.now();
+      const inventory = secrets.map(s => {
+        const rotation = rotations.find(r => r.secretKey === s.key);
+        const dueAt = rotation ? rotationDueAt(rotation) : null;
+        return {
+          ...s,
+          rotatable: isRotatable(s.key),
+          owner: rotation?.owner ?? null,
+          rotationIntervalDays: rotation?.rotationIntervalDays ?? null,
+          lastRotatedAt: rotation?.lastRotatedAt ?? null,
+          nextRotationAt: dueAt,
+          rotationOverdue: !!dueAt && s.isSet && dueAt.getTime() <= now,
+        };
+      });
 
       const categories = {
         core: "Core Infrastructure",
@@ -8562,6 +9403,7 @@ Please respond with ONLY valid JSON (no markdown, no code blocks) in this exact
         replit: "Replit & Wearables",
         integrations: "Third-Party Integrations",
         cloud: "Cloud Providers",
+        dashboard: "Dashboard API Keys",
       };
 
       const totalSet = inventory.filter(s => s.isSet).length;
@@ -8579,6 +9421,7 @@ Please respond with ONLY valid JSON (no markdown, no code blocks) in this exact
           requiredTotal: totalRequired,
           requiredConfigured: requiredSet,
           missingRequired: missingRequired.map(s => s.key),
+          rotationOverdue: inventory.filter(s => s.rotationOverdue).map(s => s.key),
         },
       });
     } catch (error) {
@@ -8586,6 +9429,51 @@ Please respond with ONLY valid JSON (no markdown, no code blocks) in this exact
     }
   });
 
+  app.patch("/api/secrets/rotations/:key", requireAuth, async (req, res) => {
+    try {
+      const secretKey = req.params.key as string;
+      const { dashboardApiKeySecret } = await import("./secret-rotation");
+      const known = secretInventory.some(s => s.key === secretKey)
+        || (await storage.getApiKeys()).some(k => dashboardApiKeySecret(k.id) === secretKey);
+      if (!known) {
+        return res.status(404).json({ error: "Secret not found" });
+      }
+      const parsed = updateSecretRotationSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.message });
+      }
+      const { owner, ...rest } = parsed.data;
+      const rotation = await storage.upsertSecretRotation(secretKey, {
+        ...rest,
+        ...(owner !== undefined ? { owner: owner || null } : {}),
+        ...(parsed.data.lastRotatedAt !== undefined ? { lastOverdueAlertAt: null, lastRotatedBy: req.session.userId ?? null } : {}),
+      });
+      logAudit(`Updated rotation policy for ${secretKey}`, "security_change", Object.keys(parsed.data).join(", "), req.session.userId);
+      const { managedValue: _managedValue, ...safe } = rotation;
+      res.json(safe);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to update secret rotation" });
+    }
+  });
+
+  app.post("/api/secrets/rotations/:key/rotate", requireAuth, async (req, res) => {
+    try {
+      const secretKey = req.params.key as string;
+      const { isRotatable, rotateSecret } = await import("./secret-rotation");
+      if (!isRotatable(secretKey)) {
+        return res.status(400).json({ error: `${secretKey} is managed outside the dashboard; rotate it at its provider and mark it rotated` });
+      }
+      const result = await rotateSecret(secretKey, req.session.userId);
+      if (!result) {
+        return res.status(404).json({ error: "Secret not found" });
+      }
+      logAudit(`Rotated ${secretKey}`, "security_change", result.vpsPush ? `VPS push ${result.vpsPush.success ? "succeeded" : "failed"}` : undefined, req.session.userId);
+      res.json(result);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message || "Failed to rotate secret" });
+    }
+  });
+
   app.post("/api/secrets/scan-gmail", requireAuth, async (req, res) => {
     try {
       const { isGmailConfigured, scanEmailsForSecrets } = await import("./gmail");
@@ -9129,6 +10017,160 @@ Score each project 1-10 on revenue, brand, and trading. Composite = weighted ave
     }
   });
 
+  const parseOperationFilter = (query: Request["query"]): OperationRecordFilter => {
+    const str = (value: unknown) => (typeof value === "string" && value.trim() ? value.trim() : undefined);
+    const date = (value: unknown) => {
+      const parsed = str(value) ? new Date(value as string) : undefined;
+      return parsed && !isNaN(parsed.getTime()) ? parsed : undefined;
+    };
+    return {
+      q: str(query.q),
+      operationType: OPERATION_TYPES.find(t => t === query.operationType),
+      userId: str(query.userId),
+      targetHost: str(query.targetHost),
+      success: query.success === "true" ? true : query.success === "false" ? false : undefined,
+      from: date(query.from),
+      to: date(query.to),
+    };
+  };
+
+  app.get("/api/operations", requireAuth, async (req, res) => {
+    try {
+      const page = Math.max(1, parseInt(req.query.page as string) || 1);
+      const limit = Math.min(100, Math.max(1, parseInt(req.query.limit as string) || 50));
+      const filter = parseOperationFilter(req.query);
+      const [records, total] = await Promise.all([
+        storage.getOperationRecords(filter, page, limit),
+        storage.getOperationRecordCount(filter),
+      ]);
+      res.json({ records, total, page, limit, totalPages: Math.ceil(total / limit) });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch operation records" });
+    }
+  });
+
+  app.get("/api/operations/export", requireAuth, async (req, res) => {
+    try {
+      const format = req.query.format === "csv" ? "csv" : "json";
+      const records = await storage.exportOperationRecords(parseOperationFilter(req.query), 5000);
+      const filename = `operations-${new Date().toISOString().slice(0, 10)}.${format}`;
+      logAudit(`Exported ${records.length} operation records (${format})`, "data_export", undefined, req.session.userId);
+      res.setHeader("Content-Disposition", `attachment; filename=${filename}`);
+      if (format === "json") return res.json(records);
+
+      const columns: Array<keyof OperationRecord> = [
+        "id", "startedAt", "operationType", "source", "userId", "targetHost", "summary",
+        "command", "exitCode", "success", "durationMs", "truncated", "stdout", "stderr",
+      ];
+      const cell = (value: unknown) => {
+        const text = value instanceof Date ? value.toISOString() : value == null ? "" : String(value);
+        return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+      };
+      const rows = records.map(r => columns.map(c => cell(r[c])).join(","));
+      res.setHeader("Content-Type", "text/csv; charset=utf-8");
+      res.send([columns.join(","), ...rows].join("\r\n"));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to export operation records" });
+    }
+  });
+
+  app.get("/api/operations/:id", requireAuth, async (req, res) => {
+    try {
+      const record = await storage.getOperationRecord(req.params.id as string);
+      if (!record) return res.status(404).json({ error: "Operation record not found" });
+      res.json(record);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch operation record" });
+    }
+  });
+
+  app.get("/api/security/events", requireAuth, async (req, res) => {
+    try {
+      const limit = Math.min(500, Math.max(1, parseInt(req.query.limit as string) || 100));
+      const type = SECURITY_EVENT_TYPES.find(t => t === req.query.type);
+      const severity = SECURITY_SEVERITIES.find(s => s === req.query.severity);
+      res.json(await storage.getSecurityEvents({ limit, type, severity }));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch security events" });
+    }
+  });
+
+  app.get("/api/security/stats", requireAuth, async (_req, res) => {
+    try {
+      res.json(await getSecurityStats());
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch security stats" });
+    }
+  });
+
+  app.get("/api/security/policies", requireAuth, async (_req, res) => {
+    try {
+      res.json(await getSecurityPolicies());
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch security policies" });
+    }
+  });
+
+  app.patch("/api/security/policies/:key", requireAuth, async (req, res) => {
+    try {
+      const key = SECURITY_POLICY_KEYS.find(k => k === req.params.key);
+      if (!key) {
+        return res.status(404).json({ error: "Unknown security policy" });
+      }
+      const parsed = updateSecurityPolicySchema.partial().safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.message });
+      }
+      const policy = await updateSecurityPolicy(key, parsed.data);
+      logAudit(`Updated security policy "${key}"`, "security_change", JSON.stringify(parsed.data), req.session.userId);
+      res.json(policy);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to update security policy" });
+    }
+  });
+
+  app.get("/api/security/blocked-ips", requireAuth, async (_req, res) => {
+    try {
+      res.json(await storage.getBlockedIps());
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch blocked IPs" });
+    }
+  });
+
+  app.post("/api/security/blocked-ips", requireAuth, async (req, res) => {
+    try {
+      const parsed = z.object({
+        ip: z.string().trim().refine(ip => isIP(ip) !== 0, "Must be an IPv4 or IPv6 address"),
+        reason: z.string().trim().min(1).default("Blocked manually"),
+        minutes: z.number().int().min(1).nullable().optional(),
+      }).safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.message });
+      }
+      if (parsed.data.ip === clientIp(req)) {
+        return res.status(400).json({ error: "You cannot block the IP address you are connecting from" });
+      }
+      const entry = await blockIp(parsed.data.ip, parsed.data.reason, parsed.data.minutes ?? null, "manual");
+      logAudit(`Blocked IP ${entry.ip}`, "security_change", parsed.data.reason, req.session.userId);
+      res.status(201).json(entry);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to block IP" });
+    }
+  });
+
+  app.delete("/api/security/blocked-ips/:id", requireAuth, async (req, res) => {
+    try {
+      const removed = await unblockIp(req.params.id as string);
+      if (!removed) {
+        return res.status(404).json({ error: "Blocked IP not found" });
+      }
+      logAudit(`Unblocked IP ${removed.ip}`, "security_change", undefined, req.session.userId);
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to unblock IP" });
+    }
+  });
+
   // ===== AUTOMATION HUB ROUTES =====
 
   // Health Logs
@@ -9163,31 +10205,31 @@ Score each project 1-10 on revenue, brand, and trading. Composite = weighted ave
     }
   });
 
-  app.get("/api/health-logs", requireAuth, async (_req, res) => {
-    try { res.json(await storage.getHealthLogs()); } catch (e: any) { res.status(500).json({ error: e.message }); }
+  app.get("/api/health-logs", requireAuth, requireUser, async (req, res) => {
+    try { res.json(await storage.getHealthLogs(currentUserId(req))); } catch (e: any) { res.status(500).json({ error: e.message }); }
   });
-  app.get("/api/health-logs/date/:date", requireAuth, async (req, res) => {
-    try { const log = await storage.getHealthLogByDate(req.params.date); res.json(log || null); } catch (e: any) { res.status(500).json({ error: e.message }); }
+  app.get("/api/health-logs/date/:date", requireAuth, requireUser, async (req, res) => {
+    try { const log = await storage.getHealthLogByDate(currentUserId(req), req.params.date); res.json(log || null); } catch (e: any) { res.status(500).json({ error: e.message }); }
   });
-  app.post("/api/health-logs", requireAuth, async (req, res) => {
-    try { const data = insertHealthLogSchema.parse(req.body); res.json(await storage.createHealthLog(data)); } catch (e: any) { res.status(400).json({ error: e.message }); }
+  app.post("/api/health-logs", requireAuth, requireUser, async (req, res) => {
+    try { const data = insertHealthLogSchema.parse(req.body); res.json(await storage.createHealthLog(currentUserId(req), data)); } catch (e: any) { res.status(400).json({ error: e.message }); }
   });
-  app.patch("/api/health-logs/:id", requireAuth, async (req, res) => {
-    try { const data = insertHealthLogSchema.partial().parse(req.body); const log = await storage.updateHealthLog(req.params.id, data); if (!log) return res.status(404).json({ error: "Not found" }); res.json(log); } catch (e: any) { res.status(400).json({ error: e.message }); }
+  app.patch("/api/health-logs/:id", requireAuth, requireUser, async (req, res) => {
+    try { const data = insertHealthLogSchema.partial().parse(req.body); const log = await storage.updateHealthLog(currentUserId(req), req.params.id, data); if (!log) return res.status(404).json({ error: "Not found" }); res.json(log); } catch (e: any) { res.status(400).json({ error: e.message }); }
   });
 
   // Grocery Items
-  app.get("/api/grocery-items", requireAuth, async (_req, res) => {
-    try { res.json(await storage.getGroceryItems()); } catch (e: any) { res.status(500).json({ error: e.message }); }
+  app.get("/api/grocery-items", requireAuth, requireUser, async (req, res) => {
+    try { res.json(await storage.getGroceryItems(currentUserId(req))); } catch (e: any) { res.status(500).json({ error: e.message }); }
   });
-  app.post("/api/grocery-items", requireAuth, async (req, res) => {
-    try { const data = insertGroceryItemSchema.parse(req.body); res.json(await storage.createGroceryItem(data)); } catch (e: any) { res.status(400).json({ error: e.message }); }
+  app.post("/api/grocery-items", requireAuth, requireUser, async (req, res) => {
+    try { const data = insertGroceryItemSchema.parse(req.body); res.json(await storage.createGroceryItem(currentUserId(req), data)); } catch (e: any) { res.status(400).json({ error: e.message }); }
   });
-  app.patch("/api/grocery-items/:id", requireAuth, async (req, res) => {
-    try { const data = insertGroceryItemSchema.partial().parse(req.body); const item = await storage.updateGroceryItem(req.params.id, data); if (!item) return res.status(404).json({ error: "Not found" }); res.json(item); } catch (e: any) { res.status(400).json({ error: e.message }); }
+  app.patch("/api/grocery-items/:id", requireAuth, requireUser, async (req, res) => {
+    try { const data = insertGroceryItemSchema.partial().parse(req.body); const item = await storage.updateGroceryItem(currentUserId(req), req.params.id, data); if (!item) return res.status(404).json({ error: "Not found" }); res.json(item); } catch (e: any) { res.status(400).json({ error: e.message }); }
   });
-  app.delete("/api/grocery-items/:id", requireAuth, async (req, res) => {
-    try { await storage.deleteGroceryItem(req.params.id); res.json({ ok: true }); } catch (e: any) { res.status(500).json({ error: e.message }); }
+  app.delete("/api/grocery-items/:id", requireAuth, requireUser, async (req, res) => {
+    try { if (!(await storage.deleteGroceryItem(currentUserId(req), req.params.id))) return res.status(404).json({ error: "Not found" }); res.json({ ok: true }); } catch (e: any) { res.status(500).json({ error: e.message }); }
   });
   app.post("/api/grocery-items/ai-suggest", requireAuth, async (req, res) => {
     try {
@@ -9210,37 +10252,43 @@ Score each project 1-10 on revenue, brand, and trading. Composite = weighted ave
   });
 
   // Financial Transactions
-  app.get("/api/financial-transactions", requireAuth, async (_req, res) => {
-    try { res.json(await storage.getFinancialTransactions()); } catch (e: any) { res.status(500).json({ error: e.message }); }
+  app.get("/api/financial-transactions", requireAuth, requireUser, async (req, res) => {
+    try { res.json(await storage.getFinancialTransactions(currentUserId(req))); } catch (e: any) { res.status(500).json({ error: e.message }); }
   });
-  app.post("/api/financial-transactions", requireAuth, async (req, res) => {
-    try { const data = insertFinancialTransactionSchema.parse(req.body); res.json(await storage.createFinancialTransaction(data)); } catch (e: any) { res.status(400).json({ error: e.message }); }
+  app.post("/api/financial-transactions", requireAuth, requireUser, async (req, res) => {
+    try { const data = insertFinancialTransactionSchema.parse(req.body); res.json(await storage.createFinancialTransaction(currentUserId(req), data)); } catch (e: any) { res.status(400).json({ error: e.message }); }
   });
-  app.delete("/api/financial-transactions/:id", requireAuth, async (req, res) => {
-    try { await storage.deleteFinancialTransaction(req.params.id); res.json({ ok: true }); } catch (e: any) { res.status(500).json({ error: e.message }); }
+  app.patch("/api/financial-transactions/:id", requireAuth, requireUser, async (req, res) => {
+    try { const data = insertFinancialTransactionSchema.partial().parse(req.body); const tx = await storage.updateFinancialTransaction(currentUserId(req), req.params.id as string, data); if (!tx) return res.status(404).json({ error: "Not found" }); res.json(tx); } catch (e: any) { res.status(400).json({ error: e.message }); }
+  });
+  app.delete("/api/financial-transactions/:id", requireAuth, requireUser, async (req, res) => {
+    try { if (!(await storage.deleteFinancialTransaction(currentUserId(req), req.params.id))) return res.status(404).json({ error: "Not found" }); res.json({ ok: true }); } catch (e: any) { res.status(500).json({ error: e.message }); }
   });
 
   // Habits
-  app.get("/api/habits", requireAuth, async (_req, res) => {
-    try { res.json(await storage.getHabits()); } catch (e: any) { res.status(500).json({ error: e.message }); }
+  app.get("/api/habits", requireAuth, requireUser, async (req, res) => {
+    try { res.json(await storage.getHabits(currentUserId(req))); } catch (e: any) { res.status(500).json({ error: e.message }); }
+  });
+  app.post("/api/habits", requireAuth, requireUser, async (req, res) => {
+    try { const data = insertHabitSchema.parse(req.body); res.json(await storage.createHabit(currentUserId(req), data)); } catch (e: any) { res.status(400).json({ error: e.message }); }
   });
-  app.post("/api/habits", requireAuth, async (req, res) => {
-    try { const data = insertHabitSchema.parse(req.body); res.json(await storage.createHabit(data)); } catch (e: any) { res.status(400).json({ error: e.message }); }
+  app.patch("/api/habits/:id", requireAuth, requireUser, async (req, res) => {
+    try { const data = insertHabitSchema.partial().parse(req.body); const habit = await storage.updateHabit(currentUserId(req), req.params.id as string, data); if (!habit) return res.status(404).json({ error: "Not found" }); res.json(habit); } catch (e: any) { res.status(400).json({ error: e.message }); }
   });
-  app.delete("/api/habits/:id", requireAuth, async (req, res) => {
-    try { await storage.deleteHabit(req.params.id); res.json({ ok: true }); } catch (e: any) { res.status(500).json({ error: e.message }); }
+  app.delete("/api/habits/:id", requireAuth, requireUser, async (req, res) => {
+    try { if (!(await storage.deleteHabit(currentUserId(req), req.params.id))) return res.status(404).json({ error: "Not found" }); res.json({ ok: true }); } catch (e: any) { res.status(500).json({ error: e.message }); }
   });
-  app.get("/api/habit-completions", requireAuth, async (req, res) => {
-    try { const habitId = req.query.habitId as string | undefined; res.json(await storage.getHabitCompletions(habitId)); } catch (e: any) { res.status(500).json({ error: e.message }); }
+  app.get("/api/habit-completions", requireAuth, requireUser, async (req, res) => {
+    try { const habitId = req.query.habitId as string | undefined; res.json(await storage.getHabitCompletions(currentUserId(req), habitId)); } catch (e: any) { res.status(500).json({ error: e.message }); }
   });
-  app.post("/api/habit-completions", requireAuth, async (req, res) => {
-    try { const data = insertHabitCompletionSchema.parse(req.body); res.json(await storage.createHabitCompletion(data)); } catch (e: any) { res.status(400).json({ error: e.message }); }
+  app.post("/api/habit-completions", requireAuth, requireUser, async (req, res) => {
+    try { const data = insertHabitCompletionSchema.parse(req.body); if (!(await storage.getHabit(currentUserId(req), data.habitId))) return res.status(404).json({ error: "Habit not found" }); res.json(await storage.createHabitCompletion(data)); } catch (e: any) { res.status(400).json({ error: e.message }); }
   });
-  app.delete("/api/habit-completions/:id", requireAuth, async (req, res) => {
-    try { await storage.deleteHabitCompletion(req.params.id); res.json({ ok: true }); } catch (e: any) { res.status(500).json({ error: e.message }); }
+  app.delete("/api/habit-completions/:id", requireAuth, requireUser, async (req, res) => {
+    try { if (!(await storage.deleteHabitCompletion(currentUserId(req), req.params.id))) return res.status(404).json({ error: "Not found" }); res.json({ ok: true }); } catch (e: any) { res.status(500).json({ error: e.message }); }
   });
 
-  app.post("/api/habits/analyze-omi", requireAuth, async (_req, res) => {
+  app.post("/api/habits/analyze-omi", requireAuth, requireUser, async (req, res) => {
     try {
       const { fetchOmiMemories, isOmiConfigured } = await import("./omi");
       if (!isOmiConfigured()) return res.status(400).json({ error: "OMI_API_KEY not configured" });
@@ -9283,10 +10331,10 @@ Respond with ONLY valid JSON (no markdown, no code blocks):
 
       const created = [];
       for (const h of (parsed.habits || [])) {
-        const existing = await storage.getHabits();
+        const existing = await storage.getHabits(currentUserId(req));
         const alreadyExists = existing.some(e => e.name.toLowerCase() === h.name.toLowerCase());
         if (!alreadyExists) {
-          const habit = await storage.createHabit({
+          const habit = await storage.createHabit(currentUserId(req), {
             name: h.name,
             frequency: h.frequency || "daily",
             category: h.category || "routine",
@@ -9338,11 +10386,11 @@ Respond with ONLY valid JSON (no markdown, no code blocks):
     }
   });
 
-  app.post("/api/google-calendar/sync-to-life-events", requireAuth, async (_req, res) => {
+  app.post("/api/google-calendar/sync-to-life-events", requireAuth, requireUser, async (req, res) => {
     try {
       const { getUpcomingEvents } = await import("./googleCalendar");
       const events = await getUpcomingEvents(50);
-      const existingLifeEvents = await storage.getLifeEvents();
+      const existingLifeEvents = await storage.getLifeEvents(currentUserId(req));
       let synced = 0;
       for (const gcalEvent of events) {
         const title = gcalEvent.summary || "Untitled Event";
@@ -9352,7 +10400,7 @@ Respond with ONLY valid JSON (no markdown, no code blocks):
           (e: any) => e.title === title && e.date === dateStr
         );
         if (!alreadyExists && dateStr) {
-          await storage.createLifeEvent({
+          await storage.createLifeEvent(currentUserId(req), {
             title,
             description: gcalEvent.description || "",
             date: dateStr,
@@ -9389,37 +10437,33 @@ Respond with ONLY valid JSON (no markdown, no code blocks):
         }
       }
 
-      if (methods?.includes("email")) {
-        try {
-          const { getUncachableGmailClient } = await import("./gmail");
-          const gmail = await getUncachableGmailClient();
-          const userEmail = "rsmolarz@rsmolarz.com";
-          const raw = Buffer.from(
-            `From: ${userEmail}\r\nTo: ${userEmail}\r\nSubject: Meeting Reminder: ${meetingTitle}\r\nContent-Type: text/plain; charset=utf-8\r\n\r\nReminder: You have a meeting "${meetingTitle}" at ${meetingTime || "soon"}. Don't forget!`
-          ).toString("base64url");
-          await gmail.users.messages.send({ userId: "me", requestBody: { raw } });
-          results.push({ method: "email", status: "sent" });
-        } catch (e: any) {
-          results.push({ method: "email", status: "failed", error: e.message });
-        }
-      }
-
-      if (methods?.includes("whatsapp_self")) {
+      const selfChannels = [
+        ...(methods?.includes("email") ? [{ method: "email", channel: "email" as const }] : []),
+        ...(methods?.includes("whatsapp_self") ? [{ method: "whatsapp_self", channel: "whatsapp" as const }] : []),
+      ];
+      if (selfChannels.length > 0) {
         try {
-          const { whatsappBot } = await import("./bot/whatsapp");
-          const status = whatsappBot.getStatus();
-          if (status.phone) {
-            const selfJid = status.phone.replace("+", "") + "@s.whatsapp.net";
-            await whatsappBot.sendMessage(
-              selfJid,
-              `MEETING REMINDER: "${meetingTitle}" at ${meetingTime || "soon"}. Get ready!`
-            );
-            results.push({ method: "whatsapp_self", status: "sent" });
-          } else {
-            results.push({ method: "whatsapp_self", status: "failed", error: "WhatsApp not connected" });
+          const { notify } = await import("./notifications");
+          const notification = await notify({
+            category: "calendar",
+            severity: "warning",
+            title: `Meeting reminder: ${meetingTitle}`,
+            body: `You have a meeting "${meetingTitle}" at ${meetingTime || "soon"}. Get ready!`,
+            source: "meeting-reminder",
+            dedupeKey: `meeting-reminder:${meetingTitle}:${meetingTime || ""}`,
+            immediate: true,
+            channels: selfChannels.map(c => c.channel),
+          });
+          for (const { method, channel } of selfChannels) {
+            const delivery = notification?.deliveries.find(d => d.channel === channel);
+            if (!notification) results.push({ method, status: "failed", error: "Calendar notifications are turned off" });
+            else if (notification.occurrences > 1) results.push({ method, status: "duplicate", error: "Already reminded about this meeting within the last hour" });
+            else if (notification.held) results.push({ method, status: "held", error: "Quiet hours; it will be sent when they end" });
+            else if (!delivery) results.push({ method, status: "failed", error: `${channel} notifications are turned off or have no recipient` });
+            else results.push({ method, status: delivery.status, error: delivery.error });
           }
         } catch (e: any) {
-          results.push({ method: "whatsapp_self", status: "failed", error: e.message });
+          selfChannels.forEach(({ method }) => results.push({ method, status: "failed", error: e.message }));
         }
       }
 
@@ -9472,25 +10516,25 @@ Respond with ONLY valid JSON (no markdown, no code blocks):
   });
 
   // Focus Sessions
-  app.get("/api/focus-sessions", requireAuth, async (_req, res) => {
-    try { res.json(await storage.getFocusSessions()); } catch (e: any) { res.status(500).json({ error: e.message }); }
+  app.get("/api/focus-sessions", requireAuth, requireUser, async (req, res) => {
+    try { res.json(await storage.getFocusSessions(currentUserId(req))); } catch (e: any) { res.status(500).json({ error: e.message }); }
   });
-  app.post("/api/focus-sessions", requireAuth, async (req, res) => {
-    try { const data = insertFocusSessionSchema.parse(req.body); res.json(await storage.createFocusSession(data)); } catch (e: any) { res.status(400).json({ error: e.message }); }
+  app.post("/api/focus-sessions", requireAuth, requireUser, async (req, res) => {
+    try { const data = insertFocusSessionSchema.parse(req.body); res.json(await storage.createFocusSession(currentUserId(req), data)); } catch (e: any) { res.status(400).json({ error: e.message }); }
   });
 
   // Life Events
-  app.get("/api/life-events", requireAuth, async (_req, res) => {
-    try { res.json(await storage.getLifeEvents()); } catch (e: any) { res.status(500).json({ error: e.message }); }
+  app.get("/api/life-events", requireAuth, requireUser, async (req, res) => {
+    try { res.json(await storage.getLifeEvents(currentUserId(req))); } catch (e: any) { res.status(500).json({ error: e.message }); }
   });
-  app.post("/api/life-events", requireAuth, async (req, res) => {
-    try { const data = insertLifeEventSchema.parse(req.body); res.json(await storage.createLifeEvent(data)); } catch (e: any) { res.status(400).json({ error: e.message }); }
+  app.post("/api/life-events", requireAuth, requireUser, async (req, res) => {
+    try { const data = insertLifeEventSchema.parse(req.body); res.json(await storage.createLifeEvent(currentUserId(req), data)); } catch (e: any) { res.status(400).json({ error: e.message }); }
   });
-  app.patch("/api/life-events/:id", requireAuth, async (req, res) => {
-    try { const data = insertLifeEventSchema.partial().parse(req.body); const event = await storage.updateLifeEvent(req.params.id, data); if (!event) return res.status(404).json({ error: "Not found" }); res.json(event); } catch (e: any) { res.status(400).json({ error: e.message }); }
+  app.patch("/api/life-events/:id", requireAuth, requireUser, async (req, res) => {
+    try { const data = insertLifeEventSchema.partial().parse(req.body); const event = await storage.updateLifeEvent(currentUserId(req), req.params.id, data); if (!event) return res.status(404).json({ error: "Not found" }); res.json(event); } catch (e: any) { res.status(400).json({ error: e.message }); }
   });
-  app.delete("/api/life-events/:id", requireAuth, async (req, res) => {
-    try { await storage.deleteLifeEvent(req.params.id); res.json({ ok: true }); } catch (e: any) { res.status(500).json({ error: e.message }); }
+  app.delete("/api/life-events/:id", requireAuth, requireUser, async (req, res) => {
+    try { if (!(await storage.deleteLifeEvent(currentUserId(req), req.params.id))) return res.status(404).json({ error: "Not found" }); res.json({ ok: true }); } catch (e: any) { res.status(500).json({ error: e.message }); }
   });
 
   // Connected Devices (iPhone/iPad management)
@@ -10136,31 +11180,16 @@ Return valid JSON:
   // ── SendGrid API ──
   app.post("/api/sendgrid/send", requireAuth, async (req, res) => {
     try {
-      const { getSendGridCredentials } = await import("./connectors");
-      const { apiKey, fromEmail } = await getSendGridCredentials();
+      const { sendSendGridEmail } = await import("./connectors");
       const to = typeof req.body.to === "string" ? req.body.to : "";
       const subject = typeof req.body.subject === "string" ? req.body.subject : "";
       if (!to || !subject) return res.status(400).json({ error: "to and subject are required" });
       const html = typeof req.body.html === "string" ? req.body.html : "";
       const text = typeof req.body.text === "string" ? req.body.text : "";
-      const response = await fetch("https://api.sendgrid.com/v3/mail/send", {
-        method: "POST",
-        headers: { Authorization: `Bearer ${apiKey}`, "Content-Type": "application/json" },
-        body: JSON.stringify({
-          personalizations: [{ to: [{ email: to }] }],
-          from: { email: fromEmail },
-          subject,
-          content: [{ type: html ? "text/html" : "text/plain", value: html || text || "" }],
-        }),
-      });
-      if (response.ok || response.status === 202) {
-        res.json({ success: true });
-      } else {
-        const err = await response.text();
-        res.status(response.status).json({ error: err });
-      }
+      await sendSendGridEmail({ to, subject, html, text });
+      res.json({ success: true });
     } catch (e: any) {
-      res.status(500).json({ error: e.message });
+      res.status(e.status || 500).json({ error: e.message });
     }
   });
 
@@ -0,0 +1,290 @@
+import { randomBytes } from "crypto";
+import { storage } from "./storage";
+import { executeRawSSHCommand, buildSSHConfigFromVps, getSSHConfig, type SSHConnectionConfig } from "./ssh";
+import { eventBus } from "./event-bus";
+import { generateApiKey, hashApiKey } from "./api-keys";
+import type { ApiKey, InsertGuardianLog, SecretRotation } from "@shared/schema";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const API_KEY_SECRET_PREFIX = "api_key:";
+
+// Environment secrets whose value the dashboard generates, so "Rotate" can replace them.
+export const MANAGED_ENV_SECRETS = ["OPENCLAW_GATEWAY_TOKEN", "GEMINI_PROXY_API_KEY", "OPENCLAW_API_KEY"];
+
+export interface EnvPushResult {
+  success: boolean;
+  set: string[];
+  skipped: string[];
+  output?: string;
+  error?: string;
+}
+
+export interface GatewayPushResult {
+  success: boolean;
+  updated?: string[];
+  error?: string;
+}
+
+export interface SecretRotationResult {
+  secretKey: string;
+  rotatedAt: Date;
+  // Shown once: values that clients outside the VPS must be updated with by hand.
+  newValue?: string;
+  gatewayPush: GatewayPushResult | null;
+  vpsPush: EnvPushResult | null;
+}
+
+let monitorInterval: NodeJS.Timeout | null = null;
+
+export function dashboardApiKeySecret(apiKeyId: string): string {
+  return `${API_KEY_SECRET_PREFIX}${apiKeyId}`;
+}
+
+export function isRotatable(secretKey: string): boolean {
+  return MANAGED_ENV_SECRETS.includes(secretKey) || secretKey.startsWith(API_KEY_SECRET_PREFIX);
+}
+
+export function rotationDueAt(rotation: SecretRotation): Date | null {
+  if (!rotation.rotationIntervalDays) return null;
+  const base = rotation.lastRotatedAt ?? rotation.createdAt;
+  return new Date(base.getTime() + rotation.rotationIntervalDays * DAY_MS);
+}
+
+/** Keys written to /etc/openclaw-env and /root/.bashrc on the VPS. */
+export function vpsEnvKeys(): Record<string, string | undefined> {
+  return {
+    OPENAI_API_KEY: process.env.OPENAI_API_KEY,
+    GITHUB_TOKEN: process.env.OPENCLAW_GITHUB_TOKEN || process.env.GITHUB_TOKEN,
+    NOTION_API_KEY: process.env.NOTION_API_KEY,
+    GEMINI_API_KEY: process.env.GEMINI_API_KEY,
+    ELEVENLABS_API_KEY: process.env.ELEVENLABS_API_KEY,
+    ANTHROPIC_API_KEY: process.env.ANTHROPIC_API_KEY,
+    PERPLEXITY_API_KEY: process.env.PERPLEXITY_API_KEY,
+    GROQ_API_KEY: process.env.GROQ_API_KEY,
+    HUGGINGFACE_TOKEN: process.env.HUGGINGFACE_TOKEN,
+    PINECONE_API_KEY: process.env.PINECONE_API_KEY,
+    SUPABASE_KEY: process.env.SUPABASE_KEY,
+    AIRTABLE_API_KEY: process.env.AIRTABLE_API_KEY,
+    ZAPIER_API_KEY: process.env.ZAPIER_API_KEY,
+    LINEAR_API_KEY: process.env.LINEAR_API_KEY,
+    AWS_ACCESS_KEY_ID: process.env.AWS_ACCESS_KEY_ID,
+    AWS_SECRET_ACCESS_KEY: process.env.AWS_SECRET_ACCESS_KEY,
+    CLOUDFLARE_API_TOKEN: process.env.CLOUDFLARE_API_TOKEN,
+    RESEND_API_KEY: process.env.RESEND_API_KEY,
+    TWILIO_ACCOUNT_SID: process.env.TWILIO_ACCOUNT_SID,
+    TWILIO_AUTH_TOKEN: process.env.TWILIO_AUTH_TOKEN,
+    TELEGRAM_BOT_TOKEN: process.env.TELEGRAM_BOT_TOKEN,
+    OPENCLAW_API_KEY: process.env.OPENCLAW_API_KEY,
+    OPENCLAW_GATEWAY_TOKEN: process.env.OPENCLAW_GATEWAY_TOKEN,
+    GEMINI_PROXY_API_KEY: process.env.GEMINI_PROXY_API_KEY,
+  };
+}
+
+export async function pushEnvKeysToVps(sshConfig: SSHConnectionConfig): Promise<EnvPushResult> {
+  const lines: string[] = [];
+  const set: string[] = [];
+  const skipped: string[] = [];
+
+  for (const [k, v] of Object.entries(vpsEnvKeys())) {
+    if (v) {
+      lines.push(`export ${k}="${v.replace(/"/g, '\\"')}"`);
+      set.push(k);
+    } else {
+      skipped.push(k);
+    }
+  }
+
+  if (lines.length === 0) {
+    return { success: false, set, skipped, error: "No API keys found in Replit secrets" };
+  }
+
+  const envFileLines = lines.map(l => l.replace("export ", ""));
+  const envFileContent = envFileLines.join("\\n");
+
+  const bashrcCmd = lines.map(line => {
+    const key = line.split("=")[0].replace("export ", "");
+    return `grep -q "^export ${key}=" /root/.bashrc && sed -i "s|^export ${key}=.*|${line.replace(/\|/g, '\\|')}|" /root/.bashrc || echo '${line}' >> /root/.bashrc`;
+  }).join(" && ");
+
+  const envFileCmd = `printf '${envFileContent}\\n' > /etc/openclaw-env`;
+  const systemdPatch = `grep -q '^EnvironmentFile=' /etc/systemd/system/openclaw-gateway.service || sed -i '/^\\[Service\\]/a EnvironmentFile=/etc/openclaw-env' /etc/systemd/system/openclaw-gateway.service`;
+  const waBotPatch = `test -f /etc/systemd/system/openclaw-whatsapp.service && (grep -q '^EnvironmentFile=' /etc/systemd/system/openclaw-whatsapp.service || sed -i '/^\\[Service\\]/a EnvironmentFile=/etc/openclaw-env' /etc/systemd/system/openclaw-whatsapp.service) || true`;
+  const reloadAndRestart = `systemctl daemon-reload && systemctl restart openclaw-gateway && sleep 2 && systemctl is-active openclaw-gateway`;
+
+  const cmd = `${bashrcCmd} && ${envFileCmd} && ${systemdPatch} && ${waBotPatch} && ${reloadAndRestart} && echo "---SET---" && cat /etc/openclaw-env | sed 's/=.*/=***/' && echo "---DONE---"`;
+
+  const result = await executeRawSSHCommand(cmd, sshConfig, 1, 45000);
+  return { success: result.success, set, skipped, output: result.output?.substring(0, 500), error: result.error };
+}
+
+/** Applies dotted-path updates (e.g. "auth.token") to the gateway section of openclaw.json on the VPS. */
+export async function pushGatewayConfigToVps(sshConfig: SSHConnectionConfig, updates: Record<string, any>): Promise<GatewayPushResult> {
+  const pyUpdates = JSON.stringify(updates).replace(/'/g, "\\'");
+  const pushCmd = `python3 -c "
+import json, os
+f='/root/.openclaw/openclaw.json'
+if not os.path.exists(f):
+    print(json.dumps({'error':'Config file not found'}))
+    exit(0)
+d=json.load(open(f))
+gw=d.setdefault('gateway',{})
+updates=${pyUpdates}
+for k,v in updates.items():
+    parts=k.split('.')
+    target=gw
+    for p in parts[:-1]:
+        target=target.setdefault(p,{})
+    target[parts[-1]]=v
+json.dump(d,open(f,'w'),indent=2)
+print(json.dumps({'success':True,'updated':list(updates.keys())}))
+"`;
+  const result = await executeRawSSHCommand(pushCmd, sshConfig);
+  if (!result.success) return { success: false, error: result.error || result.output };
+  try {
+    return JSON.parse(result.output.trim());
+  } catch {
+    return { success: true };
+  }
+}
+
+/** Loads dashboard-rotated values over the environment. Must run before seeding, which reads OPENCLAW_GATEWAY_TOKEN. */
+export async function applyManagedSecrets(): Promise<void> {
+  for (const rotation of await storage.getSecretRotations()) {
+    if (rotation.managedValue && MANAGED_ENV_SECRETS.includes(rotation.secretKey)) {
+      process.env[rotation.secretKey] = rotation.managedValue;
+    }
+  }
+}
+
+/**
+ * Stores the token on the default instance and pushes it to that instance's VPS. Returns the SSH config
+ * it used so the env push lands on the same host as openclaw.json.
+ */
+async function setGatewayToken(token: string): Promise<{ gatewayPush: GatewayPushResult | null; sshConfig: SSHConnectionConfig | null }> {
+  const instance = await storage.getDefaultInstance();
+  if (!instance) return { gatewayPush: null, sshConfig: null };
+  await storage.upsertOpenclawConfig(instance.id, { gatewayToken: token });
+  const vps = await storage.getVpsConnection(instance.id);
+  if (!vps) return { gatewayPush: null, sshConfig: null };
+  const sshConfig = buildSSHConfigFromVps(vps);
+  return { gatewayPush: await pushGatewayConfigToVps(sshConfig, { "auth.token": token }), sshConfig };
+}
+
+async function linkedDashboardApiKey(): Promise<ApiKey | undefined> {
+  const current = process.env.OPENCLAW_API_KEY;
+  return current ? storage.getApiKeyByHash(hashApiKey(current)) : undefined;
+}
+
+/**
+ * Regenerates a secret the dashboard controls, records the rotation and pushes the new values to the
+ * VPS environment. Returns undefined when the secret does not exist.
+ */
+export async function rotateSecret(secretKey: string, userId?: string): Promise<SecretRotationResult | undefined> {
+  const envUpdates: Record<string, string> = {};
+  const rotatedKeys = [secretKey];
+  let newValue: string | undefined;
+  let gatewayPush: GatewayPushResult | null = null;
+  let sshConfig: SSHConnectionConfig | null = null;
+
+  if (secretKey === "OPENCLAW_GATEWAY_TOKEN") {
+    const token = randomBytes(32).toString("hex");
+    ({ gatewayPush, sshConfig } = await setGatewayToken(token));
+    envUpdates.OPENCLAW_GATEWAY_TOKEN = token;
+  } else if (secretKey === "GEMINI_PROXY_API_KEY") {
+    sshConfig = getSSHConfig();
+    newValue = `gp_${randomBytes(24).toString("hex")}`;
+    envUpdates.GEMINI_PROXY_API_KEY = newValue;
+  } else if (secretKey === "OPENCLAW_API_KEY" || secretKey.startsWith(API_KEY_SECRET_PREFIX)) {
+    const linked = await linkedDashboardApiKey();
+    const apiKey = secretKey === "OPENCLAW_API_KEY" ? linked : await storage.getApiKey(secretKey.slice(API_KEY_SECRET_PREFIX.length));
+    if (!apiKey) {
+      if (secretKey === "OPENCLAW_API_KEY" && process.env.OPENCLAW_API_KEY) {
+        throw new Error("OPENCLAW_API_KEY does not match any dashboard API key, so it cannot be rotated from here");
+      }
+      return undefined;
+    }
+    sshConfig = getSSHConfig();
+    const { key, keyHash, keyPrefix } = generateApiKey();
+    await storage.updateApiKey(apiKey.id, { keyHash, keyPrefix });
+    newValue = key;
+    rotatedKeys.push(dashboardApiKeySecret(apiKey.id));
+    if (linked?.id === apiKey.id) {
+      envUpdates.OPENCLAW_API_KEY = key;
+      rotatedKeys.push("OPENCLAW_API_KEY");
+    }
+  } else {
+    return undefined;
+  }
+
+  const rotatedAt = new Date();
+  for (const key of Array.from(new Set(rotatedKeys))) {
+    const managedValue = envUpdates[key];
+    if (managedValue) process.env[key] = managedValue;
+    await storage.upsertSecretRotation(key, {
+      lastRotatedAt: rotatedAt,
+      lastRotatedBy: userId ?? null,
+      lastOverdueAlertAt: null,
+      ...(managedValue ? { managedValue } : {}),
+    });
+  }
+
+  let vpsPush: EnvPushResult | null = null;
+  if (Object.keys(envUpdates).length > 0) {
+    // A rotated gateway token must reach the same VPS as its openclaw.json, not whichever host is the default.
+    vpsPush = sshConfig
+      ? await pushEnvKeysToVps(sshConfig)
+      : { success: false, set: [], skipped: Object.keys(envUpdates), error: "No SSH config" };
+  }
+
+  return { secretKey, rotatedAt, newValue, gatewayPush, vpsPush };
+}
+
+async function logCheck(data: InsertGuardianLog) {
+  const log = await storage.createGuardianLog(data);
+  eventBus.publish("guardian.log", "secret-rotation", {
+    id: log.id,
+    type: log.type,
+    severity: log.severity,
+    message: log.message,
+    details: log.details,
+    status: log.status,
+    source: log.source,
+  });
+  return log;
+}
+
+/** Raises a guardian alert for each overdue rotation, at most once a day per secret. */
+export async function checkOverdueRotations(): Promise<number> {
+  const now = Date.now();
+  let alerted = 0;
+  for (const rotation of await storage.getSecretRotations()) {
+    const dueAt = rotationDueAt(rotation);
+    if (!dueAt || dueAt.getTime() > now) continue;
+    if (rotation.lastOverdueAlertAt && now - rotation.lastOverdueAlertAt.getTime() < DAY_MS) continue;
+
+    const daysOverdue = Math.floor((now - dueAt.getTime()) / DAY_MS);
+    await logCheck({
+      type: "secret_rotation",
+      severity: daysOverdue >= rotation.rotationIntervalDays! ? "critical" : "warning",
+      message: `${rotation.secretKey} is due for rotation${daysOverdue > 0 ? ` (${daysOverdue} day${daysOverdue === 1 ? "" : "s"} overdue)` : ""}`,
+      details: [
+        `Interval: every ${rotation.rotationIntervalDays} days`,
+        `Last rotated: ${rotation.lastRotatedAt ? rotation.lastRotatedAt.toISOString() : "never"}`,
+        `Owner: ${rotation.owner || "unassigned"}`,
+      ].join("\n"),
+      status: "detected",
+      source: "secret-rotation-check",
+    });
+    await storage.upsertSecretRotation(rotation.secretKey, { lastOverdueAlertAt: new Date(now) });
+    alerted++;
+  }
+  return alerted;
+}
+
+export function startSecretRotationMonitor(intervalMs = 60 * 60 * 1000) {
+  if (monitorInterval) clearInterval(monitorInterval);
+  monitorInterval = setInterval(() => {
+    checkOverdueRotations().catch(err => console.error("[SecretRotation] Overdue check error:", err));
+  }, intervalMs);
+  console.log(`[SecretRotation] Monitor started (every ${intervalMs / 60000} min)`);
+}
@@ -0,0 +1,263 @@
+import type { Request, Response, NextFunction } from "express";
+import { storage } from "./storage";
+import { eventBus } from "./event-bus";
+import {
+  SECURITY_POLICY_KEYS,
+  type SecurityEventType,
+  type SecurityPolicy,
+  type SecurityPolicyKey,
+  type SecuritySeverity,
+  type UpdateSecurityPolicy,
+} from "@shared/schema";
+
+type PolicySettings = Omit<SecurityPolicy, "key" | "updatedAt">;
+
+export const DEFAULT_SECURITY_POLICIES: Record<SecurityPolicyKey, PolicySettings> = {
+  auth_failures: { enabled: true, threshold: 10, windowMinutes: 15, blockMinutes: 60 },
+  rate_limit: { enabled: true, threshold: 600, windowMinutes: 1, blockMinutes: 0 },
+  suspicious_requests: { enabled: true, threshold: 5, windowMinutes: 10, blockMinutes: 24 * 60 },
+};
+
+// Probes for files and admin panels this app does not have, path traversal and injection payloads.
+const SUSPICIOUS_PATTERNS: Array<{ pattern: RegExp; label: string }> = [
+  { pattern: /\/\.(env|git|svn|aws|ssh|htaccess|htpasswd|DS_Store)(\/|$)/i, label: "dotfile probe" },
+  { pattern: /\/(wp-admin|wp-login\.php|wp-content|xmlrpc\.php|phpmyadmin|pma|adminer|cgi-bin)(\/|$)/i, label: "admin panel probe" },
+  { pattern: /\.(php|asp|aspx|jsp|cgi)(\?|$)/i, label: "script probe" },
+  { pattern: /(\.\.\/|\.\.\\|\/etc\/passwd|\/proc\/self)/i, label: "path traversal" },
+  { pattern: /(union\s+(all\s+)?select|'\s*or\s+'?1'?\s*=\s*'?1|;\s*drop\s+table|sleep\(\d+\))/i, label: "SQL injection" },
+  { pattern: /(<script|javascript:|onerror\s*=)/i, label: "script injection" },
+];
+
+const PRUNE_INTERVAL_MS = 10 * 60 * 1000;
+const EVENT_RETENTION_DAYS = 30;
+const BLOCKED_REQUEST_REPORT_MS = 60 * 1000;
+
+const policies = new Map<SecurityPolicyKey, PolicySettings>();
+const blocked = new Map<string, { id: string; expiresAt: number | null }>();
+const strikes = new Map<SecurityPolicyKey, Map<string, number[]>>();
+const requestCounts = new Map<string, { windowStart: number; count: number; reported: boolean }>();
+const lastBlockedReport = new Map<string, number>();
+let pruneTimer: ReturnType<typeof setInterval> | null = null;
+
+function getPolicy(key: SecurityPolicyKey): PolicySettings {
+  return policies.get(key) || DEFAULT_SECURITY_POLICIES[key];
+}
+
+export function clientIp(req: Request): string {
+  const ip = req.ip || req.socket.remoteAddress || "unknown";
+  return ip.startsWith("::ffff:") ? ip.slice(7) : ip;
+}
+
+function isLoopback(ip: string): boolean {
+  return ip === "127.0.0.1" || ip === "::1" || ip === "localhost";
+}
+
+function requestTarget(req: Request): string {
+  return `${req.method} ${req.originalUrl.split("?")[0]}`.slice(0, 300);
+}
+
+function recordEvent(req: Request, type: SecurityEventType, severity: SecuritySeverity, message: string, blockedRequest: boolean): void {
+  const sourceIp = clientIp(req);
+  const target = requestTarget(req);
+  const userAgent = (req.headers["user-agent"] || "").slice(0, 300) || null;
+  storage.createSecurityEvent({ type, severity, sourceIp, target, message, userAgent, blocked: blockedRequest })
+    .then(event => {
+      eventBus.publish("security.event", "security-agent", {
+        id: event.id, type, severity, sourceIp, target, message, blocked: blockedRequest,
+      });
+    })
+    .catch(err => console.error("[Security] Failed to record event:", err.message));
+}
+
+function isBlocked(ip: string): boolean {
+  const entry = blocked.get(ip);
+  if (!entry) return false;
+  if (entry.expiresAt !== null && entry.expiresAt <= Date.now()) {
+    blocked.delete(ip);
+    return false;
+  }
+  return true;
+}
+
+/** Adds a strike for the IP and returns how many strikes it has inside the policy window. */
+function addStrike(key: SecurityPolicyKey, ip: string, windowMinutes: number): number {
+  const now = Date.now();
+  let byIp = strikes.get(key);
+  if (!byIp) {
+    byIp = new Map();
+    strikes.set(key, byIp);
+  }
+  const recent = (byIp.get(ip) || []).filter(t => now - t < windowMinutes * 60000);
+  recent.push(now);
+  byIp.set(ip, recent);
+  return recent.length;
+}
+
+async function autoBlock(req: Request, key: SecurityPolicyKey, reason: string): Promise<void> {
+  const ip = clientIp(req);
+  const policy = getPolicy(key);
+  if (policy.blockMinutes <= 0 || isLoopback(ip) || isBlocked(ip)) return;
+  await blockIp(ip, reason, policy.blockMinutes, "auto");
+  strikes.get(key)?.delete(ip);
+  recordEvent(req, "ip_blocked", "critical", `Blocked ${ip} for ${policy.blockMinutes} minutes: ${reason}`, true);
+}
+
+function strike(req: Request, key: SecurityPolicyKey, reason: string): void {
+  const policy = getPolicy(key);
+  if (!policy.enabled) return;
+  const count = addStrike(key, clientIp(req), policy.windowMinutes);
+  if (count >= policy.threshold) {
+    autoBlock(req, key, `${count} ${reason} in ${policy.windowMinutes} minutes`)
+      .catch(err => console.error("[Security] Auto-block failed:", err.message));
+  }
+}
+
+/**
+ * Records a rejected credential (bad instance token, API key or proxy token). Requests that simply
+ * carry no credentials are not recorded, since the signed-out dashboard makes those constantly.
+ */
+export function recordAuthFailure(req: Request, message: string): void {
+  recordEvent(req, "auth_failure", "medium", message, false);
+  strike(req, "auth_failures", "failed authentications");
+}
+
+function checkRateLimit(req: Request, ip: string): boolean {
+  const policy = getPolicy("rate_limit");
+  if (!policy.enabled || isLoopback(ip)) return true;
+  const now = Date.now();
+  const windowMs = policy.windowMinutes * 60000;
+  let entry = requestCounts.get(ip);
+  if (!entry || now - entry.windowStart >= windowMs) {
+    entry = { windowStart: now, count: 0, reported: false };
+    requestCounts.set(ip, entry);
+  }
+  entry.count++;
+  if (entry.count <= policy.threshold) return true;
+  if (!entry.reported) {
+    entry.reported = true;
+    recordEvent(req, "rate_limit", "high", `More than ${policy.threshold} API requests in ${policy.windowMinutes} minute(s)`, true);
+    autoBlock(req, "rate_limit", "exceeded the API rate limit")
+      .catch(err => console.error("[Security] Auto-block failed:", err.message));
+  }
+  return false;
+}
+
+// Only the path is checked: query strings carry legitimate file paths (the file manager browses /root/.ssh or /etc/passwd).
+function findSuspiciousPattern(req: Request): string | null {
+  let path = req.path;
+  try {
+    path = decodeURIComponent(path);
+  } catch {}
+  return SUSPICIOUS_PATTERNS.find(p => p.pattern.test(path))?.label ?? null;
+}
+
+/** App-wide middleware: rejects blocked IPs, rate-limits the API and flags probing requests. */
+export function securityGuard(req: Request, res: Response, next: NextFunction) {
+  const ip = clientIp(req);
+
+  if (isBlocked(ip)) {
+    const last = lastBlockedReport.get(ip) || 0;
+    if (Date.now() - last > BLOCKED_REQUEST_REPORT_MS) {
+      lastBlockedReport.set(ip, Date.now());
+      recordEvent(req, "blocked_request", "low", `Rejected request from blocked IP ${ip}`, true);
+    }
+    return res.status(403).json({ error: "Access from your IP address has been blocked" });
+  }
+
+  // Signed-in users are not probing; their strikes would only lock the owner out.
+  const suspicious = req.session?.userId ? null : findSuspiciousPattern(req);
+  if (suspicious && getPolicy("suspicious_requests").enabled) {
+    recordEvent(req, "suspicious_request", "medium", `Suspicious request (${suspicious})`, false);
+    strike(req, "suspicious_requests", "suspicious requests");
+  }
+
+  if (req.path.startsWith("/api/") && !checkRateLimit(req, ip)) {
+    return res.status(429).json({ error: "Too many requests" });
+  }
+
+  next();
+}
+
+export async function getSecurityPolicies(): Promise<SecurityPolicy[]> {
+  const stored = await storage.getSecurityPolicies();
+  return SECURITY_POLICY_KEYS.map(key => {
+    const row = stored.find(p => p.key === key);
+    return row || { key, ...DEFAULT_SECURITY_POLICIES[key], updatedAt: new Date(0) };
+  });
+}
+
+export async function updateSecurityPolicy(key: SecurityPolicyKey, patch: UpdateSecurityPolicy): Promise<SecurityPolicy> {
+  const updated = await storage.upsertSecurityPolicy(key, { ...getPolicy(key), ...patch });
+  policies.set(key, updated);
+  strikes.delete(key);
+  if (key === "rate_limit") requestCounts.clear();
+  return updated;
+}
+
+export async function blockIp(ip: string, reason: string, minutes: number | null, source: "auto" | "manual") {
+  const expiresAt = minutes ? new Date(Date.now() + minutes * 60000) : null;
+  const entry = await storage.upsertBlockedIp({ ip, reason, source, expiresAt });
+  blocked.set(ip, { id: entry.id, expiresAt: expiresAt ? expiresAt.getTime() : null });
+  return entry;
+}
+
+export async function unblockIp(id: string) {
+  const removed = await storage.deleteBlockedIp(id);
+  if (removed) {
+    blocked.delete(removed.ip);
+    strikes.forEach(byIp => byIp.delete(removed.ip));
+    requestCounts.delete(removed.ip);
+  }
+  return removed;
+}
+
+export async function getSecurityStats() {
+  const since = new Date(Date.now() - 24 * 3600 * 1000);
+  const counts = await storage.getSecurityEventCounts(since);
+  const sum = (match: (c: (typeof counts)[number]) => boolean) =>
+    counts.filter(match).reduce((total, c) => total + c.count, 0);
+  const byType: Record<string, number> = {};
+  for (const c of counts) byType[c.type] = (byType[c.type] || 0) + c.count;
+  return {
+    since: since.toISOString(),
+    total: sum(() => true),
+    threatsBlocked: sum(c => c.blocked),
+    authFailures: byType.auth_failure || 0,
+    critical: sum(c => c.severity === "critical"),
+    byType,
+    activeBlocks: Array.from(blocked.keys()).filter(isBlocked).length,
+  };
+}
+
+async function prune(): Promise<void> {
+  const now = Date.now();
+  strikes.forEach((byIp, key) => {
+    const windowMs = getPolicy(key).windowMinutes * 60000;
+    byIp.forEach((times, ip) => {
+      if (times.every(t => now - t >= windowMs)) byIp.delete(ip);
+    });
+  });
+  const rateWindowMs = getPolicy("rate_limit").windowMinutes * 60000;
+  requestCounts.forEach((entry, ip) => {
+    if (now - entry.windowStart >= rateWindowMs) requestCounts.delete(ip);
+  });
+  lastBlockedReport.forEach((last, ip) => {
+    if (now - last > BLOCKED_REQUEST_REPORT_MS) lastBlockedReport.delete(ip);
+  });
+  for (const expired of await storage.deleteExpiredBlockedIps()) blocked.delete(expired.ip);
+  await storage.pruneSecurityEvents(new Date(now - EVENT_RETENTION_DAYS * 24 * 3600 * 1000));
+}
+
+export async function startSecurityAgent(): Promise<void> {
+  for (const policy of await storage.getSecurityPolicies()) policies.set(policy.key, policy);
+  blocked.clear();
+  for (const entry of await storage.getBlockedIps()) {
+    blocked.set(entry.ip, { id: entry.id, expiresAt: entry.expiresAt ? entry.expiresAt.getTime() : null });
+  }
+  if (pruneTimer) clearInterval(pruneTimer);
+  pruneTimer = setInterval(() => {
+    prune().catch(err => console.error("[Security] Prune failed:", err.message));
+  }, PRUNE_INTERVAL_MS);
+  pruneTimer.unref?.();
+  console.log(`[Security] Agent started (${blocked.size} blocked IP(s))`);
+}
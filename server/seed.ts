@@ -1,7 +1,8 @@
 import { db } from "./db";
 import { eq, isNull } from "drizzle-orm";
 import { settings, machines, apiKeys, vpsConnections, dockerServices, openclawConfig, integrations, openclawInstances } from "@shared/schema";
-import { randomUUID } from "crypto";
+import { generateApiKey } from "./api-keys";
+import { decryptSecret, encryptSecret } from "./encryption";
 
 async function seedIntegrations() {
   const existingIntegrations = await db.select().from(integrations);
@@ -46,7 +47,7 @@ async function seedIntegrations() {
       status: "not_configured",
       description: "Integrate Slack workspace for team notifications and agent interactions.",
       icon: "MessagesSquare",
-      config: { botToken: "", signingSecret: "", channelId: "" },
+      config: { webhookUrl: "", botToken: "", signingSecret: "", channelId: "" },
     },
     {
       name: "Tailscale",
@@ -214,7 +215,7 @@ async function correctVpsData(defaultInstanceId: string) {
     const updates: Record<string, any> = {};
     if (cfg.websocketUrl !== CORRECT_WS_URL) updates.websocketUrl = CORRECT_WS_URL;
     const token = process.env.OPENCLAW_GATEWAY_TOKEN;
-    if (token && cfg.gatewayToken !== token) updates.gatewayToken = token;
+    if (token && decryptSecret(cfg.gatewayToken) !== token) updates.gatewayToken = encryptSecret(token);
     if (Object.keys(updates).length > 0) {
       await db.update(openclawConfig).set(updates).where(eq(openclawConfig.id, cfg.id));
       console.log(`[Seed] Corrected openclaw config:`, Object.keys(updates).join(", "));
@@ -238,7 +239,10 @@ export async function seed() {
     { category: "general", key: "general.timezone", value: "America/New_York", label: "Timezone", description: "Default timezone", type: "select" },
     { category: "general", key: "general.language", value: "en", label: "Language", description: "Default language", type: "select" },
     { category: "general", key: "general.support_email", value: "rsmolarz@rsmolarz.com", label: "Support Email", description: "Customer support email", type: "text" },
-    { category: "general", key: "general.maintenance_mode", value: "false", label: "Maintenance Mode", description: "Enable maintenance mode", type: "toggle" },
+    { category: "general", key: "general.maintenance_mode", value: "false", label: "Maintenance Mode", description: "Block changes from non-owners, pause automation and Guardian scans", type: "toggle" },
+    { category: "general", key: "general.maintenance_start", value: "", label: "Maintenance Start", description: "Maintenance starts at this time (optional)", type: "text" },
+    { category: "general", key: "general.maintenance_end", value: "", label: "Maintenance End", description: "Maintenance ends at this time (optional)", type: "text" },
+    { category: "general", key: "general.maintenance_message", value: "", label: "Maintenance Message", description: "Shown in the banner and sent by the bots", type: "text" },
   ]);
 
   await db.insert(settings).values([
@@ -250,6 +254,19 @@ export async function seed() {
     { category: "notifications", key: "notifications.revenue_milestone", value: "false", label: "Revenue Milestones", description: "Revenue achievement alerts", type: "toggle" },
     { category: "notifications", key: "notifications.maintenance_due", value: "true", label: "Maintenance Due", description: "Maintenance reminder alerts", type: "toggle" },
     { category: "notifications", key: "notifications.digest_frequency", value: "daily", label: "Digest Frequency", description: "Summary notification frequency", type: "select" },
+    { category: "notifications", key: "notifications.whatsapp_enabled", value: "true", label: "WhatsApp", description: "Send push alerts over WhatsApp", type: "toggle" },
+    { category: "notifications", key: "notifications.telegram_enabled", value: "true", label: "Telegram", description: "Send push alerts over Telegram", type: "toggle" },
+    { category: "notifications", key: "notifications.webhook_enabled", value: "false", label: "Webhook", description: "POST alerts as JSON to a URL", type: "toggle" },
+    { category: "notifications", key: "notifications.email_to", value: "", label: "Email Recipient", description: "Defaults to the support email", type: "text" },
+    { category: "notifications", key: "notifications.whatsapp_to", value: "", label: "WhatsApp Number", description: "Defaults to the bot's own number", type: "text" },
+    { category: "notifications", key: "notifications.telegram_chat_id", value: "", label: "Telegram Chat ID", description: "Defaults to the Telegram integration chat", type: "text" },
+    { category: "notifications", key: "notifications.webhook_url", value: "", label: "Webhook URL", description: "Receives alerts as JSON", type: "text" },
+    { category: "notifications", key: "notifications.quiet_hours_start", value: "", label: "Quiet Hours Start", description: "Hold non-critical alerts from this time (HH:MM)", type: "text" },
+    { category: "notifications", key: "notifications.quiet_hours_end", value: "", label: "Quiet Hours End", description: "Send held alerts after this time (HH:MM)", type: "text" },
+    { category: "notifications", key: "notifications.guardian", value: "true", label: "Guardian", description: "Code and intrusion findings", type: "toggle" },
+    { category: "notifications", key: "notifications.security", value: "true", label: "Security", description: "High-severity security events", type: "toggle" },
+    { category: "notifications", key: "notifications.automation", value: "true", label: "Automation", description: "Job failures and recoveries", type: "toggle" },
+    { category: "notifications", key: "notifications.calendar", value: "true", label: "Calendar", description: "Meeting reminders", type: "toggle" },
   ]);
 
   await db.insert(settings).values([
@@ -259,10 +276,14 @@ export async function seed() {
     { category: "appearance", key: "appearance.accent_color", value: "blue", label: "Accent Color", description: "Accent color theme", type: "select" },
   ]);
 
+  const seedKey = () => {
+    const { keyHash, keyPrefix } = generateApiKey();
+    return { keyHash, keyPrefix };
+  };
   await db.insert(apiKeys).values([
-    { name: "Production API", key: `oc_${randomUUID().replace(/-/g, "")}`, permissions: "admin", active: true },
-    { name: "Mobile App", key: `oc_${randomUUID().replace(/-/g, "")}`, permissions: "read", active: true },
-    { name: "Analytics Service", key: `oc_${randomUUID().replace(/-/g, "")}`, permissions: "read", active: false },
+    { name: "Node Agents", ...seedKey(), scopes: ["heartbeat"], active: true },
+    { name: "Home Bot", ...seedKey(), scopes: ["home-bot"], active: true },
+    { name: "Stream Deck", ...seedKey(), scopes: ["skill-trigger"], active: false },
   ]);
 
   await db.insert(vpsConnections).values([
@@ -284,7 +305,7 @@ export async function seed() {
       gatewayBind: "lan",
       gatewayMode: "local",
       gatewayStatus: "online",
-      gatewayToken: process.env.OPENCLAW_GATEWAY_TOKEN || null,
+      gatewayToken: process.env.OPENCLAW_GATEWAY_TOKEN ? encryptSecret(process.env.OPENCLAW_GATEWAY_TOKEN) : null,
       websocketUrl: "wss://72.60.167.64:18789",
       defaultLlm: "deepseek/deepseek-chat",
       fallbackLlm: "openrouter/auto",
@@ -0,0 +1,317 @@
+import { randomBytes } from "crypto";
+import { posix } from "path";
+import type { Writable } from "stream";
+import { pipeline } from "stream/promises";
+import archiver from "archiver";
+import type { SFTPWrapper, Stats } from "ssh2";
+import { withSFTP, type SSHConnectionConfig } from "./ssh";
+
+const MAX_EDIT_BYTES = 1024 * 1024;
+const TRANSFER_TIMEOUT_MS = 30 * 60 * 1000;
+const MAX_ARCHIVE_ENTRIES = 20000;
+const MAX_REMOVE_ENTRIES = 20000;
+
+const S_IFMT = 0o170000;
+const S_IFDIR = 0o040000;
+const S_IFLNK = 0o120000;
+const S_IFREG = 0o100000;
+
+// SFTP status codes from the protocol draft (ssh2's STATUS_CODE).
+const SFTP_NO_SUCH_FILE = 2;
+const SFTP_PERMISSION_DENIED = 3;
+
+export type ArchiveFormat = "tar" | "zip";
+
+export interface RemoteFileEntry {
+  name: string;
+  type: "file" | "directory" | "symlink" | "other";
+  size: number;
+  modified: string;
+  mtime: number;
+  permissions: string;
+}
+
+export interface RemoteTextFile {
+  path: string;
+  content: string;
+  size: number;
+  mtime: number;
+}
+
+export type WriteTextFileResult =
+  | { conflict: true; currentMtime: number }
+  | { conflict: false; mtime: number; backupPath: string | null };
+
+export interface DownloadTarget {
+  begin(filename: string, contentType: string, size?: number): Writable;
+}
+
+function httpError(status: number, message: string): Error {
+  return Object.assign(new Error(message), { status });
+}
+
+export function fileErrorStatus(err: any): number {
+  if (typeof err?.status === "number") return err.status;
+  if (err?.code === SFTP_NO_SUCH_FILE) return 404;
+  if (err?.code === SFTP_PERMISSION_DENIED) return 403;
+  return 500;
+}
+
+/** Returns a normalized absolute path, or null if the input is not an absolute path. */
+export function normalizeRemotePath(path: unknown): string | null {
+  if (typeof path !== "string" || !path.startsWith("/") || path.includes("\0")) return null;
+  return posix.normalize(path).replace(/(.)\/+$/, "$1");
+}
+
+function sftpCall<T = void>(invoke: (callback: (err: Error | null | undefined, value?: T) => void) => void): Promise<T> {
+  return new Promise<T>((resolve, reject) => invoke((err, value) => (err ? reject(err) : resolve(value as T))));
+}
+
+async function statOrNull(sftp: SFTPWrapper, path: string): Promise<Stats | null> {
+  try {
+    return await sftpCall<Stats>(cb => sftp.stat(path, cb));
+  } catch (err: any) {
+    if (err?.code === SFTP_NO_SUCH_FILE) return null;
+    throw err;
+  }
+}
+
+function fileType(mode: number): RemoteFileEntry["type"] {
+  switch (mode & S_IFMT) {
+    case S_IFDIR: return "directory";
+    case S_IFLNK: return "symlink";
+    case S_IFREG: return "file";
+    default: return "other";
+  }
+}
+
+function formatPermissions(mode: number): string {
+  const type = { directory: "d", symlink: "l", file: "-", other: "?" }[fileType(mode)];
+  const bits = "rwxrwxrwx".split("").map((ch, i) => (mode & (0o400 >> i) ? ch : "-"));
+  return type + bits.join("");
+}
+
+function formatModified(mtime: number): string {
+  return new Date(mtime * 1000).toISOString().slice(0, 16).replace("T", " ");
+}
+
+function safeName(name: string): string {
+  const base = posix.basename(name);
+  if (!base || base === "." || base === ".." || base.includes("\0")) throw httpError(400, `Invalid file name: ${name}`);
+  return base;
+}
+
+export function listDirectory(config: SSHConnectionConfig, path: string): Promise<RemoteFileEntry[]> {
+  return withSFTP(config, `sftp list ${path}`, async (sftp) => {
+    const list = await sftpCall<Array<{ filename: string; attrs: Stats }>>(cb => sftp.readdir(path, cb));
+    const entries: RemoteFileEntry[] = list
+      .filter(item => item.filename !== "." && item.filename !== "..")
+      .map(item => ({
+        name: item.filename,
+        type: fileType(item.attrs.mode),
+        size: item.attrs.size,
+        modified: formatModified(item.attrs.mtime),
+        mtime: item.attrs.mtime,
+        permissions: formatPermissions(item.attrs.mode),
+      }));
+    return entries.sort((a, b) => {
+      if (a.type === "directory" && b.type !== "directory") return -1;
+      if (a.type !== "directory" && b.type === "directory") return 1;
+      return a.name.localeCompare(b.name);
+    });
+  });
+}
+
+export function readTextFile(config: SSHConnectionConfig, path: string): Promise<RemoteTextFile> {
+  return withSFTP(config, `sftp read ${path}`, async (sftp) => {
+    const stats = await sftpCall<Stats>(cb => sftp.stat(path, cb));
+    if (stats.isDirectory()) throw httpError(400, "Path is a directory");
+    if (stats.size > MAX_EDIT_BYTES) throw httpError(400, "File too large to edit (>1MB); download it instead");
+    const data = await sftpCall<Buffer>(cb => sftp.readFile(path, cb));
+    if (data.includes(0)) throw httpError(415, "Binary file; download it instead");
+    return { path, content: data.toString("utf8"), size: stats.size, mtime: stats.mtime };
+  });
+}
+
+async function replaceFile(sftp: SFTPWrapper, from: string, to: string) {
+  try {
+    await sftpCall(cb => sftp.ext_openssh_rename(from, to, cb));
+  } catch (err: any) {
+    // Plain SFTP rename refuses to overwrite; only fall back when the extension is unavailable.
+    if (!/does not support/i.test(err?.message || "")) throw err;
+    await sftpCall(cb => sftp.unlink(to, cb)).catch(() => {});
+    await sftpCall(cb => sftp.rename(from, to, cb));
+  }
+}
+
+/**
+ * Saves a text file without ever leaving it half-written: the previous version is copied to
+ * `<path>.bak`, the new content goes to a temporary file alongside it, and that file is renamed
+ * over the original. When `expectedMtime` is given and the remote file has changed since, nothing
+ * is written and the current mtime is returned instead.
+ */
+export function writeTextFile(config: SSHConnectionConfig, path: string, content: string, expectedMtime?: number): Promise<WriteTextFileResult> {
+  return withSFTP(config, `sftp write ${path}`, async (sftp) => {
+    const existing = await statOrNull(sftp, path);
+    if (existing?.isDirectory()) throw httpError(400, "Path is a directory");
+    if (existing && expectedMtime !== undefined && existing.mtime !== expectedMtime) {
+      return { conflict: true, currentMtime: existing.mtime };
+    }
+
+    // Write through symlinks to the file they point at rather than replacing the link.
+    const target = existing ? await sftpCall<string>(cb => sftp.realpath(path, cb)) : path;
+    const mode = existing ? existing.mode & 0o7777 : 0o644;
+    let backupPath: string | null = null;
+    if (existing) {
+      backupPath = `${target}.bak`;
+      const previous = await sftpCall<Buffer>(cb => sftp.readFile(target, cb));
+      await sftpCall(cb => sftp.writeFile(backupPath!, previous, { mode }, cb));
+    }
+
+    const tempPath = `${target}.tmp-${randomBytes(4).toString("hex")}`;
+    try {
+      await sftpCall(cb => sftp.writeFile(tempPath, content, { mode }, cb));
+      await sftpCall(cb => sftp.chmod(tempPath, mode, cb));
+      if (existing) await sftpCall(cb => sftp.chown(tempPath, existing.uid, existing.gid, cb)).catch(() => {});
+      await replaceFile(sftp, tempPath, target);
+    } catch (err) {
+      await sftpCall(cb => sftp.unlink(tempPath, cb)).catch(() => {});
+      throw err;
+    }
+
+    const written = await sftpCall<Stats>(cb => sftp.stat(target, cb));
+    return { conflict: false, mtime: written.mtime, backupPath };
+  });
+}
+
+export function uploadFiles(config: SSHConnectionConfig, directory: string, files: Array<{ localPath: string; name: string }>): Promise<string[]> {
+  const names = files.map(file => safeName(file.name));
+  return withSFTP(config, `sftp upload ${names.join(", ")} to ${directory}`, async (sftp) => {
+    const stats = await sftpCall<Stats>(cb => sftp.stat(directory, cb));
+    if (!stats.isDirectory()) throw httpError(400, "Upload target is not a directory");
+    const uploaded: string[] = [];
+    for (let i = 0; i < files.length; i++) {
+      const remotePath = posix.join(directory, names[i]);
+      await sftpCall(cb => sftp.fastPut(files[i].localPath, remotePath, cb));
+      uploaded.push(remotePath);
+    }
+    return uploaded;
+  }, TRANSFER_TIMEOUT_MS);
+}
+
+async function archiveDirectory(sftp: SFTPWrapper, root: string, format: ArchiveFormat, output: Writable) {
+  const archive = format === "zip" ? archiver("zip", { zlib: { level: 6 } }) : archiver("tar", { gzip: true });
+  const finished = pipeline(archive, output);
+  finished.catch(() => {});
+  const rootName = posix.basename(root) || "root";
+  let count = 0;
+
+  // Waiting for each file to be written keeps a single remote file handle open however large the tree is.
+  let appended = 0;
+  let written = 0;
+  let waiting: { resolve: () => void; reject: (err: Error) => void } | null = null;
+  archive.on("entry", () => {
+    written++;
+    if (waiting && written >= appended) {
+      waiting.resolve();
+      waiting = null;
+    }
+  });
+  archive.on("error", (err) => {
+    waiting?.reject(err);
+    waiting = null;
+  });
+  const append: typeof archive.append = (source, data) => {
+    appended++;
+    return archive.append(source, data);
+  };
+  const drain = () => written >= appended ? Promise.resolve() : new Promise<void>((resolve, reject) => { waiting = { resolve, reject }; });
+
+  const walk = async (dir: string, prefix: string) => {
+    const list = await sftpCall<Array<{ filename: string; attrs: Stats }>>(cb => sftp.readdir(dir, cb));
+    for (const item of list) {
+      if (item.filename === "." || item.filename === "..") continue;
+      if (++count > MAX_ARCHIVE_ENTRIES) throw httpError(413, `Directory has more than ${MAX_ARCHIVE_ENTRIES} entries`);
+      const remotePath = posix.join(dir, item.filename);
+      const name = `${prefix}/${item.filename}`;
+      const mode = item.attrs.mode & 0o7777;
+      const date = new Date(item.attrs.mtime * 1000);
+      const type = fileType(item.attrs.mode);
+      if (type === "directory") {
+        append("", { name: `${name}/`, mode, date });
+        await walk(remotePath, name);
+      } else if (type === "symlink") {
+        const target = await sftpCall<string>(cb => sftp.readlink(remotePath, cb));
+        appended++;
+        archive.symlink(name, target, mode);
+      } else if (type === "file") {
+        append(sftp.createReadStream(remotePath), { name, mode, date });
+        await drain();
+      }
+    }
+  };
+
+  try {
+    append("", { name: `${rootName}/` });
+    await walk(root, rootName);
+    await archive.finalize();
+    await finished;
+  } catch (err) {
+    archive.abort();
+    throw err;
+  }
+}
+
+/** Streams a file, or a directory as a tar.gz or zip archive, to the writable returned by `target.begin`. */
+export function downloadPath(config: SSHConnectionConfig, path: string, format: ArchiveFormat, target: DownloadTarget): Promise<void> {
+  return withSFTP(config, `sftp download ${path}`, async (sftp) => {
+    const stats = await sftpCall<Stats>(cb => sftp.stat(path, cb));
+    const name = posix.basename(path) || "root";
+    if (stats.isDirectory()) {
+      const output = format === "zip"
+        ? target.begin(`${name}.zip`, "application/zip")
+        : target.begin(`${name}.tar.gz`, "application/gzip");
+      await archiveDirectory(sftp, path, format, output);
+      return;
+    }
+    await pipeline(sftp.createReadStream(path), target.begin(name, "application/octet-stream", stats.size));
+  }, TRANSFER_TIMEOUT_MS);
+}
+
+/** Renames or moves `from`; moving onto an existing directory places the entry inside it. */
+export function movePath(config: SSHConnectionConfig, from: string, to: string): Promise<string> {
+  return withSFTP(config, `sftp move ${from} -> ${to}`, async (sftp) => {
+    const destination = await statOrNull(sftp, to);
+    const finalPath = destination?.isDirectory() ? posix.join(to, posix.basename(from)) : to;
+    if (finalPath === from) return from;
+    if (await statOrNull(sftp, finalPath)) throw httpError(409, `${finalPath} already exists`);
+    await sftpCall(cb => sftp.rename(from, finalPath, cb));
+    return finalPath;
+  });
+}
+
+export function changeMode(config: SSHConnectionConfig, path: string, mode: number): Promise<void> {
+  return withSFTP(config, `sftp chmod ${mode.toString(8)} ${path}`, sftp => sftpCall(cb => sftp.chmod(path, mode, cb)));
+}
+
+export function makeDirectory(config: SSHConnectionConfig, path: string): Promise<void> {
+  return withSFTP(config, `sftp mkdir ${path}`, sftp => sftpCall(cb => sftp.mkdir(path, cb)));
+}
+
+export function removePath(config: SSHConnectionConfig, path: string, recursive: boolean): Promise<number> {
+  return withSFTP(config, `sftp remove${recursive ? " -r" : ""} ${path}`, async (sftp) => {
+    let removed = 0;
+    const remove = async (target: string) => {
+      if (++removed > MAX_REMOVE_ENTRIES) throw httpError(413, `Refusing to delete more than ${MAX_REMOVE_ENTRIES} entries`);
+      const stats = await sftpCall<Stats>(cb => sftp.lstat(target, cb));
+      if (!stats.isDirectory()) return sftpCall(cb => sftp.unlink(target, cb));
+      const list = await sftpCall<Array<{ filename: string }>>(cb => sftp.readdir(target, cb));
+      const children = list.filter(item => item.filename !== "." && item.filename !== "..");
+      if (children.length > 0 && !recursive) throw httpError(409, "Directory is not empty");
+      for (const child of children) await remove(posix.join(target, child.filename));
+      await sftpCall(cb => sftp.rmdir(target, cb));
+    };
+    await remove(path);
+    return removed;
+  });
+}
@@ -0,0 +1,47 @@
+import type { Response } from "express";
+
+const HEARTBEAT_MS = 15000;
+
+export interface SSEStream {
+  send(event: string, data: unknown): void;
+  end(): void;
+  // Aborted when the browser disconnects before end() is called.
+  signal: AbortSignal;
+}
+
+/** Switches a response to a server-sent event stream. */
+export function openSSEStream(res: Response): SSEStream {
+  res.status(200).set({
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache, no-transform",
+    Connection: "keep-alive",
+    "X-Accel-Buffering": "no",
+  });
+  res.flushHeaders();
+
+  const controller = new AbortController();
+  let ended = false;
+  const heartbeat = setInterval(() => res.write(": keepalive\n\n"), HEARTBEAT_MS);
+
+  res.on("close", () => {
+    clearInterval(heartbeat);
+    if (!ended) {
+      ended = true;
+      controller.abort();
+    }
+  });
+
+  return {
+    signal: controller.signal,
+    send(event, data) {
+      if (ended) return;
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    },
+    end() {
+      if (ended) return;
+      ended = true;
+      clearInterval(heartbeat);
+      res.end();
+    },
+  };
+}
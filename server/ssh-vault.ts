@@ -0,0 +1,164 @@
+import { createHash } from "crypto";
+import ssh2, { type ParsedKey } from "ssh2";
+import { storage } from "./storage";
+import { eventBus } from "./event-bus";
+import { buildSSHConfigFromVps, executeRawSSHCommand, setDefaultVpsConnection, setHostKeyListener, type SSHConnectionConfig } from "./ssh";
+import type { VpsConnection, VpsConnectionSummary } from "@shared/schema";
+
+const { utils } = ssh2;
+
+const MISMATCH_ALERT_INTERVAL_MS = 60 * 60 * 1000;
+
+const lastMismatchAlert = new Map<string, number>();
+
+export function toVpsConnectionSummary(vps: VpsConnection): VpsConnectionSummary {
+  const { sshPrivateKey, sshPassword, ...summary } = vps;
+  return { ...summary, hasPrivateKey: !!sshPrivateKey, hasPassword: !!sshPassword };
+}
+
+function parsePrivateKey(privateKey: string): ParsedKey {
+  const parsed = utils.parseKey(privateKey);
+  const key = Array.isArray(parsed) ? parsed[0] : parsed;
+  if (!key || key instanceof Error) {
+    throw new Error(key instanceof Error ? `Invalid private key: ${key.message}` : "Invalid private key");
+  }
+  if (!key.isPrivateKey()) throw new Error("Expected a private key, got a public key");
+  return key;
+}
+
+function toPublicKeyLine(key: ParsedKey, comment: string): string {
+  return `${key.type} ${key.getPublicSSH().toString("base64")} ${comment}`.trim();
+}
+
+export function publicKeyFingerprint(publicKeyLine: string): string {
+  const blob = Buffer.from(publicKeyLine.split(/\s+/)[1] ?? "", "base64");
+  return `SHA256:${createHash("sha256").update(blob).digest("base64").replace(/=+$/, "")}`;
+}
+
+export function generateSSHKeyPair(comment: string): { privateKey: string; publicKey: string } {
+  const pair = utils.generateKeyPairSync("ed25519", { comment });
+  return { privateKey: pair.private, publicKey: pair.public.trim() };
+}
+
+/** Validates an uploaded private key (unencrypted OpenSSH or PEM) and derives its public key. */
+export function importSSHPrivateKey(privateKey: string, comment: string): { privateKey: string; publicKey: string } {
+  const normalized = privateKey.trim() + "\n";
+  const key = parsePrivateKey(normalized);
+  return { privateKey: normalized, publicKey: toPublicKeyLine(key, key.comment || comment) };
+}
+
+export function keyComment(vps: VpsConnection): string {
+  return `openclaw-dashboard@${vps.vpsIp}`;
+}
+
+/**
+ * Appends the connection's public key to authorized_keys using the current credentials, then
+ * confirms a key-only login works before marking the key installed.
+ */
+export async function installPublicKey(vps: VpsConnection): Promise<{ success: boolean; error?: string; vps?: VpsConnection }> {
+  if (!vps.sshPrivateKey || !vps.sshPublicKey) return { success: false, error: "Generate or upload a key first" };
+
+  const keyLine = vps.sshPublicKey.replace(/'/g, "");
+  const installCmd = [
+    "umask 077",
+    "mkdir -p ~/.ssh",
+    "touch ~/.ssh/authorized_keys",
+    `grep -qxF '${keyLine}' ~/.ssh/authorized_keys || echo '${keyLine}' >> ~/.ssh/authorized_keys`,
+    "chmod 700 ~/.ssh && chmod 600 ~/.ssh/authorized_keys",
+    "echo installed",
+  ].join(" && ");
+  const installConfig = buildSSHConfigFromVps({ ...vps, keyInstalledAt: null });
+  const installed = await executeRawSSHCommand(installCmd, installConfig, 0, 30000);
+  if (!installed.success) return { success: false, error: installed.error || installed.output || "Install failed" };
+
+  const keyOnly = buildSSHConfigFromVps({ ...vps, keyInstalledAt: new Date() });
+  const verified = await executeRawSSHCommand("echo ok", keyOnly, 0, 15000);
+  if (!verified.success) {
+    return { success: false, error: `Key was added but a key-only login failed: ${verified.error || verified.output}` };
+  }
+
+  const updated = await storage.updateVpsCredentials(vps.id, { keyInstalledAt: new Date() });
+  await refreshDefaultSSHConnection();
+  return { success: true, vps: updated };
+}
+
+/**
+ * Moves keys still referenced by ssh_key_path on the dashboard server into the encrypted vault, once per
+ * connection. The key is not marked installed, so the password stays available until "Install key" confirms it.
+ */
+async function importKeyPathKeys(): Promise<void> {
+  const { readFile } = await import("fs/promises");
+  for (const instance of await storage.getInstances()) {
+    const vps = await storage.getVpsConnection(instance.id);
+    if (!vps?.sshKeyPath || vps.sshPrivateKey) continue;
+    try {
+      const { privateKey, publicKey } = importSSHPrivateKey(await readFile(vps.sshKeyPath, "utf8"), keyComment(vps));
+      await storage.updateVpsCredentials(vps.id, { sshPrivateKey: privateKey, sshPublicKey: publicKey, keyInstalledAt: null });
+      console.log(`[SSH] Imported ${vps.sshKeyPath} into the key vault for ${vps.vpsIp}`);
+    } catch (err: any) {
+      console.error(`[SSH] Could not import ${vps.sshKeyPath} for ${vps.vpsIp}:`, err.message);
+    }
+  }
+}
+
+export async function refreshDefaultSSHConnection(): Promise<void> {
+  const instance = await storage.getDefaultInstance();
+  const vps = instance ? await storage.getVpsConnection(instance.id) : undefined;
+  setDefaultVpsConnection(vps ?? null);
+}
+
+async function pinHostKey(config: SSHConnectionConfig, fingerprint: string) {
+  const pinned = await storage.pinVpsHostKey(config.vpsConnectionId!, fingerprint);
+  if (!pinned) return;
+  console.log(`[SSH] Pinned host key for ${config.host}: ${fingerprint}`);
+  await storage.createGuardianLog({
+    type: "ssh_host_key",
+    severity: "info",
+    message: `Pinned SSH host key for ${config.host}`,
+    details: fingerprint,
+    status: "resolved",
+    source: "ssh-host-key-check",
+  });
+  await importKeyPathKeys().catch(err => console.error("[SSH] Key path import failed:", err.message));
+  await refreshDefaultSSHConnection();
+}
+
+async function reportHostKeyMismatch(config: SSHConnectionConfig, fingerprint: string) {
+  const alertKey = `${config.vpsConnectionId ?? config.host}:${fingerprint}`;
+  const last = lastMismatchAlert.get(alertKey);
+  if (last && Date.now() - last < MISMATCH_ALERT_INTERVAL_MS) return;
+  lastMismatchAlert.set(alertKey, Date.now());
+
+  console.error(`[SSH] Host key mismatch for ${config.host}: expected ${config.hostKeyFingerprint}, got ${fingerprint}`);
+  const log = await storage.createGuardianLog({
+    type: "ssh_host_key",
+    severity: "critical",
+    message: `SSH host key for ${config.host} changed — connection refused (possible man-in-the-middle)`,
+    details: `Pinned: ${config.hostKeyFingerprint}\nPresented: ${fingerprint}`,
+    status: "detected",
+    source: "ssh-host-key-check",
+  });
+  eventBus.publish("guardian.log", "ssh-vault", {
+    id: log.id,
+    type: log.type,
+    severity: log.severity,
+    message: log.message,
+    details: log.details,
+    status: log.status,
+    source: log.source,
+  });
+}
+
+/** Loads the default connection and starts pinning and checking host keys. */
+export async function initSSHVault(): Promise<void> {
+  setHostKeyListener({
+    onFirstUse: (config, fingerprint) => {
+      pinHostKey(config, fingerprint).catch(err => console.error("[SSH] Failed to pin host key:", err.message));
+    },
+    onMismatch: (config, fingerprint) => {
+      reportHostKeyMismatch(config, fingerprint).catch(err => console.error("[SSH] Failed to report host key mismatch:", err.message));
+    },
+  });
+  await importKeyPathKeys().catch(err => console.error("[SSH] Key path import failed:", err.message));
+  await refreshDefaultSSHConnection();
+}
@@ -1,7 +1,13 @@
-import { Client } from "ssh2";
+import { createHash } from "crypto";
+import { StringDecoder } from "string_decoder";
+import { Client, type ClientChannel, type ConnectConfig, type SFTPWrapper } from "ssh2";
 
 const SSH_TIMEOUT_MS = 60000;
 const CMD_TIMEOUT_MS = 120000;
+const KEEPALIVE_INTERVAL_MS = 15000;
+const KEEPALIVE_COUNT_MAX = 3;
+const POOL_IDLE_MS = 60000;
+const POOL_MAX_CHANNELS = 6;
 
 const ALLOWED_COMMANDS: Record<string, string> = {
   status: "ps aux | grep -E 'openclaw' | grep -v grep; echo '---PORTS---'; ss -tlnp | grep 18789 || echo 'Port 18789 not listening'",
@@ -254,16 +260,76 @@ export interface SSHConnectionConfig {
   username?: string;
   password?: string;
   privateKey?: string;
+  // Set for connections stored in vps_connections, whose host key is pinned on first use.
+  vpsConnectionId?: string;
+  hostKeyFingerprint?: string | null;
 }
 
-interface SSHResult {
+export interface HostKeyListener {
+  onFirstUse(config: SSHConnectionConfig, fingerprint: string): void;
+  onMismatch(config: SSHConnectionConfig, fingerprint: string): void;
+}
+
+export interface SSHCommandStart {
+  command: string;
+  action: string;
+  config: SSHConnectionConfig;
+  startedAt: Date;
+}
+
+// Called in the caller's async context when a command starts; the returned callback gets the result.
+export type SSHCommandListener = (start: SSHCommandStart) => ((result: SSHResult, durationMs: number) => void) | void;
+
+interface VpsSSHFields {
+  id?: string;
+  vpsIp: string;
+  vpsPort: number;
+  sshUser: string;
+  sshPrivateKey?: string | null;
+  sshPassword?: string | null;
+  passwordAuthEnabled?: boolean;
+  keyInstalledAt?: Date | null;
+  hostKeyFingerprint?: string | null;
+}
+
+let hostKeyListener: HostKeyListener | null = null;
+let commandListener: SSHCommandListener | null = null;
+let defaultVps: VpsSSHFields | null = null;
+
+export interface SSHResult {
   success: boolean;
   output: string;
   error?: string;
   exitCode?: number;
 }
 
+export interface SSHExecOptions {
+  signal?: AbortSignal;
+  timeoutMs?: number;
+}
+
+export interface SSHStreamOptions extends SSHExecOptions {
+  onStdout?: (chunk: string) => void;
+  onStderr?: (chunk: string) => void;
+}
+
+export function setHostKeyListener(listener: HostKeyListener) {
+  hostKeyListener = listener;
+}
+
+/** Notified of every command run through executeSSHOnce, including failed and cancelled ones. */
+export function setCommandListener(listener: SSHCommandListener | null) {
+  commandListener = listener;
+}
+
+/** The default instance's VPS connection, used when callers do not pass an explicit config. */
+export function setDefaultVpsConnection(vps: VpsSSHFields | null) {
+  defaultVps = vps;
+}
+
 function getDefaultConfig(): SSHConnectionConfig | null {
+  if (defaultVps) return buildSSHConfigFromVps(defaultVps);
+  // Legacy fallback for databases without a VPS connection row.
   const password = process.env.VPS_ROOT_PASSWORD;
   if (!password) return null;
   return {
@@ -274,24 +340,46 @@ function getDefaultConfig(): SSHConnectionConfig | null {
   };
 }
 
-export function buildSSHConfigFromVps(vps: { vpsIp: string; vpsPort: number; sshUser: string; sshKeyPath?: string | null }): SSHConnectionConfig {
+export function buildSSHConfigFromVps(vps: VpsSSHFields): SSHConnectionConfig {
   const config: SSHConnectionConfig = {
     host: vps.vpsIp,
     port: vps.vpsPort,
     username: vps.sshUser,
+    vpsConnectionId: vps.id,
+    hostKeyFingerprint: vps.hostKeyFingerprint ?? null,
   };
-  if (vps.sshKeyPath) {
-    try {
-      const fs = require("fs");
-      config.privateKey = fs.readFileSync(vps.sshKeyPath, "utf8");
-    } catch {}
-  }
-  if (!config.privateKey && process.env.VPS_ROOT_PASSWORD) {
-    config.password = process.env.VPS_ROOT_PASSWORD;
+  if (vps.sshPrivateKey) config.privateKey = vps.sshPrivateKey;
+  // A vault key is preferred once installed; until then the password is still needed to install it.
+  const needsPassword = !config.privateKey || !vps.keyInstalledAt;
+  // VPS_ROOT_PASSWORD belongs to the legacy default host, so it is only offered to that connection once its host key is pinned.
+  const isPinnedDefault = !!vps.id && vps.id === defaultVps?.id && !!vps.hostKeyFingerprint;
+  const password = vps.sshPassword || (isPinnedDefault ? process.env.VPS_ROOT_PASSWORD : undefined);
+  if (vps.passwordAuthEnabled !== false && needsPassword && password) {
+    config.password = password;
   }
   return config;
 }
 
+/** OpenSSH-style SHA256 fingerprint of a raw host key blob. */
+export function hostKeyFingerprint(key: Buffer): string {
+  return `SHA256:${createHash("sha256").update(key).digest("base64").replace(/=+$/, "")}`;
+}
+
+/** ssh2 hostVerifier that refuses a host key other than the pinned one and reports unpinned keys for pinning. */
+export function createHostVerifier(config: SSHConnectionConfig, onReject?: (fingerprint: string) => void) {
+  return (key: Buffer): boolean => {
+    const fingerprint = hostKeyFingerprint(key);
+    if (config.hostKeyFingerprint) {
+      if (fingerprint === config.hostKeyFingerprint) return true;
+      onReject?.(fingerprint);
+      hostKeyListener?.onMismatch(config, fingerprint);
+      return false;
+    }
+    if (config.vpsConnectionId) hostKeyListener?.onFirstUse(config, fingerprint);
+    return true;
+  };
+}
+
 export function getSSHConfig(overrides?: Partial<SSHConnectionConfig>): SSHConnectionConfig | null {
   const defaults = getDefaultConfig();
   if (!defaults && !overrides?.host) return null;
@@ -443,7 +531,7 @@ export async function executeRawSSHCommand(
   }
 
   for (let attempt = 0; attempt <= retries; attempt++) {
-    const result = await executeSSHOnce(command, "raw", sshConfig, cmdTimeoutMs);
+    const result = await executeSSHOnce(command, "raw", sshConfig, { timeoutMs: cmdTimeoutMs });
     if (result.success || attempt === retries) return result;
     if (result.error?.includes("timed out") || result.error?.includes("connection failed")) {
       await new Promise(r => setTimeout(r, 3000));
@@ -458,7 +546,8 @@ export async function executeRawSSHCommand(
 export async function executeSSHRawCommand(
   command: string,
   config?: SSHConnectionConfig,
-  retries = 1
+  retries = 1,
+  options: SSHExecOptions = {}
 ): Promise<SSHResult> {
   const sshConfig = config || getDefaultConfig();
   if (!sshConfig) {
@@ -466,7 +555,7 @@ export async function executeSSHRawCommand(
   }
 
   for (let attempt = 0; attempt <= retries; attempt++) {
-    const result = await executeSSHOnce(command, "raw", sshConfig);
+    const result = await executeSSHOnce(command, "raw", sshConfig, options);
     if (result.success || attempt === retries) return result;
     if (result.error?.includes("timed out") || result.error?.includes("connection failed")) {
       await new Promise(r => setTimeout(r, 3000));
@@ -506,98 +595,438 @@ export async function executeSSHCommand(
   return { success: false, output: "", error: "SSH failed after retries" };
 }
 
+
+/**
+ * Runs a command and streams its output as it arrives. Resolves with the same buffered result as
+ * executeSSHRawCommand once the command exits, so callers can both show progress and parse output.
+ */
+export async function streamSSHCommand(
+  command: string,
+  config?: SSHConnectionConfig,
+  options: SSHStreamOptions = {}
+): Promise<SSHResult> {
+  const sshConfig = config || getDefaultConfig();
+  if (!sshConfig) {
+    return { success: false, output: "", error: "No SSH credentials configured. Add a VPS connection or set VPS_ROOT_PASSWORD secret." };
+  }
+  return executeSSHOnce(command, "raw", sshConfig, options);
+}
+
+/** Streaming variant of executeSSHCommand for the allow-listed gateway actions. */
+export async function streamSSHAction(
+  action: string,
+  config?: SSHConnectionConfig,
+  options: SSHStreamOptions = {}
+): Promise<SSHResult> {
+  const command = ALLOWED_COMMANDS[action];
+  if (!command) {
+    return { success: false, output: "", error: `Unknown action: ${action}. Allowed: ${Object.keys(ALLOWED_COMMANDS).join(", ")}` };
+  }
+
+  const sshConfig = config || getDefaultConfig();
+  if (!sshConfig) {
+    return { success: false, output: "", error: "No SSH credentials configured. Add a VPS connection or set VPS_ROOT_PASSWORD secret." };
+  }
+  return executeSSHOnce(command, action, sshConfig, options);
+}
+
+export interface SSHPoolStats {
+  host: string;
+  username: string;
+  port: number;
+  ready: boolean;
+  activeChannels: number;
+  queued: number;
+  openedAt: string;
+  lastUsedAt: string;
+}
+
+interface ChannelWaiter {
+  start: () => void;
+  fail: (error: string) => void;
+}
+
+// One multiplexed connection per host and credential set; commands run as channels on it.
+interface PooledConnection {
+  key: string;
+  config: SSHConnectionConfig;
+  client: Client;
+  ready: Promise<void>;
+  isReady: boolean;
+  closed: boolean;
+  active: number;
+  waiters: ChannelWaiter[];
+  idleTimer: ReturnType<typeof setTimeout> | null;
+  openedAt: number;
+  lastUsedAt: number;
+}
+
+const pool = new Map<string, PooledConnection>();
+
+function poolKey(config: SSHConnectionConfig): string {
+  const credentials = createHash("sha256")
+    .update([config.password ?? "", config.privateKey ?? "", config.hostKeyFingerprint ?? ""].join("\0"))
+    .digest("hex")
+    .slice(0, 16);
+  return `${config.username || "root"}@${config.host}:${config.port || 22}#${credentials}`;
+}
+
+function evictPooledConnection(entry: PooledConnection, reason: string) {
+  if (entry.closed) return;
+  entry.closed = true;
+  if (entry.idleTimer) clearTimeout(entry.idleTimer);
+  if (pool.get(entry.key) === entry) pool.delete(entry.key);
+  entry.client.end();
+  entry.waiters.splice(0).forEach(waiter => waiter.fail(reason));
+}
+
+function scheduleIdleEviction(entry: PooledConnection) {
+  if (entry.closed || entry.active > 0 || entry.waiters.length > 0) return;
+  if (entry.idleTimer) clearTimeout(entry.idleTimer);
+  entry.idleTimer = setTimeout(() => evictPooledConnection(entry, "SSH connection closed (idle)"), POOL_IDLE_MS);
+}
+
+function releaseChannelSlot(entry: PooledConnection) {
+  entry.active--;
+  entry.lastUsedAt = Date.now();
+  const next = entry.waiters.shift();
+  if (next) next.start();
+  else scheduleIdleEviction(entry);
+}
+
+function getPooledConnection(sshConfig: SSHConnectionConfig): PooledConnection {
+  const key = poolKey(sshConfig);
+  const existing = pool.get(key);
+  if (existing && !existing.closed) {
+    if (existing.idleTimer) {
+      clearTimeout(existing.idleTimer);
+      existing.idleTimer = null;
+    }
+    return existing;
+  }
+
+  const client = new Client();
+  let rejectedHostKey: string | null = null;
+  const entry: PooledConnection = {
+    key,
+    config: sshConfig,
+    client,
+    ready: Promise.resolve(),
+    isReady: false,
+    closed: false,
+    active: 0,
+    waiters: [],
+    idleTimer: null,
+    openedAt: Date.now(),
+    lastUsedAt: Date.now(),
+  };
+
+  entry.ready = new Promise<void>((resolve, reject) => {
+    const fail = (error: string) => {
+      clearTimeout(connectionTimeout);
+      reject(new Error(error));
+      evictPooledConnection(entry, error);
+    };
+    const connectionTimeout = setTimeout(() => fail("SSH connection timed out"), SSH_TIMEOUT_MS);
+
+    client.once("ready", () => {
+      clearTimeout(connectionTimeout);
+      entry.isReady = true;
+      resolve();
+    });
+    client.on("error", (err) => fail(connectionErrorMessage(sshConfig, err, rejectedHostKey)));
+    client.on("close", () => fail("SSH connection failed: connection closed"));
+  });
+  entry.ready.catch(() => {});
+
+  pool.set(key, entry);
+  client.connect(buildConnectConfig(sshConfig, fingerprint => { rejectedHostKey = fingerprint; }));
+  return entry;
+}
+
+function buildConnectConfig(sshConfig: SSHConnectionConfig, onHostKeyReject: (fingerprint: string) => void): ConnectConfig {
+  return {
+    host: sshConfig.host,
+    port: sshConfig.port || 22,
+    username: sshConfig.username || "root",
+    password: sshConfig.password,
+    privateKey: sshConfig.privateKey,
+    hostVerifier: createHostVerifier(sshConfig, onHostKeyReject),
+    readyTimeout: SSH_TIMEOUT_MS,
+    keepaliveInterval: KEEPALIVE_INTERVAL_MS,
+    keepaliveCountMax: KEEPALIVE_COUNT_MAX,
+    algorithms: {
+      kex: [
+        "ecdh-sha2-nistp256",
+        "ecdh-sha2-nistp384",
+        "ecdh-sha2-nistp521",
+        "diffie-hellman-group-exchange-sha256",
+        "diffie-hellman-group14-sha256",
+        "diffie-hellman-group14-sha1",
+      ],
+    },
+  };
+}
+
+function connectionErrorMessage(sshConfig: SSHConnectionConfig, err: Error, rejectedHostKey: string | null): string {
+  return rejectedHostKey
+    ? `SSH connection failed: host key mismatch for ${sshConfig.host} (expected ${sshConfig.hostKeyFingerprint}, got ${rejectedHostKey}). Reset the pinned host key in VPS settings only if the server was rebuilt.`
+    : `SSH connection failed: ${err.message}`;
+}
+
+export interface SSHShell {
+  channel: ClientChannel;
+  resize(cols: number, rows: number): void;
+  close(): void;
+}
+
+/**
+ * Opens an interactive PTY shell. Shells get their own connection rather than a pooled one so a
+ * long-lived terminal never holds one of the pool's command slots.
+ */
+export function openSSHShell(sshConfig: SSHConnectionConfig, size: { cols: number; rows: number }): Promise<SSHShell> {
+  return new Promise<SSHShell>((resolve, reject) => {
+    const client = new Client();
+    let rejectedHostKey: string | null = null;
+    let settled = false;
+    const fail = (error: string) => {
+      clearTimeout(connectionTimeout);
+      client.end();
+      if (settled) return;
+      settled = true;
+      reject(new Error(error));
+    };
+    const connectionTimeout = setTimeout(() => fail("SSH connection timed out"), SSH_TIMEOUT_MS);
+
+    client.once("ready", () => {
+      clearTimeout(connectionTimeout);
+      client.shell({ term: "xterm-256color", cols: size.cols, rows: size.rows }, (err, channel) => {
+        if (err) return fail(err.message);
+        settled = true;
+        channel.on("close", () => client.end());
+        resolve({
+          channel,
+          resize: (cols, rows) => channel.setWindow(rows, cols, 0, 0),
+          close: () => {
+            channel.close();
+            client.end();
+          },
+        });
+      });
+    });
+    client.on("error", (err) => fail(connectionErrorMessage(sshConfig, err, rejectedHostKey)));
+    client.on("close", () => fail("SSH connection failed: connection closed"));
+    client.connect(buildConnectConfig(sshConfig, fingerprint => { rejectedHostKey = fingerprint; }));
+  });
+}
+
+export function getSSHPoolStats(): SSHPoolStats[] {
+  return Array.from(pool.values()).map(entry => ({
+    host: entry.config.host,
+    username: entry.config.username || "root",
+    port: entry.config.port || 22,
+    ready: entry.isReady,
+    activeChannels: entry.active,
+    queued: entry.waiters.length,
+    openedAt: new Date(entry.openedAt).toISOString(),
+    lastUsedAt: new Date(entry.lastUsedAt).toISOString(),
+  }));
+}
+
+export function closeSSHPool() {
+  Array.from(pool.values()).forEach(entry => evictPooledConnection(entry, "SSH connection pool closed"));
+}
+
+function notifyCommandStart(command: string, action: string, config: SSHConnectionConfig, startedAt: Date) {
+  try {
+    return commandListener?.({ command, action, config, startedAt }) || undefined;
+  } catch (err: any) {
+    console.error("[SSH] Command listener failed:", err.message);
+  }
+}
+
+function notifyCommandComplete(onComplete: ReturnType<typeof notifyCommandStart>, result: SSHResult, startedAt: Date) {
+  try {
+    onComplete?.(result, Date.now() - startedAt.getTime());
+  } catch (err: any) {
+    console.error("[SSH] Command listener failed:", err.message);
+  }
+}
+
+/**
+ * Runs `operation` against an SFTP session on the pooled connection. The session holds one of the
+ * connection's channel slots until the returned promise settles, and is reported to the command
+ * listener as `description` so file operations are recorded like commands.
+ */
+export function withSFTP<T>(
+  sshConfig: SSHConnectionConfig,
+  description: string,
+  operation: (sftp: SFTPWrapper) => Promise<T>,
+  timeoutMs: number = CMD_TIMEOUT_MS
+): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    const entry = getPooledConnection(sshConfig);
+    const startedAt = new Date();
+    const onComplete = notifyCommandStart(description, "sftp", sshConfig, startedAt);
+    let settled = false;
+    let holdsSlot = false;
+    let session: SFTPWrapper | null = null;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const finish = (error: Error | null, value?: T) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      const queued = entry.waiters.indexOf(waiter);
+      if (queued !== -1) entry.waiters.splice(queued, 1);
+      session?.end();
+      if (holdsSlot) releaseChannelSlot(entry);
+      else scheduleIdleEviction(entry);
+      notifyCommandComplete(onComplete, { success: !error, output: "", error: error?.message }, startedAt);
+      if (error) reject(error);
+      else resolve(value as T);
+    };
+
+    const start = () => {
+      if (settled) return;
+      holdsSlot = true;
+      entry.active++;
+      entry.lastUsedAt = Date.now();
+      timer = setTimeout(() => finish(new Error("SFTP operation timed out")), timeoutMs);
+      entry.client.sftp((err, sftp) => {
+        if (err) return finish(err);
+        if (settled) return sftp.end();
+        session = sftp;
+        operation(sftp).then(
+          value => finish(null, value),
+          (error: unknown) => finish(error instanceof Error ? error : new Error(String(error)))
+        );
+      });
+    };
+
+    const waiter: ChannelWaiter = { start, fail: error => finish(new Error(error)) };
+
+    entry.ready.then(
+      () => {
+        if (settled) return;
+        if (entry.active < POOL_MAX_CHANNELS) start();
+        else entry.waiters.push(waiter);
+      },
+      (err: Error) => finish(err)
+    );
+  });
+}
+
 function executeSSHOnce(
   command: string,
   action: string,
   sshConfig: SSHConnectionConfig,
-  cmdTimeoutMs?: number
+  options: SSHStreamOptions = {}
 ): Promise<SSHResult> {
   return new Promise<SSHResult>((resolve) => {
-    const conn = new Client();
-    let resolved = false;
-
-    const connectionTimeout = setTimeout(() => {
-      if (!resolved) {
-        resolved = true;
-        conn.end();
-        resolve({ success: false, output: "", error: "SSH connection timed out" });
+    const { signal, onStdout, onStderr } = options;
+    if (signal?.aborted) {
+      resolve({ success: false, output: "", error: "Command cancelled" });
+      return;
+    }
+
+    const entry = getPooledConnection(sshConfig);
+    const startedAt = new Date();
+    const onComplete = notifyCommandStart(command, action, sshConfig, startedAt);
+    let settled = false;
+    let holdsSlot = false;
+    let channel: ClientChannel | null = null;
+    let cmdTimeout: ReturnType<typeof setTimeout> | undefined;
+
+    const finish = (result: SSHResult) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(cmdTimeout);
+      signal?.removeEventListener("abort", onAbort);
+      const queued = entry.waiters.indexOf(waiter);
+      if (queued !== -1) entry.waiters.splice(queued, 1);
+      if (channel) {
+        // Timeouts and cancellation end only this command; the pooled connection stays up.
+        channel.signal("TERM");
+        channel.close();
       }
-    }, SSH_TIMEOUT_MS);
+      if (holdsSlot) releaseChannelSlot(entry);
+      else scheduleIdleEviction(entry);
+      notifyCommandComplete(onComplete, result, startedAt);
+      resolve(result);
+    };
 
-    conn.on("ready", () => {
-      clearTimeout(connectionTimeout);
+    const onAbort = () => finish({ success: false, output: "", error: "Command cancelled" });
+    signal?.addEventListener("abort", onAbort, { once: true });
 
-      const cmdTimeout = setTimeout(() => {
-        if (!resolved) {
-          resolved = true;
-          conn.end();
-          resolve({ success: false, output: "", error: "Command execution timed out" });
-        }
-      }, cmdTimeoutMs || CMD_TIMEOUT_MS);
+    const start = () => {
+      if (settled) return;
+      holdsSlot = true;
+      entry.active++;
+      entry.lastUsedAt = Date.now();
+
+      cmdTimeout = setTimeout(() => {
+        finish({ success: false, output: "", error: "Command execution timed out" });
+      }, options.timeoutMs || CMD_TIMEOUT_MS);
 
-      conn.exec(command, (err, stream) => {
+      entry.client.exec(command, (err, stream) => {
         if (err) {
-          clearTimeout(cmdTimeout);
-          if (!resolved) {
-            resolved = true;
-            conn.end();
-            resolve({ success: false, output: "", error: err.message });
-          }
+          finish({ success: false, output: "", error: err.message });
+          return;
+        }
+        if (settled) {
+          stream.close();
           return;
         }
+        channel = stream;
 
+        const stdoutDecoder = new StringDecoder("utf8");
+        const stderrDecoder = new StringDecoder("utf8");
         let stdout = "";
         let stderr = "";
 
         stream.on("data", (data: Buffer) => {
-          stdout += data.toString();
+          const chunk = stdoutDecoder.write(data);
+          stdout += chunk;
+          if (chunk) onStdout?.(chunk);
         });
 
         stream.stderr.on("data", (data: Buffer) => {
-          stderr += data.toString();
+          const chunk = stderrDecoder.write(data);
+          stderr += chunk;
+          if (chunk) onStderr?.(chunk);
         });
 
-        stream.on("close", (code: number) => {
-          clearTimeout(cmdTimeout);
-          if (!resolved) {
-            resolved = true;
-            conn.end();
-            resolve({
-              success: code === 0 || (action === "status" && stdout.trim().length > 0),
-              output: stdout.trim(),
-              error: stderr.trim() || undefined,
-              exitCode: code,
-            });
+        stream.on("close", (code: number | null | undefined, signalName?: string) => {
+          channel = null;
+          stdout += stdoutDecoder.end();
+          stderr += stderrDecoder.end();
+          if (code == null && entry.closed) {
+            finish({ success: false, output: stdout.trim(), error: "SSH connection lost while the command was running" });
+            return;
           }
+          finish({
+            success: code === 0 || (action === "status" && stdout.trim().length > 0),
+            output: stdout.trim(),
+            error: stderr.trim() || (signalName ? `Command terminated by signal ${signalName}` : undefined),
+            exitCode: code ?? undefined,
+          });
         });
       });
-    });
+    };
 
-    conn.on("error", (err) => {
-      clearTimeout(connectionTimeout);
-      if (!resolved) {
-        resolved = true;
-        resolve({ success: false, output: "", error: `SSH connection failed: ${err.message}` });
-      }
-    });
+    const waiter: ChannelWaiter = {
+      start,
+      fail: (error) => finish({ success: false, output: "", error }),
+    };
 
-    conn.connect({
-      host: sshConfig.host,
-      port: sshConfig.port || 22,
-      username: sshConfig.username || "root",
-      password: sshConfig.password,
-      privateKey: sshConfig.privateKey,
-      readyTimeout: SSH_TIMEOUT_MS,
-      algorithms: {
-        kex: [
-          "ecdh-sha2-nistp256",
-          "ecdh-sha2-nistp384",
-          "ecdh-sha2-nistp521",
-          "diffie-hellman-group-exchange-sha256",
-          "diffie-hellman-group14-sha256",
-          "diffie-hellman-group14-sha1",
-        ],
+    entry.ready.then(
+      () => {
+        if (settled) return;
+        if (entry.active < POOL_MAX_CHANNELS) start();
+        else entry.waiters.push(waiter);
       },
-    });
+      (err: Error) => finish({ success: false, output: "", error: err.message })
+    );
   });
 }
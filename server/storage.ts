@@ -2,17 +2,23 @@ import {
   type Setting, type InsertSetting,
   type Machine, type InsertMachine,
   type ApiKey, type InsertApiKey,
-  type VpsConnection, type InsertVpsConnection,
+  type VpsConnection, type InsertVpsConnection, type VpsCredentials,
   type DockerService, type InsertDockerService,
   type OpenclawConfig, type InsertOpenclawConfig,
   type LlmApiKey, type InsertLlmApiKey,
   type Integration, type InsertIntegration,
   type User, type InsertUser,
+  type SecurityEvent, type InsertSecurityEvent, type SecurityEventType, type SecuritySeverity,
+  type SecurityPolicy, type SecurityPolicyKey, type UpdateSecurityPolicy,
+  type BlockedIp, type InsertBlockedIp,
   type WhatsappSession, type InsertWhatsappSession,
   type OpenclawInstance, type InsertInstance,
   type Skill, type InsertSkill,
   type Doc, type InsertDoc,
   type VpsConnectionLog, type InsertVpsConnectionLog,
+  type VpsSecurityBaseline,
+  type SecretRotation,
+  type OpenclawConfigVersion, type InsertOpenclawConfigVersion, type OpenclawConfigFile,
   type NodeSetupSession, type InsertNodeSetupSession,
   type OnboardingChecklist, type InsertOnboardingChecklist,
   type AiConversation, type InsertAiConversation,
@@ -21,9 +27,14 @@ import {
   type FeatureProposal, type InsertFeatureProposal,
   type AutomationJob, type InsertAutomationJob,
   type AutomationRun, type InsertAutomationRun,
+  type MachineGroup, type InsertMachineGroup,
   type MetricsEvent, type InsertMetricsEvent,
   type EmailWorkflow, type InsertEmailWorkflow,
+  type EmailWorkflowMatch, type InsertEmailWorkflowMatch,
   type AuditLog, type InsertAuditLog,
+  type OperationRecord, type InsertOperationRecord, type OperationRecordSummary, type OperationRecordFilter,
+  type Notification, type InsertNotification,
+  type WebhookSubscription, type InsertWebhookSubscription, type WebhookDelivery, type InsertWebhookDelivery, type WebhookDeliveryStatus,
   type ReplitProject, type InsertReplitProject,
   type ProjectEvaluation, type InsertProjectEvaluation,
   type OmiTodo, type InsertOmiTodo,
@@ -39,16 +50,93 @@ import {
   type ConnectedDevice, type InsertConnectedDevice,
   type ProjectFile, type InsertProjectFile,
   type GithubRepo, type InsertGithubRepo,
-  settings, machines, apiKeys, vpsConnections, dockerServices, openclawConfig, llmApiKeys, integrations, users, whatsappSessions, openclawInstances, skills,
-  docs, vpsConnectionLogs, nodeSetupSessions, onboardingChecklist,
+  settings, machines, apiKeys, vpsConnections, dockerServices, openclawConfig, llmApiKeys, integrations, users, whatsappSessions, waAuthState, openclawInstances, skills,
+  docs, vpsConnectionLogs, vpsSecurityBaselines, secretRotations, openclawConfigVersions, nodeSetupSessions, onboardingChecklist,
   aiConversations, aiMessages, guardianLogs, featureProposals,
-  automationJobs, automationRuns, metricsEvents, emailWorkflows,
-  auditLogs, replitProjects, projectEvaluations, omiTodos, omiSops,
+  automationJobs, automationRuns, machineGroups, metricsEvents, emailWorkflows, emailWorkflowMatches,
+  auditLogs, operationRecords, notifications, webhookSubscriptions, webhookDeliveries, securityEvents, securityPolicies, blockedIps, replitProjects, projectEvaluations, omiTodos, omiSops,
   healthLogs, groceryItems, financialTransactions, habits, habitCompletions, meetingPreps, focusSessions, lifeEvents, connectedDevices, projectFiles, githubRepos,
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, and, desc, sql } from "drizzle-orm";
-import { randomUUID } from "crypto";
+import { decryptSecret, encryptSecret, needsReencryption, reencryptSecret, secretLookupHash } from "./encryption";
+import { eq, and, or, desc, sql, gte, lt, lte, ilike, inArray, isNull, getTableColumns, type SQL } from "drizzle-orm";
+
+// Life-automation tables whose rows belong to one user unless marked shared.
+const PERSONAL_TABLES = [omiTodos, healthLogs, groceryItems, financialTransactions, habits, focusSessions, lifeEvents];
+type PersonalTable = (typeof PERSONAL_TABLES)[number];
+
+function visibleTo(table: PersonalTable, userId: string): SQL {
+  return or(eq(table.userId, userId), eq(table.shared, true))!;
+}
+
+// Anyone who can see a shared row may edit it, but only its owner may change whether it is shared.
+function editableBy(table: PersonalTable, userId: string, data: { shared?: boolean }): SQL {
+  return data.shared === undefined ? visibleTo(table, userId) : eq(table.userId, userId);
+}
+
+// Credential columns are envelope-encrypted at rest (see ./encryption); callers only ever see plaintext.
+function decryptInstance(instance: OpenclawInstance): OpenclawInstance {
+  return { ...instance, apiKey: decryptSecret(instance.apiKey) };
+}
+
+function encryptInstanceFields<T extends Partial<InsertInstance>>(data: T): T {
+  if (data.apiKey === undefined) return data;
+  return { ...data, apiKey: encryptSecret(data.apiKey), apiKeyHash: data.apiKey ? secretLookupHash(data.apiKey) : null };
+}
+
+function decryptConfig(config: OpenclawConfig): OpenclawConfig {
+  return { ...config, gatewayToken: decryptSecret(config.gatewayToken), gatewayPassword: decryptSecret(config.gatewayPassword) };
+}
+
+function encryptConfigFields<T extends Partial<InsertOpenclawConfig>>(data: T): T {
+  return {
+    ...data,
+    ...(data.gatewayToken !== undefined ? { gatewayToken: encryptSecret(data.gatewayToken) } : {}),
+    ...(data.gatewayPassword !== undefined ? { gatewayPassword: encryptSecret(data.gatewayPassword) } : {}),
+  };
+}
+
+function decryptVpsConnection(vps: VpsConnection): VpsConnection {
+  return { ...vps, sshPrivateKey: decryptSecret(vps.sshPrivateKey), sshPassword: decryptSecret(vps.sshPassword) };
+}
+
+function encryptVpsCredentials<T extends Partial<VpsCredentials>>(data: T): T {
+  return {
+    ...data,
+    ...(data.sshPrivateKey !== undefined ? { sshPrivateKey: encryptSecret(data.sshPrivateKey) } : {}),
+    ...(data.sshPassword !== undefined ? { sshPassword: encryptSecret(data.sshPassword) } : {}),
+  };
+}
+
+function decryptLlmApiKey(key: LlmApiKey): LlmApiKey {
+  return { ...key, apiKey: decryptSecret(key.apiKey) };
+}
+
+function notificationUnreadBy(userId: string): SQL {
+  return sql`NOT (${notifications.readBy} @> ${JSON.stringify([userId])}::jsonb)`;
+}
+
+function operationRecordConditions(filter: OperationRecordFilter): SQL | undefined {
+  const pattern = filter.q ? `%${filter.q.replace(/[\\%_]/g, "\\$&")}%` : undefined;
+  const conditions = [
+    pattern
+      ? or(
+          ilike(operationRecords.command, pattern),
+          ilike(operationRecords.summary, pattern),
+          ilike(operationRecords.stdout, pattern),
+          ilike(operationRecords.stderr, pattern),
+          ilike(operationRecords.targetHost, pattern),
+        )
+      : undefined,
+    filter.operationType ? eq(operationRecords.operationType, filter.operationType) : undefined,
+    filter.userId ? eq(operationRecords.userId, filter.userId) : undefined,
+    filter.targetHost ? eq(operationRecords.targetHost, filter.targetHost) : undefined,
+    filter.success !== undefined ? eq(operationRecords.success, filter.success) : undefined,
+    filter.from ? gte(operationRecords.startedAt, filter.from) : undefined,
+    filter.to ? lte(operationRecords.startedAt, filter.to) : undefined,
+  ].filter((c): c is SQL => !!c);
+  return conditions.length > 0 ? and(...conditions) : undefined;
+}
 
 export interface IStorage {
   getSettings(): Promise<Setting[]>;
@@ -64,8 +152,10 @@ export interface IStorage {
 
   getApiKeys(): Promise<ApiKey[]>;
   getApiKey(id: string): Promise<ApiKey | undefined>;
-  createApiKey(apiKey: InsertApiKey): Promise<ApiKey>;
+  getApiKeyByHash(keyHash: string): Promise<ApiKey | undefined>;
+  createApiKey(apiKey: InsertApiKey, keyHash: string, keyPrefix: string): Promise<ApiKey>;
   updateApiKey(id: string, data: Partial<ApiKey>): Promise<ApiKey | undefined>;
+  recordApiKeyUse(id: string, ip: string | null): Promise<void>;
   deleteApiKey(id: string): Promise<void>;
 
   getInstances(): Promise<OpenclawInstance[]>;
@@ -79,6 +169,8 @@ export interface IStorage {
   getVpsConnection(instanceId: string): Promise<VpsConnection | undefined>;
   upsertVpsConnection(instanceId: string, data: Partial<InsertVpsConnection>): Promise<VpsConnection>;
   updateVpsConnectionStatus(id: string, isConnected: boolean): Promise<VpsConnection | undefined>;
+  updateVpsCredentials(id: string, data: Partial<VpsCredentials>): Promise<VpsConnection | undefined>;
+  pinVpsHostKey(id: string, fingerprint: string): Promise<VpsConnection | undefined>;
 
   getDockerServices(instanceId: string): Promise<DockerService[]>;
   upsertDockerService(data: InsertDockerService): Promise<DockerService>;
@@ -91,6 +183,7 @@ export interface IStorage {
   createLlmApiKey(data: InsertLlmApiKey): Promise<LlmApiKey>;
   updateLlmApiKey(id: string, data: Partial<InsertLlmApiKey>): Promise<LlmApiKey | undefined>;
   deleteLlmApiKey(id: string): Promise<void>;
+  reencryptSecrets(): Promise<Record<string, number>>;
 
   getIntegrations(): Promise<Integration[]>;
   getIntegration(id: string): Promise<Integration | undefined>;
@@ -102,6 +195,9 @@ export interface IStorage {
   upsertUser(data: InsertUser): Promise<User>;
   getUser(id: string): Promise<User | undefined>;
   getAllUsers(): Promise<User[]>;
+  updateUserRole(id: string, role: string): Promise<User | undefined>;
+  getOwnerUser(): Promise<User | undefined>;
+  ensureOwner(): Promise<void>;
 
   getWhatsappSessionByPhone(phone: string): Promise<WhatsappSession | undefined>;
   getWhatsappPendingSessions(): Promise<WhatsappSession[]>;
@@ -128,6 +224,18 @@ export interface IStorage {
 
   getVpsConnectionLogs(instanceId: string): Promise<VpsConnectionLog[]>;
   createVpsConnectionLog(data: InsertVpsConnectionLog): Promise<VpsConnectionLog>;
+  getVpsSecurityBaseline(instanceId: string): Promise<VpsSecurityBaseline | undefined>;
+  upsertVpsSecurityBaseline(instanceId: string, data: Partial<Omit<VpsSecurityBaseline, "id" | "instanceId" | "createdAt" | "updatedAt">>): Promise<VpsSecurityBaseline>;
+
+  getSecretRotations(): Promise<SecretRotation[]>;
+  getSecretRotation(secretKey: string): Promise<SecretRotation | undefined>;
+  upsertSecretRotation(secretKey: string, data: Partial<Omit<SecretRotation, "id" | "secretKey" | "createdAt" | "updatedAt">>): Promise<SecretRotation>;
+  deleteSecretRotation(secretKey: string): Promise<void>;
+
+  getOpenclawConfigVersions(instanceId: string, file: OpenclawConfigFile, limit?: number): Promise<OpenclawConfigVersion[]>;
+  getOpenclawConfigVersion(id: string): Promise<OpenclawConfigVersion | undefined>;
+  getLatestOpenclawConfigVersion(instanceId: string, file: OpenclawConfigFile): Promise<OpenclawConfigVersion | undefined>;
+  createOpenclawConfigVersion(data: InsertOpenclawConfigVersion): Promise<OpenclawConfigVersion>;
 
   getNodeSetupSessions(instanceId: string): Promise<NodeSetupSession[]>;
   getNodeSetupSession(id: string): Promise<NodeSetupSession | undefined>;
@@ -159,13 +267,19 @@ export interface IStorage {
   getAutomationJobs(): Promise<AutomationJob[]>;
   getAutomationJob(id: string): Promise<AutomationJob | undefined>;
   createAutomationJob(data: InsertAutomationJob): Promise<AutomationJob>;
-  updateAutomationJob(id: string, data: Partial<InsertAutomationJob> & { lastRun?: Date; nextRun?: Date }): Promise<AutomationJob | undefined>;
+  updateAutomationJob(id: string, data: Partial<InsertAutomationJob> & { lastRun?: Date; nextRun?: Date | null; lastStatus?: string }): Promise<AutomationJob | undefined>;
   deleteAutomationJob(id: string): Promise<void>;
 
   getAutomationRuns(jobId: string): Promise<AutomationRun[]>;
   getAutomationRun(id: string): Promise<AutomationRun | undefined>;
   createAutomationRun(data: InsertAutomationRun): Promise<AutomationRun>;
-  updateAutomationRun(id: string, data: Partial<InsertAutomationRun> & { completedAt?: Date }): Promise<AutomationRun | undefined>;
+  updateAutomationRun(id: string, data: Partial<InsertAutomationRun> & { startedAt?: Date; completedAt?: Date }): Promise<AutomationRun | undefined>;
+
+  getMachineGroups(): Promise<MachineGroup[]>;
+  getMachineGroup(id: string): Promise<MachineGroup | undefined>;
+  createMachineGroup(data: InsertMachineGroup): Promise<MachineGroup>;
+  updateMachineGroup(id: string, data: Partial<InsertMachineGroup>): Promise<MachineGroup | undefined>;
+  deleteMachineGroup(id: string): Promise<void>;
 
   getMetricsEvents(category?: string, limit?: number): Promise<MetricsEvent[]>;
   createMetricsEvent(data: InsertMetricsEvent): Promise<MetricsEvent>;
@@ -175,11 +289,58 @@ export interface IStorage {
   createEmailWorkflow(data: InsertEmailWorkflow): Promise<EmailWorkflow>;
   updateEmailWorkflow(id: string, data: Partial<InsertEmailWorkflow> & { lastTriggered?: Date; triggerCount?: number }): Promise<EmailWorkflow | undefined>;
   deleteEmailWorkflow(id: string): Promise<void>;
+  recordEmailWorkflowTrigger(id: string): Promise<void>;
+  claimEmailWorkflowMatch(data: InsertEmailWorkflowMatch): Promise<EmailWorkflowMatch | undefined>;
+  updateEmailWorkflowMatch(id: string, data: Partial<InsertEmailWorkflowMatch>): Promise<EmailWorkflowMatch | undefined>;
+  getEmailWorkflowMatches(workflowId?: string, limit?: number): Promise<EmailWorkflowMatch[]>;
+  getEmailWorkflowMatchByKey(dedupeKey: string): Promise<EmailWorkflowMatch | undefined>;
 
   getAuditLogs(page: number, limit: number, actionType?: string): Promise<AuditLog[]>;
   getAuditLogCount(actionType?: string): Promise<number>;
   createAuditLog(data: InsertAuditLog): Promise<AuditLog>;
 
+  createOperationRecord(data: InsertOperationRecord): Promise<OperationRecord>;
+  getOperationRecords(filter: OperationRecordFilter, page: number, limit: number): Promise<OperationRecordSummary[]>;
+  getOperationRecordCount(filter: OperationRecordFilter): Promise<number>;
+  getOperationRecord(id: string): Promise<OperationRecord | undefined>;
+  exportOperationRecords(filter: OperationRecordFilter, limit: number): Promise<OperationRecord[]>;
+  pruneOperationRecords(before: Date): Promise<number>;
+
+  createNotification(data: InsertNotification): Promise<Notification>;
+  updateNotification(id: string, data: Partial<Omit<Notification, "id" | "createdAt">>): Promise<Notification | undefined>;
+  findRecentNotification(dedupeKey: string, since: Date): Promise<Notification | undefined>;
+  getHeldNotifications(): Promise<Notification[]>;
+  getUndigestedNotifications(createdBefore: Date): Promise<Notification[]>;
+  markNotificationsDigested(ids: string[], digestedAt: Date): Promise<void>;
+  pruneNotifications(before: Date): Promise<number>;
+  getInAppNotifications(limit?: number): Promise<Notification[]>;
+  countUnreadNotifications(userId: string): Promise<number>;
+  markNotificationRead(id: string, userId: string): Promise<Notification | undefined>;
+  markAllNotificationsRead(userId: string): Promise<number>;
+
+  getWebhookSubscriptions(): Promise<WebhookSubscription[]>;
+  getWebhookSubscription(id: string): Promise<WebhookSubscription | undefined>;
+  createWebhookSubscription(data: InsertWebhookSubscription & { secret: string }): Promise<WebhookSubscription>;
+  updateWebhookSubscription(id: string, data: Partial<InsertWebhookSubscription> & { secret?: string }): Promise<WebhookSubscription | undefined>;
+  deleteWebhookSubscription(id: string): Promise<void>;
+  getWebhookDeliveries(filter: { limit: number; subscriptionId?: string; status?: WebhookDeliveryStatus }): Promise<WebhookDelivery[]>;
+  getWebhookDelivery(id: string): Promise<WebhookDelivery | undefined>;
+  getDueWebhookDeliveries(now: Date, stalePendingBefore: Date, limit: number): Promise<WebhookDelivery[]>;
+  createWebhookDelivery(data: InsertWebhookDelivery): Promise<WebhookDelivery>;
+  updateWebhookDelivery(id: string, data: Partial<Omit<WebhookDelivery, "id" | "createdAt">>): Promise<WebhookDelivery | undefined>;
+  pruneWebhookDeliveries(before: Date): Promise<number>;
+
+  createSecurityEvent(data: InsertSecurityEvent): Promise<SecurityEvent>;
+  getSecurityEvents(filter: { limit: number; type?: SecurityEventType; severity?: SecuritySeverity }): Promise<SecurityEvent[]>;
+  getSecurityEventCounts(since: Date): Promise<Array<{ type: SecurityEventType; severity: SecuritySeverity; blocked: boolean; count: number }>>;
+  pruneSecurityEvents(before: Date): Promise<number>;
+  getSecurityPolicies(): Promise<SecurityPolicy[]>;
+  upsertSecurityPolicy(key: SecurityPolicyKey, data: Required<UpdateSecurityPolicy>): Promise<SecurityPolicy>;
+  getBlockedIps(): Promise<BlockedIp[]>;
+  upsertBlockedIp(data: InsertBlockedIp): Promise<BlockedIp>;
+  deleteBlockedIp(id: string): Promise<BlockedIp | undefined>;
+  deleteExpiredBlockedIps(): Promise<BlockedIp[]>;
+
   getReplitProjects(): Promise<ReplitProject[]>;
   getReplitProject(id: string): Promise<ReplitProject | undefined>;
   getReplitProjectByReplitId(replitId: string): Promise<ReplitProject | undefined>;
@@ -191,10 +352,10 @@ export interface IStorage {
   getLatestProjectEvaluation(): Promise<ProjectEvaluation | undefined>;
   createProjectEvaluation(data: InsertProjectEvaluation): Promise<ProjectEvaluation>;
 
-  getOmiTodos(status?: string): Promise<OmiTodo[]>;
-  createOmiTodo(data: InsertOmiTodo): Promise<OmiTodo>;
-  updateOmiTodo(id: string, data: Partial<InsertOmiTodo>): Promise<OmiTodo | undefined>;
-  deleteOmiTodo(id: string): Promise<void>;
+  getOmiTodos(userId: string, status?: string): Promise<OmiTodo[]>;
+  createOmiTodo(userId: string, data: InsertOmiTodo): Promise<OmiTodo>;
+  updateOmiTodo(userId: string, id: string, data: Partial<InsertOmiTodo>): Promise<OmiTodo | undefined>;
+  deleteOmiTodo(userId: string, id: string): Promise<boolean>;
 
   getOmiSops(): Promise<OmiSop[]>;
   getOmiSop(id: string): Promise<OmiSop | undefined>;
@@ -202,27 +363,29 @@ export interface IStorage {
   updateOmiSop(id: string, data: Partial<InsertOmiSop>): Promise<OmiSop | undefined>;
   deleteOmiSop(id: string): Promise<void>;
 
-  getHealthLogs(): Promise<HealthLog[]>;
-  getHealthLogByDate(date: string): Promise<HealthLog | undefined>;
-  createHealthLog(data: InsertHealthLog): Promise<HealthLog>;
-  updateHealthLog(id: string, data: Partial<InsertHealthLog>): Promise<HealthLog | undefined>;
-
-  getGroceryItems(): Promise<GroceryItem[]>;
-  createGroceryItem(data: InsertGroceryItem): Promise<GroceryItem>;
-  updateGroceryItem(id: string, data: Partial<InsertGroceryItem>): Promise<GroceryItem | undefined>;
-  deleteGroceryItem(id: string): Promise<void>;
-
-  getFinancialTransactions(): Promise<FinancialTransaction[]>;
-  createFinancialTransaction(data: InsertFinancialTransaction): Promise<FinancialTransaction>;
-  deleteFinancialTransaction(id: string): Promise<void>;
-
-  getHabits(): Promise<Habit[]>;
-  createHabit(data: InsertHabit): Promise<Habit>;
-  updateHabit(id: string, data: Partial<InsertHabit>): Promise<Habit | undefined>;
-  deleteHabit(id: string): Promise<void>;
-  getHabitCompletions(habitId?: string): Promise<HabitCompletion[]>;
+  getHealthLogs(userId: string): Promise<HealthLog[]>;
+  getHealthLogByDate(userId: string, date: string): Promise<HealthLog | undefined>;
+  createHealthLog(userId: string, data: InsertHealthLog): Promise<HealthLog>;
+  updateHealthLog(userId: string, id: string, data: Partial<InsertHealthLog>): Promise<HealthLog | undefined>;
+
+  getGroceryItems(userId: string): Promise<GroceryItem[]>;
+  createGroceryItem(userId: string, data: InsertGroceryItem): Promise<GroceryItem>;
+  updateGroceryItem(userId: string, id: string, data: Partial<InsertGroceryItem>): Promise<GroceryItem | undefined>;
+  deleteGroceryItem(userId: string, id: string): Promise<boolean>;
+
+  getFinancialTransactions(userId: string): Promise<FinancialTransaction[]>;
+  createFinancialTransaction(userId: string, data: InsertFinancialTransaction): Promise<FinancialTransaction>;
+  updateFinancialTransaction(userId: string, id: string, data: Partial<InsertFinancialTransaction>): Promise<FinancialTransaction | undefined>;
+  deleteFinancialTransaction(userId: string, id: string): Promise<boolean>;
+
+  getHabits(userId: string): Promise<Habit[]>;
+  getHabit(userId: string, id: string): Promise<Habit | undefined>;
+  createHabit(userId: string, data: InsertHabit): Promise<Habit>;
+  updateHabit(userId: string, id: string, data: Partial<InsertHabit>): Promise<Habit | undefined>;
+  deleteHabit(userId: string, id: string): Promise<boolean>;
+  getHabitCompletions(userId: string, habitId?: string): Promise<HabitCompletion[]>;
   createHabitCompletion(data: InsertHabitCompletion): Promise<HabitCompletion>;
-  deleteHabitCompletion(id: string): Promise<void>;
+  deleteHabitCompletion(userId: string, id: string): Promise<boolean>;
 
   getMeetingPreps(): Promise<MeetingPrep[]>;
   getMeetingPrep(id: string): Promise<MeetingPrep | undefined>;
@@ -230,13 +393,14 @@ export interface IStorage {
   updateMeetingPrep(id: string, data: Partial<InsertMeetingPrep>): Promise<MeetingPrep | undefined>;
   deleteMeetingPrep(id: string): Promise<void>;
 
-  getFocusSessions(): Promise<FocusSession[]>;
-  createFocusSession(data: InsertFocusSession): Promise<FocusSession>;
+  getFocusSessions(userId: string): Promise<FocusSession[]>;
+  createFocusSession(userId: string, data: InsertFocusSession): Promise<FocusSession>;
 
-  getLifeEvents(): Promise<LifeEvent[]>;
-  createLifeEvent(data: InsertLifeEvent): Promise<LifeEvent>;
-  updateLifeEvent(id: string, data: Partial<InsertLifeEvent>): Promise<LifeEvent | undefined>;
-  deleteLifeEvent(id: string): Promise<void>;
+  getLifeEvents(userId: string): Promise<LifeEvent[]>;
+  createLifeEvent(userId: string, data: InsertLifeEvent): Promise<LifeEvent>;
+  updateLifeEvent(userId: string, id: string, data: Partial<InsertLifeEvent>): Promise<LifeEvent | undefined>;
+  deleteLifeEvent(userId: string, id: string): Promise<boolean>;
+  claimUnownedPersonalData(userId: string): Promise<number>;
 
   getConnectedDevices(): Promise<ConnectedDevice[]>;
   getConnectedDevice(id: string): Promise<ConnectedDevice | undefined>;
@@ -325,11 +489,15 @@ export class DatabaseStorage implements IStorage {
     return key;
   }
 
-  async createApiKey(apiKey: InsertApiKey): Promise<ApiKey> {
-    const key = `oc_${randomUUID().replace(/-/g, "")}`;
+  async getApiKeyByHash(keyHash: string): Promise<ApiKey | undefined> {
+    const [key] = await db.select().from(apiKeys).where(eq(apiKeys.keyHash, keyHash));
+    return key;
+  }
+
+  async createApiKey(apiKey: InsertApiKey, keyHash: string, keyPrefix: string): Promise<ApiKey> {
     const [created] = await db
       .insert(apiKeys)
-      .values({ ...apiKey, key })
+      .values({ ...apiKey, keyHash, keyPrefix })
       .returning();
     return created;
   }
@@ -343,53 +511,59 @@ export class DatabaseStorage implements IStorage {
     return updated;
   }
 
+  async recordApiKeyUse(id: string, ip: string | null): Promise<void> {
+    await db.update(apiKeys).set({ lastUsed: new Date(), lastUsedIp: ip }).where(eq(apiKeys.id, id));
+  }
+
   async deleteApiKey(id: string): Promise<void> {
     await db.delete(apiKeys).where(eq(apiKeys.id, id));
   }
 
   async getInstances(): Promise<OpenclawInstance[]> {
-    return db.select().from(openclawInstances);
+    const instances = await db.select().from(openclawInstances);
+    return instances.map(decryptInstance);
   }
 
   async getInstance(id: string): Promise<OpenclawInstance | undefined> {
     const [instance] = await db.select().from(openclawInstances).where(eq(openclawInstances.id, id));
-    return instance;
+    return instance && decryptInstance(instance);
   }
 
   async getDefaultInstance(): Promise<OpenclawInstance | undefined> {
     const [instance] = await db.select().from(openclawInstances).where(eq(openclawInstances.isDefault, true));
-    return instance;
+    return instance && decryptInstance(instance);
   }
 
   async getInstanceByApiKey(apiKey: string): Promise<OpenclawInstance | undefined> {
-    const [instance] = await db.select().from(openclawInstances).where(eq(openclawInstances.apiKey, apiKey));
-    return instance;
+    const [instance] = await db.select().from(openclawInstances).where(eq(openclawInstances.apiKeyHash, secretLookupHash(apiKey)));
+    return instance && decryptInstance(instance);
   }
 
   async createInstance(data: InsertInstance): Promise<OpenclawInstance> {
-    const [created] = await db.insert(openclawInstances).values(data).returning();
-    return created;
+    const [created] = await db.insert(openclawInstances).values(encryptInstanceFields(data)).returning();
+    return decryptInstance(created);
   }
 
   async updateInstance(id: string, data: Partial<InsertInstance>): Promise<OpenclawInstance | undefined> {
     const [updated] = await db
       .update(openclawInstances)
-      .set({ ...data, updatedAt: new Date() })
+      .set({ ...encryptInstanceFields(data), updatedAt: new Date() })
       .where(eq(openclawInstances.id, id))
       .returning();
-    return updated;
+    return updated && decryptInstance(updated);
   }
 
   async deleteInstance(id: string): Promise<void> {
     await db.delete(openclawConfig).where(eq(openclawConfig.instanceId, id));
     await db.delete(vpsConnections).where(eq(vpsConnections.instanceId, id));
+    await db.delete(vpsSecurityBaselines).where(eq(vpsSecurityBaselines.instanceId, id));
     await db.delete(dockerServices).where(eq(dockerServices.instanceId, id));
     await db.delete(openclawInstances).where(eq(openclawInstances.id, id));
   }
 
   async getVpsConnection(instanceId: string): Promise<VpsConnection | undefined> {
     const [vps] = await db.select().from(vpsConnections).where(eq(vpsConnections.instanceId, instanceId));
-    return vps;
+    return vps ? decryptVpsConnection(vps) : undefined;
   }
 
   async upsertVpsConnection(instanceId: string, data: Partial<InsertVpsConnection>): Promise<VpsConnection> {
@@ -400,13 +574,13 @@ export class DatabaseStorage implements IStorage {
         .set({ ...data, updatedAt: new Date() })
         .where(eq(vpsConnections.id, existing.id))
         .returning();
-      return updated;
+      return decryptVpsConnection(updated);
     }
     const [created] = await db
       .insert(vpsConnections)
       .values({ ...data, instanceId } as InsertVpsConnection)
       .returning();
-    return created;
+    return decryptVpsConnection(created);
   }
 
   async updateVpsConnectionStatus(id: string, isConnected: boolean): Promise<VpsConnection | undefined> {
@@ -415,7 +589,25 @@ export class DatabaseStorage implements IStorage {
       .set({ isConnected, lastChecked: new Date(), updatedAt: new Date() })
       .where(eq(vpsConnections.id, id))
       .returning();
-    return updated;
+    return updated ? decryptVpsConnection(updated) : undefined;
+  }
+
+  async updateVpsCredentials(id: string, data: Partial<VpsCredentials>): Promise<VpsConnection | undefined> {
+    const [updated] = await db
+      .update(vpsConnections)
+      .set({ ...encryptVpsCredentials(data), updatedAt: new Date() })
+      .where(eq(vpsConnections.id, id))
+      .returning();
+    return updated ? decryptVpsConnection(updated) : undefined;
+  }
+
+  async pinVpsHostKey(id: string, fingerprint: string): Promise<VpsConnection | undefined> {
+    const [pinned] = await db
+      .update(vpsConnections)
+      .set({ hostKeyFingerprint: fingerprint, hostKeyPinnedAt: new Date() })
+      .where(and(eq(vpsConnections.id, id), isNull(vpsConnections.hostKeyFingerprint)))
+      .returning();
+    return pinned ? decryptVpsConnection(pinned) : undefined;
   }
 
   async getDockerServices(instanceId: string): Promise<DockerService[]> {
@@ -452,7 +644,7 @@ export class DatabaseStorage implements IStorage {
 
   async getOpenclawConfig(instanceId: string): Promise<OpenclawConfig | undefined> {
     const [config] = await db.select().from(openclawConfig).where(eq(openclawConfig.instanceId, instanceId));
-    return config;
+    return config && decryptConfig(config);
   }
 
   async upsertOpenclawConfig(instanceId: string, data: Partial<InsertOpenclawConfig>): Promise<OpenclawConfig> {
@@ -460,34 +652,96 @@ export class DatabaseStorage implements IStorage {
     if (existing) {
       const [updated] = await db
         .update(openclawConfig)
-        .set({ ...data, updatedAt: new Date() })
+        .set({ ...encryptConfigFields(data), updatedAt: new Date() })
         .where(eq(openclawConfig.id, existing.id))
         .returning();
-      return updated;
+      return decryptConfig(updated);
     }
     const [created] = await db
       .insert(openclawConfig)
-      .values({ ...data, instanceId } as InsertOpenclawConfig)
+      .values({ ...encryptConfigFields(data), instanceId } as InsertOpenclawConfig)
       .returning();
-    return created;
+    return decryptConfig(created);
   }
 
   async getLlmApiKeys(): Promise<LlmApiKey[]> {
-    return db.select().from(llmApiKeys);
+    const keys = await db.select().from(llmApiKeys);
+    return keys.map(decryptLlmApiKey);
   }
 
   async createLlmApiKey(data: InsertLlmApiKey): Promise<LlmApiKey> {
-    const [created] = await db.insert(llmApiKeys).values(data).returning();
-    return created;
+    const [created] = await db.insert(llmApiKeys).values({ ...data, apiKey: encryptSecret(data.apiKey) }).returning();
+    return decryptLlmApiKey(created);
   }
 
   async updateLlmApiKey(id: string, data: Partial<InsertLlmApiKey>): Promise<LlmApiKey | undefined> {
     const [updated] = await db
       .update(llmApiKeys)
-      .set(data)
+      .set(data.apiKey !== undefined ? { ...data, apiKey: encryptSecret(data.apiKey) } : data)
       .where(eq(llmApiKeys.id, id))
       .returning();
-    return updated;
+    return updated && decryptLlmApiKey(updated);
+  }
+
+  async reencryptSecrets(): Promise<Record<string, number>> {
+    const counts: Record<string, number> = {};
+
+    for (const row of await db.select().from(openclawInstances)) {
+      if (!needsReencryption(row.apiKey) && (row.apiKeyHash || !row.apiKey)) continue;
+      const apiKey = decryptSecret(row.apiKey);
+      await db.update(openclawInstances)
+        .set({ apiKey: encryptSecret(apiKey), apiKeyHash: apiKey ? secretLookupHash(apiKey) : null })
+        .where(eq(openclawInstances.id, row.id));
+      counts.openclaw_instances = (counts.openclaw_instances || 0) + 1;
+    }
+
+    for (const row of await db.select().from(openclawConfig)) {
+      if (!needsReencryption(row.gatewayToken) && !needsReencryption(row.gatewayPassword)) continue;
+      await db.update(openclawConfig)
+        .set({ gatewayToken: reencryptSecret(row.gatewayToken), gatewayPassword: reencryptSecret(row.gatewayPassword) })
+        .where(eq(openclawConfig.id, row.id));
+      counts.openclaw_config = (counts.openclaw_config || 0) + 1;
+    }
+
+    for (const row of await db.select().from(llmApiKeys)) {
+      if (!needsReencryption(row.apiKey)) continue;
+      await db.update(llmApiKeys).set({ apiKey: reencryptSecret(row.apiKey) }).where(eq(llmApiKeys.id, row.id));
+      counts.llm_api_keys = (counts.llm_api_keys || 0) + 1;
+    }
+
+    for (const row of await db.select({ id: waAuthState.id, value: waAuthState.value }).from(waAuthState)) {
+      if (!needsReencryption(row.value)) continue;
+      await db.update(waAuthState).set({ value: reencryptSecret(row.value) }).where(eq(waAuthState.id, row.id));
+      counts.wa_auth_state = (counts.wa_auth_state || 0) + 1;
+    }
+
+    for (const row of await db.select().from(vpsConnections)) {
+      if (!needsReencryption(row.sshPrivateKey) && !needsReencryption(row.sshPassword)) continue;
+      await db.update(vpsConnections)
+        .set({ sshPrivateKey: reencryptSecret(row.sshPrivateKey), sshPassword: reencryptSecret(row.sshPassword) })
+        .where(eq(vpsConnections.id, row.id));
+      counts.vps_connections = (counts.vps_connections || 0) + 1;
+    }
+
+    for (const row of await db.select().from(secretRotations)) {
+      if (!needsReencryption(row.managedValue)) continue;
+      await db.update(secretRotations).set({ managedValue: reencryptSecret(row.managedValue) }).where(eq(secretRotations.id, row.id));
+      counts.secret_rotations = (counts.secret_rotations || 0) + 1;
+    }
+
+    for (const row of await db.select().from(openclawConfigVersions)) {
+      if (!needsReencryption(row.content)) continue;
+      await db.update(openclawConfigVersions).set({ content: reencryptSecret(row.content) }).where(eq(openclawConfigVersions.id, row.id));
+      counts.openclaw_config_versions = (counts.openclaw_config_versions || 0) + 1;
+    }
+
+    for (const row of await db.select().from(webhookSubscriptions)) {
+      if (!needsReencryption(row.secret)) continue;
+      await db.update(webhookSubscriptions).set({ secret: reencryptSecret(row.secret) }).where(eq(webhookSubscriptions.id, row.id));
+      counts.webhook_subscriptions = (counts.webhook_subscriptions || 0) + 1;
+    }
+
+    return counts;
   }
 
   async deleteLlmApiKey(id: string): Promise<void> {
@@ -537,7 +791,8 @@ export class DatabaseStorage implements IStorage {
       return updated;
     }
     const [created] = await db.insert(users).values(data).returning();
-    return created;
+    await this.ensureOwner();
+    return (await this.getUser(created.id)) ?? created;
   }
 
   async getUser(id: string): Promise<User | undefined> {
@@ -549,6 +804,23 @@ export class DatabaseStorage implements IStorage {
     return db.select().from(users);
   }
 
+  async updateUserRole(id: string, role: string): Promise<User | undefined> {
+    const [updated] = await db.update(users).set({ role }).where(eq(users.id, id)).returning();
+    return updated;
+  }
+
+  // The earliest user becomes owner when nobody holds the role, e.g. right after the role column is added.
+  async getOwnerUser(): Promise<User | undefined> {
+    const [owner] = await db.select().from(users).where(eq(users.role, "owner")).orderBy(users.createdAt).limit(1);
+    return owner;
+  }
+
+  async ensureOwner(): Promise<void> {
+    if (await this.getOwnerUser()) return;
+    const [first] = await db.select().from(users).orderBy(users.createdAt).limit(1);
+    if (first) await this.updateUserRole(first.id, "owner");
+  }
+
   async getWhatsappSessionByPhone(phone: string): Promise<WhatsappSession | undefined> {
     const [session] = await db.select().from(whatsappSessions).where(eq(whatsappSessions.phone, phone));
     return session;
@@ -691,6 +963,67 @@ export class DatabaseStorage implements IStorage {
     return created;
   }
 
+  async getVpsSecurityBaseline(instanceId: string): Promise<VpsSecurityBaseline | undefined> {
+    const [baseline] = await db.select().from(vpsSecurityBaselines).where(eq(vpsSecurityBaselines.instanceId, instanceId));
+    return baseline;
+  }
+
+  async upsertVpsSecurityBaseline(instanceId: string, data: Partial<Omit<VpsSecurityBaseline, "id" | "instanceId" | "createdAt" | "updatedAt">>): Promise<VpsSecurityBaseline> {
+    const [baseline] = await db
+      .insert(vpsSecurityBaselines)
+      .values({ ...data, instanceId })
+      .onConflictDoUpdate({ target: vpsSecurityBaselines.instanceId, set: { ...data, updatedAt: new Date() } })
+      .returning();
+    return baseline;
+  }
+
+  async getSecretRotations(): Promise<SecretRotation[]> {
+    const rows = await db.select().from(secretRotations);
+    return rows.map(row => ({ ...row, managedValue: decryptSecret(row.managedValue) }));
+  }
+
+  async getSecretRotation(secretKey: string): Promise<SecretRotation | undefined> {
+    const [row] = await db.select().from(secretRotations).where(eq(secretRotations.secretKey, secretKey));
+    return row ? { ...row, managedValue: decryptSecret(row.managedValue) } : undefined;
+  }
+
+  async upsertSecretRotation(secretKey: string, data: Partial<Omit<SecretRotation, "id" | "secretKey" | "createdAt" | "updatedAt">>): Promise<SecretRotation> {
+    const values = data.managedValue !== undefined ? { ...data, managedValue: encryptSecret(data.managedValue) } : data;
+    const [row] = await db
+      .insert(secretRotations)
+      .values({ ...values, secretKey })
+      .onConflictDoUpdate({ target: secretRotations.secretKey, set: { ...values, updatedAt: new Date() } })
+      .returning();
+    return { ...row, managedValue: decryptSecret(row.managedValue) };
+  }
+
+  async deleteSecretRotation(secretKey: string): Promise<void> {
+    await db.delete(secretRotations).where(eq(secretRotations.secretKey, secretKey));
+  }
+
+  async getOpenclawConfigVersions(instanceId: string, file: OpenclawConfigFile, limit = 50): Promise<OpenclawConfigVersion[]> {
+    const rows = await db.select().from(openclawConfigVersions)
+      .where(and(eq(openclawConfigVersions.instanceId, instanceId), eq(openclawConfigVersions.file, file)))
+      .orderBy(desc(openclawConfigVersions.createdAt))
+      .limit(limit);
+    return rows.map(row => ({ ...row, content: decryptSecret(row.content) }));
+  }
+
+  async getOpenclawConfigVersion(id: string): Promise<OpenclawConfigVersion | undefined> {
+    const [row] = await db.select().from(openclawConfigVersions).where(eq(openclawConfigVersions.id, id));
+    return row ? { ...row, content: decryptSecret(row.content) } : undefined;
+  }
+
+  async getLatestOpenclawConfigVersion(instanceId: string, file: OpenclawConfigFile): Promise<OpenclawConfigVersion | undefined> {
+    const [row] = await this.getOpenclawConfigVersions(instanceId, file, 1);
+    return row;
+  }
+
+  async createOpenclawConfigVersion(data: InsertOpenclawConfigVersion): Promise<OpenclawConfigVersion> {
+    const [row] = await db.insert(openclawConfigVersions).values({ ...data, content: encryptSecret(data.content) }).returning();
+    return { ...row, content: decryptSecret(row.content) };
+  }
+
   async getNodeSetupSessions(instanceId: string): Promise<NodeSetupSession[]> {
     return db.select().from(nodeSetupSessions)
       .where(eq(nodeSetupSessions.instanceId, instanceId))
@@ -834,7 +1167,7 @@ export class DatabaseStorage implements IStorage {
     return job;
   }
 
-  async updateAutomationJob(id: string, data: Partial<InsertAutomationJob> & { lastRun?: Date; nextRun?: Date }): Promise<AutomationJob | undefined> {
+  async updateAutomationJob(id: string, data: Partial<InsertAutomationJob> & { lastRun?: Date; nextRun?: Date | null; lastStatus?: string }): Promise<AutomationJob | undefined> {
     const [job] = await db.update(automationJobs).set(data).where(eq(automationJobs.id, id)).returning();
     return job;
   }
@@ -858,11 +1191,34 @@ export class DatabaseStorage implements IStorage {
     return run;
   }
 
-  async updateAutomationRun(id: string, data: Partial<InsertAutomationRun> & { completedAt?: Date }): Promise<AutomationRun | undefined> {
+  async updateAutomationRun(id: string, data: Partial<InsertAutomationRun> & { startedAt?: Date; completedAt?: Date }): Promise<AutomationRun | undefined> {
     const [run] = await db.update(automationRuns).set(data).where(eq(automationRuns.id, id)).returning();
     return run;
   }
 
+  async getMachineGroups(): Promise<MachineGroup[]> {
+    return db.select().from(machineGroups).orderBy(machineGroups.name);
+  }
+
+  async getMachineGroup(id: string): Promise<MachineGroup | undefined> {
+    const [group] = await db.select().from(machineGroups).where(eq(machineGroups.id, id));
+    return group;
+  }
+
+  async createMachineGroup(data: InsertMachineGroup): Promise<MachineGroup> {
+    const [group] = await db.insert(machineGroups).values(data).returning();
+    return group;
+  }
+
+  async updateMachineGroup(id: string, data: Partial<InsertMachineGroup>): Promise<MachineGroup | undefined> {
+    const [group] = await db.update(machineGroups).set(data).where(eq(machineGroups.id, id)).returning();
+    return group;
+  }
+
+  async deleteMachineGroup(id: string): Promise<void> {
+    await db.delete(machineGroups).where(eq(machineGroups.id, id));
+  }
+
   async getMetricsEvents(category?: string, limit = 500): Promise<MetricsEvent[]> {
     if (category) {
       return db.select().from(metricsEvents).where(eq(metricsEvents.category, category)).orderBy(desc(metricsEvents.createdAt)).limit(limit);
@@ -895,9 +1251,38 @@ export class DatabaseStorage implements IStorage {
   }
 
   async deleteEmailWorkflow(id: string): Promise<void> {
+    await db.delete(emailWorkflowMatches).where(eq(emailWorkflowMatches.workflowId, id));
     await db.delete(emailWorkflows).where(eq(emailWorkflows.id, id));
   }
 
+  async recordEmailWorkflowTrigger(id: string): Promise<void> {
+    await db.update(emailWorkflows)
+      .set({ triggerCount: sql`${emailWorkflows.triggerCount} + 1`, lastTriggered: new Date() })
+      .where(eq(emailWorkflows.id, id));
+  }
+
+  async claimEmailWorkflowMatch(data: InsertEmailWorkflowMatch): Promise<EmailWorkflowMatch | undefined> {
+    const [match] = await db.insert(emailWorkflowMatches).values(data).onConflictDoNothing({ target: emailWorkflowMatches.dedupeKey }).returning();
+    return match;
+  }
+
+  async updateEmailWorkflowMatch(id: string, data: Partial<InsertEmailWorkflowMatch>): Promise<EmailWorkflowMatch | undefined> {
+    const [match] = await db.update(emailWorkflowMatches).set(data).where(eq(emailWorkflowMatches.id, id)).returning();
+    return match;
+  }
+
+  async getEmailWorkflowMatchByKey(dedupeKey: string): Promise<EmailWorkflowMatch | undefined> {
+    const [match] = await db.select().from(emailWorkflowMatches).where(eq(emailWorkflowMatches.dedupeKey, dedupeKey));
+    return match;
+  }
+
+  async getEmailWorkflowMatches(workflowId?: string, limit = 50): Promise<EmailWorkflowMatch[]> {
+    if (workflowId) {
+      return db.select().from(emailWorkflowMatches).where(eq(emailWorkflowMatches.workflowId, workflowId)).orderBy(desc(emailWorkflowMatches.createdAt)).limit(limit);
+    }
+    return db.select().from(emailWorkflowMatches).orderBy(desc(emailWorkflowMatches.createdAt)).limit(limit);
+  }
+
   async getAuditLogs(page: number, limit: number, actionType?: string): Promise<AuditLog[]> {
     const offset = (page - 1) * limit;
     if (actionType) {
@@ -927,6 +1312,249 @@ export class DatabaseStorage implements IStorage {
     return log;
   }
 
+  async createOperationRecord(data: InsertOperationRecord): Promise<OperationRecord> {
+    const [record] = await db.insert(operationRecords).values(data).returning();
+    return record;
+  }
+
+  async getOperationRecords(filter: OperationRecordFilter, page: number, limit: number): Promise<OperationRecordSummary[]> {
+    const { stdout, stderr, input, transcript, ...summaryColumns } = getTableColumns(operationRecords);
+    return db.select(summaryColumns).from(operationRecords)
+      .where(operationRecordConditions(filter))
+      .orderBy(desc(operationRecords.startedAt))
+      .limit(limit)
+      .offset((page - 1) * limit);
+  }
+
+  async getOperationRecordCount(filter: OperationRecordFilter): Promise<number> {
+    const result = await db.select({ count: sql<number>`count(*)::int` }).from(operationRecords).where(operationRecordConditions(filter));
+    return result[0]?.count ?? 0;
+  }
+
+  async getOperationRecord(id: string): Promise<OperationRecord | undefined> {
+    const [record] = await db.select().from(operationRecords).where(eq(operationRecords.id, id));
+    return record;
+  }
+
+  async exportOperationRecords(filter: OperationRecordFilter, limit: number): Promise<OperationRecord[]> {
+    return db.select().from(operationRecords)
+      .where(operationRecordConditions(filter))
+      .orderBy(desc(operationRecords.startedAt))
+      .limit(limit);
+  }
+
+  async pruneOperationRecords(before: Date): Promise<number> {
+    const deleted = await db.delete(operationRecords).where(lt(operationRecords.startedAt, before)).returning({ id: operationRecords.id });
+    return deleted.length;
+  }
+
+  async createNotification(data: InsertNotification): Promise<Notification> {
+    const [notification] = await db.insert(notifications).values(data).returning();
+    return notification;
+  }
+
+  async updateNotification(id: string, data: Partial<Omit<Notification, "id" | "createdAt">>): Promise<Notification | undefined> {
+    const [notification] = await db.update(notifications).set({ ...data, updatedAt: new Date() }).where(eq(notifications.id, id)).returning();
+    return notification;
+  }
+
+  async findRecentNotification(dedupeKey: string, since: Date): Promise<Notification | undefined> {
+    const [notification] = await db.select().from(notifications)
+      .where(and(eq(notifications.dedupeKey, dedupeKey), gte(notifications.updatedAt, since)))
+      .orderBy(desc(notifications.updatedAt))
+      .limit(1);
+    return notification;
+  }
+
+  async getHeldNotifications(): Promise<Notification[]> {
+    return db.select().from(notifications).where(eq(notifications.held, true)).orderBy(notifications.createdAt);
+  }
+
+  async getUndigestedNotifications(createdBefore: Date): Promise<Notification[]> {
+    return db.select().from(notifications)
+      .where(and(isNull(notifications.digestedAt), lt(notifications.createdAt, createdBefore)))
+      .orderBy(notifications.createdAt);
+  }
+
+  async markNotificationsDigested(ids: string[], digestedAt: Date): Promise<void> {
+    if (ids.length === 0) return;
+    await db.update(notifications).set({ digestedAt }).where(inArray(notifications.id, ids));
+  }
+
+  async pruneNotifications(before: Date): Promise<number> {
+    const deleted = await db.delete(notifications).where(lt(notifications.createdAt, before)).returning({ id: notifications.id });
+    return deleted.length;
+  }
+
+  async getInAppNotifications(limit = 50): Promise<Notification[]> {
+    return db.select().from(notifications)
+      .where(eq(notifications.inApp, true))
+      .orderBy(desc(notifications.updatedAt))
+      .limit(limit);
+  }
+
+  async countUnreadNotifications(userId: string): Promise<number> {
+    const [result] = await db.select({ count: sql<number>`count(*)::int` }).from(notifications)
+      .where(and(eq(notifications.inApp, true), notificationUnreadBy(userId)));
+    return result?.count ?? 0;
+  }
+
+  async markNotificationRead(id: string, userId: string): Promise<Notification | undefined> {
+    const reader = JSON.stringify([userId]);
+    const [notification] = await db.update(notifications)
+      .set({ readBy: sql`CASE WHEN ${notifications.readBy} @> ${reader}::jsonb THEN ${notifications.readBy} ELSE ${notifications.readBy} || ${reader}::jsonb END` })
+      .where(eq(notifications.id, id))
+      .returning();
+    return notification;
+  }
+
+  async markAllNotificationsRead(userId: string): Promise<number> {
+    const updated = await db.update(notifications)
+      .set({ readBy: sql`${notifications.readBy} || ${JSON.stringify([userId])}::jsonb` })
+      .where(and(eq(notifications.inApp, true), notificationUnreadBy(userId)))
+      .returning({ id: notifications.id });
+    return updated.length;
+  }
+
+  async getWebhookSubscriptions(): Promise<WebhookSubscription[]> {
+    const rows = await db.select().from(webhookSubscriptions).orderBy(webhookSubscriptions.createdAt);
+    return rows.map(row => ({ ...row, secret: decryptSecret(row.secret) }));
+  }
+
+  async getWebhookSubscription(id: string): Promise<WebhookSubscription | undefined> {
+    const [row] = await db.select().from(webhookSubscriptions).where(eq(webhookSubscriptions.id, id));
+    return row ? { ...row, secret: decryptSecret(row.secret) } : undefined;
+  }
+
+  async createWebhookSubscription(data: InsertWebhookSubscription & { secret: string }): Promise<WebhookSubscription> {
+    const [row] = await db.insert(webhookSubscriptions).values({ ...data, secret: encryptSecret(data.secret) }).returning();
+    return { ...row, secret: decryptSecret(row.secret) };
+  }
+
+  async updateWebhookSubscription(id: string, data: Partial<InsertWebhookSubscription> & { secret?: string }): Promise<WebhookSubscription | undefined> {
+    const values = data.secret !== undefined ? { ...data, secret: encryptSecret(data.secret) } : data;
+    const [row] = await db.update(webhookSubscriptions).set({ ...values, updatedAt: new Date() }).where(eq(webhookSubscriptions.id, id)).returning();
+    return row ? { ...row, secret: decryptSecret(row.secret) } : undefined;
+  }
+
+  async deleteWebhookSubscription(id: string): Promise<void> {
+    await db.delete(webhookDeliveries).where(eq(webhookDeliveries.subscriptionId, id));
+    await db.delete(webhookSubscriptions).where(eq(webhookSubscriptions.id, id));
+  }
+
+  async getWebhookDeliveries(filter: { limit: number; subscriptionId?: string; status?: WebhookDeliveryStatus }): Promise<WebhookDelivery[]> {
+    const conditions = [
+      filter.subscriptionId ? eq(webhookDeliveries.subscriptionId, filter.subscriptionId) : undefined,
+      filter.status ? eq(webhookDeliveries.status, filter.status) : undefined,
+    ].filter((c): c is SQL => !!c);
+    return db.select().from(webhookDeliveries)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(webhookDeliveries.createdAt))
+      .limit(filter.limit);
+  }
+
+  async getWebhookDelivery(id: string): Promise<WebhookDelivery | undefined> {
+    const [delivery] = await db.select().from(webhookDeliveries).where(eq(webhookDeliveries.id, id));
+    return delivery;
+  }
+
+  async getDueWebhookDeliveries(now: Date, stalePendingBefore: Date, limit: number): Promise<WebhookDelivery[]> {
+    return db.select().from(webhookDeliveries)
+      .where(or(
+        and(eq(webhookDeliveries.status, "retrying"), lte(webhookDeliveries.nextAttemptAt, now)),
+        and(eq(webhookDeliveries.status, "pending"), lt(webhookDeliveries.createdAt, stalePendingBefore)),
+      ))
+      .orderBy(webhookDeliveries.createdAt)
+      .limit(limit);
+  }
+
+  async createWebhookDelivery(data: InsertWebhookDelivery): Promise<WebhookDelivery> {
+    const [delivery] = await db.insert(webhookDeliveries).values(data).returning();
+    return delivery;
+  }
+
+  async updateWebhookDelivery(id: string, data: Partial<Omit<WebhookDelivery, "id" | "createdAt">>): Promise<WebhookDelivery | undefined> {
+    const [delivery] = await db.update(webhookDeliveries).set(data).where(eq(webhookDeliveries.id, id)).returning();
+    return delivery;
+  }
+
+  async pruneWebhookDeliveries(before: Date): Promise<number> {
+    const deleted = await db.delete(webhookDeliveries).where(lt(webhookDeliveries.createdAt, before)).returning({ id: webhookDeliveries.id });
+    return deleted.length;
+  }
+
+  async createSecurityEvent(data: InsertSecurityEvent): Promise<SecurityEvent> {
+    const [event] = await db.insert(securityEvents).values(data).returning();
+    return event;
+  }
+
+  async getSecurityEvents(filter: { limit: number; type?: SecurityEventType; severity?: SecuritySeverity }): Promise<SecurityEvent[]> {
+    const conditions = [
+      filter.type ? eq(securityEvents.type, filter.type) : undefined,
+      filter.severity ? eq(securityEvents.severity, filter.severity) : undefined,
+    ].filter((c): c is SQL => !!c);
+    return db.select().from(securityEvents)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(securityEvents.createdAt))
+      .limit(filter.limit);
+  }
+
+  async getSecurityEventCounts(since: Date): Promise<Array<{ type: SecurityEventType; severity: SecuritySeverity; blocked: boolean; count: number }>> {
+    return db
+      .select({
+        type: securityEvents.type,
+        severity: securityEvents.severity,
+        blocked: securityEvents.blocked,
+        count: sql<number>`count(*)::int`,
+      })
+      .from(securityEvents)
+      .where(gte(securityEvents.createdAt, since))
+      .groupBy(securityEvents.type, securityEvents.severity, securityEvents.blocked);
+  }
+
+  async pruneSecurityEvents(before: Date): Promise<number> {
+    const deleted = await db.delete(securityEvents).where(lt(securityEvents.createdAt, before)).returning({ id: securityEvents.id });
+    return deleted.length;
+  }
+
+  async getSecurityPolicies(): Promise<SecurityPolicy[]> {
+    return db.select().from(securityPolicies);
+  }
+
+  async upsertSecurityPolicy(key: SecurityPolicyKey, data: Required<UpdateSecurityPolicy>): Promise<SecurityPolicy> {
+    const [policy] = await db
+      .insert(securityPolicies)
+      .values({ key, ...data })
+      .onConflictDoUpdate({ target: securityPolicies.key, set: { ...data, updatedAt: new Date() } })
+      .returning();
+    return policy;
+  }
+
+  async getBlockedIps(): Promise<BlockedIp[]> {
+    return db.select().from(blockedIps).orderBy(desc(blockedIps.createdAt));
+  }
+
+  async upsertBlockedIp(data: InsertBlockedIp): Promise<BlockedIp> {
+    const [blocked] = await db
+      .insert(blockedIps)
+      .values(data)
+      .onConflictDoUpdate({
+        target: blockedIps.ip,
+        set: { reason: data.reason, source: data.source, expiresAt: data.expiresAt ?? null, createdAt: new Date() },
+      })
+      .returning();
+    return blocked;
+  }
+
+  async deleteBlockedIp(id: string): Promise<BlockedIp | undefined> {
+    const [deleted] = await db.delete(blockedIps).where(eq(blockedIps.id, id)).returning();
+    return deleted;
+  }
+
+  async deleteExpiredBlockedIps(): Promise<BlockedIp[]> {
+    return db.delete(blockedIps).where(lt(blockedIps.expiresAt, new Date())).returning();
+  }
+
   async getReplitProjects(): Promise<ReplitProject[]> {
     return db.select().from(replitProjects).orderBy(desc(replitProjects.updatedAt));
   }
@@ -970,25 +1598,26 @@ export class DatabaseStorage implements IStorage {
     return evaluation;
   }
 
-  async getOmiTodos(status?: string): Promise<OmiTodo[]> {
-    if (status) {
-      return db.select().from(omiTodos).where(eq(omiTodos.status, status)).orderBy(desc(omiTodos.createdAt));
-    }
-    return db.select().from(omiTodos).orderBy(desc(omiTodos.createdAt));
+  async getOmiTodos(userId: string, status?: string): Promise<OmiTodo[]> {
+    const visible = visibleTo(omiTodos, userId);
+    return db.select().from(omiTodos)
+      .where(status ? and(visible, eq(omiTodos.status, status)) : visible)
+      .orderBy(desc(omiTodos.createdAt));
   }
 
-  async createOmiTodo(data: InsertOmiTodo): Promise<OmiTodo> {
-    const [todo] = await db.insert(omiTodos).values(data).returning();
+  async createOmiTodo(userId: string, data: InsertOmiTodo): Promise<OmiTodo> {
+    const [todo] = await db.insert(omiTodos).values({ ...data, userId }).returning();
     return todo;
   }
 
-  async updateOmiTodo(id: string, data: Partial<InsertOmiTodo>): Promise<OmiTodo | undefined> {
-    const [todo] = await db.update(omiTodos).set(data).where(eq(omiTodos.id, id)).returning();
+  async updateOmiTodo(userId: string, id: string, data: Partial<InsertOmiTodo>): Promise<OmiTodo | undefined> {
+    const [todo] = await db.update(omiTodos).set(data).where(and(eq(omiTodos.id, id), editableBy(omiTodos, userId, data))).returning();
     return todo;
   }
 
-  async deleteOmiTodo(id: string): Promise<void> {
-    await db.delete(omiTodos).where(eq(omiTodos.id, id));
+  async deleteOmiTodo(userId: string, id: string): Promise<boolean> {
+    const deleted = await db.delete(omiTodos).where(and(eq(omiTodos.id, id), eq(omiTodos.userId, userId))).returning({ id: omiTodos.id });
+    return deleted.length > 0;
   }
 
   async getOmiSops(): Promise<OmiSop[]> {
@@ -1014,72 +1643,91 @@ export class DatabaseStorage implements IStorage {
     await db.delete(omiSops).where(eq(omiSops.id, id));
   }
 
-  async getHealthLogs(): Promise<HealthLog[]> {
-    return db.select().from(healthLogs).orderBy(desc(healthLogs.date));
+  async getHealthLogs(userId: string): Promise<HealthLog[]> {
+    return db.select().from(healthLogs).where(visibleTo(healthLogs, userId)).orderBy(desc(healthLogs.date));
   }
-  async getHealthLogByDate(date: string): Promise<HealthLog | undefined> {
-    const [log] = await db.select().from(healthLogs).where(eq(healthLogs.date, date));
+  async getHealthLogByDate(userId: string, date: string): Promise<HealthLog | undefined> {
+    const [log] = await db.select().from(healthLogs).where(and(eq(healthLogs.userId, userId), eq(healthLogs.date, date)));
     return log;
   }
-  async createHealthLog(data: InsertHealthLog): Promise<HealthLog> {
-    const [log] = await db.insert(healthLogs).values(data).returning();
+  async createHealthLog(userId: string, data: InsertHealthLog): Promise<HealthLog> {
+    const [log] = await db.insert(healthLogs).values({ ...data, userId }).returning();
     return log;
   }
-  async updateHealthLog(id: string, data: Partial<InsertHealthLog>): Promise<HealthLog | undefined> {
-    const [log] = await db.update(healthLogs).set({ ...data, updatedAt: new Date() }).where(eq(healthLogs.id, id)).returning();
+  async updateHealthLog(userId: string, id: string, data: Partial<InsertHealthLog>): Promise<HealthLog | undefined> {
+    const [log] = await db.update(healthLogs).set({ ...data, updatedAt: new Date() }).where(and(eq(healthLogs.id, id), editableBy(healthLogs, userId, data))).returning();
     return log;
   }
 
-  async getGroceryItems(): Promise<GroceryItem[]> {
-    return db.select().from(groceryItems).orderBy(desc(groceryItems.createdAt));
+  async getGroceryItems(userId: string): Promise<GroceryItem[]> {
+    return db.select().from(groceryItems).where(visibleTo(groceryItems, userId)).orderBy(desc(groceryItems.createdAt));
   }
-  async createGroceryItem(data: InsertGroceryItem): Promise<GroceryItem> {
-    const [item] = await db.insert(groceryItems).values(data).returning();
+  async createGroceryItem(userId: string, data: InsertGroceryItem): Promise<GroceryItem> {
+    const [item] = await db.insert(groceryItems).values({ ...data, userId }).returning();
     return item;
   }
-  async updateGroceryItem(id: string, data: Partial<InsertGroceryItem>): Promise<GroceryItem | undefined> {
-    const [item] = await db.update(groceryItems).set(data).where(eq(groceryItems.id, id)).returning();
+  async updateGroceryItem(userId: string, id: string, data: Partial<InsertGroceryItem>): Promise<GroceryItem | undefined> {
+    const [item] = await db.update(groceryItems).set(data).where(and(eq(groceryItems.id, id), editableBy(groceryItems, userId, data))).returning();
     return item;
   }
-  async deleteGroceryItem(id: string): Promise<void> {
-    await db.delete(groceryItems).where(eq(groceryItems.id, id));
+  async deleteGroceryItem(userId: string, id: string): Promise<boolean> {
+    const deleted = await db.delete(groceryItems).where(and(eq(groceryItems.id, id), eq(groceryItems.userId, userId))).returning({ id: groceryItems.id });
+    return deleted.length > 0;
   }
 
-  async getFinancialTransactions(): Promise<FinancialTransaction[]> {
-    return db.select().from(financialTransactions).orderBy(desc(financialTransactions.date));
+  async getFinancialTransactions(userId: string): Promise<FinancialTransaction[]> {
+    return db.select().from(financialTransactions).where(visibleTo(financialTransactions, userId)).orderBy(desc(financialTransactions.date));
   }
-  async createFinancialTransaction(data: InsertFinancialTransaction): Promise<FinancialTransaction> {
-    const [tx] = await db.insert(financialTransactions).values(data).returning();
+  async createFinancialTransaction(userId: string, data: InsertFinancialTransaction): Promise<FinancialTransaction> {
+    const [tx] = await db.insert(financialTransactions).values({ ...data, userId }).returning();
     return tx;
   }
-  async deleteFinancialTransaction(id: string): Promise<void> {
-    await db.delete(financialTransactions).where(eq(financialTransactions.id, id));
+  async updateFinancialTransaction(userId: string, id: string, data: Partial<InsertFinancialTransaction>): Promise<FinancialTransaction | undefined> {
+    const [tx] = await db.update(financialTransactions).set(data).where(and(eq(financialTransactions.id, id), editableBy(financialTransactions, userId, data))).returning();
+    return tx;
+  }
+  async deleteFinancialTransaction(userId: string, id: string): Promise<boolean> {
+    const deleted = await db.delete(financialTransactions).where(and(eq(financialTransactions.id, id), eq(financialTransactions.userId, userId))).returning({ id: financialTransactions.id });
+    return deleted.length > 0;
   }
 
-  async getHabits(): Promise<Habit[]> {
-    return db.select().from(habits).orderBy(desc(habits.createdAt));
+  async getHabits(userId: string): Promise<Habit[]> {
+    return db.select().from(habits).where(visibleTo(habits, userId)).orderBy(desc(habits.createdAt));
+  }
+  async getHabit(userId: string, id: string): Promise<Habit | undefined> {
+    const [habit] = await db.select().from(habits).where(and(eq(habits.id, id), visibleTo(habits, userId)));
+    return habit;
   }
-  async createHabit(data: InsertHabit): Promise<Habit> {
-    const [habit] = await db.insert(habits).values(data).returning();
+  async createHabit(userId: string, data: InsertHabit): Promise<Habit> {
+    const [habit] = await db.insert(habits).values({ ...data, userId }).returning();
     return habit;
   }
-  async updateHabit(id: string, data: Partial<InsertHabit>): Promise<Habit | undefined> {
-    const [habit] = await db.update(habits).set(data).where(eq(habits.id, id)).returning();
+  async updateHabit(userId: string, id: string, data: Partial<InsertHabit>): Promise<Habit | undefined> {
+    const [habit] = await db.update(habits).set(data).where(and(eq(habits.id, id), editableBy(habits, userId, data))).returning();
     return habit;
   }
-  async deleteHabit(id: string): Promise<void> {
-    await db.delete(habits).where(eq(habits.id, id));
+  async deleteHabit(userId: string, id: string): Promise<boolean> {
+    const deleted = await db.delete(habits).where(and(eq(habits.id, id), eq(habits.userId, userId))).returning({ id: habits.id });
+    if (deleted.length > 0) await db.delete(habitCompletions).where(eq(habitCompletions.habitId, id));
+    return deleted.length > 0;
   }
-  async getHabitCompletions(habitId?: string): Promise<HabitCompletion[]> {
-    if (habitId) return db.select().from(habitCompletions).where(eq(habitCompletions.habitId, habitId)).orderBy(desc(habitCompletions.date));
-    return db.select().from(habitCompletions).orderBy(desc(habitCompletions.date));
+  async getHabitCompletions(userId: string, habitId?: string): Promise<HabitCompletion[]> {
+    const visibleHabitIds = db.select({ id: habits.id }).from(habits).where(visibleTo(habits, userId));
+    const visible = inArray(habitCompletions.habitId, visibleHabitIds);
+    return db.select().from(habitCompletions)
+      .where(habitId ? and(visible, eq(habitCompletions.habitId, habitId)) : visible)
+      .orderBy(desc(habitCompletions.date));
   }
   async createHabitCompletion(data: InsertHabitCompletion): Promise<HabitCompletion> {
     const [c] = await db.insert(habitCompletions).values(data).returning();
     return c;
   }
-  async deleteHabitCompletion(id: string): Promise<void> {
-    await db.delete(habitCompletions).where(eq(habitCompletions.id, id));
+  async deleteHabitCompletion(userId: string, id: string): Promise<boolean> {
+    const visibleHabitIds = db.select({ id: habits.id }).from(habits).where(visibleTo(habits, userId));
+    const deleted = await db.delete(habitCompletions)
+      .where(and(eq(habitCompletions.id, id), inArray(habitCompletions.habitId, visibleHabitIds)))
+      .returning({ id: habitCompletions.id });
+    return deleted.length > 0;
   }
 
   async getMeetingPreps(): Promise<MeetingPrep[]> {
@@ -1101,27 +1749,37 @@ export class DatabaseStorage implements IStorage {
     await db.delete(meetingPreps).where(eq(meetingPreps.id, id));
   }
 
-  async getFocusSessions(): Promise<FocusSession[]> {
-    return db.select().from(focusSessions).orderBy(desc(focusSessions.completedAt));
+  async getFocusSessions(userId: string): Promise<FocusSession[]> {
+    return db.select().from(focusSessions).where(visibleTo(focusSessions, userId)).orderBy(desc(focusSessions.completedAt));
   }
-  async createFocusSession(data: InsertFocusSession): Promise<FocusSession> {
-    const [session] = await db.insert(focusSessions).values(data).returning();
+  async createFocusSession(userId: string, data: InsertFocusSession): Promise<FocusSession> {
+    const [session] = await db.insert(focusSessions).values({ ...data, userId }).returning();
     return session;
   }
 
-  async getLifeEvents(): Promise<LifeEvent[]> {
-    return db.select().from(lifeEvents).orderBy(desc(lifeEvents.date));
+  async getLifeEvents(userId: string): Promise<LifeEvent[]> {
+    return db.select().from(lifeEvents).where(visibleTo(lifeEvents, userId)).orderBy(desc(lifeEvents.date));
   }
-  async createLifeEvent(data: InsertLifeEvent): Promise<LifeEvent> {
-    const [event] = await db.insert(lifeEvents).values(data).returning();
+  async createLifeEvent(userId: string, data: InsertLifeEvent): Promise<LifeEvent> {
+    const [event] = await db.insert(lifeEvents).values({ ...data, userId }).returning();
     return event;
   }
-  async updateLifeEvent(id: string, data: Partial<InsertLifeEvent>): Promise<LifeEvent | undefined> {
-    const [event] = await db.update(lifeEvents).set(data).where(eq(lifeEvents.id, id)).returning();
+  async updateLifeEvent(userId: string, id: string, data: Partial<InsertLifeEvent>): Promise<LifeEvent | undefined> {
+    const [event] = await db.update(lifeEvents).set(data).where(and(eq(lifeEvents.id, id), editableBy(lifeEvents, userId, data))).returning();
     return event;
   }
-  async deleteLifeEvent(id: string): Promise<void> {
-    await db.delete(lifeEvents).where(eq(lifeEvents.id, id));
+  async deleteLifeEvent(userId: string, id: string): Promise<boolean> {
+    const deleted = await db.delete(lifeEvents).where(and(eq(lifeEvents.id, id), eq(lifeEvents.userId, userId))).returning({ id: lifeEvents.id });
+    return deleted.length > 0;
+  }
+
+  async claimUnownedPersonalData(userId: string): Promise<number> {
+    let claimed = 0;
+    for (const table of PERSONAL_TABLES) {
+      const rows = await db.update(table).set({ userId }).where(isNull(table.userId)).returning({ id: table.id });
+      claimed += rows.length;
+    }
+    return claimed;
   }
 
   async getConnectedDevices(): Promise<ConnectedDevice[]> {
@@ -0,0 +1,309 @@
+import { randomBytes, randomUUID } from "crypto";
+import type { Server } from "http";
+import { StringDecoder } from "string_decoder";
+import { WebSocket, WebSocketServer } from "ws";
+import { storage } from "./storage";
+import { executeSSHRawCommand, openSSHShell, type SSHConnectionConfig } from "./ssh";
+import { buildRunOnNodeCommand, parseNodeRunResult } from "./ai-task-runner";
+import { startTerminalRecording } from "./operation-recorder";
+
+const WS_PATH = "/terminal-ws";
+const TICKET_TTL_MS = 30000;
+const IDLE_TIMEOUT_MS = 15 * 60 * 1000;
+const NODE_COMMAND_TIMEOUT_MS = 120000;
+// Node invokes carry their own timeout; give the SSH hop to the gateway some headroom on top.
+const NODE_SSH_HEADROOM_MS = 15000;
+const MAX_LINE_LENGTH = 4096;
+
+export type TerminalTarget =
+  | { kind: "vps"; label: string; sshConfig: SSHConnectionConfig }
+  | { kind: "node"; label: string; sshConfig: SSHConnectionConfig; node: string };
+
+export interface TerminalSize {
+  cols: number;
+  rows: number;
+}
+
+export interface TerminalSessionInfo {
+  id: string;
+  label: string;
+  kind: TerminalTarget["kind"];
+  userId: string | null;
+  startedAt: string;
+  lastInputAt: string;
+}
+
+interface TerminalTicket {
+  target: TerminalTarget;
+  userId: string | null;
+  size: TerminalSize;
+  expiresAt: number;
+}
+
+interface TerminalBackend {
+  input(data: string): void;
+  resize(size: TerminalSize): void;
+  close(): void;
+}
+
+interface ActiveTerminal {
+  id: string;
+  target: TerminalTarget;
+  userId: string | null;
+  startedAt: number;
+  lastInputAt: number;
+  ws: WebSocket;
+}
+
+type ServerMessage =
+  | { type: "output"; data: string }
+  | { type: "status"; message: string }
+  | { type: "exit"; reason: string };
+
+const tickets = new Map<string, TerminalTicket>();
+const activeTerminals = new Map<string, ActiveTerminal>();
+
+function clampSize(size: Partial<TerminalSize> | undefined): TerminalSize {
+  const clamp = (value: unknown, fallback: number) =>
+    typeof value === "number" && Number.isFinite(value) ? Math.min(500, Math.max(1, Math.floor(value))) : fallback;
+  return { cols: clamp(size?.cols, 80), rows: clamp(size?.rows, 24) };
+}
+
+function pruneTickets() {
+  const now = Date.now();
+  tickets.forEach((ticket, key) => {
+    if (ticket.expiresAt <= now) tickets.delete(key);
+  });
+}
+
+/**
+ * Issues a one-time ticket for opening a terminal. The ticket is created by an authenticated,
+ * permission-checked request, so the WebSocket upgrade itself only has to redeem it.
+ */
+export function createTerminalTicket(target: TerminalTarget, userId: string | null, size?: Partial<TerminalSize>): { ticket: string; expiresAt: string } {
+  pruneTickets();
+  const ticket = randomBytes(24).toString("base64url");
+  const expiresAt = Date.now() + TICKET_TTL_MS;
+  tickets.set(ticket, { target, userId, size: clampSize(size), expiresAt });
+  return { ticket, expiresAt: new Date(expiresAt).toISOString() };
+}
+
+function redeemTicket(ticket: string | null): TerminalTicket | null {
+  if (!ticket) return null;
+  const entry = tickets.get(ticket);
+  tickets.delete(ticket);
+  if (!entry || entry.expiresAt <= Date.now()) return null;
+  return entry;
+}
+
+export function listTerminalSessions(): TerminalSessionInfo[] {
+  return Array.from(activeTerminals.values()).map(t => ({
+    id: t.id,
+    label: t.target.label,
+    kind: t.target.kind,
+    userId: t.userId,
+    startedAt: new Date(t.startedAt).toISOString(),
+    lastInputAt: new Date(t.lastInputAt).toISOString(),
+  }));
+}
+
+export function closeTerminalSession(id: string): boolean {
+  const terminal = activeTerminals.get(id);
+  if (!terminal) return false;
+  terminal.ws.close(1000, "Closed by an administrator");
+  return true;
+}
+
+function audit(action: string, details: string, userId: string | null) {
+  storage.createAuditLog({ action, actionType: "terminal_session", details, userId }).catch(() => {});
+}
+
+async function openShellBackend(target: TerminalTarget, size: TerminalSize, emit: (data: string) => void, onExit: (reason: string) => void): Promise<TerminalBackend> {
+  const shell = await openSSHShell(target.sshConfig, size);
+  const stdout = new StringDecoder("utf8");
+  const stderr = new StringDecoder("utf8");
+  shell.channel.on("data", (data: Buffer) => emit(stdout.write(data)));
+  shell.channel.stderr.on("data", (data: Buffer) => emit(stderr.write(data)));
+  shell.channel.on("close", () => onExit("Shell exited"));
+  return {
+    input: data => shell.channel.write(data),
+    resize: ({ cols, rows }) => shell.resize(cols, rows),
+    close: () => shell.close(),
+  };
+}
+
+/**
+ * Nodes are reached through the gateway's one-shot `system.run`, so there is no remote PTY. The
+ * line is edited and echoed here and each command runs on Enter; interactive programs are not supported.
+ */
+function openNodeBackend(target: Extract<TerminalTarget, { kind: "node" }>, emit: (data: string) => void): TerminalBackend {
+  const prompt = `\x1b[36m${target.node}\x1b[0m$ `;
+  let line = "";
+  let running: AbortController | null = null;
+  let closed = false;
+
+  const run = async (command: string) => {
+    running = new AbortController();
+    const result = await executeSSHRawCommand(buildRunOnNodeCommand(target.node, command, NODE_COMMAND_TIMEOUT_MS), target.sshConfig, 0, {
+      signal: running.signal,
+      timeoutMs: NODE_COMMAND_TIMEOUT_MS + NODE_SSH_HEADROOM_MS,
+    }).then(parseNodeRunResult);
+    running = null;
+    if (closed) return;
+    const output = [result.output, result.success ? "" : result.error].filter(Boolean).join("\n");
+    if (output) emit(output.replace(/\r?\n/g, "\r\n") + "\r\n");
+    if (!result.success && result.exitCode !== undefined) emit(`\x1b[31m[exit ${result.exitCode}]\x1b[0m\r\n`);
+    emit(prompt);
+  };
+
+  emit(`Connected to ${target.node} through the gateway. Commands run one at a time; interactive programs are not supported.\r\n${prompt}`);
+
+  return {
+    input(data) {
+      if (data.startsWith("\x1b")) return;
+      for (const ch of data) {
+        if (running) {
+          if (ch === "\x03") {
+            running.abort();
+            emit("^C\r\n");
+          }
+          continue;
+        }
+        if (ch === "\r" || ch === "\n") {
+          emit("\r\n");
+          const command = line.trim();
+          line = "";
+          if (command) run(command).catch(err => emit(`\x1b[31m${err.message}\x1b[0m\r\n${prompt}`));
+          else emit(prompt);
+        } else if (ch === "\x7f" || ch === "\b") {
+          if (line.length > 0) {
+            line = line.slice(0, -1);
+            emit("\b \b");
+          }
+        } else if (ch === "\x03") {
+          line = "";
+          emit(`^C\r\n${prompt}`);
+        } else if (ch >= " " && line.length < MAX_LINE_LENGTH) {
+          line += ch;
+          emit(ch);
+        }
+      }
+    },
+    resize() {},
+    close() {
+      closed = true;
+      running?.abort();
+    },
+  };
+}
+
+function handleTerminal(ws: WebSocket, ticket: TerminalTicket) {
+  const terminal: ActiveTerminal = {
+    id: randomUUID(),
+    target: ticket.target,
+    userId: ticket.userId,
+    startedAt: Date.now(),
+    lastInputAt: Date.now(),
+    ws,
+  };
+  activeTerminals.set(terminal.id, terminal);
+
+  const recording = startTerminalRecording(
+    { label: ticket.target.label, kind: ticket.target.kind, config: ticket.target.sshConfig },
+    ticket.userId,
+  );
+  let backend: TerminalBackend | null = null;
+  let ended = false;
+  let exitReason = "Closed by the browser";
+  let bytesIn = 0;
+  let bytesOut = 0;
+  let idleTimer: ReturnType<typeof setTimeout> | undefined;
+
+  const send = (message: ServerMessage) => {
+    if (ws.readyState === WebSocket.OPEN) ws.send(JSON.stringify(message));
+  };
+  const emit = (data: string) => {
+    if (!data) return;
+    bytesOut += data.length;
+    recording.append("o", data);
+    send({ type: "output", data });
+  };
+  const end = (reason: string) => {
+    if (ended) return;
+    exitReason = reason;
+    send({ type: "exit", reason });
+    ws.close(1000, reason.slice(0, 120));
+  };
+  const resetIdle = () => {
+    clearTimeout(idleTimer);
+    idleTimer = setTimeout(() => end(`Closed after ${IDLE_TIMEOUT_MS / 60000} minutes of inactivity`), IDLE_TIMEOUT_MS);
+  };
+
+  ws.on("close", () => {
+    ended = true;
+    clearTimeout(idleTimer);
+    backend?.close();
+    activeTerminals.delete(terminal.id);
+    const minutes = ((Date.now() - terminal.startedAt) / 60000).toFixed(1);
+    audit(`Terminal closed: ${terminal.target.label}`, `Session ${terminal.id}: ${exitReason} after ${minutes} min (${bytesIn} bytes in, ${bytesOut} bytes out)`, terminal.userId);
+    recording.save(exitReason).catch(err => console.error("[terminal] Failed to save session recording:", err.message));
+  });
+
+  ws.on("message", (raw) => {
+    let message: any;
+    try {
+      message = JSON.parse(String(raw));
+    } catch {
+      return;
+    }
+    if (message?.type === "input" && typeof message.data === "string") {
+      terminal.lastInputAt = Date.now();
+      bytesIn += message.data.length;
+      recording.append("i", message.data);
+      resetIdle();
+      backend?.input(message.data);
+    } else if (message?.type === "resize") {
+      backend?.resize(clampSize(message));
+    }
+  });
+
+  audit(`Terminal opened: ${terminal.target.label}`, `Session ${terminal.id} (${terminal.target.kind})`, terminal.userId);
+  resetIdle();
+
+  if (ticket.target.kind === "node") {
+    backend = openNodeBackend(ticket.target, emit);
+    return;
+  }
+
+  send({ type: "status", message: `Connecting to ${ticket.target.label}...` });
+  openShellBackend(ticket.target, ticket.size, emit, reason => end(reason))
+    .then(shell => {
+      if (ended) return shell.close();
+      backend = shell;
+      send({ type: "status", message: `Connected to ${ticket.target.label}` });
+    })
+    .catch(err => {
+      emit(`\x1b[31m${err.message}\x1b[0m\r\n`);
+      end("Connection failed");
+    });
+}
+
+/** Serves terminal WebSockets at /terminal-ws?ticket=<ticket> on the app's HTTP server. */
+export function setupTerminalServer(httpServer: Server) {
+  const wss = new WebSocketServer({ noServer: true });
+
+  httpServer.on("upgrade", (request, socket, head) => {
+    const url = new URL(request.url || "", "http://localhost");
+    if (url.pathname !== WS_PATH) return;
+
+    const ticket = redeemTicket(url.searchParams.get("ticket"));
+    if (!ticket) {
+      socket.write("HTTP/1.1 401 Unauthorized\r\nConnection: close\r\n\r\n");
+      socket.destroy();
+      return;
+    }
+    wss.handleUpgrade(request, socket, head, ws => handleTerminal(ws, ticket));
+  });
+
+  console.log(`[terminal] WebSocket terminal at ${WS_PATH}`);
+}
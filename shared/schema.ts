@@ -23,19 +23,30 @@ export const machines = pgTable("machines", {
   status: text("status").notNull().default("pending"),
   pairingCode: text("pairing_code"),
   displayName: text("display_name"),
+  // The node id the gateway knows this machine by; display names are labels and may be renamed.
+  gatewayNodeId: text("gateway_node_id"),
   remotePcAlias: text("remote_pc_alias"),
   lastSeen: timestamp("last_seen"),
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
+export const API_KEY_SCOPES = ["heartbeat", "home-bot", "skill-trigger"] as const;
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
 export const apiKeys = pgTable("api_keys", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   name: text("name").notNull(),
-  key: text("key").notNull(),
-  permissions: text("permissions").notNull().default("read"),
+  // Plaintext keys from before hashing; hashed and cleared on startup.
+  key: text("key"),
+  keyHash: text("key_hash").unique(),
+  keyPrefix: text("key_prefix"),
+  scopes: jsonb("scopes").$type<ApiKeyScope[]>().notNull().default([]),
+  allowedIps: jsonb("allowed_ips").$type<string[]>().notNull().default([]),
+  expiresAt: timestamp("expires_at"),
   active: boolean("active").notNull().default(true),
   createdAt: timestamp("created_at").notNull().defaultNow(),
   lastUsed: timestamp("last_used"),
+  lastUsedIp: text("last_used_ip"),
 });
 
 export const openclawInstances = pgTable("openclaw_instances", {
@@ -44,6 +55,7 @@ export const openclawInstances = pgTable("openclaw_instances", {
   description: text("description"),
   serverUrl: text("server_url"),
   apiKey: text("api_key"),
+  apiKeyHash: text("api_key_hash"),
   status: text("status").notNull().default("offline"),
   isDefault: boolean("is_default").notNull().default(false),
   createdAt: timestamp("created_at").notNull().defaultNow(),
@@ -57,6 +69,15 @@ export const vpsConnections = pgTable("vps_connections", {
   vpsPort: integer("vps_port").notNull().default(22),
   sshUser: text("ssh_user").notNull().default("root"),
   sshKeyPath: text("ssh_key_path"),
+  // Credential vault: the private key and password are stored encrypted.
+  sshPrivateKey: text("ssh_private_key"),
+  sshPublicKey: text("ssh_public_key"),
+  sshPassword: text("ssh_password"),
+  passwordAuthEnabled: boolean("password_auth_enabled").notNull().default(true),
+  keyInstalledAt: timestamp("key_installed_at"),
+  // Pinned on first connection (trust on first use); a different host key is refused.
+  hostKeyFingerprint: text("host_key_fingerprint"),
+  hostKeyPinnedAt: timestamp("host_key_pinned_at"),
   isConnected: boolean("is_connected").notNull().default(false),
   lastChecked: timestamp("last_checked"),
   createdAt: timestamp("created_at").notNull().defaultNow(),
@@ -115,24 +136,52 @@ export const llmApiKeys = pgTable("llm_api_keys", {
 
 export const insertSettingSchema = createInsertSchema(settings).omit({ id: true });
 export const insertMachineSchema = createInsertSchema(machines).omit({ id: true, lastSeen: true, createdAt: true });
-export const insertApiKeySchema = createInsertSchema(apiKeys).omit({ id: true, key: true, createdAt: true, lastUsed: true });
-export const insertInstanceSchema = createInsertSchema(openclawInstances).omit({ id: true, createdAt: true, updatedAt: true });
-export const insertVpsConnectionSchema = createInsertSchema(vpsConnections).omit({ id: true, isConnected: true, lastChecked: true, createdAt: true, updatedAt: true });
+export const insertApiKeySchema = createInsertSchema(apiKeys, {
+  scopes: z.array(z.enum(API_KEY_SCOPES)).min(1, "Select at least one scope"),
+  allowedIps: z.array(z.string().trim().min(1)).optional(),
+  expiresAt: z.coerce.date().nullable().optional(),
+}).omit({ id: true, key: true, keyHash: true, keyPrefix: true, createdAt: true, lastUsed: true, lastUsedIp: true });
+export const insertInstanceSchema = createInsertSchema(openclawInstances).omit({ id: true, apiKeyHash: true, createdAt: true, updatedAt: true });
+export const insertVpsConnectionSchema = createInsertSchema(vpsConnections).omit({
+  id: true, isConnected: true, lastChecked: true, createdAt: true, updatedAt: true,
+  sshPrivateKey: true, sshPublicKey: true, sshPassword: true, keyInstalledAt: true, hostKeyFingerprint: true, hostKeyPinnedAt: true,
+});
 export const insertDockerServiceSchema = createInsertSchema(dockerServices).omit({ id: true, lastChecked: true, createdAt: true });
 export const insertOpenclawConfigSchema = createInsertSchema(openclawConfig).omit({ id: true, gatewayStatus: true, createdAt: true, updatedAt: true });
 
 export type InsertSetting = z.infer<typeof insertSettingSchema>;
 export type Setting = typeof settings.$inferSelect;
+
+export const DEFAULT_MAINTENANCE_MESSAGE = "OpenClaw is down for maintenance. Please try again later.";
+
+// general.maintenance_mode turns maintenance on; the optional start/end (ISO timestamps) narrow it to a window.
+export interface MaintenanceState {
+  active: boolean;
+  enabled: boolean;
+  startsAt: string | null;
+  endsAt: string | null;
+  message: string;
+}
 export type InsertMachine = z.infer<typeof insertMachineSchema>;
 export type Machine = typeof machines.$inferSelect;
 export type InsertApiKey = z.infer<typeof insertApiKeySchema>;
 export type ApiKey = typeof apiKeys.$inferSelect;
+export type ApiKeySummary = Omit<ApiKey, "key" | "keyHash">;
 export type OpenclawInstance = typeof openclawInstances.$inferSelect;
 export type InsertInstance = z.infer<typeof insertInstanceSchema>;
 export type VpsConnection = typeof vpsConnections.$inferSelect;
 export type InsertVpsConnection = z.infer<typeof insertVpsConnectionSchema>;
+export type VpsCredentials = Pick<VpsConnection, "sshPrivateKey" | "sshPublicKey" | "sshPassword" | "keyInstalledAt" | "hostKeyFingerprint" | "hostKeyPinnedAt">;
+export type VpsConnectionSummary = Omit<VpsConnection, "sshPrivateKey" | "sshPassword"> & {
+  hasPrivateKey: boolean;
+  hasPassword: boolean;
+};
 export type DockerService = typeof dockerServices.$inferSelect;
 export type InsertDockerService = z.infer<typeof insertDockerServiceSchema>;
+// Integration types with a runtime adapter (test connection, send from automation steps).
+export const INTEGRATION_ADAPTER_TYPES = ["slack", "webhook", "mqtt", "email", "n8n"] as const;
+export type IntegrationAdapterType = (typeof INTEGRATION_ADAPTER_TYPES)[number];
+
 export const integrations = pgTable("integrations", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   name: text("name").notNull(),
@@ -154,9 +203,24 @@ export const users = pgTable("users", {
   username: text("username").notNull(),
   displayName: text("display_name"),
   email: text("email"),
+  role: text("role").notNull().default("viewer"),
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
+export const USER_ROLES = ["owner", "operator", "viewer"] as const;
+export type UserRole = (typeof USER_ROLES)[number];
+
+// view: read-only dashboards; operate: run day-to-day actions; manage: change infrastructure config;
+// secrets: see or change credentials; shell: run commands or write files on hosts; users: assign roles.
+export const PERMISSIONS = ["view", "operate", "manage", "secrets", "shell", "users"] as const;
+export type Permission = (typeof PERMISSIONS)[number];
+
+export const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  owner: [...PERMISSIONS],
+  operator: ["view", "operate", "manage"],
+  viewer: ["view"],
+};
+
 export const waAuthState = pgTable("wa_auth_state", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   key: text("key").notNull().unique(),
@@ -272,6 +336,124 @@ export const insertVpsConnectionLogSchema = createInsertSchema(vpsConnectionLogs
 export type VpsConnectionLog = typeof vpsConnectionLogs.$inferSelect;
 export type InsertVpsConnectionLog = z.infer<typeof insertVpsConnectionLogSchema>;
 
+export interface VpsListener {
+  port: number;
+  address: string;
+  process: string | null;
+}
+
+export interface IntrusionScanSummary {
+  scannedAt: string;
+  since: string;
+  logSource: "auth.log" | "secure" | "journald" | "none";
+  failedLogins: number;
+  failuresByIp: Array<{ ip: string; count: number }>;
+  rootLogins: Array<{ ip: string; at: string; trusted: boolean }>;
+  fail2ban: { installed: boolean; jails: Array<{ name: string; currentlyFailed: number; currentlyBanned: number; totalBanned: number; bannedIps: string[] }> };
+  listeners: VpsListener[];
+  unapprovedPorts: number[];
+  missingPorts: number[];
+  blockedIps: string[];
+  error?: string;
+}
+
+// Per-instance intrusion monitoring settings plus the approved listening-port baseline.
+export const vpsSecurityBaselines = pgTable("vps_security_baselines", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  instanceId: varchar("instance_id").notNull().unique(),
+  approvedPorts: jsonb("approved_ports").$type<number[]>().notNull().default([]),
+  trustedIps: jsonb("trusted_ips").$type<string[]>().notNull().default([]),
+  failureThreshold: integer("failure_threshold").notNull().default(20),
+  autoBlock: boolean("auto_block").notNull().default(false),
+  firewallBlockedIps: jsonb("firewall_blocked_ips").$type<string[]>().notNull().default([]),
+  lastScan: jsonb("last_scan").$type<IntrusionScanSummary>(),
+  lastScanAt: timestamp("last_scan_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const updateVpsSecurityBaselineSchema = z.object({
+  approvedPorts: z.array(z.number().int().min(1).max(65535)),
+  trustedIps: z.array(z.string().trim().min(1)),
+  failureThreshold: z.number().int().min(1).max(10000),
+  autoBlock: z.boolean(),
+}).partial();
+export type VpsSecurityBaseline = typeof vpsSecurityBaselines.$inferSelect;
+export type UpdateVpsSecurityBaseline = z.infer<typeof updateVpsSecurityBaselineSchema>;
+
+// Rotation bookkeeping per Secrets Inventory entry. Secrets the dashboard regenerates itself keep
+// their current value (encrypted) in managedValue, which overrides the environment on startup.
+export const secretRotations = pgTable("secret_rotations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  secretKey: text("secret_key").notNull().unique(),
+  owner: text("owner"),
+  rotationIntervalDays: integer("rotation_interval_days"),
+  lastRotatedAt: timestamp("last_rotated_at"),
+  lastRotatedBy: varchar("last_rotated_by"),
+  managedValue: text("managed_value"),
+  lastOverdueAlertAt: timestamp("last_overdue_alert_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const updateSecretRotationSchema = z.object({
+  owner: z.string().trim().max(100).nullable(),
+  rotationIntervalDays: z.number().int().min(1).max(3650).nullable(),
+  lastRotatedAt: z.coerce.date().nullable(),
+}).partial();
+export type SecretRotation = typeof secretRotations.$inferSelect;
+export type UpdateSecretRotation = z.infer<typeof updateSecretRotationSchema>;
+
+export const OPENCLAW_CONFIG_FILES = ["openclaw.json", "node.json"] as const;
+export type OpenclawConfigFile = typeof OPENCLAW_CONFIG_FILES[number];
+export const OPENCLAW_CONFIG_VERSION_SOURCES = ["baseline", "deploy", "rollback"] as const;
+
+// Versions of the VPS config files deployed from the dashboard. The files carry gateway
+// credentials, so content is encrypted at rest.
+export const openclawConfigVersions = pgTable("openclaw_config_versions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  instanceId: varchar("instance_id").notNull(),
+  file: text("file").notNull(),
+  content: text("content").notNull(),
+  contentHash: text("content_hash").notNull(),
+  source: text("source").notNull(),
+  note: text("note"),
+  userId: varchar("user_id"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertOpenclawConfigVersionSchema = createInsertSchema(openclawConfigVersions, {
+  file: z.enum(OPENCLAW_CONFIG_FILES),
+  source: z.enum(OPENCLAW_CONFIG_VERSION_SOURCES),
+}).omit({ id: true, createdAt: true });
+export type OpenclawConfigVersion = typeof openclawConfigVersions.$inferSelect;
+export type InsertOpenclawConfigVersion = z.infer<typeof insertOpenclawConfigVersionSchema>;
+
+// Known keys of the VPS config files. Keys not listed here are kept as-is.
+export const openclawJsonSchema = z.object({
+  meta: z.object({ lastTouchedVersion: z.string() }).partial().passthrough().optional(),
+  gateway: z.object({
+    mode: z.enum(["local", "remote"]).optional(),
+    port: z.number().int().min(1).max(65535).optional(),
+    bind: z.string().min(1).optional(),
+    auth: z.object({
+      mode: z.enum(["token", "password"]).optional(),
+      token: z.string().min(1).optional(),
+      password: z.string().min(1).optional(),
+    }).passthrough().refine(
+      (auth) => (auth.mode === "password" ? !!auth.password : !!auth.token),
+      (auth) => ({ message: auth.mode === "password" ? "Password auth needs gateway.auth.password" : "Token auth needs gateway.auth.token" }),
+    ),
+    tailscale: z.object({ mode: z.string(), resetOnExit: z.boolean() }).partial().passthrough().optional(),
+    controlUi: z.object({ allowedOrigins: z.array(z.string().url()) }).partial().passthrough().optional(),
+  }).passthrough(),
+}).passthrough();
+
+export const openclawNodeJsonSchema = z.object({
+  host: z.string().min(1).optional(),
+  port: z.number().int().min(1).max(65535).optional(),
+}).passthrough();
+
 export const insertNodeSetupSessionSchema = createInsertSchema(nodeSetupSessions).omit({ id: true, createdAt: true, updatedAt: true });
 export type NodeSetupSession = typeof nodeSetupSessions.$inferSelect;
 export type InsertNodeSetupSession = z.infer<typeof insertNodeSetupSessionSchema>;
@@ -310,7 +492,7 @@ export const featureProposals = pgTable("feature_proposals", {
 export const insertGuardianLogSchema = createInsertSchema(guardianLogs).omit({ id: true, createdAt: true });
 export const insertFeatureProposalSchema = createInsertSchema(featureProposals).omit({ id: true, createdAt: true, updatedAt: true, reviewedAt: true });
 
-export const insertUserSchema = createInsertSchema(users).omit({ id: true, createdAt: true });
+export const insertUserSchema = createInsertSchema(users, { role: z.enum(USER_ROLES).optional() }).omit({ id: true, createdAt: true });
 export const insertIntegrationSchema = createInsertSchema(integrations).omit({ id: true, createdAt: true, updatedAt: true });
 export const insertLlmApiKeySchema = createInsertSchema(llmApiKeys).omit({ id: true, createdAt: true });
 export const insertWhatsappSessionSchema = createInsertSchema(whatsappSessions).omit({ id: true, approvedAt: true, lastMessageAt: true, createdAt: true });
@@ -329,6 +511,70 @@ export type InsertGuardianLog = z.infer<typeof insertGuardianLogSchema>;
 export type FeatureProposal = typeof featureProposals.$inferSelect;
 export type InsertFeatureProposal = z.infer<typeof insertFeatureProposalSchema>;
 
+export type AutomationNotifyTargets = {
+  whatsapp?: string;
+  telegram?: string;
+  email?: string;
+};
+
+export type AutomationStepCondition = {
+  step: string;
+  status?: "completed" | "failed";
+  exitCode?: number;
+  outputMatches?: string;
+  negate?: boolean;
+};
+
+export type AutomationWorkflowStep = {
+  id: string;
+  name?: string;
+  type: "ssh" | "node" | "http" | "llm" | "message" | "integration";
+  dependsOn?: string[];
+  when?: AutomationStepCondition;
+  allowFailure?: boolean;
+  timeoutSeconds?: number;
+  captures?: Record<string, string>;
+  command?: string;
+  node?: string;
+  url?: string;
+  method?: string;
+  headers?: Record<string, string>;
+  body?: string;
+  prompt?: string;
+  channel?: "whatsapp" | "telegram" | "email";
+  integration?: IntegrationAdapterType;
+  to?: string;
+  text?: string;
+};
+
+export type AutomationStepResult = {
+  id: string;
+  name?: string;
+  type: string;
+  status: string;
+  output?: string;
+  exitCode?: number;
+  attempt?: number;
+  skipReason?: string;
+  startedAt?: string;
+  completedAt?: string;
+  durationMs?: number;
+};
+
+export type AutomationEventFilter = {
+  field: string;
+  op: "equals" | "contains" | "matches";
+  value: string;
+};
+
+export type AutomationEvent = {
+  id: string;
+  type: string;
+  source: string;
+  payload: Record<string, any>;
+  timestamp: string;
+};
+
 export const automationJobs = pgTable("automation_jobs", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   name: text("name").notNull(),
@@ -336,6 +582,27 @@ export const automationJobs = pgTable("automation_jobs", {
   command: text("command").notNull(),
   template: text("template"),
   enabled: boolean("enabled").notNull().default(true),
+  triggerType: text("trigger_type").notNull().default("schedule"),
+  eventType: text("event_type"),
+  eventFilters: jsonb("event_filters").$type<AutomationEventFilter[]>(),
+  eventCooldownSeconds: integer("event_cooldown_seconds").notNull().default(60),
+  timezone: text("timezone"),
+  catchUpPolicy: text("catch_up_policy").notNull().default("skip"),
+  concurrencyPolicy: text("concurrency_policy").notNull().default("skip"),
+  targetType: text("target_type").notNull().default("default"),
+  targetInstanceId: varchar("target_instance_id"),
+  targetNode: text("target_node"),
+  targetGroupId: varchar("target_group_id"),
+  maxRetries: integer("max_retries").notNull().default(0),
+  retryBackoffSeconds: integer("retry_backoff_seconds").notNull().default(30),
+  timeoutSeconds: integer("timeout_seconds"),
+  maxOutputChars: integer("max_output_chars").notNull().default(20000),
+  outputTruncation: text("output_truncation").notNull().default("tail"),
+  notifyOnFailure: boolean("notify_on_failure").notNull().default(false),
+  notifyOnRecovery: boolean("notify_on_recovery").notNull().default(false),
+  notifyTargets: jsonb("notify_targets").$type<AutomationNotifyTargets>(),
+  steps: jsonb("steps").$type<AutomationWorkflowStep[]>(),
+  lastStatus: text("last_status"),
   lastRun: timestamp("last_run"),
   nextRun: timestamp("next_run"),
   createdAt: timestamp("created_at").notNull().defaultNow(),
@@ -344,12 +611,28 @@ export const automationJobs = pgTable("automation_jobs", {
 export const automationRuns = pgTable("automation_runs", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   jobId: varchar("job_id").notNull(),
+  target: text("target"),
+  trigger: text("trigger").notNull().default("schedule"),
+  event: jsonb("event").$type<AutomationEvent>(),
   status: text("status").notNull().default("pending"),
   output: text("output"),
+  outputTruncated: boolean("output_truncated").notNull().default(false),
+  exitCode: integer("exit_code"),
+  durationMs: integer("duration_ms"),
+  attempt: integer("attempt").notNull().default(1),
+  stepResults: jsonb("step_results").$type<AutomationStepResult[]>(),
   startedAt: timestamp("started_at").notNull().defaultNow(),
   completedAt: timestamp("completed_at"),
 });
 
+export const machineGroups = pgTable("machine_groups", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  description: text("description"),
+  machineIds: jsonb("machine_ids").$type<string[]>().notNull().default([]),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
 export const metricsEvents = pgTable("metrics_events", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   type: text("type").notNull(),
@@ -359,14 +642,91 @@ export const metricsEvents = pgTable("metrics_events", {
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
-export const insertAutomationJobSchema = createInsertSchema(automationJobs).omit({ id: true, lastRun: true, nextRun: true, createdAt: true });
-export const insertAutomationRunSchema = createInsertSchema(automationRuns).omit({ id: true, startedAt: true, completedAt: true });
+export const AUTOMATION_CATCH_UP_POLICIES = ["skip", "latest", "all"] as const;
+export const AUTOMATION_CONCURRENCY_POLICIES = ["skip", "queue", "cancel"] as const;
+export const AUTOMATION_TARGET_TYPES = ["default", "instance", "node", "group"] as const;
+export const AUTOMATION_OUTPUT_TRUNCATION = ["head", "tail", "both"] as const;
+export const AUTOMATION_TRIGGER_TYPES = ["schedule", "event"] as const;
+export const AUTOMATION_EVENT_TYPES = [
+  "guardian.log",
+  "node.stale",
+  "node.online",
+  "github.webhook",
+  "skill.trigger",
+  "whatsapp.state",
+  "security.event",
+  "mqtt.message",
+] as const;
+export const AUTOMATION_STEP_TYPES = ["ssh", "node", "http", "llm", "message", "integration"] as const;
+export const AUTOMATION_MESSAGE_CHANNELS = ["whatsapp", "telegram", "email"] as const;
+
+export const automationWorkflowStepSchema = z.object({
+  id: z.string().regex(/^[A-Za-z0-9_-]+$/, "Step IDs may only contain letters, digits, - and _"),
+  name: z.string().optional(),
+  type: z.enum(AUTOMATION_STEP_TYPES),
+  dependsOn: z.array(z.string()).optional(),
+  when: z.object({
+    step: z.string(),
+    status: z.enum(["completed", "failed"]).optional(),
+    exitCode: z.number().int().optional(),
+    outputMatches: z.string().optional(),
+    negate: z.boolean().optional(),
+  }).optional(),
+  allowFailure: z.boolean().optional(),
+  timeoutSeconds: z.number().int().min(5).max(24 * 3600).optional(),
+  captures: z.record(z.string()).optional(),
+  command: z.string().optional(),
+  node: z.string().optional(),
+  url: z.string().optional(),
+  method: z.string().optional(),
+  headers: z.record(z.string()).optional(),
+  body: z.string().optional(),
+  prompt: z.string().optional(),
+  channel: z.enum(AUTOMATION_MESSAGE_CHANNELS).optional(),
+  integration: z.enum(INTEGRATION_ADAPTER_TYPES).optional(),
+  to: z.string().optional(),
+  text: z.string().optional(),
+});
+
+export const insertAutomationJobSchema = createInsertSchema(automationJobs, {
+  triggerType: z.enum(AUTOMATION_TRIGGER_TYPES).optional(),
+  eventType: z.enum(AUTOMATION_EVENT_TYPES).nullable().optional(),
+  eventFilters: z.array(z.object({
+    field: z.string().min(1),
+    op: z.enum(["equals", "contains", "matches"]),
+    value: z.string(),
+  })).max(20).nullable().optional(),
+  eventCooldownSeconds: z.number().int().min(0).max(24 * 3600).optional(),
+  catchUpPolicy: z.enum(AUTOMATION_CATCH_UP_POLICIES).optional(),
+  concurrencyPolicy: z.enum(AUTOMATION_CONCURRENCY_POLICIES).optional(),
+  targetType: z.enum(AUTOMATION_TARGET_TYPES).optional(),
+  maxRetries: z.number().int().min(0).max(10).optional(),
+  retryBackoffSeconds: z.number().int().min(1).max(3600).optional(),
+  timeoutSeconds: z.number().int().min(5).max(24 * 3600).nullable().optional(),
+  maxOutputChars: z.number().int().min(500).max(1000000).optional(),
+  outputTruncation: z.enum(AUTOMATION_OUTPUT_TRUNCATION).optional(),
+  notifyTargets: z.object({
+    whatsapp: z.string().optional(),
+    telegram: z.string().optional(),
+    email: z.string().email().optional(),
+  }).nullable().optional(),
+  steps: z.array(automationWorkflowStepSchema).max(50).nullable().optional(),
+}).omit({ id: true, lastStatus: true, lastRun: true, nextRun: true, createdAt: true });
+export const insertAutomationRunSchema = createInsertSchema(automationRuns, {
+  stepResults: z.array(z.custom<AutomationStepResult>()).nullable().optional(),
+  event: z.custom<AutomationEvent>().nullable().optional(),
+}).omit({ id: true, startedAt: true, completedAt: true });
+export const insertMachineGroupSchema = createInsertSchema(machineGroups, {
+  machineIds: z.array(z.string()),
+}).omit({ id: true, createdAt: true });
 export const insertMetricsEventSchema = createInsertSchema(metricsEvents).omit({ id: true, createdAt: true });
 
 export type AutomationJob = typeof automationJobs.$inferSelect;
 export type InsertAutomationJob = z.infer<typeof insertAutomationJobSchema>;
 export type AutomationRun = typeof automationRuns.$inferSelect;
 export type InsertAutomationRun = z.infer<typeof insertAutomationRunSchema>;
+export type MachineGroup = typeof machineGroups.$inferSelect;
+export type InsertMachineGroup = z.infer<typeof insertMachineGroupSchema>;
 export type MetricsEvent = typeof metricsEvents.$inferSelect;
 export type InsertMetricsEvent = z.infer<typeof insertMetricsEventSchema>;
 
@@ -389,6 +749,29 @@ export const insertEmailWorkflowSchema = createInsertSchema(emailWorkflows).omit
 export type EmailWorkflow = typeof emailWorkflows.$inferSelect;
 export type InsertEmailWorkflow = z.infer<typeof insertEmailWorkflowSchema>;
 
+export const EMAIL_WORKFLOW_ACTIONS = ["forward", "label", "todo", "whatsapp", "ai-summarize", "ai-reply", "log"] as const;
+export const EMAIL_MAILBOX_SOURCES = ["gmail", "imap"] as const;
+
+// One row per (workflow, message); dedupeKey is unique so a message can only ever fire a workflow once.
+export const emailWorkflowMatches = pgTable("email_workflow_matches", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  workflowId: varchar("workflow_id").notNull(),
+  dedupeKey: text("dedupe_key").notNull().unique(),
+  mailbox: text("mailbox").notNull(),
+  messageId: text("message_id").notNull(),
+  subject: text("subject"),
+  sender: text("sender"),
+  action: text("action").notNull(),
+  status: text("status").notNull().default("running"),
+  output: text("output"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  completedAt: timestamp("completed_at"),
+});
+
+export const insertEmailWorkflowMatchSchema = createInsertSchema(emailWorkflowMatches).omit({ id: true, createdAt: true });
+export type EmailWorkflowMatch = typeof emailWorkflowMatches.$inferSelect;
+export type InsertEmailWorkflowMatch = z.infer<typeof insertEmailWorkflowMatchSchema>;
+
 export const auditLogs = pgTable("audit_logs", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   action: text("action").notNull(),
@@ -402,6 +785,275 @@ export const insertAuditLogSchema = createInsertSchema(auditLogs).omit({ id: tru
 export type AuditLog = typeof auditLogs.$inferSelect;
 export type InsertAuditLog = z.infer<typeof insertAuditLogSchema>;
 
+export const OPERATION_TYPES = ["ssh_command", "gateway_action", "file_write", "ai_task", "terminal"] as const;
+export type OperationType = (typeof OPERATION_TYPES)[number];
+
+// [milliseconds since start, "i" for input or "o" for output, data]
+export type OperationTranscriptEvent = [number, "i" | "o", string];
+
+// One row per privileged command run on a VPS or node, with redacted output for search and replay.
+export const operationRecords = pgTable("operation_records", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  operationType: text("operation_type").$type<OperationType>().notNull(),
+  source: text("source").notNull(),
+  summary: text("summary"),
+  command: text("command").notNull(),
+  input: text("input"),
+  targetHost: text("target_host").notNull(),
+  userId: varchar("user_id"),
+  stdout: text("stdout").notNull().default(""),
+  stderr: text("stderr").notNull().default(""),
+  exitCode: integer("exit_code"),
+  success: boolean("success").notNull(),
+  durationMs: integer("duration_ms").notNull(),
+  truncated: boolean("truncated").notNull().default(false),
+  transcript: jsonb("transcript").$type<OperationTranscriptEvent[]>(),
+  startedAt: timestamp("started_at").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertOperationRecordSchema = createInsertSchema(operationRecords, {
+  operationType: z.enum(OPERATION_TYPES),
+  transcript: z.array(z.tuple([z.number(), z.enum(["i", "o"]), z.string()])).nullish(),
+}).omit({ id: true, createdAt: true });
+export type OperationRecord = typeof operationRecords.$inferSelect;
+export type InsertOperationRecord = z.infer<typeof insertOperationRecordSchema>;
+export type OperationRecordSummary = Omit<OperationRecord, "stdout" | "stderr" | "input" | "transcript">;
+
+export interface OperationRecordFilter {
+  q?: string;
+  operationType?: OperationType;
+  userId?: string;
+  targetHost?: string;
+  success?: boolean;
+  from?: Date;
+  to?: Date;
+}
+
+export const NOTIFICATION_CATEGORIES = [
+  "machine_offline", "maintenance_due", "guardian", "security", "automation", "calendar", "low_stock", "revenue_milestone", "system",
+] as const;
+export type NotificationCategory = (typeof NOTIFICATION_CATEGORIES)[number];
+export const NOTIFICATION_SEVERITIES = ["info", "warning", "critical"] as const;
+export type NotificationSeverity = (typeof NOTIFICATION_SEVERITIES)[number];
+export const NOTIFICATION_CHANNELS = ["email", "whatsapp", "telegram", "webhook"] as const;
+export type NotificationChannel = (typeof NOTIFICATION_CHANNELS)[number];
+export const DIGEST_FREQUENCIES = ["realtime", "hourly", "daily", "weekly"] as const;
+export type DigestFrequency = (typeof DIGEST_FREQUENCIES)[number];
+
+// Values used when a notifications.* setting has never been saved (settings are only seeded on a fresh database).
+export const NOTIFICATION_SETTING_DEFAULTS: Record<string, string> = {
+  "notifications.email_enabled": "true",
+  "notifications.push_enabled": "true",
+  "notifications.inapp_enabled": "true",
+  "notifications.whatsapp_enabled": "true",
+  "notifications.telegram_enabled": "true",
+  "notifications.webhook_enabled": "false",
+  "notifications.email_to": "",
+  "notifications.whatsapp_to": "",
+  "notifications.telegram_chat_id": "",
+  "notifications.webhook_url": "",
+  "notifications.quiet_hours_start": "",
+  "notifications.quiet_hours_end": "",
+  "notifications.digest_frequency": "daily",
+  "notifications.machine_offline": "true",
+  "notifications.maintenance_due": "true",
+  "notifications.guardian": "true",
+  "notifications.security": "true",
+  "notifications.automation": "true",
+  "notifications.calendar": "true",
+  "notifications.low_stock": "true",
+  "notifications.revenue_milestone": "false",
+};
+
+export type NotificationDelivery = {
+  channel: NotificationChannel;
+  status: "sent" | "failed";
+  error?: string;
+  at: string;
+};
+
+// Alerts from every subsystem. Each row is shown in-app, delivered to the external channels the
+// notification settings allow, and included in the next digest.
+export const notifications = pgTable("notifications", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  category: text("category").notNull(),
+  severity: text("severity").notNull().default("info"),
+  title: text("title").notNull(),
+  body: text("body").notNull().default(""),
+  source: text("source").notNull(),
+  // App path the notification center opens, e.g. the machine or job the alert is about.
+  link: text("link"),
+  dedupeKey: text("dedupe_key").notNull(),
+  occurrences: integer("occurrences").notNull().default(1),
+  inApp: boolean("in_app").notNull().default(true),
+  // Ids of the users who have read it in the notification center.
+  readBy: jsonb("read_by").$type<string[]>().notNull().default([]),
+  // Waiting for quiet hours to end before it is sent to external channels.
+  held: boolean("held").notNull().default(false),
+  // Channels the sender narrowed delivery to, kept so a held notification goes out the same way; null means all.
+  channels: jsonb("channels").$type<NotificationChannel[]>(),
+  deliveries: jsonb("deliveries").$type<NotificationDelivery[]>().notNull().default([]),
+  digestedAt: timestamp("digested_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const insertNotificationSchema = createInsertSchema(notifications, {
+  category: z.enum(NOTIFICATION_CATEGORIES),
+  severity: z.enum(NOTIFICATION_SEVERITIES),
+  deliveries: z.array(z.object({
+    channel: z.enum(NOTIFICATION_CHANNELS),
+    status: z.enum(["sent", "failed"]),
+    error: z.string().optional(),
+    at: z.string(),
+  })).optional(),
+  readBy: z.array(z.string()).optional(),
+  channels: z.array(z.enum(NOTIFICATION_CHANNELS)).nullable().optional(),
+}).omit({ id: true, createdAt: true, updatedAt: true });
+export type Notification = typeof notifications.$inferSelect;
+export type InsertNotification = z.infer<typeof insertNotificationSchema>;
+// A notification as one user sees it in the notification center.
+export type UserNotification = Notification & { read: boolean };
+
+// Events external systems can subscribe to. Most come from audited actions in routes.ts (the audit action
+// type is the event type); job and gateway events come from the scheduler and the gateway health check.
+export const WEBHOOK_EVENT_TYPES = [
+  "node_approved",
+  "node_rejected",
+  "machine_change",
+  "gateway_down",
+  "gateway_up",
+  "job_failed",
+  "job_recovered",
+  "whatsapp_session_approved",
+  "skill_installed",
+  "plugin_installed",
+  "instance_change",
+  "settings_update",
+  "config_change",
+  "security_change",
+  "role_change",
+  "api_key_change",
+  "file_change",
+] as const;
+export type WebhookEventType = (typeof WEBHOOK_EVENT_TYPES)[number];
+export const WEBHOOK_DELIVERY_STATUSES = ["pending", "retrying", "delivered", "dead"] as const;
+export type WebhookDeliveryStatus = (typeof WEBHOOK_DELIVERY_STATUSES)[number];
+
+// The signing secret is encrypted at rest and only shown when it is created or rotated.
+export const webhookSubscriptions = pgTable("webhook_subscriptions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  url: text("url").notNull(),
+  secret: text("secret").notNull(),
+  // Empty means every event type.
+  events: jsonb("events").$type<WebhookEventType[]>().notNull().default([]),
+  enabled: boolean("enabled").notNull().default(true),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const insertWebhookSubscriptionSchema = createInsertSchema(webhookSubscriptions, {
+  name: z.string().trim().min(1).max(100),
+  url: z.string().url().refine(url => /^https?:\/\//i.test(url), "Only http and https URLs are supported"),
+  events: z.array(z.enum(WEBHOOK_EVENT_TYPES)).optional(),
+}).omit({ id: true, secret: true, createdAt: true, updatedAt: true });
+export type WebhookSubscription = typeof webhookSubscriptions.$inferSelect;
+export type InsertWebhookSubscription = z.infer<typeof insertWebhookSubscriptionSchema>;
+export type WebhookSubscriptionSummary = Omit<WebhookSubscription, "secret"> & { secretPreview: string };
+
+// One row per attempt chain; a redelivery is a new row pointing at the original.
+export const webhookDeliveries = pgTable("webhook_deliveries", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  subscriptionId: varchar("subscription_id").notNull(),
+  eventId: varchar("event_id").notNull(),
+  eventType: text("event_type").notNull(),
+  status: text("status").$type<WebhookDeliveryStatus>().notNull().default("pending"),
+  attempts: integer("attempts").notNull().default(0),
+  nextAttemptAt: timestamp("next_attempt_at"),
+  requestHeaders: jsonb("request_headers").$type<Record<string, string>>(),
+  requestBody: text("request_body").notNull(),
+  responseStatus: integer("response_status"),
+  responseBody: text("response_body"),
+  error: text("error"),
+  durationMs: integer("duration_ms"),
+  redeliveryOf: varchar("redelivery_of"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  lastAttemptAt: timestamp("last_attempt_at"),
+  deliveredAt: timestamp("delivered_at"),
+});
+
+export const insertWebhookDeliverySchema = createInsertSchema(webhookDeliveries, {
+  status: z.enum(WEBHOOK_DELIVERY_STATUSES).optional(),
+  requestHeaders: z.record(z.string()).nullable().optional(),
+}).omit({ id: true, createdAt: true });
+export type WebhookDelivery = typeof webhookDeliveries.$inferSelect;
+export type InsertWebhookDelivery = z.infer<typeof insertWebhookDeliverySchema>;
+
+export const SECURITY_EVENT_TYPES = ["auth_failure", "rate_limit", "suspicious_request", "ip_blocked", "blocked_request"] as const;
+export type SecurityEventType = (typeof SECURITY_EVENT_TYPES)[number];
+export const SECURITY_SEVERITIES = ["critical", "high", "medium", "low"] as const;
+export type SecuritySeverity = (typeof SECURITY_SEVERITIES)[number];
+
+export const securityEvents = pgTable("security_events", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  type: text("type").$type<SecurityEventType>().notNull(),
+  severity: text("severity").$type<SecuritySeverity>().notNull(),
+  sourceIp: text("source_ip"),
+  target: text("target").notNull(),
+  message: text("message").notNull(),
+  userAgent: text("user_agent"),
+  blocked: boolean("blocked").notNull().default(false),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertSecurityEventSchema = createInsertSchema(securityEvents, {
+  type: z.enum(SECURITY_EVENT_TYPES),
+  severity: z.enum(SECURITY_SEVERITIES),
+}).omit({ id: true, createdAt: true });
+export type SecurityEvent = typeof securityEvents.$inferSelect;
+export type InsertSecurityEvent = z.infer<typeof insertSecurityEventSchema>;
+
+export const SECURITY_POLICY_KEYS = ["auth_failures", "rate_limit", "suspicious_requests"] as const;
+export type SecurityPolicyKey = (typeof SECURITY_POLICY_KEYS)[number];
+
+// threshold events within windowMinutes trigger the policy; blockMinutes 0 means record without blocking.
+export const securityPolicies = pgTable("security_policies", {
+  key: text("key").$type<SecurityPolicyKey>().primaryKey(),
+  enabled: boolean("enabled").notNull().default(true),
+  threshold: integer("threshold").notNull(),
+  windowMinutes: integer("window_minutes").notNull(),
+  blockMinutes: integer("block_minutes").notNull().default(0),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const updateSecurityPolicySchema = z.object({
+  enabled: z.boolean(),
+  threshold: z.number().int().min(1),
+  windowMinutes: z.number().int().min(1).max(1440),
+  blockMinutes: z.number().int().min(0),
+}).partial();
+export type SecurityPolicy = typeof securityPolicies.$inferSelect;
+export type UpdateSecurityPolicy = z.infer<typeof updateSecurityPolicySchema>;
+
+export const blockedIps = pgTable("blocked_ips", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  ip: text("ip").notNull().unique(),
+  reason: text("reason").notNull(),
+  source: text("source").notNull().default("manual"),
+  expiresAt: timestamp("expires_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertBlockedIpSchema = createInsertSchema(blockedIps, {
+  ip: z.string().trim().min(1),
+  reason: z.string().trim().min(1),
+  expiresAt: z.coerce.date().nullable().optional(),
+}).omit({ id: true, createdAt: true });
+export type BlockedIp = typeof blockedIps.$inferSelect;
+export type InsertBlockedIp = z.infer<typeof insertBlockedIpSchema>;
+
 export const replitProjects = pgTable("replit_projects", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   slug: text("slug").notNull(),
@@ -441,6 +1093,8 @@ export type InsertProjectEvaluation = z.infer<typeof insertProjectEvaluationSche
 
 export const omiTodos = pgTable("omi_todos", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id"),
+  shared: boolean("shared").notNull().default(false),
   content: text("content").notNull(),
   source: text("source"),
   sourceTitle: text("source_title"),
@@ -450,7 +1104,7 @@ export const omiTodos = pgTable("omi_todos", {
   completedAt: timestamp("completed_at"),
 });
 
-export const insertOmiTodoSchema = createInsertSchema(omiTodos).omit({ id: true, createdAt: true });
+export const insertOmiTodoSchema = createInsertSchema(omiTodos).omit({ id: true, userId: true, createdAt: true });
 export type OmiTodo = typeof omiTodos.$inferSelect;
 export type InsertOmiTodo = z.infer<typeof insertOmiTodoSchema>;
 
@@ -476,6 +1130,8 @@ export type InsertOmiSop = z.infer<typeof insertOmiSopSchema>;
 
 export const healthLogs = pgTable("health_logs", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id"),
+  shared: boolean("shared").notNull().default(false),
   date: text("date").notNull(),
   sleepHours: real("sleep_hours"),
   waterGlasses: integer("water_glasses"),
@@ -487,24 +1143,28 @@ export const healthLogs = pgTable("health_logs", {
   createdAt: timestamp("created_at").notNull().defaultNow(),
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
 });
-export const insertHealthLogSchema = createInsertSchema(healthLogs).omit({ id: true, createdAt: true, updatedAt: true });
+export const insertHealthLogSchema = createInsertSchema(healthLogs).omit({ id: true, userId: true, createdAt: true, updatedAt: true });
 export type HealthLog = typeof healthLogs.$inferSelect;
 export type InsertHealthLog = z.infer<typeof insertHealthLogSchema>;
 
 export const groceryItems = pgTable("grocery_items", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id"),
+  shared: boolean("shared").notNull().default(false),
   name: text("name").notNull(),
   quantity: text("quantity"),
   category: text("category").notNull().default("Other"),
   completed: boolean("completed").notNull().default(false),
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
-export const insertGroceryItemSchema = createInsertSchema(groceryItems).omit({ id: true, createdAt: true });
+export const insertGroceryItemSchema = createInsertSchema(groceryItems).omit({ id: true, userId: true, createdAt: true });
 export type GroceryItem = typeof groceryItems.$inferSelect;
 export type InsertGroceryItem = z.infer<typeof insertGroceryItemSchema>;
 
 export const financialTransactions = pgTable("financial_transactions", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id"),
+  shared: boolean("shared").notNull().default(false),
   amount: real("amount").notNull(),
   type: text("type").notNull(),
   category: text("category").notNull(),
@@ -513,19 +1173,21 @@ export const financialTransactions = pgTable("financial_transactions", {
   section: text("section").default("personal"),
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
-export const insertFinancialTransactionSchema = createInsertSchema(financialTransactions).omit({ id: true, createdAt: true });
+export const insertFinancialTransactionSchema = createInsertSchema(financialTransactions).omit({ id: true, userId: true, createdAt: true });
 export type FinancialTransaction = typeof financialTransactions.$inferSelect;
 export type InsertFinancialTransaction = z.infer<typeof insertFinancialTransactionSchema>;
 
 export const habits = pgTable("habits", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id"),
+  shared: boolean("shared").notNull().default(false),
   name: text("name").notNull(),
   frequency: text("frequency").notNull().default("daily"),
   category: text("category"),
   target: integer("target").default(1),
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
-export const insertHabitSchema = createInsertSchema(habits).omit({ id: true, createdAt: true });
+export const insertHabitSchema = createInsertSchema(habits).omit({ id: true, userId: true, createdAt: true });
 export type Habit = typeof habits.$inferSelect;
 export type InsertHabit = z.infer<typeof insertHabitSchema>;
 
@@ -556,11 +1218,13 @@ export type InsertMeetingPrep = z.infer<typeof insertMeetingPrepSchema>;
 
 export const focusSessions = pgTable("focus_sessions", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id"),
+  shared: boolean("shared").notNull().default(false),
   taskName: text("task_name").notNull(),
   durationMinutes: integer("duration_minutes").notNull(),
   completedAt: timestamp("completed_at").notNull().defaultNow(),
 });
-export const insertFocusSessionSchema = createInsertSchema(focusSessions).omit({ id: true, completedAt: true });
+export const insertFocusSessionSchema = createInsertSchema(focusSessions).omit({ id: true, userId: true, completedAt: true });
 export type FocusSession = typeof focusSessions.$inferSelect;
 export type InsertFocusSession = z.infer<typeof insertFocusSessionSchema>;
 
@@ -624,6 +1288,8 @@ export type InsertGithubRepo = z.infer<typeof insertGithubRepoSchema>;
 
 export const lifeEvents = pgTable("life_events", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id"),
+  shared: boolean("shared").notNull().default(false),
   title: text("title").notNull(),
   description: text("description"),
   date: text("date").notNull(),
@@ -632,6 +1298,6 @@ export const lifeEvents = pgTable("life_events", {
   color: text("color"),
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
-export const insertLifeEventSchema = createInsertSchema(lifeEvents).omit({ id: true, createdAt: true });
+export const insertLifeEventSchema = createInsertSchema(lifeEvents).omit({ id: true, userId: true, createdAt: true });
 export type LifeEvent = typeof lifeEvents.$inferSelect;
 export type InsertLifeEvent = z.infer<typeof insertLifeEventSchema>;